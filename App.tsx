@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import type { Newsletter, NewsletterSection, TrendingTopic, GoogleSettings, GapiAuthData, Preset, EnhancedHistoryItem, PromptOfTheDay, Subscriber, SubscriberList, EnhancedNewsletter, EnhancedAudienceSection, AudienceConfig, WriterPersona, MismatchInfo, PerAudienceGenerationParams, MismatchResolution, TopicWithAudienceId } from './types';
 import { AppProviders, useNewsletter, useTopics, useAudienceSelection, useTrendingContent, useNavigation, useError, useModals, useAuth, useSettings } from './contexts';
 import { Header } from './components/Header';
@@ -6,7 +6,8 @@ import { NewsletterPreview } from './components/NewsletterPreview';
 import { ImageEditorModal } from './components/ImageEditorModal';
 import { Spinner } from './components/Spinner';
 import { SparklesIcon, SearchIcon, LightbulbIcon, PlusIcon, XIcon, DriveIcon, SheetIcon, SendIcon, RefreshIcon, TypeIcon, ImageIcon, HistoryIcon, SettingsIcon, CodeIcon } from './components/IconComponents'; // Added new icons
-import { generateNewsletterContent, generateImage, generateTopicSuggestions, generateTopicSuggestionsV2, generateTrendingTopics, generateTrendingTopicsWithSources, generateCompellingTrendingContent, generateTrendingTopicsV2, savePresetsToCloud, loadPresetsFromCloud, analyzeTopicAudienceMatch } from './services/claudeService';
+import { generateNewsletterContent, generateImage, generateTopicSuggestions, generateTopicSuggestionsV2, generateTrendingTopics, generateTrendingTopicsWithSources, generateCompellingTrendingContent, generateTrendingTopicsV2, savePresetsToCloud, loadPresetsFromCloud, analyzeTopicAudienceMatch, generateNewsletterV4Streaming } from './services/claudeService';
+import type { NewsletterV4Phase, StreamingNewsletterV4Event } from './services/claudeService';
 import type { ParallelGenConfig } from './services/claudeService';
 import { InspirationSources } from './components/InspirationSources';
 import * as trendingDataService from './services/trendingDataService';
@@ -43,16 +44,52 @@ import { PersonaEditor } from './components/PersonaEditor';
 import { CalendarEntryPickerModal } from './components/CalendarEntryPickerModal';
 import { TopicMismatchModal } from './components/TopicMismatchModal';
 import { SendEmailModal, SendEmailRecipients } from './components/SendEmailModal';
+import { ScheduleSendModal } from './components/ScheduleSendModal';
+import * as schedulerApi from './services/schedulerClientService';
 import * as calendarApi from './services/calendarClientService';
 import type { CalendarEntry } from './services/calendarClientService';
 import type { SavedPrompt } from './services/promptClientService';
 import * as newsletterApi from './services/newsletterClientService';
 import * as subscriberApi from './services/subscriberClientService';
-import * as enhancedNewsletterService from './services/enhancedNewsletterService';
 import * as audienceApi from './services/audienceClientService';
-import { isEnhancedNewsletter, convertEnhancedToLegacy } from './utils/newsletterFormatUtils';
+import { isEnhancedNewsletter, convertEnhancedToLegacy, createEmptyEnhancedNewsletter } from './utils/newsletterFormatUtils';
 import { AudienceConfigEditor } from './components/AudienceConfigEditor';
+import { createEnhancedJob, waitForGenerationJob, getGenerationJob, cancelGenerationJob, resumeGenerationJob, ACTIVE_GENERATION_JOB_KEY, ACTIVE_JOB_STATUSES, RESUMABLE_JOB_STATUSES, GenerationJobCancelledError } from './services/generationJobClientService';
+import type { GenerationJobDetail } from './services/generationJobClientService';
+import { ApiError } from './services/apiHelper';
+
+// Streamed V4 generation (section-by-section preview). Off by default: the
+// enhanced (V2) pipeline is the one that enforces topic PRIMARY SOURCEs.
+const V4_STREAMING_ENABLED = import.meta.env.VITE_ENABLE_V4_STREAMING === 'true';
+
+// Progress range (start, end) covered by each streamed V4 phase; images take 90-100
+const STREAMING_PHASE_PROGRESS: Record<NewsletterV4Phase, [number, number]> = {
+    balancing: [5, 10],
+    topics: [10, 25],
+    overlaps: [25, 30],
+    sources: [30, 40],
+    sections: [40, 80],
+    merge: [80, 90],
+};
 
+const getStreamingProgress = (event: StreamingNewsletterV4Event): number | null => {
+    if (!event.phase) return null;
+    const [start, end] = STREAMING_PHASE_PROGRESS[event.phase];
+    if (event.type === 'phase_complete') return end;
+    return event.totalCount ? start + ((end - start) * (event.completedCount || 0)) / event.totalCount : start;
+};
+
+// Newsletter from a finished generation job; throws for jobs that didn't complete
+// (failed enhanced jobs carry the topic validation details the error UI shows)
+const getJobNewsletter = (job: GenerationJobDetail): EnhancedNewsletter => {
+    if (job.status === 'cancelled') {
+        throw new GenerationJobCancelledError(job.id);
+    }
+    if (job.status !== 'completed' || !job.result?.newsletter) {
+        throw new ApiError(job.errorMessage || `Generation ${job.status}`, 'GENERATION_FAILED', job.result || undefined);
+    }
+    return job.result.newsletter;
+};
 
 const audienceOptions: Record<string, { label: string; description: string }> = {
     academics: { label: 'Academics', description: 'Forensic anthropology & computational archeology professors.' },
@@ -188,6 +225,8 @@ const AppContent: React.FC = () => {
         setSelectedAudience,
         handleAudienceChange,
         getAudienceKeys,
+        audienceCategories,
+        refreshAudienceOptions,
     } = useAudienceSelection();
 
     // Trending content from TopicsContext (Phase 6g.9 Batch 1 - combined with Batch 4)
@@ -217,6 +256,7 @@ const AppContent: React.FC = () => {
         setLoading,
         progress,
         setProgress,
+        setGenerationStage,
         customAudiences,
         setCustomAudiences,
         defaultAudiences,
@@ -240,6 +280,8 @@ const AppContent: React.FC = () => {
 
     const [workflowStatus, setWorkflowStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
     const [workflowActions, setWorkflowActions] = useState<{ savedToDrive: boolean; sentEmail: boolean }>({ savedToDrive: false, sentEmail: false });
+    // Server-side generation job being followed (also kept in localStorage to reattach after a refresh)
+    const [activeGenerationJobId, setActiveGenerationJobId] = useState<string | null>(null);
 
     const [isSettingsOpen, setIsSettingsOpen] = useState(false); // This will now control the modal for initial sign-in/out feedback
 
@@ -323,6 +365,9 @@ const AppContent: React.FC = () => {
 
     // Phase 18: Send Email modal state
     const [showSendEmailModal, setShowSendEmailModal] = useState(false);
+
+    // Schedule Send modal state
+    const [showScheduleModal, setShowScheduleModal] = useState(false);
     const [mismatchData, setMismatchData] = useState<{
         mismatches: MismatchInfo[];
         selectedAudiences: AudienceConfig[];
@@ -1149,6 +1194,69 @@ const AppContent: React.FC = () => {
         }
     }, [selectedTopics, getAudienceKeys, selectedTone, getFlavorKeys, selectedImageStyle, promptOfTheDay]);
 
+    // Generate each section's image, show them in the preview and persist the imageUrls
+    const generateSectionImages = useCallback(async (generatedNewsletter: EnhancedNewsletter, imageStyle: string): Promise<EnhancedNewsletter> => {
+        // Generate images for each audience section
+        let generatedImages: Array<{ index: number; imageUrl: string | null }> = [];
+        if (generatedNewsletter.audienceSections) {
+            const imagePromises = generatedNewsletter.audienceSections.map(async (section, index) => {
+                if (section.imagePrompt) {
+                    try {
+                        const base64Image = await generateImage(section.imagePrompt, imageStyle, generatedNewsletter.id);
+                        return { index, imageUrl: `data:image/png;base64,${base64Image}` };
+                    } catch (err) {
+                        console.error(`Failed to generate image for section ${index}:`, err);
+                        return { index, imageUrl: null };
+                    }
+                }
+                return { index, imageUrl: null };
+            });
+
+            generatedImages = await Promise.all(imagePromises);
+
+            setEnhancedNewsletter(current => {
+                if (!current) return null;
+                const updatedSections = [...current.audienceSections];
+                generatedImages.forEach(img => {
+                    if (img.imageUrl && updatedSections[img.index]) {
+                        updatedSections[img.index].imageUrl = img.imageUrl;
+                    }
+                });
+                return { ...current, audienceSections: updatedSections };
+            });
+        }
+
+        setProgress(100);
+
+        // Build final newsletter with generated images
+        const finalEnhancedNewsletter: EnhancedNewsletter = {
+            ...generatedNewsletter,
+            audienceSections: generatedNewsletter.audienceSections.map((section, idx) => {
+                const generatedImg = generatedImages.find(img => img.index === idx);
+                return generatedImg?.imageUrl
+                    ? { ...section, imageUrl: generatedImg.imageUrl }
+                    : section;
+            })
+        };
+
+        // Update SQLite with generated imageUrls so they persist when loading from history
+        if (finalEnhancedNewsletter.id) {
+            try {
+                await newsletterApi.updateNewsletterSections(
+                    finalEnhancedNewsletter.id,
+                    undefined,
+                    finalEnhancedNewsletter.audienceSections,
+                    'v2'
+                );
+                console.log('[Enhanced] Updated SQLite with generated imageUrls');
+            } catch (updateError) {
+                console.warn('[Enhanced] Failed to update SQLite with imageUrls:', updateError);
+            }
+        }
+
+        return finalEnhancedNewsletter;
+    }, []);
+
     // Enhanced newsletter generation (v2 format)
     const handleGenerateEnhancedNewsletter = useCallback(async () => {
         const audienceKeys = getAudienceKeys();
@@ -1241,86 +1349,81 @@ const AppContent: React.FC = () => {
             console.log('[Enhanced] Phase 17: Topics with sources:',
                 topicsWithContext.filter(t => t.resource).length, 'of', topicsWithContext.length);
 
-            // Phase 14: Pass tone and flavors for quality fix
-            const result = await enhancedNewsletterService.generateEnhancedNewsletter({
-                topics: topicsWithContext,  // Phase 17: Send full objects with resource URLs
-                audiences: selectedAudienceConfigs,
-                imageStyle: selectedImageStyle,
-                promptOfTheDay: promptOfTheDay, // Include user-supplied prompt if set
-                personaId: activePersona?.id,
-                tone: selectedTone,
-                flavors: getFlavorKeys(),
-            });
-
-            setProgress(70);
-            setLoading("Processing newsletter...");
-
-            // Set the enhanced newsletter
-            setEnhancedNewsletter(result.newsletter);
-
-            // Log source fetch results
-            console.log('[Enhanced] Sources fetched:', result.sources);
-
-            setProgress(90);
-            setLoading("Generating images...");
-
-            // Generate images for each audience section
-            let generatedImages: Array<{ index: number; imageUrl: string | null }> = [];
-            if (result.newsletter.audienceSections) {
-                const imagePromises = result.newsletter.audienceSections.map(async (section, index) => {
-                    if (section.imagePrompt) {
-                        try {
-                            const base64Image = await generateImage(section.imagePrompt, selectedImageStyle);
-                            return { index, imageUrl: `data:image/png;base64,${base64Image}` };
-                        } catch (err) {
-                            console.error(`Failed to generate image for section ${index}:`, err);
-                            return { index, imageUrl: null };
+            let generatedNewsletter: EnhancedNewsletter;
+            if (V4_STREAMING_ENABLED) {
+                // Streamed V4 pipeline: the preview fills in as each audience section lands
+                const streamedSections = new Map<string, EnhancedAudienceSection>();
+                const v4Result = await generateNewsletterV4Streaming(
+                    {
+                        audiences: selectedAudienceConfigs,
+                        selectedTopics: topicsWithContext,
+                        tone: selectedTone,
+                        flavors: getFlavorKeys(),
+                        imageStyle: selectedImageStyle,
+                        personaId: activePersona?.id,
+                        promptOfTheDay: promptOfTheDay || undefined,
+                    },
+                    undefined,
+                    (event) => {
+                        const streamProgress = getStreamingProgress(event);
+                        if (event.phase) setGenerationStage(event.phase);
+                        if (event.message) setLoading(event.message);
+                        if (streamProgress !== null) setProgress(streamProgress);
+                        if (event.type === 'section_complete' && event.audienceId && event.section) {
+                            streamedSections.set(event.audienceId, event.section as EnhancedAudienceSection);
+                            setEnhancedNewsletter({
+                                ...createEmptyEnhancedNewsletter(),
+                                promptOfTheDay: promptOfTheDay || undefined,
+                                // Keep the user's audience order, not completion order
+                                audienceSections: selectedAudienceConfigs
+                                    .map(a => streamedSections.get(a.id))
+                                    .filter((section): section is EnhancedAudienceSection => !!section),
+                            });
                         }
                     }
-                    return { index, imageUrl: null };
+                );
+                if (!v4Result.newsletter) {
+                    throw new Error('Generation finished without a newsletter');
+                }
+                generatedNewsletter = v4Result.newsletter;
+                console.log('[Enhanced] V4 stream metrics:', v4Result.metrics);
+            } else {
+                // Phase 14: Pass tone and flavors for quality fix
+                // Runs as a server-side job so a refresh can reattach to it
+                const job = await createEnhancedJob({
+                    topics: topicsWithContext,  // Phase 17: Send full objects with resource URLs
+                    audiences: selectedAudienceConfigs,
+                    imageStyle: selectedImageStyle,
+                    promptOfTheDay: promptOfTheDay, // Include user-supplied prompt if set
+                    personaId: activePersona?.id,
+                    tone: selectedTone,
+                    flavors: getFlavorKeys(),
                 });
+                localStorage.setItem(ACTIVE_GENERATION_JOB_KEY, job.id);
+                setActiveGenerationJobId(job.id);
 
-                generatedImages = await Promise.all(imagePromises);
-
-                setEnhancedNewsletter(current => {
-                    if (!current) return null;
-                    const updatedSections = [...current.audienceSections];
-                    generatedImages.forEach(img => {
-                        if (img.imageUrl && updatedSections[img.index]) {
-                            updatedSections[img.index].imageUrl = img.imageUrl;
-                        }
-                    });
-                    return { ...current, audienceSections: updatedSections };
+                const finishedJob = await waitForGenerationJob(job.id, (update) => {
+                    if (update.message) setLoading(update.message);
                 });
+                localStorage.removeItem(ACTIVE_GENERATION_JOB_KEY);
+                setActiveGenerationJobId(null);
+                generatedNewsletter = getJobNewsletter(finishedJob);
+
+                // Log source fetch results
+                console.log('[Enhanced] Sources fetched:', finishedJob.result?.sources);
             }
 
-            setProgress(100);
+            setProgress(70);
+            setLoading("Processing newsletter...");
 
-            // Build final newsletter with generated images
-            const finalEnhancedNewsletter: EnhancedNewsletter = {
-                ...result.newsletter,
-                audienceSections: result.newsletter.audienceSections.map((section, idx) => {
-                    const generatedImg = generatedImages.find(img => img.index === idx);
-                    return generatedImg?.imageUrl
-                        ? { ...section, imageUrl: generatedImg.imageUrl }
-                        : section;
-                })
-            };
+            // Set the enhanced newsletter
+            setEnhancedNewsletter(generatedNewsletter);
 
-            // Update SQLite with generated imageUrls so they persist when loading from history
-            if (finalEnhancedNewsletter.id) {
-                try {
-                    await newsletterApi.updateNewsletterSections(
-                        finalEnhancedNewsletter.id,
-                        undefined,
-                        finalEnhancedNewsletter.audienceSections,
-                        'v2'
-                    );
-                    console.log('[Enhanced] Updated SQLite with generated imageUrls');
-                } catch (updateError) {
-                    console.warn('[Enhanced] Failed to update SQLite with imageUrls:', updateError);
-                }
-            }
+            setProgress(90);
+            setLoading("Generating images...");
+            if (V4_STREAMING_ENABLED) setGenerationStage('images');
+
+            const finalEnhancedNewsletter = await generateSectionImages(generatedNewsletter, selectedImageStyle);
 
             // Auto-save to Google Drive (matches legacy behavior)
             if (googleSettings && authData?.access_token) {
@@ -1342,6 +1445,10 @@ const AppContent: React.FC = () => {
             }
 
         } catch (e) {
+            if (e instanceof GenerationJobCancelledError) {
+                setWorkflowStatus({ message: 'Generation cancelled', type: 'error' });
+                return;
+            }
             console.error('Enhanced newsletter generation failed:', e);
 
             // Phase 15: Handle validation errors with detailed feedback
@@ -1370,12 +1477,80 @@ const AppContent: React.FC = () => {
         } finally {
             setLoading(null);
             setProgress(0);
+            setGenerationStage(null);
+            setActiveGenerationJobId(null);
+        }
+    }, [selectedTopics, suggestedTopics, getAudienceKeys, selectedImageStyle, customAudiences, defaultAudiences, promptOfTheDay, selectedTone, getFlavorKeys, activePersona, setGenerationStage, generateSectionImages]);
+
+    // Follow a server-side generation job to the end: used to reattach after a
+    // refresh and to resume a failed or interrupted job from its checkpoints
+    const followGenerationJob = useCallback(async (jobId: string, resume = false) => {
+        setError(null);
+        setLoading(resume ? "Resuming newsletter generation..." : "Reattaching to newsletter generation...");
+        setProgress(20);
+        localStorage.setItem(ACTIVE_GENERATION_JOB_KEY, jobId);
+        setActiveGenerationJobId(jobId);
+
+        try {
+            if (resume) {
+                await resumeGenerationJob(jobId);
+            }
+
+            const finishedJob = await waitForGenerationJob(jobId, (update) => {
+                if (update.message) setLoading(update.message);
+                if (update.pipeline === 'v4' && update.phase) setGenerationStage(update.phase);
+                // V4 jobs report finished sections; show them while the rest are written
+                if (update.status === 'running' && update.sections.length > 0) {
+                    setEnhancedNewsletter({ ...createEmptyEnhancedNewsletter(), audienceSections: update.sections });
+                }
+            });
+            localStorage.removeItem(ACTIVE_GENERATION_JOB_KEY);
+
+            const generatedNewsletter = getJobNewsletter(finishedJob);
+            setEnhancedNewsletter(generatedNewsletter);
+
+            setProgress(90);
+            setLoading("Generating images...");
+            if (finishedJob.pipeline === 'v4') setGenerationStage('images');
+            await generateSectionImages(
+                generatedNewsletter,
+                (finishedJob.request.imageStyle as string | undefined) || selectedImageStyle
+            );
+            setWorkflowStatus({ message: 'Newsletter generation finished', type: 'success' });
+        } catch (e) {
+            localStorage.removeItem(ACTIVE_GENERATION_JOB_KEY);
+            if (e instanceof GenerationJobCancelledError) {
+                setWorkflowStatus({ message: 'Generation cancelled', type: 'error' });
+                return;
+            }
+            console.error('Generation job failed:', e);
+            setError({
+                message: e instanceof Error ? e.message : 'Newsletter generation failed',
+                onRetry: () => { void followGenerationJob(jobId, true); },
+            });
+        } finally {
+            setLoading(null);
+            setProgress(0);
+            setGenerationStage(null);
+            setActiveGenerationJobId(null);
+        }
+    }, [selectedImageStyle, setGenerationStage, generateSectionImages]);
+
+    // Cancel the generation job being followed (it stops at its next checkpoint)
+    const handleCancelGeneration = useCallback(async () => {
+        if (!activeGenerationJobId) return;
+        try {
+            await cancelGenerationJob(activeGenerationJobId);
+            setLoading("Cancelling after the current step...");
+        } catch (e) {
+            console.warn('[App] Failed to cancel generation job:', e);
         }
-    }, [selectedTopics, suggestedTopics, getAudienceKeys, selectedImageStyle, customAudiences, defaultAudiences, promptOfTheDay, selectedTone, getFlavorKeys, activePersona]);
+    }, [activeGenerationJobId]);
 
     // Phase 19: V4 generation removed - simplified to single enhanced path
     // V4 (perAudienceNewsletterGenerator) was removed because it ignored topic.resource
     // All generation now uses enhancedGenerator.ts which properly enforces PRIMARY SOURCEs
+    // (The streamed V4 pipeline is opt-in via VITE_ENABLE_V4_STREAMING for section-by-section preview)
 
     // Handle mismatch resolution (kept for potential future use, but simplified)
     const handleMismatchResolution = useCallback(async (_resolutions: MismatchResolution[]) => {
@@ -1421,6 +1596,32 @@ const AppContent: React.FC = () => {
         }
     };
 
+    // Inline edits bump the counter; the effect below saves the state they produced
+    // (state updaters stay pure, since StrictMode runs them twice)
+    const [inlineEditCount, setInlineEditCount] = useState(0);
+    const pendingInlineEditRef = useRef<'v1' | 'v2' | null>(null);
+    // Newsletter object last saved to SQLite, set once the save succeeds
+    const lastPersistedEditRef = useRef<Newsletter | EnhancedNewsletter | null>(null);
+
+    useEffect(() => {
+        const formatVersion = pendingInlineEditRef.current;
+        if (!formatVersion) return;
+        pendingInlineEditRef.current = null;
+
+        const edited = formatVersion === 'v1' ? newsletter : enhancedNewsletter;
+        if (!edited?.id || edited === lastPersistedEditRef.current) return;
+
+        // Persist to SQLite (recorded as an inline edit revision)
+        newsletterApi.saveNewsletterContent(edited.id, formatVersion, edited as newsletterApi.Newsletter, authData?.email)
+            .then(() => { lastPersistedEditRef.current = edited; })
+            .catch(err => console.warn('[InlineEdit] Failed to persist to SQLite:', err));
+    }, [inlineEditCount]);
+
+    const markInlineEdit = (formatVersion: 'v1' | 'v2') => {
+        pendingInlineEditRef.current = formatVersion;
+        setInlineEditCount(count => count + 1);
+    };
+
     const handleNewsletterUpdate = (field: keyof Newsletter | keyof NewsletterSection, value: string, sectionIndex?: number) => {
         setNewsletter(prev => {
             if (!prev) return null;
@@ -1437,6 +1638,7 @@ const AppContent: React.FC = () => {
 
             return newNewsletter;
         });
+        markInlineEdit('v1');
     };
 
     // Handler for updating enhanced newsletter content
@@ -1462,6 +1664,43 @@ const AppContent: React.FC = () => {
 
             return newNewsletter;
         });
+        markInlineEdit('v2');
+    };
+
+    // Handler for an accepted section rewrite (already saved on the server)
+    const handleEnhancedSectionReplaced = (sectionIndex: number, section: EnhancedAudienceSection) => {
+        setEnhancedNewsletter(prev => {
+            if (!prev || !prev.audienceSections[sectionIndex]) return prev;
+
+            const audienceSections = [...prev.audienceSections];
+            audienceSections[sectionIndex] = section;
+            return { ...prev, audienceSections };
+        });
+    };
+
+    // Handler for a finished server-side image batch: take the stored images,
+    // keep any unsaved text edits
+    const handleEnhancedImagesGenerated = (stored: EnhancedNewsletter) => {
+        setEnhancedNewsletter(prev => {
+            if (!prev || prev.id !== stored.id) return prev;
+
+            const storedSections = new Map(stored.audienceSections.map(s => [s.audienceId, s]));
+            return {
+                ...prev,
+                heroImage: stored.heroImage,
+                toolOfTheDay: {
+                    ...prev.toolOfTheDay,
+                    imagePrompt: stored.toolOfTheDay.imagePrompt,
+                    imageUrl: stored.toolOfTheDay.imageUrl,
+                },
+                audienceSections: prev.audienceSections.map(section => {
+                    const match = storedSections.get(section.audienceId);
+                    return match
+                        ? { ...section, imagePrompt: match.imagePrompt, imageUrl: match.imageUrl }
+                        : section;
+                }),
+            };
+        });
     };
 
     // Handlers for custom audience management
@@ -1475,19 +1714,28 @@ const AppContent: React.FC = () => {
         // Persist to SQLite
         try {
             await audienceApi.saveAudience({
+                ...audienceApi.toAudienceInput(audience),
                 id: audience.id,
-                name: audience.name,
-                description: audience.description || '',
-                generated: audience.generated,
                 isCustom: true,
             });
             console.log('[App] Saved custom audience to SQLite:', audience.name);
+            await refreshAudienceOptions();
         } catch (err) {
             console.error('[App] Failed to save audience to SQLite:', err);
             // Continue - localStorage will keep it cached
         }
     };
 
+    const handleUpdateCustomAudience = async (audience: AudienceConfig) => {
+        const saved = await audienceApi.updateAudience(audience.id, audienceApi.toAudienceInput(audience));
+        const updated = audienceApi.toAudienceConfig(saved);
+        const newAudiences = customAudiences.map(a => (a.id === updated.id ? updated : a));
+        setCustomAudiences(newAudiences);
+        localStorage.setItem('customAudiences', JSON.stringify(newAudiences));
+        console.log('[App] Updated custom audience:', updated.name);
+        await refreshAudienceOptions();
+    };
+
     const handleRemoveCustomAudience = async (audienceId: string) => {
         const newAudiences = customAudiences.filter(a => a.id !== audienceId);
         setCustomAudiences(newAudiences);
@@ -1498,6 +1746,7 @@ const AppContent: React.FC = () => {
         try {
             await audienceApi.deleteAudience(audienceId);
             console.log('[App] Deleted custom audience from SQLite:', audienceId);
+            await refreshAudienceOptions();
         } catch (err) {
             console.error('[App] Failed to delete audience from SQLite:', err);
             // Continue - localStorage already removed it
@@ -1545,7 +1794,8 @@ const AppContent: React.FC = () => {
     // Generate image for a section using Stability API
     const handleGenerateSectionImage = async (sectionIndex: number, imagePrompt: string) => {
         try {
-            const base64Image = await generateImage(imagePrompt, selectedImageStyle);
+            const newsletterId = useEnhancedFormat ? enhancedNewsletter?.id : newsletter?.id;
+            const base64Image = await generateImage(imagePrompt, selectedImageStyle, newsletterId);
             const newImageUrl = `data:image/png;base64,${base64Image}`;
 
             // Update enhanced newsletter if using enhanced format
@@ -1675,6 +1925,37 @@ const AppContent: React.FC = () => {
     // Newsletter history is now loaded from SQLite via useHistory hook
 
 
+    // Reattach to a generation job that was still running when the page was closed
+    const hasCheckedGenerationJob = useRef(false);
+    useEffect(() => {
+        if (hasCheckedGenerationJob.current) return;
+        hasCheckedGenerationJob.current = true;
+
+        const jobId = localStorage.getItem(ACTIVE_GENERATION_JOB_KEY);
+        if (!jobId) return;
+
+        const reattach = async () => {
+            try {
+                const job = await getGenerationJob(jobId);
+                if (ACTIVE_JOB_STATUSES.includes(job.status) || job.status === 'completed') {
+                    await followGenerationJob(job.id);
+                } else if (job.status !== 'cancelled' && RESUMABLE_JOB_STATUSES.includes(job.status)) {
+                    localStorage.removeItem(ACTIVE_GENERATION_JOB_KEY);
+                    setError({
+                        message: `Newsletter generation ${job.status === 'interrupted' ? 'was interrupted' : 'failed'}${job.errorMessage ? `: ${job.errorMessage}` : ''}. Retry to resume it.`,
+                        onRetry: () => { void followGenerationJob(job.id, true); },
+                    });
+                } else {
+                    localStorage.removeItem(ACTIVE_GENERATION_JOB_KEY);
+                }
+            } catch (err) {
+                console.warn('[App] Could not reattach to generation job:', err);
+                localStorage.removeItem(ACTIVE_GENERATION_JOB_KEY);
+            }
+        };
+        reattach();
+    }, [followGenerationJob]);
+
     // Handle authentication state changes - navigate to app when authenticated + draft recovery
     useEffect(() => {
         const handleAuthAndDraftRecovery = async () => {
@@ -1917,7 +2198,8 @@ const AppContent: React.FC = () => {
                 newsletterForEmail,
                 selectedTopics,
                 recipients.emails,
-                recipients.listNames
+                recipients.listNames,
+                recipients.segmentIds
             );
 
             setWorkflowActions({ ...workflowActions, sentEmail: true });
@@ -1926,6 +2208,9 @@ const AppContent: React.FC = () => {
             if (activeId) {
                 await newsletterApi.logAction(activeId, 'sent_email', {
                     sent_to_lists: recipients.listIds,
+                    sent_to_segments: recipients.segmentIds,
+                    send_id: emailResult.sendId,
+                    variant_counts: emailResult.variantCounts,
                     list_names: recipients.listNames,
                     recipient_emails: recipients.emails,
                     recipient_count: recipients.totalCount,
@@ -1953,6 +2238,33 @@ const AppContent: React.FC = () => {
         }
     };
 
+    /**
+     * Schedule the saved newsletter for a later send via the server-side scheduler
+     */
+    const handleScheduleSend = async (scheduledAt: string, recipientLists: string[]): Promise<void> => {
+        const activeId = useEnhancedFormat && enhancedNewsletter
+            ? enhancedNewsletter.id
+            : newsletter?.id;
+
+        if (!activeId) {
+            throw new Error('Save the newsletter before scheduling it');
+        }
+
+        const scheduled = await schedulerApi.scheduleNewsletter(activeId, scheduledAt, recipientLists);
+        const listNames = subscriberLists
+            .filter(list => recipientLists.includes(list.id))
+            .map(list => list.name);
+        const segmentCount = recipientLists.length - listNames.length;
+        const targets = segmentCount > 0
+            ? [...listNames, `${segmentCount} segment${segmentCount !== 1 ? 's' : ''}`]
+            : listNames;
+
+        setWorkflowStatus({
+            message: `Newsletter scheduled for ${new Date(scheduled.scheduledAt).toLocaleString()} to ${targets.join(', ')}`,
+            type: 'success',
+        });
+    };
+
     const hasSelectedAudience = getAudienceKeys().length > 0;
     console.log('isGoogleApiInitialized:', isGoogleApiInitialized);
 
@@ -2008,10 +2320,17 @@ const AppContent: React.FC = () => {
                             onReorderSections={handleReorderSections}
                             onUpdate={handleNewsletterUpdate}
                             onEnhancedUpdate={handleEnhancedNewsletterUpdate}
+                            onSectionReplaced={handleEnhancedSectionReplaced}
+                            onEnhancedImagesGenerated={handleEnhancedImagesGenerated}
                             // Generation and workflow
                             handleGenerateNewsletter={handleGenerate}
+                            onCancelGeneration={activeGenerationJobId ? handleCancelGeneration : undefined}
                             onSaveToDrive={googleSettings && authData?.access_token ? () => handleWorkflowAction('drive') : undefined}
                             onSendViaGmail={authData?.access_token ? () => handleWorkflowAction('gmail') : undefined}
+                            onScheduleSend={authData?.access_token ? () => {
+                                refreshSubscriberLists();
+                                setShowScheduleModal(true);
+                            } : undefined}
                             onGenerateImage={handleGenerateSectionImage}
                             // Preset handlers
                             onSavePreset={handleSavePreset}
@@ -2113,8 +2432,11 @@ const AppContent: React.FC = () => {
                     onClose={closeAudienceEditor}
                     defaultAudiences={defaultAudiences}
                     customAudiences={customAudiences}
+                    categories={audienceCategories}
                     onAddAudience={handleAddCustomAudience}
+                    onUpdateAudience={handleUpdateCustomAudience}
                     onRemoveAudience={handleRemoveCustomAudience}
+                    onCategoriesChanged={refreshAudienceOptions}
                 />
 
                 {/* Persona Editor modal */}
@@ -2167,6 +2489,24 @@ const AppContent: React.FC = () => {
                     }
                     onConfirm={handleSendWithRecipients}
                 />
+
+                {/* Schedule Send Modal */}
+                <ScheduleSendModal
+                    isOpen={showScheduleModal}
+                    onClose={() => setShowScheduleModal(false)}
+                    newsletterId={
+                        (useEnhancedFormat && enhancedNewsletter?.id)
+                            || newsletter?.id
+                            || ''
+                    }
+                    newsletterSubject={
+                        (useEnhancedFormat && enhancedNewsletter?.subject)
+                            || newsletter?.subject
+                            || 'Untitled Newsletter'
+                    }
+                    subscriberLists={subscriberLists}
+                    onSchedule={handleScheduleSend}
+                />
             </div>
         </div>
     );
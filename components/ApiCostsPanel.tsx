@@ -0,0 +1,396 @@
+/**
+ * ApiCostsPanel Component
+ *
+ * "Costs" tab of the Logs page:
+ * - Month summary (cost, calls, tokens, images, web searches) by provider and model
+ * - Monthly budgets with spend bars; exhausted budgets make generation refuse
+ * - Cost trend over recent months
+ * - Per-newsletter costs with the underlying ledger entries
+ *
+ * Costs are estimates from list prices, recorded when each call completes.
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useApiCosts } from '../hooks/useApiCosts';
+import { formatCost, formatTimestamp } from '../services/logClientService';
+import type { BudgetScope, BudgetStatus, UsageProvider } from '../services/logClientService';
+import { RefreshIcon, ChevronDownIcon, XIcon } from './IconComponents';
+import { staggerContainer, staggerItem } from '../utils/animations';
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  total: 'All providers',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  stability: 'Stability AI',
+};
+
+const PROVIDER_LABELS: Record<UsageProvider, string> = {
+  claude: 'Claude',
+  gemini: 'Gemini',
+  stability: 'Stability AI',
+  openai: 'OpenAI-compatible',
+};
+
+const BUDGET_SCOPES: BudgetScope[] = ['total', 'claude', 'gemini', 'stability'];
+
+const thClass = 'px-4 py-3 text-left font-sans text-caption text-slate uppercase tracking-wider';
+const thRightClass = 'px-4 py-3 text-right font-sans text-caption text-slate uppercase tracking-wider';
+
+// =============================================================================
+// BUDGET ROW
+// =============================================================================
+
+const BudgetRow: React.FC<{
+  scope: BudgetScope;
+  status: BudgetStatus | undefined;
+  isSaving: boolean;
+  onSave: (scope: BudgetScope, limit: number) => Promise<boolean>;
+  onRemove: (scope: BudgetScope) => Promise<void>;
+}> = ({ scope, status, isSaving, onSave, onRemove }) => {
+  const [limitInput, setLimitInput] = useState('');
+  const usedPercent = status ? Math.min(100, (status.spentUsd / status.monthlyLimitUsd) * 100) : 0;
+
+  const handleSave = async () => {
+    const limit = parseFloat(limitInput);
+    if (!(limit > 0)) return;
+    if (await onSave(scope, limit)) {
+      setLimitInput('');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-4 items-center py-3">
+      <span className="font-sans text-ui text-ink">{SCOPE_LABELS[scope]}</span>
+
+      <div>
+        {status ? (
+          <>
+            <div className="flex justify-between mb-1">
+              <span className={`font-sans text-caption ${status.exceeded ? 'text-editorial-red font-medium' : 'text-slate'}`}>
+                {formatCost(status.spentUsd)} of {formatCost(status.monthlyLimitUsd)}
+                {status.exceeded && ' — exhausted, generation is blocked'}
+              </span>
+              <span className="font-sans text-caption text-silver">
+                {formatCost(status.remainingUsd)} left
+              </span>
+            </div>
+            <div className="w-full bg-pearl h-1 overflow-hidden">
+              <div
+                className={`h-1 ${status.exceeded ? 'bg-editorial-red' : 'bg-ink'}`}
+                style={{ width: `${usedPercent}%` }}
+              />
+            </div>
+          </>
+        ) : (
+          <span className="font-sans text-caption text-silver">No budget</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder={status ? status.monthlyLimitUsd.toFixed(2) : 'USD / month'}
+          value={limitInput}
+          onChange={(e) => setLimitInput(e.target.value)}
+          className="w-32 bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink placeholder:text-silver focus:outline-none focus:border-ink"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !(parseFloat(limitInput) > 0)}
+          className="bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors disabled:bg-silver"
+        >
+          {status ? 'Update' : 'Set'}
+        </button>
+        {status && (
+          <button
+            onClick={() => onRemove(scope)}
+            disabled={isSaving}
+            title="Remove budget"
+            className="text-slate hover:text-editorial-red transition-colors disabled:opacity-50"
+          >
+            <XIcon className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export const ApiCostsPanel: React.FC = () => {
+  const costs = useApiCosts();
+  const [expandedNewsletterId, setExpandedNewsletterId] = useState<string | null>(null);
+
+  const handleToggleNewsletter = (newsletterId: string) => {
+    if (expandedNewsletterId === newsletterId) {
+      setExpandedNewsletterId(null);
+      return;
+    }
+    setExpandedNewsletterId(newsletterId);
+    if (!costs.newsletterEntries[newsletterId]) {
+      costs.loadNewsletterEntries(newsletterId);
+    }
+  };
+
+  const totals = costs.summary?.totals;
+  const maxMonthlyCost = Math.max(0, ...costs.monthlyCosts.map(m => m.costUsd));
+
+  return (
+    <div className="space-y-6">
+      {/* Month selector */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <label className="font-sans text-caption text-slate uppercase tracking-wider">Month</label>
+          <input
+            type="month"
+            value={costs.month}
+            onChange={(e) => e.target.value && costs.setMonth(e.target.value)}
+            className="bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink focus:outline-none focus:border-ink"
+          />
+        </div>
+        <button
+          onClick={costs.refresh}
+          disabled={costs.isLoading}
+          className="flex items-center gap-2 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors disabled:opacity-50"
+        >
+          <RefreshIcon className={`h-4 w-4 ${costs.isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {costs.error && (
+        <div className="bg-red-50 border-l-2 border-editorial-red p-4 font-sans text-ui text-charcoal">
+          {costs.error}
+        </div>
+      )}
+
+      {/* Month totals */}
+      {totals && (
+        <div className="bg-paper border border-border-subtle p-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div>
+              <p className="font-sans text-h4 text-ink">{formatCost(totals.costUsd)}</p>
+              <p className="font-sans text-caption text-slate">Estimated Cost</p>
+            </div>
+            <div>
+              <p className="font-sans text-h4 text-ink">{totals.calls.toLocaleString()}</p>
+              <p className="font-sans text-caption text-slate">API Calls</p>
+            </div>
+            <div>
+              <p className="font-sans text-h4 text-ink">{totals.inputTokens.toLocaleString()}</p>
+              <p className="font-sans text-caption text-slate">Input Tokens</p>
+            </div>
+            <div>
+              <p className="font-sans text-h4 text-ink">{totals.outputTokens.toLocaleString()}</p>
+              <p className="font-sans text-caption text-slate">Output Tokens</p>
+            </div>
+            <div>
+              <p className="font-sans text-h4 text-ink">{totals.images.toLocaleString()}</p>
+              <p className="font-sans text-caption text-slate">Images</p>
+            </div>
+            <div>
+              <p className="font-sans text-h4 text-ink">{totals.webSearchCalls.toLocaleString()}</p>
+              <p className="font-sans text-caption text-slate">Web Searches</p>
+            </div>
+          </div>
+          {costs.summary && costs.summary.unattributedCostUsd > 0 && (
+            <p className="font-sans text-caption text-silver mt-4">
+              {formatCost(costs.summary.unattributedCostUsd)} not linked to a newsletter
+              (topic research, knowledge base chat, previews)
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Budgets */}
+      <div className="bg-paper border border-border-subtle p-6">
+        <h3 className="font-display text-h4 text-ink">Monthly Budgets</h3>
+        <p className="font-serif text-body text-slate mt-1 mb-4">
+          Once a budget is used up, generation that needs that provider is refused until next month.
+        </p>
+        <div className="divide-y divide-border-subtle">
+          {BUDGET_SCOPES.map(scope => (
+            <BudgetRow
+              key={scope}
+              scope={scope}
+              status={costs.budgets.find(b => b.scope === scope)}
+              isSaving={costs.isSavingBudget}
+              onSave={costs.saveBudget}
+              onRemove={costs.removeBudget}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* By model */}
+        <div className="bg-paper border border-border-subtle overflow-hidden">
+          <h3 className="font-display text-h4 text-ink px-4 pt-4 pb-2">By Model</h3>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border-subtle bg-pearl">
+                <th className={thClass}>Model</th>
+                <th className={thRightClass}>Calls</th>
+                <th className={thRightClass}>Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border-subtle">
+              {!costs.summary || costs.summary.byModel.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="px-4 py-8 text-center font-serif text-body text-slate">
+                    No API usage recorded this month.
+                  </td>
+                </tr>
+              ) : (
+                costs.summary.byModel.map(row => (
+                  <tr key={`${row.provider}-${row.model}`}>
+                    <td className="px-4 py-3">
+                      <p className="font-sans text-ui text-ink">{row.model}</p>
+                      <p className="font-sans text-caption text-silver">{PROVIDER_LABELS[row.provider]}</p>
+                    </td>
+                    <td className="px-4 py-3 text-right font-sans text-ui text-charcoal">
+                      {row.calls.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-right font-sans text-ui text-ink">{formatCost(row.costUsd)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Monthly trend */}
+        <div className="bg-paper border border-border-subtle p-4">
+          <h3 className="font-display text-h4 text-ink mb-4">By Month</h3>
+          {costs.monthlyCosts.length === 0 ? (
+            <p className="py-8 text-center font-serif text-body text-slate">No API usage recorded yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {costs.monthlyCosts.map(m => (
+                <button
+                  key={m.month}
+                  onClick={() => costs.setMonth(m.month)}
+                  className={`w-full grid grid-cols-[5rem_1fr_5rem] gap-3 items-center text-left ${
+                    m.month === costs.month ? 'text-ink' : 'text-slate hover:text-ink'
+                  }`}
+                >
+                  <span className="font-sans text-ui">{m.month}</span>
+                  <div className="bg-pearl h-2 overflow-hidden">
+                    <div
+                      className={m.month === costs.month ? 'bg-ink h-2' : 'bg-silver h-2'}
+                      style={{ width: maxMonthlyCost > 0 ? `${(m.costUsd / maxMonthlyCost) * 100}%` : '0%' }}
+                    />
+                  </div>
+                  <span className="font-sans text-ui text-right">{formatCost(m.costUsd)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Per newsletter */}
+      <div className="bg-paper border border-border-subtle overflow-hidden">
+        <h3 className="font-display text-h4 text-ink px-4 pt-4 pb-2">By Newsletter</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border-subtle bg-pearl">
+                <th className={thClass}>Newsletter</th>
+                <th className={thClass}>Last Call</th>
+                <th className={thRightClass}>Calls</th>
+                <th className={thRightClass}>Tokens (in / out)</th>
+                <th className={thRightClass}>Images</th>
+                <th className={thRightClass}>Cost</th>
+                <th className="px-4 py-3 w-12" />
+              </tr>
+            </thead>
+            <motion.tbody
+              variants={staggerContainer}
+              initial="hidden"
+              animate="visible"
+              className="divide-y divide-border-subtle"
+            >
+              {costs.newsletters.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-12 text-center font-serif text-body text-slate">
+                    No newsletter costs recorded yet.
+                  </td>
+                </tr>
+              ) : (
+                costs.newsletters.map(row => (
+                  <React.Fragment key={row.newsletterId}>
+                    <motion.tr
+                      variants={staggerItem}
+                      className="hover:bg-pearl transition-colors cursor-pointer"
+                      onClick={() => handleToggleNewsletter(row.newsletterId)}
+                    >
+                      <td className="px-4 py-3">
+                        <p className="font-sans text-ui text-ink">{row.subject || 'Untitled newsletter'}</p>
+                        <code className="font-mono text-caption text-silver">{row.newsletterId}</code>
+                      </td>
+                      <td className="px-4 py-3 font-sans text-caption text-slate whitespace-nowrap">
+                        {formatTimestamp(row.lastCallAt)}
+                      </td>
+                      <td className="px-4 py-3 text-right font-sans text-ui text-charcoal">{row.calls}</td>
+                      <td className="px-4 py-3 text-right font-sans text-ui text-charcoal whitespace-nowrap">
+                        {row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-right font-sans text-ui text-charcoal">{row.images}</td>
+                      <td className="px-4 py-3 text-right font-sans text-ui text-ink font-medium">
+                        {formatCost(row.costUsd)}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <ChevronDownIcon
+                          className={`h-4 w-4 text-slate transition-transform ${
+                            expandedNewsletterId === row.newsletterId ? 'rotate-180' : ''
+                          }`}
+                        />
+                      </td>
+                    </motion.tr>
+                    {expandedNewsletterId === row.newsletterId && (
+                      <tr className="bg-pearl">
+                        <td colSpan={7} className="px-4 py-3">
+                          {!costs.newsletterEntries[row.newsletterId] ? (
+                            <p className="font-sans text-caption text-slate">Loading...</p>
+                          ) : (
+                            <table className="w-full">
+                              <tbody>
+                                {costs.newsletterEntries[row.newsletterId].map(entry => (
+                                  <tr key={entry.id} className="font-sans text-caption text-charcoal">
+                                    <td className="py-1 pr-4 whitespace-nowrap">{formatTimestamp(entry.createdAt)}</td>
+                                    <td className="py-1 pr-4">{entry.model}</td>
+                                    <td className="py-1 pr-4 text-slate">{entry.operation || '—'}</td>
+                                    <td className="py-1 pr-4 text-right whitespace-nowrap">
+                                      {entry.images > 0
+                                        ? `${entry.images} image${entry.images === 1 ? '' : 's'}`
+                                        : `${entry.inputTokens.toLocaleString()} / ${entry.outputTokens.toLocaleString()} tokens`}
+                                      {entry.webSearchCalls > 0 && `, ${entry.webSearchCalls} searches`}
+                                    </td>
+                                    <td className="py-1 text-right">{formatCost(entry.costUsd)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))
+              )}
+            </motion.tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiCostsPanel;
@@ -2,40 +2,81 @@
  * Audience Config Editor Component
  *
  * Allows users to view, create, and manage custom audiences
- * with AI-generated configuration.
+ * with AI-generated configuration. Every audience - built-in or custom -
+ * has the same profile: parent category, domain examples, example topics
+ * and source preferences, which the topic agents generate from.
  */
 
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { AudienceConfig } from '../types';
+import type { AudienceCategory, AudienceConfig, AudienceSourcePreference } from '../types';
 import { generateAudienceConfig } from '../services/enhancedNewsletterService';
+import * as audienceApi from '../services/audienceClientService';
 import { fadeInUp, staggerContainer, staggerItem } from '../utils/animations';
-import { SparklesIcon, PlusIcon, XIcon } from './IconComponents';
+import { SparklesIcon, PlusIcon, XIcon, EditIcon } from './IconComponents';
 
 interface AudienceConfigEditorProps {
   defaultAudiences: AudienceConfig[];
   customAudiences: AudienceConfig[];
+  categories: AudienceCategory[];
   onAddAudience: (audience: AudienceConfig) => void;
+  onUpdateAudience: (audience: AudienceConfig) => Promise<void>;
   onRemoveAudience: (audienceId: string) => void;
+  onCategoriesChanged?: () => void;
   isOpen: boolean;
   onClose: () => void;
 }
 
+const SOURCE_OPTIONS: { id: AudienceSourcePreference; label: string }[] = [
+  { id: 'arxiv', label: 'arXiv' },
+  { id: 'hackernews', label: 'Hacker News' },
+  { id: 'github', label: 'GitHub' },
+  { id: 'reddit', label: 'Reddit' },
+  { id: 'dev', label: 'Dev.to' },
+  { id: 'gdelt', label: 'GDELT' },
+];
+
+const DEFAULT_CATEGORY = 'custom';
+const DEFAULT_SOURCES: AudienceSourcePreference[] = ['hackernews', 'github', 'dev'];
+
+interface ProfileDraft {
+  parentId: string;
+  domainExamples: string;
+  topicTitles: string;
+  sourcePreferences: AudienceSourcePreference[];
+}
+
+const toProfileDraft = (audience?: AudienceConfig | null): ProfileDraft => ({
+  parentId: audience?.parentId || DEFAULT_CATEGORY,
+  domainExamples: audience?.domainExamples || '',
+  topicTitles: (audience?.topicTitles || []).join('\n'),
+  sourcePreferences: audience?.sourcePreferences?.length ? audience.sourcePreferences : DEFAULT_SOURCES,
+});
+
 export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
   defaultAudiences,
   customAudiences,
+  categories,
   onAddAudience,
+  onUpdateAudience,
   onRemoveAudience,
+  onCategoriesChanged,
   isOpen,
   onClose,
 }) => {
   const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [newAudienceName, setNewAudienceName] = useState('');
   const [newAudienceDescription, setNewAudienceDescription] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [generatedConfig, setGeneratedConfig] = useState<AudienceConfig | null>(null);
+  const [profile, setProfile] = useState<ProfileDraft>(toProfileDraft());
+  const [newCategoryName, setNewCategoryName] = useState('');
   const [error, setError] = useState<string | null>(null);
 
+  const categoryName = (id?: string) => categories.find((c) => c.id === id)?.name || 'Custom';
+
   const handleGenerateConfig = async () => {
     if (!newAudienceName.trim() || !newAudienceDescription.trim()) {
       setError('Please provide both name and description');
@@ -55,6 +96,7 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
         ...response.config,
         isCustom: true,
       });
+      setProfile(toProfileDraft(response.config));
     } catch (err) {
       console.error('Failed to generate audience config:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate configuration');
@@ -63,27 +105,188 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
     }
   };
 
-  const handleSaveAudience = () => {
-    if (generatedConfig) {
-      onAddAudience(generatedConfig);
-      // Reset form
-      setNewAudienceName('');
-      setNewAudienceDescription('');
-      setGeneratedConfig(null);
-      setIsCreating(false);
-    }
-  };
+  const withProfile = (audience: AudienceConfig): AudienceConfig => ({
+    ...audience,
+    parentId: profile.parentId,
+    domainExamples: profile.domainExamples.trim(),
+    topicTitles: profile.topicTitles.split('\n').map((t) => t.trim()).filter(Boolean),
+    sourcePreferences: profile.sourcePreferences,
+  });
 
-  const handleCancel = () => {
+  const resetForm = () => {
     setNewAudienceName('');
     setNewAudienceDescription('');
     setGeneratedConfig(null);
+    setProfile(toProfileDraft());
+    setNewCategoryName('');
     setError(null);
     setIsCreating(false);
+    setEditingId(null);
+  };
+
+  const handleSaveAudience = () => {
+    if (generatedConfig) {
+      onAddAudience(withProfile(generatedConfig));
+      resetForm();
+    }
+  };
+
+  const handleStartEdit = (audience: AudienceConfig) => {
+    resetForm();
+    setEditingId(audience.id);
+    setNewAudienceName(audience.name);
+    setNewAudienceDescription(audience.description);
+    setProfile(toProfileDraft(audience));
+  };
+
+  const handleSaveEdit = async () => {
+    const audience = customAudiences.find((a) => a.id === editingId);
+    if (!audience || !newAudienceName.trim()) {
+      setError('Please provide a name');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onUpdateAudience(withProfile({
+        ...audience,
+        name: newAudienceName.trim(),
+        description: newAudienceDescription.trim(),
+      }));
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save audience');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddCategory = async () => {
+    if (!newCategoryName.trim()) return;
+    try {
+      const category = await audienceApi.createAudienceCategory(newCategoryName.trim());
+      setProfile((prev) => ({ ...prev, parentId: category.id }));
+      setNewCategoryName('');
+      onCategoriesChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create category');
+    }
+  };
+
+  const toggleSource = (source: AudienceSourcePreference) => {
+    setProfile((prev) => ({
+      ...prev,
+      sourcePreferences: prev.sourcePreferences.includes(source)
+        ? prev.sourcePreferences.filter((s) => s !== source)
+        : [...prev.sourcePreferences, source],
+    }));
+  };
+
+  const handleCancel = () => {
+    resetForm();
   };
 
   if (!isOpen) return null;
 
+  const profileFields = (
+    <div className="space-y-4">
+      {/* Parent category */}
+      <div>
+        <label className="block font-sans text-caption text-slate mb-1">Category</label>
+        <div className="flex gap-2">
+          <select
+            value={profile.parentId}
+            onChange={(e) => setProfile((prev) => ({ ...prev, parentId: e.target.value }))}
+            className="flex-1 border border-border-subtle bg-paper px-3 py-2 font-sans text-ui focus:outline-none focus:border-ink"
+          >
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newCategoryName}
+            onChange={(e) => setNewCategoryName(e.target.value)}
+            placeholder="New category"
+            className="w-40 border border-border-subtle px-3 py-2 font-sans text-ui focus:outline-none focus:border-ink"
+          />
+          <button
+            onClick={handleAddCategory}
+            disabled={!newCategoryName.trim()}
+            className="px-3 border border-border-subtle hover:bg-pearl transition-colors disabled:opacity-50"
+            title="Add category"
+          >
+            <PlusIcon className="h-4 w-4 text-slate" />
+          </button>
+        </div>
+      </div>
+
+      {/* Domain examples */}
+      <div>
+        <label className="block font-sans text-caption text-slate mb-1">Domain Examples</label>
+        <textarea
+          value={profile.domainExamples}
+          onChange={(e) => setProfile((prev) => ({ ...prev, domainExamples: e.target.value }))}
+          placeholder="Concrete AI use cases for this audience, comma-separated"
+          rows={3}
+          className="w-full border border-border-subtle px-4 py-2 font-sans text-ui focus:outline-none focus:border-ink resize-none"
+        />
+      </div>
+
+      {/* Example topics */}
+      <div>
+        <label className="block font-sans text-caption text-slate mb-1">Example Topics (one per line)</label>
+        <textarea
+          value={profile.topicTitles}
+          onChange={(e) => setProfile((prev) => ({ ...prev, topicTitles: e.target.value }))}
+          placeholder="Build a Triage Assistant with Claude and FHIR APIs"
+          rows={4}
+          className="w-full border border-border-subtle px-4 py-2 font-sans text-ui focus:outline-none focus:border-ink resize-none"
+        />
+      </div>
+
+      {/* Source preferences */}
+      <div>
+        <p className="font-sans text-caption text-slate mb-1">Preferred Sources</p>
+        <div className="flex flex-wrap gap-2">
+          {SOURCE_OPTIONS.map((source) => (
+            <label key={source.id} className="flex items-center gap-1.5 font-sans text-caption text-charcoal">
+              <input
+                type="checkbox"
+                checked={profile.sourcePreferences.includes(source.id)}
+                onChange={() => toggleSource(source.id)}
+                className="h-3.5 w-3.5 border-charcoal text-ink focus:ring-ink"
+              />
+              {source.label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const profileSummary = (audience: AudienceConfig, tone: 'default' | 'custom') => (
+    <div className="mt-2 flex flex-wrap items-center gap-1">
+      <span className="px-2 py-0.5 bg-ink text-paper text-xs font-sans">
+        {categoryName(audience.parentId)}
+      </span>
+      {audience.sourcePreferences?.map((source) => (
+        <span
+          key={source}
+          className={`px-2 py-0.5 text-charcoal text-xs font-sans ${tone === 'custom' ? 'bg-editorial-red/10' : 'bg-pearl'}`}
+        >
+          {SOURCE_OPTIONS.find((s) => s.id === source)?.label || source}
+        </span>
+      ))}
+      {audience.topicTitles && audience.topicTitles.length > 0 && (
+        <span className="font-sans text-xs text-slate ml-1">
+          {audience.topicTitles.length} example topics
+        </span>
+      )}
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       {/* Backdrop */}
@@ -142,6 +345,7 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
                       Default
                     </span>
                   </div>
+                  {profileSummary(audience, 'default')}
                   {audience.generated && (
                     <div className="mt-3 pt-3 border-t border-border-subtle">
                       <p className="font-sans text-xs text-slate italic">
@@ -170,7 +374,7 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
               <h3 className="font-sans text-overline text-slate uppercase tracking-widest">
                 Custom Audiences
               </h3>
-              {!isCreating && (
+              {!isCreating && !editingId && (
                 <button
                   onClick={() => setIsCreating(true)}
                   className="flex items-center gap-1.5 font-sans text-ui text-editorial-red hover:text-ink transition-colors"
@@ -193,7 +397,7 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
                   <motion.div
                     key={audience.id}
                     variants={staggerItem}
-                    className="border border-editorial-red/30 bg-editorial-red/5 p-4"
+                    className={`border p-4 ${editingId === audience.id ? 'border-ink bg-pearl' : 'border-editorial-red/30 bg-editorial-red/5'}`}
                   >
                     <div className="flex items-start justify-between">
                       <div>
@@ -204,14 +408,24 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
                           {audience.description}
                         </p>
                       </div>
-                      <button
-                        onClick={() => onRemoveAudience(audience.id)}
-                        className="p-1 hover:bg-editorial-red/20 transition-colors"
-                        title="Remove audience"
-                      >
-                        <XIcon className="h-4 w-4 text-editorial-red" />
-                      </button>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button
+                          onClick={() => handleStartEdit(audience)}
+                          className="p-1 hover:bg-editorial-red/20 transition-colors"
+                          title="Edit audience"
+                        >
+                          <EditIcon className="h-4 w-4 text-slate" />
+                        </button>
+                        <button
+                          onClick={() => onRemoveAudience(audience.id)}
+                          className="p-1 hover:bg-editorial-red/20 transition-colors"
+                          title="Remove audience"
+                        >
+                          <XIcon className="h-4 w-4 text-editorial-red" />
+                        </button>
+                      </div>
                     </div>
+                    {profileSummary(audience, 'custom')}
                     {audience.generated && (
                       <div className="mt-3 pt-3 border-t border-editorial-red/20">
                         <p className="font-sans text-xs text-slate italic">
@@ -240,9 +454,9 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
               </p>
             )}
 
-            {/* Create New Audience Form */}
+            {/* Create / Edit Audience Form */}
             <AnimatePresence>
-              {isCreating && (
+              {(isCreating || editingId) && (
                 <motion.div
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
@@ -250,7 +464,7 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
                   className="border border-ink p-6"
                 >
                   <h4 className="font-sans text-ui font-medium text-ink mb-4">
-                    Create New Audience
+                    {editingId ? 'Edit Audience' : 'Create New Audience'}
                   </h4>
 
                   <div className="space-y-4">
@@ -287,8 +501,30 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
                       <p className="font-sans text-ui text-editorial-red">{error}</p>
                     )}
 
+                    {/* Edit: profile fields and save */}
+                    {editingId && (
+                      <>
+                        {profileFields}
+                        <div className="flex gap-3 pt-3 border-t border-border-subtle">
+                          <button
+                            onClick={handleSaveEdit}
+                            disabled={isSaving || !newAudienceName.trim()}
+                            className="bg-editorial-red text-paper font-sans text-ui py-2 px-4 hover:bg-red-700 transition-colors disabled:bg-silver disabled:cursor-not-allowed"
+                          >
+                            {isSaving ? 'Saving...' : 'Save Changes'}
+                          </button>
+                          <button
+                            onClick={handleCancel}
+                            className="font-sans text-ui text-slate hover:text-ink transition-colors py-2 px-4"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </>
+                    )}
+
                     {/* Generate Button */}
-                    {!generatedConfig && (
+                    {!editingId && !generatedConfig && (
                       <div className="flex gap-3">
                         <button
                           onClick={handleGenerateConfig}
@@ -308,7 +544,7 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
                     )}
 
                     {/* Generated Config Preview */}
-                    {generatedConfig && (
+                    {!editingId && generatedConfig && (
                       <motion.div
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -356,6 +592,10 @@ export const AudienceConfigEditor: React.FC<AudienceConfigEditorProps> = ({
                             </div>
                           )}
 
+                        <div className="pt-3 border-t border-border-subtle">
+                          {profileFields}
+                        </div>
+
                         <div className="flex gap-3 pt-3 border-t border-border-subtle">
                           <button
                             onClick={handleSaveAudience}
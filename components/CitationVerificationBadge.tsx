@@ -0,0 +1,72 @@
+/**
+ * Citation Verification Badge Component
+ *
+ * Shows whether an audience section's citations match the sources allocated
+ * to it (verified, repaired after verification failed, or still unverified).
+ * Hovering lists what was repaired and any remaining issues.
+ */
+
+import React from 'react';
+import type { SectionVerificationReport, SectionVerificationStatus } from '../types';
+import { CheckIcon, RefreshIcon, AlertIcon } from './IconComponents';
+
+interface CitationVerificationBadgeProps {
+  report: SectionVerificationReport;
+}
+
+const STATUS_LABELS: Record<SectionVerificationStatus, string> = {
+  verified: 'Citations verified',
+  repaired: 'Citations repaired',
+  unverified: 'Citations unverified',
+};
+
+const STATUS_CLASSES: Record<SectionVerificationStatus, string> = {
+  verified: 'bg-editorial-sage text-paper',
+  repaired: 'bg-editorial-gold text-paper',
+  unverified: 'bg-editorial-red text-paper',
+};
+
+const STATUS_ICONS: Record<SectionVerificationStatus, typeof CheckIcon> = {
+  verified: CheckIcon,
+  repaired: RefreshIcon,
+  unverified: AlertIcon,
+};
+
+const describe = (report: SectionVerificationReport): string => {
+  const lines = [
+    report.knowledgeBaseCitations
+      ? `${report.validCitations} cited source(s) verified, ${report.knowledgeBaseCitations} from the knowledge base`
+      : `${report.validCitations} cited source(s) match the allocated sources`,
+  ];
+
+  for (const { from, to } of report.replacedUrls) {
+    lines.push(`Replaced ${from} → ${to}`);
+  }
+  if (report.regenerations > 0) {
+    lines.push(`Regenerated ${report.regenerations} time(s) with strict citation rules`);
+  }
+  for (const url of report.unverifiedUrls) {
+    lines.push(`Not an allocated source: ${url}`);
+  }
+  if (report.status === 'unverified') {
+    lines.push(...report.issues);
+  }
+
+  return lines.join('\n');
+};
+
+export const CitationVerificationBadge: React.FC<CitationVerificationBadgeProps> = ({ report }) => {
+  const Icon = STATUS_ICONS[report.status];
+
+  return (
+    <span
+      title={describe(report)}
+      className={`inline-flex items-center gap-1 px-2 py-1 font-sans text-xs uppercase tracking-wider ${STATUS_CLASSES[report.status]}`}
+    >
+      <Icon className="h-3 w-3" />
+      {STATUS_LABELS[report.status]}
+    </span>
+  );
+};
+
+export default CitationVerificationBadge;
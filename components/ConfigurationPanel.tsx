@@ -18,7 +18,7 @@ import type { NewsletterTemplate } from '../services/templateClientService';
 import type { SavedPrompt } from '../services/promptClientService';
 import { PresetsManager } from './PresetsManager';
 import { PromptOfTheDayEditor } from './PromptOfTheDayEditor';
-import { GenerationProgress } from './GenerationProgress';
+import { GenerationProgress, STREAMING_GENERATION_STAGES } from './GenerationProgress';
 import { ActionButton } from './ActionButton';
 import { SparklesIcon, RefreshIcon, SaveIcon, ChevronDownIcon } from './IconComponents';
 import { staggerContainer, staggerItem } from '../utils/animations';
@@ -99,10 +99,14 @@ interface ConfigurationPanelProps {
 
   // Generation
   handleGenerateNewsletter: () => Promise<void>;
+  /** Cancel the running generation job (shown under the progress when set) */
+  onCancelGeneration?: () => void;
   hasSelectedAudience: boolean;
   isLoading: boolean;
   loading: string | null;
   progress: number;
+  /** Pipeline stage from streaming generation (null = estimate from progress) */
+  generationStage?: string | null;
   error: { message: string; onRetry?: () => void } | null;
 }
 
@@ -154,10 +158,12 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
   isTemplatesLoading,
   hasNewsletterContent,
   handleGenerateNewsletter,
+  onCancelGeneration,
   hasSelectedAudience,
   isLoading,
   loading,
   progress,
+  generationStage = null,
   error,
 }) => {
   // Template save modal state
@@ -525,7 +531,23 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
               <h3 className="font-display text-h4 text-ink mb-4 text-center">
                 Creating Newsletter
               </h3>
-              <GenerationProgress progress={progress} message={loading} />
+              <GenerationProgress
+                progress={progress}
+                message={loading}
+                stages={generationStage ? STREAMING_GENERATION_STAGES : undefined}
+                currentStage={generationStage}
+              />
+              {onCancelGeneration && (
+                <div className="text-center mt-4">
+                  <button
+                    type="button"
+                    onClick={onCancelGeneration}
+                    className="font-sans text-ui text-slate hover:text-editorial-red transition-colors"
+                  >
+                    Cancel generation
+                  </button>
+                </div>
+              )}
             </motion.section>
           )}
         </AnimatePresence>
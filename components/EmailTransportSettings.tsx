@@ -0,0 +1,187 @@
+/**
+ * EmailTransportSettings Component
+ *
+ * Chooses how newsletters are delivered:
+ * - Gmail API (default, uses the connected Google account)
+ * - SMTP relay (host/port/username; password stored as an API key)
+ * - Local outbox (.eml files in data/outbox, for testing)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { SendIcon, CheckIcon } from './IconComponents';
+import * as transportApi from '../services/emailTransportClientService';
+import type { EmailTransportType } from '../services/emailTransportClientService';
+import { saveApiKey, validateApiKey } from '../services/apiKeyService';
+
+interface EmailTransportSettingsProps {
+    userEmail: string | null;
+}
+
+const TRANSPORT_OPTIONS: { value: EmailTransportType; label: string; description: string }[] = [
+    { value: 'gmail', label: 'Gmail', description: 'Send from your connected Google account.' },
+    { value: 'smtp', label: 'SMTP relay', description: 'Send through a company mail relay or any SMTP server.' },
+    { value: 'outbox', label: 'Local outbox', description: 'Write .eml files to data/outbox instead of sending (for testing).' },
+];
+
+const inputClass = 'w-full bg-gray-50 border border-border-light rounded-lg p-2 focus:ring-2 focus:ring-accent-light-blue focus:outline-none transition text-primary-text';
+
+export const EmailTransportSettings: React.FC<EmailTransportSettingsProps> = ({ userEmail }) => {
+    const [transport, setTransport] = useState<EmailTransportType>('gmail');
+    const [host, setHost] = useState('');
+    const [port, setPort] = useState('587');
+    const [secure, setSecure] = useState(false);
+    const [username, setUsername] = useState('');
+    const [fromAddress, setFromAddress] = useState('');
+    const [password, setPassword] = useState('');
+    const [hasSmtpPassword, setHasSmtpPassword] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [status, setStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+    useEffect(() => {
+        if (!userEmail) return;
+        let cancelled = false;
+
+        transportApi.getTransportSettings(userEmail)
+            .then(settings => {
+                if (cancelled) return;
+                setTransport(settings.transport);
+                setHasSmtpPassword(settings.hasSmtpPassword);
+                if (settings.smtp) {
+                    setHost(settings.smtp.host);
+                    setPort(String(settings.smtp.port));
+                    setSecure(settings.smtp.secure);
+                    setUsername(settings.smtp.username || '');
+                    setFromAddress(settings.smtp.fromAddress || '');
+                }
+            })
+            .catch(err => console.error('[EmailTransportSettings] Failed to load settings:', err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userEmail]);
+
+    const handleSave = async () => {
+        if (!userEmail) return;
+        setIsSaving(true);
+        setStatus(null);
+
+        try {
+            const smtp = host.trim()
+                ? {
+                    host: host.trim(),
+                    port: Number(port),
+                    secure,
+                    username: username.trim() || null,
+                    fromAddress: fromAddress.trim() || null,
+                }
+                : null;
+
+            const saved = await transportApi.updateTransportSettings(userEmail, transport, smtp);
+
+            if (password) {
+                await saveApiKey({ service: 'smtp_password', key: password }, userEmail);
+                setPassword('');
+                setHasSmtpPassword(true);
+            } else {
+                setHasSmtpPassword(saved.hasSmtpPassword);
+            }
+
+            if (transport === 'smtp' && username.trim()) {
+                const isValid = await validateApiKey('smtp_password', userEmail);
+                setStatus(isValid
+                    ? { message: 'Saved. Connected to SMTP server successfully.', type: 'success' }
+                    : { message: 'Saved, but the SMTP server rejected the login. Check host, port and credentials.', type: 'error' });
+            } else {
+                setStatus({ message: 'Email delivery settings saved.', type: 'success' });
+            }
+        } catch (err) {
+            setStatus({ message: err instanceof Error ? err.message : 'Failed to save settings', type: 'error' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-border-light">
+            <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-accent-muted-blue to-accent-salmon mb-4 flex items-center gap-2">
+                <SendIcon className="h-6 w-6" />
+                Email Delivery
+            </h2>
+            <p className="text-secondary-text mb-6">
+                Choose how newsletters are sent, both from the app and by scheduled sends.
+            </p>
+
+            <div className={`space-y-4 ${userEmail ? '' : 'opacity-50 pointer-events-none'}`}>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {TRANSPORT_OPTIONS.map(option => (
+                        <label
+                            key={option.value}
+                            className={`p-3 border rounded-lg cursor-pointer transition ${
+                                transport === option.value ? 'border-accent-light-blue bg-blue-50' : 'border-border-light hover:bg-gray-50'
+                            }`}
+                        >
+                            <input
+                                type="radio"
+                                name="emailTransport"
+                                value={option.value}
+                                checked={transport === option.value}
+                                onChange={() => setTransport(option.value)}
+                                className="mr-2"
+                            />
+                            <span className="font-medium text-primary-text">{option.label}</span>
+                            <p className="text-xs text-secondary-text mt-1">{option.description}</p>
+                        </label>
+                    ))}
+                </div>
+
+                {transport === 'smtp' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="smtpHost" className="block text-sm font-medium text-primary-text mb-1">Host</label>
+                            <input id="smtpHost" type="text" value={host} onChange={e => setHost(e.target.value)} placeholder="smtp.company.com" className={inputClass} />
+                        </div>
+                        <div className="flex gap-4">
+                            <div className="flex-1">
+                                <label htmlFor="smtpPort" className="block text-sm font-medium text-primary-text mb-1">Port</label>
+                                <input id="smtpPort" type="number" value={port} onChange={e => setPort(e.target.value)} className={inputClass} />
+                            </div>
+                            <label className="flex items-end gap-2 pb-2 text-sm text-primary-text">
+                                <input type="checkbox" checked={secure} onChange={e => setSecure(e.target.checked)} />
+                                TLS (465)
+                            </label>
+                        </div>
+                        <div>
+                            <label htmlFor="smtpUsername" className="block text-sm font-medium text-primary-text mb-1">Username</label>
+                            <input id="smtpUsername" type="text" value={username} onChange={e => setUsername(e.target.value)} placeholder="Leave empty for unauthenticated relays" className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="smtpPassword" className="block text-sm font-medium text-primary-text mb-1">
+                                Password {hasSmtpPassword && <span className="text-xs text-green-600 inline-flex items-center gap-1"><CheckIcon className="h-3 w-3" /> stored</span>}
+                            </label>
+                            <input id="smtpPassword" type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder={hasSmtpPassword ? 'Leave empty to keep current password' : ''} className={inputClass} />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <label htmlFor="smtpFrom" className="block text-sm font-medium text-primary-text mb-1">From address</label>
+                            <input id="smtpFrom" type="text" value={fromAddress} onChange={e => setFromAddress(e.target.value)} placeholder={userEmail || 'newsletter@company.com'} className={inputClass} />
+                        </div>
+                    </div>
+                )}
+
+                <div className="pt-2 flex items-center justify-end gap-4">
+                    {status && (
+                        <p className={`text-sm ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{status.message}</p>
+                    )}
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || (transport === 'smtp' && !host.trim())}
+                        className="bg-accent-light-blue hover:bg-opacity-90 disabled:opacity-50 text-white font-semibold py-2 px-4 rounded-lg transition"
+                    >
+                        {isSaving ? 'Saving...' : 'Save Delivery Settings'}
+                    </button>
+                </div>
+            </div>
+            {!userEmail && <p className="text-center text-sm text-secondary-text mt-3">Please connect your Google Account above to configure email delivery.</p>}
+        </div>
+    );
+};
@@ -0,0 +1,364 @@
+/**
+ * EnhancedImageBatchModal Component
+ *
+ * Modal for generating the images of a saved enhanced (v2/V4) newsletter in
+ * one batch on the server: header hero, tool of the day and audience sections.
+ * Shows per-image progress and lets the whole batch switch image style.
+ *
+ * Each image is saved to the newsletter as it completes, so closing the tab
+ * mid-batch keeps the finished images.
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XIcon, SparklesIcon, CheckIcon, ImageIcon } from './IconComponents';
+import { Spinner } from './Spinner';
+import { fadeInUp } from '../utils/animations';
+import { useNewsletterSettings } from '../contexts';
+import * as newsletterApi from '../services/newsletterClientService';
+import type { EnhancedNewsletter, NewsletterImageSlot, NewsletterImageTarget } from '../types';
+
+interface EnhancedImageBatchModalProps {
+  newsletterId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete: (newsletter: EnhancedNewsletter) => void;
+}
+
+type ImageStatus = 'pending' | 'generating' | 'success' | 'error';
+
+const slotKey = (target: NewsletterImageTarget): string =>
+  target.kind === 'section' ? `section:${target.audienceId}` : target.kind;
+
+export const EnhancedImageBatchModal: React.FC<EnhancedImageBatchModalProps> = ({
+  newsletterId,
+  isOpen,
+  onClose,
+  onComplete,
+}) => {
+  const { selectedImageStyle, imageStyleOptions } = useNewsletterSettings();
+
+  const [slots, setSlots] = useState<NewsletterImageSlot[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [imageStyle, setImageStyle] = useState(selectedImageStyle);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [statuses, setStatuses] = useState<Map<string, ImageStatus>>(new Map());
+  const [errors, setErrors] = useState<Map<string, string>>(new Map());
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const stopListeningRef = useRef<(() => void) | null>(null);
+
+  // Load image slots when opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoadingSlots(true);
+    setError(null);
+    newsletterApi.getNewsletterImages(newsletterId)
+      .then(({ slots: loaded, imageStyle: storedStyle }) => {
+        setSlots(loaded);
+        // Preselect slots that don't have an image yet
+        setSelectedKeys(new Set(loaded.filter(s => !s.imageUrl).map(slotKey)));
+        if (storedStyle) setImageStyle(storedStyle);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load images'))
+      .finally(() => setIsLoadingSlots(false));
+  }, [isOpen, newsletterId]);
+
+  // Stop listening (not generating) if the modal unmounts mid-batch
+  useEffect(() => () => stopListeningRef.current?.(), []);
+
+  const handleToggleSlot = useCallback((key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleGenerate = useCallback(() => {
+    const targets = slots
+      .filter(slot => selectedKeys.has(slotKey(slot)))
+      .map(({ kind, audienceId }) => ({ kind, audienceId }));
+    if (targets.length === 0) return;
+
+    setIsGenerating(true);
+    setError(null);
+    setErrors(new Map());
+    setProgress({ current: 0, total: targets.length });
+    setStatuses(new Map(targets.map(t => [slotKey(t), 'pending' as ImageStatus])));
+
+    stopListeningRef.current = newsletterApi.streamNewsletterImages(
+      newsletterId,
+      { targets, imageStyle, concurrency },
+      (event) => {
+        const key = event.target ? slotKey(event.target) : null;
+
+        switch (event.type) {
+          case 'image_start':
+            if (key) setStatuses(prev => new Map(prev).set(key, 'generating'));
+            break;
+          case 'image_complete':
+            if (key) {
+              setStatuses(prev => new Map(prev).set(key, 'success'));
+              setSlots(prev => prev.map(s => (slotKey(s) === key ? { ...s, imageUrl: event.imageUrl } : s)));
+            }
+            setProgress({ current: (event.completedCount || 0) + (event.failedCount || 0), total: event.totalCount || targets.length });
+            break;
+          case 'image_error':
+            if (key) {
+              setStatuses(prev => new Map(prev).set(key, 'error'));
+              setErrors(prev => new Map(prev).set(key, event.error || 'Failed'));
+            }
+            setProgress({ current: (event.completedCount || 0) + (event.failedCount || 0), total: event.totalCount || targets.length });
+            break;
+          case 'batch_complete':
+            if (event.newsletter) onComplete(event.newsletter);
+            break;
+          case 'error':
+            setError(event.error || 'Image batch failed');
+            break;
+        }
+      },
+      () => {
+        setIsGenerating(false);
+        stopListeningRef.current = null;
+      },
+      (err) => {
+        setError(err.message);
+        setIsGenerating(false);
+        stopListeningRef.current = null;
+      }
+    );
+  }, [slots, selectedKeys, newsletterId, imageStyle, concurrency, onComplete]);
+
+  const handleClose = useCallback(() => {
+    if (!isGenerating) {
+      setStatuses(new Map());
+      setErrors(new Map());
+      setProgress({ current: 0, total: 0 });
+      onClose();
+    }
+  }, [isGenerating, onClose]);
+
+  if (!isOpen) return null;
+
+  const successCount = Array.from(statuses.values()).filter(s => s === 'success').length;
+  const errorCount = Array.from(statuses.values()).filter(s => s === 'error').length;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-ink/50 z-50 flex items-center justify-center p-4"
+        onClick={handleClose}
+      >
+        <motion.div
+          variants={fadeInUp}
+          initial="hidden"
+          animate="visible"
+          exit="hidden"
+          className="bg-paper border-2 border-ink max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b-2 border-ink">
+            <div>
+              <h2 className="font-display text-h2 text-ink">Generate Images</h2>
+              <p className="font-serif text-body text-slate mt-1">
+                Header, tool of the day and section images, saved to the newsletter
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              disabled={isGenerating}
+              className="p-2 hover:bg-pearl transition-colors disabled:opacity-50"
+            >
+              <XIcon className="h-5 w-5 text-ink" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            {/* Batch Settings */}
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="font-sans text-caption text-slate uppercase tracking-wider">Style</span>
+                <select
+                  value={imageStyle}
+                  onChange={(e) => setImageStyle(e.target.value)}
+                  disabled={isGenerating}
+                  className="mt-1 w-full bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink focus:outline-none focus:border-ink"
+                >
+                  {Object.entries(imageStyleOptions).map(([key, option]) => (
+                    <option key={key} value={key}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-sans text-caption text-slate uppercase tracking-wider">Parallel images</span>
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  disabled={isGenerating}
+                  className="mt-1 w-full bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink focus:outline-none focus:border-ink"
+                >
+                  {[1, 2, 3, 4].map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {/* Selection Controls */}
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setSelectedKeys(new Set(slots.map(slotKey)))}
+                disabled={isGenerating}
+                className="font-sans text-ui text-editorial-navy hover:underline disabled:opacity-50"
+              >
+                Select All ({slots.length})
+              </button>
+              <button
+                onClick={() => setSelectedKeys(new Set(slots.filter(s => !s.imageUrl).map(slotKey)))}
+                disabled={isGenerating}
+                className="font-sans text-ui text-slate hover:underline disabled:opacity-50"
+              >
+                Missing Only
+              </button>
+              <span className="font-sans text-caption text-slate ml-auto">
+                {selectedKeys.size} selected
+              </span>
+            </div>
+
+            {/* Slot List */}
+            {isLoadingSlots ? (
+              <div className="flex justify-center py-8"><Spinner /></div>
+            ) : (
+              <div className="space-y-2">
+                {slots.map((slot) => {
+                  const key = slotKey(slot);
+                  const status = statuses.get(key);
+                  const isSelected = selectedKeys.has(key);
+
+                  return (
+                    <div
+                      key={key}
+                      className={`
+                        flex items-center gap-3 p-3 border transition-colors
+                        ${isSelected ? 'border-ink bg-pearl' : 'border-border-subtle bg-paper'}
+                        ${isGenerating ? 'cursor-default' : 'cursor-pointer'}
+                      `}
+                      onClick={() => !isGenerating && handleToggleSlot(key)}
+                    >
+                      {/* Checkbox */}
+                      <div className={`
+                        w-5 h-5 border-2 flex items-center justify-center flex-shrink-0
+                        ${isSelected ? 'border-ink bg-ink' : 'border-border-subtle'}
+                      `}>
+                        {isSelected && <CheckIcon className="h-3 w-3 text-paper" />}
+                      </div>
+
+                      {/* Current Image */}
+                      <div className="w-12 h-12 bg-pearl flex-shrink-0 flex items-center justify-center overflow-hidden">
+                        {slot.imageUrl
+                          ? <img src={slot.imageUrl} alt="" className="w-full h-full object-cover" />
+                          : <ImageIcon className="h-5 w-5 text-silver" />}
+                      </div>
+
+                      {/* Slot Info */}
+                      <div className="flex-grow min-w-0">
+                        <p className="font-sans text-ui font-medium text-ink truncate">{slot.label}</p>
+                        <p className="font-sans text-caption text-slate truncate">
+                          {errors.get(key) || slot.imagePrompt}
+                        </p>
+                      </div>
+
+                      {/* Status Indicator */}
+                      {status && (
+                        <div className="flex-shrink-0">
+                          {status === 'pending' && <span className="text-slate font-sans text-caption">Queued</span>}
+                          {status === 'generating' && <Spinner />}
+                          {status === 'success' && (
+                            <span className="text-green-600 font-sans text-caption">Done</span>
+                          )}
+                          {status === 'error' && (
+                            <span className="text-editorial-red font-sans text-caption">Failed</span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Progress Bar */}
+            {isGenerating && progress.total > 0 && (
+              <div className="space-y-2">
+                <div className="h-2 bg-pearl overflow-hidden">
+                  <motion.div
+                    className="h-full bg-editorial-red"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(progress.current / progress.total) * 100}%` }}
+                    transition={{ duration: 0.3 }}
+                  />
+                </div>
+                <p className="font-sans text-caption text-slate text-center">
+                  Generated {progress.current} of {progress.total} images...
+                </p>
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-50 border-l-2 border-editorial-red p-3 font-sans text-caption text-charcoal">
+                {error}
+              </div>
+            )}
+
+            {/* Results Summary */}
+            {!isGenerating && (successCount > 0 || errorCount > 0) && (
+              <div className="p-4 bg-pearl border border-border-subtle">
+                <p className="font-sans text-ui">
+                  <span className="text-green-600">{successCount} succeeded</span>
+                  {errorCount > 0 && (
+                    <span className="text-editorial-red ml-3">{errorCount} failed</span>
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 p-6 border-t border-border-subtle">
+            <button
+              onClick={handleClose}
+              disabled={isGenerating}
+              className="px-4 py-2 border border-ink text-ink font-sans text-ui hover:bg-pearl transition-colors disabled:opacity-50"
+            >
+              {successCount > 0 || errorCount > 0 ? 'Done' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleGenerate}
+              disabled={selectedKeys.size === 0 || isGenerating || isLoadingSlots}
+              className="flex items-center gap-2 bg-editorial-red text-paper font-sans text-ui px-6 py-2 hover:bg-red-700 transition-colors disabled:bg-silver disabled:cursor-not-allowed"
+            >
+              <SparklesIcon className="h-4 w-4" />
+              {isGenerating ? 'Generating...' : `Generate ${selectedKeys.size} Images`}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default EnhancedImageBatchModal;
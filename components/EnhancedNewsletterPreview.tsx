@@ -3,11 +3,14 @@
  *
  * Renders the v2 enhanced newsletter format with:
  * - Editor's Note (editable)
+ * - Hero image (when generated)
  * - Tool of the Day
  * - Audience Sections with "Why It Matters"
  * - Practical Prompts with copy button
  * - Source Citations
+ * - Per-section citation verification badges (when a verification report is stored)
  * - Section Images with edit/upload capability
+ * - Per-section AI rewrite/regenerate with accept/reject (saved newsletters only)
  *
  * TODO: [LIMITATION] No drag-and-drop section reordering
  * Unlike NewsletterPreview (v1), this component doesn't support reordering sections.
@@ -24,6 +27,8 @@ import { ToolOfTheDayCard } from './ToolOfTheDayCard';
 import { PracticalPromptCard } from './PracticalPromptCard';
 import { SourceCitations } from './SourceCitations';
 import { WhyItMattersTag } from './WhyItMattersTag';
+import { SectionRewritePanel } from './SectionRewritePanel';
+import { CitationVerificationBadge } from './CitationVerificationBadge';
 import { ImageIcon, EditIcon, UploadIcon, SparklesIcon } from './IconComponents';
 
 interface EnhancedNewsletterPreviewProps {
@@ -32,6 +37,7 @@ interface EnhancedNewsletterPreviewProps {
   onEditImage?: (index: number, src: string, prompt: string) => void;
   onImageUpload?: (sectionIndex: number, file: File) => void;
   onGenerateImage?: (sectionIndex: number, imagePrompt: string) => Promise<void>;
+  onSectionReplaced?: (sectionIndex: number, section: EnhancedAudienceSection) => void;
   isLoading?: boolean;
   topics?: string[];
 }
@@ -61,6 +67,7 @@ export const EnhancedNewsletterPreview: React.FC<EnhancedNewsletterPreviewProps>
   onEditImage,
   onImageUpload,
   onGenerateImage,
+  onSectionReplaced,
   isLoading = false,
   topics = [],
 }) => {
@@ -150,6 +157,17 @@ export const EnhancedNewsletterPreview: React.FC<EnhancedNewsletterPreviewProps>
           <h1 className="font-display text-h1 text-ink leading-tight tracking-tight">
             {newsletter.subject || 'AI for PI Newsletter'}
           </h1>
+
+          {/* Hero Image */}
+          {newsletter.heroImage?.imageUrl && (
+            <figure className="mt-8 aspect-[16/9] bg-pearl overflow-hidden">
+              <img
+                src={newsletter.heroImage.imageUrl}
+                alt={newsletter.heroImage.imagePrompt}
+                className="w-full h-full object-cover"
+              />
+            </figure>
+          )}
         </header>
 
         {/* Article Body */}
@@ -168,7 +186,7 @@ export const EnhancedNewsletterPreview: React.FC<EnhancedNewsletterPreviewProps>
           </section>
 
           {/* Tool of the Day */}
-          {newsletter.toolOfTheDay && (
+          {newsletter.toolOfTheDay?.name && (
             <section className="mb-12">
               <ToolOfTheDayCard tool={newsletter.toolOfTheDay} />
             </section>
@@ -180,146 +198,161 @@ export const EnhancedNewsletterPreview: React.FC<EnhancedNewsletterPreviewProps>
             initial="hidden"
             animate="visible"
           >
-            {newsletter.audienceSections?.map((section, index) => (
-              <motion.section
-                key={`${section.audienceId}-${index}`}
-                variants={staggerItem}
-                className="mb-16"
-              >
-                {/* Section Divider */}
-                {index > 0 && <hr className="section-divider mb-10" />}
-
-                {/* Audience Badge */}
-                <div className="flex items-center gap-3 mb-4">
-                  <span className="px-3 py-1 bg-ink text-paper font-sans text-xs uppercase tracking-wider">
-                    For {section.audienceName}
-                  </span>
-                </div>
-
-                {/* Section Title */}
-                <EditableText
-                  as="h2"
-                  initialValue={section.title}
-                  onSave={(value) => handleUpdateSectionField('title', value, index)}
-                  className="font-display text-h2 text-ink mb-4"
-                />
-
-                {/* Why It Matters */}
-                <WhyItMattersTag text={section.whyItMatters} />
-
-                {/* Section Image */}
-                <figure className="my-8">
-                  <div className="relative group/image aspect-[16/10] bg-pearl overflow-hidden">
-                    {section.imageUrl ? (
-                      <>
-                        <img
-                          src={section.imageUrl}
-                          alt={section.title}
-                          className="w-full h-full object-cover"
-                        />
-                        {/* Hover overlay with edit/upload buttons */}
-                        <div className="absolute inset-0 bg-ink/60 opacity-0 group-hover/image:opacity-100 transition-opacity duration-200 flex items-center justify-center gap-3">
-                          {onEditImage && (
-                            <button
-                              onClick={() => section.imageUrl && onEditImage(index, section.imageUrl, section.imagePrompt || '')}
-                              disabled={isLoading}
-                              className="flex items-center gap-2 bg-paper text-ink font-sans text-ui font-medium py-2 px-4 hover:bg-pearl transition-colors"
-                            >
-                              <EditIcon className="h-4 w-4" />
-                              Edit
-                            </button>
-                          )}
-                          {onImageUpload && (
-                            <button
-                              onClick={() => {
-                                setUploadingIndex(index);
-                                fileInputRef.current?.click();
-                              }}
-                              disabled={isLoading}
-                              className="flex items-center gap-2 bg-paper text-ink font-sans text-ui font-medium py-2 px-4 hover:bg-pearl transition-colors"
-                            >
-                              <UploadIcon className="h-4 w-4" />
-                              Upload
-                            </button>
+            {newsletter.audienceSections?.map((section, index) => {
+              const verification = newsletter.verificationReport?.sections.find(
+                (report) => report.audienceId === section.audienceId
+              );
+
+              return (
+                <motion.section
+                  key={`${section.audienceId}-${index}`}
+                  variants={staggerItem}
+                  className="mb-16"
+                >
+                  {/* Section Divider */}
+                  {index > 0 && <hr className="section-divider mb-10" />}
+
+                  {/* Audience Badge */}
+                  <div className="flex flex-wrap items-center gap-3 mb-4">
+                    <span className="px-3 py-1 bg-ink text-paper font-sans text-xs uppercase tracking-wider">
+                      For {section.audienceName}
+                    </span>
+                    {verification && <CitationVerificationBadge report={verification} />}
+                    {newsletter.id && onSectionReplaced && (
+                      <SectionRewritePanel
+                        newsletterId={newsletter.id}
+                        section={section}
+                        onAccept={(replacement) => onSectionReplaced(index, replacement)}
+                        disabled={isLoading}
+                      />
+                    )}
+                  </div>
+
+                  {/* Section Title */}
+                  <EditableText
+                    as="h2"
+                    initialValue={section.title}
+                    onSave={(value) => handleUpdateSectionField('title', value, index)}
+                    className="font-display text-h2 text-ink mb-4"
+                  />
+
+                  {/* Why It Matters */}
+                  <WhyItMattersTag text={section.whyItMatters} />
+
+                  {/* Section Image */}
+                  <figure className="my-8">
+                    <div className="relative group/image aspect-[16/10] bg-pearl overflow-hidden">
+                      {section.imageUrl ? (
+                        <>
+                          <img
+                            src={section.imageUrl}
+                            alt={section.title}
+                            className="w-full h-full object-cover"
+                          />
+                          {/* Hover overlay with edit/upload buttons */}
+                          <div className="absolute inset-0 bg-ink/60 opacity-0 group-hover/image:opacity-100 transition-opacity duration-200 flex items-center justify-center gap-3">
+                            {onEditImage && (
+                              <button
+                                onClick={() => section.imageUrl && onEditImage(index, section.imageUrl, section.imagePrompt || '')}
+                                disabled={isLoading}
+                                className="flex items-center gap-2 bg-paper text-ink font-sans text-ui font-medium py-2 px-4 hover:bg-pearl transition-colors"
+                              >
+                                <EditIcon className="h-4 w-4" />
+                                Edit
+                              </button>
+                            )}
+                            {onImageUpload && (
+                              <button
+                                onClick={() => {
+                                  setUploadingIndex(index);
+                                  fileInputRef.current?.click();
+                                }}
+                                disabled={isLoading}
+                                className="flex items-center gap-2 bg-paper text-ink font-sans text-ui font-medium py-2 px-4 hover:bg-pearl transition-colors"
+                              >
+                                <UploadIcon className="h-4 w-4" />
+                                Upload
+                              </button>
+                            )}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="flex flex-col items-center justify-center h-full">
+                          {generatingIndex === index ? (
+                            <>
+                              <div className="animate-spin h-8 w-8 border-2 border-ink border-t-transparent rounded-full mb-3" />
+                              <p className="text-caption text-slate font-sans">Generating image...</p>
+                            </>
+                          ) : section.imagePrompt && onGenerateImage ? (
+                            <>
+                              <ImageIcon className="h-10 w-10 text-silver mb-3" />
+                              <p className="text-caption text-slate font-sans mb-4">No image</p>
+                              <button
+                                onClick={() => handleGenerateImage(index, section.imagePrompt || '')}
+                                disabled={isLoading}
+                                className="flex items-center gap-2 bg-ink text-paper font-sans text-ui font-medium py-2 px-4 hover:bg-charcoal transition-colors disabled:bg-silver disabled:cursor-not-allowed"
+                              >
+                                <SparklesIcon className="h-4 w-4" />
+                                Generate Image
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <ImageIcon className="h-10 w-10 text-silver mb-3" />
+                              <p className="text-caption text-slate font-sans">No image available</p>
+                            </>
                           )}
                         </div>
-                      </>
-                    ) : (
-                      <div className="flex flex-col items-center justify-center h-full">
-                        {generatingIndex === index ? (
-                          <>
-                            <div className="animate-spin h-8 w-8 border-2 border-ink border-t-transparent rounded-full mb-3" />
-                            <p className="text-caption text-slate font-sans">Generating image...</p>
-                          </>
-                        ) : section.imagePrompt && onGenerateImage ? (
-                          <>
-                            <ImageIcon className="h-10 w-10 text-silver mb-3" />
-                            <p className="text-caption text-slate font-sans mb-4">No image</p>
-                            <button
-                              onClick={() => handleGenerateImage(index, section.imagePrompt || '')}
-                              disabled={isLoading}
-                              className="flex items-center gap-2 bg-ink text-paper font-sans text-ui font-medium py-2 px-4 hover:bg-charcoal transition-colors disabled:bg-silver disabled:cursor-not-allowed"
-                            >
-                              <SparklesIcon className="h-4 w-4" />
-                              Generate Image
-                            </button>
-                          </>
-                        ) : (
-                          <>
-                            <ImageIcon className="h-10 w-10 text-silver mb-3" />
-                            <p className="text-caption text-slate font-sans">No image available</p>
-                          </>
-                        )}
-                      </div>
+                      )}
+                    </div>
+                    {section.imagePrompt && (
+                      <figcaption className="caption mt-2 text-center text-caption text-slate font-sans">
+                        {section.imagePrompt}
+                      </figcaption>
                     )}
-                  </div>
-                  {section.imagePrompt && (
-                    <figcaption className="caption mt-2 text-center text-caption text-slate font-sans">
-                      {section.imagePrompt}
-                    </figcaption>
-                  )}
-                </figure>
-
-                {/* Section Content */}
-                <EditableText
-                  isHtml
-                  initialValue={section.content}
-                  onSave={(value) => handleUpdateSectionField('content', value, index)}
-                  className="prose-editorial font-serif text-body text-charcoal leading-relaxed mb-8"
-                />
-
-                {/* Practical Prompt */}
-                {section.practicalPrompt && (
-                  <PracticalPromptCard
-                    prompt={section.practicalPrompt}
-                    onCopy={() =>
-                      handleCopyPrompt(section.practicalPrompt.prompt, index)
-                    }
-                    isCopied={copiedPromptIndex === index}
+                  </figure>
+
+                  {/* Section Content */}
+                  <EditableText
+                    isHtml
+                    initialValue={section.content}
+                    onSave={(value) => handleUpdateSectionField('content', value, index)}
+                    className="prose-editorial font-serif text-body text-charcoal leading-relaxed mb-8"
                   />
-                )}
-
-                {/* Source Citations */}
-                {section.sources && section.sources.length > 0 && (
-                  <SourceCitations sources={section.sources} />
-                )}
-
-                {/* CTA */}
-                {section.cta && (
-                  <div className="mt-6">
-                    <button
-                      onClick={() =>
-                        section.cta.action === 'copy_prompt' &&
-                        handleCopyPrompt(section.practicalPrompt?.prompt || '', index)
+
+                  {/* Practical Prompt */}
+                  {section.practicalPrompt && (
+                    <PracticalPromptCard
+                      prompt={section.practicalPrompt}
+                      onCopy={() =>
+                        handleCopyPrompt(section.practicalPrompt.prompt, index)
                       }
-                      className="inline-flex items-center gap-2 bg-editorial-red text-paper font-sans text-ui font-medium py-2 px-6 hover:bg-red-700 transition-colors"
-                    >
-                      {section.cta.text}
-                    </button>
-                  </div>
-                )}
-              </motion.section>
-            ))}
+                      isCopied={copiedPromptIndex === index}
+                    />
+                  )}
+
+                  {/* Source Citations */}
+                  {section.sources && section.sources.length > 0 && (
+                    <SourceCitations sources={section.sources} />
+                  )}
+
+                  {/* CTA */}
+                  {section.cta && (
+                    <div className="mt-6">
+                      <button
+                        onClick={() =>
+                          section.cta.action === 'copy_prompt' &&
+                          handleCopyPrompt(section.practicalPrompt?.prompt || '', index)
+                        }
+                        className="inline-flex items-center gap-2 bg-editorial-red text-paper font-sans text-ui font-medium py-2 px-6 hover:bg-red-700 transition-colors"
+                      >
+                        {section.cta.text}
+                      </button>
+                    </div>
+                  )}
+                </motion.section>
+              );
+            })}
           </motion.div>
 
           {/* Prompt of the Day */}
@@ -1,24 +1,39 @@
 /**
  * GenerationProgress Component
  *
- * Shows detailed progress during newsletter generation with editorial styling
+ * Shows detailed progress during newsletter generation with editorial styling.
+ * Without a reported stage, the stage is estimated from the progress percentage;
+ * streaming generation reports the real pipeline stage instead.
  */
 
 import React from 'react';
 import { motion } from 'framer-motion';
 
-interface GenerationStage {
+export interface GenerationStage {
   id: string;
   label: string;
 }
 
-const stages: GenerationStage[] = [
+const defaultStages: GenerationStage[] = [
   { id: 'content', label: 'Generating content' },
   { id: 'search', label: 'Searching sources' },
   { id: 'images', label: 'Creating images' },
   { id: 'finalize', label: 'Finalizing' },
 ];
 
+/**
+ * Stages of the streamed V4 pipeline (ids match the server's phase names)
+ */
+export const STREAMING_GENERATION_STAGES: GenerationStage[] = [
+  { id: 'balancing', label: 'Balancing topics' },
+  { id: 'topics', label: 'Topic agents' },
+  { id: 'overlaps', label: 'Overlaps' },
+  { id: 'sources', label: 'Allocating sources' },
+  { id: 'sections', label: 'Writing sections' },
+  { id: 'merge', label: 'Merging' },
+  { id: 'images', label: 'Creating images' },
+];
+
 function getStageFromProgress(progress: number): string {
   if (progress < 30) return 'content';
   if (progress < 40) return 'search';
@@ -26,7 +41,11 @@ function getStageFromProgress(progress: number): string {
   return 'finalize';
 }
 
-function getStageStatus(stageId: string, currentStage: string): 'completed' | 'active' | 'pending' {
+function getStageStatus(
+  stages: GenerationStage[],
+  stageId: string,
+  currentStage: string
+): 'completed' | 'active' | 'pending' {
   const stageOrder = stages.map(s => s.id);
   const currentIndex = stageOrder.indexOf(currentStage);
   const stageIndex = stageOrder.indexOf(stageId);
@@ -39,13 +58,19 @@ function getStageStatus(stageId: string, currentStage: string): 'completed' | 'a
 interface GenerationProgressProps {
   progress: number;
   message: string;
+  /** Stages to show (defaults to the estimated content/search/images/finalize stages) */
+  stages?: GenerationStage[];
+  /** Stage reported by the server; when omitted it's estimated from progress */
+  currentStage?: string | null;
 }
 
 export const GenerationProgress: React.FC<GenerationProgressProps> = ({
   progress,
   message,
+  stages = defaultStages,
+  currentStage: reportedStage,
 }) => {
-  const currentStage = getStageFromProgress(progress);
+  const currentStage = reportedStage || getStageFromProgress(progress);
 
   return (
     <div className="w-full max-w-md mx-auto">
@@ -68,7 +93,7 @@ export const GenerationProgress: React.FC<GenerationProgressProps> = ({
       {/* Stage indicators - horizontal timeline */}
       <div className="flex items-center justify-between mb-8">
         {stages.map((stage, index) => {
-          const status = getStageStatus(stage.id, currentStage);
+          const status = getStageStatus(stages, stage.id, currentStage);
           const isLast = index === stages.length - 1;
 
           return (
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { EnhancedHistoryItem } from '../types';
-import { TrashIcon, CodeIcon } from './IconComponents';
+import { TrashIcon, CodeIcon, HistoryIcon } from './IconComponents';
 import { ConfirmationDialog } from './ConfirmationDialog';
+import { EmailStatsWidget } from './EmailStatsWidget';
 import { staggerContainer, staggerItem } from '../utils/animations';
 
 interface HistoryPanelProps {
@@ -10,9 +11,10 @@ interface HistoryPanelProps {
     onLoad: (item: EnhancedHistoryItem) => void;
     onClear: () => void;
     onDelete?: (id: string) => Promise<void>;
+    onShowRevisions?: (item: EnhancedHistoryItem) => void;
 }
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onLoad, onClear, onDelete }) => {
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onLoad, onClear, onDelete, onShowRevisions }) => {
     const [itemToDelete, setItemToDelete] = useState<EnhancedHistoryItem | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
 
@@ -119,11 +121,24 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onLoad, onC
                                         <p className="font-sans text-caption text-slate mt-1">
                                             {item.date}
                                         </p>
+                                        <EmailStatsWidget newsletterId={item.id} />
                                     </div>
                                     <div className="flex items-center gap-2 flex-shrink-0">
                                         <span className="font-sans text-caption text-silver group-hover:text-ink transition-colors">
                                             Load
                                         </span>
+                                        {onShowRevisions && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onShowRevisions(item);
+                                                }}
+                                                className="p-1 text-silver hover:text-editorial-navy transition-colors"
+                                                title="Revision history"
+                                            >
+                                                <HistoryIcon className="h-4 w-4" />
+                                            </button>
+                                        )}
                                         {onDelete && (
                                             <button
                                                 onClick={(e) => {
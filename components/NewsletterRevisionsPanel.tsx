@@ -0,0 +1,250 @@
+/**
+ * NewsletterRevisionsPanel Component
+ *
+ * Revision history of one saved newsletter:
+ * - Every revision with its number, source, author and time
+ * - A field-level diff between any two revisions (older -> newer)
+ * - One-click restore; the restore is recorded as a new revision
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { NewsletterRevisionDiff, NewsletterRevisionSource, NewsletterRevisionSummary } from '../types';
+import * as newsletterApi from '../services/newsletterClientService';
+import { XIcon, RefreshIcon, ImageIcon } from './IconComponents';
+
+interface NewsletterRevisionsPanelProps {
+  newsletterId: string;
+  subject: string;
+  author?: string;
+  onClose: () => void;
+  onRestored?: () => void;
+}
+
+const SOURCE_LABELS: Record<NewsletterRevisionSource, string> = {
+  ai_generation: 'AI generation',
+  inline_edit: 'Inline edit',
+  section_rewrite: 'Section rewrite',
+  image_change: 'Image change',
+  citation_repair: 'Citation repair',
+  restore: 'Restore',
+};
+
+const SOURCE_CLASSES: Record<NewsletterRevisionSource, string> = {
+  ai_generation: 'bg-editorial-navy text-paper',
+  inline_edit: 'bg-pearl text-ink border border-border-subtle',
+  section_rewrite: 'bg-editorial-gold text-paper',
+  image_change: 'bg-editorial-sage text-paper',
+  citation_repair: 'bg-editorial-navy/70 text-paper',
+  restore: 'bg-editorial-red text-paper',
+};
+
+const formatTime = (createdAt: string): string =>
+  new Date(createdAt.includes('T') ? createdAt : `${createdAt.replace(' ', 'T')}Z`).toLocaleString();
+
+export const NewsletterRevisionsPanel: React.FC<NewsletterRevisionsPanelProps> = ({
+  newsletterId,
+  subject,
+  author,
+  onClose,
+  onRestored,
+}) => {
+  const [revisions, setRevisions] = useState<NewsletterRevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [diff, setDiff] = useState<NewsletterRevisionDiff | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { revisions: list } = await newsletterApi.getRevisions(newsletterId);
+      setRevisions(list);
+      // Default comparison: previous revision -> latest
+      setToId(list[0]?.id ?? null);
+      setFromId(list[1]?.id ?? list[0]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [newsletterId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    if (fromId === null || toId === null || fromId === toId) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsDiffing(true);
+    newsletterApi.diffRevisions(newsletterId, fromId, toId)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare revisions'); })
+      .finally(() => { if (!cancelled) setIsDiffing(false); });
+
+    return () => { cancelled = true; };
+  }, [newsletterId, fromId, toId]);
+
+  const handleRestore = async (revision: NewsletterRevisionSummary) => {
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      await newsletterApi.restoreRevision(newsletterId, revision.id, author);
+      await loadRevisions();
+      onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const revisionLabel = (revision: NewsletterRevisionSummary) =>
+    `#${revision.revisionNumber} · ${SOURCE_LABELS[revision.source]} · ${formatTime(revision.createdAt)}`;
+
+  return (
+    <section className="bg-paper border border-border-subtle">
+      {/* Header */}
+      <div className="flex justify-between items-start px-6 py-4 border-b border-border-subtle">
+        <div>
+          <h2 className="font-display text-h3 text-ink">Revision History</h2>
+          <p className="font-sans text-caption text-slate mt-1">{subject}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate hover:text-ink transition-colors"
+          title="Close revision history"
+        >
+          <XIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <p className="px-6 py-3 font-sans text-caption text-editorial-red border-b border-border-subtle">{error}</p>
+      )}
+
+      {isLoading ? (
+        <p className="px-6 py-8 font-sans text-ui text-slate text-center">Loading revisions...</p>
+      ) : revisions.length === 0 ? (
+        <p className="px-6 py-8 font-sans text-ui text-slate text-center">
+          No revisions yet. Revisions are recorded from the next change to this newsletter.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-5 divide-y lg:divide-y-0 lg:divide-x divide-border-subtle">
+          {/* Revision list */}
+          <ul className="lg:col-span-2 divide-y divide-border-subtle max-h-[32rem] overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="px-6 py-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-sans text-ui font-medium text-ink">#{revision.revisionNumber}</span>
+                      <span className={`inline-flex items-center px-1.5 py-0.5 text-[10px] font-sans font-medium ${SOURCE_CLASSES[revision.source]}`}>
+                        {SOURCE_LABELS[revision.source]}
+                      </span>
+                      {index === 0 && (
+                        <span className="font-sans text-caption text-silver">current</span>
+                      )}
+                    </div>
+                    <p className="font-sans text-caption text-slate mt-1 truncate">
+                      {revision.author} · {formatTime(revision.createdAt)}
+                    </p>
+                    {revision.restoredFrom !== null && (
+                      <p className="font-sans text-caption text-silver mt-0.5">
+                        Restored from #{revisions.find(r => r.id === revision.restoredFrom)?.revisionNumber ?? '?'}
+                      </p>
+                    )}
+                  </div>
+                  {index > 0 && (
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                      className="flex items-center gap-1 font-sans text-caption text-editorial-navy hover:underline disabled:opacity-50 flex-shrink-0"
+                    >
+                      <RefreshIcon className={`h-3 w-3 ${restoringId === revision.id ? 'animate-spin' : ''}`} />
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff */}
+          <div className="lg:col-span-3 px-6 py-4">
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <label className="font-sans text-caption text-slate">
+                From
+                <select
+                  value={fromId ?? ''}
+                  onChange={(e) => setFromId(Number(e.target.value))}
+                  className="mt-1 w-full bg-pearl border border-border-subtle font-sans text-caption text-ink px-2 py-1.5"
+                >
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="font-sans text-caption text-slate">
+                To
+                <select
+                  value={toId ?? ''}
+                  onChange={(e) => setToId(Number(e.target.value))}
+                  className="mt-1 w-full bg-pearl border border-border-subtle font-sans text-caption text-ink px-2 py-1.5"
+                >
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {fromId === toId ? (
+              <p className="font-sans text-caption text-slate">Pick two different revisions to compare.</p>
+            ) : isDiffing ? (
+              <p className="font-sans text-caption text-slate">Comparing...</p>
+            ) : diff && diff.changes.length === 0 ? (
+              <p className="font-sans text-caption text-slate">No differences between these revisions.</p>
+            ) : diff && (
+              <div className="max-h-[28rem] overflow-y-auto border border-border-subtle">
+                <table className="w-full text-left">
+                  <thead className="bg-pearl sticky top-0">
+                    <tr className="font-sans text-caption text-slate uppercase tracking-wider">
+                      <th className="px-3 py-2 w-1/4">Field</th>
+                      <th className="px-3 py-2">Before</th>
+                      <th className="px-3 py-2">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border-subtle">
+                    {diff.changes.map(change => (
+                      <tr key={change.path} className="align-top font-sans text-caption">
+                        <td className="px-3 py-2 text-ink font-mono break-all">
+                          {change.isImage && <ImageIcon className="h-3 w-3 inline mr-1 text-slate" />}
+                          {change.path}
+                        </td>
+                        <td className="px-3 py-2 text-editorial-red break-words whitespace-pre-wrap">
+                          {change.before ?? <span className="text-silver italic">(none)</span>}
+                        </td>
+                        <td className="px-3 py-2 text-editorial-sage break-words whitespace-pre-wrap">
+                          {change.after ?? <span className="text-silver italic">(none)</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,179 @@
+/**
+ * PersonalizedPreviewModal - Preview as a Subscriber
+ *
+ * Renders the email as a chosen sample subscriber would receive it, with
+ * merge tags like {{first_name|there}} resolved from their attributes
+ */
+
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Newsletter, EnhancedNewsletter } from '../types';
+import * as subscriberApi from '../services/subscriberClientService';
+import { generateEmailHtml, generateEnhancedEmailHtml, isEnhancedNewsletter } from '../utils/emailGenerator';
+
+interface PersonalizedPreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  newsletter: Newsletter | EnhancedNewsletter;
+  topics: string[];
+}
+
+/**
+ * Subject the email is sent with (same fallback as the Gmail send path)
+ */
+const getEmailSubject = (newsletter: Newsletter | EnhancedNewsletter): string => {
+  if ('subject' in newsletter && newsletter.subject) return newsletter.subject;
+  if (isEnhancedNewsletter(newsletter) && newsletter.audienceSections[0]?.title) {
+    return newsletter.audienceSections[0].title;
+  }
+  return 'Newsletter';
+};
+
+export const PersonalizedPreviewModal: React.FC<PersonalizedPreviewModalProps> = ({
+  isOpen,
+  onClose,
+  newsletter,
+  topics,
+}) => {
+  const [subscribers, setSubscribers] = useState<subscriberApi.Subscriber[]>([]);
+  const [selectedEmail, setSelectedEmail] = useState('');
+  const [preview, setPreview] = useState<subscriberApi.PersonalizedPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load active subscribers as sample recipients
+  useEffect(() => {
+    if (!isOpen) return;
+
+    subscriberApi.getSubscribers({ status: 'active' })
+      .then(response => {
+        setSubscribers(response.subscribers);
+        setSelectedEmail(prev => prev || response.subscribers[0]?.email || '');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load subscribers'));
+  }, [isOpen]);
+
+  // Re-render whenever the sample subscriber or the newsletter changes
+  useEffect(() => {
+    if (!isOpen || !selectedEmail) return;
+
+    const htmlBody = isEnhancedNewsletter(newsletter)
+      ? generateEnhancedEmailHtml(newsletter, topics)
+      : generateEmailHtml(newsletter, topics);
+
+    setIsLoading(true);
+    setError(null);
+
+    subscriberApi.previewAsSubscriber(selectedEmail, { subject: getEmailSubject(newsletter), htmlBody })
+      .then(setPreview)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to personalize preview'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, selectedEmail, newsletter, topics]);
+
+  const handleClose = () => {
+    setPreview(null);
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const customValues = preview
+    ? Object.entries(preview.values).filter(([key, value]) => value && key !== 'email')
+    : [];
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-ink/50 flex items-center justify-center z-50 p-4"
+        onClick={handleClose}
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-pearl border border-stone rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col overflow-hidden"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="border-b border-stone p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="font-display text-xl text-ink">Preview as Subscriber</h2>
+                <p className="font-serif text-body-sm text-slate mt-1">
+                  Merge tags are resolved from the selected subscriber's name and attributes
+                </p>
+              </div>
+              <button
+                onClick={handleClose}
+                className="p-2 text-slate hover:text-ink transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="mt-4 flex items-center gap-3">
+              <label className="font-sans text-caption text-charcoal">Sample subscriber</label>
+              <select
+                value={selectedEmail}
+                onChange={e => setSelectedEmail(e.target.value)}
+                className="flex-1 px-3 py-2 border border-stone rounded-lg font-sans text-body-sm focus:outline-none focus:ring-2 focus:ring-ink/20"
+              >
+                {subscribers.length === 0 && <option value="">No active subscribers</option>}
+                {subscribers.map(sub => (
+                  <option key={sub.email} value={sub.email}>
+                    {sub.name ? `${sub.name} <${sub.email}>` : sub.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {customValues.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {customValues.map(([key, value]) => (
+                  <span key={key} className="px-2 py-0.5 bg-ink/5 rounded font-mono text-caption text-charcoal">
+                    {key}: {value}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 overflow-hidden flex flex-col p-6">
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="font-sans text-body-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {preview && (
+              <>
+                <p className="font-sans text-body-sm text-charcoal mb-3">
+                  <span className="text-slate">Subject:</span> {preview.subject}
+                </p>
+                <iframe
+                  title="Personalized email preview"
+                  srcDoc={preview.htmlBody}
+                  sandbox=""
+                  className={`flex-1 min-h-[50vh] w-full bg-white border border-stone rounded-lg ${isLoading ? 'opacity-50' : ''}`}
+                />
+              </>
+            )}
+
+            {!preview && isLoading && (
+              <p className="font-serif text-body text-slate italic">Rendering preview...</p>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default PersonalizedPreviewModal;
@@ -4,17 +4,19 @@
  * Right panel of the Generate Newsletter page containing:
  * - Empty state (when no newsletter generated)
  * - Newsletter Preview (v1 or v2 based on format)
- * - Workflow Actions (Save to Drive, Send via Gmail)
+ * - Workflow Actions (Preview as Subscriber, Save to Drive, Send via Gmail, Schedule Send)
  */
 
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import type { Newsletter, NewsletterSection, EnhancedNewsletter } from '../types';
+import type { Newsletter, NewsletterSection, EnhancedNewsletter, EnhancedAudienceSection } from '../types';
 import { NewsletterPreview } from './NewsletterPreview';
 import { EnhancedNewsletterPreview } from './EnhancedNewsletterPreview';
 import { BulkImageRegeneration } from './BulkImageRegeneration';
+import { EnhancedImageBatchModal } from './EnhancedImageBatchModal';
+import { PersonalizedPreviewModal } from './PersonalizedPreviewModal';
 import { ActionButton } from './ActionButton';
-import { DriveIcon, SendIcon, SparklesIcon, ImageIcon, CalendarIcon } from './IconComponents';
+import { DriveIcon, SendIcon, SparklesIcon, ImageIcon, CalendarIcon, ClockIcon, UsersIcon } from './IconComponents';
 import { fadeInUp } from '../utils/animations';
 import { useNewsletterSettings } from '../contexts';
 
@@ -31,15 +33,18 @@ interface PreviewPanelProps {
   onReorderSections: (newSections: NewsletterSection[]) => void;
   onUpdate: (field: keyof Newsletter | keyof NewsletterSection, value: string, sectionIndex?: number) => void;
   onEnhancedUpdate?: (field: string, value: string, sectionIndex?: number) => void;
+  onSectionReplaced?: (sectionIndex: number, section: EnhancedAudienceSection) => void;
   onGenerateImage?: (sectionIndex: number, imagePrompt: string) => Promise<void>;
   isLoading: boolean;
 
   // Phase 12.0: Bulk image regeneration
   onBulkUpdateSections?: (sections: NewsletterSection[]) => void;
+  onEnhancedImagesGenerated?: (newsletter: EnhancedNewsletter) => void;
 
   // Workflow actions
   onSaveToDrive?: () => Promise<void>;
   onSendViaGmail?: () => Promise<void>;
+  onScheduleSend?: () => void;
   isAuthenticated?: boolean;
   workflowStatus?: { savedToDrive: boolean; sentEmail: boolean };
 
@@ -59,11 +64,14 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
   onReorderSections,
   onUpdate,
   onEnhancedUpdate,
+  onSectionReplaced,
   onGenerateImage,
   isLoading,
   onBulkUpdateSections,
+  onEnhancedImagesGenerated,
   onSaveToDrive,
   onSendViaGmail,
+  onScheduleSend,
   isAuthenticated,
   workflowStatus,
   // Phase 16: Calendar entry linking
@@ -79,6 +87,10 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
   // Phase 12.0: Bulk image regeneration modal state
   const [showBulkRegenModal, setShowBulkRegenModal] = useState(false);
 
+  // Merge tag preview as a sample subscriber
+  const [showPersonalizedPreview, setShowPersonalizedPreview] = useState(false);
+  const emailNewsletter = useEnhancedFormat ? enhancedNewsletter : newsletter;
+
   // Get sections for bulk regeneration (v1 format only for now)
   const sections = newsletter?.sections || [];
 
@@ -125,6 +137,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                 newsletter={enhancedNewsletter}
                 topics={topics}
                 onUpdate={onEnhancedUpdate}
+                onSectionReplaced={onSectionReplaced}
                 onEditImage={onEditImage}
                 onImageUpload={onImageUpload}
                 onGenerateImage={onGenerateImage}
@@ -165,6 +178,28 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
               </button>
             )}
 
+            {/* Server-side image batch for saved enhanced newsletters */}
+            {useEnhancedFormat && enhancedNewsletter?.id && onEnhancedImagesGenerated && (
+              <button
+                onClick={() => setShowBulkRegenModal(true)}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-4 py-2 border border-editorial-navy text-editorial-navy font-sans text-sm hover:bg-editorial-navy hover:text-paper transition-colors disabled:opacity-50"
+              >
+                <ImageIcon className="h-4 w-4" />
+                Generate Images
+              </button>
+            )}
+
+            {/* Preview with merge tags resolved for a sample subscriber */}
+            <button
+              onClick={() => setShowPersonalizedPreview(true)}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-4 py-2 border border-editorial-navy text-editorial-navy font-sans text-sm hover:bg-editorial-navy hover:text-paper transition-colors disabled:opacity-50"
+            >
+              <UsersIcon className="h-4 w-4" />
+              Preview As
+            </button>
+
             {/* Phase 16: Save to Calendar Entry / Linked Status */}
             {!calendarEntryId && onOpenCalendarPicker ? (
               <button
@@ -207,18 +242,48 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                 className="text-sm py-2 px-4"
               />
             )}
+
+            {/* Schedule Send */}
+            {onScheduleSend && (
+              <button
+                onClick={onScheduleSend}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-4 py-2 border border-editorial-navy text-editorial-navy font-sans text-sm hover:bg-editorial-navy hover:text-paper transition-colors disabled:opacity-50"
+              >
+                <ClockIcon className="h-4 w-4" />
+                Schedule
+              </button>
+            )}
           </div>
         </div>
       )}
 
       {/* Phase 12.0: Bulk Image Regeneration Modal */}
-      <BulkImageRegeneration
-        sections={sections}
-        imageStyle={selectedImageStyle}
-        isOpen={showBulkRegenModal}
-        onClose={() => setShowBulkRegenModal(false)}
-        onComplete={handleBulkRegenComplete}
-      />
+      {useEnhancedFormat && enhancedNewsletter?.id && onEnhancedImagesGenerated ? (
+        <EnhancedImageBatchModal
+          newsletterId={enhancedNewsletter.id}
+          isOpen={showBulkRegenModal}
+          onClose={() => setShowBulkRegenModal(false)}
+          onComplete={onEnhancedImagesGenerated}
+        />
+      ) : (
+        <BulkImageRegeneration
+          sections={sections}
+          imageStyle={selectedImageStyle}
+          isOpen={showBulkRegenModal}
+          onClose={() => setShowBulkRegenModal(false)}
+          onComplete={handleBulkRegenComplete}
+        />
+      )}
+
+      {emailNewsletter && (
+        <PersonalizedPreviewModal
+          isOpen={showPersonalizedPreview}
+          onClose={() => setShowPersonalizedPreview(false)}
+          newsletter={emailNewsletter}
+          topics={topics}
+        />
+      )}
     </div>
   );
 };
@@ -3,7 +3,7 @@
  *
  * Modal for scheduling newsletter sends with:
  * - Date/time picker with minimum time validation
- * - Subscriber list multi-select
+ * - Subscriber list and segment multi-select
  * - Preview of scheduled send details
  */
 
@@ -11,6 +11,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { XIcon, ClockIcon, CalendarIcon } from './IconComponents';
 import { modalOverlay, modalContent } from '../utils/animations';
+import * as segmentApi from '../services/segmentClientService';
 import type { SubscriberList } from '../types';
 
 interface ScheduleSendModalProps {
@@ -55,6 +56,8 @@ export const ScheduleSendModal: React.FC<ScheduleSendModalProps> = ({
 
   const [scheduledDateTime, setScheduledDateTime] = useState(getDefaultDateTime());
   const [selectedLists, setSelectedLists] = useState<string[]>([]);
+  const [segments, setSegments] = useState<segmentApi.Segment[]>([]);
+  const [selectedSegments, setSelectedSegments] = useState<string[]>([]);
   const [isScheduling, setIsScheduling] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -66,7 +69,11 @@ export const ScheduleSendModal: React.FC<ScheduleSendModalProps> = ({
     if (isOpen) {
       setScheduledDateTime(getDefaultDateTime());
       setSelectedLists([]);
+      setSelectedSegments([]);
       setError(null);
+      segmentApi.getSegments()
+        .then(response => setSegments(response.segments))
+        .catch(e => console.warn('[ScheduleSendModal] Failed to load segments:', e));
     }
   }, [isOpen]);
 
@@ -98,6 +105,15 @@ export const ScheduleSendModal: React.FC<ScheduleSendModalProps> = ({
     );
   };
 
+  // Toggle segment selection
+  const toggleSegment = (segmentId: string) => {
+    setSelectedSegments(prev =>
+      prev.includes(segmentId)
+        ? prev.filter(id => id !== segmentId)
+        : [...prev, segmentId]
+    );
+  };
+
   // Select/deselect all lists
   const toggleAllLists = () => {
     if (selectedLists.length === subscriberLists.length) {
@@ -107,17 +123,23 @@ export const ScheduleSendModal: React.FC<ScheduleSendModalProps> = ({
     }
   };
 
-  // Calculate total recipients
+  // Calculate total recipients (segment sizes are as of now; they're re-evaluated at send time)
   const totalRecipients = useMemo(() => {
-    return subscriberLists
+    const listTotal = subscriberLists
       .filter(list => selectedLists.includes(list.id))
       .reduce((sum, list) => sum + list.subscriberCount, 0);
-  }, [selectedLists, subscriberLists]);
+    const segmentTotal = segments
+      .filter(segment => selectedSegments.includes(segment.id))
+      .reduce((sum, segment) => sum + (segment.memberCount || 0), 0);
+    return listTotal + segmentTotal;
+  }, [selectedLists, subscriberLists, selectedSegments, segments]);
+
+  const selectedTargetCount = selectedLists.length + selectedSegments.length;
 
   // Handle schedule
   const handleSchedule = async () => {
-    if (selectedLists.length === 0) {
-      setError('Please select at least one subscriber list');
+    if (selectedTargetCount === 0) {
+      setError('Please select at least one subscriber list or segment');
       return;
     }
 
@@ -135,7 +157,7 @@ export const ScheduleSendModal: React.FC<ScheduleSendModalProps> = ({
 
     try {
       // Convert to ISO string for API
-      await onSchedule(scheduledDate.toISOString(), selectedLists);
+      await onSchedule(scheduledDate.toISOString(), [...selectedLists, ...selectedSegments]);
       onClose();
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to schedule send');
@@ -275,13 +297,47 @@ export const ScheduleSendModal: React.FC<ScheduleSendModalProps> = ({
                 )}
               </div>
 
+              {/* Segments */}
+              {segments.length > 0 && (
+                <div>
+                  <label className="block font-sans text-overline text-slate uppercase tracking-wide mb-2">
+                    Segments
+                  </label>
+                  <div className="border border-border-subtle divide-y divide-border-subtle max-h-[200px] overflow-y-auto">
+                    {segments.map((segment) => (
+                      <label
+                        key={segment.id}
+                        className={`
+                          flex items-center gap-3 px-4 py-3 cursor-pointer transition-colors
+                          ${selectedSegments.includes(segment.id) ? 'bg-editorial-navy/5' : 'hover:bg-pearl'}
+                        `}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedSegments.includes(segment.id)}
+                          onChange={() => toggleSegment(segment.id)}
+                          className="w-4 h-4 text-editorial-navy border-border-subtle rounded focus:ring-editorial-navy"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-sans text-ui text-ink truncate">{segment.name}</p>
+                          <p className="font-sans text-caption text-silver truncate">Members are evaluated at send time</p>
+                        </div>
+                        <span className="font-mono text-caption text-slate">
+                          {segment.memberCount ?? 0} now
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Summary */}
-              {selectedLists.length > 0 && (
+              {selectedTargetCount > 0 && (
                 <div className="bg-editorial-gold/10 border border-editorial-gold/30 p-4">
                   <p className="font-sans text-ui text-ink">
                     <strong>Summary:</strong> Newsletter will be sent to{' '}
                     <strong>{totalRecipients}</strong> recipient{totalRecipients !== 1 ? 's' : ''} across{' '}
-                    <strong>{selectedLists.length}</strong> list{selectedLists.length !== 1 ? 's' : ''} on{' '}
+                    <strong>{selectedTargetCount}</strong> list{selectedTargetCount !== 1 ? 's' : ''} or segment{selectedTargetCount !== 1 ? 's' : ''} on{' '}
                     <strong>{formatDisplayDate(scheduledDateTime)}</strong>.
                   </p>
                 </div>
@@ -298,10 +354,10 @@ export const ScheduleSendModal: React.FC<ScheduleSendModalProps> = ({
               </button>
               <button
                 onClick={handleSchedule}
-                disabled={isScheduling || selectedLists.length === 0}
+                disabled={isScheduling || selectedTargetCount === 0}
                 className={`
                   px-6 py-2 font-sans text-ui transition-colors
-                  ${selectedLists.length === 0 || isScheduling
+                  ${selectedTargetCount === 0 || isScheduling
                     ? 'bg-silver text-paper cursor-not-allowed'
                     : 'bg-editorial-navy text-paper hover:bg-editorial-navy/90'
                   }
@@ -0,0 +1,227 @@
+/**
+ * SectionRewritePanel Component
+ *
+ * AI rewrite controls for one enhanced audience section:
+ * - "Regenerate" writes a fresh version from the section's original sources
+ * - "Rewrite" applies an instruction (preset or free text) to the current text
+ * - The proposal is shown next to the current version to accept or reject
+ *
+ * Accepting saves the section on the server and hands it back via onAccept;
+ * the newsletter's other sections are not touched.
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { EnhancedAudienceSection, SectionRewriteResult } from '../types';
+import * as newsletterApi from '../services/newsletterClientService';
+import { SparklesIcon, RefreshIcon, CheckIcon, XIcon } from './IconComponents';
+
+interface SectionRewritePanelProps {
+  newsletterId: string;
+  section: EnhancedAudienceSection;
+  onAccept: (section: EnhancedAudienceSection) => void;
+  disabled?: boolean;
+}
+
+const PRESET_INSTRUCTIONS = ['Shorter', 'More technical', 'Different angle', 'More practical examples'];
+
+const SectionVersion: React.FC<{ label: string; section: EnhancedAudienceSection; highlight?: boolean }> = ({
+  label,
+  section,
+  highlight = false,
+}) => (
+  <div className={`p-4 border ${highlight ? 'border-ink bg-paper' : 'border-border-subtle bg-pearl/50'}`}>
+    <p className="font-sans text-caption text-slate uppercase tracking-wider mb-2">{label}</p>
+    <h3 className="font-display text-h4 text-ink mb-2">{section.title}</h3>
+    <p className="font-sans text-caption text-charcoal italic mb-3">{section.whyItMatters}</p>
+    <div
+      className="prose-editorial font-serif text-ui text-charcoal leading-relaxed"
+      dangerouslySetInnerHTML={{ __html: section.content }}
+    />
+    {section.practicalPrompt && (
+      <p className="font-sans text-caption text-slate mt-3">
+        <span className="font-semibold">Prompt:</span> {section.practicalPrompt.scenario}
+      </p>
+    )}
+  </div>
+);
+
+export const SectionRewritePanel: React.FC<SectionRewritePanelProps> = ({
+  newsletterId,
+  section,
+  onAccept,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [result, setResult] = useState<SectionRewriteResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRewrite = async (rewriteInstruction?: string) => {
+    setIsRewriting(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const rewrite = await newsletterApi.rewriteSection(newsletterId, section.audienceId, rewriteInstruction);
+      setResult(rewrite);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rewrite section');
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!result) return;
+    setIsAccepting(true);
+    setError(null);
+
+    try {
+      await newsletterApi.replaceSection(newsletterId, section.audienceId, result.proposal);
+      onAccept(result.proposal);
+      setResult(null);
+      setInstruction('');
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save section');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setResult(null);
+    setError(null);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="flex items-center gap-1 font-sans text-caption text-slate hover:text-ink transition-colors disabled:opacity-50"
+      >
+        <SparklesIcon className="h-3 w-3" />
+        Rewrite with AI
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full mt-3 mb-6 p-4 bg-pearl border border-border-subtle">
+      <div className="flex items-center justify-between mb-3">
+        <p className="font-sans text-caption text-slate uppercase tracking-wider">
+          Rewrite section for {section.audienceName}
+        </p>
+        <button onClick={handleClose} className="text-slate hover:text-ink" title="Close">
+          <XIcon className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Instruction presets + free text */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {PRESET_INSTRUCTIONS.map(preset => (
+          <button
+            key={preset}
+            onClick={() => setInstruction(preset.toLowerCase())}
+            disabled={isRewriting}
+            className={`px-3 py-1 border font-sans text-caption transition-colors ${
+              instruction === preset.toLowerCase()
+                ? 'border-ink text-ink bg-paper'
+                : 'border-border-subtle text-slate hover:text-ink hover:border-ink'
+            }`}
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && instruction.trim() && !isRewriting && handleRewrite(instruction)}
+          maxLength={500}
+          placeholder="Instruction, e.g. focus on cost savings"
+          className="flex-1 bg-paper border border-border-subtle px-3 py-2 font-sans text-ui text-ink placeholder:text-silver focus:outline-none focus:border-ink"
+        />
+        <button
+          onClick={() => handleRewrite(instruction)}
+          disabled={isRewriting || !instruction.trim()}
+          className="flex items-center gap-2 bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors disabled:bg-silver"
+        >
+          <SparklesIcon className="h-4 w-4" />
+          Rewrite
+        </button>
+        <button
+          onClick={() => handleRewrite()}
+          disabled={isRewriting}
+          className="flex items-center gap-2 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-paper transition-colors disabled:opacity-50"
+        >
+          <RefreshIcon className={`h-4 w-4 ${isRewriting ? 'animate-spin' : ''}`} />
+          Regenerate
+        </button>
+      </div>
+
+      {isRewriting && (
+        <p className="font-sans text-caption text-slate mt-3">Writing a new version...</p>
+      )}
+
+      {error && (
+        <div className="mt-3 bg-red-50 border-l-2 border-editorial-red p-3 font-sans text-caption text-charcoal">
+          {error}
+        </div>
+      )}
+
+      {/* Side-by-side comparison */}
+      <AnimatePresence>
+        {result && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="mt-4"
+          >
+            {result.inputsSource === 'reconstructed' && (
+              <p className="font-sans text-caption text-silver mb-2">
+                This newsletter predates saved generation inputs, so the rewrite used the section's cited sources and the default tone.
+              </p>
+            )}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <SectionVersion label="Current" section={result.original} />
+              <SectionVersion
+                label={result.instruction ? `Proposed (${result.instruction})` : 'Proposed (regenerated)'}
+                section={result.proposal}
+                highlight
+              />
+            </div>
+            <div className="flex items-center justify-end gap-3 mt-4">
+              <button
+                onClick={() => setResult(null)}
+                disabled={isAccepting}
+                className="flex items-center gap-2 border border-border-subtle px-4 py-2 font-sans text-ui text-slate hover:text-ink hover:border-ink transition-colors"
+              >
+                <XIcon className="h-4 w-4" />
+                Reject
+              </button>
+              <button
+                onClick={handleAccept}
+                disabled={isAccepting}
+                className="flex items-center gap-2 bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors disabled:bg-silver"
+              >
+                <CheckIcon className="h-4 w-4" />
+                {isAccepting ? 'Saving...' : 'Accept'}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default SectionRewritePanel;
@@ -0,0 +1,540 @@
+/**
+ * SegmentManager Component
+ *
+ * Segments tab of Subscriber Management: saved rule-based segments with a
+ * rule builder and a live preview of the segment's size and members.
+ * Segments can be picked as recipients wherever lists can.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { SubscriberList } from '../types';
+import * as segmentApi from '../services/segmentClientService';
+import type { SegmentDefinition, SegmentRule, SegmentRuleField, SegmentRuleOperator } from '../services/segmentClientService';
+import { PlusIcon, TrashIcon, EditIcon, XIcon, UsersIcon } from './IconComponents';
+import { modalOverlay, modalContent, staggerContainer, staggerItem } from '../utils/animations';
+
+interface SegmentManagerProps {
+  lists: SubscriberList[];
+  /** Custom attribute keys in use, suggested for attribute rules */
+  attributeKeys: string[];
+}
+
+const FIELD_LABELS: Record<SegmentRuleField, string> = {
+  email: 'Email',
+  name: 'Name',
+  source: 'Source',
+  attribute: 'Attribute',
+  list: 'List membership',
+  date_added: 'Date added',
+  engagement: 'Engagement',
+};
+
+const TEXT_OPERATORS: SegmentRuleOperator[] = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_set', 'is_not_set',
+];
+
+const OPERATORS_BY_FIELD: Record<SegmentRuleField, SegmentRuleOperator[]> = {
+  email: TEXT_OPERATORS,
+  name: TEXT_OPERATORS,
+  source: TEXT_OPERATORS,
+  attribute: TEXT_OPERATORS,
+  list: ['in_list', 'not_in_list'],
+  date_added: ['before', 'after', 'within_days', 'older_than_days'],
+  engagement: ['did', 'did_not'],
+};
+
+const OPERATOR_LABELS: Record<SegmentRuleOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  starts_with: 'starts with',
+  ends_with: 'ends with',
+  is_set: 'is set',
+  is_not_set: 'is not set',
+  in_list: 'is in',
+  not_in_list: 'is not in',
+  before: 'before',
+  after: 'after',
+  within_days: 'within the last (days)',
+  older_than_days: 'more than (days) ago',
+  did: 'did',
+  did_not: 'did not',
+};
+
+const DEFAULT_RULE: SegmentRule = { field: 'email', operator: 'contains', value: '' };
+
+/**
+ * A fresh rule for a field, with that field's first operator and defaults
+ */
+const ruleForField = (field: SegmentRuleField, lists: SubscriberList[]): SegmentRule => {
+  const operator = OPERATORS_BY_FIELD[field][0];
+  switch (field) {
+    case 'list':
+      return { field, operator, value: lists[0]?.id || '' };
+    case 'engagement':
+      return { field, operator, event: 'open', lastNewsletters: 3 };
+    case 'attribute':
+      return { field, operator, attribute: '', value: '' };
+    default:
+      return { field, operator, value: '' };
+  }
+};
+
+const describeRule = (rule: SegmentRule, lists: SubscriberList[]): string => {
+  if (rule.field === 'engagement') {
+    return `${OPERATOR_LABELS[rule.operator]} ${rule.event} any of the last ${rule.lastNewsletters} newsletters`;
+  }
+  const subject = rule.field === 'attribute' ? rule.attribute : FIELD_LABELS[rule.field].toLowerCase();
+  const value = rule.field === 'list'
+    ? lists.find(l => l.id === rule.value)?.name || rule.value
+    : rule.value;
+  return `${subject} ${OPERATOR_LABELS[rule.operator]}${rule.operator.startsWith('is_') ? '' : ` "${value}"`}`;
+};
+
+export const SegmentManager: React.FC<SegmentManagerProps> = ({ lists, attributeKeys }) => {
+  const [segments, setSegments] = useState<segmentApi.Segment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Editor state
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [definition, setDefinition] = useState<SegmentDefinition>({ match: 'all', rules: [DEFAULT_RULE] });
+  const [preview, setPreview] = useState<segmentApi.SegmentPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Member view for a saved segment
+  const [viewing, setViewing] = useState<{ segment: segmentApi.Segment; preview: segmentApi.SegmentPreview } | null>(null);
+
+  const loadSegments = useCallback(async () => {
+    try {
+      const response = await segmentApi.getSegments();
+      setSegments(response.segments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load segments');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSegments();
+  }, [loadSegments]);
+
+  // Live preview while editing (debounced)
+  useEffect(() => {
+    if (!isEditorOpen) return;
+
+    const timer = setTimeout(() => {
+      segmentApi.previewSegment(definition)
+        .then(result => {
+          setPreview(result);
+          setPreviewError(null);
+        })
+        .catch(err => {
+          setPreview(null);
+          setPreviewError(err instanceof Error ? err.message : 'Preview failed');
+        });
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [definition, isEditorOpen]);
+
+  const openEditor = (segment?: segmentApi.Segment) => {
+    setEditingId(segment?.id || null);
+    setName(segment?.name || '');
+    setDescription(segment?.description || '');
+    setDefinition(segment?.definition || { match: 'all', rules: [DEFAULT_RULE] });
+    setPreview(null);
+    setPreviewError(null);
+    setIsEditorOpen(true);
+  };
+
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    setEditingId(null);
+  };
+
+  const updateRule = (index: number, rule: SegmentRule) => {
+    setDefinition({ ...definition, rules: definition.rules.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await segmentApi.updateSegment(editingId, { name, description, definition });
+      } else {
+        await segmentApi.createSegment({ name, description, definition });
+      }
+      closeEditor();
+      await loadSegments();
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Failed to save segment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: segmentApi.Segment) => {
+    if (!confirm(`Delete segment "${segment.name}"? Scheduled sends targeting it will skip it.`)) return;
+
+    try {
+      await segmentApi.deleteSegment(segment.id);
+      setSegments(segments.filter(s => s.id !== segment.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete segment');
+    }
+  };
+
+  const handleViewMembers = async (segment: segmentApi.Segment) => {
+    try {
+      setViewing({ segment, preview: await segmentApi.getSegmentMembers(segment.id, 100) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    }
+  };
+
+  const inputClass = 'bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink placeholder:text-silver focus:outline-none focus:border-ink';
+
+  const renderRuleValue = (rule: SegmentRule, index: number) => {
+    if (rule.operator === 'is_set' || rule.operator === 'is_not_set') return null;
+
+    if (rule.field === 'list') {
+      return (
+        <select value={rule.value} onChange={(e) => updateRule(index, { ...rule, value: e.target.value })} className={`flex-1 ${inputClass}`}>
+          {lists.map(list => (
+            <option key={list.id} value={list.id}>{list.name}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (rule.field === 'engagement') {
+      return (
+        <>
+          <select
+            value={rule.event}
+            onChange={(e) => updateRule(index, { ...rule, event: e.target.value as 'open' | 'click' })}
+            className={inputClass}
+          >
+            <option value="open">open</option>
+            <option value="click">click</option>
+          </select>
+          <span className="font-sans text-ui text-slate whitespace-nowrap">any of the last</span>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={rule.lastNewsletters}
+            onChange={(e) => updateRule(index, { ...rule, lastNewsletters: Number(e.target.value) })}
+            className={`w-20 ${inputClass}`}
+          />
+          <span className="font-sans text-ui text-slate">newsletters</span>
+        </>
+      );
+    }
+
+    const isDate = rule.operator === 'before' || rule.operator === 'after';
+    const isDays = rule.operator === 'within_days' || rule.operator === 'older_than_days';
+
+    return (
+      <input
+        type={isDate ? 'date' : isDays ? 'number' : 'text'}
+        min={isDays ? 1 : undefined}
+        value={rule.value || ''}
+        onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+        className={`flex-1 ${inputClass}`}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-editorial-red/10 border border-editorial-red text-editorial-red px-4 py-2 font-sans text-ui flex justify-between">
+          <span>{error}</span>
+          <button onClick={() => setError(null)}><XIcon className="h-4 w-4" /></button>
+        </div>
+      )}
+
+      <button
+        onClick={() => openEditor()}
+        className="flex items-center gap-2 bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors"
+      >
+        <PlusIcon className="h-4 w-4" />
+        Create Segment
+      </button>
+
+      {segments.length === 0 ? (
+        <div className="bg-paper border border-border-subtle p-12 text-center">
+          <UsersIcon className="h-12 w-12 mx-auto text-silver mb-4" />
+          <p className="font-serif text-body text-slate">
+            No segments yet. Segments pick recipients by rules, e.g. subscribers who opened any of the last 3 newsletters.
+          </p>
+        </div>
+      ) : (
+        <motion.div
+          variants={staggerContainer}
+          initial="hidden"
+          animate="visible"
+          className="grid md:grid-cols-2 lg:grid-cols-3 gap-6"
+        >
+          {segments.map(segment => (
+            <motion.div key={segment.id} variants={staggerItem} className="bg-paper border border-border-subtle p-6">
+              <h3 className="font-display text-h3 text-ink">{segment.name}</h3>
+              {segment.description && (
+                <p className="font-serif text-body text-slate mt-1">{segment.description}</p>
+              )}
+              <ul className="mt-3 space-y-1">
+                {segment.definition.rules.map((rule, i) => (
+                  <li key={i} className="font-sans text-caption text-charcoal">
+                    {i > 0 && <span className="text-slate uppercase mr-1">{segment.definition.match === 'all' ? 'and' : 'or'}</span>}
+                    {describeRule(rule, lists)}
+                  </li>
+                ))}
+              </ul>
+              <div className="pt-4 mt-4 border-t border-border-subtle mb-4">
+                <p className="font-sans text-ui text-slate">
+                  Members now: <span className="font-medium text-ink">{segment.memberCount ?? '-'}</span>
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => handleViewMembers(segment)}
+                  className="flex-1 flex items-center justify-center gap-2 border border-border-subtle px-3 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors"
+                >
+                  <UsersIcon className="h-4 w-4" />
+                  Members
+                </button>
+                <button
+                  onClick={() => openEditor(segment)}
+                  className="flex items-center justify-center border border-border-subtle px-3 py-2 text-ink hover:bg-pearl transition-colors"
+                  title="Edit"
+                >
+                  <EditIcon className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(segment)}
+                  className="flex items-center justify-center border border-editorial-red text-editorial-red px-3 py-2 hover:bg-editorial-red hover:text-paper transition-colors"
+                  title="Delete"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </motion.div>
+      )}
+
+      {/* Segment Editor Modal */}
+      <AnimatePresence>
+        {isEditorOpen && (
+          <motion.div
+            variants={modalOverlay}
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+            className="fixed inset-0 bg-ink/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            onClick={closeEditor}
+          >
+            <motion.div
+              variants={modalContent}
+              initial="hidden"
+              animate="visible"
+              exit="exit"
+              className="bg-paper border border-border-subtle p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="font-display text-h2 text-ink">{editingId ? 'Edit Segment' : 'Create Segment'}</h2>
+                <button onClick={closeEditor} className="text-slate hover:text-ink transition-colors">
+                  <XIcon className="h-5 w-5" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Segment name, e.g. Engaged readers"
+                  className={`w-full ${inputClass}`}
+                />
+                <input
+                  type="text"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  className={`w-full ${inputClass}`}
+                />
+
+                <div className="flex items-center gap-2 font-sans text-ui text-ink">
+                  Match
+                  <select
+                    value={definition.match}
+                    onChange={(e) => setDefinition({ ...definition, match: e.target.value as 'all' | 'any' })}
+                    className={inputClass}
+                  >
+                    <option value="all">all</option>
+                    <option value="any">any</option>
+                  </select>
+                  of these rules:
+                </div>
+
+                <datalist id="segment-attribute-keys">
+                  {attributeKeys.map(key => (
+                    <option key={key} value={key} />
+                  ))}
+                </datalist>
+
+                <div className="space-y-2">
+                  {definition.rules.map((rule, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={rule.field}
+                        onChange={(e) => updateRule(index, ruleForField(e.target.value as SegmentRuleField, lists))}
+                        className={inputClass}
+                      >
+                        {(Object.keys(FIELD_LABELS) as SegmentRuleField[]).map(field => (
+                          <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+                        ))}
+                      </select>
+                      {rule.field === 'attribute' && (
+                        <input
+                          type="text"
+                          list="segment-attribute-keys"
+                          value={rule.attribute || ''}
+                          onChange={(e) => updateRule(index, { ...rule, attribute: e.target.value })}
+                          placeholder="company"
+                          className={`w-32 ${inputClass}`}
+                        />
+                      )}
+                      <select
+                        value={rule.operator}
+                        onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as SegmentRuleOperator })}
+                        className={inputClass}
+                      >
+                        {OPERATORS_BY_FIELD[rule.field].map(op => (
+                          <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+                        ))}
+                      </select>
+                      {renderRuleValue(rule, index)}
+                      <button
+                        onClick={() => setDefinition({ ...definition, rules: definition.rules.filter((_, i) => i !== index) })}
+                        disabled={definition.rules.length === 1}
+                        className="text-slate hover:text-editorial-red disabled:opacity-30 transition-colors"
+                        title="Remove rule"
+                      >
+                        <XIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => setDefinition({ ...definition, rules: [...definition.rules, DEFAULT_RULE] })}
+                  className="flex items-center gap-1 font-sans text-ui text-slate hover:text-ink transition-colors"
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  Add rule
+                </button>
+
+                {/* Live preview */}
+                <div className="bg-pearl border border-border-subtle p-4">
+                  {previewError ? (
+                    <p className="font-sans text-ui text-editorial-red">{previewError}</p>
+                  ) : preview ? (
+                    <>
+                      <p className="font-sans text-ui text-ink mb-2">
+                        <strong>{preview.count}</strong> active subscriber{preview.count !== 1 ? 's' : ''} match right now
+                      </p>
+                      <ul className="font-sans text-caption text-charcoal space-y-0.5 max-h-40 overflow-y-auto">
+                        {preview.members.map(member => (
+                          <li key={member.email}>{member.name ? `${member.name} <${member.email}>` : member.email}</li>
+                        ))}
+                      </ul>
+                      {preview.count > preview.members.length && (
+                        <p className="font-sans text-caption text-slate mt-1">…and {preview.count - preview.members.length} more</p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="font-sans text-ui text-slate italic">Calculating…</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex gap-3 mt-8">
+                <button
+                  onClick={closeEditor}
+                  className="flex-1 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!name.trim() || isSaving}
+                  className="flex-1 bg-ink text-paper px-4 py-2 font-sans text-ui hover:bg-charcoal disabled:bg-silver transition-colors"
+                >
+                  {editingId ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Members Modal */}
+      <AnimatePresence>
+        {viewing && (
+          <motion.div
+            variants={modalOverlay}
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+            className="fixed inset-0 bg-ink/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            onClick={() => setViewing(null)}
+          >
+            <motion.div
+              variants={modalContent}
+              initial="hidden"
+              animate="visible"
+              exit="exit"
+              className="bg-paper border border-border-subtle p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="font-display text-h2 text-ink">{viewing.segment.name}</h2>
+                <button onClick={() => setViewing(null)} className="text-slate hover:text-ink transition-colors">
+                  <XIcon className="h-5 w-5" />
+                </button>
+              </div>
+              <p className="font-sans text-ui text-slate mb-4">
+                {viewing.preview.count} member{viewing.preview.count !== 1 ? 's' : ''} right now
+              </p>
+              <ul className="divide-y divide-border-subtle border border-border-subtle">
+                {viewing.preview.members.map(member => (
+                  <li key={member.email} className="px-4 py-2 font-sans text-ui text-ink">
+                    {member.email}
+                    {member.name && <span className="text-slate ml-2">{member.name}</span>}
+                  </li>
+                ))}
+              </ul>
+              {viewing.preview.count > viewing.preview.members.length && (
+                <p className="font-sans text-caption text-slate mt-2">
+                  Showing the first {viewing.preview.members.length}.
+                </p>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default SegmentManager;
@@ -4,6 +4,7 @@
  * Modal for selecting recipient lists before sending newsletter via Gmail.
  * Features:
  * - Subscriber list multi-select with recipient counts
+ * - Saved segments as additional targets (members resolved server-side at send)
  * - Select All / Deselect All toggle
  * - Real-time total recipient preview
  * - Loading state during send
@@ -16,11 +17,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { XIcon, SendIcon, UsersIcon } from './IconComponents';
 import { modalOverlay, modalContent } from '../utils/animations';
 import * as subscriberApi from '../services/subscriberClientService';
+import * as segmentApi from '../services/segmentClientService';
 import type { SubscriberList } from '../types';
 
 export interface SendEmailRecipients {
   listIds: string[];
   listNames: string[];
+  /** Selected segment IDs; their members are resolved by the server at send time */
+  segmentIds: string[];
   emails: string[];
   totalCount: number;
 }
@@ -39,7 +43,9 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
   onConfirm,
 }) => {
   const [subscriberLists, setSubscriberLists] = useState<SubscriberList[]>([]);
+  const [segments, setSegments] = useState<segmentApi.Segment[]>([]);
   const [selectedLists, setSelectedLists] = useState<string[]>([]);
+  const [selectedSegments, setSelectedSegments] = useState<string[]>([]);
   const [isSending, setIsSending] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -49,8 +55,12 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
     setIsLoading(true);
     setError(null);
     try {
-      const response = await subscriberApi.getLists();
-      setSubscriberLists(response.lists);
+      const [listsResponse, segmentsResponse] = await Promise.all([
+        subscriberApi.getLists(),
+        segmentApi.getSegments(),
+      ]);
+      setSubscriberLists(listsResponse.lists);
+      setSegments(segmentsResponse.segments);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load subscriber lists');
     } finally {
@@ -62,6 +72,7 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
   useEffect(() => {
     if (isOpen) {
       setSelectedLists([]);
+      setSelectedSegments([]);
       setError(null);
       fetchLists();
     }
@@ -95,6 +106,15 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
     );
   };
 
+  // Toggle segment selection
+  const toggleSegment = (segmentId: string) => {
+    setSelectedSegments(prev =>
+      prev.includes(segmentId)
+        ? prev.filter(id => id !== segmentId)
+        : [...prev, segmentId]
+    );
+  };
+
   // Select/deselect all lists
   const toggleAllLists = () => {
     if (selectedLists.length === subscriberLists.length) {
@@ -104,24 +124,36 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
     }
   };
 
-  // Calculate total recipients
+  // Calculate total recipients (segments overlapping lists are counted twice here)
   const totalRecipients = useMemo(() => {
-    return subscriberLists
+    const listTotal = subscriberLists
       .filter(list => selectedLists.includes(list.id))
       .reduce((sum, list) => sum + list.subscriberCount, 0);
-  }, [selectedLists, subscriberLists]);
+    const segmentTotal = segments
+      .filter(segment => selectedSegments.includes(segment.id))
+      .reduce((sum, segment) => sum + (segment.memberCount || 0), 0);
+    return listTotal + segmentTotal;
+  }, [selectedLists, subscriberLists, selectedSegments, segments]);
 
-  // Get selected list names
+  // Get selected list and segment names
   const selectedListNames = useMemo(() => {
     return subscriberLists
       .filter(list => selectedLists.includes(list.id))
       .map(list => list.name);
   }, [selectedLists, subscriberLists]);
 
+  const selectedSegmentNames = useMemo(() => {
+    return segments
+      .filter(segment => selectedSegments.includes(segment.id))
+      .map(segment => segment.name);
+  }, [selectedSegments, segments]);
+
+  const selectedTargetCount = selectedLists.length + selectedSegments.length;
+
   // Handle send
   const handleSend = async () => {
-    if (selectedLists.length === 0) {
-      setError('Please select at least one subscriber list');
+    if (selectedTargetCount === 0) {
+      setError('Please select at least one subscriber list or segment');
       return;
     }
 
@@ -146,7 +178,7 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
         }
       }
 
-      if (allEmails.length === 0) {
+      if (allEmails.length === 0 && selectedSegments.length === 0) {
         setError('No active subscribers found in selected lists');
         setIsSending(false);
         return;
@@ -155,6 +187,7 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
       await onConfirm({
         listIds: selectedLists,
         listNames: selectedListNames,
+        segmentIds: selectedSegments,
         emails: allEmails,
         totalCount: allEmails.length,
       });
@@ -282,17 +315,60 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
                     )}
                   </div>
 
+                  {/* Segments */}
+                  {segments.length > 0 && (
+                    <div>
+                      <label className="font-sans text-overline text-slate uppercase tracking-wide mb-2 block">
+                        Segments
+                      </label>
+                      <div className="border border-border-subtle divide-y divide-border-subtle max-h-[200px] overflow-y-auto">
+                        {segments.map((segment) => (
+                          <label
+                            key={segment.id}
+                            className={`
+                              flex items-center gap-3 px-4 py-3 cursor-pointer transition-colors
+                              ${selectedSegments.includes(segment.id) ? 'bg-editorial-navy/5' : 'hover:bg-pearl'}
+                            `}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selectedSegments.includes(segment.id)}
+                              onChange={() => toggleSegment(segment.id)}
+                              className="w-4 h-4 text-editorial-navy border-border-subtle rounded focus:ring-editorial-navy"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <p className="font-sans text-ui text-ink truncate">{segment.name}</p>
+                              {segment.description && (
+                                <p className="font-sans text-caption text-silver truncate">{segment.description}</p>
+                              )}
+                            </div>
+                            <span className="font-mono text-caption text-slate whitespace-nowrap">
+                              {segment.memberCount ?? 0} {segment.memberCount === 1 ? 'member' : 'members'}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Summary */}
-                  {selectedLists.length > 0 && (
+                  {selectedTargetCount > 0 && (
                     <div className="bg-editorial-gold/10 border border-editorial-gold/30 p-4">
                       <p className="font-sans text-ui text-ink">
                         <strong>Ready to send:</strong> Newsletter will be sent to approximately{' '}
                         <strong>{totalRecipients}</strong> recipient{totalRecipients !== 1 ? 's' : ''} across{' '}
-                        <strong>{selectedLists.length}</strong> list{selectedLists.length !== 1 ? 's' : ''}.
-                      </p>
-                      <p className="font-sans text-caption text-slate mt-1">
-                        Lists: {selectedListNames.join(', ')}
+                        <strong>{selectedTargetCount}</strong> selected list{selectedTargetCount !== 1 ? 's' : ''} or segment{selectedTargetCount !== 1 ? 's' : ''}.
                       </p>
+                      {selectedListNames.length > 0 && (
+                        <p className="font-sans text-caption text-slate mt-1">
+                          Lists: {selectedListNames.join(', ')}
+                        </p>
+                      )}
+                      {selectedSegmentNames.length > 0 && (
+                        <p className="font-sans text-caption text-slate mt-1">
+                          Segments: {selectedSegmentNames.join(', ')}
+                        </p>
+                      )}
                     </div>
                   )}
                 </>
@@ -309,10 +385,10 @@ export const SendEmailModal: React.FC<SendEmailModalProps> = ({
               </button>
               <button
                 onClick={handleSend}
-                disabled={isSending || selectedLists.length === 0 || isLoading}
+                disabled={isSending || selectedTargetCount === 0 || isLoading}
                 className={`
                   px-6 py-2 font-sans text-ui transition-colors
-                  ${selectedLists.length === 0 || isSending || isLoading
+                  ${selectedTargetCount === 0 || isSending || isLoading
                     ? 'bg-silver text-paper cursor-not-allowed'
                     : 'bg-editorial-navy text-paper hover:bg-editorial-navy/90'
                   }
@@ -1,7 +1,8 @@
 /**
  * Source Citations Component
  *
- * Displays a list of source links with titles.
+ * Displays a list of source links with titles. Knowledge base documents are
+ * labelled as such; those without a web URL (kb://) are shown unlinked.
  */
 
 import React from 'react';
@@ -35,6 +36,8 @@ const getFaviconUrl = (url: string): string => {
   }
 };
 
+const isDocumentReference = (url: string): boolean => url.startsWith('kb://');
+
 export const SourceCitations: React.FC<SourceCitationsProps> = ({ sources }) => {
   if (!sources || sources.length === 0) return null;
 
@@ -44,7 +47,14 @@ export const SourceCitations: React.FC<SourceCitationsProps> = ({ sources }) =>
         Sources
       </p>
       <ul className="space-y-2">
-        {sources.map((source, index) => (
+        {sources.map((source, index) => isDocumentReference(source.url) ? (
+          <li key={`${source.url}-${index}`} className="flex items-start gap-2">
+            <span className="font-sans text-ui text-charcoal">
+              {source.title}
+              <span className="text-slate text-xs ml-2">(knowledge base)</span>
+            </span>
+          </li>
+        ) : (
           <li key={`${source.url}-${index}`} className="flex items-start gap-2">
             <img
               src={getFaviconUrl(source.url)}
@@ -62,7 +72,9 @@ export const SourceCitations: React.FC<SourceCitationsProps> = ({ sources }) =>
               className="font-sans text-ui text-charcoal hover:text-editorial-red transition-colors"
             >
               <span className="underline underline-offset-2">{source.title}</span>
-              <span className="text-slate text-xs ml-2">({getDomain(source.url)})</span>
+              <span className="text-slate text-xs ml-2">
+                ({getDomain(source.url)}{source.kbDocumentId ? ' · knowledge base' : ''})
+              </span>
             </a>
           </li>
         ))}
@@ -0,0 +1,515 @@
+/**
+ * ToneLibraryEditor Component
+ *
+ * Create, edit and delete house tones and stylistic flavors, with a live
+ * preview of the unsaved draft (via generatePersonaPreview).
+ *
+ * Built-in tones and flavors are read-only; "Duplicate" copies one into a
+ * new draft to start a house version from it.
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useNewsletterSettings } from '../contexts';
+import { usePersonas } from '../hooks/usePersonas';
+import { generatePersonaPreview } from '../services/personaClientService';
+import * as toneApi from '../services/toneClientService';
+import { PlusIcon, SparklesIcon, TrashIcon, EditIcon } from './IconComponents';
+
+type EditorMode = 'tone' | 'flavor';
+
+interface ToneDraft {
+  id: string | null;  // null = new tone
+  label: string;
+  description: string;
+  sampleOutput: string;
+  sentenceConstruction: string;  // One rule per line
+  wordsToUse: string;            // Comma-separated
+  wordsToAvoid: string;          // Comma-separated
+  punctuationStyle: string;
+}
+
+interface FlavorDraft {
+  id: string | null;  // null = new flavor
+  label: string;
+  description: string;
+  instruction: string;
+  formattingRules: string;
+}
+
+const EMPTY_TONE: ToneDraft = {
+  id: null,
+  label: '',
+  description: '',
+  sampleOutput: '',
+  sentenceConstruction: '',
+  wordsToUse: '',
+  wordsToAvoid: '',
+  punctuationStyle: '',
+};
+
+const EMPTY_FLAVOR: FlavorDraft = {
+  id: null,
+  label: '',
+  description: '',
+  instruction: '',
+  formattingRules: '',
+};
+
+const splitLines = (value: string): string[] => value.split('\n').map(s => s.trim()).filter(Boolean);
+const splitList = (value: string): string[] => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const toToneInput = (draft: ToneDraft): toneApi.ToneInput => ({
+  label: draft.label.trim(),
+  description: draft.description.trim(),
+  sampleOutput: draft.sampleOutput.trim(),
+  executionRules: {
+    sentenceConstruction: splitLines(draft.sentenceConstruction),
+    wordsToUse: splitList(draft.wordsToUse),
+    wordsToAvoid: splitList(draft.wordsToAvoid),
+    punctuationStyle: draft.punctuationStyle.trim(),
+  },
+});
+
+const inputClass = 'w-full bg-pearl border border-border-subtle font-sans text-ui text-ink px-3 py-2 focus:outline-none focus:border-ink';
+const labelClass = 'block font-sans text-caption text-slate uppercase tracking-wider mb-1';
+
+export const ToneLibraryEditor: React.FC = () => {
+  const {
+    toneOptions,
+    flavorOptions,
+    refreshToneOptions,
+    selectedTone,
+    setSelectedTone,
+    selectedFlavors,
+    setSelectedFlavors,
+    getFlavorKeys,
+  } = useNewsletterSettings();
+  const { personas, activePersona } = usePersonas();
+
+  const [mode, setMode] = useState<EditorMode>('tone');
+  const [toneDraft, setToneDraft] = useState<ToneDraft | null>(null);
+  const [flavorDraft, setFlavorDraft] = useState<FlavorDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Live preview
+  const [previewTopic, setPreviewTopic] = useState('AI tools for productivity');
+  const [previewPersonaId, setPreviewPersonaId] = useState<string>('');
+  const [preview, setPreview] = useState<string>('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const editTone = (id: string | null, copy = false) => {
+    const tone = id ? toneOptions[id] : null;
+    setToneDraft(tone ? {
+      id: copy ? null : id,
+      label: copy ? `${tone.label} (house)` : tone.label,
+      description: tone.description,
+      sampleOutput: tone.sampleOutput,
+      sentenceConstruction: tone.executionRules.sentenceConstruction.join('\n'),
+      wordsToUse: tone.executionRules.wordsToUse.join(', '),
+      wordsToAvoid: tone.executionRules.wordsToAvoid.join(', '),
+      punctuationStyle: tone.executionRules.punctuationStyle,
+    } : EMPTY_TONE);
+    setPreview('');
+    setError(null);
+  };
+
+  const editFlavor = (id: string | null, copy = false) => {
+    const flavor = id ? flavorOptions[id] : null;
+    setFlavorDraft(flavor ? {
+      id: copy ? null : id,
+      label: copy ? `${flavor.label} (house)` : flavor.label,
+      description: flavor.description,
+      instruction: flavor.instruction || '',
+      formattingRules: flavor.formattingRules || '',
+    } : EMPTY_FLAVOR);
+    setPreview('');
+    setError(null);
+  };
+
+  const handleSaveTone = async () => {
+    if (!toneDraft?.label.trim()) {
+      setError('Give the tone a name');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = toneDraft.id
+        ? await toneApi.updateTone(toneDraft.id, toToneInput(toneDraft))
+        : await toneApi.createTone(toToneInput(toneDraft));
+      await refreshToneOptions();
+      setToneDraft(null);
+      setSelectedTone(saved.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tone');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveFlavor = async () => {
+    if (!flavorDraft?.label.trim() || !flavorDraft.instruction.trim()) {
+      setError('A flavor needs a name and an instruction');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const input: toneApi.FlavorInput = {
+        label: flavorDraft.label.trim(),
+        description: flavorDraft.description.trim(),
+        instruction: flavorDraft.instruction.trim(),
+        formattingRules: flavorDraft.formattingRules.trim() || null,
+      };
+      if (flavorDraft.id) {
+        await toneApi.updateFlavor(flavorDraft.id, input);
+      } else {
+        await toneApi.createFlavor(input);
+      }
+      await refreshToneOptions();
+      setFlavorDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save flavor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTone = async (id: string) => {
+    setError(null);
+    try {
+      await toneApi.deleteTone(id);
+      if (selectedTone === id) setSelectedTone('confident');
+      if (toneDraft?.id === id) setToneDraft(null);
+      await refreshToneOptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tone');
+    }
+  };
+
+  const handleDeleteFlavor = async (id: string) => {
+    setError(null);
+    try {
+      await toneApi.deleteFlavor(id);
+      if (selectedFlavors[id]) {
+        setSelectedFlavors(prev => {
+          const { [id]: _removed, ...rest } = prev;
+          return rest;
+        });
+      }
+      if (flavorDraft?.id === id) setFlavorDraft(null);
+      await refreshToneOptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete flavor');
+    }
+  };
+
+  // Preview the draft: a tone draft with the selected flavors, or a flavor
+  // draft with the selected tone
+  const handlePreview = async () => {
+    if (!previewTopic.trim()) {
+      setError('Enter a topic for the preview');
+      return;
+    }
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      const result = mode === 'tone' && toneDraft
+        ? await generatePersonaPreview(previewPersonaId || null, previewTopic.trim(), {
+            tone: toToneInput(toneDraft),
+            flavors: getFlavorKeys(),
+          })
+        : await generatePersonaPreview(previewPersonaId || null, previewTopic.trim(), {
+            tone: selectedTone,
+            flavors: flavorDraft?.instruction.trim() ? [{ instruction: flavorDraft.instruction.trim() }] : [],
+          });
+      setPreview(result.preview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate preview');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const draftOpen = mode === 'tone' ? !!toneDraft : !!flavorDraft;
+  const entries = mode === 'tone' ? Object.entries(toneOptions) : Object.entries(flavorOptions);
+
+  return (
+    <section className="bg-paper border border-border-subtle p-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="font-display text-h3 text-ink">Tone & Flavor Library</h2>
+          <p className="font-sans text-ui text-slate mt-1">
+            Define house tones and flavors; built-ins are read-only but can be duplicated
+          </p>
+        </div>
+        <div className="flex border border-border-subtle">
+          {(['tone', 'flavor'] as EditorMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => { setMode(m); setPreview(''); setError(null); }}
+              className={`px-4 py-2 font-sans text-ui transition-colors ${mode === m ? 'bg-ink text-paper' : 'bg-paper text-slate hover:bg-pearl'}`}
+            >
+              {m === 'tone' ? 'Tones' : 'Flavors'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="font-sans text-caption text-editorial-red mb-4">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Library list */}
+        <div className="lg:col-span-2">
+          <ul className="divide-y divide-border-subtle border border-border-subtle max-h-[28rem] overflow-y-auto">
+            {entries.map(([key, option]) => (
+              <li key={key} className="flex items-center justify-between gap-3 px-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-sans text-ui font-medium text-ink truncate">{option.label}</span>
+                    {option.isBuiltin !== false && (
+                      <span className="px-1.5 py-0.5 text-[10px] font-sans font-medium bg-pearl text-slate border border-border-subtle flex-shrink-0">
+                        Built-in
+                      </span>
+                    )}
+                  </div>
+                  <p className="font-sans text-caption text-slate truncate">{option.description}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {option.isBuiltin === false ? (
+                    <>
+                      <button
+                        onClick={() => (mode === 'tone' ? editTone(key) : editFlavor(key))}
+                        className="p-1 text-silver hover:text-ink transition-colors"
+                        title="Edit"
+                      >
+                        <EditIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => (mode === 'tone' ? handleDeleteTone(key) : handleDeleteFlavor(key))}
+                        className="p-1 text-silver hover:text-editorial-red transition-colors"
+                        title="Delete"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => (mode === 'tone' ? editTone(key, true) : editFlavor(key, true))}
+                      className="font-sans text-caption text-editorial-navy hover:underline"
+                    >
+                      Duplicate
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => (mode === 'tone' ? editTone(null) : editFlavor(null))}
+            className="mt-3 flex items-center gap-2 font-sans text-ui text-ink hover:text-editorial-navy transition-colors"
+          >
+            <PlusIcon className="h-4 w-4" />
+            New {mode}
+          </button>
+        </div>
+
+        {/* Editor + live preview */}
+        <div className="lg:col-span-3">
+          <AnimatePresence mode="wait">
+            {!draftOpen ? (
+              <motion.p
+                key="empty"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="font-sans text-ui text-slate p-6 border border-dashed border-border-subtle text-center"
+              >
+                Pick a {mode} to edit, duplicate a built-in, or create a new one.
+              </motion.p>
+            ) : (
+              <motion.div
+                key={`${mode}-editor`}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="space-y-4"
+              >
+                {mode === 'tone' && toneDraft && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <label>
+                        <span className={labelClass}>Name</span>
+                        <input
+                          value={toneDraft.label}
+                          onChange={(e) => setToneDraft({ ...toneDraft, label: e.target.value })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label>
+                        <span className={labelClass}>Punctuation style</span>
+                        <input
+                          value={toneDraft.punctuationStyle}
+                          onChange={(e) => setToneDraft({ ...toneDraft, punctuationStyle: e.target.value })}
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+                    <label className="block">
+                      <span className={labelClass}>Description</span>
+                      <input
+                        value={toneDraft.description}
+                        onChange={(e) => setToneDraft({ ...toneDraft, description: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Sentence construction (one rule per line)</span>
+                      <textarea
+                        value={toneDraft.sentenceConstruction}
+                        onChange={(e) => setToneDraft({ ...toneDraft, sentenceConstruction: e.target.value })}
+                        rows={3}
+                        className={inputClass}
+                      />
+                    </label>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <label>
+                        <span className={labelClass}>Words to use (comma-separated)</span>
+                        <input
+                          value={toneDraft.wordsToUse}
+                          onChange={(e) => setToneDraft({ ...toneDraft, wordsToUse: e.target.value })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label>
+                        <span className={labelClass}>Words to avoid (comma-separated)</span>
+                        <input
+                          value={toneDraft.wordsToAvoid}
+                          onChange={(e) => setToneDraft({ ...toneDraft, wordsToAvoid: e.target.value })}
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+                    <label className="block">
+                      <span className={labelClass}>Sample output (shown in the tone picker)</span>
+                      <input
+                        value={toneDraft.sampleOutput}
+                        onChange={(e) => setToneDraft({ ...toneDraft, sampleOutput: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                  </>
+                )}
+
+                {mode === 'flavor' && flavorDraft && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <label>
+                        <span className={labelClass}>Name</span>
+                        <input
+                          value={flavorDraft.label}
+                          onChange={(e) => setFlavorDraft({ ...flavorDraft, label: e.target.value })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label>
+                        <span className={labelClass}>Description</span>
+                        <input
+                          value={flavorDraft.description}
+                          onChange={(e) => setFlavorDraft({ ...flavorDraft, description: e.target.value })}
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+                    <label className="block">
+                      <span className={labelClass}>Instruction (added to the writing prompt)</span>
+                      <textarea
+                        value={flavorDraft.instruction}
+                        onChange={(e) => setFlavorDraft({ ...flavorDraft, instruction: e.target.value })}
+                        rows={2}
+                        placeholder="- You should ..."
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Formatting rules (optional)</span>
+                      <textarea
+                        value={flavorDraft.formattingRules}
+                        onChange={(e) => setFlavorDraft({ ...flavorDraft, formattingRules: e.target.value })}
+                        rows={4}
+                        className={inputClass}
+                      />
+                    </label>
+                  </>
+                )}
+
+                {/* Live preview */}
+                <div className="border-t border-border-subtle pt-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3">
+                    <label>
+                      <span className={labelClass}>Preview topic</span>
+                      <input
+                        value={previewTopic}
+                        onChange={(e) => setPreviewTopic(e.target.value)}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label>
+                      <span className={labelClass}>Persona</span>
+                      <select
+                        value={previewPersonaId}
+                        onChange={(e) => setPreviewPersonaId(e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="">
+                          {activePersona ? `None (active: ${activePersona.name})` : 'None'}
+                        </option>
+                        {personas.map(p => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                  <p className="font-sans text-caption text-slate mb-3">
+                    {mode === 'tone'
+                      ? 'Previews this draft tone with your selected flavors.'
+                      : `Previews this draft flavor with the ${toneOptions[selectedTone]?.label || selectedTone} tone.`}
+                  </p>
+                  {preview && (
+                    <p className="font-serif text-body text-charcoal italic bg-pearl p-4 mb-3">"{preview}"</p>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-end gap-3">
+                  <button
+                    onClick={() => (mode === 'tone' ? setToneDraft(null) : setFlavorDraft(null))}
+                    className="font-sans text-ui text-slate hover:text-ink transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handlePreview}
+                    disabled={isPreviewing}
+                    className="flex items-center gap-2 border border-ink text-ink font-sans text-ui py-2 px-4 hover:bg-pearl transition-colors disabled:opacity-50"
+                  >
+                    <SparklesIcon className={`h-4 w-4 ${isPreviewing ? 'animate-pulse' : ''}`} />
+                    {isPreviewing ? 'Writing...' : 'Preview'}
+                  </button>
+                  <button
+                    onClick={mode === 'tone' ? handleSaveTone : handleSaveFlavor}
+                    disabled={isSaving}
+                    className="bg-ink text-paper font-sans text-ui py-2 px-4 hover:bg-opacity-90 transition-colors disabled:opacity-50"
+                  >
+                    {isSaving ? 'Saving...' : `Save ${mode}`}
+                  </button>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+    </section>
+  );
+};
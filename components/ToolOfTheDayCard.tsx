@@ -1,7 +1,8 @@
 /**
  * Tool of the Day Card Component
  *
- * Displays the featured tool with name, URL, why now, and quick start guide.
+ * Displays the featured tool with name, URL, why now, quick start guide,
+ * and its image when one has been generated.
  */
 
 import React from 'react';
@@ -38,6 +39,15 @@ export const ToolOfTheDayCard: React.FC<ToolOfTheDayCardProps> = ({ tool }) => {
           </a>
         </h3>
 
+        {/* Tool Image */}
+        {tool.imageUrl && (
+          <img
+            src={tool.imageUrl}
+            alt={tool.name}
+            className="w-full aspect-[16/9] object-cover mb-4"
+          />
+        )}
+
         {/* Why Now */}
         {tool.whyNow && (
           <div className="mb-4">
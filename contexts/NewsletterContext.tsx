@@ -17,26 +17,18 @@
  * - Generation loading/progress state
  * - Workflow status (saved to Drive, sent via email)
  * - Custom audience configurations
- * - Tone, flavor, and image style selection
+ * - Tone, flavor, and image style selection (tones/flavors loaded from SQLite)
  */
 
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import type { Newsletter, EnhancedNewsletter, PromptOfTheDay, AudienceConfig } from '../types';
+import type { Newsletter, EnhancedNewsletter, PromptOfTheDay, AudienceConfig, ToneExecutionRules } from '../types';
 import * as draftApi from '../services/draftClientService';
 import * as enhancedNewsletterService from '../services/enhancedNewsletterService';
 import * as audienceApi from '../services/audienceClientService';
+import * as toneApi from '../services/toneClientService';
 import { useAuth } from './AuthContext';
 
-/**
- * Tone execution rules - research-backed guidance for AI generation
- * Based on analysis of 77+ award-winning newsletters
- */
-export interface ToneExecutionRules {
-  sentenceConstruction: string[];  // How to build sentences
-  wordsToUse: string[];           // Preferred language patterns
-  wordsToAvoid: string[];         // Language to avoid
-  punctuationStyle: string;       // Punctuation guidance
-}
+export type { ToneExecutionRules };
 
 /**
  * Tone option type - enhanced with execution rules
@@ -47,6 +39,7 @@ export interface ToneOption {
   description: string;
   sampleOutput: string;
   executionRules: ToneExecutionRules;
+  isBuiltin?: boolean;  // Built-in tones are read-only (unset for the offline defaults)
 }
 
 /**
@@ -55,6 +48,9 @@ export interface ToneOption {
 export interface FlavorOption {
   label: string;
   description: string;
+  instruction?: string;
+  formattingRules?: string | null;
+  isBuiltin?: boolean;  // Built-in flavors are read-only (unset for the offline defaults)
 }
 
 /**
@@ -280,6 +276,8 @@ interface NewsletterState {
   // Generation status
   loading: string | null;
   progress: number;
+  /** Pipeline stage reported by streaming generation (null = estimate from progress) */
+  generationStage: string | null;
 
   // Workflow tracking
   workflowStatus: WorkflowStatus | null;
@@ -316,6 +314,7 @@ interface NewsletterActions {
   // Generation status
   setLoading: React.Dispatch<React.SetStateAction<string | null>>;
   setProgress: React.Dispatch<React.SetStateAction<number>>;
+  setGenerationStage: React.Dispatch<React.SetStateAction<string | null>>;
 
   // Workflow tracking
   setWorkflowStatus: React.Dispatch<React.SetStateAction<WorkflowStatus | null>>;
@@ -335,6 +334,7 @@ interface NewsletterActions {
 
   // Tone, flavor, and image style actions (Phase 6g.0 - from App.tsx lines 150-152, 649-651, 520)
   setSelectedTone: React.Dispatch<React.SetStateAction<string>>;
+  refreshToneOptions: () => Promise<void>;
   setSelectedFlavors: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
   handleFlavorChange: (key: string) => void;
   setSelectedImageStyle: React.Dispatch<React.SetStateAction<string>>;
@@ -365,6 +365,7 @@ export const NewsletterProvider: React.FC<NewsletterProviderProps> = ({ children
   // Generation status (from App.tsx lines 132-133)
   const [loading, setLoading] = useState<string | null>(null);
   const [progress, setProgress] = useState<number>(0);
+  const [generationStage, setGenerationStage] = useState<string | null>(null);
 
   // Workflow tracking (from App.tsx lines 156, 158)
   const [workflowStatus, setWorkflowStatus] = useState<WorkflowStatus | null>(null);
@@ -388,8 +389,10 @@ export const NewsletterProvider: React.FC<NewsletterProviderProps> = ({ children
   const [selectedImageStyle, setSelectedImageStyle] = useState<string>('photorealistic');
 
   // Options - static configuration (from App.tsx lines 54-108)
-  const toneOptions = DEFAULT_TONE_OPTIONS;
-  const flavorOptions = DEFAULT_FLAVOR_OPTIONS;
+  // Tones and flavors live in SQLite (built-ins + user-defined); the
+  // defaults cover the first render and an unreachable backend
+  const [toneOptions, setToneOptions] = useState<Record<string, ToneOption>>(DEFAULT_TONE_OPTIONS);
+  const [flavorOptions, setFlavorOptions] = useState<Record<string, FlavorOption>>(DEFAULT_FLAVOR_OPTIONS);
   const imageStyleOptions = DEFAULT_IMAGE_STYLE_OPTIONS;
 
   /**
@@ -460,6 +463,29 @@ export const NewsletterProvider: React.FC<NewsletterProviderProps> = ({ children
     [selectedFlavors]
   );
 
+  /**
+   * Reload tone and flavor options from SQLite (after editing them)
+   */
+  const refreshToneOptions = useCallback(async () => {
+    try {
+      const [{ tones }, { flavors }] = await Promise.all([toneApi.getTones(), toneApi.getFlavors()]);
+      setToneOptions(Object.fromEntries(tones.map(({ id, label, description, sampleOutput, executionRules, isBuiltin }) => [
+        id,
+        { label, description, sampleOutput, executionRules, isBuiltin },
+      ])));
+      setFlavorOptions(Object.fromEntries(flavors.map(({ id, label, description, instruction, formattingRules, isBuiltin }) => [
+        id,
+        { label, description, instruction, formattingRules, isBuiltin },
+      ])));
+    } catch (err) {
+      console.warn('[NewsletterContext] Could not load tones and flavors, using defaults:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshToneOptions();
+  }, [refreshToneOptions]);
+
   /**
    * Load default audiences for enhanced newsletter format
    * Preserves exact behavior from App.tsx useEffect (lines 1338-1359)
@@ -482,19 +508,7 @@ export const NewsletterProvider: React.FC<NewsletterProviderProps> = ({ children
         const response = await audienceApi.getCustomAudiences();
         if (response.audiences.length > 0) {
           // Convert API response to AudienceConfig format
-          const audiences: AudienceConfig[] = response.audiences.map(a => ({
-            id: a.id,
-            name: a.name,
-            description: a.description,
-            generated: a.generated ? {
-              persona: a.generated.persona,
-              relevance_keywords: a.generated.relevance_keywords,
-              subreddits: a.generated.subreddits || [],
-              arxiv_categories: a.generated.arxiv_categories || [],
-              search_templates: a.generated.search_templates || [],
-            } : undefined,
-            isCustom: true,
-          }));
+          const audiences: AudienceConfig[] = response.audiences.map(audienceApi.toAudienceConfig);
           setCustomAudiences(audiences);
           // Update localStorage cache
           localStorage.setItem('customAudiences', JSON.stringify(audiences));
@@ -592,6 +606,7 @@ export const NewsletterProvider: React.FC<NewsletterProviderProps> = ({ children
     promptOfTheDay,
     loading,
     progress,
+    generationStage,
     workflowStatus,
     workflowActions,
     customAudiences,
@@ -612,6 +627,7 @@ export const NewsletterProvider: React.FC<NewsletterProviderProps> = ({ children
     setPromptOfTheDay,
     setLoading,
     setProgress,
+    setGenerationStage,
     setWorkflowStatus,
     setWorkflowActions,
     resetWorkflowActions,
@@ -622,6 +638,7 @@ export const NewsletterProvider: React.FC<NewsletterProviderProps> = ({ children
     getCurrentNewsletter,
     // Tone, flavor, and image style actions (Phase 6g.0)
     setSelectedTone,
+    refreshToneOptions,
     setSelectedFlavors,
     handleFlavorChange,
     setSelectedImageStyle,
@@ -647,14 +664,24 @@ export const useNewsletter = (): NewsletterContextValue => {
  * Hook for newsletter generation state
  */
 export const useNewsletterGeneration = () => {
-  const { loading, progress, setLoading, setProgress, resetWorkflowActions } = useNewsletter();
+  const {
+    loading,
+    progress,
+    generationStage,
+    setLoading,
+    setProgress,
+    setGenerationStage,
+    resetWorkflowActions,
+  } = useNewsletter();
 
   return {
     loading,
     progress,
+    generationStage,
     isGenerating: !!loading,
     setLoading,
     setProgress,
+    setGenerationStage,
     resetWorkflowActions,
   };
 };
@@ -732,6 +759,7 @@ export const useNewsletterSettings = () => {
     flavorOptions,
     imageStyleOptions,
     setSelectedTone,
+    refreshToneOptions,
     setSelectedFlavors,
     handleFlavorChange,
     setSelectedImageStyle,
@@ -743,6 +771,8 @@ export const useNewsletterSettings = () => {
     selectedTone,
     setSelectedTone,
     toneOptions,
+    // Reload tones and flavors after editing them
+    refreshToneOptions,
     // Flavors
     selectedFlavors,
     setSelectedFlavors,
@@ -4,6 +4,7 @@
  * Phase 6c: Extracted from App.tsx
  * Phase 6g.0: Extended with audience selection (selectedAudience, audienceOptions, handlers)
  * Phase 15.2: Updated for hierarchical audience structure (parent categories + child specializations)
+ * Audience categories and specializations are loaded from SQLite (built-ins + custom audiences)
  *
  * Handles:
  * - Selected topics for newsletter
@@ -14,9 +15,10 @@
  * - Hierarchical audience selection for newsletter targeting
  */
 
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 import type { TrendingTopic, AudienceCategory, SuggestedTopic } from '../types';
 import type { TrendingSource } from '../services/trendingDataService';
+import * as audienceApi from '../services/audienceClientService';
 
 /**
  * Audience option type (extended for hierarchical structure)
@@ -24,15 +26,17 @@ import type { TrendingSource } from '../services/trendingDataService';
 export interface AudienceOption {
   label: string;
   description: string;
-  parentId?: 'academic' | 'business'; // For child specializations
+  parentId?: string; // For child specializations
+  isCustom?: boolean; // User-defined audience
   isCategory?: boolean; // For parent categories
   children?: string[]; // For parent categories - child specialization IDs
 }
 
 /**
  * Hierarchical audience categories (Phase 15.2)
+ * Defaults for the first render and an unreachable backend
  */
-export const AUDIENCE_CATEGORIES: AudienceCategory[] = [
+export const DEFAULT_AUDIENCE_CATEGORIES: AudienceCategory[] = [
   {
     id: 'academic',
     name: 'Academic',
@@ -174,6 +178,7 @@ interface TopicsActions {
   getAudienceKeys: () => string[];
   isCategoryFullySelected: (categoryId: string) => boolean;
   isCategoryPartiallySelected: (categoryId: string) => boolean;
+  refreshAudienceOptions: () => Promise<void>;
 }
 
 type TopicsContextValue = TopicsState & TopicsActions;
@@ -219,9 +224,33 @@ export const TopicsProvider: React.FC<TopicsProviderProps> = ({
     'business-intelligence': true,
   });
 
-  // Audience options - static configuration
-  const audienceOptions = DEFAULT_AUDIENCE_OPTIONS;
-  const audienceCategories = AUDIENCE_CATEGORIES;
+  // Audience options - categories and specializations live in SQLite; the
+  // defaults cover the first render and an unreachable backend
+  const [audienceOptions, setAudienceOptions] = useState<Record<string, AudienceOption>>(DEFAULT_AUDIENCE_OPTIONS);
+  const [audienceCategories, setAudienceCategories] = useState<AudienceCategory[]>(DEFAULT_AUDIENCE_CATEGORIES);
+
+  /**
+   * Reload audience categories and options from SQLite (after editing audiences)
+   */
+  const refreshAudienceOptions = useCallback(async () => {
+    try {
+      const [{ categories }, { audiences }] = await Promise.all([
+        audienceApi.getAudienceCategories(),
+        audienceApi.getAllAudiences(),
+      ]);
+      setAudienceCategories(categories);
+      setAudienceOptions(Object.fromEntries(audiences.map(({ id, name, description, parentId, isCustom }) => [
+        id,
+        { label: name, description, parentId, isCustom },
+      ])));
+    } catch (err) {
+      console.warn('[TopicsContext] Could not load audiences, using defaults:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshAudienceOptions();
+  }, [refreshAudienceOptions]);
 
   /**
    * Toggle individual audience specialization
@@ -234,7 +263,7 @@ export const TopicsProvider: React.FC<TopicsProviderProps> = ({
    * Toggle entire category (selects/deselects all children)
    */
   const handleCategoryChange = useCallback((categoryId: string) => {
-    const category = AUDIENCE_CATEGORIES.find((c) => c.id === categoryId);
+    const category = audienceCategories.find((c) => c.id === categoryId);
     if (!category) return;
 
     setSelectedAudience((prev) => {
@@ -249,18 +278,18 @@ export const TopicsProvider: React.FC<TopicsProviderProps> = ({
 
       return { ...prev, ...updates };
     });
-  }, []);
+  }, [audienceCategories]);
 
   /**
    * Check if all children in a category are selected
    */
   const isCategoryFullySelected = useCallback(
     (categoryId: string) => {
-      const category = AUDIENCE_CATEGORIES.find((c) => c.id === categoryId);
+      const category = audienceCategories.find((c) => c.id === categoryId);
       if (!category) return false;
       return category.children.every((child) => selectedAudience[child]);
     },
-    [selectedAudience]
+    [selectedAudience, audienceCategories]
   );
 
   /**
@@ -268,12 +297,12 @@ export const TopicsProvider: React.FC<TopicsProviderProps> = ({
    */
   const isCategoryPartiallySelected = useCallback(
     (categoryId: string) => {
-      const category = AUDIENCE_CATEGORIES.find((c) => c.id === categoryId);
+      const category = audienceCategories.find((c) => c.id === categoryId);
       if (!category) return false;
       const selectedCount = category.children.filter((child) => selectedAudience[child]).length;
       return selectedCount > 0 && selectedCount < category.children.length;
     },
-    [selectedAudience]
+    [selectedAudience, audienceCategories]
   );
 
   /**
@@ -439,6 +468,7 @@ export const TopicsProvider: React.FC<TopicsProviderProps> = ({
     getAudienceKeys,
     isCategoryFullySelected,
     isCategoryPartiallySelected,
+    refreshAudienceOptions,
   };
 
   return <TopicsContext.Provider value={value}>{children}</TopicsContext.Provider>;
@@ -542,6 +572,7 @@ export const useAudienceSelection = () => {
     getAudienceKeys,
     isCategoryFullySelected,
     isCategoryPartiallySelected,
+    refreshAudienceOptions,
   } = useTopics();
 
   return {
@@ -554,6 +585,7 @@ export const useAudienceSelection = () => {
     getAudienceKeys,
     isCategoryFullySelected,
     isCategoryPartiallySelected,
+    refreshAudienceOptions,
     // Derived: whether any audience is selected
     hasSelectedAudience: getAudienceKeys().length > 0,
     // Derived: get specializations for a category
@@ -0,0 +1,152 @@
+/**
+ * useApiCosts Hook
+ *
+ * API cost reporting for the Logs page:
+ * - Monthly summary by provider and model (selectable month)
+ * - Cost trend over recent months
+ * - Per-newsletter costs with on-demand ledger detail
+ * - Monthly budgets (set / remove) with this month's spend
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import * as logApi from '../services/logClientService';
+import type {
+  MonthlyCostSummary,
+  NewsletterCostSummary,
+  BudgetStatus,
+  BudgetScope,
+  UsageEntry,
+} from '../services/logClientService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface UseApiCostsReturn {
+  // Data
+  month: string;
+  summary: MonthlyCostSummary | null;
+  monthlyCosts: Array<{ month: string; costUsd: number; calls: number }>;
+  newsletters: NewsletterCostSummary[];
+  budgets: BudgetStatus[];
+  newsletterEntries: Record<string, UsageEntry[]>;
+
+  // State
+  isLoading: boolean;
+  isSavingBudget: boolean;
+  error: string | null;
+
+  // Actions
+  setMonth: (month: string) => void;
+  refresh: () => Promise<void>;
+  loadNewsletterEntries: (newsletterId: string) => Promise<void>;
+  saveBudget: (scope: BudgetScope, monthlyLimitUsd: number) => Promise<boolean>;
+  removeBudget: (scope: BudgetScope) => Promise<void>;
+}
+
+const currentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+export function useApiCosts(): UseApiCostsReturn {
+  const [month, setMonth] = useState<string>(currentMonth);
+  const [summary, setSummary] = useState<MonthlyCostSummary | null>(null);
+  const [monthlyCosts, setMonthlyCosts] = useState<Array<{ month: string; costUsd: number; calls: number }>>([]);
+  const [newsletters, setNewsletters] = useState<NewsletterCostSummary[]>([]);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [newsletterEntries, setNewsletterEntries] = useState<Record<string, UsageEntry[]>>({});
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [summaryResult, monthsResult, newslettersResult] = await Promise.all([
+        logApi.getCostSummary(month),
+        logApi.getMonthlyCosts(12),
+        logApi.getNewsletterCosts(50),
+      ]);
+
+      setSummary(summaryResult);
+      setBudgets(summaryResult.budgets);
+      setMonthlyCosts(monthsResult.months);
+      setNewsletters(newslettersResult.newsletters);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load API costs';
+      setError(message);
+      console.error('[useApiCosts] Error loading costs:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const loadNewsletterEntries = useCallback(async (newsletterId: string) => {
+    try {
+      const result = await logApi.getNewsletterUsage(newsletterId);
+      setNewsletterEntries(prev => ({ ...prev, [newsletterId]: result.entries }));
+    } catch (err) {
+      console.error('[useApiCosts] Error loading newsletter usage:', err);
+    }
+  }, []);
+
+  const saveBudget = useCallback(async (scope: BudgetScope, monthlyLimitUsd: number): Promise<boolean> => {
+    setIsSavingBudget(true);
+    setError(null);
+
+    try {
+      const result = await logApi.setBudget(scope, monthlyLimitUsd);
+      setBudgets(result.budgets);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save budget';
+      setError(message);
+      return false;
+    } finally {
+      setIsSavingBudget(false);
+    }
+  }, []);
+
+  const removeBudget = useCallback(async (scope: BudgetScope) => {
+    setIsSavingBudget(true);
+    setError(null);
+
+    try {
+      const result = await logApi.deleteBudget(scope);
+      setBudgets(result.budgets);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to remove budget';
+      setError(message);
+    } finally {
+      setIsSavingBudget(false);
+    }
+  }, []);
+
+  return {
+    month,
+    summary,
+    monthlyCosts,
+    newsletters,
+    budgets,
+    newsletterEntries,
+    isLoading,
+    isSavingBudget,
+    error,
+    setMonth,
+    refresh,
+    loadNewsletterEntries,
+    saveBudget,
+    removeBudget,
+  };
+}
+
+export default useApiCosts;
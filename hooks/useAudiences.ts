@@ -27,23 +27,6 @@ export function useAudiences(): UseAudiencesReturn {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Convert API response to AudienceConfig format
-  const toAudienceConfig = (audience: audienceApi.CustomAudience): AudienceConfig => ({
-    id: audience.id,
-    name: audience.name,
-    description: audience.description,
-    generated: audience.generated
-      ? {
-          persona: audience.generated.persona,
-          relevance_keywords: audience.generated.relevance_keywords,
-          subreddits: audience.generated.subreddits || [],
-          arxiv_categories: audience.generated.arxiv_categories || [],
-          search_templates: audience.generated.search_templates || [],
-        }
-      : undefined,
-    isCustom: true,
-  });
-
   // Load audiences from SQLite
   const loadAudiences = useCallback(async () => {
     setIsLoading(true);
@@ -51,7 +34,7 @@ export function useAudiences(): UseAudiencesReturn {
 
     try {
       const response = await audienceApi.getCustomAudiences();
-      const audiences = response.audiences.map(toAudienceConfig);
+      const audiences = response.audiences.map(audienceApi.toAudienceConfig);
       setCustomAudiences(audiences);
       console.log(`[useAudiences] Loaded ${audiences.length} custom audiences from SQLite`);
     } catch (e) {
@@ -117,14 +100,12 @@ export function useAudiences(): UseAudiencesReturn {
   const addAudience = useCallback(async (audience: AudienceConfig) => {
     try {
       const saved = await audienceApi.saveAudience({
+        ...audienceApi.toAudienceInput(audience),
         id: audience.id,
-        name: audience.name,
-        description: audience.description,
-        generated: audience.generated,
         isCustom: true,
       });
 
-      setCustomAudiences(prev => [...prev, toAudienceConfig(saved)]);
+      setCustomAudiences(prev => [...prev, audienceApi.toAudienceConfig(saved)]);
       console.log(`[useAudiences] Added audience: ${audience.name}`);
     } catch (e) {
       console.error('[useAudiences] Error adding audience:', e);
@@ -2,8 +2,10 @@
  * useRag Hook
  *
  * Manages RAG Knowledge Base functionality:
- * - Documents: List, upload, delete
- * - Chats: Create, list, load messages
+ * - Documents: List, upload, delete, file into collections, tag
+ * - Collections: List, create, delete, set re-crawl policy
+ * - Re-crawl: Updated/broken feed, check a URL document now, earlier versions
+ * - Chats: Create, list, load messages, scope to collections
  * - Storage: View stats and config
  *
  * Provides optimistic updates and error handling.
@@ -11,14 +13,19 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import * as ragApi from '../services/ragClientService';
+import type { DocumentFiling, RecrawlDocumentResponse, RecrawlStatus } from '../services/ragClientService';
 import type {
   RagDocument,
+  RagCollection,
   RagChat,
   RagMessage,
   RagStorageStats,
   RagConfig,
   RagDocumentStatus,
   RagDocumentSourceType,
+  RagDocumentVersion,
+  RagRecrawlEvent,
+  RagRecrawlPolicy,
 } from '../types';
 
 // ============================================================================
@@ -31,10 +38,25 @@ interface UseRagReturn {
   documentsLoading: boolean;
   documentsError: string | null;
   loadDocuments: (options?: DocumentFilterOptions) => Promise<void>;
-  indexText: (content: string, title: string) => Promise<RagDocument>;
-  indexUrl: (url: string, content: string, title: string) => Promise<RagDocument>;
+  indexText: (content: string, title: string, filing?: DocumentFiling) => Promise<RagDocument>;
+  indexUrl: (url: string, content: string, title: string, filing?: DocumentFiling) => Promise<RagDocument>;
+  updateDocument: (id: string, updates: DocumentUpdates) => Promise<RagDocument>;
   deleteDocument: (id: string) => Promise<void>;
 
+  // Collections
+  collections: RagCollection[];
+  loadCollections: () => Promise<void>;
+  createCollection: (name: string, description?: string) => Promise<RagCollection>;
+  updateCollectionRecrawlPolicy: (id: string, recrawlPolicy: RagRecrawlPolicy) => Promise<RagCollection>;
+  deleteCollection: (id: string) => Promise<void>;
+
+  // Re-crawl
+  recrawlEvents: RagRecrawlEvent[];
+  recrawlStatus: RecrawlStatus | null;
+  loadRecrawlFeed: () => Promise<void>;
+  recrawlDocument: (id: string) => Promise<RecrawlDocumentResponse['result']>;
+  getDocumentVersions: (id: string) => Promise<RagDocumentVersion[]>;
+
   // Storage
   stats: RagStorageStats | null;
   config: RagConfig | null;
@@ -45,7 +67,7 @@ interface UseRagReturn {
   chats: RagChat[];
   chatsLoading: boolean;
   loadChats: () => Promise<void>;
-  createChat: (title?: string) => Promise<RagChat>;
+  createChat: (title?: string, collectionIds?: string[]) => Promise<RagChat>;
   deleteChat: (id: string) => Promise<void>;
 
   // Active Chat
@@ -54,13 +76,22 @@ interface UseRagReturn {
   activeChatLoading: boolean;
   loadChat: (id: string) => Promise<void>;
   sendMessage: (message: string) => Promise<RagMessage>;
-  startNewChat: (message: string) => Promise<RagMessage>;
+  startNewChat: (message: string, collectionIds?: string[]) => Promise<RagMessage>;
+  updateChatScope: (collectionIds: string[]) => Promise<RagChat>;
   clearActiveChat: () => void;
 }
 
+interface DocumentUpdates {
+  collectionId?: string | null;
+  tags?: string[];
+  recrawlPolicy?: RagRecrawlPolicy | null;
+}
+
 interface DocumentFilterOptions {
   status?: RagDocumentStatus;
   sourceType?: RagDocumentSourceType;
+  collectionId?: string;
+  tag?: string;
   limit?: number;
   offset?: number;
 }
@@ -75,6 +106,13 @@ export function useRag(): UseRagReturn {
   const [documentsLoading, setDocumentsLoading] = useState(false);
   const [documentsError, setDocumentsError] = useState<string | null>(null);
 
+  // Collection state
+  const [collections, setCollections] = useState<RagCollection[]>([]);
+
+  // Re-crawl state
+  const [recrawlEvents, setRecrawlEvents] = useState<RagRecrawlEvent[]>([]);
+  const [recrawlStatus, setRecrawlStatus] = useState<RecrawlStatus | null>(null);
+
   // Storage state
   const [stats, setStats] = useState<RagStorageStats | null>(null);
   const [config, setConfig] = useState<RagConfig | null>(null);
@@ -111,15 +149,16 @@ export function useRag(): UseRagReturn {
     }
   }, []);
 
-  const indexText = useCallback(async (content: string, title: string): Promise<RagDocument> => {
+  const indexText = useCallback(async (content: string, title: string, filing?: DocumentFiling): Promise<RagDocument> => {
     try {
-      const response = await ragApi.indexText(content, title);
+      const response = await ragApi.indexText(content, title, undefined, filing);
 
       // Add to local state optimistically
       setDocuments((prev) => [response.document, ...prev]);
 
-      // Refresh stats
+      // Refresh stats and collection counts
       loadStorage();
+      if (filing?.collectionId) loadCollections();
 
       console.log(`[useRag] Indexed text: ${title}`);
       return response.document;
@@ -131,15 +170,16 @@ export function useRag(): UseRagReturn {
   }, []);
 
   const indexUrl = useCallback(
-    async (url: string, content: string, title: string): Promise<RagDocument> => {
+    async (url: string, content: string, title: string, filing?: DocumentFiling): Promise<RagDocument> => {
       try {
-        const response = await ragApi.indexUrl(url, content, title);
+        const response = await ragApi.indexUrl(url, content, title, undefined, filing);
 
         // Add to local state optimistically
         setDocuments((prev) => [response.document, ...prev]);
 
-        // Refresh stats
+        // Refresh stats and collection counts
         loadStorage();
+        if (filing?.collectionId) loadCollections();
 
         console.log(`[useRag] Indexed URL: ${url}`);
         return response.document;
@@ -152,6 +192,28 @@ export function useRag(): UseRagReturn {
     []
   );
 
+  const updateDocument = useCallback(
+    async (id: string, updates: DocumentUpdates): Promise<RagDocument> => {
+      try {
+        const response = await ragApi.updateDocument(id, updates);
+
+        // Replace in local state
+        setDocuments((prev) => prev.map((d) => (d.id === id ? response.document : d)));
+
+        // Refresh collection counts
+        if (updates.collectionId !== undefined) loadCollections();
+
+        console.log(`[useRag] Updated document: ${id}`);
+        return response.document;
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : 'Failed to update document';
+        console.error('[useRag] Error updating document:', e);
+        throw new Error(msg);
+      }
+    },
+    []
+  );
+
   const deleteDocument = useCallback(async (id: string): Promise<void> => {
     try {
       await ragApi.deleteDocument(id);
@@ -170,6 +232,127 @@ export function useRag(): UseRagReturn {
     }
   }, []);
 
+  // ============================================================================
+  // Collection Operations
+  // ============================================================================
+
+  const loadCollections = useCallback(async () => {
+    try {
+      const response = await ragApi.getCollections();
+      setCollections(response.collections);
+      console.log(`[useRag] Loaded ${response.collections.length} collections`);
+    } catch (e) {
+      console.error('[useRag] Error loading collections:', e);
+    }
+  }, []);
+
+  const createCollection = useCallback(async (name: string, description?: string): Promise<RagCollection> => {
+    try {
+      const response = await ragApi.createCollection(name, description);
+
+      // Add to local state, keeping alphabetical order
+      setCollections((prev) =>
+        [...prev, response.collection].sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      console.log(`[useRag] Created collection: ${response.collection.id}`);
+      return response.collection;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Failed to create collection';
+      console.error('[useRag] Error creating collection:', e);
+      throw new Error(msg);
+    }
+  }, []);
+
+  const updateCollectionRecrawlPolicy = useCallback(
+    async (id: string, recrawlPolicy: RagRecrawlPolicy): Promise<RagCollection> => {
+      try {
+        const response = await ragApi.updateCollection(id, { recrawlPolicy });
+
+        // Replace in local state, keeping the current document count
+        setCollections((prev) =>
+          prev.map((c) => (c.id === id ? { ...response.collection, documentCount: c.documentCount } : c))
+        );
+
+        console.log(`[useRag] Set collection re-crawl policy: ${id} -> ${recrawlPolicy}`);
+        return response.collection;
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : 'Failed to update collection';
+        console.error('[useRag] Error updating collection:', e);
+        throw new Error(msg);
+      }
+    },
+    []
+  );
+
+  const deleteCollection = useCallback(async (id: string): Promise<void> => {
+    try {
+      await ragApi.deleteCollection(id);
+
+      // Documents are kept but leave the collection; chats scoped to it and others stop searching it
+      setCollections((prev) => prev.filter((c) => c.id !== id));
+      setDocuments((prev) => prev.map((d) => (d.collectionId === id ? { ...d, collectionId: null } : d)));
+      const dropScope = (chat: RagChat): RagChat =>
+        chat.collectionIds.includes(id)
+          ? { ...chat, collectionIds: chat.collectionIds.filter((c) => c !== id) }
+          : chat;
+      setChats((prev) => prev.map(dropScope));
+      setActiveChat((prev) => (prev ? dropScope(prev) : prev));
+
+      console.log(`[useRag] Deleted collection: ${id}`);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Failed to delete collection';
+      console.error('[useRag] Error deleting collection:', e);
+      throw new Error(msg);
+    }
+  }, []);
+
+  // ============================================================================
+  // Re-crawl Operations
+  // ============================================================================
+
+  const loadRecrawlFeed = useCallback(async () => {
+    try {
+      const response = await ragApi.getRecrawlFeed();
+      setRecrawlEvents(response.events);
+      setRecrawlStatus(response.status);
+      console.log(`[useRag] Loaded ${response.events.length} re-crawl events`);
+    } catch (e) {
+      console.error('[useRag] Error loading re-crawl feed:', e);
+    }
+  }, []);
+
+  const recrawlDocument = useCallback(
+    async (id: string): Promise<RecrawlDocumentResponse['result']> => {
+      try {
+        const response = await ragApi.recrawlDocument(id);
+
+        // Replace in local state (content, link status and last check may have changed)
+        if (response.document) {
+          const document = response.document;
+          setDocuments((prev) => prev.map((d) => (d.id === id ? document : d)));
+        }
+
+        // Refresh the feed and stats
+        loadRecrawlFeed();
+        if (response.result.outcome === 'updated') loadStorage();
+
+        console.log(`[useRag] Re-crawled document: ${id} (${response.result.outcome})`);
+        return response.result;
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : 'Failed to re-crawl document';
+        console.error('[useRag] Error re-crawling document:', e);
+        throw new Error(msg);
+      }
+    },
+    [loadRecrawlFeed]
+  );
+
+  const getDocumentVersions = useCallback(async (id: string): Promise<RagDocumentVersion[]> => {
+    const response = await ragApi.getDocumentVersions(id);
+    return response.versions;
+  }, []);
+
   // ============================================================================
   // Storage Operations
   // ============================================================================
@@ -210,9 +393,9 @@ export function useRag(): UseRagReturn {
     }
   }, []);
 
-  const createChat = useCallback(async (title?: string): Promise<RagChat> => {
+  const createChat = useCallback(async (title?: string, collectionIds?: string[]): Promise<RagChat> => {
     try {
-      const response = await ragApi.createChat(title);
+      const response = await ragApi.createChat(title, collectionIds);
 
       // Add to local state
       setChats((prev) => [response.chat, ...prev]);
@@ -329,7 +512,7 @@ export function useRag(): UseRagReturn {
     [activeChat]
   );
 
-  const startNewChat = useCallback(async (message: string): Promise<RagMessage> => {
+  const startNewChat = useCallback(async (message: string, collectionIds?: string[]): Promise<RagMessage> => {
     // Optimistically create temp messages
     const tempChatId = `temp_chat_${Date.now()}`;
     const tempUserMsg: RagMessage = {
@@ -352,7 +535,7 @@ export function useRag(): UseRagReturn {
     setActiveChatMessages([tempUserMsg, tempAssistantMsg]);
 
     try {
-      const response = await ragApi.startNewChat(message);
+      const response = await ragApi.startNewChat(message, undefined, collectionIds);
 
       // Set the actual chat and messages
       setActiveChat(response.chat);
@@ -373,6 +556,29 @@ export function useRag(): UseRagReturn {
     }
   }, []);
 
+  const updateChatScope = useCallback(
+    async (collectionIds: string[]): Promise<RagChat> => {
+      if (!activeChat) {
+        throw new Error('No active chat');
+      }
+
+      try {
+        const response = await ragApi.updateChatScope(activeChat.id, collectionIds);
+
+        setActiveChat(response.chat);
+        setChats((prev) => prev.map((c) => (c.id === response.chat.id ? response.chat : c)));
+
+        console.log(`[useRag] Updated chat scope: ${response.chat.id}`);
+        return response.chat;
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : 'Failed to update chat scope';
+        console.error('[useRag] Error updating chat scope:', e);
+        throw new Error(msg);
+      }
+    },
+    [activeChat]
+  );
+
   const clearActiveChat = useCallback(() => {
     setActiveChat(null);
     setActiveChatMessages([]);
@@ -398,8 +604,23 @@ export function useRag(): UseRagReturn {
     loadDocuments,
     indexText,
     indexUrl,
+    updateDocument,
     deleteDocument,
 
+    // Collections
+    collections,
+    loadCollections,
+    createCollection,
+    updateCollectionRecrawlPolicy,
+    deleteCollection,
+
+    // Re-crawl
+    recrawlEvents,
+    recrawlStatus,
+    loadRecrawlFeed,
+    recrawlDocument,
+    getDocumentVersions,
+
     // Storage
     stats,
     config,
@@ -420,6 +641,7 @@ export function useRag(): UseRagReturn {
     loadChat,
     sendMessage,
     startNewChat,
+    updateChatScope,
     clearActiveChat,
   };
 }
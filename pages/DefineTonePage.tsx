@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { TypeIcon } from '../components/IconComponents';
+import { ToneLibraryEditor } from '../components/ToneLibraryEditor';
 import { fadeInUp, staggerContainer, staggerItem } from '../utils/animations';
 
 interface DefineTonePageProps {
@@ -135,6 +136,9 @@ export const DefineTonePage: React.FC<DefineTonePageProps> = ({
                     ))}
                 </motion.div>
             </section>
+
+            {/* Section 3: House tones and flavors */}
+            <ToneLibraryEditor />
         </motion.div>
     );
 };
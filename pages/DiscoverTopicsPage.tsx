@@ -449,7 +449,7 @@ export const DiscoverTopicsPage: React.FC<DiscoverTopicsPageProps> = ({
                     animate="visible"
                     className="grid grid-cols-1 md:grid-cols-2 gap-6"
                 >
-                    {audienceCategories.map((category) => (
+                    {audienceCategories.filter((category) => category.children.length > 0).map((category) => (
                         <motion.div
                             key={category.id}
                             variants={staggerItem}
@@ -8,7 +8,8 @@
  * - Audience: TopicsContext (useAudienceSelection)
  * - Tone/Flavor/ImageStyle: NewsletterContext (useNewsletterSettings)
  * - Newsletter: NewsletterContext (useNewsletter)
- * - Loading/Error: UIContext (useLoading, useError)
+ * - Loading/Progress: NewsletterContext (useNewsletterGeneration) - App writes generation status there
+ * - Error: UIContext (useError)
  * - Auth: AuthContext (useIsAuthenticated)
  * - Presets: usePresets hook
  * - Templates: useTemplates hook
@@ -16,8 +17,9 @@
  * - Modals: UIContext (useModals)
  *
  * Remaining props (API call and multi-state handlers):
- * - onEditImage, onImageUpload, onReorderSections, onUpdate, onEnhancedUpdate
- * - handleGenerateNewsletter, onSaveToDrive, onSendViaGmail
+ * - onEditImage, onImageUpload, onReorderSections, onUpdate, onEnhancedUpdate, onSectionReplaced
+ * - onEnhancedImagesGenerated
+ * - handleGenerateNewsletter, onCancelGeneration, onSaveToDrive, onSendViaGmail, onScheduleSend
  * - onGenerateImage, onSavePreset, onLoadPreset
  * - onSyncToCloud, onLoadFromCloud, onSavePromptToLibrary
  * - selectedTemplateId, onSelectTemplate, onSaveAsTemplate
@@ -25,7 +27,7 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Newsletter, NewsletterSection, Preset, PromptOfTheDay, EnhancedNewsletter } from '../types';
+import { Newsletter, NewsletterSection, Preset, PromptOfTheDay, EnhancedNewsletter, EnhancedAudienceSection } from '../types';
 import { ResizablePanelLayout } from '../components/ResizablePanelLayout';
 import { ConfigurationPanel } from '../components/ConfigurationPanel';
 import { PreviewPanel } from '../components/PreviewPanel';
@@ -35,12 +37,13 @@ import {
     useAudienceSelection,
     useNewsletterSettings,
     useNewsletter,
+    useNewsletterGeneration,
     useWorkflowActions,
     useModals,
     useIsAuthenticated,
     useAuth,
 } from '../contexts';
-import { useLoading, useError } from '../contexts';
+import { useError } from '../contexts';
 import { usePresets } from '../hooks/usePresets';
 import { useTemplates } from '../hooks/useTemplates';
 import { usePersonas } from '../hooks/usePersonas';
@@ -54,10 +57,15 @@ interface GenerateNewsletterPageProps {
     onReorderSections: (newSections: NewsletterSection[]) => void;
     onUpdate: (field: keyof Newsletter | keyof NewsletterSection, value: string, sectionIndex?: number) => void;
     onEnhancedUpdate?: (field: string, value: string, sectionIndex?: number) => void;
+    onSectionReplaced?: (sectionIndex: number, section: EnhancedAudienceSection) => void;
+    onEnhancedImagesGenerated?: (newsletter: EnhancedNewsletter) => void;
     // Generation and workflow handlers
     handleGenerateNewsletter: () => Promise<void>;
+    /** Cancel the running generation job (only set while one is being followed) */
+    onCancelGeneration?: () => void;
     onSaveToDrive?: () => Promise<void>;
     onSendViaGmail?: () => Promise<void>;
+    onScheduleSend?: () => void;
     onGenerateImage?: (sectionIndex: number, imagePrompt: string) => Promise<void>;
     // Preset handlers (multi-state)
     onSavePreset: (name: string) => void;
@@ -84,10 +92,14 @@ export const GenerateNewsletterPage: React.FC<GenerateNewsletterPageProps> = ({
     onReorderSections,
     onUpdate,
     onEnhancedUpdate,
+    onSectionReplaced,
+    onEnhancedImagesGenerated,
     // Generation and workflow
     handleGenerateNewsletter,
+    onCancelGeneration,
     onSaveToDrive,
     onSendViaGmail,
+    onScheduleSend,
     onGenerateImage,
     // Preset handlers
     onSavePreset,
@@ -139,8 +151,9 @@ export const GenerateNewsletterPage: React.FC<GenerateNewsletterPageProps> = ({
     const { workflowActions } = useWorkflowActions();
     const workflowStatus = workflowActions;
 
-    // Loading/error from UIContext
-    const { loading, progress } = useLoading();
+    // Generation status from NewsletterContext (where App's generation handlers write it)
+    const { loading, progress, generationStage } = useNewsletterGeneration();
+    // Error from UIContext
     const { error } = useError();
     const isLoading = !!loading;
 
@@ -267,10 +280,12 @@ export const GenerateNewsletterPage: React.FC<GenerateNewsletterPageProps> = ({
                         hasNewsletterContent={hasNewsletterContent}
                         // Generation
                         handleGenerateNewsletter={handleGenerateNewsletter}
+                        onCancelGeneration={onCancelGeneration}
                         hasSelectedAudience={hasSelectedAudience}
                         isLoading={isLoading}
                         loading={loading}
                         progress={progress}
+                        generationStage={generationStage}
                         error={error}
                     />
                 }
@@ -287,13 +302,16 @@ export const GenerateNewsletterPage: React.FC<GenerateNewsletterPageProps> = ({
                         onReorderSections={onReorderSections}
                         onUpdate={onUpdate}
                         onEnhancedUpdate={onEnhancedUpdate}
+                        onSectionReplaced={onSectionReplaced}
                         onGenerateImage={onGenerateImage}
                         isLoading={isLoading}
                         // Phase 12.0: Bulk image regeneration (uses same handler as reorder)
                         onBulkUpdateSections={onReorderSections}
+                        onEnhancedImagesGenerated={onEnhancedImagesGenerated}
                         // Workflow actions
                         onSaveToDrive={onSaveToDrive}
                         onSendViaGmail={onSendViaGmail}
+                        onScheduleSend={onScheduleSend}
                         isAuthenticated={isAuthenticated}
                         workflowStatus={workflowStatus}
                         // Phase 16: Calendar entry linking
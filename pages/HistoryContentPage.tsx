@@ -8,6 +8,7 @@
  * - Prompts: usePrompts hook
  * - Auth: AuthContext (useAuth)
  * - Settings: SettingsContext (useSettings)
+ * - Revisions: NewsletterRevisionsPanel for the newsletter picked in the history list
  *
  * Remaining props (multi-state handlers):
  * - onLoad: Modifies 5 states (selectedTopics, newsletter, activePage, useEnhancedFormat, promptOfTheDay)
@@ -21,6 +22,7 @@ import { motion } from 'framer-motion';
 import { HistoryPanel } from '../components/HistoryPanel';
 import { LoadFromDriveModal } from '../components/LoadFromDriveModal';
 import { SavedPromptsList } from '../components/SavedPromptsList';
+import { NewsletterRevisionsPanel } from '../components/NewsletterRevisionsPanel';
 import type { EnhancedHistoryItem, Newsletter, EnhancedNewsletter } from '../types';
 import type { SavedPrompt } from '../services/promptClientService';
 import { DriveIcon } from '../components/IconComponents';
@@ -45,7 +47,7 @@ export const HistoryContentPage: React.FC<HistoryContentPageProps> = ({
     onImportFromDrive,
 }) => {
     // History state from useHistory hook
-    const { history, deleteFromHistory } = useHistory();
+    const { history, deleteFromHistory, refreshHistory } = useHistory();
 
     // Prompts state from usePrompts hook
     const { prompts: savedPrompts, isLoading: isPromptsLoading, deletePrompt: onDeletePrompt } = usePrompts();
@@ -60,6 +62,7 @@ export const HistoryContentPage: React.FC<HistoryContentPageProps> = ({
     const { googleSettings } = useSettings();
     const driveFolderName = googleSettings?.driveFolderName;
     const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+    const [revisionsItem, setRevisionsItem] = useState<EnhancedHistoryItem | null>(null);
 
     const handleImport = (newsletter: Newsletter | EnhancedNewsletter, topics: string[], formatVersion: 'v1' | 'v2') => {
         if (onImportFromDrive) {
@@ -106,8 +109,21 @@ export const HistoryContentPage: React.FC<HistoryContentPageProps> = ({
                 onLoad={onLoad}
                 onClear={onClear}
                 onDelete={deleteFromHistory}
+                onShowRevisions={setRevisionsItem}
             />
 
+            {/* Revision history of the selected newsletter */}
+            {revisionsItem && (
+                <NewsletterRevisionsPanel
+                    key={revisionsItem.id}
+                    newsletterId={revisionsItem.id}
+                    subject={revisionsItem.subject}
+                    author={userEmail}
+                    onClose={() => setRevisionsItem(null)}
+                    onRestored={refreshHistory}
+                />
+            )}
+
             {/* Saved Prompts Library */}
             <section>
                 <h2 className="font-display text-h2 text-ink mb-4">Prompt Library</h2>
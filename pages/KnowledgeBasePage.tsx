@@ -3,14 +3,26 @@
  *
  * RAG Knowledge Base management with:
  * - Storage overview (documents, size, status)
- * - Document list with upload/delete
- * - Chat interface with full history
+ * - Collections and tags to organize documents
+ * - Document list with upload/delete and per-document re-crawl policy
+ * - Updates feed of re-crawled documents (updated / broken / recovered)
+ * - Chat interface with full history, scoped to collections
  */
 
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useRag } from '../hooks/useRag';
-import type { RagDocument, RagChat, RagMessage } from '../types';
+import type { DocumentFiling } from '../services/ragClientService';
+import type {
+  RagDocument,
+  RagCollection,
+  RagChat,
+  RagMessage,
+  RagConfig,
+  RagDocumentVersion,
+  RagRecrawlEvent,
+  RagRecrawlPolicy,
+} from '../types';
 import {
   RefreshIcon,
   TrashIcon,
@@ -20,6 +32,10 @@ import {
   SearchIcon,
   SendIcon,
   XIcon,
+  EditIcon,
+  FolderIcon,
+  HistoryIcon,
+  AlertIcon,
 } from '../components/IconComponents';
 import { fadeInUp, staggerContainer, staggerItem } from '../utils/animations';
 
@@ -45,6 +61,33 @@ const formatDate = (dateStr: string): string => {
   });
 };
 
+/** Split comma-separated input into tags */
+const parseTags = (input: string): string[] =>
+  input.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+
+/** Human-readable list of the collections a chat searches */
+const describeScope = (collectionIds: string[], collections: RagCollection[]): string => {
+  if (collectionIds.length === 0) return 'All documents';
+  return collectionIds
+    .map((id) => collections.find((c) => c.id === id)?.name || 'Unknown collection')
+    .join(', ');
+};
+
+const RECRAWL_POLICY_LABELS: Record<RagRecrawlPolicy, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  never: 'Never',
+};
+
+const getEventBadge = (eventType: RagRecrawlEvent['eventType']) => {
+  const badges = {
+    updated: { label: 'Updated', className: 'bg-blue-50 text-blue-700' },
+    broken: { label: 'Broken link', className: 'bg-red-50 text-editorial-red' },
+    recovered: { label: 'Recovered', className: 'bg-green-50 text-green-700' },
+  };
+  return badges[eventType];
+};
+
 const getStatusBadge = (status: string) => {
   switch (status) {
     case 'indexed':
@@ -80,7 +123,8 @@ const getSourceBadge = (source: string) => {
 const StorageOverview: React.FC<{
   stats: ReturnType<typeof useRag>['stats'];
   isAvailable: boolean;
-}> = ({ stats, isAvailable }) => {
+  backend?: RagConfig['backend'];
+}> = ({ stats, isAvailable, backend }) => {
   if (!stats) return null;
 
   const indexedCount = stats.documentsByStatus?.indexed || 0;
@@ -97,6 +141,7 @@ const StorageOverview: React.FC<{
           }`}
         >
           {isAvailable ? 'Connected' : 'Unavailable'}
+          {backend && ` · ${backend === 'local' ? 'Local index' : 'Gemini File Search'}`}
         </span>
       </div>
 
@@ -125,26 +170,223 @@ const StorageOverview: React.FC<{
   );
 };
 
+// =============================================================================
+// COLLECTION BAR COMPONENT
+// =============================================================================
+
+const CollectionBar: React.FC<{
+  collections: RagCollection[];
+  selected: string;
+  onSelect: (collectionId: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  onRecrawlPolicyChange: (id: string, policy: RagRecrawlPolicy) => void;
+}> = ({ collections, selected, onSelect, onCreate, onDelete, onRecrawlPolicyChange }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await onCreate(name.trim());
+      setName('');
+      setError(null);
+      setIsAdding(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create collection');
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `flex items-center gap-1 px-3 py-1 font-sans text-caption border transition-colors ${
+      active ? 'bg-ink text-paper border-ink' : 'border-border-subtle text-slate hover:text-ink'
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onSelect('')} className={chipClass(selected === '')}>
+          All documents
+        </button>
+        {collections.map((collection) => (
+          <div key={collection.id} className="flex items-center">
+            <button
+              onClick={() => onSelect(collection.id)}
+              className={chipClass(selected === collection.id)}
+              title={collection.description || undefined}
+            >
+              <FolderIcon className="h-3 w-3" />
+              {collection.name}
+              <span className="opacity-60">({collection.documentCount})</span>
+            </button>
+            {selected === collection.id && (
+              <>
+                <select
+                  value={collection.recrawlPolicy}
+                  onChange={(e) => onRecrawlPolicyChange(collection.id, e.target.value as RagRecrawlPolicy)}
+                  className="ml-1 bg-transparent border border-border-subtle px-1 py-0.5 font-sans text-caption text-slate focus:outline-none focus:border-ink"
+                  title="Re-crawl URL documents in this collection"
+                >
+                  {(Object.keys(RECRAWL_POLICY_LABELS) as RagRecrawlPolicy[]).map((policy) => (
+                    <option key={policy} value={policy}>
+                      Re-crawl: {RECRAWL_POLICY_LABELS[policy]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onDelete(collection.id)}
+                  className="p-1 text-slate hover:text-editorial-red transition-colors"
+                  title="Delete collection (documents are kept)"
+                >
+                  <TrashIcon className="h-3 w-3" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+        <button onClick={() => onSelect('none')} className={chipClass(selected === 'none')}>
+          Unfiled
+        </button>
+        {isAdding ? (
+          <form onSubmit={handleCreate} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Collection name..."
+              autoFocus
+              className="bg-pearl border border-border-subtle px-2 py-1 font-sans text-caption text-ink focus:outline-none focus:border-ink"
+            />
+            <button type="submit" className="px-2 py-1 bg-ink text-paper font-sans text-caption">
+              Add
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsAdding(false);
+                setError(null);
+              }}
+              className="p-1 text-slate hover:text-ink"
+            >
+              <XIcon className="h-3 w-3" />
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 px-3 py-1 font-sans text-caption text-slate hover:text-ink"
+          >
+            <PlusIcon className="h-3 w-3" />
+            New collection
+          </button>
+        )}
+      </div>
+      {error && <p className="font-sans text-caption text-editorial-red">{error}</p>}
+    </div>
+  );
+};
+
+// =============================================================================
+// DOCUMENT TAGS COMPONENT
+// =============================================================================
+
+const DocumentTags: React.FC<{
+  tags: string[];
+  onSave: (tags: string[]) => Promise<void>;
+  onSelectTag: (tag: string) => void;
+}> = ({ tags, onSave, onSelectTag }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [input, setInput] = useState('');
+
+  const startEditing = () => {
+    setInput(tags.join(', '));
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSave(parseTags(input));
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSave} className="flex items-center gap-1">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setIsEditing(false)}
+          placeholder="tag, another tag"
+          autoFocus
+          className="w-40 bg-pearl border border-border-subtle px-2 py-0.5 font-sans text-caption text-ink focus:outline-none focus:border-ink"
+        />
+        <button type="submit" className="px-2 py-0.5 bg-ink text-paper font-sans text-caption">
+          Save
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          onClick={() => onSelectTag(tag)}
+          className="px-2 py-0.5 bg-pearl text-caption text-charcoal hover:bg-border-subtle transition-colors"
+          title={`Show documents tagged "${tag}"`}
+        >
+          #{tag}
+        </button>
+      ))}
+      <button onClick={startEditing} className="p-1 text-silver hover:text-ink transition-colors" title="Edit tags">
+        <EditIcon className="h-3 w-3" />
+      </button>
+    </div>
+  );
+};
+
 // =============================================================================
 // DOCUMENT ROW COMPONENT
 // =============================================================================
 
+type DocumentUpdates = { collectionId?: string | null; tags?: string[]; recrawlPolicy?: RagRecrawlPolicy | null };
+
 const DocumentRow: React.FC<{
   document: RagDocument;
+  collections: RagCollection[];
   onDelete: (id: string) => void;
+  onUpdate: (id: string, updates: DocumentUpdates) => Promise<void>;
+  onRecrawl: (id: string) => Promise<void>;
+  onSelectTag: (tag: string) => void;
   isDeleting: boolean;
-}> = ({ document, onDelete, isDeleting }) => {
+  isRecrawling: boolean;
+}> = ({ document, collections, onDelete, onUpdate, onRecrawl, onSelectTag, isDeleting, isRecrawling }) => {
   const statusBadge = getStatusBadge(document.status);
   const sourceBadge = getSourceBadge(document.sourceType);
+  const collection = collections.find((c) => c.id === document.collectionId);
+  const collectionPolicy = RECRAWL_POLICY_LABELS[collection?.recrawlPolicy || 'never'];
 
   return (
     <motion.tr variants={staggerItem} className="hover:bg-pearl transition-colors">
       <td className="px-4 py-3">
         <div className="flex items-center gap-2">
           <DocumentIcon className="h-4 w-4 text-slate" />
-          <span className="font-sans text-ui text-ink truncate max-w-[200px]" title={document.filename}>
+          <span className="font-sans text-ui text-ink truncate max-w-[200px]" title={document.sourceUrl || document.filename}>
             {document.filename}
           </span>
+          {document.linkStatus === 'broken' && (
+            <span
+              className="flex items-center gap-1 px-2 py-0.5 text-caption bg-red-50 text-editorial-red"
+              title={document.lastCheckError || 'The source URL could not be fetched'}
+            >
+              <AlertIcon className="h-3 w-3" />
+              Broken link
+            </span>
+          )}
         </div>
       </td>
       <td className="px-4 py-3">
@@ -153,6 +395,58 @@ const DocumentRow: React.FC<{
       <td className="px-4 py-3">
         <span className={`px-2 py-0.5 text-caption ${sourceBadge.className}`}>{sourceBadge.label}</span>
       </td>
+      <td className="px-4 py-3">
+        <select
+          value={document.collectionId || ''}
+          onChange={(e) => onUpdate(document.id, { collectionId: e.target.value || null })}
+          className="bg-transparent border border-border-subtle px-2 py-0.5 font-sans text-caption text-ink focus:outline-none focus:border-ink max-w-[160px]"
+        >
+          <option value="">No collection</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="px-4 py-3">
+        <DocumentTags
+          tags={document.tags}
+          onSave={(tags) => onUpdate(document.id, { tags })}
+          onSelectTag={onSelectTag}
+        />
+      </td>
+      <td className="px-4 py-3">
+        {document.sourceUrl ? (
+          <div className="flex items-center gap-1">
+            <select
+              value={document.recrawlPolicy || ''}
+              onChange={(e) =>
+                onUpdate(document.id, { recrawlPolicy: (e.target.value as RagRecrawlPolicy) || null })
+              }
+              className="bg-transparent border border-border-subtle px-2 py-0.5 font-sans text-caption text-ink focus:outline-none focus:border-ink"
+              title={document.lastCheckedAt ? `Last checked ${formatDate(document.lastCheckedAt)}` : 'Not checked yet'}
+            >
+              <option value="">{collection ? `Collection (${collectionPolicy})` : 'Never'}</option>
+              {(Object.keys(RECRAWL_POLICY_LABELS) as RagRecrawlPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {RECRAWL_POLICY_LABELS[policy]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRecrawl(document.id)}
+              disabled={isRecrawling || document.status !== 'indexed'}
+              className="p-1 text-slate hover:text-ink transition-colors disabled:opacity-50"
+              title="Check the source URL now"
+            >
+              <RefreshIcon className={`h-3 w-3 ${isRecrawling ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        ) : (
+          <span className="font-sans text-caption text-silver">-</span>
+        )}
+      </td>
       <td className="px-4 py-3 font-mono text-caption text-slate">{formatBytes(document.sizeBytes)}</td>
       <td className="px-4 py-3 font-mono text-caption text-slate">{formatDate(document.createdAt)}</td>
       <td className="px-4 py-3 text-center">
@@ -169,6 +463,104 @@ const DocumentRow: React.FC<{
   );
 };
 
+// =============================================================================
+// RECRAWL FEED COMPONENT
+// =============================================================================
+
+const RecrawlFeed: React.FC<{
+  events: RagRecrawlEvent[];
+  brokenDocuments: number;
+  lastRunAt: string | null;
+  onLoadVersions: (documentId: string) => Promise<RagDocumentVersion[]>;
+}> = ({ events, brokenDocuments, lastRunAt, onLoadVersions }) => {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [versions, setVersions] = useState<RagDocumentVersion[]>([]);
+
+  const toggleVersions = async (event: RagRecrawlEvent) => {
+    if (expandedId === event.id) {
+      setExpandedId(null);
+      return;
+    }
+    setVersions(await onLoadVersions(event.documentId));
+    setExpandedId(event.id);
+  };
+
+  return (
+    <div className="bg-paper border border-border-subtle">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border-subtle bg-pearl">
+        <p className="font-sans text-caption text-slate">
+          URL documents with a daily or weekly re-crawl policy are checked hourly
+          {lastRunAt && ` · last run ${formatDate(lastRunAt)}`}
+        </p>
+        {brokenDocuments > 0 && (
+          <span className="flex items-center gap-1 px-2 py-0.5 text-caption bg-red-50 text-editorial-red">
+            <AlertIcon className="h-3 w-3" />
+            {brokenDocuments} broken {brokenDocuments === 1 ? 'link' : 'links'}
+          </span>
+        )}
+      </div>
+      {events.length === 0 ? (
+        <p className="px-4 py-12 text-center font-serif text-body text-slate">
+          No updates yet. Set a re-crawl policy on URL documents or collections to keep them current.
+        </p>
+      ) : (
+        <ul className="divide-y divide-border-subtle">
+          {events.map((event) => {
+            const badge = getEventBadge(event.eventType);
+            return (
+              <li key={event.id} className="px-4 py-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 text-caption ${badge.className}`}>{badge.label}</span>
+                      <span className="font-sans text-ui text-ink truncate">{event.filename}</span>
+                    </div>
+                    {event.sourceUrl && (
+                      <a
+                        href={event.sourceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block font-mono text-caption text-slate hover:text-ink truncate mt-1"
+                      >
+                        {event.sourceUrl}
+                      </a>
+                    )}
+                    {event.detail && <p className="font-sans text-caption text-slate mt-1">{event.detail}</p>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="font-mono text-caption text-silver">{formatDate(event.createdAt)}</span>
+                    {event.eventType === 'updated' && (
+                      <button
+                        onClick={() => toggleVersions(event)}
+                        className="p-1 text-slate hover:text-ink transition-colors"
+                        title="Show earlier versions"
+                      >
+                        <HistoryIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {expandedId === event.id && (
+                  <ul className="mt-2 ml-4 space-y-1">
+                    {versions.map((version) => (
+                      <li key={version.id} className="font-mono text-caption text-slate">
+                        v{version.version} · {formatBytes(version.sizeBytes)} · indexed{' '}
+                        {version.indexedAt ? formatDate(version.indexedAt) : 'unknown'} · replaced{' '}
+                        {formatDate(version.replacedAt)}
+                        {typeof version.metadata?.extractedTitle === 'string' && ` · "${version.metadata.extractedTitle}"`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 // =============================================================================
 // UPLOAD MODAL COMPONENT
 // =============================================================================
@@ -176,18 +568,26 @@ const DocumentRow: React.FC<{
 const UploadModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (content: string, title: string) => Promise<void>;
+  onSubmit: (content: string, title: string, filing: DocumentFiling) => Promise<void>;
   isSubmitting: boolean;
-}> = ({ isOpen, onClose, onSubmit, isSubmitting }) => {
+  collections: RagCollection[];
+  defaultCollectionId?: string;
+}> = ({ isOpen, onClose, onSubmit, isSubmitting, collections, defaultCollectionId }) => {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [collectionId, setCollectionId] = useState(defaultCollectionId || '');
+  const [tags, setTags] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim() || !content.trim()) return;
-    await onSubmit(content, title);
+    await onSubmit(content, title, {
+      collectionId: collectionId || undefined,
+      tags: parseTags(tags),
+    });
     setTitle('');
     setContent('');
+    setTags('');
     onClose();
   };
 
@@ -237,6 +637,38 @@ const UploadModal: React.FC<{
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block font-sans text-caption text-slate uppercase tracking-wider mb-2">
+                Collection
+              </label>
+              <select
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+                className="w-full bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink focus:outline-none focus:border-ink"
+              >
+                <option value="">No collection</option>
+                {collections.map((collection) => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block font-sans text-caption text-slate uppercase tracking-wider mb-2">
+                Tags
+              </label>
+              <input
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="forensics, 2025, vendor..."
+                className="w-full bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink focus:outline-none focus:border-ink"
+              />
+            </div>
+          </div>
+
           <div className="flex items-center justify-end gap-3 pt-4 border-t border-border-subtle">
             <button
               type="button"
@@ -312,11 +744,12 @@ const ChatMessage: React.FC<{ message: RagMessage }> = ({ message }) => {
 
 const ChatSidebar: React.FC<{
   chats: RagChat[];
+  collections: RagCollection[];
   activeChat: RagChat | null;
   onSelectChat: (id: string) => void;
   onNewChat: () => void;
   onDeleteChat: (id: string) => void;
-}> = ({ chats, activeChat, onSelectChat, onNewChat, onDeleteChat }) => {
+}> = ({ chats, collections, activeChat, onSelectChat, onNewChat, onDeleteChat }) => {
   return (
     <div className="w-64 border-r border-border-subtle flex flex-col h-full">
       <div className="p-4 border-b border-border-subtle">
@@ -343,7 +776,14 @@ const ChatSidebar: React.FC<{
             >
               <div className="flex items-center gap-2 min-w-0">
                 <ChatIcon className="h-4 w-4 text-slate flex-shrink-0" />
-                <span className="font-sans text-ui text-ink truncate">{chat.title}</span>
+                <div className="min-w-0">
+                  <span className="block font-sans text-ui text-ink truncate">{chat.title}</span>
+                  {chat.collectionIds.length > 0 && (
+                    <span className="block font-sans text-caption text-silver truncate">
+                      {describeScope(chat.collectionIds, collections)}
+                    </span>
+                  )}
+                </div>
               </div>
               <button
                 onClick={(e) => {
@@ -362,6 +802,62 @@ const ChatSidebar: React.FC<{
   );
 };
 
+// =============================================================================
+// CHAT SCOPE PICKER COMPONENT
+// =============================================================================
+
+const ChatScopePicker: React.FC<{
+  collections: RagCollection[];
+  scope: string[];
+  onChange: (collectionIds: string[]) => void;
+}> = ({ collections, scope, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = (id: string) =>
+    onChange(scope.includes(id) ? scope.filter((c) => c !== id) : [...scope, id]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-2 py-1 border border-border-subtle font-sans text-caption text-slate hover:text-ink transition-colors max-w-[260px]"
+        title="Collections this chat searches"
+      >
+        <FolderIcon className="h-3 w-3 flex-shrink-0" />
+        <span className="truncate">{describeScope(scope, collections)}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 bg-paper border border-border-subtle shadow-lg z-10 p-2 space-y-1">
+          <label className="flex items-center gap-2 p-1 font-sans text-caption text-ink cursor-pointer hover:bg-pearl">
+            <input type="checkbox" checked={scope.length === 0} onChange={() => onChange([])} />
+            All documents
+          </label>
+          {collections.length === 0 ? (
+            <p className="p-1 font-sans text-caption text-silver">
+              No collections yet. Create one on the Documents tab.
+            </p>
+          ) : (
+            collections.map((collection) => (
+              <label
+                key={collection.id}
+                className="flex items-center gap-2 p-1 font-sans text-caption text-ink cursor-pointer hover:bg-pearl"
+              >
+                <input
+                  type="checkbox"
+                  checked={scope.includes(collection.id)}
+                  onChange={() => toggle(collection.id)}
+                />
+                <span className="truncate">{collection.name}</span>
+                <span className="ml-auto text-silver">{collection.documentCount}</span>
+              </label>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // =============================================================================
 // CHAT INTERFACE COMPONENT
 // =============================================================================
@@ -371,7 +867,10 @@ const ChatInterface: React.FC<{
   isLoading: boolean;
   onSendMessage: (message: string) => Promise<void>;
   chatTitle: string;
-}> = ({ messages, isLoading, onSendMessage, chatTitle }) => {
+  collections: RagCollection[];
+  scope: string[];
+  onScopeChange: (collectionIds: string[]) => void;
+}> = ({ messages, isLoading, onSendMessage, chatTitle, collections, scope, onScopeChange }) => {
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -391,8 +890,9 @@ const ChatInterface: React.FC<{
   return (
     <div className="flex-1 flex flex-col h-full">
       {/* Chat Header */}
-      <div className="px-4 py-3 border-b border-border-subtle bg-pearl">
+      <div className="px-4 py-3 border-b border-border-subtle bg-pearl flex items-center justify-between gap-3">
         <h4 className="font-sans text-ui text-ink truncate">{chatTitle || 'New Chat'}</h4>
+        <ChatScopePicker collections={collections} scope={scope} onChange={onScopeChange} />
       </div>
 
       {/* Messages */}
@@ -402,7 +902,9 @@ const ChatInterface: React.FC<{
             <div className="text-center">
               <ChatIcon className="h-12 w-12 text-silver mx-auto mb-4" />
               <p className="font-serif text-body text-slate">
-                Ask a question about your knowledge base
+                {scope.length === 0
+                  ? 'Ask a question about your knowledge base'
+                  : `Ask a question about ${describeScope(scope, collections)}`}
               </p>
             </div>
           </div>
@@ -440,7 +942,7 @@ const ChatInterface: React.FC<{
 // MAIN COMPONENT
 // =============================================================================
 
-type TabType = 'documents' | 'chat';
+type TabType = 'documents' | 'updates' | 'chat';
 
 export const KnowledgeBasePage: React.FC = () => {
   const rag = useRag();
@@ -448,23 +950,92 @@ export const KnowledgeBasePage: React.FC = () => {
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [recrawlingId, setRecrawlingId] = useState<string | null>(null);
   const [isSendingMessage, setIsSendingMessage] = useState(false);
+  // '' = all documents, 'none' = documents not in a collection
+  const [collectionFilter, setCollectionFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  // Scope for the next new chat (an open chat keeps its own)
+  const [newChatScope, setNewChatScope] = useState<string[]>([]);
+
+  const documentFilters = {
+    collectionId: collectionFilter || undefined,
+    tag: tagFilter || undefined,
+  };
 
   // Load data on mount
   useEffect(() => {
-    rag.loadDocuments();
+    rag.loadCollections();
     rag.loadChats();
+    rag.loadRecrawlFeed();
   }, []);
 
-  const handleUpload = async (content: string, title: string) => {
+  // Load documents for the selected collection / tag
+  useEffect(() => {
+    rag.loadDocuments(documentFilters);
+  }, [collectionFilter, tagFilter]);
+
+  const handleUpload = async (content: string, title: string, filing: DocumentFiling) => {
     setIsUploading(true);
     try {
-      await rag.indexText(content, title);
+      await rag.indexText(content, title, filing);
     } finally {
       setIsUploading(false);
     }
   };
 
+  const handleUpdateDocument = async (id: string, updates: DocumentUpdates) => {
+    await rag.updateDocument(id, updates);
+    // The document may no longer match the current filter
+    if (collectionFilter || tagFilter) rag.loadDocuments(documentFilters);
+  };
+
+  const handleCreateCollection = async (name: string) => {
+    const collection = await rag.createCollection(name);
+    setCollectionFilter(collection.id);
+  };
+
+  const handleCollectionRecrawlPolicy = async (id: string, policy: RagRecrawlPolicy) => {
+    await rag.updateCollectionRecrawlPolicy(id, policy);
+    // Rows following the collection's policy show it
+    rag.loadDocuments(documentFilters);
+  };
+
+  const handleRecrawlDocument = async (id: string) => {
+    setRecrawlingId(id);
+    try {
+      const result = await rag.recrawlDocument(id);
+      if (result.outcome === 'failed' || result.outcome === 'broken') {
+        window.alert(`Could not re-crawl: ${result.error || 'unknown error'}`);
+      }
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : 'Failed to re-crawl document');
+    } finally {
+      setRecrawlingId(null);
+    }
+  };
+
+  const handleDeleteCollection = async (id: string) => {
+    if (!window.confirm('Delete this collection? Its documents stay in the knowledge base.')) return;
+    try {
+      await rag.deleteCollection(id);
+    } catch (e) {
+      // e.g. refused while a chat is scoped to this collection alone
+      window.alert(e instanceof Error ? e.message : 'Failed to delete collection');
+      return;
+    }
+    setCollectionFilter('');
+    setNewChatScope((prev) => prev.filter((c) => c !== id));
+  };
+
+  const handleScopeChange = async (collectionIds: string[]) => {
+    if (rag.activeChat) {
+      await rag.updateChatScope(collectionIds);
+    } else {
+      setNewChatScope(collectionIds);
+    }
+  };
+
   const handleDeleteDocument = async (id: string) => {
     setDeletingId(id);
     try {
@@ -492,7 +1063,7 @@ export const KnowledgeBasePage: React.FC = () => {
       if (rag.activeChat) {
         await rag.sendMessage(message);
       } else {
-        await rag.startNewChat(message);
+        await rag.startNewChat(message, newChatScope);
       }
     } finally {
       setIsSendingMessage(false);
@@ -513,8 +1084,10 @@ export const KnowledgeBasePage: React.FC = () => {
           <div className="flex items-center gap-3">
             <button
               onClick={() => {
-                rag.loadDocuments();
+                rag.loadDocuments(documentFilters);
+                rag.loadCollections();
                 rag.loadStorage();
+                rag.loadRecrawlFeed();
               }}
               disabled={rag.documentsLoading}
               className="flex items-center gap-2 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors disabled:opacity-50"
@@ -527,7 +1100,7 @@ export const KnowledgeBasePage: React.FC = () => {
       </header>
 
       {/* Storage Overview */}
-      <StorageOverview stats={rag.stats} isAvailable={rag.isAvailable} />
+      <StorageOverview stats={rag.stats} isAvailable={rag.isAvailable} backend={rag.config?.backend} />
 
       {/* Tabs */}
       <div className="flex items-center gap-4 border-b border-border-subtle">
@@ -542,6 +1115,17 @@ export const KnowledgeBasePage: React.FC = () => {
           Documents
           <span className="ml-2 text-caption text-silver">({rag.documents.length})</span>
         </button>
+        <button
+          onClick={() => setActiveTab('updates')}
+          className={`px-4 py-3 font-sans text-ui transition-colors border-b-2 -mb-px ${
+            activeTab === 'updates' ? 'border-ink text-ink' : 'border-transparent text-slate hover:text-ink'
+          }`}
+        >
+          Updates
+          {!!rag.recrawlStatus?.brokenDocuments && (
+            <span className="ml-2 text-caption text-editorial-red">({rag.recrawlStatus.brokenDocuments} broken)</span>
+          )}
+        </button>
         <button
           onClick={() => setActiveTab('chat')}
           className={`px-4 py-3 font-sans text-ui transition-colors border-b-2 -mb-px ${
@@ -556,11 +1140,38 @@ export const KnowledgeBasePage: React.FC = () => {
       {/* Documents Tab */}
       {activeTab === 'documents' && (
         <>
+          {/* Collections */}
+          <CollectionBar
+            collections={rag.collections}
+            selected={collectionFilter}
+            onSelect={setCollectionFilter}
+            onCreate={handleCreateCollection}
+            onDelete={handleDeleteCollection}
+            onRecrawlPolicyChange={handleCollectionRecrawlPolicy}
+          />
+
           {/* Actions Bar */}
           <div className="flex items-center justify-between">
-            <p className="font-sans text-caption text-slate">
-              {rag.documents.length} documents in knowledge base
-            </p>
+            <div className="flex items-center gap-3">
+              <p className="font-sans text-caption text-slate">
+                {rag.documents.length} documents
+                {collectionFilter === 'none'
+                  ? ' not in a collection'
+                  : collectionFilter
+                    ? ` in ${rag.collections.find((c) => c.id === collectionFilter)?.name || 'collection'}`
+                    : ' in knowledge base'}
+              </p>
+              {tagFilter && (
+                <button
+                  onClick={() => setTagFilter(null)}
+                  className="flex items-center gap-1 px-2 py-0.5 bg-pearl font-sans text-caption text-charcoal hover:bg-border-subtle"
+                  title="Clear tag filter"
+                >
+                  #{tagFilter}
+                  <XIcon className="h-3 w-3" />
+                </button>
+              )}
+            </div>
             <button
               onClick={() => setShowUploadModal(true)}
               className="flex items-center gap-2 bg-ink text-paper px-4 py-2 font-sans text-ui hover:bg-charcoal transition-colors"
@@ -600,6 +1211,15 @@ export const KnowledgeBasePage: React.FC = () => {
                       <th className="px-4 py-3 text-left font-sans text-caption text-slate uppercase tracking-wider">
                         Source
                       </th>
+                      <th className="px-4 py-3 text-left font-sans text-caption text-slate uppercase tracking-wider">
+                        Collection
+                      </th>
+                      <th className="px-4 py-3 text-left font-sans text-caption text-slate uppercase tracking-wider">
+                        Tags
+                      </th>
+                      <th className="px-4 py-3 text-left font-sans text-caption text-slate uppercase tracking-wider">
+                        Re-crawl
+                      </th>
                       <th className="px-4 py-3 text-left font-sans text-caption text-slate uppercase tracking-wider">
                         Size
                       </th>
@@ -619,8 +1239,10 @@ export const KnowledgeBasePage: React.FC = () => {
                   >
                     {rag.documents.length === 0 ? (
                       <tr>
-                        <td colSpan={6} className="px-4 py-12 text-center font-serif text-body text-slate">
-                          No documents yet. Add content to get started.
+                        <td colSpan={9} className="px-4 py-12 text-center font-serif text-body text-slate">
+                          {collectionFilter || tagFilter
+                            ? 'No documents match this filter.'
+                            : 'No documents yet. Add content to get started.'}
                         </td>
                       </tr>
                     ) : (
@@ -628,8 +1250,13 @@ export const KnowledgeBasePage: React.FC = () => {
                         <DocumentRow
                           key={doc.id}
                           document={doc}
+                          collections={rag.collections}
                           onDelete={handleDeleteDocument}
+                          onUpdate={handleUpdateDocument}
+                          onRecrawl={handleRecrawlDocument}
+                          onSelectTag={setTagFilter}
                           isDeleting={deletingId === doc.id}
+                          isRecrawling={recrawlingId === doc.id}
                         />
                       ))
                     )}
@@ -641,11 +1268,22 @@ export const KnowledgeBasePage: React.FC = () => {
         </>
       )}
 
+      {/* Updates Tab */}
+      {activeTab === 'updates' && (
+        <RecrawlFeed
+          events={rag.recrawlEvents}
+          brokenDocuments={rag.recrawlStatus?.brokenDocuments || 0}
+          lastRunAt={rag.recrawlStatus?.lastRunAt || null}
+          onLoadVersions={rag.getDocumentVersions}
+        />
+      )}
+
       {/* Chat Tab */}
       {activeTab === 'chat' && (
         <div className="bg-paper border border-border-subtle flex h-[600px]">
           <ChatSidebar
             chats={rag.chats}
+            collections={rag.collections}
             activeChat={rag.activeChat}
             onSelectChat={handleSelectChat}
             onNewChat={handleNewChat}
@@ -656,6 +1294,9 @@ export const KnowledgeBasePage: React.FC = () => {
             isLoading={isSendingMessage || rag.activeChatLoading}
             onSendMessage={handleSendMessage}
             chatTitle={rag.activeChat?.title || 'New Chat'}
+            collections={rag.collections}
+            scope={rag.activeChat ? rag.activeChat.collectionIds : newChatScope}
+            onScopeChange={handleScopeChange}
           />
         </div>
       )}
@@ -668,6 +1309,8 @@ export const KnowledgeBasePage: React.FC = () => {
             onClose={() => setShowUploadModal(false)}
             onSubmit={handleUpload}
             isSubmitting={isUploading}
+            collections={rag.collections}
+            defaultCollectionId={collectionFilter && collectionFilter !== 'none' ? collectionFilter : undefined}
           />
         )}
       </AnimatePresence>
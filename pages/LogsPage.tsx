@@ -9,6 +9,7 @@
  * - Statistics and storage info
  * - CSV export
  * - Legacy unified logs tab (backward compatibility)
+ * - API costs tab (per-newsletter and monthly costs, budgets)
  */
 
 import React, { useState } from 'react';
@@ -16,6 +17,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useSystemLogs } from '../hooks/useSystemLogs';
 import { useLogs } from '../hooks/useLogs';
 import { useAuth } from '../contexts';
+import { ApiCostsPanel } from '../components/ApiCostsPanel';
 import {
   getLevelDisplay,
   getActionLabel,
@@ -404,7 +406,7 @@ const SettingsPanel: React.FC<{
 // MAIN COMPONENT
 // =============================================================================
 
-type TabType = 'system' | 'legacy';
+type TabType = 'system' | 'legacy' | 'costs';
 
 export const LogsPage: React.FC = () => {
   const { authData } = useAuth();
@@ -443,6 +445,8 @@ export const LogsPage: React.FC = () => {
 
   // Determine which data to use
   const isSystemTab = activeTab === 'system';
+  const isLegacyTab = activeTab === 'legacy';
+  const isCostsTab = activeTab === 'costs';
   const currentLogs = isSystemTab ? systemLogs : legacyLogs;
 
   const hasActiveFilters = isSystemTab
@@ -475,35 +479,37 @@ export const LogsPage: React.FC = () => {
               </p>
             )}
           </div>
-          <div className="flex items-center gap-3">
-            <button
-              onClick={() => setShowSettings(!showSettings)}
-              className={`flex items-center gap-2 border px-4 py-2 font-sans text-ui transition-colors ${
-                showSettings
-                  ? 'border-ink text-ink bg-pearl'
-                  : 'border-border-subtle text-slate hover:text-ink hover:border-ink'
-              }`}
-            >
-              <SettingsIcon className="h-4 w-4" />
-              Settings
-            </button>
-            <button
-              onClick={currentLogs.refresh}
-              disabled={currentLogs.isLoading}
-              className="flex items-center gap-2 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors disabled:opacity-50"
-            >
-              <RefreshIcon className={`h-4 w-4 ${currentLogs.isLoading ? 'animate-spin' : ''}`} />
-              Refresh
-            </button>
-            <button
-              onClick={currentLogs.exportCsv}
-              disabled={currentLogs.isExporting || currentLogs.logs.length === 0}
-              className="flex items-center gap-2 bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors disabled:bg-silver"
-            >
-              <SaveIcon className={`h-4 w-4 ${currentLogs.isExporting ? 'animate-pulse' : ''}`} />
-              {currentLogs.isExporting ? 'Exporting...' : 'Export CSV'}
-            </button>
-          </div>
+          {!isCostsTab && (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`flex items-center gap-2 border px-4 py-2 font-sans text-ui transition-colors ${
+                  showSettings
+                    ? 'border-ink text-ink bg-pearl'
+                    : 'border-border-subtle text-slate hover:text-ink hover:border-ink'
+                }`}
+              >
+                <SettingsIcon className="h-4 w-4" />
+                Settings
+              </button>
+              <button
+                onClick={currentLogs.refresh}
+                disabled={currentLogs.isLoading}
+                className="flex items-center gap-2 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors disabled:opacity-50"
+              >
+                <RefreshIcon className={`h-4 w-4 ${currentLogs.isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+              <button
+                onClick={currentLogs.exportCsv}
+                disabled={currentLogs.isExporting || currentLogs.logs.length === 0}
+                className="flex items-center gap-2 bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors disabled:bg-silver"
+              >
+                <SaveIcon className={`h-4 w-4 ${currentLogs.isExporting ? 'animate-pulse' : ''}`} />
+                {currentLogs.isExporting ? 'Exporting...' : 'Export CSV'}
+              </button>
+            </div>
+          )}
         </div>
       </header>
 
@@ -559,10 +565,23 @@ export const LogsPage: React.FC = () => {
             </span>
           )}
         </button>
+        <button
+          onClick={() => setActiveTab('costs')}
+          className={`px-4 py-3 font-sans text-ui transition-colors border-b-2 -mb-px ${
+            activeTab === 'costs'
+              ? 'border-ink text-ink'
+              : 'border-transparent text-slate hover:text-ink'
+          }`}
+        >
+          API Costs
+        </button>
       </div>
 
+      {/* API Costs */}
+      {isCostsTab && <ApiCostsPanel />}
+
       {/* Trace Banner */}
-      {traceCorrelationId && (
+      {traceCorrelationId && !isCostsTab && (
         <div className="bg-editorial-navy/10 border border-editorial-navy p-4 flex items-center justify-between">
           <div>
             <span className="font-sans text-ui text-editorial-navy font-medium">Tracing Request: </span>
@@ -583,7 +602,7 @@ export const LogsPage: React.FC = () => {
 
       {/* Error Message */}
       <AnimatePresence>
-        {currentLogs.error && (
+        {!isCostsTab && currentLogs.error && (
           <motion.div
             initial={{ opacity: 0, y: -8 }}
             animate={{ opacity: 1, y: 0 }}
@@ -599,29 +618,31 @@ export const LogsPage: React.FC = () => {
       </AnimatePresence>
 
       {/* Filter Toggle */}
-      <div className="flex items-center justify-between">
-        <button
-          onClick={() => setShowFilters(!showFilters)}
-          className={`flex items-center gap-2 font-sans text-ui transition-colors ${
-            showFilters || hasActiveFilters ? 'text-ink' : 'text-slate hover:text-ink'
-          }`}
-        >
-          <FilterIcon className="h-4 w-4" />
-          {showFilters ? 'Hide Filters' : 'Show Filters'}
-          {hasActiveFilters && !showFilters && (
-            <span className="ml-1 px-2 py-0.5 bg-editorial-red text-paper text-caption">Active</span>
-          )}
-        </button>
-        {hasActiveFilters && (
+      {!isCostsTab && (
+        <div className="flex items-center justify-between">
           <button
-            onClick={currentLogs.clearFilters}
-            className="flex items-center gap-1 font-sans text-caption text-editorial-red hover:underline"
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center gap-2 font-sans text-ui transition-colors ${
+              showFilters || hasActiveFilters ? 'text-ink' : 'text-slate hover:text-ink'
+            }`}
           >
-            <XIcon className="h-3 w-3" />
-            Clear Filters
+            <FilterIcon className="h-4 w-4" />
+            {showFilters ? 'Hide Filters' : 'Show Filters'}
+            {hasActiveFilters && !showFilters && (
+              <span className="ml-1 px-2 py-0.5 bg-editorial-red text-paper text-caption">Active</span>
+            )}
           </button>
-        )}
-      </div>
+          {hasActiveFilters && (
+            <button
+              onClick={currentLogs.clearFilters}
+              className="flex items-center gap-1 font-sans text-caption text-editorial-red hover:underline"
+            >
+              <XIcon className="h-3 w-3" />
+              Clear Filters
+            </button>
+          )}
+        </div>
+      )}
 
       {/* Filter Panel - System Logs */}
       <AnimatePresence>
@@ -731,7 +752,7 @@ export const LogsPage: React.FC = () => {
 
       {/* Filter Panel - Legacy Logs */}
       <AnimatePresence>
-        {showFilters && !isSystemTab && (
+        {showFilters && isLegacyTab && (
           <motion.div
             initial={{ height: 0, opacity: 0 }}
             animate={{ height: 'auto', opacity: 1 }}
@@ -814,7 +835,7 @@ export const LogsPage: React.FC = () => {
       </AnimatePresence>
 
       {/* Loading State */}
-      {currentLogs.isLoading && (
+      {!isCostsTab && currentLogs.isLoading && (
         <div className="flex items-center justify-center py-12">
           <div className="w-8 h-8 border-2 border-ink border-t-transparent animate-spin" />
         </div>
@@ -915,7 +936,7 @@ export const LogsPage: React.FC = () => {
       )}
 
       {/* Logs Table - Legacy Logs */}
-      {!currentLogs.isLoading && !isSystemTab && (
+      {!currentLogs.isLoading && isLegacyTab && (
         <>
           <div className="bg-paper border border-border-subtle overflow-hidden">
             <div className="overflow-x-auto">
@@ -466,6 +466,25 @@ export const SentHistoryPage: React.FC = () => {
                                   </p>
                                 </div>
 
+                                {/* Audience variants */}
+                                {item.variants && (
+                                  <div>
+                                    <h4 className="font-sans text-overline text-slate uppercase tracking-wide mb-2">
+                                      Audience Variants
+                                    </h4>
+                                    <ul className="space-y-1">
+                                      {item.variants.map((variant) => (
+                                        <li key={variant.key} className="font-sans text-ui text-charcoal">
+                                          {variant.audienceNames.join(' + ')}
+                                          <span className="font-mono text-caption text-slate ml-2">
+                                            {variant.recipientCount} recipient{variant.recipientCount !== 1 ? 's' : ''}
+                                          </span>
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                )}
+
                                 {/* Stats detail */}
                                 {item.stats && (
                                   <div>
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { XIcon, GoogleIcon, CheckIcon, DriveIcon, SheetIcon, SendIcon, SettingsIcon } from '../components/IconComponents';
 import type { GoogleSettings, GapiAuthData, Newsletter, SubscriberList } from '../types';
 import * as googleApi from '../services/googleApiService';
+import { EmailTransportSettings } from '../components/EmailTransportSettings';
 
 interface SettingsAndIntegrationsPageProps {
     googleSettings: GoogleSettings | null;
@@ -216,6 +217,9 @@ export const SettingsAndIntegrationsPage: React.FC<SettingsAndIntegrationsPagePr
                 </div>
             </div>
 
+            {/* Email Delivery (Gmail / SMTP / outbox) */}
+            <EmailTransportSettings userEmail={authData?.email || null} />
+
             {/* Workflow Actions */}
             <div className="bg-white rounded-2xl p-6 border border-border-light">
                 <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-accent-light-blue to-accent-salmon mb-4 flex items-center gap-2">
@@ -3,8 +3,58 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Subscriber, SubscriberList } from '../types';
 import * as subscriberApi from '../services/subscriberClientService';
 import { UsersIcon, PlusIcon, TrashIcon, EditIcon, XIcon, UploadIcon, CheckIcon, RefreshIcon } from '../components/IconComponents';
+import { SegmentManager } from '../components/SegmentManager';
 import { fadeInUp, modalOverlay, modalContent, staggerContainer, staggerItem } from '../utils/animations';
 
+interface SubscriberFormData {
+    email: string;
+    name: string;
+    lists: string[];
+    /** Custom merge tag fields as editable rows */
+    attributes: Array<{ key: string; value: string }>;
+    /** Audience IDs whose newsletter sections they receive */
+    audiences: string[];
+}
+
+const EMPTY_SUBSCRIBER_FORM: SubscriberFormData = { email: '', name: '', lists: [], attributes: [], audiences: [] };
+const EMPTY_LIST_FORM = { name: '', description: '', audiences: [] as string[] };
+
+// Rows with a key become the attributes object (the server normalizes keys to snake_case)
+const attributeRowsToRecord = (rows: SubscriberFormData['attributes']): Record<string, string> =>
+    Object.fromEntries(rows.filter(row => row.key.trim()).map(row => [row.key.trim(), row.value]));
+
+/**
+ * Audience checkboxes for mapping a subscriber or list to newsletter audiences
+ */
+const AudienceCheckboxes: React.FC<{
+    audiences: subscriberApi.MappableAudience[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}> = ({ audiences, selected, onChange }) => (
+    <div>
+        <label className="block font-sans text-ui font-medium text-ink mb-1">Audiences</label>
+        <p className="font-sans text-caption text-slate mb-3">
+            Only these audiences' sections are sent (plus the shared parts). Leave empty to receive the full newsletter.
+        </p>
+        <div className="space-y-2 max-h-40 overflow-y-auto">
+            {audiences.map(audience => (
+                <label key={audience.id} className="flex items-center gap-3 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={selected.includes(audience.id)}
+                        onChange={(e) => onChange(
+                            e.target.checked ? [...selected, audience.id] : selected.filter(id => id !== audience.id)
+                        )}
+                        className="w-4 h-4 border-border-subtle accent-ink"
+                    />
+                    <span className="font-sans text-ui text-ink">{audience.name}</span>
+                    {audience.isCustom && <span className="font-sans text-caption text-slate">custom</span>}
+                </label>
+            ))}
+        </div>
+    </div>
+);
+
 interface SubscriberManagementPageProps {
     onListsChanged?: () => Promise<void>;
 }
@@ -13,7 +63,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
     onListsChanged
 }) => {
     // UI States
-    const [activeTab, setActiveTab] = useState<'subscribers' | 'lists' | 'import'>('subscribers');
+    const [activeTab, setActiveTab] = useState<'subscribers' | 'lists' | 'segments' | 'import'>('subscribers');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -37,10 +87,16 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
     const [editingList, setEditingList] = useState<SubscriberList | null>(null);
 
     // Form States
-    const [formData, setFormData] = useState({ email: '', name: '', lists: [] as string[] });
-    const [listFormData, setListFormData] = useState({ name: '', description: '' });
+    const [formData, setFormData] = useState<SubscriberFormData>(EMPTY_SUBSCRIBER_FORM);
+    const [listFormData, setListFormData] = useState(EMPTY_LIST_FORM);
+    const [mappableAudiences, setMappableAudiences] = useState<subscriberApi.MappableAudience[]>([]);
     const [bulkImportData, setBulkImportData] = useState('');
-    const [selectedListsForImport, setSelectedListsForImport] = useState<string[]>([]);
+    const [importFileName, setImportFileName] = useState<string | null>(null);
+    const [importListId, setImportListId] = useState<string>('');
+    const [importUpdateNames, setImportUpdateNames] = useState(false);
+    const [importAddExistingToList, setImportAddExistingToList] = useState(false);
+    const [importMapping, setImportMapping] = useState<subscriberApi.ColumnMapping | null>(null);
+    const [importReport, setImportReport] = useState<subscriberApi.ImportReport | null>(null);
 
     // Load data from SQLite on mount
     const loadData = useCallback(async () => {
@@ -54,6 +110,11 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
 
             setSubscribersData(subsResponse.subscribers);
             setListsData(listsResponse.lists);
+
+            // Audience mapping is optional; the page works without it
+            subscriberApi.getMappableAudiences()
+                .then(response => setMappableAudiences(response.audiences))
+                .catch(err => console.warn('Failed to load audiences:', err));
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to load data');
             console.error('Error loading data:', err);
@@ -88,6 +149,18 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
         setFilteredSubscribers(filtered);
     }, [subscribersData, searchTerm, filterStatus, filterList]);
 
+    // Attribute keys already in use, suggested in the attribute editor
+    const knownAttributeKeys = Array.from(
+        new Set(subscribersData.flatMap(s => Object.keys(s.attributes || {})))
+    ).sort();
+
+    const updateAttributeRow = (index: number, field: 'key' | 'value', value: string) => {
+        setFormData({
+            ...formData,
+            attributes: formData.attributes.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+        });
+    };
+
     const showSuccess = (message: string) => {
         setSuccessMessage(message);
         setTimeout(() => setSuccessMessage(null), 3000);
@@ -105,12 +178,14 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                 name: formData.name || undefined,
                 status: 'active',
                 lists: formData.lists.join(','),
-                source: 'manual'
+                source: 'manual',
+                attributes: attributeRowsToRecord(formData.attributes),
+                audiences: formData.audiences
             });
 
             setSubscribersData([newSubscriber, ...subscribersData]);
             setIsAddSubscriberModalOpen(false);
-            setFormData({ email: '', name: '', lists: [] });
+            setFormData(EMPTY_SUBSCRIBER_FORM);
             showSuccess(`Subscriber ${formData.email} added successfully`);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to add subscriber');
@@ -128,7 +203,9 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                 editingSubscriber.email,
                 {
                     name: formData.name || undefined,
-                    lists: formData.lists.join(',')
+                    lists: formData.lists.join(','),
+                    attributes: attributeRowsToRecord(formData.attributes),
+                    audiences: formData.audiences
                 }
             );
 
@@ -138,7 +215,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
 
             setIsEditSubscriberModalOpen(false);
             setEditingSubscriber(null);
-            setFormData({ email: '', name: '', lists: [] });
+            setFormData(EMPTY_SUBSCRIBER_FORM);
             showSuccess('Subscriber updated successfully');
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to update subscriber');
@@ -202,7 +279,9 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
         setFormData({
             email: subscriber.email,
             name: subscriber.name || '',
-            lists: subscriber.lists ? subscriber.lists.split(',').map(l => l.trim()).filter(Boolean) : []
+            lists: subscriber.lists ? subscriber.lists.split(',').map(l => l.trim()).filter(Boolean) : [],
+            attributes: Object.entries(subscriber.attributes || {}).map(([key, value]) => ({ key, value })),
+            audiences: subscriber.audiences || []
         });
         setIsEditSubscriberModalOpen(true);
     };
@@ -216,12 +295,13 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
         try {
             const newList = await subscriberApi.createList(
                 listFormData.name,
-                listFormData.description || undefined
+                listFormData.description || undefined,
+                listFormData.audiences
             );
 
             setListsData([newList, ...listsData]);
             setIsAddListModalOpen(false);
-            setListFormData({ name: '', description: '' });
+            setListFormData(EMPTY_LIST_FORM);
             showSuccess(`List "${listFormData.name}" created successfully`);
 
             if (onListsChanged) {
@@ -241,7 +321,11 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
         try {
             const updated = await subscriberApi.updateList(
                 editingList.id,
-                { name: listFormData.name, description: listFormData.description || undefined }
+                {
+                    name: listFormData.name,
+                    description: listFormData.description || undefined,
+                    audiences: listFormData.audiences
+                }
             );
 
             setListsData(listsData.map(l =>
@@ -250,7 +334,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
 
             setIsEditListModalOpen(false);
             setEditingList(null);
-            setListFormData({ name: '', description: '' });
+            setListFormData(EMPTY_LIST_FORM);
             showSuccess('List updated successfully');
 
             if (onListsChanged) {
@@ -285,41 +369,50 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
 
     const openEditListModal = (list: SubscriberList) => {
         setEditingList(list);
-        setListFormData({ name: list.name, description: list.description || '' });
+        setListFormData({ name: list.name, description: list.description || '', audiences: list.audiences || [] });
         setIsEditListModalOpen(true);
     };
 
-    // ===== BULK IMPORT HANDLER =====
+    // ===== IMPORT / EXPORT HANDLERS =====
 
-    const handleBulkImport = async () => {
+    const resetImportPreview = () => {
+        setImportReport(null);
+        setImportMapping(null);
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setBulkImportData(await file.text());
+        setImportFileName(file.name);
+        resetImportPreview();
+    };
+
+    const runImport = async (dryRun: boolean, mapping = importMapping) => {
         if (!bulkImportData.trim()) return;
 
         setLoading(true);
         setError(null);
         try {
-            const emails = bulkImportData
-                .split(/[\n,;]/)
-                .map(e => e.trim())
-                .filter(e => e && e.includes('@'));
-
-            if (emails.length === 0) {
-                setError('No valid emails found in input');
-                setLoading(false);
-                return;
-            }
-
-            const subscribers = emails.map(email => ({
-                email,
-                name: undefined,
-                listId: selectedListsForImport[0]
-            }));
+            const report = await subscriberApi.importSubscribersFromFile(bulkImportData, {
+                mapping: mapping || undefined,
+                listId: importListId || undefined,
+                updateNames: importUpdateNames,
+                addExistingToList: importAddExistingToList,
+                dryRun,
+            });
 
-            const result = await subscriberApi.importSubscribers(subscribers);
+            setImportReport(report);
+            setImportMapping(report.mapping || null);
 
-            await loadData();
-            setBulkImportData('');
-            setSelectedListsForImport([]);
-            showSuccess(`Imported ${result.added} subscriber(s). ${result.skipped > 0 ? `${result.skipped} skipped (duplicates).` : ''}`);
+            if (!dryRun) {
+                await loadData();
+                setBulkImportData('');
+                setImportFileName(null);
+                showSuccess(`Imported: ${report.added} added, ${report.updated} updated, ${report.skipped} skipped, ${report.invalid} invalid.`);
+            }
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to import subscribers');
         } finally {
@@ -327,10 +420,31 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
         }
     };
 
+    const handleMappingChange = (field: keyof subscriberApi.ColumnMapping, column: string) => {
+        if (!importMapping) return;
+        const mapping = { ...importMapping, [field]: column || undefined } as subscriberApi.ColumnMapping;
+        setImportMapping(mapping);
+        runImport(true, mapping);
+    };
+
+    const handleExport = async (what: 'subscribers' | 'lists') => {
+        setError(null);
+        try {
+            if (what === 'lists') {
+                await subscriberApi.exportListsCsv();
+            } else {
+                await subscriberApi.exportSubscribersCsv({ status: filterStatus, listId: filterList || undefined });
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to export');
+        }
+    };
+
     const tabs = [
         { id: 'subscribers', label: 'Subscribers', count: subscribersData.length },
         { id: 'lists', label: 'Lists', count: listsData.length },
-        { id: 'import', label: 'Bulk Import', count: null },
+        { id: 'segments', label: 'Segments', count: null },
+        { id: 'import', label: 'Import / Export', count: null },
     ];
 
     return (
@@ -465,7 +579,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
 
                                 <button
                                     onClick={() => {
-                                        setFormData({ email: '', name: '', lists: [] });
+                                        setFormData(EMPTY_SUBSCRIBER_FORM);
                                         setIsAddSubscriberModalOpen(true);
                                     }}
                                     className="flex items-center gap-2 bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors whitespace-nowrap"
@@ -502,11 +616,14 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                                         <td className="px-6 py-4 font-sans text-ui font-medium text-ink">{sub.email}</td>
                                                         <td className="px-6 py-4 font-sans text-ui text-charcoal">{sub.name || '—'}</td>
                                                         <td className="px-6 py-4">
-                                                            <span className={`font-sans text-caption px-2 py-1 ${
-                                                                sub.status === 'active'
-                                                                    ? 'bg-pearl text-ink'
-                                                                    : 'bg-pearl text-slate'
-                                                            }`}>
+                                                            <span
+                                                                className={`font-sans text-caption px-2 py-1 ${
+                                                                    sub.status === 'active'
+                                                                        ? 'bg-pearl text-ink'
+                                                                        : 'bg-pearl text-slate'
+                                                                }`}
+                                                                title={sub.unsubscribeReason ? `Unsubscribed: ${sub.unsubscribeReason}` : undefined}
+                                                            >
                                                                 {sub.status}
                                                             </span>
                                                         </td>
@@ -576,7 +693,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                         <div className="space-y-6">
                             <button
                                 onClick={() => {
-                                    setListFormData({ name: '', description: '' });
+                                    setListFormData(EMPTY_LIST_FORM);
                                     setIsAddListModalOpen(true);
                                 }}
                                 className="flex items-center gap-2 bg-ink text-paper font-sans text-ui px-4 py-2 hover:bg-charcoal transition-colors"
@@ -620,6 +737,13 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                                 <p className="font-sans text-ui text-slate">
                                                     Members: <span className="font-medium text-ink">{list.subscriberCount}</span>
                                                 </p>
+                                                {list.audiences && list.audiences.length > 0 && (
+                                                    <p className="font-sans text-caption text-slate mt-1">
+                                                        Audiences: {list.audiences
+                                                            .map(id => mappableAudiences.find(a => a.id === id)?.name || id)
+                                                            .join(', ')}
+                                                    </p>
+                                                )}
                                             </div>
                                             <div className="flex gap-3">
                                                 <button
@@ -644,45 +768,59 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                         </div>
                     )}
 
-                    {/* BULK IMPORT TAB */}
+                    {/* SEGMENTS TAB */}
+                    {activeTab === 'segments' && (
+                        <SegmentManager lists={listsData} attributeKeys={knownAttributeKeys} />
+                    )}
+
+                    {/* IMPORT / EXPORT TAB */}
                     {activeTab === 'import' && (
                         <div className="bg-paper border border-border-subtle p-8 space-y-6">
                             <div>
-                                <h2 className="font-display text-h2 text-ink mb-2">Bulk Import Subscribers</h2>
+                                <h2 className="font-display text-h2 text-ink mb-2">Import Subscribers</h2>
                                 <p className="font-serif text-body text-slate">
-                                    Paste email addresses (one per line, comma-separated, or semicolon-separated). Max 100 at a time.
+                                    Upload a CSV or vCard (.vcf) file, or paste CSV with a header row (or one address per line).
+                                    Preview checks every address and shows what will be added, updated or skipped before anything is saved.
                                 </p>
                             </div>
 
                             <div>
-                                <label className="block font-sans text-ui font-medium text-ink mb-2">
-                                    Email Addresses
-                                </label>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block font-sans text-ui font-medium text-ink">
+                                        {importFileName ? `File: ${importFileName}` : 'CSV or vCard Content'}
+                                    </label>
+                                    <label className="flex items-center gap-2 font-sans text-ui text-ink border border-border-subtle px-3 py-1 cursor-pointer hover:bg-pearl transition-colors">
+                                        <UploadIcon className="h-4 w-4" />
+                                        Choose File
+                                        <input type="file" accept=".csv,.vcf,.txt,text/csv,text/vcard" onChange={handleImportFile} className="hidden" />
+                                    </label>
+                                </div>
                                 <textarea
                                     value={bulkImportData}
-                                    onChange={(e) => setBulkImportData(e.target.value)}
-                                    placeholder="user1@example.com&#10;user2@example.com&#10;user3@example.com"
+                                    onChange={(e) => {
+                                        setBulkImportData(e.target.value);
+                                        setImportFileName(null);
+                                        resetImportPreview();
+                                    }}
+                                    placeholder="email,first_name,last_name&#10;user1@example.com,Ada,Lovelace&#10;user2@example.com,Alan,Turing"
                                     className="w-full h-48 p-4 bg-pearl border border-border-subtle font-mono text-ui text-ink placeholder:text-silver focus:outline-none focus:border-ink transition-colors"
                                 />
                             </div>
 
                             <div>
                                 <label className="block font-sans text-ui font-medium text-ink mb-3">
-                                    Add to Lists (Optional)
+                                    Add to List (Optional)
                                 </label>
                                 <div className="flex flex-wrap gap-2">
                                     {listsData.map(list => (
                                         <button
                                             key={list.id}
                                             onClick={() => {
-                                                if (selectedListsForImport.includes(list.id)) {
-                                                    setSelectedListsForImport(selectedListsForImport.filter(id => id !== list.id));
-                                                } else {
-                                                    setSelectedListsForImport([...selectedListsForImport, list.id]);
-                                                }
+                                                setImportListId(importListId === list.id ? '' : list.id);
+                                                setImportReport(null);
                                             }}
                                             className={`px-4 py-2 font-sans text-ui transition-colors ${
-                                                selectedListsForImport.includes(list.id)
+                                                importListId === list.id
                                                     ? 'bg-ink text-paper'
                                                     : 'border border-border-subtle text-ink hover:bg-pearl'
                                             }`}
@@ -698,14 +836,134 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                 )}
                             </div>
 
-                            <button
-                                onClick={handleBulkImport}
-                                disabled={!bulkImportData.trim()}
-                                className="w-full flex items-center justify-center gap-2 bg-ink text-paper font-sans text-ui font-medium py-3 px-4 hover:bg-charcoal disabled:bg-silver transition-colors"
-                            >
-                                <UploadIcon className="h-4 w-4" />
-                                Import Subscribers
-                            </button>
+                            <div className="flex flex-col md:flex-row gap-4 font-sans text-ui text-ink">
+                                <label className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={importUpdateNames}
+                                        onChange={(e) => { setImportUpdateNames(e.target.checked); setImportReport(null); }}
+                                    />
+                                    Update names of existing subscribers
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={importAddExistingToList}
+                                        onChange={(e) => { setImportAddExistingToList(e.target.checked); setImportReport(null); }}
+                                    />
+                                    Add existing subscribers to the list
+                                </label>
+                            </div>
+
+                            {/* Column mapping (CSV only) */}
+                            {importReport?.format === 'csv' && importMapping && importReport.columns && (
+                                <div className="border border-border-subtle p-4 space-y-3">
+                                    <h3 className="font-sans text-ui font-medium text-ink">Column Mapping</h3>
+                                    <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+                                        {(['email', 'name', 'firstName', 'lastName', 'lists'] as const).map(field => (
+                                            <div key={field}>
+                                                <label className="block font-sans text-caption text-slate mb-1">
+                                                    {{ email: 'Email', name: 'Full name', firstName: 'First name', lastName: 'Last name', lists: 'Lists' }[field]}
+                                                </label>
+                                                <select
+                                                    value={importMapping[field] || ''}
+                                                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                                                    className="w-full bg-pearl border border-border-subtle px-2 py-1 font-sans text-ui text-ink focus:outline-none focus:border-ink"
+                                                >
+                                                    {field !== 'email' && <option value="">(none)</option>}
+                                                    {importReport.columns!.map(column => (
+                                                        <option key={column} value={column}>{column}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Import report */}
+                            {importReport && (
+                                <div className="border border-border-subtle p-4 space-y-3">
+                                    <h3 className="font-sans text-ui font-medium text-ink">
+                                        {importReport.dryRun ? 'Preview' : 'Import Report'}: {importReport.added} added, {importReport.updated} updated, {importReport.skipped} skipped, {importReport.invalid} invalid
+                                    </h3>
+                                    <div className="max-h-64 overflow-y-auto">
+                                        <table className="w-full font-sans text-caption">
+                                            <thead>
+                                                <tr className="text-left text-slate border-b border-border-subtle">
+                                                    <th className="py-1 pr-3">Row</th>
+                                                    <th className="py-1 pr-3">Email</th>
+                                                    <th className="py-1 pr-3">Name</th>
+                                                    <th className="py-1 pr-3">Result</th>
+                                                    <th className="py-1">Details</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {importReport.rows.slice(0, 500).map(row => (
+                                                    <tr key={`${row.row}-${row.email}`} className="border-b border-border-subtle text-ink">
+                                                        <td className="py-1 pr-3">{row.row}</td>
+                                                        <td className="py-1 pr-3 font-mono">{row.email || '—'}</td>
+                                                        <td className="py-1 pr-3">{row.name || ''}</td>
+                                                        <td className={`py-1 pr-3 ${
+                                                            row.action === 'added' ? 'text-green-700'
+                                                                : row.action === 'updated' ? 'text-blue-700'
+                                                                : row.action === 'invalid' ? 'text-red-700'
+                                                                : 'text-slate'
+                                                        }`}>{row.action}</td>
+                                                        <td className="py-1 text-slate">{row.reason || ''}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                        {importReport.rows.length > 500 && (
+                                            <p className="font-serif text-caption text-slate italic mt-2">
+                                                Showing the first 500 of {importReport.rows.length} rows.
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="flex flex-col md:flex-row gap-3">
+                                <button
+                                    onClick={() => runImport(true)}
+                                    disabled={!bulkImportData.trim()}
+                                    className="flex-1 flex items-center justify-center gap-2 border border-ink text-ink font-sans text-ui font-medium py-3 px-4 hover:bg-pearl disabled:text-silver disabled:border-silver transition-colors"
+                                >
+                                    <CheckIcon className="h-4 w-4" />
+                                    Preview Import
+                                </button>
+                                <button
+                                    onClick={() => runImport(false)}
+                                    disabled={!bulkImportData.trim() || !importReport?.dryRun}
+                                    className="flex-1 flex items-center justify-center gap-2 bg-ink text-paper font-sans text-ui font-medium py-3 px-4 hover:bg-charcoal disabled:bg-silver transition-colors"
+                                >
+                                    <UploadIcon className="h-4 w-4" />
+                                    Import Subscribers
+                                </button>
+                            </div>
+
+                            <div className="border-t border-border-subtle pt-6">
+                                <h2 className="font-display text-h2 text-ink mb-2">Export</h2>
+                                <p className="font-serif text-body text-slate mb-4">
+                                    Download subscribers (using the status and list filters from the Subscribers tab) or your lists as CSV.
+                                    Exported subscriber files can be imported again.
+                                </p>
+                                <div className="flex flex-col md:flex-row gap-3">
+                                    <button
+                                        onClick={() => handleExport('subscribers')}
+                                        className="flex-1 border border-border-subtle text-ink font-sans text-ui py-2 px-4 hover:bg-pearl transition-colors"
+                                    >
+                                        Export Subscribers CSV
+                                    </button>
+                                    <button
+                                        onClick={() => handleExport('lists')}
+                                        className="flex-1 border border-border-subtle text-ink font-sans text-ui py-2 px-4 hover:bg-pearl transition-colors"
+                                    >
+                                        Export Lists CSV
+                                    </button>
+                                </div>
+                            </div>
                         </div>
                     )}
 
@@ -723,7 +981,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                 onClick={() => {
                                     setIsAddSubscriberModalOpen(false);
                                     setIsEditSubscriberModalOpen(false);
-                                    setFormData({ email: '', name: '', lists: [] });
+                                    setFormData(EMPTY_SUBSCRIBER_FORM);
                                 }}
                             >
                                 <motion.div
@@ -742,7 +1000,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                             onClick={() => {
                                                 setIsAddSubscriberModalOpen(false);
                                                 setIsEditSubscriberModalOpen(false);
-                                                setFormData({ email: '', name: '', lists: [] });
+                                                setFormData(EMPTY_SUBSCRIBER_FORM);
                                             }}
                                             className="text-slate hover:text-ink transition-colors"
                                         >
@@ -801,6 +1059,67 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                                 <p className="font-serif text-body text-slate italic">No lists available.</p>
                                             )}
                                         </div>
+
+                                        {mappableAudiences.length > 0 && (
+                                            <AudienceCheckboxes
+                                                audiences={mappableAudiences}
+                                                selected={formData.audiences}
+                                                onChange={(audiences) => setFormData({ ...formData, audiences })}
+                                            />
+                                        )}
+
+                                        <div>
+                                            <label className="block font-sans text-ui font-medium text-ink mb-1">Attributes</label>
+                                            <p className="font-sans text-caption text-slate mb-3">
+                                                Used by merge tags, e.g. <code>{'{{company|your team}}'}</code>. Keys are saved in snake_case.
+                                            </p>
+                                            <datalist id="subscriber-attribute-keys">
+                                                {knownAttributeKeys.map(key => (
+                                                    <option key={key} value={key} />
+                                                ))}
+                                            </datalist>
+                                            <div className="space-y-2">
+                                                {formData.attributes.map((row, index) => (
+                                                    <div key={index} className="flex gap-2">
+                                                        <input
+                                                            type="text"
+                                                            list="subscriber-attribute-keys"
+                                                            value={row.key}
+                                                            onChange={(e) => updateAttributeRow(index, 'key', e.target.value)}
+                                                            placeholder="company"
+                                                            className="w-2/5 bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink placeholder:text-silver focus:outline-none focus:border-ink"
+                                                        />
+                                                        <input
+                                                            type="text"
+                                                            value={row.value}
+                                                            onChange={(e) => updateAttributeRow(index, 'value', e.target.value)}
+                                                            placeholder="Acme Corp"
+                                                            className="flex-1 bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink placeholder:text-silver focus:outline-none focus:border-ink"
+                                                        />
+                                                        <button
+                                                            onClick={() => setFormData({
+                                                                ...formData,
+                                                                attributes: formData.attributes.filter((_, i) => i !== index)
+                                                            })}
+                                                            className="text-slate hover:text-editorial-red transition-colors"
+                                                            title="Remove attribute"
+                                                        >
+                                                            <XIcon className="h-4 w-4" />
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            <button
+                                                onClick={() => setFormData({
+                                                    ...formData,
+                                                    attributes: [...formData.attributes, { key: '', value: '' }]
+                                                })}
+                                                className="mt-2 flex items-center gap-1 font-sans text-ui text-slate hover:text-ink transition-colors"
+                                            >
+                                                <PlusIcon className="h-4 w-4" />
+                                                Add attribute
+                                            </button>
+                                        </div>
                                     </div>
 
                                     <div className="flex gap-3 mt-8">
@@ -808,7 +1127,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                             onClick={() => {
                                                 setIsAddSubscriberModalOpen(false);
                                                 setIsEditSubscriberModalOpen(false);
-                                                setFormData({ email: '', name: '', lists: [] });
+                                                setFormData(EMPTY_SUBSCRIBER_FORM);
                                             }}
                                             className="flex-1 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors"
                                         >
@@ -839,7 +1158,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                 onClick={() => {
                                     setIsAddListModalOpen(false);
                                     setIsEditListModalOpen(false);
-                                    setListFormData({ name: '', description: '' });
+                                    setListFormData(EMPTY_LIST_FORM);
                                 }}
                             >
                                 <motion.div
@@ -858,7 +1177,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                             onClick={() => {
                                                 setIsAddListModalOpen(false);
                                                 setIsEditListModalOpen(false);
-                                                setListFormData({ name: '', description: '' });
+                                                setListFormData(EMPTY_LIST_FORM);
                                             }}
                                             className="text-slate hover:text-ink transition-colors"
                                         >
@@ -890,6 +1209,14 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                                 className="w-full bg-pearl border border-border-subtle px-3 py-2 font-sans text-ui text-ink placeholder:text-silver focus:outline-none focus:border-ink"
                                             />
                                         </div>
+
+                                        {mappableAudiences.length > 0 && (
+                                            <AudienceCheckboxes
+                                                audiences={mappableAudiences}
+                                                selected={listFormData.audiences}
+                                                onChange={(audiences) => setListFormData({ ...listFormData, audiences })}
+                                            />
+                                        )}
                                     </div>
 
                                     <div className="flex gap-3 mt-8">
@@ -897,7 +1224,7 @@ export const SubscriberManagementPage: React.FC<SubscriberManagementPageProps> =
                                             onClick={() => {
                                                 setIsAddListModalOpen(false);
                                                 setIsEditListModalOpen(false);
-                                                setListFormData({ name: '', description: '' });
+                                                setListFormData(EMPTY_LIST_FORM);
                                             }}
                                             className="flex-1 border border-border-subtle px-4 py-2 font-sans text-ui text-ink hover:bg-pearl transition-colors"
                                         >
@@ -7,6 +7,7 @@
  * - Step 0: Writer Persona (selectable persona cards)
  * - Step 1: Select Tone (radio buttons)
  * - Step 2: Stylistic Flavors (checkboxes, optional)
+ * - Tone & flavor library editor (house tones/flavors, live preview)
  * - Step 3: Image Aesthetic (radio buttons with thumbnail previews)
  *
  * State sources:
@@ -21,6 +22,7 @@ import { motion } from 'framer-motion';
 import { ImageIcon, PlusIcon, SparklesIcon } from '../components/IconComponents';
 import { PersonaCard } from '../components/PersonaCard';
 import { PersonaABPreview } from '../components/PersonaABPreview';
+import { ToneLibraryEditor } from '../components/ToneLibraryEditor';
 import { Spinner } from '../components/Spinner';
 import { fadeInUp, staggerContainer, staggerItem } from '../utils/animations';
 import { useNewsletterSettings, useModals } from '../contexts';
@@ -68,6 +70,7 @@ export const ToneAndVisualsPage: React.FC = () => {
 
     // Phase 12.0: A/B Persona Preview modal state
     const [showABPreview, setShowABPreview] = useState(false);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
 
     // Sort personas: favorites first, then defaults, then alphabetically
     const sortedPersonas = [...personas].sort((a, b) => {
@@ -214,21 +217,25 @@ export const ToneAndVisualsPage: React.FC = () => {
                                 <p className={`font-sans text-caption ${selectedTone === key ? 'text-silver' : 'text-slate'}`}>
                                     {description}
                                 </p>
-                                {/* Phase 12.0: Inline sample output preview */}
-                                <div className={`mt-2 pt-2 border-t ${selectedTone === key ? 'border-silver/30' : 'border-border-subtle'}`}>
-                                    <p className={`font-serif text-caption italic ${selectedTone === key ? 'text-silver' : 'text-slate'}`}>
-                                        "{sampleOutput}"
-                                    </p>
-                                </div>
+                                {/* Phase 12.0: Inline sample output preview (house tones may have none) */}
+                                {sampleOutput && (
+                                    <div className={`mt-2 pt-2 border-t ${selectedTone === key ? 'border-silver/30' : 'border-border-subtle'}`}>
+                                        <p className={`font-serif text-caption italic ${selectedTone === key ? 'text-silver' : 'text-slate'}`}>
+                                            "{sampleOutput}"
+                                        </p>
+                                    </div>
+                                )}
                             </label>
                             {/* Tooltip */}
-                            <div className="absolute left-full ml-4 top-1/2 -translate-y-1/2 z-20 w-72 p-4 bg-ink text-paper shadow-editorial-modal opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none">
-                                <h4 className="font-sans text-caption font-semibold text-silver uppercase tracking-wide mb-2">
-                                    Sample Output
-                                </h4>
-                                <p className="font-serif text-ui italic leading-relaxed">"{sampleOutput}"</p>
-                                <div className="absolute left-0 top-1/2 -translate-x-full -translate-y-1/2 w-0 h-0 border-t-8 border-b-8 border-r-8 border-t-transparent border-b-transparent border-r-ink" />
-                            </div>
+                            {sampleOutput && (
+                                <div className="absolute left-full ml-4 top-1/2 -translate-y-1/2 z-20 w-72 p-4 bg-ink text-paper shadow-editorial-modal opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none">
+                                    <h4 className="font-sans text-caption font-semibold text-silver uppercase tracking-wide mb-2">
+                                        Sample Output
+                                    </h4>
+                                    <p className="font-serif text-ui italic leading-relaxed">"{sampleOutput}"</p>
+                                    <div className="absolute left-0 top-1/2 -translate-x-full -translate-y-1/2 w-0 h-0 border-t-8 border-b-8 border-r-8 border-t-transparent border-b-transparent border-r-ink" />
+                                </div>
+                            )}
                         </motion.div>
                     ))}
                 </motion.div>
@@ -279,6 +286,22 @@ export const ToneAndVisualsPage: React.FC = () => {
                 </motion.div>
             </section>
 
+            {/* Tone & flavor library (collapsed by default) */}
+            <div>
+                <button
+                    onClick={() => setIsLibraryOpen(open => !open)}
+                    className="flex items-center gap-2 font-sans text-ui text-slate hover:text-ink transition-colors"
+                >
+                    <PlusIcon className={`h-4 w-4 transition-transform ${isLibraryOpen ? 'rotate-45' : ''}`} />
+                    {isLibraryOpen ? 'Close tone & flavor library' : 'Manage tones & flavors'}
+                </button>
+                {isLibraryOpen && (
+                    <div className="mt-4">
+                        <ToneLibraryEditor />
+                    </div>
+                )}
+            </div>
+
             {/* Section 3: Image Aesthetic (with thumbnails) */}
             <section className="bg-paper border border-border-subtle p-8">
                 <div className="flex items-baseline gap-3 mb-4">
@@ -4,8 +4,15 @@ import dotenv from 'dotenv';
 
 // Control Plane imports - all 98 endpoints served via modular routes
 import apiRoutes from './server/routes/index.ts';
+import trackingRoutes from './server/routes/tracking.routes.ts';
+import unsubscribeRoutes from './server/routes/unsubscribe.routes.ts';
 import { contextMiddleware } from './server/control-plane/invocation/contextManager.ts';
 import * as logCleanupService from './server/services/logCleanupService.ts';
+import * as schedulerService from './server/services/schedulerService.ts';
+import * as sendQueueService from './server/services/sendQueueService.ts';
+import * as generationJobService from './server/services/generationJobService.ts';
+import * as knowledgeBaseRecrawlService from './server/services/knowledgeBaseRecrawlService.ts';
+import { getAdminEmail } from './server/services/credentialLoader.ts';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -21,23 +28,37 @@ app.use(contextMiddleware()); // Control Plane context (correlation IDs)
 // Mount Control Plane routes (all endpoints migrated to modular architecture)
 // See server/routes/index.ts for route aggregation:
 //   - generation.routes.ts (11 endpoints) - Claude AI newsletter generation
-//   - newsletter.routes.ts (8 endpoints) - Newsletter CRUD
+//   - newsletter.routes.ts (21 endpoints) - Newsletter CRUD, section rewrites, image batches, revisions
 //   - archive.routes.ts (5 endpoints) - Content archiving
-//   - subscriber.routes.ts (14 endpoints) - Subscriber/list management
+//   - subscriber.routes.ts (19 endpoints) - Subscriber/list management
+//   - segment.routes.ts (7 endpoints) - Rule-based subscriber segments
 //   - calendar.routes.ts (9 endpoints) - Content calendar
 //   - persona.routes.ts (9 endpoints) - Writer personas
+//   - tone.routes.ts (10 endpoints) - Writing tones and stylistic flavors
+//   - audience.routes.ts (9 endpoints) - Audience profiles and categories
 //   - template.routes.ts (7 endpoints) - Newsletter templates
 //   - draft.routes.ts (4 endpoints) - Auto-save drafts
 //   - prompt.routes.ts (4 endpoints) - Saved prompts library
 //   - thumbnail.routes.ts (4 endpoints) - Style thumbnails
 //   - apiKey.routes.ts (5 endpoints) - API key management
-//   - log.routes.ts (3 endpoints) - System logs
+//   - log.routes.ts (20 endpoints) - System logs, API cost reports & budgets
 //   - oauth.routes.ts (4 endpoints) - Google OAuth
 //   - drive.routes.ts (4 endpoints) - Google Drive
-//   - gmail.routes.ts (3 endpoints) - Gmail sending
+//   - gmail.routes.ts (5 endpoints) - Email sending and transport settings
+//   - scheduler.routes.ts (10 endpoints) - Scheduled sends
+//   - recurringSchedule.routes.ts (9 endpoints) - Recurring generate-and-send schedules
+//   - sendQueue.routes.ts (4 endpoints) - Per-recipient delivery state
+//   - generationJob.routes.ts (5 endpoints) - Background generation jobs
 //   - health.routes.ts (1 endpoint) - Health check
 app.use('/api', apiRoutes);
 
+// Public email tracking endpoints (open pixel, click redirects) - outside /api
+// so links embedded in sent emails stay short and stable
+app.use('/t', trackingRoutes);
+
+// Public unsubscribe page and RFC 8058 one-click endpoint - outside /api
+app.use('/u', unsubscribeRoutes);
+
 // ===================================================================
 // PRESET MANAGEMENT ENDPOINTS (not yet migrated to modular routes)
 // ===================================================================
@@ -252,4 +273,21 @@ app.listen(PORT, () => {
 
   // Initialize log cleanup service (runs cleanup on startup and every 6 hours)
   logCleanupService.initialize();
+
+  // Resume queued deliveries (re-queues recipients interrupted by a previous shutdown)
+  sendQueueService.startSendQueueWorker();
+
+  // Mark generation jobs cut off by a previous shutdown as interrupted (resumable)
+  generationJobService.initializeGenerationJobs();
+
+  // Re-crawl URL knowledge base documents whose daily/weekly re-crawl is due
+  knowledgeBaseRecrawlService.startRecrawlWorker();
+
+  // Start the scheduled-send worker (recovers sends interrupted by a previous shutdown)
+  const schedulerSender = process.env.SCHEDULER_SENDER_EMAIL || getAdminEmail();
+  if (schedulerSender) {
+    schedulerService.startScheduler(schedulerSender);
+  } else {
+    console.warn('[Scheduler] Not started - set SCHEDULER_SENDER_EMAIL or ADMIN_EMAIL to enable scheduled sends');
+  }
 });
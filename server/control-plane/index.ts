@@ -240,6 +240,9 @@ export {
   // Tool Definitions
   claudeTool,
   stabilityTool,
+  openAiCompatibleTool,
+  ragEmbeddingsTool,
+  geminiRagTool,
   braveSearchTool,
   googleOAuthTool,
   googleDriveTool,
@@ -258,6 +261,8 @@ export {
   arxivTool,
   githubTool,
   redditTool,
+  devToTool,
+  gdeltTool,
   allToolDefinitions,
   getToolDefinitionsByCategory,
   getToolDefinition,
@@ -344,6 +349,24 @@ export {
   type ToolExecutionContext,
   type ExpressRequest,
   type ExpressResponse,
+
+  // Tool Rate Limiter
+  acquireToolSlot,
+  withToolLimit,
+  fetchWithToolLimit,
+  isToolSaturated,
+  getToolRetryAfter,
+  getToolTier,
+  getToolLimits,
+  getToolLimiterStatus,
+  configureToolRateLimiter,
+  resetToolRateLimiterConfig,
+  getToolRateLimiterConfig,
+  clearToolRateLimiters,
+  ToolRateLimitError,
+  type ToolLimits,
+  type ToolLimiterStatus,
+  type ToolRateLimiterConfig,
 } from './invocation';
 
 // =============================================================================
@@ -390,6 +413,7 @@ export {
   errorRecoveryMiddleware,
   corsMiddleware,
   timeoutMiddleware,
+  toolRateLimitMiddleware,
   createApiChain,
   createCorsChain,
   type MiddlewareRequest,
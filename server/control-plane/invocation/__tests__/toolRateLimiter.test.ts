@@ -0,0 +1,217 @@
+/**
+ * toolRateLimiter Tests
+ *
+ * Tests the token bucket, concurrency limit, FIFO wait queue, queue refusals
+ * and limit validation
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../feedback/index.ts', () => ({
+  logger: { warn: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  acquireToolSlot,
+  withToolLimit,
+  configureToolRateLimiter,
+  resetToolRateLimiterConfig,
+  clearToolRateLimiters,
+  getToolRateLimiterConfig,
+  getToolLimiterStatus,
+  isToolSaturated,
+  ToolRateLimitError,
+  type ToolLimits,
+} from '../toolRateLimiter';
+
+const TOOL = 'test-tool';
+
+const limitTool = (limits: Partial<ToolLimits>) =>
+  configureToolRateLimiter({
+    tools: { [TOOL]: { requestsPerMinute: 6000, burst: 100, maxConcurrent: 10, maxQueueDepth: 10, ...limits } },
+  });
+
+/** Track a slot request without awaiting it */
+const track = (request: Promise<() => void>) => {
+  const state: { release?: () => void; error?: unknown } = {};
+  request.then(
+    (release) => { state.release = release; },
+    (error) => { state.error = error; }
+  );
+  return state;
+};
+
+describe('toolRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resetToolRateLimiterConfig();
+  });
+
+  afterEach(() => {
+    clearToolRateLimiters();
+    resetToolRateLimiterConfig();
+    vi.useRealTimers();
+  });
+
+  describe('token bucket', () => {
+    it('allows a burst, then one call per refilled token', async () => {
+      limitTool({ requestsPerMinute: 60, burst: 2 });
+
+      await acquireToolSlot(TOOL);
+      await acquireToolSlot(TOOL);
+      const third = track(acquireToolSlot(TOOL));
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(third.release).toBeUndefined();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(third.release).toBeTypeOf('function');
+    });
+
+    it('never holds more tokens than the burst', async () => {
+      limitTool({ requestsPerMinute: 60, burst: 1 });
+
+      await vi.advanceTimersByTimeAsync(60000);
+      await acquireToolSlot(TOOL);
+      const second = track(acquireToolSlot(TOOL));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(second.release).toBeUndefined();
+      expect(getToolLimiterStatus().tools[TOOL]).toMatchObject({ queued: 1, tokens: 0 });
+    });
+  });
+
+  describe('concurrency', () => {
+    it('holds calls until a slot is released', async () => {
+      limitTool({ maxConcurrent: 1 });
+
+      const release = await acquireToolSlot(TOOL);
+      const second = track(acquireToolSlot(TOOL));
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(second.release).toBeUndefined();
+
+      release();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(second.release).toBeTypeOf('function');
+      expect(getToolLimiterStatus().tools[TOOL]).toMatchObject({ active: 1, queued: 0 });
+    });
+
+    it('ignores a second call to the same release function', async () => {
+      limitTool({ maxConcurrent: 2 });
+
+      const release = await acquireToolSlot(TOOL);
+      await acquireToolSlot(TOOL);
+      release();
+      release();
+
+      expect(getToolLimiterStatus().tools[TOOL].active).toBe(1);
+    });
+
+    it('releases the slot when the wrapped call fails', async () => {
+      limitTool({ maxConcurrent: 1 });
+
+      await expect(withToolLimit(TOOL, () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+      await expect(withToolLimit(TOOL, () => Promise.resolve('ok'))).resolves.toBe('ok');
+      expect(getToolLimiterStatus().tools[TOOL].active).toBe(0);
+    });
+  });
+
+  describe('wait queue', () => {
+    it('grants waiting callers in arrival order', async () => {
+      limitTool({ maxConcurrent: 1 });
+      const order: number[] = [];
+
+      const first = await acquireToolSlot(TOOL);
+      const waiting = [1, 2, 3].map(n => acquireToolSlot(TOOL).then((release) => {
+        order.push(n);
+        release();
+      }));
+
+      first();
+      await Promise.all(waiting);
+      expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('refuses new calls once the queue is full', async () => {
+      limitTool({ maxConcurrent: 1, maxQueueDepth: 1 });
+
+      await acquireToolSlot(TOOL);
+      const queued = track(acquireToolSlot(TOOL));
+      const refused = acquireToolSlot(TOOL);
+
+      await expect(refused).rejects.toBeInstanceOf(ToolRateLimitError);
+      await expect(refused).rejects.toMatchObject({ reason: 'queue_full', toolId: TOOL });
+      expect(isToolSaturated(TOOL)).toBe(true);
+      expect(queued.error).toBeUndefined();
+      expect(getToolLimiterStatus().tools[TOOL].rejected).toBe(1);
+    });
+
+    it('times out callers that wait longer than maxQueueWaitMs', async () => {
+      limitTool({ maxConcurrent: 1 });
+      configureToolRateLimiter({ maxQueueWaitMs: 1000 });
+
+      await acquireToolSlot(TOOL);
+      const waiting = track(acquireToolSlot(TOOL));
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(waiting.error).toBeUndefined();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(waiting.error).toBeInstanceOf(ToolRateLimitError);
+      expect(waiting.error).toMatchObject({ reason: 'queue_timeout' });
+      expect(getToolLimiterStatus().tools[TOOL]).toMatchObject({ queued: 0, rejected: 1 });
+    });
+
+    it('lets queued callers through when limits are disabled', async () => {
+      limitTool({ maxConcurrent: 1 });
+
+      await acquireToolSlot(TOOL);
+      const waiting = track(acquireToolSlot(TOOL));
+      configureToolRateLimiter({ enabled: false });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(waiting.release).toBeTypeOf('function');
+    });
+  });
+
+  describe('configuration', () => {
+    it.each([
+      ['a zero rate', { tools: { [TOOL]: { requestsPerMinute: 0 } } }],
+      ['a negative rate', { tiers: { low: { requestsPerMinute: -5 } } }],
+      ['an infinite rate', { tools: { [TOOL]: { requestsPerMinute: Infinity } } }],
+      ['a NaN limit', { tools: { [TOOL]: { maxQueueDepth: NaN } } }],
+      ['a burst below one', { tools: { [TOOL]: { burst: 0.5 } } }],
+      ['no concurrent calls', { tools: { [TOOL]: { maxConcurrent: 0 } } }],
+      ['a zero queue wait', { maxQueueWaitMs: 0 }],
+    ])('rejects %s and keeps the current config', (_label, options) => {
+      const before = getToolRateLimiterConfig();
+
+      expect(() => configureToolRateLimiter(options as Parameters<typeof configureToolRateLimiter>[0]))
+        .toThrow(RangeError);
+      expect(getToolRateLimiterConfig()).toBe(before);
+    });
+
+    it('ignores TOOL_RATE_LIMITS with invalid limits', async () => {
+      process.env.TOOL_RATE_LIMITS = JSON.stringify({ tools: { [TOOL]: { requestsPerMinute: 0 } } });
+      vi.resetModules();
+      try {
+        const fresh = await import('../toolRateLimiter');
+        expect(fresh.getToolRateLimiterConfig().tools).toEqual({});
+      } finally {
+        delete process.env.TOOL_RATE_LIMITS;
+      }
+    });
+
+    it('applies valid TOOL_RATE_LIMITS', async () => {
+      process.env.TOOL_RATE_LIMITS = JSON.stringify({ tools: { [TOOL]: { requestsPerMinute: 30 } } });
+      vi.resetModules();
+      try {
+        const fresh = await import('../toolRateLimiter');
+        expect(fresh.getToolLimits(TOOL)?.requestsPerMinute).toBe(30);
+      } finally {
+        delete process.env.TOOL_RATE_LIMITS;
+      }
+    });
+  });
+});
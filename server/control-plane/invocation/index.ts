@@ -62,3 +62,23 @@ export {
   type ExpressRequest,
   type ExpressResponse,
 } from './requestProcessor.ts';
+
+// Tool Rate Limiter
+export {
+  acquireToolSlot,
+  withToolLimit,
+  fetchWithToolLimit,
+  isToolSaturated,
+  getToolRetryAfter,
+  getToolTier,
+  getToolLimits,
+  getToolLimiterStatus,
+  configureToolRateLimiter,
+  resetToolRateLimiterConfig,
+  getToolRateLimiterConfig,
+  clearToolRateLimiters,
+  ToolRateLimitError,
+  type ToolLimits,
+  type ToolLimiterStatus,
+  type ToolRateLimiterConfig,
+} from './toolRateLimiter.ts';
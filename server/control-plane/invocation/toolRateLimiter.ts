@@ -0,0 +1,502 @@
+/**
+ * Tool Rate Limiter
+ *
+ * Enforces each tool's rate limit tier (toolDefinitions.ts) on outbound calls,
+ * so bursts of generation agents queue up instead of hammering Claude, Brave,
+ * Stability or the source APIs at once.
+ *
+ * ## Purpose
+ * - Token bucket per tool ID (requests per minute, with a burst allowance)
+ * - Concurrency semaphore per tool ID (calls in flight)
+ * - FIFO wait queue: callers wait for a token and a free slot, and fail with
+ *   ToolRateLimitError once the queue is full or they have waited too long
+ * - Queue depth for /api/health and the tool rate limit middleware
+ *
+ * ## Configuration
+ * Limits come from the tool's tier; per-tool overrides win over the tier.
+ * Set them with configureToolRateLimiter(), or at startup with the
+ * TOOL_RATE_LIMITS environment variable (JSON, same shape as the config):
+ * ```
+ * TOOL_RATE_LIMITS='{"tools":{"brave-search":{"requestsPerMinute":60,"maxConcurrent":1}}}'
+ * ```
+ * Limits must be positive finite numbers (burst and maxConcurrent at least 1):
+ * configureToolRateLimiter() throws on others, and an invalid TOOL_RATE_LIMITS
+ * is ignored with a warning.
+ *
+ * ## Usage
+ * ```typescript
+ * import { withToolLimit, fetchWithToolLimit } from './toolRateLimiter';
+ *
+ * const message = await withToolLimit('claude', () => client.messages.create(body));
+ * const response = await fetchWithToolLimit('source-reddit', url, { headers });
+ * ```
+ *
+ * @module control-plane/invocation/toolRateLimiter
+ */
+
+import type { RateLimitTier } from '../types/index.ts';
+import { logger } from '../feedback/index.ts';
+import { getToolDefinition } from '../registration/toolDefinitions.ts';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Limits applied to one tool
+ */
+export interface ToolLimits {
+  /** Sustained request rate (token bucket refill) */
+  requestsPerMinute: number;
+  /** Requests allowed back to back before the sustained rate applies (bucket size) */
+  burst: number;
+  /** Calls in flight at once */
+  maxConcurrent: number;
+  /** Callers allowed to wait before new calls are refused */
+  maxQueueDepth: number;
+}
+
+/**
+ * Tool rate limiter configuration
+ */
+export interface ToolRateLimiterConfig {
+  /** Whether limits are enforced */
+  enabled: boolean;
+  /** Limits per tier ('unlimited' tools are never limited) */
+  tiers: Record<Exclude<RateLimitTier, 'unlimited'>, ToolLimits>;
+  /** Per-tool overrides, keyed by tool ID */
+  tools: Record<string, Partial<ToolLimits>>;
+  /** Longest a caller waits in the queue (ms) */
+  maxQueueWaitMs: number;
+  /** Tier of tools missing from the tool definitions */
+  defaultTier: RateLimitTier;
+}
+
+const DEFAULT_CONFIG: ToolRateLimiterConfig = {
+  enabled: true,
+  tiers: {
+    low: { requestsPerMinute: 120, burst: 60, maxConcurrent: 3, maxQueueDepth: 200 },
+    medium: { requestsPerMinute: 300, burst: 60, maxConcurrent: 6, maxQueueDepth: 200 },
+    high: { requestsPerMinute: 600, burst: 120, maxConcurrent: 12, maxQueueDepth: 400 },
+  },
+  tools: {},
+  maxQueueWaitMs: 120000, // 2 minutes
+  defaultTier: 'medium',
+};
+
+/**
+ * Merge partial config into a base config (tiers and tools merge per entry)
+ */
+function mergeConfig(
+  base: ToolRateLimiterConfig,
+  options: Partial<ToolRateLimiterConfig>
+): ToolRateLimiterConfig {
+  const tiers = { ...base.tiers };
+  for (const [tier, limits] of Object.entries(options.tiers || {})) {
+    const key = tier as keyof ToolRateLimiterConfig['tiers'];
+    if (tiers[key]) tiers[key] = { ...tiers[key], ...limits };
+  }
+
+  const tools = { ...base.tools };
+  for (const [toolId, limits] of Object.entries(options.tools || {})) {
+    tools[toolId] = { ...tools[toolId], ...limits };
+  }
+
+  return { ...base, ...options, tiers, tools };
+}
+
+/** Limits that must allow at least one call (a smaller bucket or slot count never grants) */
+const MIN_ONE_LIMITS: ReadonlySet<keyof ToolLimits> = new Set(['burst', 'maxConcurrent']);
+
+/**
+ * Describe the first limit that isn't a positive finite number, or null if all are valid
+ * A rate of 0 would make the drain loop wait Infinity ms, which setTimeout runs as 1ms.
+ */
+function findInvalidLimit(candidate: ToolRateLimiterConfig): string | null {
+  const isValid = (key: string, value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 &&
+    (!MIN_ONE_LIMITS.has(key as keyof ToolLimits) || value >= 1);
+
+  if (!isValid('maxQueueWaitMs', candidate.maxQueueWaitMs)) {
+    return `maxQueueWaitMs must be a positive number (got ${candidate.maxQueueWaitMs})`;
+  }
+
+  const entries = [
+    ...Object.entries(candidate.tiers).map(([tier, limits]) => [`tiers.${tier}`, limits] as const),
+    ...Object.entries(candidate.tools).map(([toolId, limits]) => [`tools.${toolId}`, limits] as const),
+  ];
+  for (const [path, limits] of entries) {
+    for (const [key, value] of Object.entries(limits || {})) {
+      if (!isValid(key, value)) {
+        const minimum = MIN_ONE_LIMITS.has(key as keyof ToolLimits) ? 'at least 1' : 'a positive number';
+        return `${path}.${key} must be ${minimum} (got ${JSON.stringify(value)})`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Config from the TOOL_RATE_LIMITS environment variable, if set
+ */
+function loadEnvConfig(): ToolRateLimiterConfig {
+  const raw = process.env.TOOL_RATE_LIMITS?.trim();
+  if (!raw) return { ...DEFAULT_CONFIG };
+
+  try {
+    const merged = mergeConfig(DEFAULT_CONFIG, JSON.parse(raw) as Partial<ToolRateLimiterConfig>);
+    const problem = findInvalidLimit(merged);
+    if (problem) throw new Error(problem);
+    return merged;
+  } catch (error) {
+    logger.warn('toolRateLimiter', 'invalid_config', 'Ignoring invalid TOOL_RATE_LIMITS', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
+let config: ToolRateLimiterConfig = loadEnvConfig();
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Thrown when a call is refused (queue full) or waited longer than maxQueueWaitMs
+ */
+export class ToolRateLimitError extends Error {
+  constructor(
+    public readonly toolId: string,
+    public readonly reason: 'queue_full' | 'queue_timeout',
+    public readonly retryAfterSeconds: number
+  ) {
+    super(
+      reason === 'queue_full'
+        ? `Rate limit queue for ${toolId} is full`
+        : `Timed out waiting for the ${toolId} rate limit`
+    );
+    this.name = 'ToolRateLimitError';
+  }
+}
+
+// =============================================================================
+// LIMITER STATE
+// =============================================================================
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface LimiterState {
+  toolId: string;
+  tier: RateLimitTier;
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  queue: Waiter[];
+  /** Timer that wakes the queue when the next token is due */
+  refillTimer: ReturnType<typeof setTimeout> | null;
+  /** Calls refused or timed out since startup */
+  rejected: number;
+}
+
+const limiters = new Map<string, LimiterState>();
+
+/**
+ * The tier a tool is limited by
+ */
+export function getToolTier(toolId: string): RateLimitTier {
+  return getToolDefinition(toolId)?.rateLimitTier || config.defaultTier;
+}
+
+/**
+ * The limits applied to a tool, or null if it isn't limited
+ *
+ * @param tier - Tier to apply instead of the tool definition's (e.g. a route's)
+ */
+export function getToolLimits(toolId: string, tier: RateLimitTier = getToolTier(toolId)): ToolLimits | null {
+  if (!config.enabled) return null;
+
+  if (tier === 'unlimited' && !config.tools[toolId]) return null;
+
+  // An override on an unlimited tool fills in its other limits from the high tier
+  const tierLimits = tier === 'unlimited' ? config.tiers.high : config.tiers[tier];
+  return { ...tierLimits, ...config.tools[toolId] };
+}
+
+function getState(toolId: string, tier: RateLimitTier, limits: ToolLimits): LimiterState {
+  let state = limiters.get(toolId);
+  if (!state) {
+    state = {
+      toolId,
+      tier,
+      tokens: limits.burst,
+      lastRefill: Date.now(),
+      active: 0,
+      queue: [],
+      refillTimer: null,
+      rejected: 0,
+    };
+    limiters.set(toolId, state);
+  }
+  return state;
+}
+
+/**
+ * Add the tokens earned since the last refill
+ */
+function refill(state: LimiterState, limits: ToolLimits): void {
+  const now = Date.now();
+  const earned = ((now - state.lastRefill) / 60000) * limits.requestsPerMinute;
+  state.tokens = Math.min(limits.burst, state.tokens + earned);
+  state.lastRefill = now;
+}
+
+/**
+ * Hand tokens and free slots to waiting callers, oldest first
+ */
+function drain(state: LimiterState): void {
+  const limits = getToolLimits(state.toolId, state.tier);
+
+  // Limits were lifted (disabled or reconfigured) - let everyone through
+  if (!limits) {
+    while (state.queue.length > 0) grant(state, state.queue.shift()!);
+    return;
+  }
+
+  refill(state, limits);
+
+  while (state.queue.length > 0 && state.active < limits.maxConcurrent && state.tokens >= 1) {
+    state.tokens -= 1;
+    grant(state, state.queue.shift()!);
+  }
+
+  // Waiting on a token (not a slot): wake up when the next one is due
+  if (state.queue.length > 0 && state.active < limits.maxConcurrent && !state.refillTimer) {
+    const waitMs = Math.ceil(((1 - state.tokens) / limits.requestsPerMinute) * 60000);
+    state.refillTimer = setTimeout(() => {
+      state.refillTimer = null;
+      drain(state);
+    }, Math.max(waitMs, 1));
+  }
+}
+
+function grant(state: LimiterState, waiter: Waiter): void {
+  clearTimeout(waiter.timer);
+  state.active++;
+  waiter.resolve(createRelease(state));
+}
+
+function createRelease(state: LimiterState): () => void {
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    state.active = Math.max(0, state.active - 1);
+    drain(state);
+  };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Wait for a token and a free slot for a tool
+ *
+ * @param tier - Tier to apply instead of the tool definition's (e.g. a route's)
+ * @returns Release function; call it when the call has finished
+ * @throws {ToolRateLimitError} If the queue is full or the wait times out
+ */
+export async function acquireToolSlot(
+  toolId: string,
+  tier: RateLimitTier = getToolTier(toolId)
+): Promise<() => void> {
+  const limits = getToolLimits(toolId, tier);
+  if (!limits) return () => {};
+
+  const state = getState(toolId, tier, limits);
+  refill(state, limits);
+
+  // Fast path: nobody waiting, a token and a slot are free
+  if (state.queue.length === 0 && state.active < limits.maxConcurrent && state.tokens >= 1) {
+    state.tokens -= 1;
+    state.active++;
+    return createRelease(state);
+  }
+
+  if (state.queue.length >= limits.maxQueueDepth) {
+    state.rejected++;
+    logger.warn('toolRateLimiter', 'queue_full', `Rate limit queue full for ${toolId}`, {
+      tool: toolId,
+      queueDepth: state.queue.length,
+    });
+    throw new ToolRateLimitError(toolId, 'queue_full', estimateWaitSeconds(state, limits));
+  }
+
+  return new Promise<() => void>((resolve, reject) => {
+    const waiter: Waiter = {
+      resolve,
+      reject,
+      timer: setTimeout(() => {
+        const index = state.queue.indexOf(waiter);
+        if (index === -1) return;
+        state.queue.splice(index, 1);
+        state.rejected++;
+        logger.warn('toolRateLimiter', 'queue_timeout', `Timed out waiting for ${toolId} rate limit`, {
+          tool: toolId,
+          waitedMs: config.maxQueueWaitMs,
+        });
+        reject(new ToolRateLimitError(toolId, 'queue_timeout', estimateWaitSeconds(state, limits)));
+      }, config.maxQueueWaitMs),
+    };
+
+    state.queue.push(waiter);
+    if (state.queue.length === 1 || state.queue.length % 10 === 0) {
+      logger.debug('toolRateLimiter', 'queued', `Queued call to ${toolId}`, {
+        tool: toolId,
+        queueDepth: state.queue.length,
+        active: state.active,
+      });
+    }
+    drain(state);
+  });
+}
+
+/**
+ * Run a call under a tool's rate limit and concurrency limit
+ *
+ * @throws {ToolRateLimitError} If the call can't get a slot
+ */
+export async function withToolLimit<T>(toolId: string, fn: () => Promise<T>): Promise<T> {
+  const release = await acquireToolSlot(toolId);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+/**
+ * fetch() under a tool's limits (the slot is held until the response headers arrive)
+ */
+export function fetchWithToolLimit(
+  toolId: string,
+  input: string | URL,
+  init?: RequestInit
+): Promise<Response> {
+  return withToolLimit(toolId, () => fetch(input, init));
+}
+
+/**
+ * Seconds until a queued caller would likely get through
+ */
+function estimateWaitSeconds(state: LimiterState, limits: ToolLimits): number {
+  const perRequestMs = 60000 / limits.requestsPerMinute;
+  return Math.max(1, Math.ceil(((state.queue.length + 1) * perRequestMs) / 1000));
+}
+
+/**
+ * Whether new calls to a tool would be refused (its queue is full)
+ */
+export function isToolSaturated(toolId: string): boolean {
+  const state = limiters.get(toolId);
+  const limits = state ? getToolLimits(toolId, state.tier) : null;
+  return !!limits && !!state && state.queue.length >= limits.maxQueueDepth;
+}
+
+/**
+ * Seconds a new call to a tool would likely wait
+ */
+export function getToolRetryAfter(toolId: string): number {
+  const state = limiters.get(toolId);
+  const limits = state ? getToolLimits(toolId, state.tier) : null;
+  return limits && state ? estimateWaitSeconds(state, limits) : 0;
+}
+
+/**
+ * Per-tool limiter status
+ */
+export interface ToolLimiterStatus {
+  tier: RateLimitTier;
+  active: number;
+  queued: number;
+  tokens: number;
+  rejected: number;
+  limits: ToolLimits | null;
+}
+
+/**
+ * Limiter status: total queue depth and the tools that have been called
+ */
+export function getToolLimiterStatus(): {
+  enabled: boolean;
+  queueDepth: number;
+  tools: Record<string, ToolLimiterStatus>;
+} {
+  const tools: Record<string, ToolLimiterStatus> = {};
+  let queueDepth = 0;
+
+  for (const state of limiters.values()) {
+    const limits = getToolLimits(state.toolId, state.tier);
+    if (limits) refill(state, limits);
+    queueDepth += state.queue.length;
+    tools[state.toolId] = {
+      tier: state.tier,
+      active: state.active,
+      queued: state.queue.length,
+      tokens: Math.floor(state.tokens),
+      rejected: state.rejected,
+      limits,
+    };
+  }
+
+  return { enabled: config.enabled, queueDepth, tools };
+}
+
+/**
+ * Configure the limiter (tiers and tools merge per entry)
+ *
+ * @throws {RangeError} If a limit isn't a positive finite number
+ */
+export function configureToolRateLimiter(options: Partial<ToolRateLimiterConfig>): void {
+  const merged = mergeConfig(config, options);
+  const problem = findInvalidLimit(merged);
+  if (problem) throw new RangeError(`Invalid tool rate limit config: ${problem}`);
+
+  config = merged;
+  for (const state of limiters.values()) drain(state);
+}
+
+/**
+ * Reset limiter configuration to defaults (ignores TOOL_RATE_LIMITS)
+ */
+export function resetToolRateLimiterConfig(): void {
+  config = { ...DEFAULT_CONFIG };
+  for (const state of limiters.values()) drain(state);
+}
+
+/**
+ * Get the current limiter configuration
+ */
+export function getToolRateLimiterConfig(): ToolRateLimiterConfig {
+  return config;
+}
+
+/**
+ * Clear all limiter state, refusing queued callers (for testing)
+ */
+export function clearToolRateLimiters(): void {
+  for (const state of limiters.values()) {
+    if (state.refillTimer) clearTimeout(state.refillTimer);
+    for (const waiter of state.queue) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new ToolRateLimitError(state.toolId, 'queue_full', 1));
+    }
+  }
+  limiters.clear();
+}
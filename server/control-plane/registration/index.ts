@@ -35,6 +35,9 @@ export {
   // AI Tools
   claudeTool,
   stabilityTool,
+  openAiCompatibleTool,
+  ragEmbeddingsTool,
+  geminiRagTool,
   // Search Tools
   braveSearchTool,
   // Google Tools
@@ -57,6 +60,8 @@ export {
   arxivTool,
   githubTool,
   redditTool,
+  devToTool,
+  gdeltTool,
   // Collections
   allToolDefinitions,
   getToolDefinitionsByCategory,
@@ -5,7 +5,7 @@
  * These definitions are used by the Tool Registry.
  *
  * ## Tool Categories
- * - **ai**: AI/ML services (Claude, Stability AI)
+ * - **ai**: AI/ML services (Claude, Stability AI, OpenAI-compatible models, Gemini)
  * - **search**: Search services (Brave Search)
  * - **storage**: File storage (Google Drive)
  * - **email**: Email services (Gmail)
@@ -75,6 +75,56 @@ export const stabilityTool: Tool = {
   },
 };
 
+/**
+ * OpenAI-compatible model server tool definition
+ */
+export const openAiCompatibleTool: Tool = {
+  id: 'llm-openai-compatible',
+  name: 'OpenAI-Compatible Models',
+  description: 'Self-hosted or third-party chat models behind an OpenAI-compatible API (Ollama, vLLM, LM Studio)',
+  category: 'ai',
+  rateLimitTier: 'low',
+  requiresAuth: false,
+  metadata: {
+    provider: 'openai-compatible',
+    capabilities: ['text-generation'],
+  },
+};
+
+/**
+ * Knowledge base embeddings tool definition
+ */
+export const ragEmbeddingsTool: Tool = {
+  id: 'rag-embeddings',
+  name: 'Knowledge Base Embeddings',
+  description: 'OpenAI-compatible /embeddings endpoint for the local knowledge base hybrid search',
+  category: 'ai',
+  rateLimitTier: 'medium',
+  requiresAuth: false,
+  metadata: {
+    provider: 'openai-compatible',
+    capabilities: ['embeddings'],
+  },
+};
+
+/**
+ * Gemini File Search tool definition
+ */
+export const geminiRagTool: Tool = {
+  id: 'gemini-rag',
+  name: 'Gemini File Search',
+  description: 'Google Gemini answers grounded on the knowledge base File Search store',
+  category: 'ai',
+  rateLimitTier: 'medium',
+  requiresAuth: true,
+  authType: 'api_key',
+  metadata: {
+    provider: 'google',
+    models: ['gemini-2.5-flash'],
+    capabilities: ['grounded-chat', 'knowledge-base-search'],
+  },
+};
+
 // =============================================================================
 // SEARCH TOOLS
 // =============================================================================
@@ -419,6 +469,40 @@ export const redditTool: Tool = {
   },
 };
 
+/**
+ * Dev.to source tool definition
+ */
+export const devToTool: Tool = {
+  id: 'source-devto',
+  name: 'Dev.to',
+  description: 'Fetch top AI articles from Dev.to',
+  category: 'search',
+  rateLimitTier: 'low',
+  requiresAuth: false,
+  metadata: {
+    provider: 'devto',
+    apiUrl: 'https://dev.to/api/articles',
+    capabilities: ['top-articles'],
+  },
+};
+
+/**
+ * GDELT source tool definition
+ */
+export const gdeltTool: Tool = {
+  id: 'source-gdelt',
+  name: 'GDELT',
+  description: 'Fetch recent news articles from the GDELT project',
+  category: 'search',
+  rateLimitTier: 'low',
+  requiresAuth: false,
+  metadata: {
+    provider: 'gdelt',
+    apiUrl: 'https://api.gdeltproject.org/api/v2/doc/doc',
+    capabilities: ['news-search'],
+  },
+};
+
 // =============================================================================
 // ALL TOOLS ARRAY
 // =============================================================================
@@ -430,6 +514,9 @@ export const allToolDefinitions: Tool[] = [
   // AI
   claudeTool,
   stabilityTool,
+  openAiCompatibleTool,
+  ragEmbeddingsTool,
+  geminiRagTool,
   // Search
   braveSearchTool,
   // Google
@@ -452,6 +539,8 @@ export const allToolDefinitions: Tool[] = [
   arxivTool,
   githubTool,
   redditTool,
+  devToTool,
+  gdeltTool,
 ];
 
 /**
@@ -48,6 +48,7 @@ export {
   errorRecoveryMiddleware,
   corsMiddleware,
   timeoutMiddleware,
+  toolRateLimitMiddleware,
   createApiChain,
   createCorsChain,
   type MiddlewareRequest,
@@ -18,7 +18,7 @@
  *   .use(contextMiddleware)
  *   .use(authMiddleware, { when: (req) => req.intent?.authRequired })
  *   .use(validationMiddleware)
- *   .use(rateLimitMiddleware);
+ *   .use(toolRateLimitMiddleware);
  *
  * // Apply to Express
  * app.use(chain.handler());
@@ -31,6 +31,9 @@ import type { RequestContext } from '../types';
 import { logger, tracer } from '../feedback';
 import { getContext, getCorrelationId } from '../invocation/contextManager';
 import { ErrorCodes, sendError } from '../invocation/responseBuilder';
+import { acquireToolSlot, getToolRetryAfter, isToolSaturated, ToolRateLimitError } from '../invocation/toolRateLimiter';
+import { classifyIntent } from '../resolver/intentClassifier';
+import { matchRoute, type HttpMethod } from './routeRegistry';
 
 // =============================================================================
 // TYPES
@@ -572,6 +575,78 @@ export function timeoutMiddleware(ms: number): Middleware {
   };
 }
 
+/**
+ * Tool rate limit middleware
+ *
+ * - Refuses a request (429 with Retry-After) when the rate limit queue of a
+ *   tool it needs is already full; calls that do go ahead wait their turn in
+ *   the outbound limiter
+ * - Applies a registered route's rateLimitTier to the route itself, holding a
+ *   slot until the response is sent
+ *
+ * Tools come from req.intent, or are classified from the method and path.
+ */
+export const toolRateLimitMiddleware = createMiddleware(
+  async (req, res, next) => {
+    const correlationId = req.context?.correlationId || getCorrelationId();
+    const method = (req.method || 'GET').toUpperCase();
+    const path = req.path || req.url || '/';
+
+    const refuse = (key: string, retryAfter: number) => {
+      logger.warn('toolRateLimit', 'rate_limited', `Rate limit queue full for ${key}`, {
+        correlationId,
+        key,
+        path,
+      });
+      res.setHeader('Retry-After', String(retryAfter));
+      sendError(res, `Too many requests for ${key}. Try again in ${retryAfter}s.`, ErrorCodes.RATE_LIMITED, correlationId, {
+        tool: key,
+        retryAfter,
+      });
+    };
+
+    const tools = req.intent?.tools ?? classifyIntent(method, path)?.tools ?? [];
+    const saturated = tools.find((tool) => isToolSaturated(tool));
+    if (saturated) {
+      return refuse(saturated, getToolRetryAfter(saturated));
+    }
+
+    const match = matchRoute(method as HttpMethod, path);
+    if (!match?.route.rateLimitTier) {
+      return next();
+    }
+
+    const key = `route:${match.route.id}`;
+    let release: () => void;
+    try {
+      release = await acquireToolSlot(key, match.route.rateLimitTier);
+    } catch (error) {
+      if (error instanceof ToolRateLimitError) {
+        return refuse(key, error.retryAfterSeconds);
+      }
+      throw error;
+    }
+
+    // Release the slot when the response is sent (or the client goes away)
+    const originalJson = res.json.bind(res);
+    const originalSend = res.send.bind(res);
+    res.json = (data: unknown) => {
+      release();
+      return originalJson(data);
+    };
+    res.send = (data: unknown) => {
+      release();
+      return originalSend(data);
+    };
+    if (typeof res.on === 'function') {
+      (res.on as (event: string, listener: () => void) => void)('close', release);
+    }
+
+    next();
+  },
+  { name: 'toolRateLimit' }
+);
+
 // =============================================================================
 // CHAIN FACTORIES
 // =============================================================================
@@ -582,6 +657,7 @@ export function timeoutMiddleware(ms: number): Middleware {
 export function createApiChain(): MiddlewareChain {
   return new MiddlewareChain()
     .use(requestLoggerMiddleware)
+    .use(toolRateLimitMiddleware)
     .onError(errorRecoveryMiddleware);
 }
 
@@ -67,6 +67,47 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_logs_newsletter
     ON newsletter_logs(newsletter_id);
 
+  -- Inputs each enhanced audience section was written from (for section rewrites)
+  CREATE TABLE IF NOT EXISTS newsletter_section_inputs (
+    newsletter_id TEXT NOT NULL,
+    audience_id TEXT NOT NULL,
+    input TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (newsletter_id, audience_id),
+    FOREIGN KEY (newsletter_id) REFERENCES newsletters(id)
+  );
+
+  -- Newsletter revisions (immutable snapshot of the newsletter after each save)
+  CREATE TABLE IF NOT EXISTS newsletter_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    newsletter_id TEXT NOT NULL,
+    revision_number INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    author TEXT NOT NULL,
+    snapshot TEXT NOT NULL,
+    restored_from INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (newsletter_id, revision_number),
+    FOREIGN KEY (newsletter_id) REFERENCES newsletters(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_newsletter_revisions_newsletter
+    ON newsletter_revisions(newsletter_id, revision_number DESC);
+
+  CREATE TRIGGER IF NOT EXISTS newsletter_revisions_immutable
+    BEFORE UPDATE ON newsletter_revisions
+  BEGIN
+    SELECT RAISE(ABORT, 'newsletter revisions are immutable');
+  END;
+
+  -- Images referenced by revision snapshots, stored once per newsletter
+  CREATE TABLE IF NOT EXISTS newsletter_revision_images (
+    newsletter_id TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (newsletter_id, hash)
+  );
+
   -- Subscribers table
   CREATE TABLE IF NOT EXISTS subscribers (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -93,6 +134,16 @@ db.exec(`
     subscriber_count INTEGER DEFAULT 0
   );
 
+  -- Subscriber segments table - saved rule sets evaluated at send time
+  CREATE TABLE IF NOT EXISTS subscriber_segments (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    definition TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
   -- API Keys table
   CREATE TABLE IF NOT EXISTS api_keys (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -188,6 +239,33 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_personas_default
     ON writer_personas(is_default);
 
+  -- Writing tones (built-ins seeded read-only; user-defined tones editable)
+  CREATE TABLE IF NOT EXISTS writing_tones (
+    id TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    sample_output TEXT NOT NULL DEFAULT '',
+    sentence_construction TEXT NOT NULL DEFAULT '[]',
+    words_to_use TEXT NOT NULL DEFAULT '[]',
+    words_to_avoid TEXT NOT NULL DEFAULT '[]',
+    punctuation_style TEXT NOT NULL DEFAULT '',
+    is_builtin INTEGER DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  -- Writing flavors (stylistic add-ons; built-ins seeded read-only)
+  CREATE TABLE IF NOT EXISTS writing_flavors (
+    id TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    instruction TEXT NOT NULL,
+    formatting_rules TEXT,
+    is_builtin INTEGER DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
   -- Custom Audiences table
   CREATE TABLE IF NOT EXISTS custom_audiences (
     id TEXT PRIMARY KEY,
@@ -206,6 +284,16 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_audiences_default
     ON custom_audiences(is_default);
 
+  -- Audience Categories table (parent grouping for audiences)
+  CREATE TABLE IF NOT EXISTS audience_categories (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_builtin INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
   -- Newsletter Templates table
   CREATE TABLE IF NOT EXISTS newsletter_templates (
     id TEXT PRIMARY KEY,
@@ -271,6 +359,40 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_scheduled_time
     ON scheduled_sends(scheduled_at);
 
+  -- Recurring Schedules table - cron expression plus a V4 generation recipe
+  CREATE TABLE IF NOT EXISTS recurring_schedules (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    cron_expression TEXT NOT NULL,
+    timezone TEXT,
+    recipe TEXT NOT NULL,
+    recipient_lists TEXT NOT NULL,
+    hold_for_approval INTEGER DEFAULT 0,
+    enabled INTEGER DEFAULT 1,
+    last_run_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  -- Recurring Schedule Runs table - one row per generation run and its outcome
+  CREATE TABLE IF NOT EXISTS recurring_schedule_runs (
+    id TEXT PRIMARY KEY,
+    schedule_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'generating',
+    newsletter_id TEXT,
+    calendar_entry_id TEXT,
+    scheduled_send_id TEXT,
+    error_message TEXT,
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    finished_at TEXT,
+    FOREIGN KEY (schedule_id) REFERENCES recurring_schedules(id) ON DELETE CASCADE
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_recurring_runs_schedule
+    ON recurring_schedule_runs(schedule_id, started_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_recurring_runs_status
+    ON recurring_schedule_runs(status);
+
   -- Email Tracking table
   CREATE TABLE IF NOT EXISTS email_tracking (
     id TEXT PRIMARY KEY,
@@ -299,6 +421,86 @@ db.exec(`
     FOREIGN KEY (newsletter_id) REFERENCES newsletters(id)
   );
 
+  -- Email Send Jobs table - one row per bulk send (scheduled or manual);
+  -- keeps the rendered content so interrupted sends can resume after a restart
+  CREATE TABLE IF NOT EXISTS email_send_jobs (
+    id TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    newsletter_id TEXT,
+    user_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    html_body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'sending',
+    total_recipients INTEGER DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    completed_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_send_jobs_status
+    ON email_send_jobs(status);
+
+  -- Email Deliveries table - per-recipient delivery state for a send job
+  CREATE TABLE IF NOT EXISTS email_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    send_id TEXT NOT NULL,
+    recipient_email TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER DEFAULT 0,
+    next_attempt_at TEXT,
+    last_error TEXT,
+    message_id TEXT,
+    sent_at TEXT,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(send_id, recipient_email),
+    FOREIGN KEY (send_id) REFERENCES email_send_jobs(id) ON DELETE CASCADE
+  );
+
+  -- Email Send Variants table - per-audience renderings of a send job's email
+  CREATE TABLE IF NOT EXISTS email_send_variants (
+    send_id TEXT NOT NULL,
+    variant_key TEXT NOT NULL,
+    audience_ids TEXT NOT NULL,
+    html_body TEXT NOT NULL,
+    PRIMARY KEY (send_id, variant_key),
+    FOREIGN KEY (send_id) REFERENCES email_send_jobs(id) ON DELETE CASCADE
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_deliveries_send_status
+    ON email_deliveries(send_id, status);
+  CREATE INDEX IF NOT EXISTS idx_deliveries_due
+    ON email_deliveries(status, next_attempt_at);
+
+  -- Generation Jobs table - newsletter generation runs that outlive the HTTP request
+  CREATE TABLE IF NOT EXISTS generation_jobs (
+    id TEXT PRIMARY KEY,
+    pipeline TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    request TEXT NOT NULL,
+    phase TEXT,
+    message TEXT,
+    newsletter_id TEXT,
+    result TEXT,
+    error_message TEXT,
+    attempts INTEGER DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    completed_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_generation_jobs_status
+    ON generation_jobs(status);
+
+  -- Generation Job Checkpoints table - intermediate artifacts a resumed job reuses
+  -- (stage is 'balance', 'sources' or 'section:<audienceId>')
+  CREATE TABLE IF NOT EXISTS generation_job_checkpoints (
+    job_id TEXT NOT NULL,
+    stage TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (job_id, stage),
+    FOREIGN KEY (job_id) REFERENCES generation_jobs(id) ON DELETE CASCADE
+  );
+
   -- System Logs table (Control Plane logs persisted)
   CREATE TABLE IF NOT EXISTS system_logs (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -331,6 +533,39 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_system_logs_user
     ON system_logs(user_id);
 
+  -- API Usage ledger - one row per billable Claude, Gemini or Stability call
+  -- (cost_usd is estimated from the pricing table in usageService at record time)
+  CREATE TABLE IF NOT EXISTS api_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    operation TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+    images INTEGER NOT NULL DEFAULT 0,
+    web_search_calls INTEGER NOT NULL DEFAULT 0,
+    cost_usd REAL NOT NULL DEFAULT 0,
+    correlation_id TEXT,
+    newsletter_id TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_api_usage_created
+    ON api_usage(created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_api_usage_correlation
+    ON api_usage(correlation_id);
+  CREATE INDEX IF NOT EXISTS idx_api_usage_newsletter
+    ON api_usage(newsletter_id);
+
+  -- API Usage budgets - monthly spend limits ('total' or a single provider)
+  CREATE TABLE IF NOT EXISTS api_usage_budgets (
+    scope TEXT PRIMARY KEY,
+    monthly_limit_usd REAL NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
   -- User Settings table (for preferences like log retention)
   CREATE TABLE IF NOT EXISTS user_settings (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -472,6 +707,49 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_rag_documents_content_hash
     ON rag_documents(content_hash);
 
+  -- RAG Collections table - named groups of knowledge base documents
+  CREATE TABLE IF NOT EXISTS rag_collections (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  -- RAG Document Versions table - earlier versions of re-crawled documents
+  CREATE TABLE IF NOT EXISTS rag_document_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    document_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    filename TEXT NOT NULL,
+    content_hash TEXT,
+    size_bytes INTEGER NOT NULL DEFAULT 0,
+    metadata TEXT,
+    gemini_file_id TEXT,
+    indexed_at TEXT,
+    replaced_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (document_id, version),
+    FOREIGN KEY (document_id) REFERENCES rag_documents(id) ON DELETE CASCADE
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rag_document_versions_document_id
+    ON rag_document_versions(document_id);
+
+  -- RAG Document Events table - content changes and dead links found by re-crawls
+  CREATE TABLE IF NOT EXISTS rag_document_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    document_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    detail TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (document_id) REFERENCES rag_documents(id) ON DELETE CASCADE
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rag_document_events_created_at
+    ON rag_document_events(created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_rag_document_events_document_id
+    ON rag_document_events(document_id);
+
   -- RAG Chats table - stores chat conversations
   CREATE TABLE IF NOT EXISTS rag_chats (
     id TEXT PRIMARY KEY,
@@ -508,9 +786,45 @@ db.exec(`
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     last_sync_at TEXT
   );
+
+  -- RAG Chunks table - document text split for the local knowledge base backend
+  CREATE TABLE IF NOT EXISTS rag_chunks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    document_id TEXT NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding TEXT,
+    embedding_model TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (document_id, chunk_index),
+    FOREIGN KEY (document_id) REFERENCES rag_documents(id) ON DELETE CASCADE
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rag_chunks_document_id
+    ON rag_chunks(document_id);
+
+  -- Full-text index over rag_chunks (BM25 ranking), kept in sync by triggers
+  CREATE VIRTUAL TABLE IF NOT EXISTS rag_chunks_fts USING fts5(
+    content,
+    content='rag_chunks',
+    content_rowid='id',
+    tokenize='porter unicode61'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS rag_chunks_fts_insert
+    AFTER INSERT ON rag_chunks
+  BEGIN
+    INSERT INTO rag_chunks_fts (rowid, content) VALUES (new.id, new.content);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS rag_chunks_fts_delete
+    AFTER DELETE ON rag_chunks
+  BEGIN
+    INSERT INTO rag_chunks_fts (rag_chunks_fts, rowid, content) VALUES ('delete', old.id, old.content);
+  END;
 `);
 
-console.log('[SQLite] Tables initialized (archives, newsletters, newsletter_logs, subscribers, subscriber_lists, api_keys, api_key_audit_log, oauth_tokens, saved_prompts, image_style_thumbnails, writer_personas, custom_audiences, newsletter_templates, newsletter_drafts, calendar_entries, scheduled_sends, email_tracking, email_stats, system_logs, user_settings, prompt_import_templates, prompt_import_logs, saved_topics, saved_sources, rag_documents, rag_chats, rag_messages, rag_config)');
+console.log('[SQLite] Tables initialized (archives, newsletters, newsletter_logs, newsletter_section_inputs, newsletter_revisions, newsletter_revision_images, subscribers, subscriber_lists, subscriber_segments, api_keys, api_key_audit_log, oauth_tokens, saved_prompts, image_style_thumbnails, writer_personas, writing_tones, writing_flavors, custom_audiences, audience_categories, newsletter_templates, newsletter_drafts, calendar_entries, scheduled_sends, recurring_schedules, recurring_schedule_runs, email_tracking, email_stats, email_send_jobs, email_deliveries, email_send_variants, generation_jobs, generation_job_checkpoints, system_logs, api_usage, api_usage_budgets, user_settings, prompt_import_templates, prompt_import_logs, saved_topics, saved_sources, rag_documents, rag_collections, rag_document_versions, rag_document_events, rag_chats, rag_messages, rag_config, rag_chunks)');
 
 // ============================================================================
 // Migration: Enhanced Newsletter Format (v2)
@@ -792,4 +1106,417 @@ function runCalendarSettingsMigration() {
 // Run calendar settings migration
 runCalendarSettingsMigration();
 
+// ============================================================================
+// Migration: Subscriber Unsubscribe Reason
+// ============================================================================
+
+/**
+ * Run migrations for self-service unsubscribes (reason recorded per subscriber)
+ */
+function runUnsubscribeMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add unsubscribe_reason column to subscribers',
+      check: () => !columnExists('subscribers', 'unsubscribe_reason'),
+      sql: 'ALTER TABLE subscribers ADD COLUMN unsubscribe_reason TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Subscriber unsubscribe reason: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run unsubscribe migration
+runUnsubscribeMigration();
+
+// ============================================================================
+// Migration: Subscriber Attributes
+// ============================================================================
+
+/**
+ * Run migrations for custom subscriber attributes (JSON object used by merge tags)
+ */
+function runSubscriberAttributesMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add attributes column to subscribers',
+      check: () => !columnExists('subscribers', 'attributes'),
+      sql: 'ALTER TABLE subscribers ADD COLUMN attributes TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Subscriber attributes: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run subscriber attributes migration
+runSubscriberAttributesMigration();
+
+// ============================================================================
+// Migration: Per-Audience Email Variants
+// ============================================================================
+
+/**
+ * Run migrations for audience mapping on subscribers and lists, and the
+ * variant each delivery was sent
+ */
+function runAudienceVariantMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add audiences column to subscribers',
+      check: () => !columnExists('subscribers', 'audiences'),
+      sql: "ALTER TABLE subscribers ADD COLUMN audiences TEXT DEFAULT ''",
+    },
+    {
+      name: 'Add audiences column to subscriber_lists',
+      check: () => !columnExists('subscriber_lists', 'audiences'),
+      sql: "ALTER TABLE subscriber_lists ADD COLUMN audiences TEXT DEFAULT ''",
+    },
+    {
+      name: 'Add variant column to email_deliveries',
+      check: () => !columnExists('email_deliveries', 'variant'),
+      sql: 'ALTER TABLE email_deliveries ADD COLUMN variant TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Audience variants: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run audience variant migration
+runAudienceVariantMigration();
+
+// ============================================================================
+// Migration: Newsletter Hero Image
+// ============================================================================
+
+/**
+ * Run migrations for the enhanced newsletter header hero image
+ */
+function runHeroImageMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add hero_image column to newsletters',
+      check: () => !columnExists('newsletters', 'hero_image'),
+      sql: 'ALTER TABLE newsletters ADD COLUMN hero_image TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Newsletter hero image: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run hero image migration
+runHeroImageMigration();
+
+// ============================================================================
+// Migration: Newsletter Revisions
+// ============================================================================
+
+/**
+ * Run migrations linking newsletter log entries to the revision they produced
+ */
+function runNewsletterRevisionMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add revision_id column to newsletter_logs',
+      check: () => !columnExists('newsletter_logs', 'revision_id'),
+      sql: 'ALTER TABLE newsletter_logs ADD COLUMN revision_id INTEGER',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Newsletter revisions: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run newsletter revision migration
+runNewsletterRevisionMigration();
+
+// ============================================================================
+// Migration: Audience Profiles
+// ============================================================================
+
+/**
+ * Run migrations giving every audience a parent category and a content
+ * generation profile (domain examples, example topics, source preferences)
+ */
+function runAudienceProfileMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add parent_id column to custom_audiences',
+      check: () => !columnExists('custom_audiences', 'parent_id'),
+      sql: `ALTER TABLE custom_audiences ADD COLUMN parent_id TEXT;
+            UPDATE custom_audiences SET parent_id = 'custom' WHERE parent_id IS NULL`,
+    },
+    {
+      name: 'Add domain_examples column to custom_audiences',
+      check: () => !columnExists('custom_audiences', 'domain_examples'),
+      sql: 'ALTER TABLE custom_audiences ADD COLUMN domain_examples TEXT',
+    },
+    {
+      name: 'Add json_examples column to custom_audiences',
+      check: () => !columnExists('custom_audiences', 'json_examples'),
+      sql: 'ALTER TABLE custom_audiences ADD COLUMN json_examples TEXT',
+    },
+    {
+      name: 'Add topic_titles column to custom_audiences',
+      check: () => !columnExists('custom_audiences', 'topic_titles'),
+      sql: 'ALTER TABLE custom_audiences ADD COLUMN topic_titles TEXT',
+    },
+    {
+      name: 'Add source_preferences column to custom_audiences',
+      check: () => !columnExists('custom_audiences', 'source_preferences'),
+      sql: 'ALTER TABLE custom_audiences ADD COLUMN source_preferences TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Audience profiles: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run audience profile migration
+runAudienceProfileMigration();
+
+// ============================================================================
+// Migration: Newsletter Verification Report
+// ============================================================================
+
+/**
+ * Run migrations storing the citation verification report with each newsletter
+ */
+function runVerificationReportMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add verification_report column to newsletters',
+      check: () => !columnExists('newsletters', 'verification_report'),
+      sql: 'ALTER TABLE newsletters ADD COLUMN verification_report TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Newsletter verification report: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run verification report migration
+runVerificationReportMigration();
+
+// ============================================================================
+// Migration: Knowledge Base Collections and Tags
+// ============================================================================
+
+/**
+ * Run migrations filing knowledge base documents into collections with tags,
+ * and scoping knowledge base chats to collections
+ */
+function runRagCollectionsMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add collection_id column to rag_documents',
+      check: () => !columnExists('rag_documents', 'collection_id'),
+      sql: 'ALTER TABLE rag_documents ADD COLUMN collection_id TEXT',
+    },
+    {
+      name: 'Add tags column to rag_documents',
+      check: () => !columnExists('rag_documents', 'tags'),
+      sql: 'ALTER TABLE rag_documents ADD COLUMN tags TEXT',
+    },
+    {
+      name: 'Add collection_ids column to rag_chats',
+      check: () => !columnExists('rag_chats', 'collection_ids'),
+      sql: 'ALTER TABLE rag_chats ADD COLUMN collection_ids TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  // Create index for collection filtering (if not exists)
+  try {
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_rag_documents_collection
+        ON rag_documents(collection_id);
+    `);
+  } catch {
+    // Index may already exist
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Knowledge base collections: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run knowledge base collections migration
+runRagCollectionsMigration();
+
+// ============================================================================
+// Migration: Knowledge Base Re-crawl
+// ============================================================================
+
+/**
+ * Run migrations adding re-crawl policies and link health to knowledge base
+ * documents and collections
+ */
+function runRagRecrawlMigration() {
+  const migrations: Array<{ check: () => boolean; sql: string; name: string }> = [
+    {
+      name: 'Add recrawl_policy column to rag_documents',
+      check: () => !columnExists('rag_documents', 'recrawl_policy'),
+      sql: 'ALTER TABLE rag_documents ADD COLUMN recrawl_policy TEXT',
+    },
+    {
+      name: 'Add link_status column to rag_documents',
+      check: () => !columnExists('rag_documents', 'link_status'),
+      sql: "ALTER TABLE rag_documents ADD COLUMN link_status TEXT NOT NULL DEFAULT 'ok'",
+    },
+    {
+      name: 'Add last_checked_at column to rag_documents',
+      check: () => !columnExists('rag_documents', 'last_checked_at'),
+      sql: 'ALTER TABLE rag_documents ADD COLUMN last_checked_at TEXT',
+    },
+    {
+      name: 'Add last_check_error column to rag_documents',
+      check: () => !columnExists('rag_documents', 'last_check_error'),
+      sql: 'ALTER TABLE rag_documents ADD COLUMN last_check_error TEXT',
+    },
+    {
+      name: 'Add check_failures column to rag_documents',
+      check: () => !columnExists('rag_documents', 'check_failures'),
+      sql: 'ALTER TABLE rag_documents ADD COLUMN check_failures INTEGER NOT NULL DEFAULT 0',
+    },
+    {
+      name: 'Add recrawl_policy column to rag_collections',
+      check: () => !columnExists('rag_collections', 'recrawl_policy'),
+      sql: 'ALTER TABLE rag_collections ADD COLUMN recrawl_policy TEXT',
+    },
+  ];
+
+  let migrationsRun = 0;
+  for (const migration of migrations) {
+    if (migration.check()) {
+      try {
+        db.exec(migration.sql);
+        console.log(`[SQLite Migration] ${migration.name}`);
+        migrationsRun++;
+      } catch (err) {
+        console.error(`[SQLite Migration] Failed: ${migration.name}`, err);
+      }
+    }
+  }
+
+  if (migrationsRun > 0) {
+    console.log(`[SQLite Migration] Knowledge base re-crawl: ${migrationsRun} migrations applied`);
+  }
+}
+
+// Run knowledge base re-crawl migration
+runRagRecrawlMigration();
+
 export default db;
@@ -3,6 +3,9 @@
  *
  * Provides hierarchical audience management with parent categories and
  * child specializations for focused, domain-specific content generation.
+ * Audiences live in the database (audienceDbService): the built-in
+ * specializations below plus any audiences editors create, all sharing
+ * the same profile shape.
  *
  * @module domains/generation/helpers/audienceHelpers
  *
@@ -16,6 +19,8 @@
  *     Business ────────────────────┬── business-administration
  *                                  └── business-intelligence
  *
+ *     Custom ──────────────────────── (user-defined audiences)
+ *
  * ## Benefits
  * - Users can select at parent level ("All Academic") or child level
  * - Content generation uses specific child definitions
@@ -23,6 +28,8 @@
  * - Backward compatible: old IDs map to new specializations
  */
 
+import * as audienceDbService from '../../../services/audienceDbService';
+import type { CustomAudience } from '../../../services/audienceDbService';
 import type {
   AudienceCategory,
   AudienceSpecialization,
@@ -30,198 +37,43 @@ import type {
   AudienceSourcePreference,
 } from '../../../../types';
 
-// =============================================================================
-// Hierarchical Audience Categories
-// =============================================================================
-
-/**
- * Parent categories for audience grouping
- * Users can select at this level to include all child specializations
- */
-export const AUDIENCE_CATEGORIES: AudienceCategory[] = [
-  {
-    id: 'academic',
-    name: 'Academic',
-    children: ['forensic-anthropology', 'computational-archaeology'],
-  },
-  {
-    id: 'business',
-    name: 'Business',
-    children: ['business-administration', 'business-intelligence'],
-  },
-];
-
 // =============================================================================
 // Audience Specializations (The Core Data)
 // =============================================================================
 
 /**
- * Detailed specialization definitions with domain-specific content
- * Each specialization has its own prompt context, examples, and source preferences
+ * Convert a stored audience to a specialization
+ *
+ * Audiences created without a full profile get one derived from their name
+ * and description, so every audience can drive the topic agents.
  */
-export const SPECIALIZATIONS: Record<string, AudienceSpecialization> = {
-  // ===== ACADEMIC SPECIALIZATIONS =====
-  'forensic-anthropology': {
-    id: 'forensic-anthropology',
-    parentId: 'academic',
-    name: 'Forensic Anthropology',
-    description:
-      'Forensic anthropology professors and researchers specializing in skeletal analysis, ' +
-      'trauma interpretation, taphonomy, and mass disaster victim identification using AI for ' +
-      'morphometric analysis, age estimation, sex determination, ancestry classification, ' +
-      'and biological profile construction from skeletal remains.',
-    domainExamples:
-      '- Forensic anthropology applications: skeletal analysis AI for bone measurements, ' +
-      'trauma pattern recognition from fractures, morphometric analysis automation, ' +
-      'mass fatality incident response tools, age/sex/ancestry estimation algorithms, ' +
-      'commingled remains sorting, postmortem interval estimation, taphonomic analysis',
-    jsonExamples: [
-      {
-        title: 'How to Build a Skeletal Analysis Pipeline Using Claude Vision API and Python',
-        summary:
-          'Use Claude API with base64-encoded bone images for morphometric measurements and ' +
-          'trauma documentation. Implementation: Create Python wrapper, prompt for specific ' +
-          'measurements, integrate with case management systems.',
-      },
-      {
-        title: 'Automate Age Estimation from Skeletal Features with TensorFlow and Medical Imaging',
-        summary:
-          'Train a model on pubic symphysis and auricular surface images for age-at-death ' +
-          'estimation. Implementation: Collect annotated datasets, fine-tune ResNet, deploy ' +
-          'for forensic case assessment.',
-      },
-    ],
-    topicTitles: [
-      'Build a Skeletal Analysis Pipeline Using Claude Vision API and Python',
-      'Configure Automated Trauma Pattern Recognition System with TensorFlow and Medical Imaging',
-      'Automate Age Estimation from Skeletal Features Using Deep Learning',
-      'Create a Commingled Remains Sorting Tool with Claude and Morphometric Analysis',
-    ],
-    sourcePreferences: ['arxiv', 'github', 'dev'],
-  },
-
-  'computational-archaeology': {
-    id: 'computational-archaeology',
-    parentId: 'academic',
-    name: 'Computational Archaeology',
-    description:
-      'Digital and computational archaeology researchers applying LiDAR processing, ' +
-      'photogrammetry, 3D site reconstruction, geospatial analysis, and remote sensing ' +
-      'to archaeological site discovery, artifact documentation, cultural heritage ' +
-      'preservation, and landscape archaeology.',
-    domainExamples:
-      '- Digital/computational archaeology applications: LiDAR site discovery and ' +
-      'feature extraction, photogrammetry pipelines for artifact digitization, ' +
-      'artifact classification with computer vision, 3D reconstruction of excavation sites, ' +
-      'geospatial analysis with GIS tools, cultural heritage preservation databases, ' +
-      'remote sensing for landscape archaeology, ceramic typology automation',
-    jsonExamples: [
-      {
-        title: 'Deploy LiDAR Point Cloud Processing Pipeline Using CloudCompare and Python',
-        summary:
-          'Build an automated pipeline for archaeological feature detection from LiDAR data. ' +
-          'Implementation: Use CloudCompare Python bindings, apply terrain analysis, identify ' +
-          'potential sites with ML classification.',
-      },
-      {
-        title: 'Create a Photogrammetry Workflow for Artifact Documentation with Meshroom',
-        summary:
-          'Automate 3D artifact digitization from photo sets. Implementation: Configure ' +
-          'Meshroom pipeline, optimize for small object capture, export to Sketchfab for sharing.',
-      },
-    ],
-    topicTitles: [
-      'Deploy LiDAR Point Cloud Processing Pipeline Using CloudCompare and Python for Site Discovery',
-      'Create a Photogrammetry Workflow for Artifact Documentation with Meshroom and AliceVision',
-      'Build an Artifact Classification System Using Claude Vision and Transfer Learning',
-      'Automate GIS Analysis for Archaeological Surveys with QGIS and Python',
-    ],
-    sourcePreferences: ['arxiv', 'github', 'dev'],
-  },
-
-  // ===== BUSINESS SPECIALIZATIONS =====
-  'business-administration': {
-    id: 'business-administration',
-    parentId: 'business',
-    name: 'Business Administration',
-    description:
-      'Business administrators, office managers, and operations professionals seeking ' +
-      'AI-powered workflow automation, document processing, meeting transcription, ' +
-      'task orchestration, business process automation (BPA), robotic process automation (RPA), ' +
-      'and productivity enhancement tools to streamline operations and reduce manual overhead.',
-    domainExamples:
-      '- Business automation applications: workflow orchestration with n8n and Zapier, ' +
-      'document processing automation for invoices and contracts, meeting intelligence and ' +
-      'transcription, RPA implementation with UiPath and Power Automate, API integration ' +
-      'patterns, no-code/low-code development, email triage and auto-response, ' +
-      'calendar management automation, expense report processing',
-    jsonExamples: [
-      {
-        title: 'How to Automate Business Workflows Using n8n Cloud and Claude Integration',
-        summary:
-          'Build no-code AI workflows for document processing, email triage, and meeting ' +
-          'follow-ups. Implementation: Connect n8n to Gmail/Slack, configure Claude prompts, ' +
-          'route actions to project management tools.',
-      },
-      {
-        title: 'Automate Meeting Notes with Whisper API and Claude Summarization',
-        summary:
-          'Create an end-to-end meeting intelligence pipeline. Implementation: Record via ' +
-          'Zoom API, transcribe with Whisper, summarize and extract action items with Claude, ' +
-          'push to Notion.',
-      },
-    ],
-    topicTitles: [
-      'Automate Business Workflows Using n8n Cloud and Claude Integration',
-      'Configure Document Intelligence Workflow Using Claude 3.5 and LangChain',
-      'Automate Meeting Notes with Whisper API and Claude Summarization',
-      'Build an Invoice Processing System with Claude Vision and Zapier',
-    ],
-    sourcePreferences: ['hackernews', 'reddit', 'dev'],
-  },
-
-  'business-intelligence': {
-    id: 'business-intelligence',
-    parentId: 'business',
-    name: 'Business Intelligence & Analytics',
-    description:
-      'Business analytics, logistics, and data professionals using data mining, ' +
-      'predictive analytics, supply chain optimization, demand forecasting, ' +
-      'inventory management, route optimization, warehouse automation, and ' +
-      'ML-driven insights to extract actionable intelligence from structured and ' +
-      'unstructured data. Includes dashboard development, KPI tracking, and data visualization.',
-    domainExamples:
-      '- Business analytics/logistics applications: supply chain optimization models, ' +
-      'demand forecasting with time series, inventory management automation, ' +
-      'route optimization algorithms, warehouse automation integration, ' +
-      'predictive analytics dashboards, data mining and ETL pipelines, ' +
-      'KPI tracking and alerting, executive reporting automation, ' +
-      'customer segmentation analysis, churn prediction models',
-    jsonExamples: [
-      {
-        title: 'How to Automate Supply Chain Forecasting with Prophet and Streamlit',
-        summary:
-          'Build an end-to-end demand forecasting dashboard with real-time predictions. ' +
-          'Implementation: Pull historical data, train Prophet model, deploy Streamlit ' +
-          'dashboard for visualization.',
-      },
-      {
-        title: 'Build a Real-Time Analytics Dashboard with Streamlit and Plotly',
-        summary:
-          'Create an interactive executive dashboard for KPI monitoring. Implementation: ' +
-          'Connect to data warehouse, build Plotly visualizations, add Streamlit filters ' +
-          'and drill-down capabilities.',
-      },
-    ],
-    topicTitles: [
-      'Automate Supply Chain Forecasting with Prophet, Pandas, and Streamlit',
-      'Optimize Inventory Predictions Using XGBoost and Historical Sales Data',
-      'Build a Real-Time Analytics Dashboard with Streamlit and Plotly',
-      'Create a Customer Churn Prediction Model with Scikit-learn and Claude Analysis',
-    ],
-    sourcePreferences: ['hackernews', 'reddit', 'github', 'dev'],
-  },
-};
+function toSpecialization(audience: CustomAudience): AudienceSpecialization {
+  return {
+    id: audience.id,
+    parentId: audience.parentId,
+    name: audience.name,
+    description: audience.description,
+    domainExamples: audience.domainExamples || audience.description,
+    jsonExamples: audience.jsonExamples.length > 0
+      ? audience.jsonExamples
+      : [
+          {
+            title: `How to Apply AI to ${audience.name}`,
+            summary: `Implementation guide for ${audience.description.slice(0, 100)}...`,
+          },
+        ],
+    topicTitles: audience.topicTitles.length > 0
+      ? audience.topicTitles
+      : [
+          `Build an AI Solution for ${audience.name}`,
+          `Automate ${audience.name} Workflows with Claude`,
+          `Create a ${audience.name} Dashboard with Streamlit`,
+        ],
+    sourcePreferences: audience.sourcePreferences.length > 0
+      ? audience.sourcePreferences
+      : ['hackernews', 'github', 'dev'],
+  };
+}
 
 // =============================================================================
 // Legacy ID Mapping (Backward Compatibility)
@@ -244,30 +96,33 @@ const LEGACY_MAPPING: Record<string, string[]> = {
  * Get a single specialization by ID
  */
 export function getSpecialization(id: string): AudienceSpecialization | undefined {
-  return SPECIALIZATIONS[id];
+  const audience = audienceDbService.getAudienceById(id);
+  return audience ? toSpecialization(audience) : undefined;
 }
 
 /**
  * Get all specializations for a parent category
  */
 export function getSpecializationsForCategory(categoryId: string): AudienceSpecialization[] {
-  const category = AUDIENCE_CATEGORIES.find((c) => c.id === categoryId);
+  const category = audienceDbService.getAudienceCategoryById(categoryId);
   if (!category) return [];
-  return category.children.map((childId) => SPECIALIZATIONS[childId]).filter(Boolean);
+  return category.children
+    .map((childId) => getSpecialization(childId))
+    .filter((s): s is AudienceSpecialization => Boolean(s));
 }
 
 /**
- * Get all available specializations
+ * Get all built-in specializations (the fallback when no audience resolves)
  */
 export function getAllSpecializations(): AudienceSpecialization[] {
-  return Object.values(SPECIALIZATIONS);
+  return audienceDbService.getDefaultAudiences().map(toSpecialization);
 }
 
 /**
  * Get all audience categories
  */
 export function getAudienceCategories(): AudienceCategory[] {
-  return AUDIENCE_CATEGORIES;
+  return audienceDbService.getAudienceCategories();
 }
 
 /**
@@ -280,17 +135,17 @@ export function resolveLegacyAudienceId(id: string): string[] {
     return LEGACY_MAPPING[id];
   }
 
+  // If it's already a specialization ID, return as-is
+  if (audienceDbService.getAudienceById(id)) {
+    return [id];
+  }
+
   // Check if it's a parent category
-  const category = AUDIENCE_CATEGORIES.find((c) => c.id === id);
+  const category = audienceDbService.getAudienceCategoryById(id);
   if (category) {
     return category.children;
   }
 
-  // If it's already a specialization ID, return as-is
-  if (SPECIALIZATIONS[id]) {
-    return [id];
-  }
-
   // Unknown ID - return empty
   console.warn(`[audienceHelpers] Unknown audience ID: ${id}`);
   return [];
@@ -314,7 +169,9 @@ export function resolveAudienceIds(ids: string[]): string[] {
  */
 export function getSpecializationsFromIds(ids: string[]): AudienceSpecialization[] {
   const resolvedIds = resolveAudienceIds(ids);
-  return resolvedIds.map((id) => SPECIALIZATIONS[id]).filter(Boolean);
+  return resolvedIds
+    .map((id) => getSpecialization(id))
+    .filter((s): s is AudienceSpecialization => Boolean(s));
 }
 
 // =============================================================================
@@ -555,12 +412,12 @@ export const getBalancedDomainExamples = (audience: string[]): string => {
 /**
  * Resolve all audiences including custom audiences from database
  *
- * This function handles both built-in specializations and custom audiences.
- * Custom audiences are identified by having properties like customId or not
- * existing in SPECIALIZATIONS.
+ * Built-in and custom audiences are both looked up in the database first.
+ * Audience definitions sent with the request only fill in audiences the
+ * database doesn't know (e.g. ones still cached in the browser).
  *
  * @param audienceIds - Array of audience IDs (built-in or custom)
- * @param customAudiences - Optional array of custom audience objects from database
+ * @param customAudiences - Optional array of custom audience objects from the request
  * @returns Array of resolved audience objects with consistent shape
  */
 export interface ResolvedAudience {
@@ -591,13 +448,15 @@ export function resolveAllAudiences(
   const customMap = new Map(customAudiences?.map((c) => [c.id, c]) || []);
 
   for (const id of audienceIds) {
-    // Check if it's a built-in specialization
-    const spec = SPECIALIZATIONS[id];
-    if (spec) {
-      resolved.push({
-        ...spec,
-        isCustom: false,
-      });
+    // Check if it's a stored audience (built-in or custom)
+    const stored = audienceDbService.getAudienceById(id);
+    if (stored) {
+      if (!resolved.some((r) => r.id === stored.id)) {
+        resolved.push({
+          ...toSpecialization(stored),
+          isCustom: stored.isCustom,
+        });
+      }
       continue;
     }
 
@@ -629,11 +488,11 @@ export function resolveAllAudiences(
     // Check if it's a legacy or parent ID
     const legacyResolved = resolveLegacyAudienceId(id);
     for (const legacyId of legacyResolved) {
-      const legacySpec = SPECIALIZATIONS[legacyId];
-      if (legacySpec && !resolved.some((r) => r.id === legacySpec.id)) {
+      const legacy = audienceDbService.getAudienceById(legacyId);
+      if (legacy && !resolved.some((r) => r.id === legacy.id)) {
         resolved.push({
-          ...legacySpec,
-          isCustom: false,
+          ...toSpecialization(legacy),
+          isCustom: legacy.isCustom,
         });
       }
     }
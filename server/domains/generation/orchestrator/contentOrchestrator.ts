@@ -8,6 +8,7 @@
  * 2. Source allocation (diversity enforcement)
  * 3. Content generation (enhanced newsletter)
  * 4. Post-generation verification (citation checking)
+ * 5. Citation repair (replace or regenerate until sections verify)
  *
  * @module domains/generation/orchestrator/contentOrchestrator
  *
@@ -29,6 +30,7 @@ import type { FetchSourcesResult } from '../../../services/sourceFetchingService
 import { runPreGenerationChecks } from '../services/preGenerationPipeline';
 import { generateEnhancedNewsletter } from '../services/enhancedGenerator';
 import { verifyNewsletter, quickVerify } from '../../../services/citationVerificationService';
+import { repairNewsletterCitations, saveCitationRepair } from '../../../services/citationRepairService';
 import * as personaDbService from '../../../services/personaDbService';
 
 /**
@@ -45,6 +47,8 @@ export interface OrchestratorConfig {
   skipEnrichment: boolean;
   /** Maximum retries for failed generation */
   maxRetries: number;
+  /** Maximum citation repair passes after verification fails (0 = report only) */
+  maxRepairAttempts: number;
   /** Callback for progress updates */
   onProgress?: (stage: OrchestratorStage, message: string) => void;
 }
@@ -58,6 +62,7 @@ export const defaultConfig: OrchestratorConfig = {
   skipTopicValidation: false,
   skipEnrichment: false,
   maxRetries: 1,
+  maxRepairAttempts: 2,
 };
 
 /**
@@ -69,6 +74,7 @@ export type OrchestratorStage =
   | 'source-allocation'
   | 'generation'
   | 'verification'
+  | 'repair'
   | 'complete'
   | 'error';
 
@@ -83,6 +89,8 @@ export interface OrchestratedGenerationParams {
   personaId?: string;
   tone?: string;
   flavors?: string[];
+  /** Ground sections in the persistent knowledge base (KB citations verify) */
+  useKnowledgeBase?: boolean;
 }
 
 /**
@@ -97,12 +105,20 @@ export interface OrchestrationMetrics {
   generationTimeMs: number;
   /** Time spent in verification (ms) */
   verificationTimeMs: number;
+  /** Time spent repairing citations (ms) */
+  repairTimeMs: number;
+  /** Citation repair passes run */
+  repairAttempts: number;
+  /** Sections whose citations were repaired */
+  repairedSections: number;
   /** Number of sources fetched */
   sourcesFetched: number;
   /** Number of sources allocated */
   sourcesAllocated: number;
   /** Source diversity score (0-100) */
   diversityScore: number;
+  /** Knowledge base documents given to the writer */
+  knowledgeBaseDocuments: number;
   /** Number of valid topics */
   validTopicsCount: number;
   /** Number of invalid/filtered topics */
@@ -159,6 +175,7 @@ function reportProgress(
  * 2. Source allocation with diversity enforcement
  * 3. Content generation with Claude
  * 4. Post-generation citation verification
+ * 5. Citation repair, stored with the newsletter as a verification report
  *
  * @param params - Generation parameters
  * @param config - Orchestration configuration
@@ -176,9 +193,13 @@ export async function orchestrateGeneration(
     preGenerationTimeMs: 0,
     generationTimeMs: 0,
     verificationTimeMs: 0,
+    repairTimeMs: 0,
+    repairAttempts: 0,
+    repairedSections: 0,
     sourcesFetched: 0,
     sourcesAllocated: 0,
     diversityScore: 0,
+    knowledgeBaseDocuments: 0,
     validTopicsCount: 0,
     filteredTopicsCount: 0,
     retryCount: 0,
@@ -243,6 +264,7 @@ export async function orchestrateGeneration(
       personaId: params.personaId,
       tone: params.tone,
       flavors: params.flavors,
+      useKnowledgeBase: params.useKnowledgeBase,
     });
 
     metrics.generationTimeMs = Date.now() - genStartTime;
@@ -260,9 +282,11 @@ export async function orchestrateGeneration(
         personaId: params.personaId,
         tone: params.tone,
         flavors: params.flavors,
+        useKnowledgeBase: params.useKnowledgeBase,
       });
     }
     metrics.retryCount = retryCount;
+    metrics.knowledgeBaseDocuments = generationResult.knowledgeBaseDocuments || 0;
 
     if (!generationResult.success || !generationResult.newsletter) {
       reportProgress(fullConfig, 'error', `Generation failed: ${generationResult.error}`);
@@ -278,33 +302,62 @@ export async function orchestrateGeneration(
     }
 
     // ===== PHASE 4: Post-Generation Verification =====
+    let newsletter = generationResult.newsletter;
     let verification: NewsletterVerificationResult | undefined;
 
     if (fullConfig.enableVerification && allocations.length > 0) {
       reportProgress(fullConfig, 'verification', 'Verifying citations and source diversity...');
       const verifyStartTime = Date.now();
 
-      verification = verifyNewsletter(generationResult.newsletter, allocations);
+      verification = verifyNewsletter(newsletter, allocations);
       metrics.verificationTimeMs = Date.now() - verifyStartTime;
 
       if (!verification.isValid) {
         reportProgress(fullConfig, 'verification',
-          `Verification found ${verification.allIssues.length} issues (not blocking)`
+          `Verification found ${verification.allIssues.length} issues`
         );
       } else {
         reportProgress(fullConfig, 'verification', 'Verification passed');
       }
+
+      // ===== PHASE 5: Citation Repair =====
+      const repairStartTime = Date.now();
+      const repair = await repairNewsletterCitations(newsletter, allocations, verification, {
+        maxAttempts: fullConfig.maxRepairAttempts,
+        audiences: params.audiences,
+        tone: params.tone,
+        flavors: params.flavors,
+        personaId: params.personaId,
+        onProgress: (message) => reportProgress(fullConfig, 'repair', message),
+      });
+      metrics.repairTimeMs = Date.now() - repairStartTime;
+      metrics.repairAttempts = repair.report.repairAttempts;
+      metrics.repairedSections = repair.repairedAudienceIds.length;
+
+      newsletter = repair.newsletter;
+      verification = repair.verification;
+
+      if (newsletter.id && !saveCitationRepair(newsletter.id, repair)) {
+        console.warn(`[Orchestrator] Newsletter ${newsletter.id} not found, verification report not stored`);
+      }
+
+      if (metrics.repairAttempts > 0) {
+        const unverified = repair.report.sections.filter(s => s.status === 'unverified').length;
+        reportProgress(fullConfig, 'repair',
+          `Repaired ${metrics.repairedSections} section(s) in ${metrics.repairAttempts} attempt(s); ${unverified} still unverified`
+        );
+      }
     }
 
     // ===== COMPLETE =====
     metrics.totalTimeMs = Date.now() - startTime;
     reportProgress(fullConfig, 'complete',
-      `Generation complete in ${metrics.totalTimeMs}ms (preGen: ${metrics.preGenerationTimeMs}ms, gen: ${metrics.generationTimeMs}ms, verify: ${metrics.verificationTimeMs}ms)`
+      `Generation complete in ${metrics.totalTimeMs}ms (preGen: ${metrics.preGenerationTimeMs}ms, gen: ${metrics.generationTimeMs}ms, verify: ${metrics.verificationTimeMs}ms, repair: ${metrics.repairTimeMs}ms)`
     );
 
     return {
       success: true,
-      newsletter: generationResult.newsletter,
+      newsletter,
       allocations,
       preGenerationResult: preGenResult,
       verification,
@@ -338,6 +391,7 @@ export async function orchestrateQuick(
     skipEnrichment: true,
     enableVerification: false,
     maxRetries: 0,
+    maxRepairAttempts: 0,
   });
 }
 
@@ -355,6 +409,7 @@ export async function orchestrateFull(
     skipTopicValidation: false,
     skipEnrichment: false,
     maxRetries: 1,
+    maxRepairAttempts: 2,
     onProgress,
   });
 }
@@ -12,8 +12,7 @@
  * ALL prompts, configurations, and logic in this file are EXACT copies from server.ts.
  * Do NOT modify any prompt text, model configurations, or data flow logic.
  */
-import Anthropic from '@anthropic-ai/sdk';
-import { getAnthropicClient } from '../../../external/claude';
+import { getStageLlm, getResponseText } from '../../../external/llm';
 import { getAudienceDescription, getBalancedDomainExamples, getSpecializationsFromIds } from '../helpers/audienceHelpers';
 import { getDateRangeDescription } from '../helpers/dateHelpers';
 import { scoreSourceForPracticality } from '../helpers/scoringHelpers';
@@ -180,24 +179,22 @@ export async function generateCompellingTrendingContent(
     const userMessage = buildUserMessage(audienceDescription, dateRange, sourceSummary, domainExamples, audienceCount);
 
     // Use Haiku for this summarization task (token optimization) - MUST match server.ts line 779-780
-    const response = await (await getAnthropicClient()).messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 3000,
+    const llm = getStageLlm('topic_agents', "claude-haiku-4-5-20251001");
+    const response = await llm.chat({
+      maxTokens: 3000,
       system: SYSTEM_PROMPT,
       messages: [{ role: "user", content: userMessage }],
     });
 
-    const textBlock = response.content.find(
-      (block): block is Anthropic.Messages.TextBlock => block.type === "text"
-    );
+    const responseText = getResponseText(response);
 
-    if (!textBlock) {
-      throw new Error("No text response from Claude");
+    if (!responseText) {
+      throw new Error(`No text response from ${llm.provider} (${llm.model})`);
     }
 
     return {
       success: true,
-      text: textBlock.text,
+      text: responseText,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
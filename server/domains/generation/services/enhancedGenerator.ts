@@ -13,6 +13,11 @@
  * content hallucination. Topics are validated via web search, and the
  * prompt includes explicit topic-source mappings.
  *
+ * ## Knowledge Base Grounding
+ * With useKnowledgeBase, passages from the persistent knowledge base are
+ * retrieved per audience's topics and given to the writer as extra sources;
+ * citations of them carry the KB document ID.
+ *
  * ## Preserved Functionality
  * - Multi-source fetching (6 APIs)
  * - Article extraction
@@ -21,8 +26,7 @@
  * - 250+ word requirements
  * - Auto-save to SQLite
  */
-import Anthropic from '@anthropic-ai/sdk';
-import { getAnthropicClient } from '../../../external/claude';
+import { getStageLlm, getResponseText } from '../../../external/llm';
 import * as sourceFetchingService from '../../../services/sourceFetchingService';
 import type { SourceArticle } from '../../../services/sourceFetchingService';
 import * as articleExtractorService from '../../../services/articleExtractorService';
@@ -43,12 +47,19 @@ import type { TopicValidationResult } from '../../../services/topicValidationSer
 // Phase 18: Import RAG service for Gemini File Search integration (optional)
 import * as ragService from '../../../services/ragService';
 
+// Persistent knowledge base grounding (optional, per request)
+import {
+  retrieveKnowledgeBaseSources,
+  attachKnowledgeBaseReferences,
+  buildKnowledgeBaseContext,
+} from '../../../services/knowledgeBaseGroundingService';
+
 // Phase 20: Import parallel generation from single audience generator
 import {
   generateAudienceSectionsParallel,
   type SingleAudienceGenerationParams,
 } from './singleAudienceSectionGenerator';
-import type { SourceWithContent, EnhancedAudienceSection } from '../../../../types';
+import type { SourceWithContent, EnhancedAudienceSection, SectionGenerationInput } from '../../../../types';
 
 // =============================================================================
 // Phase 20: Parallel Generation Types
@@ -104,6 +115,8 @@ export interface GenerateEnhancedNewsletterParams {
   personaId?: string;
   tone?: string;      // Phase 14: User-selected tone
   flavors?: string[]; // Phase 14: User-selected flavors
+  /** Retrieve passages from the persistent knowledge base and let sections cite them */
+  useKnowledgeBase?: boolean;
 }
 
 /**
@@ -121,6 +134,8 @@ export interface GenerateEnhancedNewsletterResult {
   invalidTopics?: string[];
   /** Phase 15: Suggested alternative topics */
   suggestions?: string[];
+  /** Knowledge base documents given to the writer (when useKnowledgeBase) */
+  knowledgeBaseDocuments?: number;
 }
 
 /**
@@ -553,21 +568,21 @@ ALL TOPICS COVERED: ${topicList}
 
 Generate the framing elements (editorsNote, toolOfTheDay, promptOfTheDay, conclusion, subject) that tie these sections together cohesively.`;
 
-  const client = await getAnthropicClient();
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 2048,
+  const llm = getStageLlm('shared_elements', 'claude-sonnet-4-20250514');
+  const response = await llm.chat({
+    maxTokens: 2048,
     system: SHARED_ELEMENTS_SYSTEM_PROMPT,
     messages: [{ role: 'user', content: userMessage }],
+    responseFormat: 'json',
   });
 
-  const textContent = response.content.find(c => c.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
+  const responseText = getResponseText(response);
+  if (!responseText) {
     throw new Error('No text content in shared elements response');
   }
 
   // Parse JSON response
-  let jsonText = textContent.text.trim();
+  let jsonText = responseText.trim();
   if (jsonText.startsWith('```')) {
     jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
   }
@@ -648,7 +663,8 @@ export async function generateEnhancedNewsletter(
       promptOfTheDay: userPromptOfTheDay,
       personaId,
       tone = 'confident',  // Default tone
-      flavors = []         // Default empty flavors
+      flavors = [],        // Default empty flavors
+      useKnowledgeBase = false,
     } = params;
 
     console.log('[EnhancedNewsletter] Starting generation for audiences:', audiences.map(a => a.name));
@@ -880,6 +896,24 @@ export async function generateEnhancedNewsletter(
       }
     }
 
+    // Knowledge base grounding: passages from the persistent KB for each audience's topics
+    const kbSourcesByAudience = new Map<string, SourceWithContent[]>();
+    if (useKnowledgeBase) {
+      for (const audience of audiences) {
+        // Same routing as the prompts: unknown audience IDs go to the first audience
+        const audienceTopics = validTopics.filter((t) => {
+          const targetId = audiences.some(a => a.id === t.audienceId) ? t.audienceId : audiences[0]?.id;
+          return targetId === audience.id;
+        });
+        const kbSources = await retrieveKnowledgeBaseSources(audienceTopics);
+        if (kbSources.length > 0) kbSourcesByAudience.set(audience.id, kbSources);
+      }
+      console.log(`[EnhancedNewsletter] Knowledge base: ${kbSourcesByAudience.size}/${audiences.length} audiences have KB sources`);
+    }
+    const knowledgeBaseDocuments = new Set(
+      [...kbSourcesByAudience.values()].flat().map(s => s.kbDocumentId)
+    ).size;
+
     // Step 6: Generate enhanced newsletter with Claude
     console.log('[EnhancedNewsletter] Generating newsletter with Claude...');
     console.log(`[EnhancedNewsletter] Audiences (${audiences.length}):`, audiences.map(a => a.name));
@@ -889,6 +923,8 @@ export async function generateEnhancedNewsletter(
     const USE_PARALLEL = process.env.ENHANCED_PARALLEL_GENERATION !== 'false';
 
     let newsletter: EnhancedNewsletter;
+    // Per-section inputs, saved so sections can be rewritten later (parallel path only)
+    let sectionInputs: SectionGenerationInput[] = [];
 
     if (USE_PARALLEL && audiences.length > 1) {
       // =====================================================================
@@ -912,7 +948,10 @@ export async function generateEnhancedNewsletter(
       // Build params for parallel generation
       const parallelParams: SingleAudienceGenerationParams[] = audiences.map(audience => {
         const audienceTopics = topicsByAudience.get(audience.id) || [];
-        const audienceSources = prepareSourcesForAudience(audienceTopics, extractionResult.extracted);
+        const audienceSources = [
+          ...prepareSourcesForAudience(audienceTopics, extractionResult.extracted),
+          ...(kbSourcesByAudience.get(audience.id) || []),
+        ];
 
         console.log(`[EnhancedNewsletter] Phase 20: ${audience.name}: ${audienceTopics.length} topics, ${audienceSources.length} sources`);
 
@@ -931,6 +970,8 @@ export async function generateEnhancedNewsletter(
       const parallelPhaseTimeMs = Date.now() - parallelStartTime;
       console.log(`[EnhancedNewsletter] Phase 20: Parallel generation completed in ${parallelPhaseTimeMs}ms`);
 
+      sectionInputs = sectionResults.flatMap(r => r.input ? [r.input] : []);
+
       // Check for failures
       const successfulSections = sectionResults.map(r => r.section);
       if (successfulSections.length === 0) {
@@ -971,10 +1012,18 @@ export async function generateEnhancedNewsletter(
       // Phase 15: Include topicSourceContext for anti-hallucination
       // Phase 15.1: Include allocationContext for source diversity enforcement
       // Phase 18: Pass ragContent for RAG-grounded facts
+      const kbContext = audiences
+        .filter(a => kbSourcesByAudience.has(a.id))
+        .map(a => `For the "${a.name}" section:\n${buildKnowledgeBaseContext(kbSourcesByAudience.get(a.id)!)}`)
+        .join('\n\n');
+      const groundedSourceContext = kbContext
+        ? `${sourceContext}\n\nKNOWLEDGE BASE SOURCES (the editor's saved documents - cite them by URL like any other source; list kb:// URLs only in "sources", never in an <a href>):\n${kbContext}`
+        : sourceContext;
+
       const userMessage = buildUserMessage(
         audiences,
         validTopics,  // Phase 18: Pass full topic objects with audienceId for routing
-        sourceContext,
+        groundedSourceContext,
         preGenResult.topicSourceContext,
         personaInstructions,
         preGenResult.allocationContext,  // Phase 15.1: Source diversity allocations
@@ -989,29 +1038,36 @@ export async function generateEnhancedNewsletter(
         flavorFormattingRules
       );
 
-      const response = await (await getAnthropicClient()).messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 8192,  // Phase 14: Increased for longer, more substantive content
+      const llm = getStageLlm('section_writer', "claude-sonnet-4-20250514");
+      const response = await llm.chat({
+        maxTokens: 8192,  // Phase 14: Increased for longer, more substantive content
         system: systemPrompt,
         messages: [{ role: "user", content: userMessage }],
+        responseFormat: 'json',
       });
 
-      const textBlock = response.content.find(
-        (block): block is Anthropic.Messages.TextBlock => block.type === "text"
-      );
+      const responseText = getResponseText(response);
 
-      if (!textBlock) {
-        throw new Error("No text response from Claude");
+      if (!responseText) {
+        throw new Error(`No text response from ${llm.provider} (${llm.model})`);
       }
 
       // Parse JSON response - EXACT logic from server.ts lines 1214-1218
-      let jsonText = textBlock.text.trim();
+      let jsonText = responseText.trim();
       if (jsonText.startsWith('```')) {
         jsonText = jsonText.replace(/^```json?\n?/, '').replace(/\n?```$/, '');
       }
 
       newsletter = JSON.parse(jsonText);
 
+      // Tag citations of knowledge base documents (the parallel path tags per section)
+      if (kbSourcesByAudience.size > 0) {
+        newsletter.audienceSections = (newsletter.audienceSections || []).map(section => ({
+          ...section,
+          sources: attachKnowledgeBaseReferences(section.sources || [], kbSourcesByAudience.get(section.audienceId) || []),
+        }));
+      }
+
       // If user supplied a promptOfTheDay, use it instead of the LLM-generated one
       // EXACT logic from server.ts lines 1221-1225
       if (userPromptOfTheDay) {
@@ -1036,7 +1092,7 @@ export async function generateEnhancedNewsletter(
       newsletterDbService.saveEnhancedNewsletter(
         { ...newsletter, id: newsletterId },
         topicTitles,  // Phase 17: Use extracted titles for storage
-        { audience: audiences.map(a => a.id), imageStyle }
+        { audience: audiences.map(a => a.id), imageStyle, sectionInputs }
       );
       console.log(`[EnhancedNewsletter] Saved to SQLite: ${newsletterId}`);
       newsletter.id = newsletterId;
@@ -1061,6 +1117,7 @@ export async function generateEnhancedNewsletter(
       success: true,
       newsletter,
       sources: sourceResult.sources,
+      ...(useKnowledgeBase ? { knowledgeBaseDocuments } : {}),
     };
 
   } catch (error) {
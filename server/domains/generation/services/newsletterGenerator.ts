@@ -19,8 +19,9 @@
  * - Phase 13.1 tone instructions
  * - Auto-save to SQLite
  */
-import Anthropic from '@anthropic-ai/sdk';
-import { getAnthropicClient, webSearchTool, searchGuidance } from '../../../external/claude';
+import { webSearchTool, searchGuidance } from '../../../external/claude';
+import { getStageLlm, getResponseText, getToolUseBlocks } from '../../../external/llm';
+import type { LlmMessage, LlmContentBlock, LlmToolResultBlock } from '../../../external/llm';
 import { processToolCall } from '../../../external/brave';
 import { getAudienceDescription, getBalancedDomainExamples } from '../helpers/audienceHelpers';
 
@@ -324,14 +325,14 @@ export async function generateNewsletter(
       preGenResult.topicSourceContext  // Phase 15: Topic-source mappings
     );
 
-    let messages: Anthropic.Messages.MessageParam[] = [
+    const llm = getStageLlm('section_writer', "claude-sonnet-4-20250514");
+    let messages: LlmMessage[] = [
       { role: "user", content: userMessage },
     ];
 
     // Agentic loop for tool use - EXACT pattern from server.ts
-    let response = await (await getAnthropicClient()).messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 4096,
+    let response = await llm.chat({
+      maxTokens: 4096,
       system: SYSTEM_PROMPT,
       tools: [webSearchTool],
       messages: messages,
@@ -339,14 +340,11 @@ export async function generateNewsletter(
 
     // Handle tool calls with iteration cap (token optimization)
     let iterations = 0;
-    while (response.stop_reason === "tool_use" && iterations < MAX_SEARCH_ITERATIONS) {
+    while (response.stopReason === "tool_use" && iterations < MAX_SEARCH_ITERATIONS) {
       iterations++;
       console.log(`[Newsletter] Agentic loop iteration ${iterations}/${MAX_SEARCH_ITERATIONS}`);
 
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock =>
-          block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
 
       if (toolUseBlocks.length === 0) break;
 
@@ -355,7 +353,7 @@ export async function generateNewsletter(
         content: response.content,
       });
 
-      const toolResultContent: Anthropic.Messages.ToolResultBlockParam[] = [];
+      const toolResultContent: LlmToolResultBlock[] = [];
       for (const toolUseBlock of toolUseBlocks) {
         const toolResult = await processToolCall(
           toolUseBlock.name,
@@ -373,9 +371,8 @@ export async function generateNewsletter(
         content: toolResultContent,
       });
 
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 4096,
+      response = await llm.chat({
+        maxTokens: 4096,
         system: SYSTEM_PROMPT,
         tools: [webSearchTool],
         messages: messages,
@@ -384,13 +381,11 @@ export async function generateNewsletter(
 
     // If we hit max iterations and response is still tool_use, force a final text response
     // EXACT pattern from server.ts lines 966-1008
-    if (iterations >= MAX_SEARCH_ITERATIONS && response.stop_reason === "tool_use") {
+    if (iterations >= MAX_SEARCH_ITERATIONS && response.stopReason === "tool_use") {
       console.log(`[Newsletter] Reached max iterations (${MAX_SEARCH_ITERATIONS}), forcing final response`);
 
       // Extract tool_use blocks from response
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock => block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
 
       // Add the assistant message with tool_use
       messages.push({
@@ -400,7 +395,7 @@ export async function generateNewsletter(
 
       // Add tool_result blocks for each tool_use (required by API)
       // Include an explicit instruction after the tool results
-      const toolResultContent: (Anthropic.Messages.ToolResultBlockParam | Anthropic.Messages.TextBlockParam)[] = [
+      const toolResultContent: LlmContentBlock[] = [
         ...toolUseBlocks.map(block => ({
           type: "tool_result" as const,
           tool_use_id: block.id,
@@ -418,27 +413,24 @@ export async function generateNewsletter(
       });
 
       // Final call WITHOUT tools to force text output
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 4096,
+      response = await llm.chat({
+        maxTokens: 4096,
         system: SYSTEM_PROMPT,
         messages: messages,
       });
-      console.log('[Newsletter] Final response stop_reason:', response.stop_reason);
+      console.log('[Newsletter] Final response stop reason:', response.stopReason);
       console.log('[Newsletter] Final response content types:', response.content.map(b => b.type));
     }
 
-    const textBlock = response.content.find(
-      (block): block is Anthropic.Messages.TextBlock => block.type === "text"
-    );
+    const responseText = getResponseText(response);
 
-    if (!textBlock) {
-      throw new Error("No text response from Claude");
+    if (!responseText) {
+      throw new Error(`No text response from ${llm.provider} (${llm.model})`);
     }
 
     // Parse the JSON response and sanitize emojis - EXACT logic from server.ts
     try {
-      const newsletter = JSON.parse(textBlock.text);
+      const newsletter = JSON.parse(responseText);
       const sanitized = sanitizeNewsletter(newsletter);
 
       // Auto-save newsletter to SQLite
@@ -473,7 +465,7 @@ export async function generateNewsletter(
       // If JSON parsing fails, return the text as-is
       return {
         success: true,
-        text: textBlock.text,
+        text: responseText,
       };
     }
   } catch (error) {
@@ -58,6 +58,7 @@ import {
   applyMismatchResolutions,
   autoBalanceTopics,
   serializeBalancedMap,
+  deserializeBalancedMap,
 } from './topicAudienceBalancer';
 
 import { detectStrategicOverlaps } from './strategicOverlapDetector';
@@ -72,7 +73,7 @@ import {
 import * as sourceFetchingService from '../../../services/sourceFetchingService';
 import * as sourceAllocationService from '../../../services/sourceAllocationService';
 import { generateTrendingTopicsForAudience } from './singleAudienceAgent';
-import { resolveAllAudiences, SPECIALIZATIONS } from '../helpers/audienceHelpers';
+import { resolveAllAudiences } from '../helpers/audienceHelpers';
 import type { SingleAudienceAgentParams } from '../types/parallelGeneration';
 
 // =============================================================================
@@ -97,6 +98,103 @@ export const DEFAULT_ORCHESTRATOR_CONFIG: OrchestratorConfig = {
   autoBalance: false,
 };
 
+/**
+ * V4 request as sent by clients (routes and generation jobs)
+ */
+export interface PerAudienceRequest {
+  audiences: AudienceConfig[];
+  selectedTopics?: TopicWithAudienceId[];
+  topicsPerAudience?: number;
+  tone?: string;
+  flavors?: string[];
+  imageStyle?: string;
+  personaId?: string;
+  promptOfTheDay?: PromptOfTheDay;
+  mismatchResolutions?: MismatchResolution[];
+}
+
+/**
+ * Build pipeline params from a request, applying defaults
+ */
+export function buildPerAudienceParams(request: PerAudienceRequest): PerAudienceGenerationParams {
+  return {
+    audiences: request.audiences,
+    selectedTopics: request.selectedTopics,
+    topicsPerAudience: request.topicsPerAudience || DEFAULT_ORCHESTRATOR_CONFIG.topicsPerAudience,
+    tone: request.tone || 'confident',
+    flavors: request.flavors || [],
+    imageStyle: request.imageStyle,
+    personaId: request.personaId,
+    promptOfTheDay: request.promptOfTheDay,
+  };
+}
+
+/**
+ * Pipeline phases reported to progress listeners
+ */
+export type PipelinePhase = 'balancing' | 'topics' | 'overlaps' | 'sources' | 'sections' | 'merge';
+
+/**
+ * Progress event emitted while the pipeline runs (used by the SSE route)
+ *
+ * Section events carry the audience's section: on section_start it only has the
+ * audience and its allocated sources, on section_complete it is the full section.
+ */
+export interface PipelineProgressEvent {
+  type: 'phase_start' | 'phase_complete' | 'section_start' | 'section_complete' | 'section_error';
+  phase: PipelinePhase;
+  message: string;
+  audienceId?: string;
+  audienceName?: string;
+  section?: Partial<EnhancedAudienceSection>;
+  error?: string;
+  completedCount?: number;
+  totalCount?: number;
+  durationMs?: number;
+}
+
+export type PipelineProgressCallback = (event: PipelineProgressEvent) => void;
+
+/**
+ * Intermediate artifacts saved as the pipeline runs, so a later run can resume
+ * instead of starting over. Sections are keyed by audience ID.
+ */
+export interface PipelineCheckpoint {
+  /** Balanced topics after topic generation (balancedMap serialized) */
+  balance?: Omit<TopicAudienceBalanceResult, 'balancedMap'> & {
+    balancedMap: Record<string, TopicWithAudienceId[]>;
+  };
+  /** Sources allocated to each audience */
+  sources?: Record<string, SourceWithContent[]>;
+  /** Finished sections */
+  sections?: Record<string, AudienceSectionResult>;
+}
+
+export type PipelineCheckpointStage = 'balance' | 'sources' | 'section';
+
+/**
+ * Optional hooks for callers that report progress, persist checkpoints or cancel
+ */
+export interface PipelineHooks {
+  onProgress?: PipelineProgressCallback;
+  /** Artifacts from a previous run; completed phases and sections are skipped */
+  checkpoint?: PipelineCheckpoint;
+  /** Called as each artifact is produced ('section' is called once per finished section) */
+  onCheckpoint?: (stage: PipelineCheckpointStage, data: unknown) => void;
+  /** Checked between phases; returning true stops the run with a cancelled error */
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Thrown when a run is stopped through PipelineHooks.isCancelled
+ */
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Generation cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
 // =============================================================================
 // Main Orchestrator
 // =============================================================================
@@ -104,13 +202,39 @@ export const DEFAULT_ORCHESTRATOR_CONFIG: OrchestratorConfig = {
 /**
  * Generate a newsletter with per-audience topic and content isolation.
  * This is the main entry point for V4 generation.
+ *
+ * Hooks can report progress as each phase starts and completes (and as each
+ * audience section finishes), persist checkpoints, resume from a previous
+ * run's checkpoint, and cancel between phases.
  */
 export async function generateNewsletterPerAudience(
   params: PerAudienceGenerationParams,
   config: OrchestratorConfig = DEFAULT_ORCHESTRATOR_CONFIG,
-  mismatchResolutions?: MismatchResolution[]
+  mismatchResolutions?: MismatchResolution[],
+  hooks: PipelineHooks = {}
 ): Promise<PerAudienceNewsletterResult> {
   const startTime = Date.now();
+  const emit = (event: PipelineProgressEvent) => {
+    try {
+      hooks.onProgress?.(event);
+    } catch (error) {
+      // A broken listener must never fail the generation
+      console.error('[PerAudienceGenerator] Progress listener failed:', error);
+    }
+  };
+  const checkpoint = (stage: PipelineCheckpointStage, data: unknown) => {
+    try {
+      hooks.onCheckpoint?.(stage, data);
+    } catch (error) {
+      // Losing a checkpoint only costs a longer resume
+      console.error(`[PerAudienceGenerator] Failed to save ${stage} checkpoint:`, error);
+    }
+  };
+  const throwIfCancelled = () => {
+    if (hooks.isCancelled?.()) {
+      throw new PipelineCancelledError();
+    }
+  };
   const metrics = {
     totalTimeMs: 0,
     topicGenerationTimeMs: 0,
@@ -130,10 +254,19 @@ export async function generateNewsletterPerAudience(
     // PHASE 0: Topic-Audience Balancing
     // =========================================================================
     console.log('[PerAudienceGenerator] Phase 0: Topic-Audience Balancing');
+    emit({ type: 'phase_start', phase: 'balancing', message: 'Balancing topics across audiences' });
 
     let balanceResult: TopicAudienceBalanceResult;
+    const restoredBalance = hooks.checkpoint?.balance;
 
-    if (!params.selectedTopics || params.selectedTopics.length === 0) {
+    if (restoredBalance) {
+      // Resuming: topics were balanced (and orphans filled) by a previous run
+      console.log('[PerAudienceGenerator] Restored balanced topics from checkpoint');
+      balanceResult = {
+        ...restoredBalance,
+        balancedMap: deserializeBalancedMap(restoredBalance.balancedMap),
+      };
+    } else if (!params.selectedTopics || params.selectedTopics.length === 0) {
       // No topics selected - all audiences are orphaned
       console.log('[PerAudienceGenerator] No topics selected - will generate fresh for all audiences');
       balanceResult = {
@@ -161,12 +294,27 @@ export async function generateNewsletterPerAudience(
     }
 
     console.log(`[PerAudienceGenerator] Balance result: ${balanceResult.stats.matchedTopics} matched, ${balanceResult.stats.orphanedAudienceCount} orphaned audiences`);
+    emit({
+      type: 'phase_complete',
+      phase: 'balancing',
+      message: `${balanceResult.stats.matchedTopics} topics matched, ${balanceResult.stats.orphanedAudienceCount} audiences need topics`,
+    });
+
+    throwIfCancelled();
 
     // =========================================================================
     // PHASE 1: Parallel Topic Generation (for orphaned audiences)
     // =========================================================================
     console.log('[PerAudienceGenerator] Phase 1: Parallel Topic Generation');
     const topicGenStart = Date.now();
+    emit({
+      type: 'phase_start',
+      phase: 'topics',
+      message: balanceResult.orphanedAudiences.length > 0
+        ? `Generating topics for ${balanceResult.orphanedAudiences.length} audiences`
+        : 'All audiences have topics',
+      totalCount: balanceResult.orphanedAudiences.length,
+    });
 
     if (balanceResult.orphanedAudiences.length > 0) {
       console.log(`[PerAudienceGenerator] Generating fresh topics for ${balanceResult.orphanedAudiences.length} orphaned audiences`);
@@ -221,11 +369,22 @@ export async function generateNewsletterPerAudience(
 
     metrics.topicGenerationTimeMs = Date.now() - topicGenStart;
     console.log(`[PerAudienceGenerator] Phase 1 complete in ${metrics.topicGenerationTimeMs}ms`);
+    emit({
+      type: 'phase_complete',
+      phase: 'topics',
+      message: 'Topics ready',
+      durationMs: metrics.topicGenerationTimeMs,
+    });
+    if (!restoredBalance) {
+      checkpoint('balance', { ...balanceResult, balancedMap: serializeBalancedMap(balanceResult.balancedMap) });
+    }
+    throwIfCancelled();
 
     // =========================================================================
     // PHASE 2: Strategic Overlap Detection
     // =========================================================================
     console.log('[PerAudienceGenerator] Phase 2: Strategic Overlap Detection');
+    emit({ type: 'phase_start', phase: 'overlaps', message: 'Detecting strategic overlaps' });
 
     let appliedOverlaps: StrategicOverlap[] = [];
 
@@ -236,70 +395,39 @@ export async function generateNewsletterPerAudience(
       // Note: We don't automatically apply overlaps - they're informational
       // The orchestrator returns them for potential future use or display
     }
+    emit({ type: 'phase_complete', phase: 'overlaps', message: `Found ${appliedOverlaps.length} strategic overlaps` });
 
     // =========================================================================
     // PHASE 3: Parallel Source Allocation
     // =========================================================================
     console.log('[PerAudienceGenerator] Phase 3: Parallel Source Allocation');
     const sourceAllocStart = Date.now();
+    emit({ type: 'phase_start', phase: 'sources', message: 'Fetching and allocating sources' });
 
-    // Collect all unique topics across all audiences
-    const allTopics: string[] = [];
-    for (const topics of balanceResult.balancedMap.values()) {
-      for (const topic of topics) {
-        if (!allTopics.includes(topic.title)) {
-          allTopics.push(topic.title);
-        }
-      }
-    }
-
-    console.log(`[PerAudienceGenerator] Fetching sources for ${allTopics.length} unique topics`);
-
-    // Fetch sources using topic titles as keywords
-    const sourceResult = await sourceFetchingService.fetchAllSources({
-      keywords: allTopics,
-      limit: config.sourcesPerAllocation * params.audiences.length,
-    });
-    console.log(`[PerAudienceGenerator] Fetched ${sourceResult.articles.length} articles`);
-
-    // Allocate sources to each audience
-    const allocatedSources = new Map<string, SourceWithContent[]>();
-
-    for (const audience of params.audiences) {
-      const audienceTopics = balanceResult.balancedMap.get(audience.id) || [];
-      const topicTitles = audienceTopics.map(t => t.title);
-
-      if (topicTitles.length === 0) {
-        allocatedSources.set(audience.id, []);
-        continue;
-      }
-
-      // Allocate sources for this audience
-      const allocation = sourceAllocationService.allocateSourcesToAudiences(
-        topicTitles,
-        [audience], // Just this audience
-        sourceResult.articles,
-        config.sourcesPerAllocation
-      );
-
-      // Convert to SourceWithContent format
-      const audienceSources: SourceWithContent[] = allocation.allocations
-        .flatMap(a => a.sources)
-        .map(s => ({
-          url: s.url || '',
-          title: s.title,
-          content: undefined, // Will be fetched if needed
-          snippet: s.snippet,
-          publication: s.source, // Use source type as publication
-          category: s.source, // Use source type as category
-        }));
+    let allocatedSources: Map<string, SourceWithContent[]>;
+    let sourcesMessage: string;
 
-      allocatedSources.set(audience.id, audienceSources);
-      console.log(`[PerAudienceGenerator] Allocated ${audienceSources.length} sources to ${audience.name}`);
+    if (hooks.checkpoint?.sources) {
+      allocatedSources = new Map(Object.entries(hooks.checkpoint.sources));
+      sourcesMessage = 'Restored source allocations from checkpoint';
+      console.log('[PerAudienceGenerator] Restored source allocations from checkpoint');
+    } else {
+      const allocation = await fetchAndAllocateSources(params, config, balanceResult);
+      allocatedSources = allocation.allocatedSources;
+      sourcesMessage = `Allocated sources from ${allocation.articleCount} articles`;
+      checkpoint('sources', Object.fromEntries(allocatedSources));
     }
 
     metrics.sourceAllocationTimeMs = Date.now() - sourceAllocStart;
     console.log(`[PerAudienceGenerator] Phase 3 complete in ${metrics.sourceAllocationTimeMs}ms`);
+    emit({
+      type: 'phase_complete',
+      phase: 'sources',
+      message: sourcesMessage,
+      durationMs: metrics.sourceAllocationTimeMs,
+    });
+
+    throwIfCancelled();
 
     // =========================================================================
     // PHASE 4: Parallel Article Generation
@@ -324,24 +452,95 @@ export async function generateNewsletterPerAudience(
       throw new Error('No valid audience-topic combinations to generate');
     }
 
-    console.log(`[PerAudienceGenerator] Generating ${validParams.length} audience sections in parallel`);
+    // Sections finished by a previous run are reused as-is
+    const restoredSections = hooks.checkpoint?.sections || {};
+    const pendingParams = validParams.filter(p => !restoredSections[p.audience.id]);
+    const restoredCount = validParams.length - pendingParams.length;
+
+    console.log(`[PerAudienceGenerator] Generating ${pendingParams.length} audience sections in parallel (${restoredCount} restored)`);
+    emit({
+      type: 'phase_start',
+      phase: 'sections',
+      message: `Writing ${pendingParams.length} audience sections`,
+      completedCount: restoredCount,
+      totalCount: validParams.length,
+    });
+    for (const p of validParams) {
+      const restored = restoredSections[p.audience.id];
+      emit({
+        type: restored ? 'section_complete' : 'section_start',
+        phase: 'sections',
+        message: restored ? `Restored section for ${p.audience.name}` : `Writing section for ${p.audience.name}`,
+        audienceId: p.audience.id,
+        audienceName: p.audience.name,
+        section: restored?.section || {
+          audienceId: p.audience.id,
+          audienceName: p.audience.name,
+          sources: p.sources.map(src => ({ url: src.url, title: src.title })),
+        },
+        completedCount: restoredCount,
+        totalCount: validParams.length,
+      });
+    }
+
+    // Generate all sections in parallel, reporting and checkpointing each one as it settles
+    let settledCount = restoredCount;
+    const generatedSections = await generateAudienceSectionsParallel(pendingParams, (audience, result, error) => {
+      settledCount++;
+      if (result) checkpoint('section', result);
+      emit(result
+        ? {
+          type: 'section_complete',
+          phase: 'sections',
+          message: `Finished section for ${audience.name}`,
+          audienceId: audience.id,
+          audienceName: audience.name,
+          section: result.section,
+          completedCount: settledCount,
+          totalCount: validParams.length,
+          durationMs: result.generationTimeMs,
+        }
+        : {
+          type: 'section_error',
+          phase: 'sections',
+          message: `Section for ${audience.name} failed`,
+          audienceId: audience.id,
+          audienceName: audience.name,
+          error,
+          completedCount: settledCount,
+          totalCount: validParams.length,
+        });
+    });
 
-    // Generate all sections in parallel
-    const sectionResults = await generateAudienceSectionsParallel(validParams);
+    // Keep the audiences' order, not completion order
+    const sectionResults = validParams
+      .map(p => restoredSections[p.audience.id] || generatedSections.find(r => r.audienceId === p.audience.id))
+      .filter((r): r is AudienceSectionResult => !!r);
 
     metrics.contentGenerationTimeMs = Date.now() - contentGenStart;
     console.log(`[PerAudienceGenerator] Phase 4 complete in ${metrics.contentGenerationTimeMs}ms`);
+    emit({
+      type: 'phase_complete',
+      phase: 'sections',
+      message: `${sectionResults.length} of ${validParams.length} sections written`,
+      completedCount: sectionResults.length,
+      totalCount: validParams.length,
+      durationMs: metrics.contentGenerationTimeMs,
+    });
 
     // Calculate parallel efficiency
-    const totalSequentialTime = sectionResults.reduce((sum, r) => sum + r.generationTimeMs, 0);
+    const totalSequentialTime = generatedSections.reduce((sum, r) => sum + r.generationTimeMs, 0);
     metrics.parallelEfficiency = totalSequentialTime > 0
       ? metrics.contentGenerationTimeMs / totalSequentialTime
       : 1;
 
+    throwIfCancelled();
+
     // =========================================================================
     // PHASE 5: Merge & Finalize
     // =========================================================================
     console.log('[PerAudienceGenerator] Phase 5: Merge & Finalize');
+    emit({ type: 'phase_start', phase: 'merge', message: 'Merging sections into the newsletter' });
 
     // Build the final newsletter
     const newsletter = await buildFinalNewsletter(
@@ -353,6 +552,7 @@ export async function generateNewsletterPerAudience(
     console.log('[PerAudienceGenerator] Newsletter built successfully');
 
     metrics.totalTimeMs = Date.now() - startTime;
+    emit({ type: 'phase_complete', phase: 'merge', message: 'Newsletter ready', durationMs: metrics.totalTimeMs });
 
     console.log('[PerAudienceGenerator] ========================================');
     console.log(`[PerAudienceGenerator] Generation complete in ${metrics.totalTimeMs}ms`);
@@ -395,10 +595,99 @@ export async function generateNewsletterPerAudience(
   }
 }
 
+/**
+ * Shape a V4 result for JSON responses (the balancedMap is a Map and needs serializing)
+ */
+export function serializePerAudienceResult(result: PerAudienceNewsletterResult) {
+  return {
+    success: true,
+    newsletter: result.newsletter,
+    sectionResults: result.sectionResults.map(sr => ({
+      audienceId: sr.audienceId,
+      audienceName: sr.audienceName,
+      topicCount: sr.topics.length,
+      sourceCount: sr.sources.length,
+      generationTimeMs: sr.generationTimeMs,
+    })),
+    appliedOverlaps: result.appliedOverlaps,
+    balanceResult: {
+      ...result.balanceResult,
+      balancedMap: serializeBalancedMap(result.balanceResult.balancedMap),
+    },
+    metrics: result.metrics,
+  };
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
+/**
+ * Fetch sources for every balanced topic and allocate unique ones to each audience
+ */
+async function fetchAndAllocateSources(
+  params: PerAudienceGenerationParams,
+  config: OrchestratorConfig,
+  balanceResult: TopicAudienceBalanceResult
+): Promise<{ allocatedSources: Map<string, SourceWithContent[]>; articleCount: number }> {
+  // Collect all unique topics across all audiences
+  const allTopics: string[] = [];
+  for (const topics of balanceResult.balancedMap.values()) {
+    for (const topic of topics) {
+      if (!allTopics.includes(topic.title)) {
+        allTopics.push(topic.title);
+      }
+    }
+  }
+
+  console.log(`[PerAudienceGenerator] Fetching sources for ${allTopics.length} unique topics`);
+
+  // Fetch sources using topic titles as keywords
+  const sourceResult = await sourceFetchingService.fetchAllSources({
+    keywords: allTopics,
+    limit: config.sourcesPerAllocation * params.audiences.length,
+  });
+  console.log(`[PerAudienceGenerator] Fetched ${sourceResult.articles.length} articles`);
+
+  // Allocate sources to each audience
+  const allocatedSources = new Map<string, SourceWithContent[]>();
+
+  for (const audience of params.audiences) {
+    const audienceTopics = balanceResult.balancedMap.get(audience.id) || [];
+    const topicTitles = audienceTopics.map(t => t.title);
+
+    if (topicTitles.length === 0) {
+      allocatedSources.set(audience.id, []);
+      continue;
+    }
+
+    // Allocate sources for this audience
+    const allocation = sourceAllocationService.allocateSourcesToAudiences(
+      topicTitles,
+      [audience], // Just this audience
+      sourceResult.articles,
+      config.sourcesPerAllocation
+    );
+
+    // Convert to SourceWithContent format
+    const audienceSources: SourceWithContent[] = allocation.allocations
+      .flatMap(a => a.sources)
+      .map(s => ({
+        url: s.url || '',
+        title: s.title,
+        content: undefined, // Will be fetched if needed
+        snippet: s.snippet,
+        publication: s.source, // Use source type as publication
+        category: s.source, // Use source type as category
+      }));
+
+    allocatedSources.set(audience.id, audienceSources);
+    console.log(`[PerAudienceGenerator] Allocated ${audienceSources.length} sources to ${audience.name}`);
+  }
+
+  return { allocatedSources, articleCount: sourceResult.articles.length };
+}
+
 /**
  * Build the final EnhancedNewsletter from section results
  */
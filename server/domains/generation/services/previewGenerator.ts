@@ -1,47 +1,65 @@
 /**
  * Preview Generator Service
  *
- * Generates short persona previews for A/B comparison.
+ * Generates short persona previews for A/B comparison, and live previews
+ * of tones and flavors in the tone editor.
  *
  * @module domains/generation/services/previewGenerator
  *
  * Phase 12.0: Added for persona A/B preview feature
  */
-import { getAnthropicClient } from '../../../external/claude';
+import { getStageLlm, getResponseText } from '../../../external/llm';
 import type { WriterPersona } from '../../../../types';
 
+/**
+ * Writing style applied on top of (or instead of) a persona's voice
+ */
+export interface PreviewStyle {
+  /** Formatted tone instructions (see formatToneInstructions) */
+  toneInstructions?: string;
+  /** Formatted flavor instructions (see getFlavorInstructions) */
+  flavorInstructions?: string;
+}
+
 /**
  * Generate a short preview paragraph in a persona's voice
  *
- * @param persona - The writer persona to use
+ * Also used for live tone/flavor previews: pass a style, with or without a
+ * persona.
+ *
+ * @param persona - The writer persona to use (null for a neutral newsletter writer)
  * @param topic - The topic to write about
+ * @param style - Optional tone/flavor instructions to follow
  * @returns A 50-75 word paragraph in the persona's voice
  */
 export async function generatePersonaPreview(
-  persona: WriterPersona,
-  topic: string
+  persona: WriterPersona | null,
+  topic: string,
+  style: PreviewStyle = {}
 ): Promise<string> {
-  const client = await getAnthropicClient();
-
-  const prompt = `Write a single paragraph (50-75 words) introducing an article about "${topic}" in the voice of a writer with these characteristics:
+  const voice = persona
+    ? `in the voice of a writer with these characteristics:
 
 Name: ${persona.name}
 ${persona.tagline ? `Identity: "${persona.tagline}"` : ''}
 ${persona.writingStyle ? `Style: ${persona.writingStyle}` : ''}
 ${persona.expertise ? `Expertise: ${persona.expertise}` : ''}
 ${persona.values ? `Values: ${persona.values}` : ''}
-${persona.signatureElements?.length ? `Signature phrases: ${persona.signatureElements.join(', ')}` : ''}
+${persona.signatureElements?.length ? `Signature phrases: ${persona.signatureElements.join(', ')}` : ''}`
+    : 'as a newsletter writer.';
+
+  const prompt = `Write a single paragraph (50-75 words) introducing an article about "${topic}" ${voice}
+${style.toneInstructions ? `\nFollow this tone:\n${style.toneInstructions}` : ''}${style.flavorInstructions || ''}
 
-Write naturally as this persona would. Return ONLY the paragraph, no preamble or explanation.`;
+Write naturally${persona ? ' as this persona would' : ''}. Return ONLY the paragraph, no preamble or explanation.`;
 
-  const response = await client.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 200,
+  const llm = getStageLlm('preview', "claude-sonnet-4-20250514");
+  const response = await llm.chat({
+    maxTokens: 200,
     messages: [{ role: "user", content: prompt }]
   });
 
-  const textBlock = response.content.find(b => b.type === 'text');
-  return textBlock?.text || '';
+  return getResponseText(response) || '';
 }
 
 /**
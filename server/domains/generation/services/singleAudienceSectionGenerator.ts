@@ -14,9 +14,9 @@
  * 4. Easier debugging - can trace issues to specific audience
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { getAnthropicClient } from '../../../external/claude';
+import { getStageLlm, getResponseText } from '../../../external/llm';
 import * as personaDbService from '../../../services/personaDbService';
+import { attachKnowledgeBaseReferences } from '../../../services/knowledgeBaseGroundingService';
 import type {
   AudienceConfig,
   EnhancedAudienceSection,
@@ -25,24 +25,34 @@ import type {
   AudienceSectionResult,
   WriterPersona,
   SourceWithContent,
+  SectionGenerationInput,
 } from '../../../../types';
 
 // Import helpers
 import { getToneInstructions } from '../helpers/toneHelpers';
 import { getFlavorInstructions, getFlavorFormattingRules } from '../helpers/flavorHelpers';
-import { SPECIALIZATIONS } from '../helpers/audienceHelpers';
+import { getSpecialization } from '../helpers/audienceHelpers';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export interface SingleAudienceGenerationParams {
-  audience: AudienceConfig;
-  topics: TopicWithAudienceId[];
-  sources: SourceWithContent[];
-  tone: string;
-  flavors: string[];
-  personaId?: string;
+export interface SingleAudienceGenerationParams extends SectionGenerationInput {
+  /** Rewrite an existing section instead of writing it fresh */
+  rewrite?: SectionRewriteRequest;
+  /** Regenerating after citation verification failed: forbid anything outside the SOURCE list */
+  strictCitations?: StrictCitationRequest;
+}
+
+export interface SectionRewriteRequest {
+  currentSection: EnhancedAudienceSection;
+  /** e.g. "shorter", "more technical", "a different angle"; omit to regenerate */
+  instruction?: string;
+}
+
+export interface StrictCitationRequest {
+  /** URLs the failed version cited that aren't in the SOURCE list */
+  rejectedUrls: string[];
 }
 
 interface GeneratedSection {
@@ -102,7 +112,7 @@ function buildSystemPrompt(
   const flavorFormattingRules = getFlavorFormattingRules(flavors);
 
   // Get specialization details for richer context
-  const spec = SPECIALIZATIONS[audience.id];
+  const spec = getSpecialization(audience.id);
   const domainContext = spec?.domainExamples || audience.description;
 
   return `You are an expert newsletter writer for "AI for PI" - a newsletter helping professionals leverage AI tools in their work.
@@ -167,6 +177,50 @@ Return ONLY valid JSON matching this exact schema (no markdown, no explanation):
 }`;
 }
 
+/**
+ * Build the rewrite block appended to the user message
+ */
+function buildRewriteInstructions(rewrite: SectionRewriteRequest): string {
+  const { currentSection, instruction } = rewrite;
+
+  if (!instruction) {
+    return `
+REGENERATION:
+This section was already written once, titled "${currentSection.title}".
+Write a fresh version with a different title, opening and practical prompt.`;
+  }
+
+  return `
+REWRITE REQUEST - CRITICAL:
+Rewrite the CURRENT VERSION below following this instruction: "${instruction}"
+The instruction overrides the length requirements where they conflict.
+Keep the same sources, audience and tone. Only cite URLs from the SOURCE list above.
+
+CURRENT VERSION:
+${JSON.stringify({
+    title: currentSection.title,
+    whyItMatters: currentSection.whyItMatters,
+    content: currentSection.content,
+    practicalPrompt: currentSection.practicalPrompt,
+    cta: currentSection.cta,
+  }, null, 2)}`;
+}
+
+/**
+ * Build the strict citation block appended to the user message
+ */
+function buildStrictCitationInstructions(strict: StrictCitationRequest): string {
+  const rejected = strict.rejectedUrls.length > 0
+    ? `\nThe previous version was rejected for citing URLs that are NOT in the SOURCE list:\n${strict.rejectedUrls.map(url => `- ${url}`).join('\n')}`
+    : '\nThe previous version was rejected for not citing any URL from the SOURCE list.';
+
+  return `
+CITATION CONSTRAINTS - STRICT:${rejected}
+- Every <a href> in "content" and every entry in "sources" MUST be a URL from the SOURCE list, copied exactly
+- Cite at least one SOURCE URL
+- Never cite any other URL, even one you know exists; drop the claim instead`;
+}
+
 /**
  * Build user message with topics and sources
  */
@@ -174,7 +228,9 @@ function buildUserMessage(
   audience: AudienceConfig,
   topics: TopicWithAudienceId[],
   sources: SourceWithContent[],
-  personaInstructions: string
+  personaInstructions: string,
+  rewrite?: SectionRewriteRequest,
+  strictCitations?: StrictCitationRequest
 ): string {
   // Phase 16 fix: Include ALL rich context fields in the topic list
   // This ensures Claude has full context about each topic for proper article generation
@@ -191,7 +247,7 @@ function buildUserMessage(
   }).join('\n\n');
 
   const sourceList = sources.map((s, i) => {
-    const parts = [`SOURCE ${i + 1}: "${s.title}"`];
+    const parts = [`SOURCE ${i + 1}${s.kbDocumentId ? ' [KNOWLEDGE BASE]' : ''}: "${s.title}"`];
     parts.push(`URL: ${s.url}`);
     if (s.publication) parts.push(`Publication: ${s.publication}`);
     if (s.category) parts.push(`Category: ${s.category}`);
@@ -222,6 +278,8 @@ REQUIREMENTS:
 3. Write MINIMUM 250 words (4-5 substantive paragraphs) in the content field
 4. Cite sources with URLs from the SOURCE list above
 5. The practical prompt must be specific to this audience's actual work
+${sources.some(s => s.kbDocumentId) ? `6. [KNOWLEDGE BASE] sources are the editor's saved documents: cite them like any other source when relevant, and list kb:// URLs only in "sources", never in an <a href>
+` : ''}${rewrite ? buildRewriteInstructions(rewrite) : ''}${strictCitations ? buildStrictCitationInstructions(strictCitations) : ''}
 
 Generate the JSON now.`;
 }
@@ -238,7 +296,7 @@ export async function generateAudienceSection(
 ): Promise<AudienceSectionResult> {
   const startTime = Date.now();
 
-  const { audience, topics, sources, tone, flavors, personaId } = params;
+  const { audience, topics, sources, tone, flavors, personaId, rewrite, strictCitations } = params;
 
   console.log(`[SingleAudienceSection] generateAudienceSection START for: ${audience.name}`);
   console.log(`[SingleAudienceSection] Topics: ${topics.map(t => t.title).join(', ')}`);
@@ -268,22 +326,22 @@ export async function generateAudienceSection(
   // Build prompts
   const systemPrompt = buildSystemPrompt(audience, tone, flavors);
   const personaInstructions = buildPersonaInstructions(persona);
-  const userMessage = buildUserMessage(audience, topics, sources, personaInstructions);
-
-  // Call Claude
-  console.log(`[SingleAudienceSection] Calling Claude API...`);
-  const client = await getAnthropicClient();
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
+  const userMessage = buildUserMessage(audience, topics, sources, personaInstructions, rewrite, strictCitations);
+
+  // Call the section writer model
+  const llm = getStageLlm('section_writer', 'claude-sonnet-4-20250514');
+  console.log(`[SingleAudienceSection] Calling ${llm.provider} (${llm.model})...`);
+  const response = await llm.chat({
+    maxTokens: 4096,
     system: systemPrompt,
     messages: [{ role: 'user', content: userMessage }],
+    responseFormat: 'json',
   });
 
   // Extract text content
-  const textContent = response.content.find((c) => c.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error(`No text content in Claude response for ${audience.name}`);
+  const responseText = getResponseText(response);
+  if (!responseText) {
+    throw new Error(`No text content in ${llm.provider} response for ${audience.name}`);
   }
 
   console.log(`[SingleAudienceSection] Received response, parsing JSON...`);
@@ -292,15 +350,15 @@ export async function generateAudienceSection(
   let generatedSection: GeneratedSection;
   try {
     // Try to extract JSON from potential markdown wrapper
-    let jsonText = textContent.text.trim();
+    let jsonText = responseText.trim();
     if (jsonText.startsWith('```')) {
       jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
     }
     generatedSection = JSON.parse(jsonText);
   } catch (parseError) {
     console.error(`[SingleAudienceSection] Failed to parse JSON for ${audience.name}:`, parseError);
-    console.error('[SingleAudienceSection] Raw response:', textContent.text.substring(0, 500));
-    throw new Error(`Failed to parse Claude response for ${audience.name}: ${parseError}`);
+    console.error('[SingleAudienceSection] Raw response:', responseText.substring(0, 500));
+    throw new Error(`Failed to parse model response for ${audience.name}: ${parseError}`);
   }
 
   // Build the EnhancedAudienceSection
@@ -312,7 +370,7 @@ export async function generateAudienceSection(
     content: generatedSection.content,
     practicalPrompt: generatedSection.practicalPrompt,
     cta: generatedSection.cta,
-    sources: generatedSection.sources,
+    sources: attachKnowledgeBaseReferences(generatedSection.sources || [], sources),
     imagePrompt: generatedSection.imagePrompt,
   };
 
@@ -324,22 +382,36 @@ export async function generateAudienceSection(
     audienceName: audience.name,
     section,
     topics,
-    sources: generatedSection.sources,
+    sources: section.sources,
     generationTimeMs,
+    input: { audience, topics, sources, tone, flavors, personaId },
   };
 }
 
 /**
  * Generate sections for multiple audiences in parallel
+ *
+ * @param onSectionSettled - Optional callback fired as each section finishes or fails,
+ *   so callers can report progress before the slowest section is done
  */
 export async function generateAudienceSectionsParallel(
-  paramsList: SingleAudienceGenerationParams[]
+  paramsList: SingleAudienceGenerationParams[],
+  onSectionSettled?: (audience: AudienceConfig, result: AudienceSectionResult | null, error?: string) => void
 ): Promise<AudienceSectionResult[]> {
   console.log(`[SingleAudienceSection] generateAudienceSectionsParallel START - ${paramsList.length} sections`);
   const startTime = Date.now();
 
   const results = await Promise.allSettled(
-    paramsList.map((params) => generateAudienceSection(params))
+    paramsList.map(async (params) => {
+      try {
+        const result = await generateAudienceSection(params);
+        onSectionSettled?.(params.audience, result);
+        return result;
+      } catch (error) {
+        onSectionSettled?.(params.audience, null, error instanceof Error ? error.message : 'Unknown error');
+        throw error;
+      }
+    })
   );
 
   const successful: AudienceSectionResult[] = [];
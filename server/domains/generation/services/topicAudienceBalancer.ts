@@ -23,7 +23,7 @@ import type {
   BalancedTopicMap,
 } from '../../../../types';
 
-import { SPECIALIZATIONS } from '../helpers/audienceHelpers';
+import { getSpecialization } from '../helpers/audienceHelpers';
 
 // =============================================================================
 // Types
@@ -120,13 +120,13 @@ function buildMismatchInfo(
   selectedAudiences: AudienceConfig[],
   config: BalancerConfig
 ): MismatchInfo {
-  const originalSpec = SPECIALIZATIONS[topic.audienceId];
+  const originalSpec = getSpecialization(topic.audienceId);
   const originalCategoryId = originalSpec?.parentId;
   const originalAudienceName = originalSpec?.name || topic.audienceId;
 
   // Find audiences in the same category
   const sameCategoryOptions = selectedAudiences.filter((audience) => {
-    const spec = SPECIALIZATIONS[audience.id];
+    const spec = getSpecialization(audience.id);
     return spec?.parentId === originalCategoryId;
   });
 
@@ -231,7 +231,7 @@ export function applyMismatchResolutions(
   for (const [audienceId, topics] of balancedMap) {
     if (topics.length === 0) {
       // Find the audience config
-      const spec = SPECIALIZATIONS[audienceId];
+      const spec = getSpecialization(audienceId);
       if (spec) {
         orphanedAudiences.push({
           id: spec.id,
@@ -311,8 +311,8 @@ export function autoBalanceTopics(
 /**
  * Get the parent category for an audience ID
  */
-export function getParentCategory(audienceId: string): 'academic' | 'business' | null {
-  const spec = SPECIALIZATIONS[audienceId];
+export function getParentCategory(audienceId: string): string | null {
+  const spec = getSpecialization(audienceId);
   return spec?.parentId || null;
 }
 
@@ -327,7 +327,7 @@ export function getSameCategoryAudiences(
   if (!parentCategory) return [];
 
   return fromAudiences.filter((audience) => {
-    const spec = SPECIALIZATIONS[audience.id];
+    const spec = getSpecialization(audience.id);
     return spec?.parentId === parentCategory;
   });
 }
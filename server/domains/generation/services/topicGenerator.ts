@@ -12,8 +12,9 @@
  * ALL prompts, configurations, and logic in this file are EXACT copies from server.ts.
  * Do NOT modify any prompt text, model configurations, or agentic loop logic.
  */
-import Anthropic from '@anthropic-ai/sdk';
-import { getAnthropicClient, webSearchTool, searchGuidance } from '../../../external/claude';
+import { webSearchTool, searchGuidance } from '../../../external/claude';
+import { getStageLlm, getResponseText, getToolUseBlocks } from '../../../external/llm';
+import type { LlmMessage, LlmToolResultBlock } from '../../../external/llm';
 import { processToolCall } from '../../../external/brave';
 import {
   getAudienceDescription,
@@ -137,13 +138,13 @@ export async function generateTopicSuggestions(
     // Phase: Archaeology Bias Fix - Pass audience for dynamic example selection
     const userMessage = buildUserMessage(audienceDescription, dateRange, audience, sources);
 
-    let messages: Anthropic.Messages.MessageParam[] = [
+    const llm = getStageLlm('topic_agents', "claude-sonnet-4-20250514");
+    let messages: LlmMessage[] = [
       { role: "user", content: userMessage },
     ];
 
-    let response = await (await getAnthropicClient()).messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 2048,
+    let response = await llm.chat({
+      maxTokens: 2048,
       system: SYSTEM_PROMPT,
       tools: [webSearchTool],
       messages: messages,
@@ -151,14 +152,11 @@ export async function generateTopicSuggestions(
 
     // Handle tool calls with iteration cap (token optimization)
     let suggestIterations = 0;
-    while (response.stop_reason === "tool_use" && suggestIterations < MAX_SEARCH_ITERATIONS) {
+    while (response.stopReason === "tool_use" && suggestIterations < MAX_SEARCH_ITERATIONS) {
       suggestIterations++;
       console.log(`[TopicSuggestions] Agentic loop iteration ${suggestIterations}/${MAX_SEARCH_ITERATIONS}`);
 
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock =>
-          block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
 
       if (toolUseBlocks.length === 0) break;
 
@@ -167,7 +165,7 @@ export async function generateTopicSuggestions(
         content: response.content,
       });
 
-      const toolResultContent: Anthropic.Messages.ToolResultBlockParam[] = [];
+      const toolResultContent: LlmToolResultBlock[] = [];
       for (const toolUseBlock of toolUseBlocks) {
         const toolResult = await processToolCall(
           toolUseBlock.name,
@@ -185,9 +183,8 @@ export async function generateTopicSuggestions(
         content: toolResultContent,
       });
 
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2048,
+      response = await llm.chat({
+        maxTokens: 2048,
         system: SYSTEM_PROMPT,
         tools: [webSearchTool],
         messages: messages,
@@ -196,11 +193,9 @@ export async function generateTopicSuggestions(
 
     // If we hit max iterations and response is still tool_use, force a final text response
     // EXACT pattern from server.ts lines 1458-1482
-    if (suggestIterations >= MAX_SEARCH_ITERATIONS && response.stop_reason === "tool_use") {
+    if (suggestIterations >= MAX_SEARCH_ITERATIONS && response.stopReason === "tool_use") {
       console.log(`[TopicSuggestions] Reached max iterations, forcing final response`);
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock => block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
       messages.push({ role: "assistant", content: response.content });
       messages.push({
         role: "user",
@@ -213,25 +208,22 @@ export async function generateTopicSuggestions(
           { type: "text" as const, text: "Now please generate the topic suggestions based on the search results." }
         ],
       });
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2048,
+      response = await llm.chat({
+        maxTokens: 2048,
         system: SYSTEM_PROMPT,
         messages: messages,
       });
     }
 
-    const textBlock = response.content.find(
-      (block): block is Anthropic.Messages.TextBlock => block.type === "text"
-    );
+    const responseText = getResponseText(response);
 
-    if (!textBlock) {
-      throw new Error("No text response from Claude");
+    if (!responseText) {
+      throw new Error(`No text response from ${llm.provider} (${llm.model})`);
     }
 
     return {
       success: true,
-      text: textBlock.text,
+      text: responseText,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
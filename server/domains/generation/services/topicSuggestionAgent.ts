@@ -10,8 +10,9 @@
  * @module domains/generation/services/topicSuggestionAgent
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { getAnthropicClient, webSearchTool, searchGuidance } from '../../../external/claude';
+import { webSearchTool, searchGuidance } from '../../../external/claude';
+import { getStageLlm, getResponseText, getToolUseBlocks } from '../../../external/llm';
+import type { LlmMessage, LlmToolResultBlock } from '../../../external/llm';
 import { processToolCall } from '../../../external/brave';
 import { getDateRangeDescription } from '../helpers/dateHelpers';
 import type { SuggestedTopic } from '../../../../types';
@@ -216,15 +217,14 @@ async function executeAgenticLoop(
   userMessage: string,
   agentLabel: string
 ): Promise<string> {
-  const client = await getAnthropicClient();
+  const llm = getStageLlm('topic_agents', AGENT_MODEL);
 
-  let messages: Anthropic.Messages.MessageParam[] = [
+  let messages: LlmMessage[] = [
     { role: 'user', content: userMessage },
   ];
 
-  let response = await client.messages.create({
-    model: AGENT_MODEL,
-    max_tokens: 1024,
+  let response = await llm.chat({
+    maxTokens: 1024,
     system: systemPrompt,
     tools: [webSearchTool],
     messages: messages,
@@ -232,13 +232,11 @@ async function executeAgenticLoop(
 
   // Handle tool calls with iteration cap
   let iterations = 0;
-  while (response.stop_reason === 'tool_use' && iterations < MAX_SEARCH_ITERATIONS) {
+  while (response.stopReason === 'tool_use' && iterations < MAX_SEARCH_ITERATIONS) {
     iterations++;
     console.log(`[${agentLabel}] Agentic loop iteration ${iterations}/${MAX_SEARCH_ITERATIONS}`);
 
-    const toolUseBlocks = response.content.filter(
-      (block): block is Anthropic.Messages.ToolUseBlock => block.type === 'tool_use'
-    );
+    const toolUseBlocks = getToolUseBlocks(response);
 
     if (toolUseBlocks.length === 0) break;
 
@@ -247,7 +245,7 @@ async function executeAgenticLoop(
       content: response.content,
     });
 
-    const toolResultContent: Anthropic.Messages.ToolResultBlockParam[] = [];
+    const toolResultContent: LlmToolResultBlock[] = [];
     for (const toolUseBlock of toolUseBlocks) {
       const toolResult = await processToolCall(
         toolUseBlock.name,
@@ -265,9 +263,8 @@ async function executeAgenticLoop(
       content: toolResultContent,
     });
 
-    response = await client.messages.create({
-      model: AGENT_MODEL,
-      max_tokens: 1024,
+    response = await llm.chat({
+      maxTokens: 1024,
       system: systemPrompt,
       tools: [webSearchTool],
       messages: messages,
@@ -275,11 +272,9 @@ async function executeAgenticLoop(
   }
 
   // Force final response if max iterations reached
-  if (iterations >= MAX_SEARCH_ITERATIONS && response.stop_reason === 'tool_use') {
+  if (iterations >= MAX_SEARCH_ITERATIONS && response.stopReason === 'tool_use') {
     console.log(`[${agentLabel}] Reached max iterations, forcing final response`);
-    const toolUseBlocks = response.content.filter(
-      (block): block is Anthropic.Messages.ToolUseBlock => block.type === 'tool_use'
-    );
+    const toolUseBlocks = getToolUseBlocks(response);
     messages.push({ role: 'assistant', content: response.content });
     messages.push({
       role: 'user',
@@ -295,23 +290,20 @@ async function executeAgenticLoop(
         },
       ],
     });
-    response = await client.messages.create({
-      model: AGENT_MODEL,
-      max_tokens: 1024,
+    response = await llm.chat({
+      maxTokens: 1024,
       system: systemPrompt,
       messages: messages,
     });
   }
 
-  const textBlock = response.content.find(
-    (block): block is Anthropic.Messages.TextBlock => block.type === 'text'
-  );
+  const text = getResponseText(response);
 
-  if (!textBlock) {
-    throw new Error(`[${agentLabel}] No text response from Claude`);
+  if (!text) {
+    throw new Error(`[${agentLabel}] No text response from ${llm.provider} (${llm.model})`);
   }
 
-  return textBlock.text;
+  return text;
 }
 
 /**
@@ -13,8 +13,9 @@
  * ALL prompts, configurations, and logic in this file are EXACT copies from server.ts.
  * Do NOT modify any prompt text, model configurations, or agentic loop logic.
  */
-import Anthropic from '@anthropic-ai/sdk';
-import { getAnthropicClient, webSearchTool, searchGuidance } from '../../../external/claude';
+import { webSearchTool, searchGuidance } from '../../../external/claude';
+import { getStageLlm, getResponseText, getToolUseBlocks } from '../../../external/llm';
+import type { LlmMessage, LlmToolResultBlock } from '../../../external/llm';
 import { processToolCall } from '../../../external/brave';
 import {
   getAudienceDescription,
@@ -176,13 +177,13 @@ export async function generateTrendingTopics(
     // Phase: Archaeology Bias Fix - Pass audience for dynamic example selection
     const userMessage = buildTrendingUserMessage(audienceDescription, dateRange, audience);
 
-    let messages: Anthropic.Messages.MessageParam[] = [
+    const llm = getStageLlm('topic_agents', "claude-sonnet-4-20250514");
+    let messages: LlmMessage[] = [
       { role: "user", content: userMessage },
     ];
 
-    let response = await (await getAnthropicClient()).messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 2048,
+    let response = await llm.chat({
+      maxTokens: 2048,
       system: TRENDING_SYSTEM_PROMPT,
       tools: [webSearchTool],
       messages: messages,
@@ -190,14 +191,11 @@ export async function generateTrendingTopics(
 
     // Handle tool calls with iteration cap (token optimization)
     let trendingIterations = 0;
-    while (response.stop_reason === "tool_use" && trendingIterations < MAX_SEARCH_ITERATIONS) {
+    while (response.stopReason === "tool_use" && trendingIterations < MAX_SEARCH_ITERATIONS) {
       trendingIterations++;
       console.log(`[TrendingTopics] Agentic loop iteration ${trendingIterations}/${MAX_SEARCH_ITERATIONS}`);
 
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock =>
-          block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
 
       if (toolUseBlocks.length === 0) break;
 
@@ -206,7 +204,7 @@ export async function generateTrendingTopics(
         content: response.content,
       });
 
-      const toolResultContent: Anthropic.Messages.ToolResultBlockParam[] = [];
+      const toolResultContent: LlmToolResultBlock[] = [];
       for (const toolUseBlock of toolUseBlocks) {
         const toolResult = await processToolCall(
           toolUseBlock.name,
@@ -224,9 +222,8 @@ export async function generateTrendingTopics(
         content: toolResultContent,
       });
 
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2048,
+      response = await llm.chat({
+        maxTokens: 2048,
         system: TRENDING_SYSTEM_PROMPT,
         tools: [webSearchTool],
         messages: messages,
@@ -235,11 +232,9 @@ export async function generateTrendingTopics(
 
     // If we hit max iterations and response is still tool_use, force a final text response
     // EXACT pattern from server.ts lines 1619-1643
-    if (trendingIterations >= MAX_SEARCH_ITERATIONS && response.stop_reason === "tool_use") {
+    if (trendingIterations >= MAX_SEARCH_ITERATIONS && response.stopReason === "tool_use") {
       console.log(`[TrendingTopics] Reached max iterations, forcing final response`);
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock => block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
       messages.push({ role: "assistant", content: response.content });
       messages.push({
         role: "user",
@@ -252,25 +247,22 @@ export async function generateTrendingTopics(
           { type: "text" as const, text: "Now please generate the trending topics based on the search results." }
         ],
       });
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2048,
+      response = await llm.chat({
+        maxTokens: 2048,
         system: TRENDING_SYSTEM_PROMPT,
         messages: messages,
       });
     }
 
-    const textBlock = response.content.find(
-      (block): block is Anthropic.Messages.TextBlock => block.type === "text"
-    );
+    const responseText = getResponseText(response);
 
-    if (!textBlock) {
-      throw new Error("No text response from Claude");
+    if (!responseText) {
+      throw new Error(`No text response from ${llm.provider} (${llm.model})`);
     }
 
     return {
       success: true,
-      text: textBlock.text,
+      text: responseText,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -298,14 +290,14 @@ export async function generateTrendingTopicsWithSources(
 
     const userMessage = buildTrendingWithSourcesUserMessage(audienceDescription, sources);
 
-    let messages: Anthropic.Messages.MessageParam[] = [
+    const llm = getStageLlm('topic_agents', "claude-haiku-4-5-20251001");
+    let messages: LlmMessage[] = [
       { role: "user", content: userMessage },
     ];
 
     // Note: Uses Haiku model - MUST match server.ts line 1706
-    let response = await (await getAnthropicClient()).messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 2048,
+    let response = await llm.chat({
+      maxTokens: 2048,
       system: TRENDING_WITH_SOURCES_SYSTEM_PROMPT,
       tools: [webSearchTool],
       messages: messages,
@@ -313,14 +305,11 @@ export async function generateTrendingTopicsWithSources(
 
     // Handle tool calls with iteration cap (token optimization)
     let srcIterations = 0;
-    while (response.stop_reason === "tool_use" && srcIterations < MAX_SEARCH_ITERATIONS) {
+    while (response.stopReason === "tool_use" && srcIterations < MAX_SEARCH_ITERATIONS) {
       srcIterations++;
       console.log(`[TrendingWithSources] Agentic loop iteration ${srcIterations}/${MAX_SEARCH_ITERATIONS}`);
 
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock =>
-          block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
 
       if (toolUseBlocks.length === 0) break;
 
@@ -329,7 +318,7 @@ export async function generateTrendingTopicsWithSources(
         content: response.content,
       });
 
-      const toolResultContent: Anthropic.Messages.ToolResultBlockParam[] = [];
+      const toolResultContent: LlmToolResultBlock[] = [];
       for (const toolUseBlock of toolUseBlocks) {
         const toolResult = await processToolCall(
           toolUseBlock.name,
@@ -348,9 +337,8 @@ export async function generateTrendingTopicsWithSources(
       });
 
       // Note: Uses Haiku model - MUST match server.ts line 1749
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-haiku-4-5-20251001",
-        max_tokens: 2048,
+      response = await llm.chat({
+        maxTokens: 2048,
         system: TRENDING_WITH_SOURCES_SYSTEM_PROMPT,
         tools: [webSearchTool],
         messages: messages,
@@ -359,11 +347,9 @@ export async function generateTrendingTopicsWithSources(
 
     // If we hit max iterations and response is still tool_use, force a final text response
     // EXACT pattern from server.ts lines 1758-1782
-    if (srcIterations >= MAX_SEARCH_ITERATIONS && response.stop_reason === "tool_use") {
+    if (srcIterations >= MAX_SEARCH_ITERATIONS && response.stopReason === "tool_use") {
       console.log(`[TrendingWithSources] Reached max iterations, forcing final response`);
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock => block.type === "tool_use"
-      );
+      const toolUseBlocks = getToolUseBlocks(response);
       messages.push({ role: "assistant", content: response.content });
       messages.push({
         role: "user",
@@ -377,25 +363,22 @@ export async function generateTrendingTopicsWithSources(
         ],
       });
       // Note: Uses Haiku model - MUST match server.ts line 1776
-      response = await (await getAnthropicClient()).messages.create({
-        model: "claude-haiku-4-5-20251001",
-        max_tokens: 2048,
+      response = await llm.chat({
+        maxTokens: 2048,
         system: TRENDING_WITH_SOURCES_SYSTEM_PROMPT,
         messages: messages,
       });
     }
 
-    const textBlock = response.content.find(
-      (block): block is Anthropic.Messages.TextBlock => block.type === "text"
-    );
+    const responseText = getResponseText(response);
 
-    if (!textBlock) {
-      throw new Error("No text response from Claude");
+    if (!responseText) {
+      throw new Error(`No text response from ${llm.provider} (${llm.model})`);
     }
 
     return {
       success: true,
-      text: textBlock.text,
+      text: responseText,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
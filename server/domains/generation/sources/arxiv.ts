@@ -13,6 +13,7 @@
  * The 60-day window ensures fresh academic content.
  */
 
+import { fetchWithToolLimit } from '../../../control-plane/invocation/toolRateLimiter';
 import type { TrendingSource } from './types';
 
 /**
@@ -49,7 +50,7 @@ export const fetchArxivTopics = async (): Promise<TrendingSource[]> => {
     const categories = 'cat:cs.AI+OR+cat:stat.ML+OR+cat:cs.LG+OR+cat:cs.CV+OR+cat:q-bio';
     const query = `${categories}+AND+submittedDate:[${startDate}+TO+${endDate}]`;
 
-    const response = await fetch(
+    const response = await fetchWithToolLimit('source-arxiv', 
       `https://export.arxiv.org/api/query?search_query=${query}&start=0&max_results=30&sortBy=submittedDate&sortOrder=descending`
     );
     const xmlText = await response.text();
@@ -12,6 +12,7 @@
  * Do NOT modify the tag filter or article count.
  */
 
+import { fetchWithToolLimit } from '../../../control-plane/invocation/toolRateLimiter';
 import type { TrendingSource } from './types';
 
 /**
@@ -27,7 +28,7 @@ import type { TrendingSource } from './types';
 export const fetchDevToTopics = async (): Promise<TrendingSource[]> => {
   try {
     console.log("Fetching from Dev.to...");
-    const response = await fetch('https://dev.to/api/articles?tag=ai&top=7');
+    const response = await fetchWithToolLimit('source-devto', 'https://dev.to/api/articles?tag=ai&top=7');
     const articles = await response.json();
 
     const posts: TrendingSource[] = [];
@@ -13,6 +13,7 @@
  * The query is optimized for finding emerging AI tools.
  */
 
+import { fetchWithToolLimit } from '../../../control-plane/invocation/toolRateLimiter';
 import type { TrendingSource } from './types';
 
 /**
@@ -45,7 +46,7 @@ export const fetchGitHubTopics = async (): Promise<TrendingSource[]> => {
     // Search for repos either created recently OR updated recently
     const query = `(ai+OR+ml+OR+"machine learning"+OR+automation+OR+llm+OR+neural)+language:python+stars:>1000+(created:>${dateStr}+OR+pushed:>${dateStr})`;
 
-    const response = await fetch(
+    const response = await fetchWithToolLimit('source-github', 
       `https://api.github.com/search/repositories?q=${encodeURIComponent(query)}&sort=stars&order=desc&per_page=25`
     );
     const data = await response.json();
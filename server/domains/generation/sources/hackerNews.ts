@@ -12,6 +12,7 @@
  * Do NOT modify the AI keyword filter regex or story count.
  */
 
+import { fetchWithToolLimit } from '../../../control-plane/invocation/toolRateLimiter';
 import type { TrendingSource } from './types';
 
 /**
@@ -36,13 +37,13 @@ const aiKeywords = /\b(ai|ml|machine learning|neural|deep learning|llm|language
 export const fetchHackerNewsTopics = async (): Promise<TrendingSource[]> => {
   try {
     console.log("Fetching from HackerNews...");
-    const topStoriesRes = await fetch('https://hacker-news.firebaseio.com/v0/topstories.json');
+    const topStoriesRes = await fetchWithToolLimit('source-hackernews', 'https://hacker-news.firebaseio.com/v0/topstories.json');
     const storyIds = (await topStoriesRes.json()).slice(0, 50); // Fetch more to filter
 
     const allStories: TrendingSource[] = [];
     for (const id of storyIds) {
       try {
-        const storyRes = await fetch(`https://hacker-news.firebaseio.com/v0/item/${id}.json`);
+        const storyRes = await fetchWithToolLimit('source-hackernews', `https://hacker-news.firebaseio.com/v0/item/${id}.json`);
         const story = await storyRes.json();
         if (story && story.title && story.url) {
           allStories.push({
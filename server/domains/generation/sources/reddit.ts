@@ -13,6 +13,7 @@
  * These subreddits cover all 4 professional domains.
  */
 
+import { fetchWithToolLimit } from '../../../control-plane/invocation/toolRateLimiter';
 import type { TrendingSource } from './types';
 
 /**
@@ -55,7 +56,7 @@ export const fetchRedditTopics = async (): Promise<TrendingSource[]> => {
     for (const subreddit of subreddits) {
       try {
         // Fetch from past 2 months with higher limit to get 15-20 posts per subreddit
-        const response = await fetch(`https://www.reddit.com/r/${subreddit}/top.json?t=two_months&limit=25`, {
+        const response = await fetchWithToolLimit('source-reddit', `https://www.reddit.com/r/${subreddit}/top.json?t=two_months&limit=25`, {
           headers: { 'User-Agent': userAgent }
         });
         const data = await response.json();
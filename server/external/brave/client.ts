@@ -3,6 +3,7 @@
  *
  * Provides web search functionality via Brave Search API.
  * Includes caching, timeout handling, and graceful degradation.
+ * Calls wait their turn under the 'brave-search' tool rate limit.
  *
  * @module external/brave/client
  *
@@ -15,6 +16,7 @@
  */
 import * as apiKeyDbService from '../../services/apiKeyDbService';
 import { searchCache } from '../../cache/searchCache';
+import { withToolLimit, ToolRateLimitError } from '../../control-plane/invocation/toolRateLimiter';
 
 /**
  * Format Brave Search API results for Claude consumption
@@ -73,7 +75,7 @@ export const formatBraveSearchResults = (results: any): string => {
  * @returns Formatted search results or fallback message
  *
  * Configuration:
- * - Timeout: 10 seconds
+ * - Timeout: 10 seconds (from when the call leaves the 'brave-search' rate limit queue)
  * - Freshness: "pm" (past month)
  * - Result count: 10
  *
@@ -103,20 +105,24 @@ export const fetchBraveSearchResults = async (query: string): Promise<string> =>
   }
 
   try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10000); // 10-second timeout
-
-    const response = await fetch(`https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=10&freshness=pm`, {
-      method: "GET",
-      headers: {
-        "Accept": "application/json",
-        "X-Subscription-Token": apiKey,
-      },
-      signal: controller.signal,
+    const response = await withToolLimit('brave-search', async () => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 10000); // 10-second timeout
+
+      try {
+        return await fetch(`https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=10&freshness=pm`, {
+          method: "GET",
+          headers: {
+            "Accept": "application/json",
+            "X-Subscription-Token": apiKey,
+          },
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
     });
 
-    clearTimeout(timeout);
-
     if (!response.ok) {
       if (response.status === 429) {
         console.warn("[BraveSearch] Rate limit exceeded");
@@ -139,6 +145,10 @@ export const fetchBraveSearchResults = async (query: string): Promise<string> =>
 
     return formatBraveSearchResults(data);
   } catch (error) {
+    if (error instanceof ToolRateLimitError) {
+      console.warn(`[BraveSearch] ${error.message}`);
+      return RATE_LIMITED_MESSAGE; // Our own limit - not evidence the topic is fictional
+    }
     if (error instanceof Error && error.name === "AbortError") {
       console.warn("[BraveSearch] Request timeout");
     } else {
@@ -3,6 +3,8 @@
  *
  * Provides Anthropic client with API key management.
  * Keys are loaded from SQLite first, then environment variables.
+ * Every client reports its token usage to the usage ledger, and its calls
+ * wait their turn under the 'claude' tool rate limit (control-plane tiers).
  *
  * @module external/claude/client
  *
@@ -15,11 +17,38 @@
  */
 import Anthropic from '@anthropic-ai/sdk';
 import * as apiKeyDbService from '../../services/apiKeyDbService';
+import { recordClaudeUsage } from '../../services/usageService';
+import { withToolLimit } from '../../control-plane/invocation/toolRateLimiter';
 
 // Cache for Anthropic client (recreated if API key changes)
 let cachedAnthropicClient: Anthropic | null = null;
 let cachedApiKey: string | null = null;
 
+type MessagesCreate = (body: Anthropic.MessageCreateParams, options?: unknown) => Promise<unknown>;
+
+/**
+ * Report the token usage of every (non-streaming) messages.create call to the
+ * usage ledger. Calls run under the 'claude' tool limit, so callers receive a
+ * plain Promise rather than the SDK's APIPromise (no .withResponse()).
+ */
+const withUsageReporting = (client: Anthropic): Anthropic => {
+  const create = client.messages.create.bind(client.messages) as MessagesCreate;
+
+  const reportingCreate: MessagesCreate = (body, options) => {
+    const request = withToolLimit('claude', () => create(body, options));
+    if (!body.stream) {
+      request.then(
+        (message) => recordClaudeUsage(body.model, message as Anthropic.Message),
+        () => { /* the caller handles the failure; nothing was billed */ }
+      );
+    }
+    return request;
+  };
+
+  client.messages.create = reportingCreate as typeof client.messages.create;
+  return client;
+};
+
 /**
  * Get Anthropic client with API key from SQLite or env
  *
@@ -55,7 +84,7 @@ export const getAnthropicClient = async (): Promise<Anthropic> => {
   }
 
   // Create new client with updated API key
-  cachedAnthropicClient = new Anthropic({ apiKey });
+  cachedAnthropicClient = withUsageReporting(new Anthropic({ apiKey }));
   cachedApiKey = apiKey;
   return cachedAnthropicClient;
 };
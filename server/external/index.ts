@@ -8,3 +8,4 @@
 export * as claude from './claude';
 export * as stability from './stability';
 export * as brave from './brave';
+export * as llm from './llm';
@@ -0,0 +1,82 @@
+/**
+ * Claude LLM Provider
+ *
+ * Runs provider-neutral chat requests on the Anthropic Messages API through the
+ * shared client (which also reports usage to the ledger).
+ *
+ * @module external/llm/claudeProvider
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import { getAnthropicClient } from '../claude';
+import type {
+  LlmProvider,
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmStopReason,
+  LlmTextBlock,
+  LlmToolUseBlock,
+} from './types';
+
+const toStopReason = (reason: Anthropic.Messages.Message['stop_reason']): LlmStopReason => {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'end_turn';
+    case 'tool_use':
+      return 'tool_use';
+    case 'max_tokens':
+      return 'max_tokens';
+    default:
+      return 'other';
+  }
+};
+
+/**
+ * Keep the blocks the pipeline understands. Server-side tool blocks and
+ * thinking blocks are dropped; they can't be replayed on another backend.
+ */
+const toContent = (blocks: Anthropic.Messages.ContentBlock[]): Array<LlmTextBlock | LlmToolUseBlock> => {
+  const content: Array<LlmTextBlock | LlmToolUseBlock> = [];
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      content.push({ type: 'text', text: block.text });
+    } else if (block.type === 'tool_use') {
+      content.push({
+        type: 'tool_use',
+        id: block.id,
+        name: block.name,
+        input: block.input as Record<string, unknown>,
+      });
+    }
+  }
+  return content;
+};
+
+export const claudeProvider: LlmProvider = {
+  id: 'claude',
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const client = await getAnthropicClient();
+
+    const response = await client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.tools?.length ? { tools: request.tools } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      // Block shapes are the Anthropic ones, so messages pass through unchanged
+      messages: request.messages as Anthropic.Messages.MessageParam[],
+    });
+
+    return {
+      provider: 'claude',
+      model: response.model,
+      content: toContent(response.content),
+      stopReason: toStopReason(response.stop_reason),
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * LLM Provider Module
+ *
+ * Provider-neutral chat (text, tool use, JSON output) for the generation
+ * pipeline, with Claude and OpenAI-compatible backends selected per stage.
+ *
+ * @module external/llm
+ *
+ * ## Usage
+ * ```typescript
+ * const llm = getStageLlm('section_writer', 'claude-sonnet-4-20250514');
+ * const response = await llm.chat({ maxTokens: 4096, system, messages });
+ * const text = getResponseText(response);
+ * ```
+ */
+import { claudeProvider } from './claudeProvider';
+import { openAiCompatibleProvider } from './openAiCompatibleProvider';
+import { resolveStageModel } from './stageConfig';
+import type {
+  LlmProvider,
+  LlmProviderId,
+  LlmStage,
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmToolUseBlock,
+} from './types';
+
+const providers: Record<LlmProviderId, LlmProvider> = {
+  claude: claudeProvider,
+  openai: openAiCompatibleProvider,
+};
+
+/**
+ * Chat bound to a stage's provider and model
+ */
+export interface StageLlm {
+  stage: LlmStage;
+  provider: LlmProviderId;
+  model: string;
+  chat(request: Omit<LlmChatRequest, 'model'>): Promise<LlmChatResponse>;
+}
+
+/**
+ * Get the provider for an ID
+ */
+export const getLlmProvider = (id: LlmProviderId): LlmProvider => providers[id];
+
+/**
+ * Get a chat function for a pipeline stage
+ *
+ * @param stage - Pipeline stage (selects provider/model overrides)
+ * @param defaultClaudeModel - Model used on Claude when the stage has no model override
+ */
+export const getStageLlm = (stage: LlmStage, defaultClaudeModel: string): StageLlm => {
+  const { provider, model } = resolveStageModel(stage, defaultClaudeModel);
+  const backend = providers[provider];
+
+  return {
+    stage,
+    provider,
+    model,
+    chat: (request) => backend.chat({ ...request, model }),
+  };
+};
+
+/**
+ * Text of the response's first text block, or null if it has none
+ */
+export const getResponseText = (response: LlmChatResponse): string | null => {
+  const textBlock = response.content.find(block => block.type === 'text');
+  return textBlock?.type === 'text' ? textBlock.text : null;
+};
+
+/**
+ * Tool calls requested by a response
+ */
+export const getToolUseBlocks = (response: LlmChatResponse): LlmToolUseBlock[] =>
+  response.content.filter((block): block is LlmToolUseBlock => block.type === 'tool_use');
+
+export { LLM_STAGES, resolveStageModel, resolveStageProvider } from './stageConfig';
+export { getOpenAiCompatibleBaseUrl } from './openAiCompatibleProvider';
+export type {
+  LlmProvider,
+  LlmProviderId,
+  LlmStage,
+  LlmStageModel,
+  LlmMessage,
+  LlmContentBlock,
+  LlmTextBlock,
+  LlmToolUseBlock,
+  LlmToolResultBlock,
+  LlmTool,
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmStopReason,
+} from './types';
@@ -0,0 +1,203 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ *
+ * Runs provider-neutral chat requests against any server implementing the
+ * OpenAI Chat Completions API (vLLM, Ollama, llama.cpp server, LM Studio,
+ * OpenAI itself, or a stub server for offline tests).
+ *
+ * Configuration (environment):
+ * - OPENAI_COMPAT_BASE_URL: e.g. http://localhost:11434/v1 (required)
+ * - OPENAI_COMPAT_API_KEY: bearer token, if the server wants one
+ * - OPENAI_COMPAT_TIMEOUT_MS: request timeout (default 10 minutes)
+ *
+ * @module external/llm/openAiCompatibleProvider
+ */
+import { recordOpenAiCompatibleUsage } from '../../services/usageService';
+import { fetchWithToolLimit } from '../../control-plane/invocation/toolRateLimiter';
+import type {
+  LlmProvider,
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmMessage,
+  LlmStopReason,
+  LlmTextBlock,
+  LlmToolUseBlock,
+} from './types';
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Chat Completions wire format (the subset we use)
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAiMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAiChatCompletion {
+  model?: string;
+  choices: Array<{
+    message: { content: string | null; tool_calls?: OpenAiToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Get the configured server base URL (without trailing slash)
+ *
+ * @returns {string | null} Base URL or null if not configured
+ */
+export const getOpenAiCompatibleBaseUrl = (): string | null =>
+  process.env.OPENAI_COMPAT_BASE_URL?.replace(/\/+$/, '') || null;
+
+/**
+ * Translate neutral messages: tool results become `tool` messages and
+ * assistant tool_use blocks become `tool_calls`
+ */
+const toOpenAiMessages = (system: string | undefined, messages: LlmMessage[]): OpenAiMessage[] => {
+  const result: OpenAiMessage[] = system ? [{ role: 'system', content: system }] : [];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content } as OpenAiMessage);
+      continue;
+    }
+
+    const text = message.content
+      .filter((block): block is LlmTextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+
+    if (message.role === 'assistant') {
+      const toolCalls = message.content
+        .filter((block): block is LlmToolUseBlock => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          type: 'function' as const,
+          function: { name: block.name, arguments: JSON.stringify(block.input) },
+        }));
+      result.push({ role: 'assistant', content: text || null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) });
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        result.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.content });
+      }
+    }
+    if (text) {
+      result.push({ role: 'user', content: text });
+    }
+  }
+
+  return result;
+};
+
+const toStopReason = (finishReason: string | null): LlmStopReason => {
+  switch (finishReason) {
+    case 'stop':
+      return 'end_turn';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'length':
+      return 'max_tokens';
+    default:
+      return 'other';
+  }
+};
+
+const parseToolArguments = (args: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    // Small local models sometimes emit malformed arguments; let the tool fail on missing input
+    return {};
+  }
+};
+
+export const openAiCompatibleProvider: LlmProvider = {
+  id: 'openai',
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const baseUrl = getOpenAiCompatibleBaseUrl();
+    if (!baseUrl) {
+      throw new Error('OpenAI-compatible model server not configured. Set OPENAI_COMPAT_BASE_URL.');
+    }
+
+    const apiKey = process.env.OPENAI_COMPAT_API_KEY;
+    const timeoutMs = parseInt(process.env.OPENAI_COMPAT_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
+
+    const body = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: toOpenAiMessages(request.system, request.messages),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+            })),
+          }
+        : {}),
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    };
+
+    const response = await fetchWithToolLimit('llm-openai-compatible', `${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible server error (${response.status}): ${errorText.substring(0, 500)}`);
+    }
+
+    const completion = await response.json() as OpenAiChatCompletion;
+    const choice = completion.choices?.[0];
+    if (!choice) {
+      throw new Error('OpenAI-compatible server returned no choices');
+    }
+
+    const content: Array<LlmTextBlock | LlmToolUseBlock> = [];
+    if (choice.message.content) {
+      content.push({ type: 'text', text: choice.message.content });
+    }
+    for (const call of choice.message.tool_calls || []) {
+      content.push({
+        type: 'tool_use',
+        id: call.id,
+        name: call.function.name,
+        input: parseToolArguments(call.function.arguments),
+      });
+    }
+
+    const model = completion.model || request.model;
+    const usage = {
+      inputTokens: completion.usage?.prompt_tokens || 0,
+      outputTokens: completion.usage?.completion_tokens || 0,
+    };
+    recordOpenAiCompatibleUsage(model, usage);
+
+    return {
+      provider: 'openai',
+      model,
+      content,
+      // Some servers report 'stop' even when they return tool calls
+      stopReason: content.some(block => block.type === 'tool_use') ? 'tool_use' : toStopReason(choice.finish_reason),
+      usage,
+    };
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Per-Stage Model Configuration
+ *
+ * Each pipeline stage picks its provider and model from the environment, so
+ * e.g. topic agents can draft on a local model while sections stay on Claude.
+ *
+ * Resolution for a stage (STAGE = TOPIC_AGENTS, SECTION_WRITER, SHARED_ELEMENTS, PREVIEW,
+ * KNOWLEDGE_BASE):
+ * - Provider: LLM_<STAGE>_PROVIDER, else LLM_PROVIDER, else 'claude'
+ * - Model: LLM_<STAGE>_MODEL, else the call site's default Claude model
+ *   (provider 'claude') or OPENAI_COMPAT_MODEL (provider 'openai')
+ *
+ * @module external/llm/stageConfig
+ */
+import type { LlmProviderId, LlmStage, LlmStageModel } from './types';
+
+export const LLM_STAGES: LlmStage[] = ['topic_agents', 'section_writer', 'shared_elements', 'preview', 'knowledge_base'];
+
+const PROVIDER_IDS: LlmProviderId[] = ['claude', 'openai'];
+
+const envKey = (stage: LlmStage, setting: 'PROVIDER' | 'MODEL'): string =>
+  `LLM_${stage.toUpperCase()}_${setting}`;
+
+/**
+ * Resolve the provider a pipeline stage runs on
+ *
+ * @throws {Error} If the configured provider is unknown
+ */
+export const resolveStageProvider = (stage: LlmStage): LlmProviderId => {
+  const configured = (process.env[envKey(stage, 'PROVIDER')] || process.env.LLM_PROVIDER || 'claude').toLowerCase();
+  if (!PROVIDER_IDS.includes(configured as LlmProviderId)) {
+    throw new Error(
+      `Unknown LLM provider "${configured}" for stage ${stage}. Use one of: ${PROVIDER_IDS.join(', ')}.`
+    );
+  }
+  return configured as LlmProviderId;
+};
+
+/**
+ * Resolve the provider and model for a pipeline stage
+ *
+ * @param stage - Pipeline stage
+ * @param defaultClaudeModel - Model the stage uses when running on Claude without an override
+ * @throws {Error} If the provider is unknown or an OpenAI-compatible stage has no model
+ */
+export const resolveStageModel = (stage: LlmStage, defaultClaudeModel: string): LlmStageModel => {
+  const provider = resolveStageProvider(stage);
+  const override = process.env[envKey(stage, 'MODEL')];
+
+  if (override) {
+    return { stage, provider, model: override };
+  }
+
+  if (provider === 'claude') {
+    return { stage, provider, model: defaultClaudeModel };
+  }
+
+  const model = process.env.OPENAI_COMPAT_MODEL;
+  if (!model) {
+    throw new Error(
+      `No model configured for stage ${stage}. Set ${envKey(stage, 'MODEL')} or OPENAI_COMPAT_MODEL.`
+    );
+  }
+  return { stage, provider, model };
+};
@@ -0,0 +1,97 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-neutral chat request/response shapes used by the generation
+ * pipeline. Messages use Anthropic-style content blocks (text, tool_use,
+ * tool_result) so agentic loops read the same for every backend; each provider
+ * translates to and from its own wire format.
+ *
+ * @module external/llm/types
+ */
+
+export type LlmProviderId = 'claude' | 'openai';
+
+export interface LlmTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface LlmToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface LlmToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+}
+
+export type LlmContentBlock = LlmTextBlock | LlmToolUseBlock | LlmToolResultBlock;
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string | LlmContentBlock[];
+}
+
+/**
+ * Tool the model may call (JSON Schema input, same shape as Claude tools)
+ */
+export interface LlmTool {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface LlmChatRequest {
+  model: string;
+  maxTokens: number;
+  system?: string;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  /** Ask for a JSON object response (backends without native support rely on the prompt) */
+  responseFormat?: 'text' | 'json';
+  temperature?: number;
+}
+
+export type LlmStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'other';
+
+export interface LlmChatResponse {
+  provider: LlmProviderId;
+  model: string;
+  /** Assistant output: text and tool_use blocks, in order */
+  content: Array<LlmTextBlock | LlmToolUseBlock>;
+  stopReason: LlmStopReason;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+/**
+ * A chat backend
+ */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+}
+
+/**
+ * Pipeline stages whose model can be configured independently
+ */
+export type LlmStage = 'topic_agents' | 'section_writer' | 'shared_elements' | 'preview' | 'knowledge_base';
+
+/**
+ * Provider and model a stage runs on
+ */
+export interface LlmStageModel {
+  stage: LlmStage;
+  provider: LlmProviderId;
+  model: string;
+}
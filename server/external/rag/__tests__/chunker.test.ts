@@ -0,0 +1,114 @@
+/**
+ * Chunker Tests
+ *
+ * Tests chunk size and overlap bounds, boundary selection and hard splits
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { chunkText, getChunkOptions } from '../chunker';
+
+const words = (count: number): string[] =>
+  Array.from({ length: count }, (_, i) => `w${String(i).padStart(3, '0')}`);
+
+/** The overlap a chunk starts with (joined to the next piece by the first space) */
+const leadingOverlap = (chunk: string): string => chunk.slice(0, chunk.indexOf(' '));
+
+describe('chunker', () => {
+  describe('chunkText', () => {
+    it('returns no chunks for blank text', () => {
+      expect(chunkText('  \r\n\n ', { chunkSize: 200, overlap: 50 })).toEqual([]);
+    });
+
+    it('keeps short text in one chunk', () => {
+      expect(chunkText('First paragraph.\r\n\r\nSecond paragraph.', { chunkSize: 200, overlap: 50 }))
+        .toEqual(['First paragraph.\n\nSecond paragraph.']);
+    });
+
+    it('keeps chunks within the size and overlaps within the overlap, cut at word boundaries', () => {
+      const all = words(400);
+      const chunks = chunkText(all.join(' '), { chunkSize: 200, overlap: 50 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(200);
+
+      for (let i = 1; i < chunks.length; i++) {
+        const overlap = leadingOverlap(chunks[i]);
+        const previous = chunks[i - 1];
+
+        expect(overlap.length).toBeGreaterThan(0);
+        expect(overlap.length).toBeLessThanOrEqual(50);
+        expect(previous.endsWith(overlap)).toBe(true);
+        expect(previous[previous.length - overlap.length - 1]).toMatch(/\s/);
+      }
+
+      const covered = new Set(chunks.flatMap(chunk => chunk.split(/\s+/)));
+      expect([...covered].sort()).toEqual(all);
+    });
+
+    it('repeats nothing without overlap', () => {
+      const all = words(300);
+      const chunks = chunkText(all.join(' '), { chunkSize: 200, overlap: 0 });
+
+      expect(chunks.flatMap(chunk => chunk.split(/\s+/))).toEqual(all);
+      for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(200);
+    });
+
+    it('breaks on paragraphs before sentences', () => {
+      const first = 'Alpha sentence one. Alpha sentence two.';
+      const second = 'Beta sentence one. Beta sentence two.';
+      const chunks = chunkText(`${first}\n\n${second}`, { chunkSize: 60, overlap: 0 });
+
+      expect(chunks).toEqual([first, second]);
+    });
+
+    it('hard-splits long unbroken text without exceeding the chunk size', () => {
+      const text = 'x'.repeat(2500);
+      const chunks = chunkText(text, { chunkSize: 1000, overlap: 200 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(1000);
+
+      // Whole tail repeated: an unbroken run has no word boundary to cut at
+      for (const chunk of chunks.slice(1)) expect(leadingOverlap(chunk)).toBe('x'.repeat(200));
+
+      const rebuilt = chunks[0] + chunks.slice(1).map(chunk => chunk.slice(chunk.indexOf(' ') + 1)).join('');
+      expect(rebuilt).toBe(text);
+    });
+
+    it('hard-splits an unbroken run inside ordinary text', () => {
+      const run = 'y'.repeat(450);
+      const chunks = chunkText(`Short intro here. ${run} Short outro here.`, { chunkSize: 200, overlap: 50 });
+
+      for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(200);
+      expect(chunks.join('').replace(/[^y]/g, '').length).toBeGreaterThanOrEqual(450);
+    });
+  });
+
+  describe('getChunkOptions', () => {
+    afterEach(() => {
+      delete process.env.RAG_CHUNK_SIZE;
+      delete process.env.RAG_CHUNK_OVERLAP;
+    });
+
+    it('uses the defaults without configuration', () => {
+      expect(getChunkOptions()).toEqual({ chunkSize: 1200, overlap: 200 });
+    });
+
+    it('enforces the minimum chunk size', () => {
+      process.env.RAG_CHUNK_SIZE = '50';
+      expect(getChunkOptions().chunkSize).toBe(200);
+    });
+
+    it('keeps the overlap between zero and half the chunk size', () => {
+      process.env.RAG_CHUNK_SIZE = '300';
+      process.env.RAG_CHUNK_OVERLAP = '500';
+      expect(getChunkOptions()).toEqual({ chunkSize: 300, overlap: 150 });
+
+      process.env.RAG_CHUNK_OVERLAP = '-10';
+      expect(getChunkOptions().overlap).toBe(0);
+
+      process.env.RAG_CHUNK_OVERLAP = '0';
+      expect(getChunkOptions().overlap).toBe(0);
+    });
+  });
+});
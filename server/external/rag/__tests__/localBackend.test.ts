@@ -0,0 +1,104 @@
+/**
+ * Local Backend Tests
+ *
+ * Tests hybrid search: BM25 and embedding rankings fused by reciprocal rank
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../llm', () => ({
+  getStageLlm: vi.fn(),
+  getResponseText: vi.fn(),
+}));
+vi.mock('../../../services/ragChunkDbService', () => ({
+  searchChunksBm25: vi.fn(() => []),
+  getChunkEmbeddings: vi.fn(() => []),
+}));
+vi.mock('../embeddings', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../embeddings')>()),
+  getEmbeddingProvider: vi.fn(() => null),
+}));
+
+import * as ragChunkDb from '../../../services/ragChunkDbService';
+import { getEmbeddingProvider } from '../embeddings';
+import { localBackend } from '../localBackend';
+
+const hit = (id: number) => ({
+  id,
+  documentId: `doc-${id}`,
+  filename: `file-${id}.md`,
+  sourceUrl: null,
+  content: `chunk ${id}`,
+});
+
+const bm25 = (...ids: number[]) => ids.map((id, i) => ({ ...hit(id), score: -10 + i }));
+
+/** Stored embeddings ranked by similarity to the query vector [1, 0] in the given order */
+const embedded = (...ids: number[]) =>
+  ids.map((id, i) => ({ ...hit(id), embedding: [1, i] }));
+
+const useEmbeddings = () => {
+  vi.mocked(getEmbeddingProvider).mockReturnValue({
+    model: 'test-embed',
+    embed: vi.fn(async () => [[1, 0]]),
+  });
+};
+
+describe('localBackend search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getEmbeddingProvider).mockReturnValue(null);
+  });
+
+  it('keeps the BM25 order without embeddings', async () => {
+    vi.mocked(ragChunkDb.searchChunksBm25).mockReturnValue(bm25(3, 1, 2));
+
+    const matches = await localBackend.search('question', 5);
+
+    expect(matches.map(m => m.documentId)).toEqual(['doc-3', 'doc-1', 'doc-2']);
+    expect(matches[0].relevance).toBe(1);
+    expect(matches[1].relevance).toBeLessThan(1);
+    expect(matches[2].relevance).toBeLessThan(matches[1].relevance);
+    expect(ragChunkDb.getChunkEmbeddings).not.toHaveBeenCalled();
+  });
+
+  it('ranks chunks found by both searches above chunks found by one', async () => {
+    useEmbeddings();
+    vi.mocked(ragChunkDb.searchChunksBm25).mockReturnValue(bm25(1, 2));
+    vi.mocked(ragChunkDb.getChunkEmbeddings).mockReturnValue(embedded(3, 2));
+
+    const matches = await localBackend.search('question', 5);
+
+    // 2: 1/62 + 1/62; 1 and 3: 1/61 each (keyword hits come first on ties)
+    expect(matches.map(m => m.documentId)).toEqual(['doc-2', 'doc-1', 'doc-3']);
+    expect(matches[0].relevance).toBe(1);
+    expect(matches[1].relevance).toBeCloseTo((1 / 61) / (2 / 62), 2);
+    expect(matches[2].relevance).toBe(matches[1].relevance);
+  });
+
+  it('returns at most the limit', async () => {
+    useEmbeddings();
+    vi.mocked(ragChunkDb.searchChunksBm25).mockReturnValue(bm25(1, 2, 3, 4));
+    vi.mocked(ragChunkDb.getChunkEmbeddings).mockReturnValue(embedded(5, 6, 7));
+
+    const matches = await localBackend.search('question', 2);
+
+    expect(matches).toHaveLength(2);
+    expect(ragChunkDb.searchChunksBm25).toHaveBeenCalledWith('question', expect.any(Number), undefined);
+  });
+
+  it('falls back to BM25 when the query embedding fails', async () => {
+    vi.mocked(getEmbeddingProvider).mockReturnValue({
+      model: 'test-embed',
+      embed: vi.fn(async () => { throw new Error('embedding server down'); }),
+    });
+    vi.mocked(ragChunkDb.searchChunksBm25).mockReturnValue(bm25(2, 1));
+    vi.mocked(ragChunkDb.getChunkEmbeddings).mockReturnValue(embedded(1));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const matches = await localBackend.search('question', 5, { collectionIds: ['col-1'] });
+
+    expect(matches.map(m => m.documentId)).toEqual(['doc-2', 'doc-1']);
+    expect(ragChunkDb.searchChunksBm25).toHaveBeenCalledWith('question', expect.any(Number), ['col-1']);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Text Chunker
+ *
+ * Splits document text into overlapping chunks for the local backend,
+ * breaking on paragraphs, then sentences, then words, so chunks rarely cut
+ * a sentence in half.
+ *
+ * Configuration (environment):
+ * - RAG_CHUNK_SIZE: target characters per chunk (default 1200)
+ * - RAG_CHUNK_OVERLAP: characters repeated from the end of the previous chunk (default 200)
+ *
+ * @module external/rag/chunker
+ */
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_CHUNK_OVERLAP = 200;
+const MIN_CHUNK_SIZE = 200;
+
+export interface ChunkOptions {
+  chunkSize: number;
+  overlap: number;
+}
+
+/**
+ * Chunking settings from the environment
+ */
+export const getChunkOptions = (): ChunkOptions => {
+  const chunkSize = Math.max(
+    MIN_CHUNK_SIZE,
+    parseInt(process.env.RAG_CHUNK_SIZE || '', 10) || DEFAULT_CHUNK_SIZE
+  );
+  const configuredOverlap = parseInt(process.env.RAG_CHUNK_OVERLAP || '', 10);
+  const overlap = Number.isNaN(configuredOverlap) ? DEFAULT_CHUNK_OVERLAP : configuredOverlap;
+
+  return { chunkSize, overlap: Math.min(Math.max(0, overlap), Math.floor(chunkSize / 2)) };
+};
+
+/**
+ * Split text into pieces no longer than maxLength, on the coarsest boundary that fits
+ */
+const splitToFit = (text: string, maxLength: number): string[] => {
+  if (text.length <= maxLength) return [text];
+
+  for (const separator of [/\n\s*\n/, /(?<=[.!?])\s+/, /\s+/]) {
+    const parts = text.split(separator).filter(part => part.trim());
+    if (parts.length > 1) {
+      return parts.flatMap(part => splitToFit(part.trim(), maxLength));
+    }
+  }
+
+  // A single unbroken run longer than a chunk: hard split
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += maxLength) {
+    pieces.push(text.substring(i, i + maxLength));
+  }
+  return pieces;
+};
+
+/**
+ * The tail of a chunk repeated at the start of the next one, cut at a word boundary
+ */
+const overlapTail = (chunk: string, overlap: number): string => {
+  if (overlap === 0) return '';
+  if (chunk.length <= overlap) return chunk;
+
+  const tail = chunk.substring(chunk.length - overlap);
+  const wordStart = tail.search(/\s/);
+  return wordStart === -1 ? tail : tail.substring(wordStart + 1);
+};
+
+/**
+ * Split text into overlapping chunks
+ */
+export const chunkText = (text: string, options: ChunkOptions = getChunkOptions()): string[] => {
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+  if (!normalized) return [];
+
+  // Room for a piece after an overlap tail and the space joining them
+  const maxPieceLength = options.overlap > 0 ? options.chunkSize - options.overlap - 1 : options.chunkSize;
+  const pieces = splitToFit(normalized, maxPieceLength);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > options.chunkSize) {
+      chunks.push(current);
+      const tail = overlapTail(current, options.overlap);
+      current = tail ? `${tail} ${piece}` : piece;
+    } else {
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+};
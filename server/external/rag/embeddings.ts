@@ -0,0 +1,104 @@
+/**
+ * Local Embeddings
+ *
+ * Optional embeddings for the local backend's hybrid search. Without a
+ * provider the local backend ranks by BM25 alone.
+ *
+ * The default provider calls an OpenAI-compatible /embeddings endpoint
+ * (Ollama, vLLM, llama.cpp server, LM Studio), configured with:
+ * - RAG_EMBEDDING_MODEL: embedding model name (required to enable embeddings)
+ * - RAG_EMBEDDING_BASE_URL: base URL including /v1 (default OPENAI_COMPAT_BASE_URL)
+ * - OPENAI_COMPAT_API_KEY: bearer token, if the server wants one
+ *
+ * Other providers (e.g. an in-process model) can be plugged in with
+ * setEmbeddingProvider.
+ *
+ * @module external/rag/embeddings
+ */
+import { getOpenAiCompatibleBaseUrl } from '../llm';
+import { fetchWithToolLimit } from '../../control-plane/invocation/toolRateLimiter';
+
+const EMBEDDING_TIMEOUT_MS = 60 * 1000;
+const EMBEDDING_BATCH_SIZE = 32;
+
+export interface EmbeddingProvider {
+  /** Stored with each vector; vectors from different models are never compared */
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// undefined = use the environment; null = embeddings explicitly disabled
+let pluggedProvider: EmbeddingProvider | null | undefined;
+
+/**
+ * Embeddings from an OpenAI-compatible /embeddings endpoint
+ */
+const createOpenAiCompatibleEmbeddings = (baseUrl: string, model: string): EmbeddingProvider => ({
+  model,
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const apiKey = process.env.OPENAI_COMPAT_API_KEY;
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await fetchWithToolLimit('rag-embeddings', `${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts.slice(i, i + EMBEDDING_BATCH_SIZE) }),
+        signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding server error (${response.status}): ${errorText.substring(0, 300)}`);
+      }
+
+      const result = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+      vectors.push(...[...result.data].sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+
+    return vectors;
+  },
+});
+
+/**
+ * Plug in an embedding provider (null disables embeddings, undefined restores
+ * the environment configuration)
+ */
+export const setEmbeddingProvider = (provider: EmbeddingProvider | null | undefined): void => {
+  pluggedProvider = provider;
+};
+
+/**
+ * The active embedding provider, or null when embeddings aren't configured
+ */
+export const getEmbeddingProvider = (): EmbeddingProvider | null => {
+  if (pluggedProvider !== undefined) return pluggedProvider;
+
+  const model = process.env.RAG_EMBEDDING_MODEL;
+  const baseUrl = process.env.RAG_EMBEDDING_BASE_URL?.replace(/\/+$/, '') || getOpenAiCompatibleBaseUrl();
+  if (!model || !baseUrl) return null;
+
+  return createOpenAiCompatibleEmbeddings(baseUrl, model);
+};
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or they differ in length)
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
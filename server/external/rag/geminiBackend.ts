@@ -0,0 +1,288 @@
+/**
+ * Gemini File Search RAG Backend
+ *
+ * Indexes documents into one persistent Gemini FileSearchStore (its name is
+ * kept in rag_config) and answers with Gemini grounded on the store.
+ *
+ * Gemini FileSearchStore doesn't support per-file deletion, so deleted
+ * documents stay in the store; they are only removed from the local records.
+ *
+ * A document's collection is attached as custom metadata (collection_id) when
+ * it is uploaded, and scoped queries filter on it. Gemini keeps the metadata
+ * from upload time, so a document moved to another collection afterwards is
+ * still found under its original collection until it is re-indexed.
+ *
+ * @module external/rag/geminiBackend
+ */
+import { GoogleGenAI } from '@google/genai';
+import { getApiKey, getAdminEmail } from '../../services/credentialLoader';
+import * as ragDb from '../../services/ragDbService';
+import { recordGeminiUsage } from '../../services/usageService';
+import { withToolLimit } from '../../control-plane/invocation/toolRateLimiter';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { RagBackend, RagChatRequest, RagChatResult, RagIndexResult, RagSearchMatch, RagSearchScope } from './types';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const STORAGE_PREFIX = 'ai-newsletter-kb';
+const COLLECTION_METADATA_KEY = 'collection_id';
+
+let aiClient: GoogleGenAI | null = null;
+let persistentStoreName: string | null = null;
+
+interface GroundingChunk {
+  retrievedContext?: { uri?: string; title?: string; text?: string };
+}
+
+/**
+ * Initialize or retrieve the Gemini AI client
+ */
+function getAiClient(): GoogleGenAI | null {
+  if (aiClient) return aiClient;
+
+  const adminEmail = getAdminEmail();
+  const apiKey = getApiKey('google_api_key', adminEmail || undefined);
+
+  if (!apiKey) {
+    console.warn('[GeminiRag] No Google API key found - Gemini backend disabled');
+    return null;
+  }
+
+  try {
+    aiClient = new GoogleGenAI({ apiKey });
+    console.log('[GeminiRag] Gemini AI client initialized');
+    return aiClient;
+  } catch (error) {
+    console.error('[GeminiRag] Failed to initialize Gemini client:', error);
+    return null;
+  }
+}
+
+/**
+ * Get or create the persistent FileSearchStore
+ * Unlike ephemeral sessions, this store persists across app restarts
+ */
+export async function getOrCreatePersistentStore(storagePrefix = STORAGE_PREFIX): Promise<string | null> {
+  const ai = getAiClient();
+  if (!ai) return null;
+
+  // Check if we already have a store name in memory
+  if (persistentStoreName) {
+    return persistentStoreName;
+  }
+
+  // Check if store name is saved in config
+  const dbConfig = ragDb.getConfig();
+  if (dbConfig.geminiCacheName) {
+    // Verify the store still exists
+    try {
+      await ai.fileSearchStores.get({ name: dbConfig.geminiCacheName });
+      persistentStoreName = dbConfig.geminiCacheName;
+      console.log(`[GeminiRag] Using existing store: ${persistentStoreName}`);
+      return persistentStoreName;
+    } catch (error) {
+      console.warn('[GeminiRag] Stored FileSearchStore no longer exists, creating new one');
+    }
+  }
+
+  // Create new persistent store
+  try {
+    const displayName = `${storagePrefix}-${Date.now()}`;
+    console.log(`[GeminiRag] Creating new persistent store: ${displayName}`);
+
+    const store = await ai.fileSearchStores.create({
+      config: { displayName },
+    });
+
+    persistentStoreName = store.name || null;
+
+    // Save to database config
+    ragDb.updateConfig({ geminiCacheName: store.name });
+
+    console.log(`[GeminiRag] Store created: ${store.name}`);
+    return persistentStoreName;
+  } catch (error) {
+    console.error('[GeminiRag] Failed to create persistent store:', error);
+    return null;
+  }
+}
+
+/**
+ * File Search metadata filter (AIP-160) matching documents in any of the
+ * scope's collections
+ */
+function toMetadataFilter(scope?: RagSearchScope): string | undefined {
+  if (!scope?.collectionIds || scope.collectionIds.length === 0) return undefined;
+  return scope.collectionIds
+    .map(id => `${COLLECTION_METADATA_KEY} = "${id.replace(/["\\]/g, '')}"`)
+    .join(' OR ');
+}
+
+/**
+ * Run a prompt grounded on the store
+ */
+async function generateGrounded(
+  prompt: string,
+  modelName: string,
+  operation: string,
+  scope?: RagSearchScope
+): Promise<{ text: string; chunks: GroundingChunk[] }> {
+  const ai = getAiClient();
+  const storeName = await getOrCreatePersistentStore();
+  if (!ai || !storeName) {
+    throw new Error('Gemini File Search store not available');
+  }
+
+  const response = await withToolLimit('gemini-rag', () => ai.models.generateContent({
+    model: modelName,
+    contents: prompt,
+    config: {
+      tools: [
+        {
+          fileSearch: {
+            fileSearchStoreNames: [storeName],
+            metadataFilter: toMetadataFilter(scope),
+          },
+        },
+      ],
+    },
+  }));
+
+  recordGeminiUsage(modelName, response.usageMetadata, operation);
+
+  const groundingMetadata = (response as any).groundingMetadata;
+  return {
+    text: response.text || '',
+    chunks: groundingMetadata?.groundingChunks || [],
+  };
+}
+
+export const geminiBackend: RagBackend = {
+  id: 'gemini',
+
+  isAvailable(): boolean {
+    const adminEmail = getAdminEmail();
+    return !!getApiKey('google_api_key', adminEmail || undefined);
+  },
+
+  async indexDocument(document: ragDb.RagDocument, content: string): Promise<RagIndexResult> {
+    const storeName = await getOrCreatePersistentStore();
+    if (!storeName) {
+      throw new Error('Failed to get or create persistent store');
+    }
+
+    const ai = getAiClient();
+    if (!ai) {
+      throw new Error('AI client not available');
+    }
+
+    // Create temp file for upload
+    const tempDir = path.join(os.tmpdir(), 'persistent-rag');
+    if (!fs.existsSync(tempDir)) {
+      fs.mkdirSync(tempDir, { recursive: true });
+    }
+
+    // Sanitize filename and limit length to avoid ENAMETOOLONG errors
+    const safeFilename = document.filename.replace(/[^a-zA-Z0-9-_.]/g, '_').substring(0, 100);
+    // Determine file extension for mimeType inference
+    const extension = document.contentType === 'pdf' ? '.pdf' : '.txt';
+    const tempFilePath = path.join(tempDir, `${document.id}-${safeFilename}${extension}`);
+
+    try {
+      fs.writeFileSync(tempFilePath, content, 'utf-8');
+
+      // Upload to Gemini FileSearchStore
+      const uploadResult = await ai.fileSearchStores.uploadToFileSearchStore({
+        fileSearchStoreName: storeName,
+        file: tempFilePath,
+        config: {
+          displayName: document.filename.substring(0, 100),
+          customMetadata: document.collectionId
+            ? [{ key: COLLECTION_METADATA_KEY, stringValue: document.collectionId }]
+            : undefined,
+        },
+      });
+
+      return { backendFileId: uploadResult.name || null };
+    } finally {
+      // Cleanup temp file
+      try {
+        if (fs.existsSync(tempFilePath)) {
+          fs.unlinkSync(tempFilePath);
+        }
+      } catch { /* ignore cleanup errors */ }
+    }
+  },
+
+  async deleteDocument(): Promise<void> {
+    // FileSearchStore has no per-file deletion; the document is dropped from local records only
+  },
+
+  async search(query: string, limit: number, scope?: RagSearchScope): Promise<RagSearchMatch[]> {
+    const { chunks } = await generateGrounded(
+      `Find passages in the indexed documents about: ${query}`,
+      DEFAULT_MODEL,
+      'rag_search',
+      scope
+    );
+
+    // Grounding chunks name the uploaded file (its display name), not the local
+    // record; map them back by filename so matches can be cited
+    const documents = ragDb.getDocuments({ status: 'indexed' });
+    const findDocument = (title?: string) => documents.find(d => d.filename.substring(0, 100) === title);
+
+    // Drop passages from documents since moved out of the scope
+    const collectionIds = scope?.collectionIds || [];
+    const inScope = (chunk: GroundingChunk) => {
+      if (collectionIds.length === 0) return true;
+      const document = findDocument(chunk.retrievedContext?.title);
+      return !document || (!!document.collectionId && collectionIds.includes(document.collectionId));
+    };
+
+    const matches = chunks.filter(chunk => chunk.retrievedContext?.text && inScope(chunk)).slice(0, limit);
+    return matches.map((chunk, index) => {
+      const document = findDocument(chunk.retrievedContext!.title);
+      return {
+        documentId: document?.id || chunk.retrievedContext!.uri || 'unknown',
+        filename: document?.filename || chunk.retrievedContext!.title || 'Unknown source',
+        sourceUrl: document?.sourceUrl || null,
+        text: chunk.retrievedContext!.text!,
+        relevance: 1 - index / Math.max(matches.length, 1),
+      };
+    });
+  },
+
+  async chat(request: RagChatRequest): Promise<RagChatResult> {
+    // Build conversation context
+    const conversationContext = request.history
+      .slice(-10) // Last 10 messages for context
+      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+
+    const prompt = conversationContext
+      ? `Previous conversation:\n${conversationContext}\n\nUser: ${request.message}\n\nBased on the knowledge base documents, please respond to the user's message. If the information isn't in the knowledge base, say so clearly.`
+      : `User question: ${request.message}\n\nBased on the knowledge base documents, please provide a helpful response. If the information isn't in the knowledge base, say so clearly.`;
+
+    const { text, chunks } = await generateGrounded(
+      prompt,
+      request.modelName || DEFAULT_MODEL,
+      'rag_chat',
+      request.scope
+    );
+
+    // Extract grounding/source information
+    const sources: ragDb.SourceReference[] = [];
+    for (const chunk of chunks) {
+      if (chunk.retrievedContext) {
+        sources.push({
+          documentId: chunk.retrievedContext.uri || 'unknown',
+          filename: chunk.retrievedContext.title || 'Unknown source',
+          snippet: chunk.retrievedContext.text?.substring(0, 200),
+        });
+      }
+    }
+
+    return { response: text || 'No response generated.', sources };
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * RAG Backend Module
+ *
+ * Storage and retrieval for the persistent knowledge base, with a Gemini File
+ * Search backend and a local SQLite (FTS5 + optional embeddings) backend.
+ *
+ * Backend selection (environment):
+ * - RAG_BACKEND=gemini|local
+ * - Unset: gemini when a Google API key is configured, otherwise local
+ *
+ * Documents are searchable only on the backend that indexed them; switching
+ * backends means re-indexing.
+ *
+ * @module external/rag
+ *
+ * ## Usage
+ * ```typescript
+ * const backend = getRagBackend();
+ * const { response, sources } = await backend.chat({ message, history });
+ * ```
+ */
+import { geminiBackend } from './geminiBackend';
+import { localBackend } from './localBackend';
+import type { RagBackend, RagBackendId } from './types';
+
+const backends: Record<RagBackendId, RagBackend> = {
+  gemini: geminiBackend,
+  local: localBackend,
+};
+
+/**
+ * The configured backend ID
+ *
+ * @throws {Error} If RAG_BACKEND names an unknown backend
+ */
+export const getRagBackendId = (): RagBackendId => {
+  const configured = process.env.RAG_BACKEND?.trim().toLowerCase();
+  if (configured) {
+    if (!(configured in backends)) {
+      throw new Error(`Invalid RAG_BACKEND "${configured}" (expected one of: ${Object.keys(backends).join(', ')})`);
+    }
+    return configured as RagBackendId;
+  }
+
+  return geminiBackend.isAvailable() ? 'gemini' : 'local';
+};
+
+/**
+ * Get the configured backend
+ */
+export const getRagBackend = (): RagBackend => backends[getRagBackendId()];
+
+export { getOrCreatePersistentStore } from './geminiBackend';
+export { chunkText, getChunkOptions } from './chunker';
+export { setEmbeddingProvider, getEmbeddingProvider } from './embeddings';
+export type { ChunkOptions } from './chunker';
+export type { EmbeddingProvider } from './embeddings';
+export type {
+  RagBackend,
+  RagBackendId,
+  RagIndexResult,
+  RagSearchMatch,
+  RagSearchScope,
+  RagChatTurn,
+  RagChatRequest,
+  RagChatResult,
+} from './types';
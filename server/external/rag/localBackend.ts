@@ -0,0 +1,190 @@
+/**
+ * Local RAG Backend
+ *
+ * Offline knowledge base: documents are chunked into SQLite (rag_chunks),
+ * searched with FTS5/BM25, and - when an embedding provider is configured -
+ * also by cosine similarity, with both rankings merged by reciprocal rank
+ * fusion. Retrieved chunks are answered over by the KNOWLEDGE_BASE model stage
+ * (Claude or an OpenAI-compatible server), so nothing needs a Google key.
+ *
+ * @module external/rag/localBackend
+ */
+import { getStageLlm, getResponseText } from '../llm';
+import * as ragChunkDb from '../../services/ragChunkDbService';
+import type { RagDocument, SourceReference } from '../../services/ragDbService';
+import { chunkText } from './chunker';
+import { getEmbeddingProvider, cosineSimilarity } from './embeddings';
+import type { RagBackend, RagChatRequest, RagChatResult, RagIndexResult, RagSearchMatch, RagSearchScope } from './types';
+
+const DEFAULT_CHAT_MODEL = 'claude-sonnet-4-20250514';
+// Passages given to the model per chat message
+const CHAT_CONTEXT_CHUNKS = 6;
+// Candidates taken from each ranking before fusion
+const CANDIDATES_PER_RANKING = 4;
+// Reciprocal rank fusion constant (standard value from the RRF paper)
+const RRF_K = 60;
+
+/**
+ * Merge rankings by reciprocal rank fusion: score = sum of 1 / (k + rank)
+ */
+const fuseRankings = (rankings: ragChunkDb.RagChunkHit[][]): Array<{ hit: ragChunkDb.RagChunkHit; score: number }> => {
+  const fused = new Map<number, { hit: ragChunkDb.RagChunkHit; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((hit, index) => {
+      const entry = fused.get(hit.id) || { hit, score: 0 };
+      entry.score += 1 / (RRF_K + index + 1);
+      fused.set(hit.id, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Chunks ranked by embedding similarity to the query (empty without embeddings)
+ */
+const searchByEmbedding = async (
+  query: string,
+  limit: number,
+  scope?: RagSearchScope
+): Promise<ragChunkDb.RagChunkHit[]> => {
+  const provider = getEmbeddingProvider();
+  if (!provider) return [];
+
+  const stored = ragChunkDb.getChunkEmbeddings(provider.model, scope?.collectionIds);
+  if (stored.length === 0) return [];
+
+  try {
+    const [queryVector] = await provider.embed([query]);
+    return stored
+      .map(chunk => ({ chunk, similarity: cosineSimilarity(queryVector, chunk.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map(({ chunk: { embedding: _embedding, ...hit } }) => hit);
+  } catch (error) {
+    console.error('[LocalRag] Query embedding failed, using BM25 only:', error);
+    return [];
+  }
+};
+
+/**
+ * Build the system prompt with numbered passages
+ */
+const buildChatSystemPrompt = (matches: RagSearchMatch[]): string => {
+  const passages = matches
+    .map((match, i) => `[${i + 1}] ${match.filename}${match.sourceUrl ? ` (${match.sourceUrl})` : ''}\n${match.text}`)
+    .join('\n\n---\n\n');
+
+  return `You answer questions using a private knowledge base of saved articles and notes.
+
+Use ONLY the numbered passages below. Cite the passages you use like [1] or [2][3].
+If the passages don't contain the answer, say clearly that the knowledge base doesn't cover it.
+
+PASSAGES:
+${passages}`;
+};
+
+export const localBackend: RagBackend = {
+  id: 'local',
+
+  isAvailable(): boolean {
+    return true;
+  },
+
+  async indexDocument(document: RagDocument, content: string): Promise<RagIndexResult> {
+    const chunks = chunkText(content);
+    if (chunks.length === 0) {
+      throw new Error('Document has no text to index');
+    }
+
+    const provider = getEmbeddingProvider();
+    let embeddings: number[][] | null = null;
+    if (provider) {
+      try {
+        embeddings = await provider.embed(chunks);
+      } catch (error) {
+        // Keyword search still works; the document just isn't in vector results
+        console.error(`[LocalRag] Embedding failed for ${document.filename}, indexing for BM25 only:`, error);
+      }
+    }
+
+    ragChunkDb.replaceDocumentChunks(
+      document.id,
+      chunks.map((chunk, i) => ({ content: chunk, embedding: embeddings?.[i] })),
+      embeddings ? provider!.model : null
+    );
+
+    console.log(`[LocalRag] Indexed ${document.filename}: ${chunks.length} chunks${embeddings ? ' with embeddings' : ''}`);
+    return { backendFileId: null, chunkCount: chunks.length };
+  },
+
+  async deleteDocument(document: RagDocument): Promise<void> {
+    ragChunkDb.deleteDocumentChunks(document.id);
+  },
+
+  async search(query: string, limit: number, scope?: RagSearchScope): Promise<RagSearchMatch[]> {
+    const candidates = limit * CANDIDATES_PER_RANKING;
+    const keywordHits = ragChunkDb.searchChunksBm25(query, candidates, scope?.collectionIds);
+    const vectorHits = await searchByEmbedding(query, candidates, scope);
+
+    const ranked = fuseRankings([keywordHits, vectorHits]).slice(0, limit);
+    const best = ranked[0]?.score || 1;
+
+    return ranked.map(({ hit, score }) => ({
+      documentId: hit.documentId,
+      filename: hit.filename,
+      sourceUrl: hit.sourceUrl,
+      text: hit.content,
+      relevance: Math.round((score / best) * 100) / 100,
+    }));
+  },
+
+  async chat(request: RagChatRequest): Promise<RagChatResult> {
+    // History may already end with this message (chats store it before answering);
+    // the model needs it to start with a user turn
+    const history = request.history.slice(-10);
+    const last = history[history.length - 1];
+    if (last?.role === 'user' && last.content === request.message) history.pop();
+    while (history[0]?.role === 'assistant') history.shift();
+
+    // Follow-ups ("tell me more") rarely share words with the answer, so search
+    // with the previous question too
+    const previousQuestion = [...history].reverse().find(turn => turn.role === 'user');
+    const query = previousQuestion ? `${request.message} ${previousQuestion.content}` : request.message;
+    const matches = await localBackend.search(query, CHAT_CONTEXT_CHUNKS, request.scope);
+
+    if (matches.length === 0) {
+      return {
+        response: request.scope?.collectionIds?.length
+          ? "I couldn't find anything in this chat's collections related to that question."
+          : "I couldn't find anything in the knowledge base related to that question.",
+        sources: [],
+      };
+    }
+
+    const llm = getStageLlm('knowledge_base', DEFAULT_CHAT_MODEL);
+    const response = await llm.chat({
+      maxTokens: 2048,
+      system: buildChatSystemPrompt(matches),
+      messages: [...history, { role: 'user', content: request.message }],
+    });
+
+    // One source per document, at its best passage
+    const sources: SourceReference[] = [];
+    for (const match of matches) {
+      if (sources.some(s => s.documentId === match.documentId)) continue;
+      sources.push({
+        documentId: match.documentId,
+        filename: match.filename,
+        relevance: match.relevance,
+        snippet: match.text.substring(0, 200),
+      });
+    }
+
+    return {
+      response: getResponseText(response) || 'No response generated.',
+      sources,
+    };
+  },
+};
@@ -0,0 +1,80 @@
+/**
+ * RAG Backend Types
+ *
+ * Backend-neutral indexing, search and chat for the persistent knowledge base.
+ * Document records (rag_documents) are kept by persistentRagService; a backend
+ * only stores and searches the documents' content.
+ *
+ * @module external/rag/types
+ */
+import type { RagDocument, SourceReference } from '../../services/ragDbService';
+
+export type RagBackendId = 'gemini' | 'local';
+
+export interface RagIndexResult {
+  /** Backend's reference to the indexed file (Gemini file name), if it has one */
+  backendFileId: string | null;
+  /** Chunks the content was split into, for backends that chunk locally */
+  chunkCount?: number;
+}
+
+/**
+ * A passage retrieved from the knowledge base
+ */
+export interface RagSearchMatch {
+  documentId: string;
+  filename: string;
+  sourceUrl: string | null;
+  text: string;
+  /** 0-1, relative to the best match of the same search */
+  relevance: number;
+}
+
+/**
+ * Part of the knowledge base a search or chat covers
+ */
+export interface RagSearchScope {
+  /** Collections to search; empty or unset searches every document */
+  collectionIds?: string[];
+}
+
+export interface RagChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface RagChatRequest {
+  message: string;
+  /** Previous messages, oldest first */
+  history: RagChatTurn[];
+  /** Model override (Gemini backend) */
+  modelName?: string;
+  /** Collections to answer from (default: the whole knowledge base) */
+  scope?: RagSearchScope;
+}
+
+export interface RagChatResult {
+  response: string;
+  sources: SourceReference[];
+}
+
+/**
+ * A knowledge base backend
+ */
+export interface RagBackend {
+  readonly id: RagBackendId;
+  /** Whether the backend can index and answer right now */
+  isAvailable(): boolean;
+  /**
+   * Index a document's content
+   *
+   * @throws {Error} If indexing fails (the caller marks the document failed)
+   */
+  indexDocument(document: RagDocument, content: string): Promise<RagIndexResult>;
+  /** Remove a document's content from the backend, where the backend supports it */
+  deleteDocument(document: RagDocument): Promise<void>;
+  /** Passages most relevant to a query, best first */
+  search(query: string, limit: number, scope?: RagSearchScope): Promise<RagSearchMatch[]>;
+  /** Answer a message from the knowledge base */
+  chat(request: RagChatRequest): Promise<RagChatResult>;
+}
@@ -3,6 +3,7 @@
  *
  * Provides image generation functionality via Stability AI.
  * Keys are loaded from SQLite first, then environment variables.
+ * Calls wait their turn under the 'stability' tool rate limit.
  *
  * @module external/stability/client
  *
@@ -14,6 +15,8 @@
  * Do NOT change the image style mappings, API endpoint, or parameters.
  */
 import * as apiKeyDbService from '../../services/apiKeyDbService';
+import { recordImageUsage } from '../../services/usageService';
+import { fetchWithToolLimit } from '../../control-plane/invocation/toolRateLimiter';
 
 /**
  * Image style mappings for Stability AI prompts
@@ -111,7 +114,7 @@ export const generateImage = async (
     formData.append("output_format", "png");
     formData.append("aspect_ratio", "1:1");
 
-    const response = await fetch("https://api.stability.ai/v2beta/stable-image/generate/core", {
+    const response = await fetchWithToolLimit('stability', "https://api.stability.ai/v2beta/stable-image/generate/core", {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${apiKey}`,
@@ -145,6 +148,7 @@ export const generateImage = async (
 
     if (responseJson.image) {
       console.log("Image generated successfully");
+      recordImageUsage('stable-image-core', 1);
       return {
         success: true,
         image: responseJson.image,
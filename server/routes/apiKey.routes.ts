@@ -1,7 +1,7 @@
 /**
  * API Key Routes
  *
- * Management endpoints for API keys (Claude, Stability, Brave, Google).
+ * Management endpoints for API keys (Claude, Stability, Brave, Google, SMTP).
  * Includes validation for each service type.
  *
  * @module routes/apiKey
@@ -21,6 +21,7 @@
 import { Router, Request, Response } from 'express';
 import Anthropic from '@anthropic-ai/sdk';
 import * as apiKeyDbService from '../services/apiKeyDbService';
+import * as emailTransportService from '../services/emailTransportService';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
@@ -28,7 +29,7 @@ import { getCorrelationId } from '../control-plane/invocation/contextManager';
 const router = Router();
 
 // Valid service types for API keys
-const VALID_SERVICES = ['claude', 'stability', 'brave', 'google_api_key', 'google_client_id', 'google_client_secret'];
+const VALID_SERVICES = ['claude', 'stability', 'brave', 'google_api_key', 'google_client_id', 'google_client_secret', 'smtp_password'];
 
 // ============================================================================
 // VALIDATION HELPERS
@@ -88,6 +89,22 @@ async function validateBraveApiKey(apiKey: string): Promise<boolean> {
   }
 }
 
+/**
+ * Validate SMTP password by logging in to the user's configured relay.
+ */
+async function validateSmtpPassword(userEmail: string): Promise<boolean> {
+  try {
+    const { smtp } = emailTransportService.getTransportSettings(userEmail);
+    const transporter = emailTransportService.createSmtpTransporter(userEmail, smtp);
+    await transporter.verify();
+    transporter.close();
+    return true;
+  } catch (error) {
+    logger.warn('api_keys', 'validate_smtp_failed', 'SMTP credential validation failed', { error });
+    return false;
+  }
+}
+
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -250,6 +267,9 @@ router.post('/:service/validate', async (req: Request, res: Response) => {
         // Google Client Secrets start with 'GOCSPX-'
         isValid = apiKey.startsWith('GOCSPX-');
         break;
+      case 'smtp_password':
+        isValid = await validateSmtpPassword(userEmail);
+        break;
       default:
         logger.warn('api_keys', 'validate_invalid_service', `Invalid service type: ${service}`, { correlationId });
         return sendError(res, 'Invalid service type', ErrorCodes.VALIDATION_ERROR, correlationId);
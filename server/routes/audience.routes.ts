@@ -0,0 +1,380 @@
+/**
+ * Audience Routes
+ *
+ * CRUD operations for audiences and their parent categories.
+ * Built-in specializations and categories are read-only; user-defined
+ * audiences carry the same profile (parent category, domain examples,
+ * example topics, source preferences) and drive the topic agents the same way.
+ *
+ * @module routes/audience
+ *
+ * ## Endpoints
+ * - GET    /api/audiences                  - List custom audiences (?includeDefaults=true for all)
+ * - GET    /api/audiences/categories       - List categories with their child audience IDs
+ * - POST   /api/audiences/categories       - Create category
+ * - DELETE /api/audiences/categories/:id   - Delete category (user-defined only)
+ * - POST   /api/audiences/save             - Upsert audience by ID (localStorage migration)
+ * - GET    /api/audiences/:id              - Get audience by ID
+ * - POST   /api/audiences                  - Create audience
+ * - PUT    /api/audiences/:id              - Update audience (user-defined only)
+ * - DELETE /api/audiences/:id              - Delete audience (user-defined only)
+ */
+import { Router, Request, Response } from 'express';
+import * as audienceDbService from '../services/audienceDbService';
+import { logger } from '../control-plane/feedback';
+import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const router = Router();
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Validate an audience body; returns an error message or null
+ */
+const validateAudience = (body: Record<string, unknown>, partial: boolean): string | null => {
+  if (!partial && (typeof body.name !== 'string' || !body.name.trim())) {
+    return 'name is required';
+  }
+  if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+    return 'name must be a non-empty string';
+  }
+  for (const key of ['description', 'domainExamples']) {
+    if (body[key] !== undefined && typeof body[key] !== 'string') {
+      return `${key} must be a string`;
+    }
+  }
+  if (body.parentId !== undefined && !audienceDbService.getAudienceCategoryById(String(body.parentId))) {
+    return `Unknown audience category: ${body.parentId}`;
+  }
+  if (body.topicTitles !== undefined && !isStringArray(body.topicTitles)) {
+    return 'topicTitles must be an array of strings';
+  }
+  if (body.sourcePreferences !== undefined) {
+    if (!isStringArray(body.sourcePreferences)) {
+      return 'sourcePreferences must be an array of strings';
+    }
+    const unknown = body.sourcePreferences.filter(
+      source => !audienceDbService.AUDIENCE_SOURCE_PREFERENCES.includes(source as never)
+    );
+    if (unknown.length > 0) {
+      return `Unknown source preferences: ${unknown.join(', ')}`;
+    }
+  }
+  if (body.jsonExamples !== undefined) {
+    const examples = body.jsonExamples;
+    if (
+      !Array.isArray(examples) ||
+      !examples.every(e => e && typeof e.title === 'string' && typeof e.summary === 'string')
+    ) {
+      return 'jsonExamples must be an array of { title, summary }';
+    }
+  }
+  return null;
+};
+
+/**
+ * Pick the audience input fields from a request body
+ */
+const toAudienceInput = (body: Record<string, any>): Partial<audienceDbService.AudienceInput> => ({
+  name: body.name?.trim(),
+  description: body.description,
+  generated: body.generated,
+  parentId: body.parentId,
+  domainExamples: body.domainExamples,
+  jsonExamples: body.jsonExamples,
+  topicTitles: body.topicTitles?.map((title: string) => title.trim()).filter(Boolean),
+  sourcePreferences: body.sourcePreferences,
+});
+
+// ======================
+// AUDIENCES (list)
+// ======================
+
+/**
+ * GET /api/audiences
+ *
+ * List custom audiences, or all audiences with ?includeDefaults=true.
+ */
+router.get('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const includeDefaults = req.query.includeDefaults === 'true';
+    const audiences = includeDefaults
+      ? audienceDbService.getAllAudiences()
+      : audienceDbService.getCustomAudiences();
+
+    logger.info('audiences', 'list', `Listed ${audiences.length} audiences`, { correlationId, includeDefaults });
+    sendSuccess(res, { audiences, count: audiences.length }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'list_error', `Failed to list audiences: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch audiences', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+// ======================
+// CATEGORIES
+// ======================
+
+/**
+ * GET /api/audiences/categories
+ *
+ * List categories with their child audience IDs.
+ */
+router.get('/categories', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const categories = audienceDbService.getAudienceCategories();
+    sendSuccess(res, { categories }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'categories_error', `Failed to list categories: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch audience categories', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/audiences/categories
+ *
+ * Create a category.
+ *
+ * @body {string} name - Category name (required)
+ */
+router.post('/categories', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { name } = req.body || {};
+    if (typeof name !== 'string' || !name.trim()) {
+      return sendError(res, 'name is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const category = audienceDbService.createAudienceCategory(name.trim());
+
+    logger.info('audiences', 'category_create', `Created category: ${category.id}`, { correlationId, name: category.name });
+    sendSuccess(res, category, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'category_create_error', `Failed to create category: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to create audience category', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/audiences/categories/:id
+ *
+ * Delete a user-defined category; its audiences move to Custom.
+ *
+ * @param {string} id - Category ID
+ */
+router.delete('/categories/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = audienceDbService.getAudienceCategoryById(req.params.id);
+
+    if (!existing) {
+      return sendError(res, 'Audience category not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.isBuiltin) {
+      return sendError(res, 'Built-in categories cannot be deleted', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    audienceDbService.deleteAudienceCategory(req.params.id);
+
+    logger.info('audiences', 'category_delete', `Deleted category: ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Audience category deleted' }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'category_delete_error', `Failed to delete category: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to delete audience category', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+// ======================
+// AUDIENCES
+// ======================
+
+/**
+ * POST /api/audiences/save
+ *
+ * Upsert an audience by ID (used when migrating localStorage audiences
+ * and saving AI-generated configs).
+ *
+ * @body {string} id - Audience ID (required)
+ * @body {string} name - Audience name (required)
+ */
+router.post('/save', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const body = req.body || {};
+    if (typeof body.id !== 'string' || !body.id.trim()) {
+      return sendError(res, 'id is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const validationError = validateAudience(body, false);
+    if (validationError) {
+      logger.warn('audiences', 'validation_error', validationError, { correlationId });
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const existing = audienceDbService.getAudienceById(body.id);
+    if (existing?.isDefault) {
+      return sendError(res, 'Built-in audiences are read-only', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    const audience = audienceDbService.saveAudience({
+      ...toAudienceInput(body),
+      id: body.id,
+      name: body.name.trim(),
+    });
+
+    logger.info('audiences', 'save', `Saved audience: ${audience.id}`, { correlationId, name: audience.name });
+    sendSuccess(res, audience, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'save_error', `Failed to save audience: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to save audience', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/audiences/:id
+ *
+ * Get an audience by ID.
+ *
+ * @param {string} id - Audience ID
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const audience = audienceDbService.getAudienceById(req.params.id);
+
+    if (!audience) {
+      logger.warn('audiences', 'not_found', `Audience not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Audience not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, audience, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'get_error', `Failed to get audience: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch audience', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/audiences
+ *
+ * Create an audience.
+ *
+ * @body {string} name - Audience name (required)
+ * @body {string} description - Who the audience is
+ * @body {string} parentId - Parent category ID (defaults to Custom)
+ * @body {string} domainExamples - Example AI use cases for prompts
+ * @body {string[]} topicTitles - Example topic titles
+ * @body {string[]} sourcePreferences - Preferred trending sources
+ * @body {object} generated - AI-generated persona, keywords, subreddits, arxiv categories
+ */
+router.post('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const body = req.body || {};
+    const validationError = validateAudience(body, false);
+    if (validationError) {
+      logger.warn('audiences', 'validation_error', validationError, { correlationId });
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const audience = audienceDbService.createAudience({
+      ...toAudienceInput(body),
+      name: body.name.trim(),
+    });
+
+    logger.info('audiences', 'create', `Created audience: ${audience.id}`, { correlationId, name: audience.name });
+    sendSuccess(res, audience, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'create_error', `Failed to create audience: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to create audience', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * PUT /api/audiences/:id
+ *
+ * Update a user-defined audience.
+ *
+ * @param {string} id - Audience ID
+ * @body {object} updates - Fields to update
+ */
+router.put('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = audienceDbService.getAudienceById(req.params.id);
+
+    if (!existing) {
+      logger.warn('audiences', 'update_not_found', `Audience not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Audience not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.isDefault) {
+      return sendError(res, 'Built-in audiences are read-only', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    const validationError = validateAudience(req.body || {}, true);
+    if (validationError) {
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const audience = audienceDbService.updateAudience(req.params.id, toAudienceInput(req.body));
+
+    logger.info('audiences', 'update', `Updated audience: ${req.params.id}`, { correlationId });
+    sendSuccess(res, audience, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'update_error', `Failed to update audience: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to update audience', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/audiences/:id
+ *
+ * Delete a user-defined audience.
+ *
+ * @param {string} id - Audience ID
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = audienceDbService.getAudienceById(req.params.id);
+
+    if (!existing) {
+      logger.warn('audiences', 'delete_not_found', `Audience not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Audience not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.isDefault) {
+      return sendError(res, 'Built-in audiences cannot be deleted', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    audienceDbService.deleteAudience(req.params.id);
+
+    logger.info('audiences', 'delete', `Deleted audience: ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Audience deleted' }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('audiences', 'delete_error', `Failed to delete audience: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to delete audience', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+export default router;
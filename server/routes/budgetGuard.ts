@@ -0,0 +1,59 @@
+/**
+ * Budget Guard
+ *
+ * Route middleware that refuses AI calls once a monthly cost budget is used up.
+ * Budgets are set in Logs → Costs (PUT /api/logs/costs/budgets/:scope).
+ *
+ * @module routes/budgetGuard
+ *
+ * ## Usage
+ * ```typescript
+ * router.post('/generateImage', requireBudget('stability'), async (req, res) => {...});
+ *
+ * // LLM calls: the providers come from the stages' LLM_<STAGE>_PROVIDER settings
+ * router.post('/generateNewsletter', requireStageBudget(['section_writer']), async (req, res) => {...});
+ * ```
+ */
+import { Request, Response, NextFunction } from 'express';
+import * as usageService from '../services/usageService';
+import type { UsageProvider } from '../services/usageDbService';
+import type { LlmStage } from '../external/llm';
+import { logger } from '../control-plane/feedback';
+import { sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+/**
+ * Refuse the request (429 QUOTA_EXCEEDED) when the total budget or the budget
+ * of any provider the route calls is exhausted for this month
+ */
+export const requireBudget = (...providers: UsageProvider[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const exceeded = usageService.getExceededBudget(providers);
+    if (!exceeded) {
+      next();
+      return;
+    }
+
+    const correlationId = getCorrelationId();
+    logger.warn('usage', 'budget_exceeded', `Refused ${req.path}: ${exceeded.scope} budget exhausted`, {
+      correlationId,
+      scope: exceeded.scope,
+      spentUsd: exceeded.spentUsd,
+      monthlyLimitUsd: exceeded.monthlyLimitUsd,
+    });
+
+    sendError(res, usageService.formatBudgetExceededMessage(exceeded), ErrorCodes.QUOTA_EXCEEDED, correlationId, {
+      budget: exceeded,
+    });
+  };
+
+/**
+ * Like requireBudget, for routes whose LLM calls go through pipeline stages
+ * Only the budgets of the providers the stages are routed to are checked, so
+ * a stage moved to the OpenAI-compatible provider isn't blocked by the Claude
+ * budget. `providers` adds budgets for calls outside the stages (e.g. 'claude'
+ * for direct Claude calls).
+ */
+export const requireStageBudget = (stages: LlmStage[], ...providers: UsageProvider[]) =>
+  (req: Request, res: Response, next: NextFunction): void =>
+    requireBudget(...usageService.getStageProviders(stages), ...providers)(req, res, next);
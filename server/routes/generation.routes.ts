@@ -18,6 +18,10 @@
  * - POST   /api/generateTrendingTopicsWithSources - Analyze real sources
  * - POST   /api/generateImage                 - Generate image via Stability AI
  *
+ * ## Budgets
+ * Routes that call Claude or Stability AI refuse with 429 QUOTA_EXCEEDED once
+ * a monthly cost budget covering that provider is used up (see budgetGuard).
+ *
  * ## PRESERVATION NOTE
  * These routes delegate to services that contain EXACT prompts from server.ts.
  * The services handle all AI generation logic - routes are thin controllers only.
@@ -30,6 +34,7 @@ import { Router, Request, Response } from 'express';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
+import { requireBudget, requireStageBudget } from './budgetGuard';
 
 // Generation services
 import {
@@ -53,6 +58,7 @@ import * as sourceFetchingService from '../services/sourceFetchingService';
 import * as audienceGenerationService from '../services/audienceGenerationService';
 import * as apiKeyDbService from '../services/apiKeyDbService';
 import * as personaDbService from '../services/personaDbService';
+import { attributeUsageToNewsletter } from '../services/usageService';
 
 import type { AudienceConfig } from '../../types';
 
@@ -179,7 +185,7 @@ router.post('/trendingCacheStatus', (req: Request, res: Response) => {
  *
  * Extract actionable insights and tools from trending sources.
  */
-router.post('/generateCompellingTrendingContent', async (req: Request, res: Response) => {
+router.post('/generateCompellingTrendingContent', requireStageBudget(['topic_agents']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -209,7 +215,7 @@ router.post('/generateCompellingTrendingContent', async (req: Request, res: Resp
  *
  * Generate newsletter content (v1 format) with web search capability.
  */
-router.post('/generateNewsletter', async (req: Request, res: Response) => {
+router.post('/generateNewsletter', requireStageBudget(['section_writer']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -243,13 +249,15 @@ router.post('/generateNewsletter', async (req: Request, res: Response) => {
  * POST /api/generateEnhancedNewsletter
  *
  * Generate enhanced newsletter (v2 format) with multi-source fetching.
+ *
+ * @body {boolean} useKnowledgeBase - Also ground sections in the persistent knowledge base
  */
-router.post('/generateEnhancedNewsletter', async (req: Request, res: Response) => {
+router.post('/generateEnhancedNewsletter', requireStageBudget(['shared_elements', 'section_writer']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
     // Phase 14: Extract tone and flavors for quality fix
-    const { topics, audiences, imageStyle, promptOfTheDay, personaId, tone, flavors } = req.body as {
+    const { topics, audiences, imageStyle, promptOfTheDay, personaId, tone, flavors, useKnowledgeBase } = req.body as {
       topics: (string | TopicWithAudienceId)[];  // Phase 17: Accept full topic objects with resource URLs
       audiences: AudienceConfig[];
       imageStyle?: string;
@@ -262,9 +270,13 @@ router.post('/generateEnhancedNewsletter', async (req: Request, res: Response) =
       personaId?: string;
       tone?: string;
       flavors?: string[];
+      useKnowledgeBase?: boolean;
     };
 
-    const result = await generateEnhancedNewsletter({ topics, audiences, imageStyle, promptOfTheDay, personaId, tone, flavors });
+    const result = await generateEnhancedNewsletter({
+      topics, audiences, imageStyle, promptOfTheDay, personaId, tone, flavors,
+      useKnowledgeBase: useKnowledgeBase === true,
+    });
 
     if (!result.success) {
       // Phase 15: Include validation results in error response
@@ -280,7 +292,11 @@ router.post('/generateEnhancedNewsletter', async (req: Request, res: Response) =
       correlationId,
       id: result.newsletter?.id,
     });
-    sendSuccess(res, { newsletter: result.newsletter, sources: result.sources }, correlationId);
+    sendSuccess(res, {
+      newsletter: result.newsletter,
+      sources: result.sources,
+      knowledgeBaseDocuments: result.knowledgeBaseDocuments,
+    }, correlationId);
   } catch (error) {
     const err = error as Error;
     logger.error('generation', 'enhanced_newsletter_error', `Failed to generate enhanced newsletter: ${err.message}`, err, { correlationId });
@@ -297,7 +313,7 @@ router.post('/generateEnhancedNewsletter', async (req: Request, res: Response) =
  *
  * Generate audience configuration using AI.
  */
-router.post('/generateAudienceConfig', async (req: Request, res: Response) => {
+router.post('/generateAudienceConfig', requireBudget('claude'), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -393,7 +409,7 @@ router.get('/defaultAudiences', (_req: Request, res: Response) => {
  *
  * Generate 10 HOW-TO tutorial topic suggestions.
  */
-router.post('/generateTopicSuggestions', async (req: Request, res: Response) => {
+router.post('/generateTopicSuggestions', requireStageBudget(['topic_agents']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -427,7 +443,7 @@ router.post('/generateTopicSuggestions', async (req: Request, res: Response) =>
  * - topicsPerAudience?: number - Topics to generate per audience (default: 3)
  * - customAudiences?: Array - Optional custom audience definitions
  */
-router.post('/generateTopicSuggestionsV2', async (req: Request, res: Response) => {
+router.post('/generateTopicSuggestionsV2', requireStageBudget(['topic_agents']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -497,7 +513,7 @@ router.post('/generateTopicSuggestionsV2', async (req: Request, res: Response) =
  *
  * Identify 2-3 most actionable AI developments.
  */
-router.post('/generateTrendingTopics', async (req: Request, res: Response) => {
+router.post('/generateTrendingTopics', requireStageBudget(['topic_agents']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -523,7 +539,7 @@ router.post('/generateTrendingTopics', async (req: Request, res: Response) => {
  *
  * Identify trends from provided real sources.
  */
-router.post('/generateTrendingTopicsWithSources', async (req: Request, res: Response) => {
+router.post('/generateTrendingTopicsWithSources', requireStageBudget(['topic_agents']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -577,7 +593,7 @@ import { generateSuggestionsParallel } from '../domains/generation/services/para
  * If config.showTradeoffs is true (default), first call returns trade-offs
  * for user confirmation. Call again with confirmed=true to execute.
  */
-router.post('/generateTrendingTopicsV2', async (req: Request, res: Response) => {
+router.post('/generateTrendingTopicsV2', requireStageBudget(['topic_agents']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -766,7 +782,7 @@ router.post('/generateTrendingTopicsV2', async (req: Request, res: Response) =>
  *
  * Rollback: Set VITE_ENABLE_STREAMING=false on frontend
  */
-router.post('/generateTrendingTopicsV2/stream', async (req: Request, res: Response) => {
+router.post('/generateTrendingTopicsV2/stream', requireStageBudget(['topic_agents']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -872,16 +888,21 @@ router.post('/generateTrendingTopicsV2/stream', async (req: Request, res: Respon
  *
  * Generate image using Stability AI.
  */
-router.post('/generateImage', async (req: Request, res: Response) => {
+router.post('/generateImage', requireBudget('stability'), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { prompt, imageStyle } = req.body;
+    const { prompt, imageStyle, newsletterId } = req.body;
 
     if (!prompt) {
       return sendError(res, 'Prompt is required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
+    // Count the image towards the newsletter it illustrates
+    if (typeof newsletterId === 'string' && newsletterId) {
+      attributeUsageToNewsletter(newsletterId);
+    }
+
     const result = await generateImage(prompt, imageStyle);
 
     if (!result.success) {
@@ -911,11 +932,14 @@ import { orchestrateGeneration, orchestrateFull } from '../domains/generation/or
  * - Pre-generation validation
  * - Source diversity enforcement
  * - Post-generation citation verification
+ * - Citation repair (replace unallocated links or regenerate the section),
+ *   up to maxRepairAttempts passes; the report is stored with the newsletter
+ * - Optional knowledge base grounding (useKnowledgeBase); KB citations verify
  *
  * This endpoint provides better source diversity and verification
  * compared to V2 (/api/generateEnhancedNewsletter).
  */
-router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
+router.post('/generateNewsletterV3', requireStageBudget(['shared_elements', 'section_writer']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -930,6 +954,8 @@ router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
       skipValidation = false,
       skipEnrichment = false,
       enableVerification = true,
+      maxRepairAttempts = 2,
+      useKnowledgeBase = false,
     } = req.body as {
       topics: string[];
       audiences: AudienceConfig[];
@@ -946,6 +972,8 @@ router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
       skipValidation?: boolean;
       skipEnrichment?: boolean;
       enableVerification?: boolean;
+      maxRepairAttempts?: number;
+      useKnowledgeBase?: boolean;
     };
 
     if (!topics || !topics.length) {
@@ -956,6 +984,10 @@ router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
       return sendError(res, 'Audiences array is required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
+    if (!Number.isInteger(maxRepairAttempts) || maxRepairAttempts < 0 || maxRepairAttempts > 5) {
+      return sendError(res, 'maxRepairAttempts must be an integer from 0 to 5', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
     logger.info('generation', 'v3_start', `Starting V3 generation for ${topics.length} topics, ${audiences.length} audiences`, { correlationId });
 
     const result = await orchestrateGeneration(
@@ -967,6 +999,7 @@ router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
         personaId,
         tone,
         flavors,
+        useKnowledgeBase: useKnowledgeBase === true,
       },
       {
         skipTopicValidation: skipValidation,
@@ -974,6 +1007,7 @@ router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
         enableVerification,
         enableSourceDiversity: true,
         maxRetries: 1,
+        maxRepairAttempts,
       }
     );
 
@@ -991,6 +1025,7 @@ router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
       correlationId,
       id: result.newsletter?.id,
       diversityScore: result.metrics.diversityScore,
+      repairedSections: result.metrics.repairedSections,
       totalTimeMs: result.metrics.totalTimeMs,
     });
 
@@ -1017,32 +1052,73 @@ router.post('/generateNewsletterV3', async (req: Request, res: Response) => {
 // ============================================================================
 
 import { generatePersonaPreview } from '../domains/generation/services/previewGenerator';
+import { formatToneInstructions, getToneInstructions } from '../domains/generation/helpers/toneHelpers';
+import { formatFlavorInstructions } from '../domains/generation/helpers/flavorHelpers';
+import * as toneDbService from '../services/toneDbService';
+import type { ToneExecutionRules } from '../../types';
 
 /**
  * POST /api/generatePersonaPreview
  *
  * Generate a short preview paragraph in a persona's voice.
- * Used for A/B persona comparison feature.
+ * Used for A/B persona comparison feature, and for live previews in the
+ * tone editor (pass a tone and/or flavors, with or without a persona).
+ *
+ * @body {string} sampleTopic - Topic to write about (required)
+ * @body {string} personaId - Persona whose voice to use
+ * @body {string|object} tone - Tone key, or an unsaved tone draft {label, description, executionRules}
+ * @body {Array<string|object>} flavors - Flavor keys and/or unsaved flavor drafts {instruction}
  */
-router.post('/generatePersonaPreview', async (req: Request, res: Response) => {
+router.post('/generatePersonaPreview', requireStageBudget(['preview']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { personaId, sampleTopic } = req.body;
+    const { personaId, sampleTopic, tone, flavors } = req.body;
 
-    if (!personaId || !sampleTopic) {
-      return sendError(res, 'personaId and sampleTopic are required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    if (!sampleTopic || (!personaId && !tone && !flavors?.length)) {
+      return sendError(res, 'sampleTopic and a personaId, tone or flavors are required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
-    const persona = personaDbService.getPersonaById(personaId);
-    if (!persona) {
+    const persona = personaId ? personaDbService.getPersonaById(personaId) : null;
+    if (personaId && !persona) {
       return sendError(res, 'Persona not found', ErrorCodes.NOT_FOUND, correlationId);
     }
 
-    const preview = await generatePersonaPreview(persona, sampleTopic);
+    let toneInstructions: string | undefined;
+    if (typeof tone === 'string') {
+      toneInstructions = getToneInstructions(tone);
+    } else if (tone) {
+      const rules: Partial<ToneExecutionRules> = tone.executionRules || {};
+      toneInstructions = formatToneInstructions({
+        label: tone.label || 'Custom tone',
+        description: tone.description || '',
+        executionRules: {
+          sentenceConstruction: rules.sentenceConstruction || [],
+          wordsToUse: rules.wordsToUse || [],
+          wordsToAvoid: rules.wordsToAvoid || [],
+          punctuationStyle: rules.punctuationStyle || '',
+        },
+      });
+    }
 
-    logger.info('generation', 'persona_preview_generated', `Generated preview for ${persona.name}`, { correlationId });
-    sendSuccess(res, { preview, personaName: persona.name }, correlationId);
+    let flavorInstructions: string | undefined;
+    if (Array.isArray(flavors) && flavors.length > 0) {
+      // Stored flavors by key, plus any unsaved drafts from the editor
+      const stored = toneDbService
+        .getFlavorsByIds(flavors.filter((f: unknown): f is string => typeof f === 'string'))
+        .map(flavor => flavor.instruction);
+      const drafts = flavors
+        .filter((f: unknown): f is { instruction?: string } => !!f && typeof f === 'object')
+        .map(f => f.instruction?.trim() || '')
+        .filter(Boolean);
+      flavorInstructions = formatFlavorInstructions([...stored, ...drafts]);
+    }
+
+    const preview = await generatePersonaPreview(persona, sampleTopic, { toneInstructions, flavorInstructions });
+    const personaName = persona?.name || 'Newsletter writer';
+
+    logger.info('generation', 'persona_preview_generated', `Generated preview for ${personaName}`, { correlationId });
+    sendSuccess(res, { preview, personaName }, correlationId);
   } catch (error) {
     const err = error as Error;
     logger.error('generation', 'persona_preview_error', `Failed to generate persona preview: ${err.message}`, err, { correlationId });
@@ -1056,19 +1132,16 @@ router.post('/generatePersonaPreview', async (req: Request, res: Response) => {
 
 import {
   generateNewsletterPerAudience,
+  buildPerAudienceParams,
+  serializePerAudienceResult,
   DEFAULT_ORCHESTRATOR_CONFIG,
+  type PerAudienceRequest,
 } from '../domains/generation/services/perAudienceNewsletterGenerator';
+import * as newsletterDbService from '../services/newsletterDbService';
 
-import {
-  analyzeTopicAudienceMatch,
-  serializeBalancedMap,
-} from '../domains/generation/services/topicAudienceBalancer';
+import { analyzeTopicAudienceMatch } from '../domains/generation/services/topicAudienceBalancer';
 
-import type {
-  TopicWithAudienceId,
-  MismatchResolution,
-  PerAudienceGenerationParams,
-} from '../../types';
+import type { TopicWithAudienceId } from '../../types';
 
 /**
  * POST /api/analyzeTopicAudienceMatch
@@ -1077,7 +1150,7 @@ import type {
  * Returns matched topics, mismatched topics, and orphaned audiences.
  * Frontend uses this to show the TopicMismatchModal if needed.
  */
-router.post('/analyzeTopicAudienceMatch', async (req: Request, res: Response) => {
+router.post('/analyzeTopicAudienceMatch', requireBudget('claude'), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   console.log('[V4Route] analyzeTopicAudienceMatch START', { correlationId });
@@ -1158,38 +1231,14 @@ router.post('/analyzeTopicAudienceMatch', async (req: Request, res: Response) =>
  * - promptOfTheDay?: PromptOfTheDay - Optional prompt of the day
  * - mismatchResolutions?: MismatchResolution[] - User decisions for mismatched topics
  */
-router.post('/generateNewsletterV4', async (req: Request, res: Response) => {
+router.post('/generateNewsletterV4', requireStageBudget(['topic_agents', 'section_writer']), async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   console.log('[V4Route] generateNewsletterV4 START', { correlationId });
 
   try {
-    const {
-      audiences,
-      selectedTopics,
-      topicsPerAudience,
-      tone,
-      flavors,
-      imageStyle,
-      personaId,
-      promptOfTheDay,
-      mismatchResolutions,
-    } = req.body as {
-      audiences: AudienceConfig[];
-      selectedTopics?: TopicWithAudienceId[];
-      topicsPerAudience?: number;
-      tone?: string;
-      flavors?: string[];
-      imageStyle?: string;
-      personaId?: string;
-      promptOfTheDay?: {
-        title: string;
-        summary: string;
-        examplePrompts: string[];
-        promptCode: string;
-      };
-      mismatchResolutions?: MismatchResolution[];
-    };
+    const body = req.body as PerAudienceRequest;
+    const { audiences, selectedTopics, mismatchResolutions, tone, flavors } = body;
 
     if (!audiences || !Array.isArray(audiences) || audiences.length === 0) {
       return sendError(res, 'audiences array is required', ErrorCodes.VALIDATION_ERROR, correlationId);
@@ -1209,19 +1258,8 @@ router.post('/generateNewsletterV4', async (req: Request, res: Response) => {
       topicCount: selectedTopics?.length || 0,
     });
 
-    const params: PerAudienceGenerationParams = {
-      audiences,
-      selectedTopics,
-      topicsPerAudience: topicsPerAudience || DEFAULT_ORCHESTRATOR_CONFIG.topicsPerAudience,
-      tone: tone || 'confident',
-      flavors: flavors || [],
-      imageStyle,
-      personaId,
-      promptOfTheDay,
-    };
-
     const result = await generateNewsletterPerAudience(
-      params,
+      buildPerAudienceParams(body),
       DEFAULT_ORCHESTRATOR_CONFIG,
       mismatchResolutions
     );
@@ -1248,26 +1286,7 @@ router.post('/generateNewsletterV4', async (req: Request, res: Response) => {
       totalTimeMs: result.metrics.totalTimeMs,
     });
 
-    // Serialize the balancedMap for JSON response
-    const serializedBalanceResult = {
-      ...result.balanceResult,
-      balancedMap: serializeBalancedMap(result.balanceResult.balancedMap),
-    };
-
-    sendSuccess(res, {
-      success: true,
-      newsletter: result.newsletter,
-      sectionResults: result.sectionResults.map(sr => ({
-        audienceId: sr.audienceId,
-        audienceName: sr.audienceName,
-        topicCount: sr.topics.length,
-        sourceCount: sr.sources.length,
-        generationTimeMs: sr.generationTimeMs,
-      })),
-      appliedOverlaps: result.appliedOverlaps,
-      balanceResult: serializedBalanceResult,
-      metrics: result.metrics,
-    }, correlationId);
+    sendSuccess(res, serializePerAudienceResult(result), correlationId);
   } catch (error) {
     const err = error as Error;
     console.error('[V4Route] generateNewsletterV4 ERROR', error);
@@ -1276,4 +1295,111 @@ router.post('/generateNewsletterV4', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/generateNewsletterV4/stream
+ *
+ * SSE streaming variant of V4 generation. Takes the same body as
+ * /api/generateNewsletterV4 and reports the pipeline as it runs, so the
+ * preview can fill in section by section.
+ *
+ * Returns Server-Sent Events:
+ * - connected: Stream opened
+ * - phase_start / phase_complete: balancing, topics, overlaps, sources, sections, merge
+ * - section_start: Audience section started (partial section: audience and sources)
+ * - section_complete: Audience section finished (full EnhancedAudienceSection)
+ * - section_error: Audience section failed (the rest continue)
+ * - complete: Same payload as the JSON route, with the saved newsletter
+ * - error: Generation failed
+ *
+ * Unlike the JSON route, the finished newsletter is saved to SQLite here so the
+ * client can keep editing it without another round trip.
+ */
+router.post('/generateNewsletterV4/stream', requireStageBudget(['topic_agents', 'section_writer']), async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const body = req.body as PerAudienceRequest;
+
+    if (!body.audiences || !Array.isArray(body.audiences) || body.audiences.length === 0) {
+      return sendError(res, 'audiences array is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    logger.info('generation', 'v4_streaming_start', `Starting streaming V4 generation for ${body.audiences.length} audiences`, {
+      correlationId,
+      audiences: body.audiences.map(a => a.id),
+      topicCount: body.selectedTopics?.length || 0,
+    });
+
+    // Set SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    res.flushHeaders();
+
+    // Generation keeps going if the client disconnects; we just stop writing
+    const send = (event: object) => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+    };
+
+    send({ type: 'connected', correlationId });
+
+    const result = await generateNewsletterPerAudience(
+      buildPerAudienceParams(body),
+      DEFAULT_ORCHESTRATOR_CONFIG,
+      body.mismatchResolutions,
+      { onProgress: (event) => send(event) }
+    );
+
+    // Don't save a newsletter whose every section failed
+    if (!result.success || !result.newsletter || result.sectionResults.length === 0) {
+      const error = result.error || (result.success ? 'All audience sections failed' : 'Failed to generate newsletter V4');
+      logger.error('generation', 'v4_streaming_failed', error, undefined, { correlationId });
+      send({ type: 'error', error });
+      res.end();
+      return;
+    }
+
+    const newsletterId = `enl_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    try {
+      newsletterDbService.saveEnhancedNewsletter(
+        { ...result.newsletter, id: newsletterId },
+        result.sectionResults.flatMap(sr => sr.topics.map(t => t.title)),
+        {
+          audience: body.audiences.map(a => a.id),
+          imageStyle: body.imageStyle,
+          sectionInputs: result.sectionResults.flatMap(sr => sr.input ? [sr.input] : []),
+        }
+      );
+      result.newsletter.id = newsletterId;
+    } catch (saveError) {
+      // The client still gets the newsletter; it just won't be in history
+      logger.warn('generation', 'v4_streaming_save_failed', `Failed to save streamed newsletter: ${(saveError as Error).message}`, { correlationId });
+    }
+
+    send({ type: 'complete', ...serializePerAudienceResult(result) });
+    res.end();
+
+    logger.info('generation', 'v4_streaming_complete', 'Streaming V4 generation complete', {
+      correlationId,
+      id: result.newsletter.id,
+      sectionCount: result.sectionResults.length,
+      totalTimeMs: result.metrics.totalTimeMs,
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('generation', 'v4_streaming_error', `Streaming V4 generation failed: ${err.message}`, err, { correlationId });
+
+    // Send error event if connection is still open
+    if (!res.headersSent) {
+      sendError(res, 'Streaming V4 generation failed', ErrorCodes.EXTERNAL_SERVICE_ERROR, correlationId, { details: err.message });
+    } else {
+      res.write(`data: ${JSON.stringify({ type: 'error', error: err.message })}\n\n`);
+      res.end();
+    }
+  }
+});
+
 export default router;
@@ -0,0 +1,219 @@
+/**
+ * Generation Job Routes
+ *
+ * Newsletter generation as background jobs. The run happens server-side and
+ * is checkpointed, so the client can poll, reattach after a refresh, cancel,
+ * or resume a run that failed or was interrupted.
+ *
+ * @module routes/generationJob
+ *
+ * ## Endpoints
+ * - GET  /api/generation-jobs             - List recent jobs
+ * - POST /api/generation-jobs             - Create and start a job
+ * - GET  /api/generation-jobs/:id         - Poll a job (status, phase, finished sections, result)
+ * - POST /api/generation-jobs/:id/cancel  - Cancel a queued or running job
+ * - POST /api/generation-jobs/:id/resume  - Resume a failed, cancelled or interrupted job
+ *
+ * ## Notes
+ * - Services: generationJobService (runner), generationJobDbService (queries)
+ * - Create and resume refuse with 429 QUOTA_EXCEEDED once the Claude (or total)
+ *   monthly budget is used up
+ * - `request` takes the same body as POST /api/generateNewsletterV4 (pipeline 'v4')
+ *   or POST /api/generateEnhancedNewsletter (pipeline 'enhanced')
+ */
+import { Router, Request, Response } from 'express';
+import * as generationJobService from '../services/generationJobService';
+import * as generationJobDb from '../services/generationJobDbService';
+import { logger } from '../control-plane/feedback';
+import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+import { requireStageBudget } from './budgetGuard';
+
+const router = Router();
+
+const PIPELINES: generationJobDb.GenerationPipeline[] = ['v4', 'enhanced'];
+const JOB_STATUSES: generationJobDb.GenerationJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted'];
+const RESUMABLE_STATUSES: generationJobDb.GenerationJobStatus[] = ['failed', 'cancelled', 'interrupted'];
+
+/**
+ * GET /api/generation-jobs
+ *
+ * List recent jobs (newest first).
+ *
+ * @query {string} status - Comma-separated statuses to include (e.g. "queued,running")
+ * @query {number} limit - Max jobs to return (default 20)
+ */
+router.get('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+    const statuses = req.query.status
+      ? (req.query.status as string).split(',').map(s => s.trim()).filter(Boolean)
+      : undefined;
+
+    const invalid = statuses?.filter(s => !JOB_STATUSES.includes(s as generationJobDb.GenerationJobStatus)) || [];
+    if (invalid.length > 0) {
+      return sendError(res, `Invalid status: ${invalid.join(', ')}`, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const jobs = generationJobDb.getJobs(
+      Number.isNaN(limit) ? 20 : limit,
+      statuses as generationJobDb.GenerationJobStatus[] | undefined
+    );
+
+    sendSuccess(res, { jobs, count: jobs.length, runner: generationJobService.getGenerationJobRunnerStatus() });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('generation_jobs', 'list_error', `Failed to list generation jobs: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list generation jobs', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/generation-jobs
+ *
+ * Create a generation job. It starts right away, or queues behind running jobs.
+ *
+ * @body {string} pipeline - 'v4' or 'enhanced'
+ * @body {object} request - Generation request (see module notes)
+ */
+router.post('/', requireStageBudget(generationJobService.JOB_STAGES), (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { pipeline, request } = req.body as {
+      pipeline: generationJobDb.GenerationPipeline;
+      request: Record<string, unknown>;
+    };
+
+    if (!PIPELINES.includes(pipeline)) {
+      return sendError(res, `pipeline must be one of: ${PIPELINES.join(', ')}`, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (!request || typeof request !== 'object') {
+      return sendError(res, 'request is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (!Array.isArray(request.audiences) || request.audiences.length === 0) {
+      return sendError(res, 'request.audiences array is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (pipeline === 'enhanced' && (!Array.isArray(request.topics) || request.topics.length === 0)) {
+      return sendError(res, 'request.topics array is required for the enhanced pipeline', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const job = generationJobService.createJob(pipeline, request);
+
+    logger.info('generation_jobs', 'create', `Created ${pipeline} generation job`, {
+      correlationId,
+      jobId: job.id,
+      audienceCount: (request.audiences as unknown[]).length,
+    });
+
+    sendSuccess(res, job, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('generation_jobs', 'create_error', `Failed to create generation job: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to create generation job', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/generation-jobs/:id
+ *
+ * Poll a job: status, current phase, sections finished so far and, once
+ * completed, the result (same payload as the pipeline's JSON route).
+ *
+ * @param {string} id - Job ID
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const job = generationJobService.getJobStatus(req.params.id);
+
+    if (!job) {
+      return sendError(res, 'Generation job not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, job);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('generation_jobs', 'get_error', `Failed to get generation job: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get generation job', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/generation-jobs/:id/cancel
+ *
+ * Cancel a job. Queued or interrupted jobs are cancelled immediately; running
+ * jobs stop at their next checkpoint (sections already being written finish first).
+ *
+ * @param {string} id - Job ID
+ */
+router.post('/:id/cancel', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = generationJobDb.getJobById(req.params.id);
+
+    if (!existing) {
+      return sendError(res, 'Generation job not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.status === 'completed' || existing.status === 'failed' || existing.status === 'cancelled') {
+      return sendError(res, `Cannot cancel job with status: ${existing.status}`, ErrorCodes.CONFLICT, correlationId);
+    }
+
+    const job = generationJobService.cancelJob(existing.id);
+
+    logger.info('generation_jobs', 'cancel', `Cancel requested for generation job ${existing.id}`, {
+      correlationId,
+      jobId: existing.id,
+      previousStatus: existing.status,
+    });
+
+    sendSuccess(res, job);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('generation_jobs', 'cancel_error', `Failed to cancel generation job: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to cancel generation job', ErrorCodes.INTERNAL_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/generation-jobs/:id/resume
+ *
+ * Resume a failed, cancelled or interrupted job. V4 jobs skip every
+ * checkpointed phase and section; enhanced jobs start over.
+ *
+ * @param {string} id - Job ID
+ */
+router.post('/:id/resume', requireStageBudget(generationJobService.JOB_STAGES), (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = generationJobDb.getJobById(req.params.id);
+
+    if (!existing) {
+      return sendError(res, 'Generation job not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (!RESUMABLE_STATUSES.includes(existing.status)) {
+      return sendError(res, `Cannot resume job with status: ${existing.status}`, ErrorCodes.CONFLICT, correlationId);
+    }
+
+    const job = generationJobService.resumeJob(existing.id);
+
+    logger.info('generation_jobs', 'resume', `Resumed generation job ${existing.id}`, {
+      correlationId,
+      jobId: existing.id,
+      checkpoints: job?.checkpoints.length || 0,
+    });
+
+    sendSuccess(res, job);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('generation_jobs', 'resume_error', `Failed to resume generation job: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to resume generation job', ErrorCodes.INTERNAL_ERROR, correlationId);
+  }
+});
+
+export default router;
@@ -1,8 +1,9 @@
 /**
  * Gmail Routes
  *
- * Email sending endpoints via Gmail API.
- * Send individual emails, bulk emails, and check profile.
+ * Email sending endpoints. Sends go through the user's configured email
+ * transport (Gmail API, SMTP relay, or local .eml outbox); the route
+ * prefix is kept for compatibility.
  *
  * @module routes/gmail
  *
@@ -10,13 +11,22 @@
  * - POST /api/gmail/send        - Send single email
  * - POST /api/gmail/send-bulk   - Send bulk emails
  * - GET  /api/gmail/profile     - Get Gmail profile
+ * - GET  /api/gmail/transport   - Get email transport settings
+ * - PUT  /api/gmail/transport   - Update email transport settings
  *
  * ## Migration Notes
  * - Original location: server.ts:2351-2415
- * - Service: googleGmailService
+ * - Services: emailTransportService, sendQueueService (bulk), segmentService (list/segment targets),
+ *   audienceVariantService (per-audience variants), googleGmailService (profile)
  */
 import { Router, Request, Response } from 'express';
 import * as googleGmailService from '../services/googleGmailService';
+import * as emailTransportService from '../services/emailTransportService';
+import * as sendQueueService from '../services/sendQueueService';
+import * as segmentService from '../services/segmentService';
+import * as audienceVariantService from '../services/audienceVariantService';
+import * as newsletterDbService from '../services/newsletterDbService';
+import { hasApiKey } from '../services/apiKeyDbService';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
@@ -26,7 +36,7 @@ const router = Router();
 /**
  * POST /api/gmail/send
  *
- * Send a single email via Gmail.
+ * Send a single email via the user's configured transport.
  *
  * @body {string} userEmail - User's email address (required)
  * @body {string} to - Recipient email address (required)
@@ -51,7 +61,7 @@ router.post('/send', async (req: Request, res: Response) => {
       );
     }
 
-    const result = await googleGmailService.sendEmail(userEmail, { to, subject, htmlBody });
+    const result = await emailTransportService.sendEmail(userEmail, { to, subject, htmlBody });
 
     if (!result.success) {
       logger.warn('gmail', 'send_failed', `Send failed: ${result.error}`, { correlationId, to });
@@ -70,37 +80,83 @@ router.post('/send', async (req: Request, res: Response) => {
 /**
  * POST /api/gmail/send-bulk
  *
- * Send bulk emails via Gmail.
+ * Send bulk emails via the user's configured transport.
+ * Deliveries are queued per recipient; temporary failures are retried in the
+ * background. Inspect or retry them with /api/sends/:sendId.
+ *
+ * Recipients can be given directly, as list/segment IDs (segments are
+ * evaluated now), or both; the union is sent to.
+ *
+ * For a v2 newsletter, recipients mapped to some of its audiences get a
+ * variant with only those audience sections; everyone else gets the full
+ * newsletter. All variants are rendered server-side from the saved newsletter,
+ * so htmlBody is only sent when the send has no variants. The response's
+ * variantCounts shows who got what.
  *
  * @body {string} userEmail - User's email address (required)
- * @body {string[]} recipients - Array of recipient email addresses (required)
+ * @body {string[]} recipients - Array of recipient email addresses (required unless listIds is given)
+ * @body {string[]} listIds - Subscriber list or segment IDs to send to (optional)
  * @body {string} subject - Email subject (required)
  * @body {string} htmlBody - HTML body content (required)
+ * @body {string} newsletterId - Newsletter being sent (optional, enables open/click tracking and audience variants)
+ * @body {boolean} audienceVariants - Send per-audience variants (default true)
  */
 router.post('/send-bulk', async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { userEmail, recipients, subject, htmlBody } = req.body;
+    const { userEmail, recipients = [], listIds = [], subject, htmlBody, newsletterId, audienceVariants = true } = req.body;
+
+    if (
+      !userEmail || !Array.isArray(recipients) || !Array.isArray(listIds)
+      || (recipients.length === 0 && listIds.length === 0) || !subject || !htmlBody
+    ) {
+      logger.warn('gmail', 'send_bulk_validation_error', 'userEmail, recipients or listIds (array), subject, and htmlBody are required', {
+        correlationId,
+      });
+      return sendError(
+        res,
+        'userEmail, recipients or listIds (array), subject, and htmlBody are required',
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
 
-    if (!userEmail || !recipients || !Array.isArray(recipients) || !subject || !htmlBody) {
-      logger.warn('gmail', 'send_bulk_validation_error', 'userEmail, recipients (array), subject, and htmlBody are required', {
+    const targets = segmentService.resolveRecipients(listIds);
+    if (targets.unknownTargets.length > 0) {
+      logger.warn('gmail', 'send_bulk_unknown_targets', `Unknown lists or segments: ${targets.unknownTargets.join(', ')}`, {
         correlationId,
       });
       return sendError(
         res,
-        'userEmail, recipients (array), subject, and htmlBody are required',
+        `Unknown list or segment: ${targets.unknownTargets.join(', ')}`,
         ErrorCodes.VALIDATION_ERROR,
         correlationId
       );
     }
 
-    const result = await googleGmailService.sendBulkEmails(userEmail, recipients, subject, htmlBody);
+    const allRecipients = Array.from(new Set([...recipients, ...targets.emails]));
+
+    const newsletter = newsletterId && audienceVariants !== false
+      ? newsletterDbService.getNewsletterByIdWithFormat(newsletterId)
+      : null;
+    const variants = newsletter ? audienceVariantService.planVariants(newsletter, allRecipients) : null;
+
+    const result = await sendQueueService.sendBulkEmails(userEmail, allRecipients, subject, htmlBody, {
+      newsletterId,
+      variants,
+    });
 
-    logger.info('gmail', 'send_bulk_complete', `Bulk email complete: ${recipients.length} recipients`, {
+    logger.info('gmail', 'send_bulk_complete', `Bulk email complete: ${allRecipients.length} recipients`, {
       correlationId,
       userEmail,
-      recipientCount: recipients.length,
+      recipientCount: allRecipients.length,
+      listIds,
+      newsletterId,
+      sendId: result.sendId,
+      transport: result.transport,
+      totalPending: result.totalPending,
+      variantCounts: result.variantCounts,
     });
     sendSuccess(res, result);
   } catch (error) {
@@ -144,4 +200,102 @@ router.get('/profile', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/gmail/transport
+ *
+ * Get the email transport settings for a user.
+ * The SMTP password is never returned, only whether one is stored.
+ *
+ * @query {string} userEmail - User's email address (required)
+ */
+router.get('/transport', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const userEmail = req.query.userEmail as string;
+
+    if (!userEmail) {
+      logger.warn('gmail', 'transport_validation_error', 'userEmail query parameter is required', { correlationId });
+      return sendError(res, 'userEmail query parameter is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const settings = emailTransportService.getTransportSettings(userEmail);
+
+    sendSuccess(res, { ...settings, hasSmtpPassword: hasApiKey(userEmail, 'smtp_password') });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('gmail', 'transport_get_error', `Failed to get transport settings: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get transport settings', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * PUT /api/gmail/transport
+ *
+ * Update the email transport settings for a user.
+ * Store the SMTP password separately via POST /api/keys (service: smtp_password).
+ *
+ * @body {string} userEmail - User's email address (required)
+ * @body {string} transport - 'gmail' | 'smtp' | 'outbox' (required)
+ * @body {object} smtp - { host, port, secure, username, fromAddress } (required for smtp)
+ */
+router.put('/transport', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { userEmail, transport, smtp } = req.body;
+
+    if (!userEmail || !emailTransportService.EMAIL_TRANSPORT_TYPES.includes(transport)) {
+      logger.warn('gmail', 'transport_validation_error', 'userEmail and a valid transport are required', {
+        correlationId,
+      });
+      return sendError(
+        res,
+        `userEmail and transport (${emailTransportService.EMAIL_TRANSPORT_TYPES.join(', ')}) are required`,
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
+
+    let smtpSettings: emailTransportService.SmtpSettings | null = null;
+
+    if (smtp) {
+      const port = Number(smtp.port);
+
+      if (!smtp.host || typeof smtp.host !== 'string' || !Number.isInteger(port) || port <= 0 || port > 65535) {
+        logger.warn('gmail', 'transport_validation_error', 'smtp.host and a valid smtp.port are required', {
+          correlationId,
+        });
+        return sendError(res, 'smtp.host and a valid smtp.port are required', ErrorCodes.VALIDATION_ERROR, correlationId);
+      }
+
+      smtpSettings = {
+        host: smtp.host.trim(),
+        port,
+        secure: Boolean(smtp.secure),
+        username: smtp.username || null,
+        fromAddress: smtp.fromAddress || null,
+      };
+    }
+
+    if (transport === 'smtp' && !smtpSettings) {
+      logger.warn('gmail', 'transport_validation_error', 'smtp settings are required for the smtp transport', {
+        correlationId,
+      });
+      return sendError(res, 'smtp settings are required for the smtp transport', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const settings = emailTransportService.updateTransportSettings(userEmail, { transport, smtp: smtpSettings });
+
+    logger.info('gmail', 'transport_update', `Email transport set to ${transport} for: ${userEmail}`, { correlationId });
+    sendSuccess(res, { ...settings, hasSmtpPassword: hasApiKey(userEmail, 'smtp_password') });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('gmail', 'transport_update_error', `Failed to update transport settings: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to update transport settings', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
 export default router;
@@ -7,7 +7,7 @@
  * @module routes/health
  *
  * ## Endpoints
- * - GET /api/health - Returns server health status
+ * - GET /api/health - Returns server health status and tool rate limit queue depth
  *
  * ## Migration Notes
  * - Original location: server.ts:3821-3823
@@ -18,6 +18,7 @@ import { Router, Request, Response } from 'express';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
+import { getToolLimiterStatus } from '../control-plane/invocation/toolRateLimiter';
 
 const router = Router();
 
@@ -25,8 +26,10 @@ const router = Router();
  * GET /api/health
  *
  * Health check endpoint for monitoring and load balancers.
+ * Includes the outbound tool rate limiter: calls waiting in total (queueDepth)
+ * and per tool that has been called.
  *
- * @returns {object} Health status with timestamp
+ * @returns {object} Health status with timestamp and rate limit queues
  *
  * @example
  * // Request
@@ -37,7 +40,14 @@ const router = Router();
  *   "success": true,
  *   "data": {
  *     "status": "ok",
- *     "timestamp": "2025-12-17T12:00:00.000Z"
+ *     "timestamp": "2025-12-17T12:00:00.000Z",
+ *     "rateLimits": {
+ *       "enabled": true,
+ *       "queueDepth": 3,
+ *       "tools": {
+ *         "claude": { "tier": "medium", "active": 6, "queued": 3, "tokens": 41, "rejected": 0, "limits": {...} }
+ *       }
+ *     }
  *   }
  * }
  */
@@ -49,6 +59,7 @@ router.get('/', (req: Request, res: Response) => {
   sendSuccess(res, {
     status: 'ok',
     timestamp: new Date().toISOString(),
+    rateLimits: getToolLimiterStatus(),
   });
 });
 
@@ -12,25 +12,32 @@
  * |--------|--------|-----------|
  * | Health | Migrated | 1 |
  * | Archives | Migrated | 5 |
- * | Newsletters | Migrated | 8 |
+ * | Newsletters | Migrated | 21 (incl. section rewrites, image batches, revisions) |
  * | Prompts | Migrated | 4 |
- * | Subscribers | Migrated | 14 |
+ * | Subscribers | Migrated | 19 |
+ * | Segments | New | 7 (rule-based send targets) |
  * | Calendar | Migrated | 9 |
  * | Personas | Migrated | 9 |
+ * | Tones & Flavors | New | 10 (writing tones and stylistic flavors) |
+ * | Audiences | New | 9 (audience profiles & categories) |
  * | Templates | Migrated | 7 |
  * | Drafts | Migrated | 4 |
  * | Thumbnails | Migrated | 4 |
  * | API Keys | Migrated | 5 |
- * | Logs | Migrated | 3 |
+ * | Logs | Migrated | 20 (incl. API cost reports & budgets) |
  * | OAuth | Migrated | 4 |
  * | Drive | Migrated | 4 |
- * | Gmail | Migrated | 3 |
+ * | Gmail | Migrated | 5 |
  * | Generation | Migrated | 11 (AI content generation) |
  * | Prompt Import | Migrated | 8 (Phase 11 multi-source import) |
  * | Topics | Migrated | 9 (saved topic library) |
  * | Sources | Migrated | 11 (saved sources library) |
- * | RAG | New | 14 (knowledge base & chat) |
+ * | RAG | New | 25 (knowledge base, collections, re-crawl & chat) |
  * | Sent History | New | 3 (Phase 18 email delivery history) |
+ * | Scheduler | New | 10 (scheduled sends) |
+ * | Recurring Schedules | New | 9 (cron generate-and-send with approval) |
+ * | Send Queue | New | 4 (per-recipient delivery state & retries) |
+ * | Generation Jobs | New | 5 (background generation with checkpoints) |
  *
  * ## Usage
  * ```typescript
@@ -48,6 +55,8 @@ import promptRoutes from './prompt.routes.ts';
 import { subscriberRouter, listRouter } from './subscriber.routes.ts';
 import calendarRoutes from './calendar.routes.ts';
 import personaRoutes from './persona.routes.ts';
+import { toneRouter, flavorRouter } from './tone.routes.ts';
+import audienceRoutes from './audience.routes.ts';
 import templateRoutes from './template.routes.ts';
 import draftRoutes from './draft.routes.ts';
 import thumbnailRoutes from './thumbnail.routes.ts';
@@ -62,6 +71,11 @@ import topicRoutes from './topic.routes.ts';
 import sourceRoutes from './source.routes.ts';
 import ragRoutes from './rag.routes.ts';
 import sentHistoryRoutes from './sentHistory.routes.ts';
+import schedulerRoutes from './scheduler.routes.ts';
+import recurringScheduleRoutes from './recurringSchedule.routes.ts';
+import sendQueueRoutes from './sendQueue.routes.ts';
+import generationJobRoutes from './generationJob.routes.ts';
+import segmentRoutes from './segment.routes.ts';
 
 const router = Router();
 
@@ -88,12 +102,22 @@ router.use('/prompts', promptRoutes);
 router.use('/subscribers', subscriberRouter);
 router.use('/lists', listRouter);
 
+// Subscriber segments (usable wherever list IDs are accepted)
+router.use('/segments', segmentRoutes);
+
 // Calendar (migrated)
 router.use('/calendar', calendarRoutes);
 
 // Personas (migrated)
 router.use('/personas', personaRoutes);
 
+// Writing tones and stylistic flavors
+router.use('/tones', toneRouter);
+router.use('/flavors', flavorRouter);
+
+// Audiences and audience categories
+router.use('/audiences', audienceRoutes);
+
 // Templates (migrated)
 router.use('/templates', templateRoutes);
 
@@ -130,6 +154,18 @@ router.use('/rag', ragRoutes);
 // Sent History (Phase 18 - email delivery history)
 router.use('/sent-history', sentHistoryRoutes);
 
+// Recurring generate-and-send schedules (mounted before /schedule so /schedule/:id doesn't match)
+router.use('/schedule/recurring', recurringScheduleRoutes);
+
+// Scheduled sends (drained by the cron worker in schedulerService)
+router.use('/schedule', schedulerRoutes);
+
+// Send queue (per-recipient deliveries for scheduled and bulk sends)
+router.use('/sends', sendQueueRoutes);
+
+// Generation jobs (background newsletter generation with checkpoints)
+router.use('/generation-jobs', generationJobRoutes);
+
 // Generation (migrated - AI content generation endpoints)
 // Mounted at root level since endpoints use direct paths like /fetchTrendingSources
 router.use('/', generationRoutes);
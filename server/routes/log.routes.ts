@@ -25,6 +25,15 @@
  * - POST /api/logs/cleanup       - Trigger manual cleanup
  * - GET /api/logs/cleanup/status - Get cleanup scheduler status
  *
+ * ### API Costs (usage ledger)
+ * - GET    /api/logs/costs/summary         - Month's cost by provider and model
+ * - GET    /api/logs/costs/months          - Total cost per month
+ * - GET    /api/logs/costs/newsletters     - Cost per newsletter
+ * - GET    /api/logs/costs/newsletters/:id - Ledger entries for one newsletter
+ * - GET    /api/logs/costs/budgets         - Monthly budgets with this month's spend
+ * - PUT    /api/logs/costs/budgets/:scope  - Set a monthly budget
+ * - DELETE /api/logs/costs/budgets/:scope  - Remove a monthly budget
+ *
  * ### Legacy Unified Logs (Backward Compatibility)
  * - GET /api/logs                - Get unified logs (newsletter + api_key)
  * - GET /api/logs/export         - Export unified logs to CSV
@@ -34,6 +43,8 @@ import { Router, Request, Response } from 'express';
 import * as logDbService from '../services/logDbService';
 import * as systemLogDb from '../services/systemLogDbService';
 import * as logCleanupService from '../services/logCleanupService';
+import * as usageDb from '../services/usageDbService';
+import * as usageService from '../services/usageService';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
@@ -397,6 +408,199 @@ router.get('/cleanup/status', (req: Request, res: Response) => {
   }
 });
 
+// =============================================================================
+// API COSTS
+// =============================================================================
+
+const BUDGET_SCOPES: usageDb.BudgetScope[] = ['total', 'claude', 'gemini', 'stability'];
+
+/**
+ * GET /api/logs/costs/summary
+ *
+ * Get a month's API cost, broken down by provider and model, with budget status.
+ *
+ * @query {string} month - 'YYYY-MM' (default: current month, UTC)
+ */
+router.get('/costs/summary', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const month = (req.query.month as string) || usageService.getCurrentMonth();
+
+  try {
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      return sendError(res, 'month must be in YYYY-MM format', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const summary = usageDb.getMonthlySummary(month);
+
+    sendSuccess(res, { ...summary, budgets: usageService.getBudgetStatuses() });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('logs', 'costs_summary_error', `Failed to get cost summary: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch cost summary', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/logs/costs/months
+ *
+ * Get total API cost per month (most recent first).
+ *
+ * @query {number} count - Number of months (default: 12)
+ */
+router.get('/costs/months', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const count = req.query.count ? parseInt(req.query.count as string, 10) : 12;
+    const months = usageDb.getMonthlyCosts(Number.isNaN(count) ? 12 : count);
+
+    sendSuccess(res, { months });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('logs', 'costs_months_error', `Failed to get monthly costs: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch monthly costs', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/logs/costs/newsletters
+ *
+ * Get API cost per newsletter (most recently active first).
+ *
+ * @query {number} limit - Max newsletters (default: 50)
+ */
+router.get('/costs/newsletters', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    const newsletters = usageDb.getNewsletterCosts(Number.isNaN(limit) ? 50 : limit);
+
+    sendSuccess(res, { newsletters, count: newsletters.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('logs', 'costs_newsletters_error', `Failed to get newsletter costs: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch newsletter costs', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/logs/costs/newsletters/:id
+ *
+ * Get every ledger entry attributed to a newsletter.
+ *
+ * @param {string} id - Newsletter ID
+ */
+router.get('/costs/newsletters/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const entries = usageDb.getUsageForNewsletter(req.params.id);
+    const totalCostUsd = entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+
+    sendSuccess(res, { newsletterId: req.params.id, entries, totalCostUsd });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('logs', 'costs_newsletter_error', `Failed to get newsletter usage: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch newsletter usage', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/logs/costs/budgets
+ *
+ * Get monthly budgets with this month's spend against each.
+ */
+router.get('/costs/budgets', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    sendSuccess(res, { budgets: usageService.getBudgetStatuses() });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('logs', 'costs_budgets_error', `Failed to get budgets: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch budgets', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * PUT /api/logs/costs/budgets/:scope
+ *
+ * Set the monthly budget for a scope. Once the month's spend reaches it,
+ * generation routes using that provider refuse with QUOTA_EXCEEDED.
+ *
+ * @param {string} scope - 'total', 'claude', 'gemini' or 'stability'
+ * @body {number} monthlyLimitUsd - Budget in USD (> 0)
+ */
+router.put('/costs/budgets/:scope', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const scope = req.params.scope as usageDb.BudgetScope;
+  const { monthlyLimitUsd } = req.body;
+
+  try {
+    if (!BUDGET_SCOPES.includes(scope)) {
+      return sendError(res, `scope must be one of: ${BUDGET_SCOPES.join(', ')}`, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (typeof monthlyLimitUsd !== 'number' || !(monthlyLimitUsd > 0)) {
+      return sendError(res, 'monthlyLimitUsd must be a positive number', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    usageDb.setBudget(scope, monthlyLimitUsd);
+
+    logger.info('logs', 'budget_set', `Set ${scope} monthly budget to $${monthlyLimitUsd}`, {
+      correlationId,
+      scope,
+      monthlyLimitUsd,
+    });
+
+    sendSuccess(res, { budgets: usageService.getBudgetStatuses() });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('logs', 'budget_set_error', `Failed to set budget: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to set budget', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/logs/costs/budgets/:scope
+ *
+ * Remove the monthly budget for a scope.
+ *
+ * @param {string} scope - 'total', 'claude', 'gemini' or 'stability'
+ */
+router.delete('/costs/budgets/:scope', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const scope = req.params.scope as usageDb.BudgetScope;
+
+  try {
+    if (!usageDb.deleteBudget(scope)) {
+      return sendError(res, 'Budget not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('logs', 'budget_delete', `Removed ${scope} monthly budget`, { correlationId, scope });
+
+    sendSuccess(res, { budgets: usageService.getBudgetStatuses() });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('logs', 'budget_delete_error', `Failed to remove budget: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to remove budget', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
 // =============================================================================
 // LEGACY UNIFIED LOGS (Backward Compatibility)
 // =============================================================================
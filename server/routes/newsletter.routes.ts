@@ -13,8 +13,26 @@
  * - POST   /api/newsletters              - Create newsletter
  * - DELETE /api/newsletters/:id          - Delete newsletter
  * - PATCH  /api/newsletters/:id/sections - Update sections (after image generation)
+ * - PUT    /api/newsletters/:id/content  - Save inline edits
+ * - POST   /api/newsletters/:id/sections/:audienceId/rewrite - Propose an AI rewrite of one section
+ * - PUT    /api/newsletters/:id/sections/:audienceId - Replace one section (accept a rewrite)
+ * - GET    /api/newsletters/:id/images   - List image slots (hero, tool of the day, sections)
+ * - POST   /api/newsletters/:id/images/stream - Batch-generate images (SSE progress)
+ * - GET    /api/newsletters/:id/revisions - List revisions
+ * - GET    /api/newsletters/:id/revisions/diff - Field-level diff between two revisions
+ * - GET    /api/newsletters/:id/revisions/:revisionId - Get one revision's content
+ * - POST   /api/newsletters/:id/revisions/:revisionId/restore - Restore a revision
  * - POST   /api/newsletters/:id/log      - Log newsletter action
  * - GET    /api/newsletters/:id/logs     - Get newsletter logs
+ * - GET    /api/newsletters/:id/stats    - Get email open/click stats
+ * - GET    /api/newsletters/:id/tracking - Get raw tracking events
+ * - PUT    /api/newsletters/:id/tracking - Enable/disable open/click tracking
+ * - GET    /api/newsletters/:id/top-links - Get most clicked links
+ *
+ * ## Revisions
+ * Every content change (generation, inline edit, section rewrite, image change,
+ * restore) records an immutable revision; log entries link to the revision
+ * their action produced.
  *
  * ## Format Versions
  * - v1: Basic newsletter with sections array
@@ -26,6 +44,12 @@
  */
 import { Router, Request, Response } from 'express';
 import * as newsletterDbService from '../services/newsletterDbService';
+import * as trackingService from '../services/trackingService';
+import * as sectionRewriteService from '../services/sectionRewriteService';
+import * as imageBatchService from '../services/imageBatchService';
+import * as revisionService from '../services/newsletterRevisionService';
+import { imageStyleMap } from '../external/stability';
+import { requireBudget, requireStageBudget } from './budgetGuard';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
@@ -135,6 +159,137 @@ router.get('/:id/logs', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/newsletters/:id/stats
+ *
+ * Get aggregated email stats (sent, opens, clicks). Returns zeros if never sent.
+ *
+ * @param {string} id - Newsletter ID
+ */
+router.get('/:id/stats', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const stats = trackingService.getNewsletterStats(req.params.id) ?? {
+      newsletterId: req.params.id,
+      totalSent: 0,
+      totalOpens: 0,
+      uniqueOpens: 0,
+      totalClicks: 0,
+      uniqueClicks: 0,
+      lastUpdated: null,
+      openRate: 0,
+      clickRate: 0,
+    };
+
+    logger.info('newsletters', 'get_stats', `Retrieved stats for newsletter: ${req.params.id}`, {
+      correlationId,
+      totalSent: stats.totalSent,
+    });
+    sendSuccess(res, stats);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'get_stats_error', `Failed to get newsletter stats: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch stats', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * GET /api/newsletters/:id/tracking
+ *
+ * Get raw open/click tracking events (newest first).
+ *
+ * @param {string} id - Newsletter ID
+ * @query {number} limit - Max results (default: 100)
+ * @query {number} offset - Pagination offset (default: 0)
+ */
+router.get('/:id/tracking', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const limit = parseInt(req.query.limit as string) || 100;
+    const offset = parseInt(req.query.offset as string) || 0;
+    const result = trackingService.getTrackingEvents(req.params.id, limit, offset);
+
+    logger.info('newsletters', 'get_tracking', `Retrieved ${result.events.length} tracking events`, {
+      correlationId,
+      newsletterId: req.params.id,
+      total: result.total,
+    });
+    sendSuccess(res, result);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'get_tracking_error', `Failed to get tracking events: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch tracking events', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * PUT /api/newsletters/:id/tracking
+ *
+ * Enable or disable open/click tracking for future sends of a newsletter.
+ *
+ * @param {string} id - Newsletter ID
+ * @body {boolean} enabled - Whether tracking is enabled (required)
+ */
+router.put('/:id/tracking', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      logger.warn('newsletters', 'tracking_validation_error', 'enabled (boolean) is required', { correlationId });
+      return sendError(res, 'enabled (boolean) is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (!newsletterDbService.getNewsletterById(req.params.id)) {
+      logger.warn('newsletters', 'tracking_not_found', `Newsletter not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Newsletter not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    trackingService.setTrackingEnabled(req.params.id, enabled);
+
+    logger.info('newsletters', 'set_tracking', `Tracking ${enabled ? 'enabled' : 'disabled'} for: ${req.params.id}`, {
+      correlationId,
+    });
+    sendSuccess(res, { success: true, trackingEnabled: enabled });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'set_tracking_error', `Failed to update tracking: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to update tracking', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * GET /api/newsletters/:id/top-links
+ *
+ * Get the most clicked links in a newsletter.
+ *
+ * @param {string} id - Newsletter ID
+ * @query {number} limit - Max links (default: 10)
+ */
+router.get('/:id/top-links', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const limit = parseInt(req.query.limit as string) || 10;
+    const links = trackingService.getTopLinks(req.params.id, limit);
+
+    logger.info('newsletters', 'get_top_links', `Retrieved ${links.length} top links`, {
+      correlationId,
+      newsletterId: req.params.id,
+    });
+    sendSuccess(res, { links });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'get_top_links_error', `Failed to get top links: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch top links', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
 /**
  * GET /api/newsletters/:id
  *
@@ -230,14 +385,20 @@ router.delete('/:id', (req: Request, res: Response) => {
  * @body {object[]} sections - Section array (for v1)
  * @body {object} audienceSections - Audience sections map (for v2)
  * @body {string} formatVersion - 'v1' or 'v2'
+ * @body {string} source - Revision source: 'image_change' (default) or 'inline_edit'
+ * @body {string} author - Optional editor email for the revision
  */
 router.patch('/:id/sections', (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { sections, audienceSections, formatVersion } = req.body;
+    const { sections, audienceSections, formatVersion, source = 'image_change', author } = req.body;
     let success = false;
 
+    if (source !== 'image_change' && source !== 'inline_edit') {
+      return sendError(res, "source must be 'image_change' or 'inline_edit'", ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
     if (formatVersion === 'v2' && audienceSections) {
       success = newsletterDbService.updateEnhancedNewsletterSections(req.params.id, audienceSections);
     } else if (sections) {
@@ -252,11 +413,20 @@ router.patch('/:id/sections', (req: Request, res: Response) => {
       return sendError(res, 'Newsletter not found', ErrorCodes.NOT_FOUND, correlationId);
     }
 
+    const revisionId = revisionService.commitRevision(
+      req.params.id,
+      source,
+      source === 'inline_edit' ? 'edited' : 'images_updated',
+      undefined,
+      author
+    );
+
     logger.info('newsletters', 'update_sections', `Updated sections for newsletter: ${req.params.id}`, {
       correlationId,
       formatVersion: formatVersion || 'v1',
+      revisionId,
     });
-    sendSuccess(res, { success: true, message: 'Newsletter sections updated' });
+    sendSuccess(res, { success: true, message: 'Newsletter sections updated', revisionId });
   } catch (error) {
     const err = error as Error;
     logger.error('newsletters', 'update_sections_error', `Failed to update newsletter sections: ${err.message}`, err, { correlationId });
@@ -264,6 +434,386 @@ router.patch('/:id/sections', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/newsletters/:id/sections/:audienceId/rewrite
+ *
+ * Propose a new version of one enhanced (v2) audience section, written from the
+ * section's original sources, persona and tone. Nothing is saved; accept the
+ * proposal with PUT /api/newsletters/:id/sections/:audienceId.
+ *
+ * @param {string} id - Newsletter ID
+ * @param {string} audienceId - Audience whose section to rewrite
+ * @body {string} instruction - Optional, e.g. "shorter" or "more technical" (omit to regenerate)
+ */
+router.post('/:id/sections/:audienceId/rewrite', requireStageBudget(['section_writer']), async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const { id, audienceId } = req.params;
+
+  try {
+    const { instruction } = req.body || {};
+
+    if (instruction !== undefined && typeof instruction !== 'string') {
+      return sendError(res, 'instruction must be a string', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (instruction && instruction.length > 500) {
+      return sendError(res, 'instruction must be 500 characters or fewer', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const result = await sectionRewriteService.rewriteSection(id, audienceId, instruction);
+
+    if (!result) {
+      logger.warn('newsletters', 'rewrite_not_found', `Section not found for rewrite: ${id}/${audienceId}`, { correlationId });
+      return sendError(res, 'Enhanced newsletter section not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('newsletters', 'rewrite_section', `Proposed rewrite of ${audienceId} section for newsletter: ${id}`, {
+      correlationId,
+      audienceId,
+      instruction: result.instruction,
+      inputsSource: result.inputsSource,
+    });
+    sendSuccess(res, result, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'rewrite_section_error', `Failed to rewrite section: ${err.message}`, err, { correlationId, audienceId });
+    sendError(res, 'Failed to rewrite section', ErrorCodes.EXTERNAL_SERVICE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * PUT /api/newsletters/:id/sections/:audienceId
+ *
+ * Replace one enhanced (v2) audience section, e.g. to accept a proposed rewrite.
+ * The newsletter's other sections are left untouched.
+ *
+ * @param {string} id - Newsletter ID
+ * @param {string} audienceId - Audience whose section to replace
+ * @body {object} section - The new EnhancedAudienceSection
+ * @body {string} author - Optional editor email for the revision
+ */
+router.put('/:id/sections/:audienceId', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const { id, audienceId } = req.params;
+
+  try {
+    const { section, author } = req.body || {};
+
+    if (!section || typeof section.title !== 'string' || typeof section.content !== 'string') {
+      logger.warn('newsletters', 'replace_section_validation_error', 'Missing section title or content', { correlationId });
+      return sendError(res, 'section with title and content is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const success = sectionRewriteService.acceptSectionRewrite(id, audienceId, section, author);
+
+    if (!success) {
+      logger.warn('newsletters', 'replace_section_not_found', `Section not found: ${id}/${audienceId}`, { correlationId });
+      return sendError(res, 'Enhanced newsletter section not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('newsletters', 'replace_section', `Replaced ${audienceId} section for newsletter: ${id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Section updated' });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'replace_section_error', `Failed to replace section: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to update section', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+const IMAGE_TARGET_KINDS = ['hero', 'tool_of_the_day', 'section'];
+
+/**
+ * GET /api/newsletters/:id/images
+ *
+ * List the image slots of an enhanced (v2) newsletter with their prompts and
+ * current images.
+ *
+ * @param {string} id - Newsletter ID
+ */
+router.get('/:id/images', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { id } = req.params;
+    const newsletter = newsletterDbService.getEnhancedNewsletterById(id);
+
+    if (!newsletter) {
+      logger.warn('newsletters', 'images_not_found', `Enhanced newsletter not found: ${id}`, { correlationId });
+      return sendError(res, 'Enhanced newsletter not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const slots = imageBatchService.listImageSlots(newsletter);
+    sendSuccess(res, {
+      slots,
+      imageStyle: newsletterDbService.getNewsletterById(id)?.imageStyle || null,
+      imageStyles: Object.keys(imageStyleMap),
+    }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'images_list_error', `Failed to list images: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list newsletter images', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * POST /api/newsletters/:id/images/stream
+ *
+ * Generate images for an enhanced (v2) newsletter via Server-Sent Events.
+ * Each image is saved to the newsletter as soon as it's generated.
+ *
+ * @param {string} id - Newsletter ID
+ * @body {object[]} targets - Optional slots ({ kind, audienceId? }); defaults to all
+ * @body {string} imageStyle - Optional style for the whole batch; defaults to the newsletter's
+ * @body {number} concurrency - Optional images generated at once (1-4)
+ * @body {object} prompts - Optional prompt overrides keyed by "hero", "tool_of_the_day" or "section:<audienceId>"
+ *
+ * Events: connected, batch_start, image_start, image_complete, image_error, batch_complete, error
+ */
+router.post('/:id/images/stream', requireBudget('stability'), async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const { id } = req.params;
+
+  try {
+    const { targets, imageStyle, concurrency, prompts } = req.body || {};
+
+    if (targets !== undefined && (
+      !Array.isArray(targets) ||
+      targets.some((t: { kind?: string; audienceId?: unknown }) =>
+        !t || !IMAGE_TARGET_KINDS.includes(t.kind as string) || (t.kind === 'section' && typeof t.audienceId !== 'string'))
+    )) {
+      return sendError(res, 'targets must be an array of { kind, audienceId? }', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (imageStyle !== undefined && !imageStyleMap[imageStyle]) {
+      return sendError(res, `imageStyle must be one of: ${Object.keys(imageStyleMap).join(', ')}`, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      return sendError(res, 'concurrency must be a positive integer', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (prompts !== undefined && (typeof prompts !== 'object' || prompts === null || Array.isArray(prompts))) {
+      return sendError(res, 'prompts must be an object', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    if (!newsletterDbService.getEnhancedNewsletterById(id)) {
+      logger.warn('newsletters', 'images_not_found', `Enhanced newsletter not found: ${id}`, { correlationId });
+      return sendError(res, 'Enhanced newsletter not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('newsletters', 'images_stream_start', `Starting image batch for newsletter: ${id}`, {
+      correlationId,
+      imageStyle,
+      targetCount: targets?.length,
+    });
+
+    // Set SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    res.flushHeaders();
+
+    // Images keep being generated and saved if the client disconnects; we just stop writing
+    const send = (event: object) => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+    };
+
+    send({ type: 'connected', correlationId });
+
+    const result = await imageBatchService.generateNewsletterImages(
+      id,
+      { targets, imageStyle, concurrency, prompts },
+      (event) => send(event)
+    );
+
+    send({
+      type: 'batch_complete',
+      newsletter: result?.newsletter,
+      imageStyle: result?.imageStyle,
+      completedCount: result?.completedCount ?? 0,
+      failedCount: result?.failedCount ?? 0,
+      totalCount: (result?.completedCount ?? 0) + (result?.failedCount ?? 0),
+    });
+    res.end();
+
+    logger.info('newsletters', 'images_stream_complete', `Image batch complete for newsletter: ${id}`, {
+      correlationId,
+      completedCount: result?.completedCount,
+      failedCount: result?.failedCount,
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'images_stream_error', `Image batch failed: ${err.message}`, err, { correlationId });
+
+    if (!res.headersSent) {
+      sendError(res, 'Image batch failed', ErrorCodes.EXTERNAL_SERVICE_ERROR, correlationId, { details: err.message });
+    } else {
+      res.write(`data: ${JSON.stringify({ type: 'error', error: err.message })}\n\n`);
+      res.end();
+    }
+  }
+});
+
+/**
+ * PUT /api/newsletters/:id/content
+ *
+ * Save an editor's inline changes (subject, intro/editor's note, sections,
+ * conclusion...). Recorded as an inline_edit revision.
+ *
+ * @param {string} id - Newsletter ID
+ * @body {string} formatVersion - 'v1' or 'v2'
+ * @body {object} newsletter - Full edited newsletter content
+ * @body {string} author - Optional editor email for the revision
+ */
+router.put('/:id/content', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { formatVersion, newsletter, author } = req.body || {};
+
+    if (formatVersion !== 'v1' && formatVersion !== 'v2') {
+      return sendError(res, "formatVersion must be 'v1' or 'v2'", ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+    const hasSections = formatVersion === 'v2'
+      ? Array.isArray(newsletter?.audienceSections)
+      : Array.isArray(newsletter?.sections);
+    if (!newsletter || !hasSections) {
+      logger.warn('newsletters', 'save_content_validation_error', 'Missing newsletter content', { correlationId });
+      return sendError(res, 'newsletter with sections is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const revisionId = revisionService.saveInlineEdits(req.params.id, formatVersion, newsletter, author);
+
+    if (revisionId === null) {
+      logger.warn('newsletters', 'save_content_not_found', `Newsletter not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Newsletter not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('newsletters', 'save_content', `Saved inline edits for newsletter: ${req.params.id}`, { correlationId, revisionId });
+    sendSuccess(res, { success: true, revisionId }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'save_content_error', `Failed to save newsletter content: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to save newsletter content', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * GET /api/newsletters/:id/revisions
+ *
+ * List a newsletter's revisions (newest first), without their content.
+ *
+ * @param {string} id - Newsletter ID
+ */
+router.get('/:id/revisions', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const revisions = revisionService.listRevisions(req.params.id);
+
+    if (!revisions) {
+      return sendError(res, 'Newsletter not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, { revisions }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'revisions_list_error', `Failed to list revisions: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list revisions', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * GET /api/newsletters/:id/revisions/diff
+ *
+ * Field-level diff between two revisions of a newsletter.
+ *
+ * @param {string} id - Newsletter ID
+ * @query {number} from - Older revision ID
+ * @query {number} to - Newer revision ID
+ */
+router.get('/:id/revisions/diff', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const from = parseInt(req.query.from as string, 10);
+    const to = parseInt(req.query.to as string, 10);
+
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return sendError(res, 'from and to revision IDs are required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const diff = revisionService.diffRevisions(req.params.id, from, to);
+
+    if (!diff) {
+      return sendError(res, 'Revision not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, diff, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'revisions_diff_error', `Failed to diff revisions: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to diff revisions', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * GET /api/newsletters/:id/revisions/:revisionId
+ *
+ * Get one revision with the newsletter content it recorded.
+ *
+ * @param {string} id - Newsletter ID
+ * @param {number} revisionId - Revision ID
+ */
+router.get('/:id/revisions/:revisionId', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const revision = revisionService.getRevision(req.params.id, parseInt(req.params.revisionId, 10));
+
+    if (!revision) {
+      return sendError(res, 'Revision not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, revision, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'revision_get_error', `Failed to get revision: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get revision', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * POST /api/newsletters/:id/revisions/:revisionId/restore
+ *
+ * Restore a newsletter's content to an earlier revision. The restore is
+ * itself recorded as a new revision.
+ *
+ * @param {string} id - Newsletter ID
+ * @param {number} revisionId - Revision to restore
+ * @body {string} author - Optional editor email for the revision
+ */
+router.post('/:id/revisions/:revisionId/restore', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const { id } = req.params;
+
+  try {
+    const result = revisionService.restoreRevision(id, parseInt(req.params.revisionId, 10), req.body?.author);
+
+    if (!result) {
+      return sendError(res, 'Revision not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('newsletters', 'revision_restored', `Restored newsletter ${id} from revision ${req.params.revisionId}`, {
+      correlationId,
+      revisionId: result.revision.id,
+    });
+    sendSuccess(res, result, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('newsletters', 'revision_restore_error', `Failed to restore revision: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to restore revision', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
 /**
  * POST /api/newsletters/:id/log
  *
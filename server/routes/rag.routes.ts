@@ -1,7 +1,7 @@
 /**
  * RAG Knowledge Base Routes
  *
- * CRUD operations for documents, chats, and storage management.
+ * CRUD operations for documents, collections, chats, and storage management.
  *
  * @module routes/rag
  *
@@ -10,9 +10,24 @@
  * ### Documents
  * - GET    /api/rag/documents              - List all documents
  * - GET    /api/rag/documents/:id          - Get document by ID
+ * - GET    /api/rag/documents/:id/chunks   - Get document chunks (local backend)
+ * - PUT    /api/rag/documents/:id          - Move document to a collection / set its tags / re-crawl policy
  * - POST   /api/rag/documents/text         - Index pasted text
  * - POST   /api/rag/documents/url          - Index content from URL (client-fetched)
  * - DELETE /api/rag/documents/:id          - Delete document
+ * - GET    /api/rag/tags                   - List document tags with counts
+ *
+ * ### Re-crawl
+ * - POST   /api/rag/documents/:id/recrawl  - Re-fetch a URL document now
+ * - GET    /api/rag/documents/:id/versions - Earlier versions replaced by re-crawls
+ * - GET    /api/rag/recrawl/feed           - Updated/broken/recovered feed and worker status
+ * - POST   /api/rag/recrawl/run            - Re-crawl all due documents now
+ *
+ * ### Collections
+ * - GET    /api/rag/collections            - List collections with document counts
+ * - POST   /api/rag/collections            - Create collection
+ * - PUT    /api/rag/collections/:id        - Rename / describe collection / set its re-crawl policy
+ * - DELETE /api/rag/collections/:id        - Delete collection (documents are kept, unfiled)
  *
  * ### Source Indexing (Server-side fetch)
  * - POST   /api/rag/fetch-and-index        - Fetch URL and index content
@@ -21,30 +36,92 @@
  *
  * ### Storage
  * - GET    /api/rag/storage                - Get storage statistics
- * - GET    /api/rag/config                 - Get RAG configuration
+ * - GET    /api/rag/config                 - Get RAG configuration (including active backend)
  *
  * ### Chats
  * - GET    /api/rag/chats                  - List all chats
- * - POST   /api/rag/chats                  - Create new chat
+ * - POST   /api/rag/chats                  - Create new chat (optionally scoped to collections)
  * - GET    /api/rag/chats/:id              - Get chat with messages
- * - PUT    /api/rag/chats/:id              - Update chat title
+ * - PUT    /api/rag/chats/:id              - Update chat title and/or collection scope
  * - DELETE /api/rag/chats/:id              - Delete chat
  * - POST   /api/rag/chats/:id/messages     - Send message and get response
+ *   (chat messages refuse with 429 once the total monthly budget or the budget of the
+ *   backend's provider is used up: Gemini, or the knowledge_base stage's LLM for the local backend)
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import * as persistentRag from '../services/persistentRagService';
+import * as kbRecrawl from '../services/knowledgeBaseRecrawlService';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
+import { requireBudget, requireStageBudget } from './budgetGuard';
+import { getRagBackendId } from '../external/rag';
 import type {
   RagDocumentContentType,
   RagDocumentSourceType,
   RagDocumentStatus,
+  RagRecrawlPolicy,
 } from '../../types';
 
 const router = Router();
 
+/**
+ * Budget check for chat messages: the Gemini backend answers with Gemini, the
+ * local backend through the knowledge_base LLM stage
+ * An invalid RAG_BACKEND counts as Gemini; the chat reports the configuration error.
+ */
+const requireChatBudget = (req: Request, res: Response, next: NextFunction): void => {
+  let isLocal = false;
+  try {
+    isLocal = getRagBackendId() === 'local';
+  } catch {
+    // Fall through to the Gemini budget
+  }
+
+  if (isLocal) {
+    requireStageBudget(['knowledge_base'])(req, res, next);
+  } else {
+    requireBudget('gemini')(req, res, next);
+  }
+};
+
+/**
+ * Check the collection and tags a document is filed with
+ *
+ * @returns An error message, or null if valid
+ */
+const validateFiling = (collectionId: unknown, tags: unknown): string | null => {
+  if (collectionId !== undefined && collectionId !== null && collectionId !== '') {
+    if (typeof collectionId !== 'string' || !persistentRag.getCollectionById(collectionId)) {
+      return `Collection not found: ${collectionId}`;
+    }
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string'))) {
+    return 'Tags must be an array of strings';
+  }
+  return null;
+};
+
+/**
+ * Check a chat's collection scope
+ *
+ * @returns An error message, or null if valid
+ */
+const validateCollectionIds = (collectionIds: unknown): string | null => {
+  if (collectionIds === undefined) return null;
+  if (!Array.isArray(collectionIds) || collectionIds.some((id) => typeof id !== 'string')) {
+    return 'collectionIds must be an array of collection IDs';
+  }
+  const missing = collectionIds.find((id) => !persistentRag.getCollectionById(id));
+  return missing ? `Collection not found: ${missing}` : null;
+};
+
+const RECRAWL_POLICIES: RagRecrawlPolicy[] = ['daily', 'weekly', 'never'];
+
+const isRecrawlPolicy = (value: unknown): value is RagRecrawlPolicy =>
+  RECRAWL_POLICIES.includes(value as RagRecrawlPolicy);
+
 // ============================================================================
 // Document Endpoints
 // ============================================================================
@@ -56,6 +133,8 @@ const router = Router();
  *
  * @query {string} status - Filter by status (pending, indexed, failed)
  * @query {string} sourceType - Filter by source type
+ * @query {string} collectionId - Filter by collection ('none' for documents not in a collection)
+ * @query {string} tag - Filter by tag
  * @query {number} limit - Maximum number of documents (default: 100)
  * @query {number} offset - Offset for pagination
  */
@@ -65,10 +144,13 @@ router.get('/documents', (req: Request, res: Response) => {
   try {
     const status = req.query.status as RagDocumentStatus | undefined;
     const sourceType = req.query.sourceType as RagDocumentSourceType | undefined;
+    const collectionParam = req.query.collectionId as string | undefined;
+    const collectionId = collectionParam === 'none' ? null : collectionParam || undefined;
+    const tag = (req.query.tag as string | undefined) || undefined;
     const limit = parseInt(req.query.limit as string) || 100;
     const offset = parseInt(req.query.offset as string) || 0;
 
-    const documents = persistentRag.getDocuments({ status, sourceType, limit, offset });
+    const documents = persistentRag.getDocuments({ status, sourceType, collectionId, tag, limit, offset });
     const stats = persistentRag.getStorageStats();
 
     logger.info('rag', 'list_documents', `Listed ${documents.length} documents`, {
@@ -77,6 +159,8 @@ router.get('/documents', (req: Request, res: Response) => {
       offset,
       status,
       sourceType,
+      collectionId,
+      tag,
     });
 
     sendSuccess(res, { documents, stats });
@@ -123,6 +207,108 @@ router.get('/documents/:id', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/rag/documents/:id/chunks
+ *
+ * Get the chunks a document was split into by the local backend
+ * (empty for documents indexed on Gemini).
+ */
+router.get('/documents/:id/chunks', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const document = persistentRag.getDocuments().find((d) => d.id === req.params.id);
+
+    if (!document) {
+      logger.warn('rag', 'document_not_found', `Document not found: ${req.params.id}`, {
+        correlationId,
+      });
+      return sendError(res, 'Document not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const chunks = persistentRag.getDocumentChunks(req.params.id);
+
+    logger.info('rag', 'get_document_chunks', `Retrieved ${chunks.length} chunks for document: ${req.params.id}`, {
+      correlationId,
+    });
+    sendSuccess(res, { documentId: document.id, chunks });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'get_document_chunks_error', `Failed to get document chunks: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch document chunks', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/rag/documents/:id
+ *
+ * Move a document to a collection, replace its tags and/or set its re-crawl policy.
+ *
+ * @body {string|null} collectionId - Collection to move to (null removes it from its collection)
+ * @body {string[]} tags - Replacement tags
+ * @body {string|null} recrawlPolicy - daily, weekly or never (null follows the collection's);
+ *   URL documents only
+ */
+router.put('/documents/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { collectionId, tags, recrawlPolicy } = req.body;
+
+    const filingError = validateFiling(collectionId, tags);
+    if (filingError) {
+      logger.warn('rag', 'validation_error', filingError, { correlationId });
+      return sendError(res, filingError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (recrawlPolicy !== undefined && recrawlPolicy !== null && !isRecrawlPolicy(recrawlPolicy)) {
+      const message = `recrawlPolicy must be one of: ${RECRAWL_POLICIES.join(', ')}`;
+      logger.warn('rag', 'validation_error', message, { correlationId });
+      return sendError(res, message, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    let document = persistentRag.updateDocumentOrganization(req.params.id, {
+      collectionId: collectionId === undefined ? undefined : collectionId || null,
+      tags,
+    });
+
+    if (!document) {
+      logger.warn('rag', 'document_not_found', `Document not found for update: ${req.params.id}`, {
+        correlationId,
+      });
+      return sendError(res, 'Document not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    if (recrawlPolicy !== undefined) {
+      if (!document.sourceUrl) {
+        logger.warn('rag', 'validation_error', `Document has no source URL: ${req.params.id}`, { correlationId });
+        return sendError(res, 'Only documents indexed from a URL can be re-crawled', ErrorCodes.VALIDATION_ERROR, correlationId);
+      }
+      document = persistentRag.updateDocumentRecrawlPolicy(req.params.id, recrawlPolicy)!;
+    }
+
+    logger.info('rag', 'update_document', `Updated document organization: ${req.params.id}`, {
+      correlationId,
+      collectionId: document.collectionId,
+      tags: document.tags,
+      recrawlPolicy: document.recrawlPolicy,
+    });
+    sendSuccess(res, { document });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'update_document_error', `Failed to update document: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to update document', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
 /**
  * POST /api/rag/documents/text
  *
@@ -131,19 +317,30 @@ router.get('/documents/:id', (req: Request, res: Response) => {
  * @body {string} content - Text content to index (required)
  * @body {string} title - Title for the document (required)
  * @body {object} metadata - Optional metadata
+ * @body {string} collectionId - Optional collection to file the document in
+ * @body {string[]} tags - Optional tags
  */
 router.post('/documents/text', async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { content, title, metadata } = req.body;
+    const { content, title, metadata, collectionId, tags } = req.body;
 
     if (!content || !title) {
       logger.warn('rag', 'validation_error', 'Content and title are required', { correlationId });
       return sendError(res, 'Content and title are required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
-    const result = await persistentRag.indexPastedText(content, title, metadata);
+    const filingError = validateFiling(collectionId, tags);
+    if (filingError) {
+      logger.warn('rag', 'validation_error', filingError, { correlationId });
+      return sendError(res, filingError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const result = await persistentRag.indexPastedText(content, title, metadata, {
+      collectionId: collectionId || undefined,
+      tags,
+    });
 
     if (!result.success) {
       logger.warn('rag', 'index_failed', `Failed to index text: ${result.error}`, { correlationId });
@@ -179,19 +376,30 @@ router.post('/documents/text', async (req: Request, res: Response) => {
  * @body {string} content - Pre-fetched content (required - client fetches to avoid CORS)
  * @body {string} title - Title for the document (required)
  * @body {object} metadata - Optional metadata
+ * @body {string} collectionId - Optional collection to file the document in
+ * @body {string[]} tags - Optional tags
  */
 router.post('/documents/url', async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { url, content, title, metadata } = req.body;
+    const { url, content, title, metadata, collectionId, tags } = req.body;
 
     if (!url || !content || !title) {
       logger.warn('rag', 'validation_error', 'URL, content, and title are required', { correlationId });
       return sendError(res, 'URL, content, and title are required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
-    const result = await persistentRag.indexFromUrl(url, content, title, metadata);
+    const filingError = validateFiling(collectionId, tags);
+    if (filingError) {
+      logger.warn('rag', 'validation_error', filingError, { correlationId });
+      return sendError(res, filingError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const result = await persistentRag.indexFromUrl(url, content, title, metadata, {
+      collectionId: collectionId || undefined,
+      tags,
+    });
 
     if (!result.success) {
       logger.warn('rag', 'index_url_failed', `Failed to index URL: ${result.error}`, { correlationId });
@@ -228,12 +436,14 @@ router.post('/documents/url', async (req: Request, res: Response) => {
  * @body {string} title - Title for the document (required)
  * @body {string} sourceType - Source type: 'trending' | 'tool' | 'suggestion' | 'archive' (default: 'trending')
  * @body {object} metadata - Optional metadata
+ * @body {string} collectionId - Optional collection to file the document in
+ * @body {string[]} tags - Optional tags
  */
 router.post('/fetch-and-index', async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { url, title, sourceType = 'trending', metadata } = req.body;
+    const { url, title, sourceType = 'trending', metadata, collectionId, tags } = req.body;
 
     if (!url || !title) {
       logger.warn('rag', 'validation_error', 'URL and title are required', { correlationId });
@@ -246,7 +456,16 @@ router.post('/fetch-and-index', async (req: Request, res: Response) => {
       return sendError(res, 'Invalid sourceType', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
-    const result = await persistentRag.fetchAndIndexUrl(url, title, sourceType, metadata);
+    const filingError = validateFiling(collectionId, tags);
+    if (filingError) {
+      logger.warn('rag', 'validation_error', filingError, { correlationId });
+      return sendError(res, filingError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const result = await persistentRag.fetchAndIndexUrl(url, title, sourceType, metadata, {
+      collectionId: collectionId || undefined,
+      tags,
+    });
 
     if (!result.success) {
       logger.warn('rag', 'fetch_index_failed', `Failed to fetch and index: ${result.error}`, { correlationId, url });
@@ -285,6 +504,8 @@ router.post('/fetch-and-index', async (req: Request, res: Response) => {
  * @body {string} sources[].title - Title for the document (required)
  * @body {string} sources[].sourceType - Source type (default: 'trending')
  * @body {object} sources[].metadata - Optional metadata
+ * @body {string} sources[].collectionId - Optional collection to file the document in
+ * @body {string[]} sources[].tags - Optional tags
  */
 router.post('/fetch-and-index-batch', async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
@@ -303,6 +524,12 @@ router.post('/fetch-and-index-batch', async (req: Request, res: Response) => {
         logger.warn('rag', 'validation_error', 'Each source must have url and title', { correlationId });
         return sendError(res, 'Each source must have url and title', ErrorCodes.VALIDATION_ERROR, correlationId);
       }
+
+      const filingError = validateFiling(source.collectionId, source.tags);
+      if (filingError) {
+        logger.warn('rag', 'validation_error', filingError, { correlationId });
+        return sendError(res, filingError, ErrorCodes.VALIDATION_ERROR, correlationId);
+      }
     }
 
     const result = await persistentRag.fetchAndIndexBatch(sources);
@@ -388,6 +615,343 @@ router.delete('/documents/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/rag/tags
+ *
+ * List all document tags with the number of documents carrying each.
+ */
+router.get('/tags', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const tags = persistentRag.getDocumentTags();
+
+    logger.info('rag', 'list_tags', `Listed ${tags.length} tags`, { correlationId });
+
+    sendSuccess(res, { tags });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'list_tags_error', `Failed to list tags: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch tags', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+// ============================================================================
+// Collection Endpoints
+// ============================================================================
+
+/**
+ * GET /api/rag/collections
+ *
+ * List all collections with their document counts.
+ */
+router.get('/collections', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const collections = persistentRag.getCollections();
+
+    logger.info('rag', 'list_collections', `Listed ${collections.length} collections`, { correlationId });
+
+    sendSuccess(res, { collections });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'list_collections_error', `Failed to list collections: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch collections', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+/**
+ * POST /api/rag/collections
+ *
+ * Create a collection.
+ *
+ * @body {string} name - Collection name, unique (required)
+ * @body {string} description - Optional description
+ * @body {string} recrawlPolicy - Re-crawl policy of its URL documents: daily, weekly or never (default)
+ */
+router.post('/collections', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    const { description, recrawlPolicy } = req.body;
+
+    if (!name) {
+      logger.warn('rag', 'validation_error', 'Name is required', { correlationId });
+      return sendError(res, 'Name is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (recrawlPolicy !== undefined && !isRecrawlPolicy(recrawlPolicy)) {
+      const message = `recrawlPolicy must be one of: ${RECRAWL_POLICIES.join(', ')}`;
+      logger.warn('rag', 'validation_error', message, { correlationId });
+      return sendError(res, message, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (persistentRag.getCollectionByName(name)) {
+      logger.warn('rag', 'validation_error', `Collection already exists: ${name}`, { correlationId });
+      return sendError(res, 'A collection with this name already exists', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const collection = persistentRag.createCollection(name, description, recrawlPolicy);
+
+    logger.info('rag', 'create_collection', `Created collection: ${collection.id}`, {
+      correlationId,
+      collectionId: collection.id,
+    });
+
+    sendSuccess(res, { collection }, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'create_collection_error', `Failed to create collection: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to create collection', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/rag/collections/:id
+ *
+ * Rename a collection, change its description and/or set its re-crawl policy.
+ *
+ * @body {string} name - New name, unique
+ * @body {string} description - New description (empty to clear)
+ * @body {string} recrawlPolicy - daily, weekly or never; documents without their own policy follow it
+ */
+router.put('/collections/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : undefined;
+    const { description, recrawlPolicy } = req.body;
+
+    if (name === '') {
+      logger.warn('rag', 'validation_error', 'Name cannot be empty', { correlationId });
+      return sendError(res, 'Name cannot be empty', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (recrawlPolicy !== undefined && !isRecrawlPolicy(recrawlPolicy)) {
+      const message = `recrawlPolicy must be one of: ${RECRAWL_POLICIES.join(', ')}`;
+      logger.warn('rag', 'validation_error', message, { correlationId });
+      return sendError(res, message, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (name) {
+      const existing = persistentRag.getCollectionByName(name);
+      if (existing && existing.id !== req.params.id) {
+        logger.warn('rag', 'validation_error', `Collection already exists: ${name}`, { correlationId });
+        return sendError(res, 'A collection with this name already exists', ErrorCodes.VALIDATION_ERROR, correlationId);
+      }
+    }
+
+    const collection = persistentRag.updateCollection(req.params.id, { name, description, recrawlPolicy });
+
+    if (!collection) {
+      logger.warn('rag', 'collection_not_found', `Collection not found for update: ${req.params.id}`, {
+        correlationId,
+      });
+      return sendError(res, 'Collection not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('rag', 'update_collection', `Updated collection: ${req.params.id}`, { correlationId });
+    sendSuccess(res, { collection });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'update_collection_error', `Failed to update collection: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to update collection', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/rag/collections/:id
+ *
+ * Delete a collection. Its documents stay in the knowledge base without a
+ * collection, and chats scoped to it no longer search it. Refused (409) while
+ * it is the only collection a chat is scoped to, since that chat would then
+ * search the whole knowledge base.
+ */
+router.delete('/collections/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const scopedChats = persistentRag.getChatsScopedOnlyTo(req.params.id);
+    if (scopedChats.length > 0) {
+      const titles = scopedChats.slice(0, 3).map(chat => `"${chat.title}"`).join(', ');
+      const more = scopedChats.length > 3 ? ` and ${scopedChats.length - 3} more` : '';
+      return sendError(
+        res,
+        `Cannot delete a collection that is the only scope of chats ${titles}${more}. Change their scope or delete them first.`,
+        ErrorCodes.CONFLICT,
+        correlationId,
+        { chatIds: scopedChats.map(chat => chat.id) }
+      );
+    }
+
+    const deleted = persistentRag.deleteCollection(req.params.id);
+
+    if (!deleted) {
+      logger.warn('rag', 'delete_collection_not_found', `Collection not found for deletion: ${req.params.id}`, {
+        correlationId,
+      });
+      return sendError(res, 'Collection not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('rag', 'delete_collection', `Deleted collection: ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Collection deleted successfully' });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'delete_collection_error', `Failed to delete collection: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to delete collection', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+// ============================================================================
+// Re-crawl Endpoints
+// ============================================================================
+
+/**
+ * POST /api/rag/documents/:id/recrawl
+ *
+ * Re-fetch a URL document now, re-indexing it if its content changed.
+ */
+router.post('/documents/:id/recrawl', async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = persistentRag.getDocuments().find((d) => d.id === req.params.id);
+
+    if (!existing) {
+      logger.warn('rag', 'document_not_found', `Document not found for re-crawl: ${req.params.id}`, {
+        correlationId,
+      });
+      return sendError(res, 'Document not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    if (!existing.sourceUrl) {
+      logger.warn('rag', 'validation_error', `Document has no source URL: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Only documents indexed from a URL can be re-crawled', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const result = await kbRecrawl.recrawlDocument(req.params.id);
+    const document = persistentRag.getDocuments().find((d) => d.id === req.params.id) || null;
+
+    logger.info('rag', 'recrawl_document', `Re-crawled document: ${req.params.id} (${result.outcome})`, {
+      correlationId,
+      outcome: result.outcome,
+      error: result.error,
+    });
+    sendSuccess(res, { result, document });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'recrawl_document_error', `Failed to re-crawl document: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to re-crawl document', ErrorCodes.INTERNAL_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+/**
+ * GET /api/rag/documents/:id/versions
+ *
+ * Earlier versions of a document (record and metadata), newest first.
+ */
+router.get('/documents/:id/versions', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const versions = kbRecrawl.getDocumentVersions(req.params.id);
+
+    logger.info('rag', 'get_document_versions', `Retrieved ${versions.length} versions for document: ${req.params.id}`, {
+      correlationId,
+    });
+    sendSuccess(res, { documentId: req.params.id, versions });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'get_document_versions_error', `Failed to get document versions: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch document versions', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+/**
+ * GET /api/rag/recrawl/feed
+ *
+ * Recent updated/broken/recovered events with the re-crawl worker status.
+ *
+ * @query {number} limit - Maximum events (default 50)
+ */
+router.get('/recrawl/feed', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const events = kbRecrawl.getRecrawlFeed(limit && limit > 0 ? limit : undefined);
+    const status = kbRecrawl.getRecrawlStatus();
+
+    logger.info('rag', 'get_recrawl_feed', `Retrieved ${events.length} re-crawl events`, { correlationId });
+    sendSuccess(res, { events, status });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'get_recrawl_feed_error', `Failed to get re-crawl feed: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to fetch re-crawl feed', ErrorCodes.DATABASE_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
+/**
+ * POST /api/rag/recrawl/run
+ *
+ * Re-crawl all due documents now instead of waiting for the hourly worker.
+ */
+router.post('/recrawl/run', async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const summary = await kbRecrawl.runDueRecrawls();
+
+    logger.info('rag', 'run_recrawl', `Re-crawled ${summary.checked} due documents`, {
+      correlationId,
+      ...summary,
+    });
+    sendSuccess(res, { summary });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('rag', 'run_recrawl_error', `Failed to run re-crawl: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to run re-crawl', ErrorCodes.INTERNAL_ERROR, correlationId, {
+      details: err.message,
+    });
+  }
+});
+
 // ============================================================================
 // Storage Endpoints
 // ============================================================================
@@ -484,13 +1048,22 @@ router.get('/chats', (req: Request, res: Response) => {
  * Create a new chat.
  *
  * @body {string} title - Chat title (default: "New Chat")
+ * @body {string[]} collectionIds - Collections the chat searches (default: whole knowledge base)
  */
 router.post('/chats', (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
     const title = req.body.title || 'New Chat';
-    const chat = persistentRag.createChat(title);
+    const { collectionIds } = req.body;
+
+    const scopeError = validateCollectionIds(collectionIds);
+    if (scopeError) {
+      logger.warn('rag', 'validation_error', scopeError, { correlationId });
+      return sendError(res, scopeError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const chat = persistentRag.createChat(title, collectionIds);
 
     logger.info('rag', 'create_chat', `Created chat: ${chat.id}`, { correlationId, chatId: chat.id });
 
@@ -544,33 +1117,45 @@ router.get('/chats/:id', (req: Request, res: Response) => {
 /**
  * PUT /api/rag/chats/:id
  *
- * Update chat title.
+ * Update chat title and/or the collections it searches.
  *
- * @body {string} title - New chat title (required)
+ * @body {string} title - New chat title
+ * @body {string[]} collectionIds - Collections to search (empty for the whole knowledge base)
  */
 router.put('/chats/:id', (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { title } = req.body;
+    const { title, collectionIds } = req.body;
 
-    if (!title) {
-      logger.warn('rag', 'validation_error', 'Title is required', { correlationId });
-      return sendError(res, 'Title is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    if (!title && collectionIds === undefined) {
+      logger.warn('rag', 'validation_error', 'Title or collectionIds is required', { correlationId });
+      return sendError(res, 'Title or collectionIds is required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
-    const updated = persistentRag.updateChatTitle(req.params.id, title);
+    const scopeError = validateCollectionIds(collectionIds);
+    if (scopeError) {
+      logger.warn('rag', 'validation_error', scopeError, { correlationId });
+      return sendError(res, scopeError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
 
-    if (!updated) {
+    if (!persistentRag.getChatById(req.params.id)) {
       logger.warn('rag', 'chat_not_found', `Chat not found for update: ${req.params.id}`, {
         correlationId,
       });
       return sendError(res, 'Chat not found', ErrorCodes.NOT_FOUND, correlationId);
     }
 
+    if (title) {
+      persistentRag.updateChatTitle(req.params.id, title);
+    }
+    if (collectionIds !== undefined) {
+      persistentRag.updateChatScope(req.params.id, collectionIds);
+    }
+
     const chat = persistentRag.getChatById(req.params.id);
 
-    logger.info('rag', 'update_chat', `Updated chat title: ${req.params.id}`, { correlationId });
+    logger.info('rag', 'update_chat', `Updated chat: ${req.params.id}`, { correlationId });
     sendSuccess(res, { chat });
   } catch (error) {
     const err = error as Error;
@@ -621,7 +1206,7 @@ router.delete('/chats/:id', (req: Request, res: Response) => {
  *
  * @body {string} message - User's message (required)
  */
-router.post('/chats/:id/messages', async (req: Request, res: Response) => {
+router.post('/chats/:id/messages', requireChatBudget, async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
@@ -670,21 +1255,28 @@ router.post('/chats/:id/messages', async (req: Request, res: Response) => {
  *
  * @body {string} message - User's message (required)
  * @body {string} title - Optional chat title (auto-generated if not provided)
+ * @body {string[]} collectionIds - Collections the chat searches (default: whole knowledge base)
  */
-router.post('/chats/new-with-message', async (req: Request, res: Response) => {
+router.post('/chats/new-with-message', requireChatBudget, async (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { message, title } = req.body;
+    const { message, title, collectionIds } = req.body;
 
     if (!message) {
       logger.warn('rag', 'validation_error', 'Message is required', { correlationId });
       return sendError(res, 'Message is required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
+    const scopeError = validateCollectionIds(collectionIds);
+    if (scopeError) {
+      logger.warn('rag', 'validation_error', scopeError, { correlationId });
+      return sendError(res, scopeError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
     // Create chat with title from first message if not provided
     const chatTitle = title || message.substring(0, 50) + (message.length > 50 ? '...' : '');
-    const chat = persistentRag.createChat(chatTitle);
+    const chat = persistentRag.createChat(chatTitle, collectionIds);
 
     // Send message
     const result = await persistentRag.sendChatMessage(chat.id, message);
@@ -0,0 +1,418 @@
+/**
+ * Recurring Schedule Routes
+ *
+ * Recurring generate-and-send schedules. Each schedule pairs a cron
+ * expression with a generation recipe (persona, audiences, topic source,
+ * tone); on every tick the scheduler generates a V4 newsletter, links it to
+ * the content calendar and sends it to the recipient lists, or holds it for
+ * approval.
+ *
+ * @module routes/recurringSchedule
+ *
+ * ## Endpoints
+ * - GET    /api/schedule/recurring                      - List recurring schedules
+ * - POST   /api/schedule/recurring                      - Create a recurring schedule
+ * - GET    /api/schedule/recurring/:id                  - Get a recurring schedule
+ * - PUT    /api/schedule/recurring/:id                  - Update a recurring schedule
+ * - DELETE /api/schedule/recurring/:id                  - Delete a recurring schedule and its runs
+ * - POST   /api/schedule/recurring/:id/run              - Start a run now
+ * - GET    /api/schedule/recurring/:id/runs             - List runs (newest first)
+ * - POST   /api/schedule/recurring/runs/:runId/approve  - Approve a held run and send it
+ * - POST   /api/schedule/recurring/runs/:runId/reject   - Reject a held run
+ *
+ * ## Notes
+ * - Services: schedulerService (cron tasks, runs), recurringScheduleDbService (queries)
+ * - Cron tasks only fire while the scheduler is running (SCHEDULER_SENDER_EMAIL or ADMIN_EMAIL)
+ */
+import { Router, Request, Response } from 'express';
+import * as schedulerService from '../services/schedulerService';
+import * as recurringDb from '../services/recurringScheduleDbService';
+import { logger } from '../control-plane/feedback';
+import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const router = Router();
+
+const TOPIC_SOURCES: recurringDb.TopicSource[] = ['calendar', 'trending', 'fixed'];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Validate a create/update body. With `partial`, only the fields present are checked.
+ * Returns an error message, or null when valid.
+ */
+const validateScheduleBody = (body: Record<string, unknown>, partial: boolean): string | null => {
+  const { name, cronExpression, timezone, recipe, recipientLists } = body;
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+    return 'name is required';
+  }
+  if (!partial || cronExpression !== undefined) {
+    if (typeof cronExpression !== 'string' || !schedulerService.isValidCronExpression(cronExpression)) {
+      return 'cronExpression must be a valid cron expression (e.g. "0 9 * * 1")';
+    }
+  }
+  if (timezone !== undefined && timezone !== null) {
+    if (typeof timezone !== 'string' || !schedulerService.isValidTimezone(timezone)) {
+      return 'timezone must be an IANA timezone name (e.g. "America/New_York")';
+    }
+  }
+  if ((!partial || recipientLists !== undefined) && (!isStringArray(recipientLists) || recipientLists.length === 0)) {
+    return 'recipientLists must be a non-empty array of list or segment IDs';
+  }
+  if (!partial || recipe !== undefined) {
+    const r = recipe as Partial<recurringDb.GenerationRecipe> | undefined;
+    if (!r || typeof r !== 'object') {
+      return 'recipe is required';
+    }
+    if (!isStringArray(r.audienceIds) || r.audienceIds.length === 0) {
+      return 'recipe.audienceIds must be a non-empty array of audience IDs';
+    }
+    if (!r.topicSource || !TOPIC_SOURCES.includes(r.topicSource)) {
+      return `recipe.topicSource must be one of: ${TOPIC_SOURCES.join(', ')}`;
+    }
+    if (r.topicSource === 'fixed' && (!isStringArray(r.topics) || r.topics.length === 0)) {
+      return 'recipe.topics is required when topicSource is "fixed"';
+    }
+    if (r.flavors !== undefined && !isStringArray(r.flavors)) {
+      return 'recipe.flavors must be an array of strings';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * GET /api/schedule/recurring
+ *
+ * List all recurring schedules.
+ */
+router.get('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const schedules = recurringDb.getAllSchedules();
+
+    logger.info('recurring_schedule', 'list', `Listed ${schedules.length} recurring schedules`, { correlationId });
+    sendSuccess(res, { schedules, count: schedules.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'list_error', `Failed to list recurring schedules: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to get recurring schedules', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule/recurring
+ *
+ * Create a recurring schedule.
+ *
+ * @body {string} name - Display name (required)
+ * @body {string} cronExpression - node-cron expression, e.g. "0 9 * * 1" (required)
+ * @body {string} timezone - IANA timezone for the cron expression (optional, server time by default)
+ * @body {GenerationRecipe} recipe - audienceIds, topicSource, personaId, topics, tone, flavors, imageStyle (required)
+ * @body {string[]} recipientLists - Subscriber list or segment IDs (required, non-empty)
+ * @body {boolean} holdForApproval - Wait for approval before sending (default false)
+ * @body {boolean} enabled - Register the cron task (default true)
+ */
+router.post('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const validationError = validateScheduleBody(req.body || {}, false);
+    if (validationError) {
+      logger.warn('recurring_schedule', 'create_validation_error', validationError, { correlationId });
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const { name, cronExpression, timezone, recipe, recipientLists, holdForApproval, enabled } = req.body;
+
+    const schedule = recurringDb.createSchedule({
+      name: name.trim(),
+      cronExpression,
+      timezone: timezone || null,
+      recipe,
+      recipientLists,
+      holdForApproval: !!holdForApproval,
+      enabled: enabled !== false,
+    });
+    schedulerService.registerRecurringSchedule(schedule);
+
+    logger.info('recurring_schedule', 'create', `Created recurring schedule ${schedule.id}`, {
+      correlationId,
+      cronExpression,
+      holdForApproval: schedule.holdForApproval,
+    });
+    sendSuccess(res, schedule, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'create_error', `Failed to create recurring schedule: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to create recurring schedule', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule/recurring/runs/:runId/approve
+ *
+ * Approve a run held for approval and send its newsletter now.
+ *
+ * @param {string} runId - Run ID
+ * @body {string} userEmail - Account to send from (optional, defaults to the scheduler's sender)
+ */
+router.post('/runs/:runId/approve', async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const senderEmail = req.body?.userEmail || schedulerService.getSenderEmail();
+
+    if (!senderEmail) {
+      logger.warn('recurring_schedule', 'approve_no_sender', 'No sender account configured', { correlationId });
+      return sendError(
+        res,
+        'No sender account: pass userEmail or set SCHEDULER_SENDER_EMAIL / ADMIN_EMAIL',
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
+
+    const existing = recurringDb.getRunById(req.params.runId);
+    if (!existing) {
+      return sendError(res, 'Run not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.status !== 'awaiting_approval') {
+      return sendError(res, `Cannot approve run with status: ${existing.status}`, ErrorCodes.CONFLICT, correlationId);
+    }
+
+    const run = await schedulerService.approveRecurringRun(req.params.runId, senderEmail);
+
+    logger.info('recurring_schedule', 'approve', `Approved run ${req.params.runId}: ${run?.status}`, {
+      correlationId,
+      newsletterId: run?.newsletterId,
+    });
+    sendSuccess(res, run);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'approve_error', `Failed to approve run: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to approve run', ErrorCodes.INTERNAL_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule/recurring/runs/:runId/reject
+ *
+ * Reject a run held for approval. The generated newsletter stays in history.
+ *
+ * @param {string} runId - Run ID
+ * @body {string} reason - Why it was rejected (optional)
+ */
+router.post('/runs/:runId/reject', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = recurringDb.getRunById(req.params.runId);
+    if (!existing) {
+      return sendError(res, 'Run not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.status !== 'awaiting_approval') {
+      return sendError(res, `Cannot reject run with status: ${existing.status}`, ErrorCodes.CONFLICT, correlationId);
+    }
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 500) : undefined;
+    const run = schedulerService.rejectRecurringRun(req.params.runId, reason);
+
+    logger.info('recurring_schedule', 'reject', `Rejected run ${req.params.runId}`, { correlationId });
+    sendSuccess(res, run);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'reject_error', `Failed to reject run: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to reject run', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/schedule/recurring/:id
+ *
+ * Get a recurring schedule by ID.
+ *
+ * @param {string} id - Recurring schedule ID
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const schedule = recurringDb.getScheduleById(req.params.id);
+
+    if (!schedule) {
+      logger.warn('recurring_schedule', 'not_found', `Recurring schedule not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Recurring schedule not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, schedule);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'get_error', `Failed to get recurring schedule: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to get recurring schedule', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * PUT /api/schedule/recurring/:id
+ *
+ * Update a recurring schedule. Only the fields given are changed; the cron
+ * task is re-registered with the new settings.
+ *
+ * @param {string} id - Recurring schedule ID
+ * @body Same fields as POST, all optional
+ */
+router.put('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const validationError = validateScheduleBody(req.body || {}, true);
+    if (validationError) {
+      logger.warn('recurring_schedule', 'update_validation_error', validationError, { correlationId });
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const { name, cronExpression, timezone, recipe, recipientLists, holdForApproval, enabled } = req.body;
+
+    const schedule = recurringDb.updateSchedule(req.params.id, {
+      name: typeof name === 'string' ? name.trim() : undefined,
+      cronExpression,
+      timezone: timezone === undefined ? undefined : timezone || null,
+      recipe,
+      recipientLists,
+      holdForApproval: holdForApproval === undefined ? undefined : !!holdForApproval,
+      enabled: enabled === undefined ? undefined : !!enabled,
+    });
+
+    if (!schedule) {
+      logger.warn('recurring_schedule', 'update_not_found', `Recurring schedule not found: ${req.params.id}`, {
+        correlationId,
+      });
+      return sendError(res, 'Recurring schedule not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    schedulerService.registerRecurringSchedule(schedule);
+
+    logger.info('recurring_schedule', 'update', `Updated recurring schedule ${schedule.id}`, { correlationId });
+    sendSuccess(res, schedule);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'update_error', `Failed to update recurring schedule: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to update recurring schedule', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/schedule/recurring/:id
+ *
+ * Delete a recurring schedule and its run history. Generated newsletters are kept.
+ *
+ * @param {string} id - Recurring schedule ID
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    schedulerService.unregisterRecurringSchedule(req.params.id);
+    const deleted = recurringDb.deleteSchedule(req.params.id);
+
+    if (!deleted) {
+      logger.warn('recurring_schedule', 'delete_not_found', `Recurring schedule not found: ${req.params.id}`, {
+        correlationId,
+      });
+      return sendError(res, 'Recurring schedule not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('recurring_schedule', 'delete', `Deleted recurring schedule ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Recurring schedule deleted' });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'delete_error', `Failed to delete recurring schedule: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to delete recurring schedule', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule/recurring/:id/run
+ *
+ * Start a run now, outside the cron schedule. Generation continues in the
+ * background; poll GET /api/schedule/recurring/:id/runs for the outcome.
+ *
+ * @param {string} id - Recurring schedule ID
+ * @body {string} userEmail - Account to send from (optional, defaults to the scheduler's sender)
+ */
+router.post('/:id/run', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const senderEmail = req.body?.userEmail || schedulerService.getSenderEmail();
+
+    if (!senderEmail) {
+      logger.warn('recurring_schedule', 'run_no_sender', 'No sender account configured', { correlationId });
+      return sendError(
+        res,
+        'No sender account: pass userEmail or set SCHEDULER_SENDER_EMAIL / ADMIN_EMAIL',
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
+
+    if (!recurringDb.getScheduleById(req.params.id)) {
+      return sendError(res, 'Recurring schedule not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const run = schedulerService.runRecurringSchedule(req.params.id, senderEmail);
+    if (!run) {
+      return sendError(res, 'A run is already in progress for this schedule', ErrorCodes.CONFLICT, correlationId);
+    }
+
+    logger.info('recurring_schedule', 'run', `Started run ${run.id} for ${req.params.id}`, { correlationId });
+    sendSuccess(res, run, correlationId, undefined, 202);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'run_error', `Failed to start run: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to start run', ErrorCodes.INTERNAL_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/schedule/recurring/:id/runs
+ *
+ * List runs of a recurring schedule with their newsletter and outcome.
+ *
+ * @param {string} id - Recurring schedule ID
+ * @query {number} limit - Max runs to return (default 50)
+ */
+router.get('/:id/runs', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    if (!recurringDb.getScheduleById(req.params.id)) {
+      return sendError(res, 'Recurring schedule not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    const runs = schedulerService.getRecurringRuns(req.params.id, Number.isNaN(limit) ? 50 : limit);
+
+    sendSuccess(res, { runs, count: runs.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('recurring_schedule', 'runs_error', `Failed to list runs: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list runs', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+export default router;
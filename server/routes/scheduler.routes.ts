@@ -0,0 +1,371 @@
+/**
+ * Scheduler Routes
+ *
+ * Scheduled newsletter sends. The cron worker in schedulerService drains
+ * due sends every minute; these endpoints manage the queue it reads.
+ *
+ * @module routes/scheduler
+ *
+ * ## Endpoints
+ * - GET    /api/schedule                          - List all scheduled sends
+ * - GET    /api/schedule/status                   - Scheduler state, stats and upcoming sends
+ * - GET    /api/schedule/upcoming                 - Pending sends in the next N days
+ * - GET    /api/schedule/newsletter/:newsletterId - Scheduled sends for a newsletter
+ * - GET    /api/schedule/:id                      - Get scheduled send by ID
+ * - POST   /api/schedule                          - Schedule a newsletter
+ * - POST   /api/schedule/:id/reschedule           - Move a pending send to a new time
+ * - POST   /api/schedule/:id/cancel               - Cancel a pending send
+ * - POST   /api/schedule/:id/send-now             - Send a pending send immediately
+ * - DELETE /api/schedule/:id                      - Delete a scheduled send record
+ *
+ * ## Notes
+ * - Services: schedulerService (sending), schedulerDbService (queries)
+ * - Sends go out from the scheduler's sender account (SCHEDULER_SENDER_EMAIL or ADMIN_EMAIL)
+ */
+import { Router, Request, Response } from 'express';
+import * as schedulerService from '../services/schedulerService';
+import * as schedulerDbService from '../services/schedulerDbService';
+import { logger } from '../control-plane/feedback';
+import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const router = Router();
+
+/**
+ * Normalize a client-supplied date to the ISO format stored in scheduled_sends
+ * (scheduled_at is compared as a string against new Date().toISOString())
+ */
+const toIsoDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * GET /api/schedule
+ *
+ * List all scheduled sends, ordered by scheduled time.
+ */
+router.get('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const scheduledSends = schedulerDbService.getAllScheduledSends();
+
+    logger.info('scheduler', 'list', `Listed ${scheduledSends.length} scheduled sends`, { correlationId });
+    sendSuccess(res, { scheduledSends, count: scheduledSends.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'list_error', `Failed to list scheduled sends: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get scheduled sends', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/schedule/status
+ *
+ * Get scheduler running state, per-status counts and sends due in the next 7 days.
+ */
+router.get('/status', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const status = schedulerService.getSchedulerStatus();
+
+    logger.info('scheduler', 'status', `Scheduler running: ${status.running}`, { correlationId });
+    sendSuccess(res, status);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'status_error', `Failed to get scheduler status: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get scheduler status', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/schedule/upcoming
+ *
+ * Get pending sends within the specified number of days.
+ *
+ * @query {number} days - Number of days to look ahead (default: 7)
+ */
+router.get('/upcoming', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 7;
+    const scheduledSends = schedulerDbService.getUpcomingScheduledSends(isNaN(days) ? 7 : days);
+
+    logger.info('scheduler', 'get_upcoming', `Got ${scheduledSends.length} upcoming sends`, { correlationId, days });
+    sendSuccess(res, { scheduledSends, count: scheduledSends.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'get_upcoming_error', `Failed to get upcoming sends: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to get upcoming sends', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/schedule/newsletter/:newsletterId
+ *
+ * Get all scheduled sends for a newsletter.
+ *
+ * @param {string} newsletterId - Newsletter ID
+ */
+router.get('/newsletter/:newsletterId', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const scheduledSends = schedulerDbService.getScheduledSendsForNewsletter(req.params.newsletterId);
+
+    logger.info('scheduler', 'get_for_newsletter', `Got ${scheduledSends.length} sends for newsletter`, {
+      correlationId,
+      newsletterId: req.params.newsletterId,
+    });
+    sendSuccess(res, { scheduledSends, count: scheduledSends.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'get_for_newsletter_error', `Failed to get sends: ${err.message}`, err, {
+      correlationId,
+    });
+    sendError(res, 'Failed to get scheduled sends', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/schedule/:id
+ *
+ * Get a scheduled send by ID.
+ *
+ * @param {string} id - Scheduled send ID
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const send = schedulerDbService.getScheduledSendById(req.params.id);
+
+    if (!send) {
+      logger.warn('scheduler', 'not_found', `Scheduled send not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Scheduled send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, send);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'get_error', `Failed to get scheduled send: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get scheduled send', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule
+ *
+ * Schedule a saved newsletter for sending to one or more subscriber lists
+ * or segments. Segments are evaluated when the send runs.
+ *
+ * @body {string} newsletterId - Newsletter ID (required)
+ * @body {string} scheduledAt - ISO date/time, must be in the future (required)
+ * @body {string[]} recipientLists - Subscriber list or segment IDs (required, non-empty)
+ */
+router.post('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { newsletterId, recipientLists } = req.body;
+    const scheduledAt = toIsoDate(req.body.scheduledAt);
+
+    if (!newsletterId || !scheduledAt || !Array.isArray(recipientLists) || recipientLists.length === 0) {
+      logger.warn('scheduler', 'create_validation_error', 'newsletterId, scheduledAt and recipientLists are required', {
+        correlationId,
+      });
+      return sendError(
+        res,
+        'newsletterId, a valid scheduledAt, and a non-empty recipientLists array are required',
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
+
+    if (new Date(scheduledAt).getTime() <= Date.now()) {
+      logger.warn('scheduler', 'create_validation_error', 'scheduledAt is in the past', { correlationId, scheduledAt });
+      return sendError(res, 'scheduledAt must be in the future', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    let send: schedulerDbService.ScheduledSend;
+    try {
+      send = schedulerService.scheduleNewsletter(newsletterId, scheduledAt, recipientLists);
+    } catch (validationError) {
+      const message = (validationError as Error).message;
+      const code = message === 'Newsletter not found' ? ErrorCodes.NOT_FOUND : ErrorCodes.VALIDATION_ERROR;
+      logger.warn('scheduler', 'create_rejected', message, { correlationId, newsletterId });
+      return sendError(res, message, code, correlationId);
+    }
+
+    logger.info('scheduler', 'create', `Scheduled send ${send.id} for ${scheduledAt}`, {
+      correlationId,
+      newsletterId,
+      listCount: recipientLists.length,
+    });
+    sendSuccess(res, send, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'create_error', `Failed to schedule send: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to schedule send', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule/:id/reschedule
+ *
+ * Move a pending send to a new time.
+ *
+ * @param {string} id - Scheduled send ID
+ * @body {string} scheduledAt - New ISO date/time, must be in the future (required)
+ */
+router.post('/:id/reschedule', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const scheduledAt = toIsoDate(req.body.scheduledAt);
+
+    if (!scheduledAt || new Date(scheduledAt).getTime() <= Date.now()) {
+      logger.warn('scheduler', 'reschedule_validation_error', 'A future scheduledAt is required', { correlationId });
+      return sendError(res, 'A valid future scheduledAt is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const existing = schedulerDbService.getScheduledSendById(req.params.id);
+    if (!existing) {
+      logger.warn('scheduler', 'reschedule_not_found', `Scheduled send not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Scheduled send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const updated = schedulerService.rescheduleNewsletter(req.params.id, scheduledAt);
+    if (!updated) {
+      logger.warn('scheduler', 'reschedule_conflict', `Cannot reschedule send with status ${existing.status}`, {
+        correlationId,
+      });
+      return sendError(res, `Cannot reschedule send with status: ${existing.status}`, ErrorCodes.CONFLICT, correlationId);
+    }
+
+    logger.info('scheduler', 'reschedule', `Rescheduled send ${updated.id} to ${scheduledAt}`, { correlationId });
+    sendSuccess(res, updated);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'reschedule_error', `Failed to reschedule send: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to reschedule send', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule/:id/cancel
+ *
+ * Cancel a pending send.
+ *
+ * @param {string} id - Scheduled send ID
+ */
+router.post('/:id/cancel', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = schedulerDbService.getScheduledSendById(req.params.id);
+    if (!existing) {
+      logger.warn('scheduler', 'cancel_not_found', `Scheduled send not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Scheduled send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const cancelled = schedulerService.cancelScheduledSend(req.params.id);
+    if (!cancelled) {
+      logger.warn('scheduler', 'cancel_conflict', `Cannot cancel send with status ${existing.status}`, { correlationId });
+      return sendError(res, `Cannot cancel send with status: ${existing.status}`, ErrorCodes.CONFLICT, correlationId);
+    }
+
+    logger.info('scheduler', 'cancel', `Cancelled send ${cancelled.id}`, { correlationId });
+    sendSuccess(res, cancelled);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'cancel_error', `Failed to cancel send: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to cancel send', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/schedule/:id/send-now
+ *
+ * Send a pending scheduled send immediately instead of waiting for its time.
+ *
+ * @param {string} id - Scheduled send ID
+ * @body {string} userEmail - Gmail account to send from (optional, defaults to the scheduler's sender)
+ */
+router.post('/:id/send-now', async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const senderEmail = req.body?.userEmail || schedulerService.getSenderEmail();
+
+    if (!senderEmail) {
+      logger.warn('scheduler', 'send_now_no_sender', 'No sender account configured', { correlationId });
+      return sendError(
+        res,
+        'No sender account: pass userEmail or set SCHEDULER_SENDER_EMAIL / ADMIN_EMAIL',
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
+
+    const existing = schedulerDbService.getScheduledSendById(req.params.id);
+    if (!existing) {
+      logger.warn('scheduler', 'send_now_not_found', `Scheduled send not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Scheduled send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const result = await schedulerService.triggerSendNow(req.params.id, senderEmail);
+
+    logger.info('scheduler', 'send_now', `Send-now for ${req.params.id}: ${result.sentCount} sent`, {
+      correlationId,
+      success: result.success,
+      error: result.error,
+    });
+    sendSuccess(res, result);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'send_now_error', `Failed to send now: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to send scheduled newsletter', ErrorCodes.INTERNAL_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/schedule/:id
+ *
+ * Delete a scheduled send record. Sends currently in progress cannot be deleted.
+ *
+ * @param {string} id - Scheduled send ID
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = schedulerDbService.getScheduledSendById(req.params.id);
+    if (!existing) {
+      logger.warn('scheduler', 'delete_not_found', `Scheduled send not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Scheduled send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    if (existing.status === 'sending') {
+      logger.warn('scheduler', 'delete_conflict', 'Cannot delete a send in progress', { correlationId });
+      return sendError(res, 'Cannot delete a send that is in progress', ErrorCodes.CONFLICT, correlationId);
+    }
+
+    schedulerDbService.deleteScheduledSend(req.params.id);
+
+    logger.info('scheduler', 'delete', `Deleted scheduled send ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Scheduled send deleted' });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('scheduler', 'delete_error', `Failed to delete scheduled send: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to delete scheduled send', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+export default router;
@@ -0,0 +1,250 @@
+/**
+ * Segment Routes
+ *
+ * Saved subscriber segments: rules over subscriber fields, attributes, list
+ * membership, date added, source and engagement. A segment ID can be used
+ * anywhere a list ID is accepted as a send target (scheduled sends,
+ * recurring schedules, bulk sends); members are evaluated at send time.
+ *
+ * @module routes/segment
+ *
+ * ## Endpoints
+ * - GET    /api/segments              - List segments with current member counts
+ * - POST   /api/segments              - Create a segment
+ * - POST   /api/segments/preview      - Preview an unsaved definition (size and members)
+ * - GET    /api/segments/:id          - Get a segment
+ * - PUT    /api/segments/:id          - Update a segment
+ * - DELETE /api/segments/:id          - Delete a segment
+ * - GET    /api/segments/:id/members  - Get current members
+ *
+ * ## Notes
+ * - Services: segmentService (validation, evaluation), segmentDbService (queries)
+ */
+import { Router, Request, Response } from 'express';
+import * as segmentService from '../services/segmentService';
+import * as segmentDb from '../services/segmentDbService';
+import { logger } from '../control-plane/feedback';
+import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const router = Router();
+
+const DEFAULT_PREVIEW_LIMIT = 25;
+
+/**
+ * Parse the member limit query parameter
+ */
+const parseLimit = (value: unknown): number => {
+  const limit = value ? parseInt(value as string, 10) : DEFAULT_PREVIEW_LIMIT;
+  return Number.isNaN(limit) || limit < 1 ? DEFAULT_PREVIEW_LIMIT : limit;
+};
+
+/**
+ * GET /api/segments
+ *
+ * List saved segments, each with its current member count.
+ */
+router.get('/', (_req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const segments = segmentDb.getSegments().map(segment => ({
+      ...segment,
+      memberCount: segmentService.evaluateDefinition(segment.definition).length,
+    }));
+
+    sendSuccess(res, { segments, count: segments.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('segments', 'list_error', `Failed to list segments: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list segments', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/segments
+ *
+ * Create a segment.
+ *
+ * @body {string} name - Display name (required)
+ * @body {string} description - Description (optional)
+ * @body {SegmentDefinition} definition - { match: 'all' | 'any', rules: SegmentRule[] } (required)
+ */
+router.post('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { name, description, definition } = req.body || {};
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return sendError(res, 'name is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const validationError = segmentService.validateDefinition(definition);
+    if (validationError) {
+      logger.warn('segments', 'create_validation_error', validationError, { correlationId });
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const segment = segmentDb.createSegment({ name: name.trim(), description, definition });
+
+    logger.info('segments', 'create', `Created segment ${segment.id}`, { correlationId, rules: definition.rules.length });
+    sendSuccess(res, segment, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('segments', 'create_error', `Failed to create segment: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to create segment', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/segments/preview
+ *
+ * Evaluate a definition without saving it.
+ * NOTE: Must be before /:id routes to avoid conflict.
+ *
+ * @body {SegmentDefinition} definition - Definition to evaluate (required)
+ * @query {number} limit - Members to return (default 25)
+ */
+router.post('/preview', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { definition } = req.body || {};
+
+    const validationError = segmentService.validateDefinition(definition);
+    if (validationError) {
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    sendSuccess(res, segmentService.previewDefinition(definition, parseLimit(req.query.limit)));
+  } catch (error) {
+    const err = error as Error;
+    logger.error('segments', 'preview_error', `Failed to preview segment: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to preview segment', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/segments/:id
+ *
+ * Get a segment.
+ *
+ * @param {string} id - Segment ID
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const segment = segmentDb.getSegmentById(req.params.id);
+
+    if (!segment) {
+      return sendError(res, 'Segment not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, segment);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('segments', 'get_error', `Failed to get segment: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get segment', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * PUT /api/segments/:id
+ *
+ * Update a segment. Only the fields present are changed.
+ *
+ * @param {string} id - Segment ID
+ * @body {string} name - Display name
+ * @body {string} description - Description
+ * @body {SegmentDefinition} definition - Replacement definition
+ */
+router.put('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { name, description, definition } = req.body || {};
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return sendError(res, 'name cannot be empty', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (definition !== undefined) {
+      const validationError = segmentService.validateDefinition(definition);
+      if (validationError) {
+        logger.warn('segments', 'update_validation_error', validationError, { correlationId });
+        return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+      }
+    }
+
+    const segment = segmentDb.updateSegment(req.params.id, {
+      name: name?.trim(),
+      description,
+      definition,
+    });
+
+    if (!segment) {
+      return sendError(res, 'Segment not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('segments', 'update', `Updated segment ${segment.id}`, { correlationId });
+    sendSuccess(res, segment);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('segments', 'update_error', `Failed to update segment: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to update segment', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/segments/:id
+ *
+ * Delete a segment. Scheduled sends still targeting it will skip it.
+ *
+ * @param {string} id - Segment ID
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    if (!segmentDb.deleteSegment(req.params.id)) {
+      return sendError(res, 'Segment not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    logger.info('segments', 'delete', `Deleted segment ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Segment deleted' });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('segments', 'delete_error', `Failed to delete segment: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to delete segment', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/segments/:id/members
+ *
+ * Get the segment's current members.
+ *
+ * @param {string} id - Segment ID
+ * @query {number} limit - Members to return (default 25)
+ */
+router.get('/:id/members', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const members = segmentService.getSegmentMembers(req.params.id);
+
+    if (!members) {
+      return sendError(res, 'Segment not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, { count: members.length, members: members.slice(0, parseLimit(req.query.limit)) });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('segments', 'members_error', `Failed to get segment members: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get segment members', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+export default router;
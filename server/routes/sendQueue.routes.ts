@@ -0,0 +1,150 @@
+/**
+ * Send Queue Routes
+ *
+ * Per-recipient delivery state for bulk sends. A send's ID is the scheduled
+ * send ID for scheduled sends, or the `sendId` returned by
+ * POST /api/gmail/send-bulk for manual sends.
+ *
+ * @module routes/sendQueue
+ *
+ * ## Endpoints
+ * - GET  /api/sends                     - List recent sends with delivery counts
+ * - GET  /api/sends/:sendId             - Get a send with delivery counts
+ * - GET  /api/sends/:sendId/deliveries  - List per-recipient deliveries
+ * - POST /api/sends/:sendId/retry       - Re-queue failed recipients
+ *
+ * ## Notes
+ * - Services: sendQueueService, sendQueueDbService
+ */
+import { Router, Request, Response } from 'express';
+import * as sendQueueService from '../services/sendQueueService';
+import * as sendQueueDb from '../services/sendQueueDbService';
+import { logger } from '../control-plane/feedback';
+import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const router = Router();
+
+const DELIVERY_STATUSES: sendQueueDb.DeliveryStatus[] = ['pending', 'sending', 'sent', 'failed', 'skipped'];
+
+/**
+ * GET /api/sends
+ *
+ * List recent sends (newest first).
+ *
+ * @query {number} limit - Max sends to return (default 50)
+ */
+router.get('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    const sends = sendQueueDb.getRecentSendJobs(Number.isNaN(limit) ? 50 : limit);
+
+    sendSuccess(res, { sends, count: sends.length, worker: sendQueueService.getSendQueueStatus() });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('send_queue', 'list_error', `Failed to list sends: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list sends', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/sends/:sendId
+ *
+ * Get a send with its delivery counts.
+ *
+ * @param {string} sendId - Send ID
+ */
+router.get('/:sendId', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const send = sendQueueDb.getSendJobSummary(req.params.sendId);
+
+    if (!send) {
+      return sendError(res, 'Send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, send);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('send_queue', 'get_error', `Failed to get send: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to get send', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/sends/:sendId/deliveries
+ *
+ * List per-recipient deliveries for a send.
+ *
+ * @param {string} sendId - Send ID
+ * @query {string} status - Filter by status (pending, sending, sent, failed, skipped)
+ */
+router.get('/:sendId/deliveries', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { sendId } = req.params;
+    const status = req.query.status as sendQueueDb.DeliveryStatus | undefined;
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return sendError(
+        res,
+        `Invalid status. Must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
+
+    if (!sendQueueDb.getSendJobById(sendId)) {
+      return sendError(res, 'Send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const deliveries = sendQueueDb.getDeliveries(sendId, status);
+
+    sendSuccess(res, { deliveries, count: deliveries.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('send_queue', 'deliveries_error', `Failed to list deliveries: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list deliveries', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/sends/:sendId/retry
+ *
+ * Re-queue failed deliveries with a fresh attempt budget. Sending continues
+ * in the background; poll GET /api/sends/:sendId for progress.
+ *
+ * @param {string} sendId - Send ID
+ * @body {string[]} recipients - Only retry these recipients (optional, default all failed)
+ */
+router.post('/:sendId/retry', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { sendId } = req.params;
+    const { recipients } = req.body || {};
+
+    if (recipients !== undefined && (!Array.isArray(recipients) || recipients.some(r => typeof r !== 'string'))) {
+      return sendError(res, 'recipients must be an array of email addresses', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    if (!sendQueueDb.getSendJobById(sendId)) {
+      return sendError(res, 'Send not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const requeued = sendQueueService.retryFailedDeliveries(sendId, recipients);
+
+    logger.info('send_queue', 'retry', `Re-queued ${requeued} failed deliveries for ${sendId}`, { correlationId });
+    sendSuccess(res, { requeued, send: sendQueueDb.getSendJobSummary(sendId) });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('send_queue', 'retry_error', `Failed to retry deliveries: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to retry deliveries', ErrorCodes.INTERNAL_ERROR, correlationId);
+  }
+});
+
+export default router;
@@ -12,10 +12,15 @@
  * - PUT    /api/subscribers/:email       - Update subscriber
  * - DELETE /api/subscribers/:email       - Delete (soft) subscriber
  * - DELETE /api/subscribers/:email/hard  - Hard delete (permanent) subscriber
- * - POST   /api/subscribers/import       - Bulk import subscribers
+ * - POST   /api/subscribers/import       - Import from CSV/vCard (or JSON array) with a report
+ * - GET    /api/subscribers/export       - Export subscribers to CSV
+ * - GET    /api/subscribers/attributes   - List custom attribute keys (merge tag names)
+ * - GET    /api/subscribers/audiences    - List audiences subscribers and lists can be mapped to
+ * - POST   /api/subscribers/:email/preview - Resolve merge tags as this subscriber
  *
  * ## List Endpoints
  * - GET    /api/lists                    - List all mailing lists
+ * - GET    /api/lists/export             - Export lists to CSV
  * - GET    /api/lists/:id                - Get list by ID
  * - POST   /api/lists                    - Create new list
  * - PUT    /api/lists/:id                - Update list
@@ -26,10 +31,14 @@
  *
  * ## Migration Notes
  * - Original location: server.ts:2125-2365
- * - Service: subscriberDbService
+ * - Services: subscriberDbService, subscriberImportService (CSV/vCard parsing and export),
+ *   mergeTagService (merge tag resolution), audienceVariantService (audience mapping)
  */
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import * as subscriberDbService from '../services/subscriberDbService';
+import * as subscriberImportService from '../services/subscriberImportService';
+import * as mergeTagService from '../services/mergeTagService';
+import * as audienceVariantService from '../services/audienceVariantService';
 import { logger } from '../control-plane/feedback';
 import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
 import { getCorrelationId } from '../control-plane/invocation/contextManager';
@@ -67,33 +76,140 @@ subscriberRouter.get('/', (req: Request, res: Response) => {
   }
 });
 
+// Raw uploads (Content-Type text/csv, text/vcard, ...) arrive as a string body
+const rawUploadParser = express.text({
+  type: ['text/csv', 'text/plain', 'text/vcard', 'text/x-vcard', 'text/directory'],
+  limit: '10mb',
+});
+
+const IMPORT_FORMATS: subscriberImportService.ImportFormat[] = ['csv', 'vcard'];
+
+const isTrue = (value: unknown): boolean => value === true || value === 'true' || value === '1';
+
+const isAttributeMap = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+  && Object.values(value).every(v => typeof v === 'string' || typeof v === 'number');
+
+/**
+ * Validate a name and attributes for merge tags
+ * Line breaks are rejected: merged into a subject they would start a new header.
+ */
+const validateMergeFields = (name: unknown, attributes?: Record<string, string>): string | null => {
+  if (typeof name === 'string' && subscriberDbService.hasLineBreak(name)) {
+    return 'name must not contain line breaks';
+  }
+  const invalid = Object.entries(attributes || {}).find(([, value]) => subscriberDbService.hasLineBreak(String(value)));
+  return invalid ? `attribute ${invalid[0]} must not contain line breaks` : null;
+};
+
+/**
+ * Validate an audience mapping: an array of known audience IDs
+ * Returns an error message, or null when valid.
+ */
+const validateAudiences = (value: unknown): string | null => {
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string')) {
+    return 'audiences must be an array of audience IDs';
+  }
+  const unknown = audienceVariantService.findUnknownAudienceIds(value);
+  return unknown.length > 0 ? `Unknown audience: ${unknown.join(', ')}` : null;
+};
+
 /**
  * POST /api/subscribers/import
  *
- * Bulk import subscribers from CSV or array.
+ * Import subscribers from a CSV or vCard upload, or from a JSON array.
+ * Every row is validated (email syntax) and de-duplicated; the response is
+ * a per-row report of added/updated/skipped/invalid rows. Use dryRun to
+ * preview the report and the detected columns before importing.
  * NOTE: Must be before /:email route to avoid conflict.
  *
- * @body {object[]} subscribers - Array of subscriber objects
+ * Upload as JSON:
+ * @body {string} content - CSV or vCard text
+ * @body {string} format - 'csv' | 'vcard' (optional, detected from content)
+ * @body {ColumnMapping} mapping - Column for email/name/firstName/lastName/lists (optional, guessed from headers)
+ * @body {string} listId - Add imported subscribers to this list (optional)
+ * @body {boolean} updateNames - Overwrite names of existing subscribers (default false)
+ * @body {boolean} addExistingToList - Also add existing subscribers to the list (default false)
+ * @body {boolean} dryRun - Report without writing (default false)
+ *
+ * Raw upload: send the file as the body (text/csv or text/vcard) and pass the
+ * options above as query parameters (mapping as JSON).
+ *
+ * Legacy: @body {object[]} subscribers - Array of { email, name?, listId? }
  */
-subscriberRouter.post('/import', (req: Request, res: Response) => {
+subscriberRouter.post('/import', rawUploadParser, (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { subscribers } = req.body;
+    const isRawUpload = typeof req.body === 'string';
+    const input = (isRawUpload ? req.query : req.body || {}) as Record<string, unknown>;
+
+    let mapping = input.mapping as subscriberImportService.ColumnMapping | undefined;
+    if (typeof mapping === 'string') {
+      try {
+        mapping = JSON.parse(mapping);
+      } catch {
+        return sendError(res, 'mapping must be a JSON object', ErrorCodes.VALIDATION_ERROR, correlationId);
+      }
+    }
+    if (mapping !== undefined && (typeof mapping !== 'object' || typeof mapping?.email !== 'string')) {
+      return sendError(res, 'mapping.email column is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const format = input.format as subscriberImportService.ImportFormat | undefined;
+    if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+      return sendError(res, `format must be one of: ${IMPORT_FORMATS.join(', ')}`, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
 
-    if (!Array.isArray(subscribers)) {
-      logger.warn('subscribers', 'import_validation_error', 'subscribers array is required', { correlationId });
-      return sendError(res, 'subscribers array is required', ErrorCodes.VALIDATION_ERROR, correlationId);
+    const options: subscriberDbService.ImportOptions = {
+      listId: typeof input.listId === 'string' && input.listId ? input.listId : undefined,
+      updateNames: isTrue(input.updateNames),
+      addExistingToList: isTrue(input.addExistingToList),
+      dryRun: isTrue(input.dryRun),
+    };
+
+    if (options.listId && !subscriberDbService.getListById(options.listId)) {
+      return sendError(res, `List not found: ${options.listId}`, ErrorCodes.NOT_FOUND, correlationId);
     }
 
-    const result = subscriberDbService.importSubscribers(subscribers);
+    const content = isRawUpload ? (req.body as string) : req.body?.content;
+    let report: subscriberDbService.ImportReport | subscriberImportService.UploadImportReport;
+
+    if (typeof content === 'string') {
+      try {
+        report = subscriberImportService.importUpload(content, { ...options, format, mapping });
+      } catch (parseError) {
+        const message = (parseError as Error).message;
+        logger.warn('subscribers', 'import_parse_error', message, { correlationId });
+        return sendError(res, message, ErrorCodes.VALIDATION_ERROR, correlationId);
+      }
+    } else if (Array.isArray(req.body?.subscribers)) {
+      const records = (req.body.subscribers as Array<{ email: string; name?: string; listId?: string }>)
+        .map((sub, i) => ({
+          row: i + 1,
+          email: String(sub?.email ?? ''),
+          name: sub?.name,
+          lists: sub?.listId ? [sub.listId] : undefined,
+        }));
+      report = subscriberDbService.importSubscribers(records, options);
+    } else {
+      logger.warn('subscribers', 'import_validation_error', 'content or subscribers array is required', { correlationId });
+      return sendError(
+        res,
+        'Upload CSV/vCard content (body.content or a text/csv body) or a subscribers array',
+        ErrorCodes.VALIDATION_ERROR,
+        correlationId
+      );
+    }
 
-    logger.info('subscribers', 'import', `Imported subscribers`, {
+    logger.info('subscribers', 'import', `${report.dryRun ? 'Dry-run import' : 'Imported subscribers'}`, {
       correlationId,
-      added: result.added,
-      skipped: result.skipped,
+      added: report.added,
+      updated: report.updated,
+      skipped: report.skipped,
+      invalid: report.invalid,
     });
-    sendSuccess(res, result);
+    sendSuccess(res, report);
   } catch (error) {
     const err = error as Error;
     logger.error('subscribers', 'import_error', `Failed to import subscribers: ${err.message}`, err, { correlationId });
@@ -101,6 +217,116 @@ subscriberRouter.post('/import', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/subscribers/export
+ *
+ * Export subscribers to CSV (lists as names separated by ";", re-importable).
+ * NOTE: Must be before /:email route to avoid conflict.
+ *
+ * @query {string} status - Filter by status ('active' | 'inactive' | 'all', default all)
+ * @query {string} listId - Filter by list ID
+ */
+subscriberRouter.get('/export', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const status = (req.query.status as 'active' | 'inactive' | 'all' | undefined) || 'all';
+    const listId = req.query.listId as string | undefined;
+
+    const csvContent = subscriberImportService.exportSubscribersToCsv({ status, listId });
+    const timestamp = new Date().toISOString().split('T')[0];
+
+    logger.info('subscribers', 'export', 'Exported subscribers to CSV', { correlationId, status, listId });
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename=subscribers-${timestamp}.csv`);
+    res.send(csvContent);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('subscribers', 'export_error', `Failed to export subscribers: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to export subscribers', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * GET /api/subscribers/attributes
+ *
+ * List the merge tag fields available: built-in fields plus every custom
+ * attribute key in use.
+ * NOTE: Must be before /:email route to avoid conflict.
+ */
+subscriberRouter.get('/attributes', (_req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const attributes = subscriberDbService.getAttributeKeys();
+
+    sendSuccess(res, { builtIn: mergeTagService.BUILT_IN_FIELDS, attributes });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('subscribers', 'attributes_error', `Failed to list attributes: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list attributes', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * GET /api/subscribers/audiences
+ *
+ * List the audiences (built-in and custom) subscribers and lists can be
+ * mapped to. Mapped recipients get only those audiences' newsletter sections.
+ * NOTE: Must be before /:email route to avoid conflict.
+ */
+subscriberRouter.get('/audiences', (_req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const audiences = audienceVariantService.getMappableAudiences();
+
+    sendSuccess(res, { audiences, count: audiences.length });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('subscribers', 'audiences_error', `Failed to list audiences: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to list audiences', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
+/**
+ * POST /api/subscribers/:email/preview
+ *
+ * Resolve merge tags in a subject and HTML body as this subscriber would
+ * receive them.
+ *
+ * @param {string} email - Sample subscriber email
+ * @body {string} subject - Subject line (may contain merge tags)
+ * @body {string} htmlBody - Email HTML (may contain merge tags)
+ */
+subscriberRouter.post('/:email/preview', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const { subject = '', htmlBody = '' } = req.body || {};
+
+    if (typeof subject !== 'string' || typeof htmlBody !== 'string') {
+      return sendError(res, 'subject and htmlBody must be strings', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const subscriber = subscriberDbService.getSubscriberByEmail(req.params.email);
+
+    if (!subscriber) {
+      logger.warn('subscribers', 'preview_not_found', `Subscriber not found: ${req.params.email}`, { correlationId });
+      return sendError(res, 'Subscriber not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    const personalized = mergeTagService.personalize(subscriber, { subject, htmlBody });
+
+    sendSuccess(res, { ...personalized, values: mergeTagService.getMergeValues(subscriber) });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('subscribers', 'preview_error', `Failed to personalize preview: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to personalize preview', ErrorCodes.INTERNAL_ERROR, correlationId, { details: err.message });
+  }
+});
+
 /**
  * DELETE /api/subscribers/:email/hard
  *
@@ -166,24 +392,42 @@ subscriberRouter.get('/:email', (req: Request, res: Response) => {
  * @body {string} status - Status ('active' | 'inactive')
  * @body {string} lists - Comma-separated list IDs
  * @body {string} source - Subscription source
+ * @body {object} attributes - Custom attributes (key/value strings) for merge tags
+ * @body {string[]} audiences - Audience IDs whose newsletter sections they receive
  */
 subscriberRouter.post('/', (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { email, name, status, lists, source } = req.body;
+    const { email, name, status, lists, source, attributes, audiences } = req.body;
 
     if (!email) {
       logger.warn('subscribers', 'validation_error', 'Email is required', { correlationId });
       return sendError(res, 'Email is required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
+    if (attributes !== undefined && !isAttributeMap(attributes)) {
+      return sendError(res, 'attributes must be an object of string values', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const mergeFieldError = validateMergeFields(name, attributes);
+    if (mergeFieldError) {
+      return sendError(res, mergeFieldError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const audienceError = audiences !== undefined ? validateAudiences(audiences) : null;
+    if (audienceError) {
+      return sendError(res, audienceError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
     const subscriber = subscriberDbService.addSubscriber({
       email,
       name,
       status: status || 'active',
       lists: lists || '',
       source: source || 'manual',
+      attributes,
+      audiences,
     });
 
     logger.info('subscribers', 'create', `Created subscriber: ${email}`, { correlationId });
@@ -208,6 +452,21 @@ subscriberRouter.put('/:email', (req: Request, res: Response) => {
 
   try {
     const updates = req.body;
+
+    if (updates?.attributes !== undefined && !isAttributeMap(updates.attributes)) {
+      return sendError(res, 'attributes must be an object of string values', ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const mergeFieldError = validateMergeFields(updates?.name, updates?.attributes);
+    if (mergeFieldError) {
+      return sendError(res, mergeFieldError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const audienceError = updates?.audiences !== undefined ? validateAudiences(updates.audiences) : null;
+    if (audienceError) {
+      return sendError(res, audienceError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
     const subscriber = subscriberDbService.updateSubscriber(req.params.email, updates);
 
     if (!subscriber) {
@@ -275,6 +534,31 @@ listRouter.get('/', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/lists/export
+ *
+ * Export subscriber lists to CSV.
+ * NOTE: Must be before /:id route to avoid conflict.
+ */
+listRouter.get('/export', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const csvContent = subscriberImportService.exportListsToCsv();
+    const timestamp = new Date().toISOString().split('T')[0];
+
+    logger.info('lists', 'export', 'Exported lists to CSV', { correlationId });
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename=subscriber-lists-${timestamp}.csv`);
+    res.send(csvContent);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('lists', 'export_error', `Failed to export lists: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to export lists', ErrorCodes.DATABASE_ERROR, correlationId, { details: err.message });
+  }
+});
+
 /**
  * GET /api/lists/:id/subscribers
  *
@@ -338,19 +622,25 @@ listRouter.get('/:id', (req: Request, res: Response) => {
  *
  * @body {string} name - List name (required)
  * @body {string} description - List description
+ * @body {string[]} audiences - Audience IDs whose newsletter sections members receive
  */
 listRouter.post('/', (req: Request, res: Response) => {
   const correlationId = getCorrelationId();
 
   try {
-    const { name, description } = req.body;
+    const { name, description, audiences } = req.body;
 
     if (!name) {
       logger.warn('lists', 'validation_error', 'List name is required', { correlationId });
       return sendError(res, 'List name is required', ErrorCodes.VALIDATION_ERROR, correlationId);
     }
 
-    const list = subscriberDbService.createList(name, description);
+    const audienceError = audiences !== undefined ? validateAudiences(audiences) : null;
+    if (audienceError) {
+      return sendError(res, audienceError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const list = subscriberDbService.createList(name, description, audiences);
 
     logger.info('lists', 'create', `Created list: ${list.id}`, { correlationId, listName: name });
     sendSuccess(res, list, correlationId, undefined, 201);
@@ -374,6 +664,12 @@ listRouter.put('/:id', (req: Request, res: Response) => {
 
   try {
     const updates = req.body;
+
+    const audienceError = updates?.audiences !== undefined ? validateAudiences(updates.audiences) : null;
+    if (audienceError) {
+      return sendError(res, audienceError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
     const list = subscriberDbService.updateList(req.params.id, updates);
 
     if (!list) {
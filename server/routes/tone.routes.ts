@@ -0,0 +1,401 @@
+/**
+ * Tone Routes
+ *
+ * CRUD operations for writing tones and stylistic flavors.
+ * Built-in tones/flavors are read-only; user-defined ones can be edited
+ * and deleted. Generation resolves the selected tone and flavors from here.
+ *
+ * @module routes/tone
+ *
+ * ## Tone Endpoints
+ * - GET    /api/tones        - List all tones (built-in first)
+ * - GET    /api/tones/:id    - Get tone by ID
+ * - POST   /api/tones        - Create tone
+ * - PUT    /api/tones/:id    - Update tone (user-defined only)
+ * - DELETE /api/tones/:id    - Delete tone (user-defined only)
+ *
+ * ## Flavor Endpoints
+ * - GET    /api/flavors      - List all flavors (built-in first)
+ * - GET    /api/flavors/:id  - Get flavor by ID
+ * - POST   /api/flavors      - Create flavor
+ * - PUT    /api/flavors/:id  - Update flavor (user-defined only)
+ * - DELETE /api/flavors/:id  - Delete flavor (user-defined only)
+ *
+ * Live previews use POST /api/generatePersonaPreview (generation routes).
+ */
+import { Router, Request, Response } from 'express';
+import * as toneDbService from '../services/toneDbService';
+import { logger } from '../control-plane/feedback';
+import { sendSuccess, sendError, ErrorCodes } from '../control-plane/invocation/responseBuilder';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const toneRouter = Router();
+const flavorRouter = Router();
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Validate a tone body; returns an error message or null
+ */
+const validateTone = (body: Record<string, unknown>, partial: boolean): string | null => {
+  if (!partial && (typeof body.label !== 'string' || !body.label.trim())) {
+    return 'label is required';
+  }
+  if (body.label !== undefined && (typeof body.label !== 'string' || !body.label.trim())) {
+    return 'label must be a non-empty string';
+  }
+
+  const rules = body.executionRules as Record<string, unknown> | undefined;
+  if (rules !== undefined) {
+    if (!rules || typeof rules !== 'object') return 'executionRules must be an object';
+    for (const key of ['sentenceConstruction', 'wordsToUse', 'wordsToAvoid']) {
+      if (rules[key] !== undefined && !isStringArray(rules[key])) {
+        return `executionRules.${key} must be an array of strings`;
+      }
+    }
+    if (rules.punctuationStyle !== undefined && typeof rules.punctuationStyle !== 'string') {
+      return 'executionRules.punctuationStyle must be a string';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validate a flavor body; returns an error message or null
+ */
+const validateFlavor = (body: Record<string, unknown>, partial: boolean): string | null => {
+  for (const key of ['label', 'instruction']) {
+    if (!partial && (typeof body[key] !== 'string' || !(body[key] as string).trim())) {
+      return `${key} is required`;
+    }
+    if (body[key] !== undefined && (typeof body[key] !== 'string' || !(body[key] as string).trim())) {
+      return `${key} must be a non-empty string`;
+    }
+  }
+  return null;
+};
+
+// ======================
+// TONES
+// ======================
+
+/**
+ * GET /api/tones
+ *
+ * List all tones.
+ */
+toneRouter.get('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const tones = toneDbService.getAllTones();
+
+    logger.info('tones', 'list', `Listed ${tones.length} tones`, { correlationId });
+    sendSuccess(res, { tones }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('tones', 'list_error', `Failed to list tones: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch tones', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/tones/:id
+ *
+ * Get a tone by ID.
+ *
+ * @param {string} id - Tone ID
+ */
+toneRouter.get('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const tone = toneDbService.getToneById(req.params.id);
+
+    if (!tone) {
+      logger.warn('tones', 'not_found', `Tone not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Tone not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, tone, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('tones', 'get_error', `Failed to get tone: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch tone', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/tones
+ *
+ * Create a tone.
+ *
+ * @body {string} label - Tone name (required)
+ * @body {string} description - What the tone is for
+ * @body {string} sampleOutput - Example sentence in this tone
+ * @body {object} executionRules - sentenceConstruction[], wordsToUse[], wordsToAvoid[], punctuationStyle
+ */
+toneRouter.post('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const validationError = validateTone(req.body || {}, false);
+    if (validationError) {
+      logger.warn('tones', 'validation_error', validationError, { correlationId });
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const { label, description, sampleOutput, executionRules } = req.body;
+    const tone = toneDbService.createTone({ label: label.trim(), description, sampleOutput, executionRules });
+
+    logger.info('tones', 'create', `Created tone: ${tone.id}`, { correlationId, label: tone.label });
+    sendSuccess(res, tone, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('tones', 'create_error', `Failed to create tone: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to create tone', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * PUT /api/tones/:id
+ *
+ * Update a user-defined tone.
+ *
+ * @param {string} id - Tone ID
+ * @body {object} updates - Fields to update
+ */
+toneRouter.put('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = toneDbService.getToneById(req.params.id);
+
+    if (!existing) {
+      logger.warn('tones', 'update_not_found', `Tone not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Tone not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.isBuiltin) {
+      return sendError(res, 'Built-in tones are read-only', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    const validationError = validateTone(req.body || {}, true);
+    if (validationError) {
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const { label, description, sampleOutput, executionRules } = req.body;
+    const tone = toneDbService.updateTone(req.params.id, {
+      label: label?.trim(),
+      description,
+      sampleOutput,
+      executionRules,
+    });
+
+    logger.info('tones', 'update', `Updated tone: ${req.params.id}`, { correlationId });
+    sendSuccess(res, tone, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('tones', 'update_error', `Failed to update tone: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to update tone', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/tones/:id
+ *
+ * Delete a user-defined tone.
+ *
+ * @param {string} id - Tone ID
+ */
+toneRouter.delete('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = toneDbService.getToneById(req.params.id);
+
+    if (!existing) {
+      logger.warn('tones', 'delete_not_found', `Tone not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Tone not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.isBuiltin) {
+      return sendError(res, 'Built-in tones cannot be deleted', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    toneDbService.deleteTone(req.params.id);
+
+    logger.info('tones', 'delete', `Deleted tone: ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Tone deleted' }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('tones', 'delete_error', `Failed to delete tone: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to delete tone', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+// ======================
+// FLAVORS
+// ======================
+
+/**
+ * GET /api/flavors
+ *
+ * List all flavors.
+ */
+flavorRouter.get('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const flavors = toneDbService.getAllFlavors();
+
+    logger.info('flavors', 'list', `Listed ${flavors.length} flavors`, { correlationId });
+    sendSuccess(res, { flavors }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('flavors', 'list_error', `Failed to list flavors: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch flavors', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * GET /api/flavors/:id
+ *
+ * Get a flavor by ID.
+ *
+ * @param {string} id - Flavor ID
+ */
+flavorRouter.get('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const flavor = toneDbService.getFlavorById(req.params.id);
+
+    if (!flavor) {
+      logger.warn('flavors', 'not_found', `Flavor not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Flavor not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+
+    sendSuccess(res, flavor, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('flavors', 'get_error', `Failed to get flavor: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to fetch flavor', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * POST /api/flavors
+ *
+ * Create a flavor.
+ *
+ * @body {string} label - Flavor name (required)
+ * @body {string} description - Short description for the picker
+ * @body {string} instruction - Stylistic instruction added to the prompt (required)
+ * @body {string} formattingRules - Optional formatting rules for enhanced newsletters
+ */
+flavorRouter.post('/', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const validationError = validateFlavor(req.body || {}, false);
+    if (validationError) {
+      logger.warn('flavors', 'validation_error', validationError, { correlationId });
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const { label, description, instruction, formattingRules } = req.body;
+    const flavor = toneDbService.createFlavor({
+      label: label.trim(),
+      description,
+      instruction: instruction.trim(),
+      formattingRules,
+    });
+
+    logger.info('flavors', 'create', `Created flavor: ${flavor.id}`, { correlationId, label: flavor.label });
+    sendSuccess(res, flavor, correlationId, undefined, 201);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('flavors', 'create_error', `Failed to create flavor: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to create flavor', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * PUT /api/flavors/:id
+ *
+ * Update a user-defined flavor.
+ *
+ * @param {string} id - Flavor ID
+ * @body {object} updates - Fields to update
+ */
+flavorRouter.put('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = toneDbService.getFlavorById(req.params.id);
+
+    if (!existing) {
+      logger.warn('flavors', 'update_not_found', `Flavor not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Flavor not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.isBuiltin) {
+      return sendError(res, 'Built-in flavors are read-only', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    const validationError = validateFlavor(req.body || {}, true);
+    if (validationError) {
+      return sendError(res, validationError, ErrorCodes.VALIDATION_ERROR, correlationId);
+    }
+
+    const { label, description, instruction, formattingRules } = req.body;
+    const flavor = toneDbService.updateFlavor(req.params.id, {
+      label: label?.trim(),
+      description,
+      instruction: instruction?.trim(),
+      formattingRules,
+    });
+
+    logger.info('flavors', 'update', `Updated flavor: ${req.params.id}`, { correlationId });
+    sendSuccess(res, flavor, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('flavors', 'update_error', `Failed to update flavor: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to update flavor', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/flavors/:id
+ *
+ * Delete a user-defined flavor.
+ *
+ * @param {string} id - Flavor ID
+ */
+flavorRouter.delete('/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const existing = toneDbService.getFlavorById(req.params.id);
+
+    if (!existing) {
+      logger.warn('flavors', 'delete_not_found', `Flavor not found: ${req.params.id}`, { correlationId });
+      return sendError(res, 'Flavor not found', ErrorCodes.NOT_FOUND, correlationId);
+    }
+    if (existing.isBuiltin) {
+      return sendError(res, 'Built-in flavors cannot be deleted', ErrorCodes.FORBIDDEN, correlationId);
+    }
+
+    toneDbService.deleteFlavor(req.params.id);
+
+    logger.info('flavors', 'delete', `Deleted flavor: ${req.params.id}`, { correlationId });
+    sendSuccess(res, { success: true, message: 'Flavor deleted' }, correlationId);
+  } catch (error) {
+    const err = error as Error;
+    logger.error('flavors', 'delete_error', `Failed to delete flavor: ${err.message}`, err, { correlationId });
+    sendError(res, 'Failed to delete flavor', ErrorCodes.DATABASE_ERROR, correlationId);
+  }
+});
+
+export { toneRouter, flavorRouter };
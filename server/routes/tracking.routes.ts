@@ -0,0 +1,102 @@
+/**
+ * Tracking Routes
+ *
+ * Public endpoints hit by recipients' mail clients: the open-tracking pixel
+ * and click-tracking redirects. Mounted at /t (outside /api) so the URLs in
+ * emails stay short and independent of the API surface.
+ *
+ * @module routes/tracking
+ *
+ * ## Endpoints
+ * - GET /t/open/:id.gif - Record an open, return a 1x1 transparent GIF
+ * - GET /t/click/:id    - Record a click, redirect to the original link
+ *
+ * ## Notes
+ * - IDs are signed (see linkSigningService); unsigned or tampered IDs are not recorded
+ * - Events are only recorded while tracking is enabled for the newsletter
+ * - Service: trackingService
+ */
+import { Router, Request, Response } from 'express';
+import * as trackingService from '../services/trackingService';
+import { logger } from '../control-plane/feedback';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const router = Router();
+
+/**
+ * GET /t/open/:id.gif
+ *
+ * Tracking pixel. Always returns the GIF so broken IDs never show as a broken image.
+ *
+ * @param {string} id - Signed open tracking ID
+ */
+router.get('/open/:id.gif', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+
+  try {
+    const parsed = trackingService.parseSignedOpenTrackingId(req.params.id);
+
+    if (!parsed) {
+      logger.warn('tracking', 'open_invalid', 'Invalid or unsigned open tracking ID', { correlationId });
+    } else if (trackingService.isTrackingEnabled(parsed.newsletterId)) {
+      trackingService.recordTrackingEvent(
+        parsed.newsletterId,
+        parsed.recipientEmail,
+        'open',
+        undefined,
+        req.ip,
+        req.get('user-agent')
+      );
+    }
+  } catch (error) {
+    const err = error as Error;
+    logger.error('tracking', 'open_error', `Failed to record open: ${err.message}`, err, { correlationId });
+  }
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    Pragma: 'no-cache',
+    Expires: '0',
+  });
+  res.status(200).send(trackingService.getTrackingPixel());
+});
+
+/**
+ * GET /t/click/:id
+ *
+ * Click redirect. Only signed IDs redirect, so this can't be used as an open redirect.
+ *
+ * @param {string} id - Signed click tracking ID
+ */
+router.get('/click/:id', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const parsed = trackingService.parseSignedClickTrackingId(req.params.id);
+
+  if (!parsed || !/^https?:\/\//i.test(parsed.destUrl)) {
+    logger.warn('tracking', 'click_invalid', 'Invalid or unsigned click tracking ID', { correlationId });
+    return res.status(404).type('text/plain').send('Link not found');
+  }
+
+  try {
+    if (trackingService.isTrackingEnabled(parsed.newsletterId)) {
+      trackingService.recordTrackingEvent(
+        parsed.newsletterId,
+        parsed.recipientEmail,
+        'click',
+        parsed.destUrl,
+        req.ip,
+        req.get('user-agent')
+      );
+    }
+  } catch (error) {
+    // Never block the reader's redirect on a tracking failure
+    const err = error as Error;
+    logger.error('tracking', 'click_error', `Failed to record click: ${err.message}`, err, { correlationId });
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.redirect(302, parsed.destUrl);
+});
+
+export default router;
@@ -0,0 +1,152 @@
+/**
+ * Unsubscribe Routes
+ *
+ * Public endpoints behind the unsubscribe link in every sent newsletter.
+ * Mounted at /u (outside /api) alongside the tracking routes.
+ *
+ * @module routes/unsubscribe
+ *
+ * ## Endpoints
+ * - GET  /u/:token - Confirmation page with an optional reason
+ * - POST /u/:token - Unsubscribe (form submit or RFC 8058 one-click POST)
+ *
+ * ## Notes
+ * - Tokens are signed (see linkSigningService); tampered tokens are rejected
+ * - Mail clients send `List-Unsubscribe=One-Click` as the POST body
+ * - Service: unsubscribeService
+ */
+import express, { Router, Request, Response } from 'express';
+import * as unsubscribeService from '../services/unsubscribeService';
+import { logger } from '../control-plane/feedback';
+import { getCorrelationId } from '../control-plane/invocation/contextManager';
+
+const router = Router();
+
+router.use(express.urlencoded({ extended: false }));
+
+const ONE_CLICK_REASON = 'one-click (List-Unsubscribe)';
+const DEFAULT_REASON = 'unsubscribe link';
+const MAX_REASON_LENGTH = 500;
+
+const REASON_OPTIONS = [
+  'Too many emails',
+  'Content is not relevant to me',
+  'I never signed up',
+  'Other',
+];
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Minimal standalone page; recipients land here from their mail client
+ */
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 40px 16px; background-color: #f9fafb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #374151;">
+  <div style="max-width: 480px; margin: 0 auto; background-color: #ffffff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 32px;">
+    <h1 style="font-size: 20px; margin: 0 0 16px 0; color: #111827;">${escapeHtml(title)}</h1>
+    ${body}
+  </div>
+</body>
+</html>`;
+
+/**
+ * GET /u/:token
+ *
+ * Shows a confirmation form rather than unsubscribing directly, so link
+ * scanners that prefetch URLs can't opt people out.
+ *
+ * @param {string} token - Signed unsubscribe token
+ */
+router.get('/:token', (req: Request, res: Response) => {
+  const data = unsubscribeService.parseUnsubscribeToken(req.params.token);
+
+  if (!data) {
+    return res.status(404).type('html').send(
+      renderPage('Link not valid', '<p>This unsubscribe link is invalid or has been altered.</p>')
+    );
+  }
+
+  const options = REASON_OPTIONS.map(
+    (option) => `<label style="display: block; margin: 6px 0;"><input type="radio" name="reason" value="${escapeHtml(option)}"> ${escapeHtml(option)}</label>`
+  ).join('\n');
+
+  res.set('Cache-Control', 'no-store');
+  res.type('html').send(
+    renderPage(
+      'Unsubscribe',
+      `<p>Stop sending newsletters to <strong>${escapeHtml(data.email)}</strong>?</p>
+    <form method="POST" action="">
+      <p style="margin: 16px 0 8px 0; font-size: 14px;">Mind telling us why? (optional)</p>
+      ${options}
+      <button type="submit" style="margin-top: 20px; padding: 10px 20px; background-color: #111827; color: #ffffff; border: none; border-radius: 6px; font-size: 14px; cursor: pointer;">Unsubscribe</button>
+    </form>`
+    )
+  );
+});
+
+/**
+ * POST /u/:token
+ *
+ * @param {string} token - Signed unsubscribe token
+ * @body {string} [reason] - Reason chosen on the confirmation page
+ * @body {string} [List-Unsubscribe] - "One-Click" when sent by a mail client (RFC 8058)
+ */
+router.post('/:token', (req: Request, res: Response) => {
+  const correlationId = getCorrelationId();
+  const body = (req.body || {}) as Record<string, unknown>;
+  const isOneClick = body['List-Unsubscribe'] === 'One-Click';
+
+  const reason = isOneClick
+    ? ONE_CLICK_REASON
+    : typeof body.reason === 'string' && body.reason.trim()
+      ? body.reason.trim().slice(0, MAX_REASON_LENGTH)
+      : DEFAULT_REASON;
+
+  try {
+    const result = unsubscribeService.unsubscribeByToken(req.params.token, reason);
+
+    if (!result) {
+      logger.warn('unsubscribe', 'invalid_token', 'Invalid or unsigned unsubscribe token', { correlationId });
+      return isOneClick
+        ? res.status(404).type('text/plain').send('Link not found')
+        : res.status(404).type('html').send(
+            renderPage('Link not valid', '<p>This unsubscribe link is invalid or has been altered.</p>')
+          );
+    }
+
+    logger.info('unsubscribe', 'unsubscribed', `Unsubscribe processed (${reason})`, {
+      correlationId,
+      newsletterId: result.newsletterId,
+      alreadyUnsubscribed: result.alreadyUnsubscribed,
+    });
+
+    if (isOneClick) {
+      return res.status(200).type('text/plain').send('Unsubscribed');
+    }
+
+    res.type('html').send(
+      renderPage(
+        'You have been unsubscribed',
+        `<p><strong>${escapeHtml(result.email)}</strong> will no longer receive these newsletters.</p>`
+      )
+    );
+  } catch (error) {
+    const err = error as Error;
+    logger.error('unsubscribe', 'unsubscribe_error', `Failed to unsubscribe: ${err.message}`, err, { correlationId });
+    res.status(500).type('text/plain').send('Something went wrong. Please try again later.');
+  }
+});
+
+export default router;
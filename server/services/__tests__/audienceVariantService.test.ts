@@ -0,0 +1,98 @@
+/**
+ * audienceVariantService Tests
+ *
+ * Tests per-audience variant planning for a send
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../subscriberDbService.ts', () => ({
+  getLists: vi.fn(),
+  getSubscriberByEmail: vi.fn(),
+}));
+vi.mock('../audienceDbService.ts', () => ({}));
+vi.mock('../audienceGenerationService.ts', () => ({}));
+vi.mock('../newsletterFormatService.ts', () => ({
+  getSectionAudienceIds: vi.fn(),
+  newsletterToHtml: vi.fn((_newsletter: unknown, audienceIds?: string[]) =>
+    audienceIds ? `<html>${audienceIds.join(',')}</html>` : '<html>full</html>'
+  ),
+}));
+
+import * as subscriberDb from '../subscriberDbService.ts';
+import { getSectionAudienceIds } from '../newsletterFormatService.ts';
+import { planVariants, getVariantKey, FULL_VARIANT } from '../audienceVariantService';
+import type { NewsletterWithFormat } from '../newsletterDbService.ts';
+
+const newsletter = { id: 'nl_1', formatVersion: 'v2' } as unknown as NewsletterWithFormat;
+
+const subscribers: Record<string, Partial<subscriberDb.Subscriber>> = {
+  'ann@example.com': { lists: '', audiences: ['researchers'] },
+  'bob@example.com': { lists: 'list_biz', audiences: [] },
+  'cy@example.com': { lists: 'list_biz', audiences: ['researchers'] },
+  'dee@example.com': { lists: '', audiences: ['a+b'] },
+};
+
+describe('audienceVariantService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSectionAudienceIds).mockReturnValue(['researchers', 'business', 'a+b']);
+    vi.mocked(subscriberDb.getLists).mockReturnValue([
+      { id: 'list_biz', name: 'Business', dateCreated: '', subscriberCount: 2, audiences: ['business'] },
+    ]);
+    vi.mocked(subscriberDb.getSubscriberByEmail).mockImplementation(email =>
+      subscribers[email] ? ({ email, status: 'active', dateAdded: '', ...subscribers[email] } as subscriberDb.Subscriber) : null
+    );
+  });
+
+  describe('getVariantKey', () => {
+    it('gives the full newsletter to recipients matching none or all sections', () => {
+      expect(getVariantKey([], ['x', 'y'])).toBe(FULL_VARIANT);
+      expect(getVariantKey(['y', 'x', 'z'], ['x', 'y'])).toBe(FULL_VARIANT);
+    });
+
+    it('sorts matching audiences into a stable key', () => {
+      expect(getVariantKey(['z', 'y', 'x'], ['y', 'x', 'z', 'w'])).toBe('x+y+z');
+    });
+
+    it("keeps IDs containing '+' from colliding with a combination", () => {
+      const sections = ['a', 'b', 'a+b'];
+      expect(getVariantKey(['a+b'], sections)).not.toBe(getVariantKey(['a', 'b'], sections));
+    });
+  });
+
+  describe('planVariants', () => {
+    it('returns null for newsletters with fewer than two audiences', () => {
+      vi.mocked(getSectionAudienceIds).mockReturnValue(['researchers']);
+      expect(planVariants(newsletter, ['ann@example.com'])).toBeNull();
+    });
+
+    it('returns null when nobody gets a tailored variant', () => {
+      expect(planVariants(newsletter, ['stranger@example.com'])).toBeNull();
+    });
+
+    it('assigns recipients by their own and their lists\' audiences', () => {
+      const plan = planVariants(newsletter, [
+        'ann@example.com', 'bob@example.com', 'cy@example.com', 'dee@example.com', 'stranger@example.com',
+      ])!;
+
+      expect(plan.assignments).toEqual({
+        'ann@example.com': 'researchers',
+        'bob@example.com': 'business',
+        'cy@example.com': 'business+researchers',
+        'dee@example.com': 'a%2Bb',
+        'stranger@example.com': FULL_VARIANT,
+      });
+    });
+
+    it('renders the full newsletter and each tailored variant server-side', () => {
+      const plan = planVariants(newsletter, ['ann@example.com', 'dee@example.com', 'stranger@example.com'])!;
+
+      expect(plan.variants).toEqual([
+        { key: FULL_VARIANT, audienceIds: ['researchers', 'business', 'a+b'], htmlBody: '<html>full</html>' },
+        { key: 'researchers', audienceIds: ['researchers'], htmlBody: '<html>researchers</html>' },
+        { key: 'a%2Bb', audienceIds: ['a+b'], htmlBody: '<html>a+b</html>' },
+      ]);
+    });
+  });
+});
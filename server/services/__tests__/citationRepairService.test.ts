@@ -0,0 +1,205 @@
+/**
+ * citationRepairService Tests
+ *
+ * Tests closest-URL matching, the quick citation check and the
+ * post-verification citation repair loop
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../newsletterDbService.ts', () => ({
+  getSectionInput: vi.fn(() => null),
+}));
+vi.mock('../usageService.ts', () => ({
+  attributeUsageToNewsletter: vi.fn(),
+}));
+vi.mock('../newsletterRevisionService.ts', () => ({}));
+vi.mock('../ragDbService', () => ({
+  getIndexedSourceUrls: vi.fn(() => []),
+  getDocumentById: vi.fn(() => null),
+}));
+vi.mock('../../domains/generation/services/singleAudienceSectionGenerator.ts', () => ({
+  generateAudienceSection: vi.fn(),
+}));
+
+import * as ragDb from '../ragDbService';
+import { generateAudienceSection } from '../../domains/generation/services/singleAudienceSectionGenerator.ts';
+import { findClosestUrl, quickVerify, verifyNewsletter } from '../citationVerificationService';
+import { repairNewsletterCitations, type CitationRepairOptions } from '../citationRepairService';
+import type { SourceAllocation } from '../sourceAllocationService';
+import type { AudienceConfig, EnhancedAudienceSection, EnhancedNewsletter } from '../../../types';
+
+const ALLOCATED = 'https://github.com/acme/widgets/releases/tag/v2.0';
+const MANGLED = 'https://github.com/acme/widgets/releases/tag/2.0';
+const ALLOCATED_BETA = `${MANGLED}-beta`;
+
+const allocations = [{
+  topic: 'Widgets 2.0',
+  audienceId: 'devs',
+  audienceName: 'Developers',
+  sources: [
+    { url: ALLOCATED, title: 'Widgets 2.0 release', source: 'github', snippet: '' },
+    { url: ALLOCATED_BETA, title: 'Widgets 2.0 beta', source: 'github', snippet: '' },
+  ],
+  primarySource: null,
+  relevanceScore: 1,
+  hasReusedSources: false,
+}] as unknown as SourceAllocation[];
+
+const options: CitationRepairOptions = {
+  maxAttempts: 2,
+  audiences: [{ id: 'devs', name: 'Developers', description: 'Software developers' } as AudienceConfig],
+};
+
+const section = (content: string, sourceUrls: string[] = []): EnhancedAudienceSection => ({
+  audienceId: 'devs',
+  audienceName: 'Developers',
+  title: 'Widgets 2.0',
+  whyItMatters: '',
+  content,
+  practicalPrompt: { scenario: '', prompt: '', isToolSpecific: false },
+  cta: { text: '', action: 'copy_prompt' },
+  sources: sourceUrls.map(url => ({ url, title: 'Source' })),
+} as EnhancedAudienceSection);
+
+const newsletterWith = (...sections: EnhancedAudienceSection[]): EnhancedNewsletter => ({
+  audienceSections: sections,
+} as unknown as EnhancedNewsletter);
+
+const repair = (newsletter: EnhancedNewsletter) =>
+  repairNewsletterCitations(newsletter, allocations, verifyNewsletter(newsletter, allocations), options);
+
+describe('citation repair', () => {
+  describe('findClosestUrl', () => {
+    const urls = [ALLOCATED, 'https://arxiv.org/abs/2401.12345'];
+
+    it('returns exact matches after normalization', () => {
+      expect(findClosestUrl('https://www.github.com/acme/widgets/releases/tag/v2.0/', urls)).toBe(ALLOCATED);
+    });
+
+    it('returns a same-host URL sharing most path segments', () => {
+      expect(findClosestUrl('https://github.com/acme/widgets/releases/tag/2.0', urls)).toBe(ALLOCATED);
+    });
+
+    it('ignores same-host URLs sharing half or fewer path segments', () => {
+      expect(findClosestUrl('https://github.com/made/up', urls)).toBeUndefined();
+      expect(findClosestUrl('https://github.com/acme/other', urls)).toBeUndefined();
+      expect(findClosestUrl('https://arxiv.org/abs/2402.99999', urls)).toBeUndefined();
+    });
+
+    it('never matches other hosts or invalid URLs', () => {
+      expect(findClosestUrl('https://gitlab.com/acme/widgets/releases/tag/v2.0', urls)).toBeUndefined();
+      expect(findClosestUrl('not a url', urls)).toBeUndefined();
+    });
+  });
+
+  describe('quickVerify', () => {
+    const KB_URL = 'https://blog.example.com/saved-article';
+    const kbSection = (kbDocumentId?: string) => ({
+      ...section(`<a href="${KB_URL}">saved</a>`),
+      sources: [{ url: KB_URL, title: 'Saved article', kbDocumentId }],
+    });
+
+    beforeEach(() => {
+      vi.mocked(ragDb.getDocumentById).mockReturnValue(null);
+      vi.mocked(ragDb.getIndexedSourceUrls).mockReturnValue([]);
+    });
+
+    it('passes sections citing an allocated source', () => {
+      expect(quickVerify(newsletterWith(section(`<a href="${ALLOCATED}">notes</a>`)), allocations)).toBe(true);
+    });
+
+    it('passes sections citing an indexed knowledge base document', () => {
+      vi.mocked(ragDb.getDocumentById).mockReturnValue({ id: 'kb-1', status: 'indexed' } as ragDb.RagDocument);
+
+      const newsletter = newsletterWith(kbSection('kb-1'));
+      expect(quickVerify(newsletter, allocations)).toBe(true);
+      expect(verifyNewsletter(newsletter, allocations).isValid).toBe(true);
+    });
+
+    it('passes sections citing an indexed document\'s source URL', () => {
+      vi.mocked(ragDb.getIndexedSourceUrls).mockReturnValue([KB_URL]);
+
+      expect(quickVerify(newsletterWith(kbSection()), allocations)).toBe(true);
+    });
+
+    it('fails sections citing a deleted or unindexed knowledge base document', () => {
+      const deleted = newsletterWith(kbSection('kb-deleted'));
+      expect(quickVerify(deleted, allocations)).toBe(false);
+      expect(verifyNewsletter(deleted, allocations).isValid).toBe(false);
+
+      vi.mocked(ragDb.getDocumentById).mockReturnValue({ id: 'kb-2', status: 'pending' } as ragDb.RagDocument);
+      expect(quickVerify(newsletterWith(kbSection('kb-2')), allocations)).toBe(false);
+    });
+  });
+
+  describe('repairNewsletterCitations', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('leaves verified sections alone', async () => {
+      const result = await repair(newsletterWith(section(`<a href="${ALLOCATED}">notes</a>`, [ALLOCATED])));
+
+      expect(result.report.sections[0].status).toBe('verified');
+      expect(result.report.repairAttempts).toBe(0);
+      expect(result.repairedAudienceIds).toEqual([]);
+    });
+
+    it('replaces a mangled link with the allocated URL, only in link targets', async () => {
+      const content = `<a href="${MANGLED}">notes</a> [changelog](${MANGLED}) and <a href="${ALLOCATED_BETA}">beta</a>`;
+
+      const result = await repair(newsletterWith(section(content, [MANGLED])));
+      const repaired = result.newsletter.audienceSections[0];
+
+      expect(repaired.content).toBe(
+        `<a href="${ALLOCATED}">notes</a> [changelog](${ALLOCATED}) and <a href="${ALLOCATED_BETA}">beta</a>`
+      );
+      expect(repaired.sources.map(s => s.url)).toContain(ALLOCATED);
+      expect(result.report.sections[0]).toMatchObject({
+        status: 'repaired',
+        regenerations: 0,
+        replacedUrls: [{ from: MANGLED, to: ALLOCATED }],
+      });
+      expect(generateAudienceSection).not.toHaveBeenCalled();
+    });
+
+    it('regenerates a section citing an invented page on an allocated host', async () => {
+      const invented = 'https://github.com/made/up';
+      vi.mocked(generateAudienceSection).mockResolvedValue({
+        section: section(`<a href="${ALLOCATED}">notes</a>`, [ALLOCATED]),
+      } as Awaited<ReturnType<typeof generateAudienceSection>>);
+
+      const result = await repair(newsletterWith(section(`<a href="${invented}">notes</a>`, [invented])));
+
+      expect(generateAudienceSection).toHaveBeenCalledWith(
+        expect.objectContaining({ strictCitations: { rejectedUrls: [invented] } })
+      );
+      expect(result.report.sections[0]).toMatchObject({ status: 'repaired', regenerations: 1, replacedUrls: [] });
+    });
+
+    it('regenerates when a replaced link was not a link target', async () => {
+      vi.mocked(generateAudienceSection).mockResolvedValue({
+        section: section(`<a href="${ALLOCATED}">notes</a>`, [ALLOCATED]),
+      } as Awaited<ReturnType<typeof generateAudienceSection>>);
+
+      const result = await repair(newsletterWith(section(`See ${MANGLED} for details`)));
+
+      expect(generateAudienceSection).toHaveBeenCalledTimes(1);
+      expect(result.report.sections[0].status).toBe('repaired');
+    });
+
+    it('reports sections still failing after the last attempt as unverified', async () => {
+      vi.mocked(generateAudienceSection).mockRejectedValue(new Error('model unavailable'));
+
+      const result = await repair(newsletterWith(section('<a href="https://example.com/x">x</a>')));
+
+      expect(result.report.repairAttempts).toBe(2);
+      expect(result.report.isValid).toBe(false);
+      expect(result.report.sections[0]).toMatchObject({
+        status: 'unverified',
+        unverifiedUrls: ['https://example.com/x'],
+      });
+    });
+  });
+});
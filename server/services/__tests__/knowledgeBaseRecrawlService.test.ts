@@ -0,0 +1,181 @@
+/**
+ * knowledgeBaseRecrawlService Tests
+ *
+ * Tests re-crawling one document: unchanged and changed content, re-index
+ * failures, the dead link threshold and recovery
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../ragDbService', () => ({
+  getDocumentById: vi.fn(),
+  generateContentHash: vi.fn((content: string) => `hash:${content}`),
+}));
+vi.mock('../ragRecrawlDbService', () => ({
+  getCheckFailures: vi.fn(() => 0),
+  recordCheckSuccess: vi.fn(),
+  recordCheckFailure: vi.fn(),
+  recordReindexFailure: vi.fn(),
+  saveVersion: vi.fn(() => ({ version: 3 })),
+  addEvent: vi.fn(),
+}));
+vi.mock('../articleExtractorService', () => ({
+  extractArticle: vi.fn(),
+}));
+vi.mock('../persistentRagService', () => ({
+  formatFetchedArticle: vi.fn((_url: string, title: string, content: string) => `${title}\n${content}`),
+  reindexDocument: vi.fn(),
+}));
+
+import * as ragDb from '../ragDbService';
+import * as ragRecrawlDb from '../ragRecrawlDbService';
+import { extractArticle } from '../articleExtractorService';
+import { reindexDocument } from '../persistentRagService';
+import { recrawlDocument } from '../knowledgeBaseRecrawlService';
+
+const DOC_ID = 'doc-1';
+
+const document = (overrides: Partial<ragDb.RagDocument> = {}): ragDb.RagDocument => ({
+  id: DOC_ID,
+  geminiFileId: null,
+  filename: 'article.md',
+  contentType: 'text/markdown',
+  sourceType: 'url',
+  sizeBytes: 100,
+  status: 'indexed',
+  errorMessage: null,
+  metadata: { extractedTitle: 'Article' },
+  createdAt: '2026-01-01 00:00:00',
+  indexedAt: '2026-01-01 00:00:00',
+  sourceUrl: 'https://example.com/article',
+  newsletterId: null,
+  contentHash: 'hash:Article\nOld text',
+  collectionId: null,
+  tags: [],
+  recrawlPolicy: 'daily',
+  linkStatus: 'ok',
+  lastCheckedAt: null,
+  lastCheckError: null,
+  ...overrides,
+} as ragDb.RagDocument);
+
+const fetched = (content: string) =>
+  vi.mocked(extractArticle).mockResolvedValue({ success: true, title: 'Article', content, timeMs: 5 });
+
+const fetchFails = (error = 'HTTP 404') =>
+  vi.mocked(extractArticle).mockResolvedValue({ success: false, error, timeMs: 5 });
+
+const eventTypes = () => vi.mocked(ragRecrawlDb.addEvent).mock.calls.map(call => call[1]);
+
+describe('knowledgeBaseRecrawlService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ragDb.getDocumentById).mockReturnValue(document());
+    vi.mocked(ragRecrawlDb.getCheckFailures).mockReturnValue(0);
+    vi.mocked(reindexDocument).mockResolvedValue(document());
+  });
+
+  it('skips documents that are not indexed URL documents', async () => {
+    vi.mocked(ragDb.getDocumentById).mockReturnValue(document({ sourceUrl: null }));
+
+    await expect(recrawlDocument(DOC_ID)).resolves.toMatchObject({ outcome: 'skipped' });
+    expect(extractArticle).not.toHaveBeenCalled();
+  });
+
+  it('only records the check when the content is unchanged', async () => {
+    fetched('Old text');
+
+    await expect(recrawlDocument(DOC_ID)).resolves.toEqual({ documentId: DOC_ID, outcome: 'unchanged' });
+    expect(ragRecrawlDb.recordCheckSuccess).toHaveBeenCalledWith(DOC_ID);
+    expect(reindexDocument).not.toHaveBeenCalled();
+    expect(eventTypes()).toEqual([]);
+  });
+
+  it('re-indexes changed content and keeps the previous version', async () => {
+    fetched('New text');
+
+    await expect(recrawlDocument(DOC_ID)).resolves.toEqual({ documentId: DOC_ID, outcome: 'updated' });
+    expect(reindexDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ id: DOC_ID }),
+      'Article\nNew text',
+      expect.objectContaining({ extractedTitle: 'Article', lastChangedAt: expect.any(String) })
+    );
+    expect(ragRecrawlDb.saveVersion).toHaveBeenCalledWith(expect.objectContaining({ id: DOC_ID }));
+    expect(ragRecrawlDb.recordCheckSuccess).toHaveBeenCalledWith(DOC_ID);
+    expect(eventTypes()).toEqual(['updated']);
+    expect(vi.mocked(ragRecrawlDb.addEvent).mock.calls[0][2]).toContain('v3');
+  });
+
+  it('leaves the document due when re-indexing fails', async () => {
+    fetched('New text');
+    vi.mocked(reindexDocument).mockRejectedValue(new Error('backend down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await recrawlDocument(DOC_ID);
+
+    expect(result).toEqual({ documentId: DOC_ID, outcome: 'failed', error: 'Re-index failed: backend down' });
+    expect(ragRecrawlDb.recordReindexFailure).toHaveBeenCalledWith(DOC_ID, 'Re-index failed: backend down');
+    expect(ragRecrawlDb.recordCheckSuccess).not.toHaveBeenCalled();
+    expect(ragRecrawlDb.saveVersion).not.toHaveBeenCalled();
+    expect(eventTypes()).toEqual([]);
+  });
+
+  describe('dead links', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('does not mark a link broken after one failed fetch', async () => {
+      fetchFails();
+
+      await expect(recrawlDocument(DOC_ID)).resolves.toMatchObject({ outcome: 'failed', error: 'HTTP 404' });
+      expect(ragRecrawlDb.recordCheckFailure).toHaveBeenCalledWith(DOC_ID, 'HTTP 404', false);
+      expect(eventTypes()).toEqual([]);
+    });
+
+    it('marks a link broken after two failed fetches', async () => {
+      fetchFails();
+      vi.mocked(ragRecrawlDb.getCheckFailures).mockReturnValue(1);
+
+      await expect(recrawlDocument(DOC_ID)).resolves.toMatchObject({ outcome: 'broken', error: 'HTTP 404' });
+      expect(ragRecrawlDb.recordCheckFailure).toHaveBeenCalledWith(DOC_ID, 'HTTP 404', true);
+      expect(eventTypes()).toEqual(['broken']);
+    });
+
+    it('records a broken link only once', async () => {
+      fetchFails();
+      vi.mocked(ragDb.getDocumentById).mockReturnValue(document({ linkStatus: 'broken' }));
+      vi.mocked(ragRecrawlDb.getCheckFailures).mockReturnValue(4);
+
+      await expect(recrawlDocument(DOC_ID)).resolves.toMatchObject({ outcome: 'failed' });
+      expect(ragRecrawlDb.recordCheckFailure).toHaveBeenCalledWith(DOC_ID, 'HTTP 404', true);
+      expect(eventTypes()).toEqual([]);
+    });
+
+    it('treats an empty extraction as a failed fetch', async () => {
+      fetched('');
+
+      await expect(recrawlDocument(DOC_ID)).resolves.toMatchObject({ outcome: 'failed', error: 'No content extracted' });
+      expect(reindexDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recovery', () => {
+    it('records a recovery when a broken link works again unchanged', async () => {
+      vi.mocked(ragDb.getDocumentById).mockReturnValue(document({ linkStatus: 'broken' }));
+      fetched('Old text');
+
+      await expect(recrawlDocument(DOC_ID)).resolves.toMatchObject({ outcome: 'unchanged' });
+      expect(ragRecrawlDb.recordCheckSuccess).toHaveBeenCalledWith(DOC_ID);
+      expect(eventTypes()).toEqual(['recovered']);
+    });
+
+    it('records an update and a recovery when a broken link comes back changed', async () => {
+      vi.mocked(ragDb.getDocumentById).mockReturnValue(document({ linkStatus: 'broken' }));
+      fetched('New text');
+
+      await expect(recrawlDocument(DOC_ID)).resolves.toMatchObject({ outcome: 'updated' });
+      expect(eventTypes()).toEqual(['updated', 'recovered']);
+    });
+  });
+});
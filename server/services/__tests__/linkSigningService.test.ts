@@ -0,0 +1,43 @@
+/**
+ * linkSigningService Tests
+ *
+ * Tests signing and verification of tokens in public email links
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+
+beforeAll(() => {
+  process.env.EMAIL_LINK_SECRET = 'test-link-secret';
+});
+
+import { sign, signToken, verifyToken } from '../linkSigningService';
+
+describe('linkSigningService', () => {
+  describe('verifyToken', () => {
+    it('returns the token for a valid signed token', () => {
+      expect(verifyToken(signToken('abc123'))).toBe('abc123');
+    });
+
+    it('rejects a tampered token', () => {
+      const signed = signToken('abc123');
+      const signature = signed.slice(signed.lastIndexOf('.') + 1);
+      expect(verifyToken(`abc124.${signature}`)).toBeNull();
+    });
+
+    it('rejects a tampered signature', () => {
+      const signed = signToken('abc123');
+      const last = signed.slice(-1) === 'A' ? 'B' : 'A';
+      expect(verifyToken(signed.slice(0, -1) + last)).toBeNull();
+    });
+
+    it('rejects a signature of the wrong length', () => {
+      expect(verifyToken(`abc123.${sign('abc123')}x`)).toBeNull();
+      expect(verifyToken('abc123.')).toBeNull();
+    });
+
+    it('rejects tokens without a separator or with an empty token', () => {
+      expect(verifyToken('abc123')).toBeNull();
+      expect(verifyToken(`.${sign('')}`)).toBeNull();
+    });
+  });
+});
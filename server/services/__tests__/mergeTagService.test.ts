@@ -0,0 +1,70 @@
+/**
+ * mergeTagService Tests
+ *
+ * Tests per-recipient merge tag resolution in subjects and email HTML
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../subscriberDbService.ts', () => ({
+  getAttributeKeys: vi.fn(() => ['company']),
+}));
+
+import { resolveMergeTags, getMergeValues, personalize } from '../mergeTagService';
+
+const values = getMergeValues({
+  email: 'ann@example.com',
+  name: 'Ann Marie Lee',
+  attributes: { company: 'Acme & Co' },
+});
+
+describe('mergeTagService', () => {
+  describe('getMergeValues', () => {
+    it('splits the name into first and last name', () => {
+      expect(values).toMatchObject({ name: 'Ann Marie Lee', first_name: 'Ann', last_name: 'Marie Lee' });
+    });
+  });
+
+  describe('resolveMergeTags', () => {
+    it('substitutes known fields and attributes', () => {
+      expect(resolveMergeTags('Hi {{first_name}} from {{ company }}', values)).toBe('Hi Ann from Acme & Co');
+    });
+
+    it('matches keys case-insensitively', () => {
+      expect(resolveMergeTags('{{First_Name}}', values)).toBe('Ann');
+    });
+
+    it('uses the fallback when the value is empty', () => {
+      const noName = getMergeValues({ email: 'x@example.com' });
+      expect(resolveMergeTags('Hi {{first_name|there}}!', noName, { knownKeys: [] })).toBe('Hi there!');
+    });
+
+    it('resolves known keys without a value or fallback to an empty string', () => {
+      expect(resolveMergeTags('[{{plan}}]', values, { knownKeys: ['plan'] })).toBe('[]');
+    });
+
+    it('keeps unknown tags without a fallback as written', () => {
+      expect(resolveMergeTags('Use {{topic}} here', values, { knownKeys: [] })).toBe('Use {{topic}} here');
+    });
+
+    it('never resolves the unsubscribe URL tag', () => {
+      expect(resolveMergeTags('{{unsubscribe_url|x}}', values, { knownKeys: [] })).toBe('{{unsubscribe_url|x}}');
+    });
+
+    it('escapes substituted values for HTML but not fallbacks', () => {
+      expect(resolveMergeTags('<b>{{company}}</b>', values, { html: true, knownKeys: [] })).toBe('<b>Acme &amp; Co</b>');
+      expect(resolveMergeTags('{{plan|<i>free</i>}}', values, { html: true, knownKeys: [] })).toBe('<i>free</i>');
+    });
+  });
+
+  describe('personalize', () => {
+    it('folds line breaks out of the resolved subject', () => {
+      const result = personalize(
+        { email: 'x@example.com', name: 'Eve\r\nBcc: victim@example.com' },
+        { subject: 'Hi {{name}}', htmlBody: '<p>{{name}}</p>' },
+        []
+      );
+      expect(result.subject).toBe('Hi Eve Bcc: victim@example.com');
+    });
+  });
+});
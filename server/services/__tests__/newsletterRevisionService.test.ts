@@ -0,0 +1,105 @@
+/**
+ * newsletterRevisionService Tests
+ *
+ * Tests field-level diffs between newsletter revisions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../newsletterDbService.ts', () => ({}));
+vi.mock('../newsletterRevisionDbService.ts', () => ({
+  IMAGE_REF_PREFIX: 'revision-image:',
+  getRevision: vi.fn(),
+}));
+
+import * as revisionDb from '../newsletterRevisionDbService.ts';
+import { diffRevisions } from '../newsletterRevisionService';
+import type { NewsletterRevision } from '../../../types';
+
+const revision = (id: number, newsletter: Record<string, unknown>): NewsletterRevision => ({
+  id,
+  newsletterId: 'nl_1',
+  revisionNumber: id,
+  source: 'inline_edit',
+  author: null,
+  restoredFrom: null,
+  createdAt: '2025-01-01 00:00:00',
+  formatVersion: 'v2',
+  newsletter: newsletter as unknown as NewsletterRevision['newsletter'],
+});
+
+const mockRevisions = (...revisions: NewsletterRevision[]) => {
+  vi.mocked(revisionDb.getRevision).mockImplementation((_newsletterId, revisionId) =>
+    revisions.find(r => r.id === revisionId) || null
+  );
+};
+
+describe('newsletterRevisionService', () => {
+  describe('diffRevisions', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('returns null when either revision is missing', () => {
+      mockRevisions(revision(1, {}));
+      expect(diffRevisions('nl_1', 1, 2)).toBeNull();
+    });
+
+    it('lists changed, added and removed fields', () => {
+      mockRevisions(
+        revision(1, { subject: 'Old', conclusion: 'Bye' }),
+        revision(2, { subject: 'New', editorsNote: { message: 'Hi' } })
+      );
+
+      expect(diffRevisions('nl_1', 1, 2)!.changes).toEqual([
+        { path: 'subject', change: 'changed', before: 'Old', after: 'New', isImage: false },
+        { path: 'editorsNote.message', change: 'added', before: null, after: 'Hi', isImage: false },
+        { path: 'conclusion', change: 'removed', before: 'Bye', after: null, isImage: false },
+      ]);
+    });
+
+    it('ignores row fields such as id and createdAt', () => {
+      mockRevisions(
+        revision(1, { id: 'a', createdAt: 'x', subject: 'Same' }),
+        revision(2, { id: 'b', createdAt: 'y', subject: 'Same' })
+      );
+      expect(diffRevisions('nl_1', 1, 2)!.changes).toEqual([]);
+    });
+
+    it('keys sections by audience, so reordering is not a change', () => {
+      const researchers = { audienceId: 'researchers', title: 'R' };
+      const business = { audienceId: 'business', title: 'B' };
+      mockRevisions(
+        revision(1, { audienceSections: [researchers, business] }),
+        revision(2, { audienceSections: [business, { ...researchers, title: 'R2' }] })
+      );
+
+      expect(diffRevisions('nl_1', 1, 2)!.changes).toEqual([
+        { path: 'audienceSections[researchers].title', change: 'changed', before: 'R', after: 'R2', isImage: false },
+      ]);
+    });
+
+    it('joins arrays of plain values into one field', () => {
+      mockRevisions(revision(1, { topics: ['a', 'b'] }), revision(2, { topics: ['a', 'c'] }));
+      expect(diffRevisions('nl_1', 1, 2)!.changes[0]).toMatchObject({ path: 'topics', before: 'a, b', after: 'a, c' });
+    });
+
+    it('describes image references without their data', () => {
+      mockRevisions(
+        revision(1, { sections: [{ imageUrl: 'revision-image:3fa2c1d9aaaa' }] }),
+        revision(2, { sections: [{ imageUrl: 'revision-image:77bb00ccdddd' }] })
+      );
+
+      expect(diffRevisions('nl_1', 1, 2)!.changes).toEqual([
+        { path: 'sections[0].imageUrl', change: 'changed', before: 'image 3fa2c1d9', after: 'image 77bb00cc', isImage: true },
+      ]);
+    });
+
+    it('reads revisions without image data', () => {
+      mockRevisions(revision(1, {}), revision(2, {}));
+      diffRevisions('nl_1', 1, 2);
+      expect(revisionDb.getRevision).toHaveBeenCalledWith('nl_1', 1, false);
+      expect(revisionDb.getRevision).toHaveBeenCalledWith('nl_1', 2, false);
+    });
+  });
+});
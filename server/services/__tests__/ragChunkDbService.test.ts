@@ -0,0 +1,67 @@
+/**
+ * ragChunkDbService Tests
+ *
+ * Tests how free-text questions are turned into FTS5 queries for BM25 search
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+
+const { all } = vi.hoisted(() => ({ all: vi.fn((..._params: unknown[]) => [] as unknown[]) }));
+
+vi.mock('../../db/init.ts', () => ({
+  default: { prepare: vi.fn(() => ({ all })) },
+}));
+
+import { searchChunksBm25 } from '../ragChunkDbService';
+
+/** The FTS5 query searchChunksBm25 ran for a question, or null if it didn't query */
+const ftsQueryFor = (question: string): string | null => {
+  all.mockClear();
+  searchChunksBm25(question, 10);
+  return all.mock.calls.length > 0 ? (all.mock.calls[0][0] as string) : null;
+};
+
+describe('ragChunkDbService', () => {
+  describe('searchChunksBm25 query', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('matches any of the question\'s words, lowercased and deduplicated', () => {
+      expect(ftsQueryFor('How do Transformers use attention? Attention!')).toBe(
+        '"how" OR "do" OR "transformers" OR "use" OR "attention"'
+      );
+    });
+
+    it('quotes FTS5 operators and drops punctuation', () => {
+      expect(ftsQueryFor('cats AND NOT dogs OR "birds" NEAR(fish) title:* -x ^y')).toBe(
+        '"cats" OR "and" OR "not" OR "dogs" OR "or" OR "birds" OR "near" OR "fish" OR "title"'
+      );
+    });
+
+    it('keeps non-Latin letters and digits, and skips one-character terms', () => {
+      expect(ftsQueryFor('GPT-4 über 東京 a b 7')).toBe('"gpt" OR "über" OR "東京"');
+    });
+
+    it('skips the search when nothing searchable is left', () => {
+      expect(ftsQueryFor('?! " * ( ) a -')).toBeNull();
+      expect(searchChunksBm25('', 10)).toEqual([]);
+    });
+
+    it('produces queries FTS5 accepts for hostile input', () => {
+      const fts = new Database(':memory:');
+      fts.exec(`CREATE VIRTUAL TABLE chunks USING fts5(content, tokenize='porter unicode61')`);
+      fts.prepare('INSERT INTO chunks (content) VALUES (?)').run('Cats and dogs share the house');
+
+      const search = fts.prepare('SELECT content FROM chunks WHERE chunks MATCH ?');
+      for (const question of ['cats)) OR ((', 'NEAR("dogs" AND', 'content:cats*', '"unbalanced quote', 'dogs^ -house']) {
+        const query = ftsQueryFor(question)!;
+        expect(() => search.all(query)).not.toThrow();
+      }
+      expect(search.all(ftsQueryFor('Where do the CATS live?')!)).toHaveLength(1);
+
+      fts.close();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * segmentService Tests
+ *
+ * Tests segment definition validation and evaluation against subscribers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../db/init.ts', () => ({ default: {} }));
+vi.mock('../segmentDbService.ts', () => ({}));
+vi.mock('../trackingService.ts', () => ({
+  getEngagedRecipients: vi.fn(),
+}));
+vi.mock('../subscriberDbService.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../subscriberDbService.ts')>()),
+  getSubscribers: vi.fn(),
+  getListById: vi.fn(),
+}));
+
+import * as subscriberDb from '../subscriberDbService.ts';
+import { getEngagedRecipients } from '../trackingService.ts';
+import { validateDefinition, evaluateDefinition } from '../segmentService';
+import type { SegmentDefinition } from '../segmentDbService.ts';
+
+const subscriber = (email: string, overrides: Partial<subscriberDb.Subscriber> = {}): subscriberDb.Subscriber => ({
+  email,
+  status: 'active',
+  lists: '',
+  dateAdded: '2025-06-01 12:00:00',
+  ...overrides,
+});
+
+const emailsOf = (definition: SegmentDefinition) => evaluateDefinition(definition).map(s => s.email);
+
+describe('segmentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(subscriberDb.getListById).mockImplementation(id =>
+      id === 'list_news' ? { id, name: 'News', dateCreated: '', subscriberCount: 0 } : null
+    );
+  });
+
+  describe('validateDefinition', () => {
+    it('accepts a valid definition', () => {
+      expect(validateDefinition({
+        match: 'all',
+        rules: [
+          { field: 'email', operator: 'ends_with', value: '@example.com' },
+          { field: 'attribute', attribute: 'plan', operator: 'is_set' },
+          { field: 'list', operator: 'in_list', value: 'list_news' },
+          { field: 'date_added', operator: 'within_days', value: '30' },
+          { field: 'engagement', operator: 'did', event: 'open', lastNewsletters: 3 },
+        ],
+      })).toBeNull();
+    });
+
+    it('requires match and a non-empty rules array', () => {
+      expect(validateDefinition(null)).toMatch(/must be an object/);
+      expect(validateDefinition({ match: 'some', rules: [] })).toMatch(/match must be/);
+      expect(validateDefinition({ match: 'any', rules: [] })).toMatch(/non-empty array/);
+    });
+
+    it('rejects unknown fields and operators that do not fit the field', () => {
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'age', operator: 'equals', value: '1' }] }))
+        .toMatch(/Rule 1: unknown field/);
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'list', operator: 'contains', value: 'x' }] }))
+        .toMatch(/Rule 1: operator for list/);
+    });
+
+    it('requires values, attribute keys and known lists', () => {
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'name', operator: 'equals', value: ' ' }] }))
+        .toMatch(/value is required/);
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'attribute', operator: 'equals', value: 'x' }] }))
+        .toMatch(/attribute is required/);
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'list', operator: 'in_list', value: 'list_gone' }] }))
+        .toMatch(/list not found/);
+    });
+
+    it('checks dates, day counts and engagement settings', () => {
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'date_added', operator: 'before', value: 'soon' }] }))
+        .toMatch(/must be a date/);
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'date_added', operator: 'within_days', value: '-2' }] }))
+        .toMatch(/positive number of days/);
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'engagement', operator: 'did', event: 'view', lastNewsletters: 1 }] }))
+        .toMatch(/event must be/);
+      expect(validateDefinition({ match: 'all', rules: [{ field: 'engagement', operator: 'did', event: 'click', lastNewsletters: 51 }] }))
+        .toMatch(/lastNewsletters must be between 1 and 50/);
+    });
+  });
+
+  describe('evaluateDefinition', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-07-01T12:00:00Z'));
+      vi.mocked(subscriberDb.getSubscribers).mockReturnValue([
+        subscriber('ann@example.com', { name: 'Ann', lists: 'list_news', attributes: { plan: 'pro' } }),
+        subscriber('bob@other.org', { name: 'Bob', dateAdded: '2024-01-01 00:00:00', source: 'import' }),
+        subscriber('cy@example.com', { lists: 'list_other,list_news' }),
+      ]);
+      vi.mocked(getEngagedRecipients).mockReturnValue(new Set(['bob@other.org']));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('only looks at active subscribers', () => {
+      emailsOf({ match: 'all', rules: [{ field: 'email', operator: 'is_set' }] });
+      expect(subscriberDb.getSubscribers).toHaveBeenCalledWith({ status: 'active' });
+    });
+
+    it('matches text fields case-insensitively', () => {
+      expect(emailsOf({ match: 'all', rules: [{ field: 'email', operator: 'ends_with', value: '@EXAMPLE.com' }] }))
+        .toEqual(['ann@example.com', 'cy@example.com']);
+      expect(emailsOf({ match: 'all', rules: [{ field: 'name', operator: 'is_not_set' }] }))
+        .toEqual(['cy@example.com']);
+    });
+
+    it('matches attributes by normalized key', () => {
+      expect(emailsOf({ match: 'all', rules: [{ field: 'attribute', attribute: 'Plan', operator: 'equals', value: 'PRO' }] }))
+        .toEqual(['ann@example.com']);
+    });
+
+    it('matches list membership', () => {
+      expect(emailsOf({ match: 'all', rules: [{ field: 'list', operator: 'in_list', value: 'list_news' }] }))
+        .toEqual(['ann@example.com', 'cy@example.com']);
+      expect(emailsOf({ match: 'all', rules: [{ field: 'list', operator: 'not_in_list', value: 'list_news' }] }))
+        .toEqual(['bob@other.org']);
+    });
+
+    it('matches date added, treating stored timestamps as UTC', () => {
+      expect(emailsOf({ match: 'all', rules: [{ field: 'date_added', operator: 'within_days', value: '30' }] }))
+        .toEqual(['ann@example.com', 'cy@example.com']);
+      expect(emailsOf({ match: 'all', rules: [{ field: 'date_added', operator: 'before', value: '2025-01-01' }] }))
+        .toEqual(['bob@other.org']);
+    });
+
+    it('matches engagement and looks it up once per event and window', () => {
+      expect(emailsOf({
+        match: 'any',
+        rules: [
+          { field: 'engagement', operator: 'did', event: 'open', lastNewsletters: 3 },
+          { field: 'engagement', operator: 'did', event: 'open', lastNewsletters: 3 },
+        ],
+      })).toEqual(['bob@other.org']);
+      expect(getEngagedRecipients).toHaveBeenCalledTimes(1);
+    });
+
+    it("combines rules with 'all' and 'any'", () => {
+      const rules = [
+        { field: 'email' as const, operator: 'contains' as const, value: 'example' },
+        { field: 'source' as const, operator: 'equals' as const, value: 'import' },
+      ];
+      expect(emailsOf({ match: 'all', rules })).toEqual([]);
+      expect(emailsOf({ match: 'any', rules })).toEqual(['ann@example.com', 'bob@other.org', 'cy@example.com']);
+    });
+  });
+});
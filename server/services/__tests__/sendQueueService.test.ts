@@ -0,0 +1,43 @@
+/**
+ * sendQueueService Tests
+ *
+ * Tests the retry backoff for temporary delivery failures
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// The queue's database and delivery dependencies aren't needed for backoff
+vi.mock('../sendQueueDbService.ts', () => ({}));
+vi.mock('../schedulerDbService.ts', () => ({}));
+vi.mock('../newsletterDbService.ts', () => ({}));
+vi.mock('../emailTransportService.ts', () => ({}));
+vi.mock('../trackingService.ts', () => ({}));
+vi.mock('../unsubscribeService.ts', () => ({}));
+vi.mock('../newsletterFormatService.ts', () => ({}));
+vi.mock('../subscriberDbService.ts', () => ({}));
+vi.mock('../mergeTagService.ts', () => ({}));
+
+import { getRetryDelayMs } from '../sendQueueService';
+
+describe('sendQueueService', () => {
+  describe('getRetryDelayMs', () => {
+    it('waits 30 seconds after the first attempt', () => {
+      expect(getRetryDelayMs(1)).toBe(30 * 1000);
+    });
+
+    it('doubles the delay with each attempt', () => {
+      expect(getRetryDelayMs(2)).toBe(60 * 1000);
+      expect(getRetryDelayMs(3)).toBe(2 * 60 * 1000);
+      expect(getRetryDelayMs(4)).toBe(4 * 60 * 1000);
+    });
+
+    it('caps the delay at one hour', () => {
+      expect(getRetryDelayMs(8)).toBe(60 * 60 * 1000);
+      expect(getRetryDelayMs(50)).toBe(60 * 60 * 1000);
+    });
+
+    it('treats zero attempts like the first', () => {
+      expect(getRetryDelayMs(0)).toBe(30 * 1000);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * subscriberImportService Tests
+ *
+ * Tests CSV and vCard upload parsing and the CSV export
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/init.ts', () => ({ default: {} }));
+
+vi.mock('../subscriberDbService.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../subscriberDbService.ts')>()),
+  getSubscribers: vi.fn(),
+  getLists: vi.fn(),
+}));
+
+import * as subscriberDb from '../subscriberDbService.ts';
+import { parseCsv, parseUpload, exportSubscribersToCsv } from '../subscriberImportService';
+
+describe('subscriberImportService', () => {
+  describe('parseCsv', () => {
+    it('parses simple comma-separated rows', () => {
+      expect(parseCsv('email,name\na@example.com,Ann')).toEqual([
+        ['email', 'name'],
+        ['a@example.com', 'Ann'],
+      ]);
+    });
+
+    it('handles quoted delimiters, escaped quotes and newlines', () => {
+      const rows = parseCsv('email,name\n"a@example.com","Smith, ""Ann""\nJr."');
+      expect(rows[1]).toEqual(['a@example.com', 'Smith, "Ann"\nJr.']);
+    });
+
+    it('handles CRLF line endings and a UTF-8 BOM', () => {
+      expect(parseCsv('\uFEFFemail,name\r\na@example.com,Ann\r\n')).toEqual([
+        ['email', 'name'],
+        ['a@example.com', 'Ann'],
+      ]);
+    });
+
+    it('detects semicolon and tab delimiters', () => {
+      expect(parseCsv('email;name\na@example.com;Ann')[1]).toEqual(['a@example.com', 'Ann']);
+      expect(parseCsv('email\tname\na@example.com\tAnn')[1]).toEqual(['a@example.com', 'Ann']);
+    });
+
+    it('drops blank lines', () => {
+      expect(parseCsv('email\n\na@example.com\n,\n')).toEqual([['email'], ['a@example.com']]);
+    });
+  });
+
+  describe('parseUpload (csv)', () => {
+    it('maps recognized headers and splits lists', () => {
+      const parsed = parseUpload('E-mail,First Name,Last Name,Lists\na@example.com,Ann,Lee,news; weekly');
+      expect(parsed.mapping).toEqual({ email: 'E-mail', firstName: 'First Name', lastName: 'Last Name', lists: 'Lists' });
+      expect(parsed.records).toEqual([
+        { row: 2, email: 'a@example.com', name: 'Ann Lee', lists: ['news', 'weekly'] },
+      ]);
+    });
+
+    it('treats a file without a header row as email,name', () => {
+      const parsed = parseUpload('a@example.com,Ann\nb@example.com,Bob');
+      expect(parsed.columns).toEqual(['Column 1', 'Column 2']);
+      expect(parsed.records.map(r => [r.row, r.email, r.name])).toEqual([
+        [1, 'a@example.com', 'Ann'],
+        [2, 'b@example.com', 'Bob'],
+      ]);
+    });
+
+    it('returns no mapping when no email column can be found', () => {
+      const parsed = parseUpload('foo,bar\n1,2');
+      expect(parsed.mapping).toBeNull();
+      expect(parsed.records).toEqual([]);
+    });
+  });
+
+  describe('parseUpload (vcard)', () => {
+    it('reads the first EMAIL and FN of each card', () => {
+      const vcf = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'FN:Ann Lee',
+        'item1.EMAIL;TYPE=work:ann@example.com',
+        'EMAIL;TYPE=home:ann.home@example.com',
+        'END:VCARD',
+        'BEGIN:VCARD',
+        'N:Smith;Bob;;;',
+        'EMAIL:bob@example.com',
+        'END:VCARD',
+      ].join('\r\n');
+
+      const parsed = parseUpload(vcf);
+      expect(parsed.format).toBe('vcard');
+      expect(parsed.records).toEqual([
+        { row: 1, email: 'ann@example.com', name: 'Ann Lee' },
+        { row: 2, email: 'bob@example.com', name: 'Bob Smith' },
+      ]);
+    });
+
+    it('unfolds continuation lines and decodes escapes', () => {
+      const vcf = 'BEGIN:VCARD\nFN:Lee\\, Ann\n  Marie\nEMAIL:ann@example.com\nEND:VCARD';
+      expect(parseUpload(vcf).records[0].name).toBe('Lee, Ann Marie');
+    });
+
+    it('keeps cards without an email so they are reported as invalid', () => {
+      const parsed = parseUpload('BEGIN:VCARD\nFN:No Email\nEND:VCARD');
+      expect(parsed.records).toEqual([{ row: 1, email: '', name: 'No Email' }]);
+    });
+  });
+
+  describe('exportSubscribersToCsv', () => {
+    beforeEach(() => {
+      vi.mocked(subscriberDb.getLists).mockReturnValue([]);
+    });
+
+    it('prefixes values that a spreadsheet would run as formulas', () => {
+      vi.mocked(subscriberDb.getSubscribers).mockReturnValue([
+        {
+          email: 'a@example.com',
+          name: '=HYPERLINK("http://evil")',
+          status: 'inactive',
+          lists: '',
+          dateAdded: '2025-01-01',
+          source: '@import',
+          unsubscribeReason: '+1 too many emails',
+        },
+      ]);
+
+      const row = exportSubscribersToCsv().split('\n')[1];
+      expect(row).toBe(`a@example.com,"'=HYPERLINK(""http://evil"")",inactive,,2025-01-01,,'@import,'+1 too many emails`);
+    });
+
+    it('quotes values containing carriage returns', () => {
+      vi.mocked(subscriberDb.getSubscribers).mockReturnValue([
+        { email: 'a@example.com', name: 'Ann\rLee', status: 'active', lists: '', dateAdded: '2025-01-01' },
+      ]);
+
+      expect(exportSubscribersToCsv().split('\n')[1]).toContain('"Ann\rLee"');
+    });
+  });
+});
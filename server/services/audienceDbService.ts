@@ -1,9 +1,16 @@
 /**
  * Audience Database Service
- * CRUD operations for custom audiences stored in SQLite
+ * CRUD operations for audiences and audience categories stored in SQLite
+ *
+ * Every audience - the built-in specializations and the ones editors create -
+ * shares one model: a parent category plus the content generation profile
+ * (domain examples, JSON/topic examples, source preferences) the topic
+ * agents and newsletter generators work from. The built-ins are seeded as
+ * read-only rows on startup and kept in sync with the definitions below.
  */
 
 import db from '../db/init.ts';
+import type { AudienceCategory, AudienceJsonExample, AudienceSourcePreference } from '../../types.ts';
 
 // Types
 export interface AudienceGenerated {
@@ -19,12 +26,28 @@ export interface CustomAudience {
   name: string;
   description: string;
   generated?: AudienceGenerated;
+  parentId: string;
+  domainExamples: string;
+  jsonExamples: AudienceJsonExample[];
+  topicTitles: string[];
+  sourcePreferences: AudienceSourcePreference[];
   isDefault: boolean;
   isCustom: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface AudienceInput {
+  name: string;
+  description?: string;
+  generated?: AudienceGenerated;
+  parentId?: string;
+  domainExamples?: string;
+  jsonExamples?: AudienceJsonExample[];
+  topicTitles?: string[];
+  sourcePreferences?: AudienceSourcePreference[];
+}
+
 interface DbAudienceRow {
   id: string;
   name: string;
@@ -34,11 +57,38 @@ interface DbAudienceRow {
   subreddits: string | null;
   arxiv_categories: string | null;
   search_templates: string | null;
+  parent_id: string | null;
+  domain_examples: string | null;
+  json_examples: string | null;
+  topic_titles: string | null;
+  source_preferences: string | null;
   is_default: number;
   created_at: string;
   updated_at: string;
 }
 
+interface DbCategoryRow {
+  id: string;
+  name: string;
+  sort_order: number;
+  is_builtin: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Sources an audience can prefer when fetching trending content */
+export const AUDIENCE_SOURCE_PREFERENCES: AudienceSourcePreference[] = [
+  'arxiv',
+  'hackernews',
+  'github',
+  'reddit',
+  'dev',
+  'gdelt',
+];
+
+/** Category that user audiences land in when no other parent is picked */
+export const DEFAULT_AUDIENCE_CATEGORY = 'custom';
+
 /**
  * Convert database row to CustomAudience object
  */
@@ -55,6 +105,11 @@ const rowToAudience = (row: DbAudienceRow): CustomAudience => ({
         search_templates: row.search_templates ? JSON.parse(row.search_templates) : undefined,
       }
     : undefined,
+  parentId: row.parent_id || DEFAULT_AUDIENCE_CATEGORY,
+  domainExamples: row.domain_examples || '',
+  jsonExamples: row.json_examples ? JSON.parse(row.json_examples) : [],
+  topicTitles: row.topic_titles ? JSON.parse(row.topic_titles) : [],
+  sourcePreferences: row.source_preferences ? JSON.parse(row.source_preferences) : [],
   isDefault: row.is_default === 1,
   isCustom: row.is_default === 0,
   createdAt: row.created_at,
@@ -62,12 +117,345 @@ const rowToAudience = (row: DbAudienceRow): CustomAudience => ({
 });
 
 /**
- * Generate unique ID for audiences
+ * Generate unique ID for audiences and categories
  */
-const generateId = (): string => {
-  return `audience_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+const generateId = (prefix: 'audience' | 'category' = 'audience'): string => {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
 
+/**
+ * Column values shared by insert and upsert statements
+ */
+const toColumnValues = (audience: AudienceInput) => [
+  audience.name,
+  audience.description || '',
+  audience.generated?.persona || null,
+  audience.generated?.relevance_keywords ? JSON.stringify(audience.generated.relevance_keywords) : null,
+  audience.generated?.subreddits ? JSON.stringify(audience.generated.subreddits) : null,
+  audience.generated?.arxiv_categories ? JSON.stringify(audience.generated.arxiv_categories) : null,
+  audience.generated?.search_templates ? JSON.stringify(audience.generated.search_templates) : null,
+  audience.parentId || DEFAULT_AUDIENCE_CATEGORY,
+  audience.domainExamples || null,
+  audience.jsonExamples?.length ? JSON.stringify(audience.jsonExamples) : null,
+  audience.topicTitles?.length ? JSON.stringify(audience.topicTitles) : null,
+  audience.sourcePreferences?.length ? JSON.stringify(audience.sourcePreferences) : null,
+];
+
+// ======================
+// BUILT-IN DEFINITIONS
+// ======================
+
+/**
+ * Built-in parent categories (Phase 15.2 - Audience Restructure)
+ */
+const BUILTIN_CATEGORIES: Array<{ id: string; name: string }> = [
+  { id: 'academic', name: 'Academic' },
+  { id: 'business', name: 'Business' },
+  { id: DEFAULT_AUDIENCE_CATEGORY, name: 'Custom' },
+];
+
+/**
+ * Built-in audience specializations with domain-specific content
+ * Each has its own prompt context, examples, and source preferences
+ */
+const BUILTIN_AUDIENCES: Array<AudienceInput & { id: string }> = [
+  // ===== ACADEMIC SPECIALIZATIONS =====
+  {
+    id: 'forensic-anthropology',
+    parentId: 'academic',
+    name: 'Forensic Anthropology',
+    description:
+      'Forensic anthropology professors and researchers specializing in skeletal analysis, ' +
+      'trauma interpretation, taphonomy, and mass disaster victim identification using AI for ' +
+      'morphometric analysis, age estimation, sex determination, ancestry classification, ' +
+      'and biological profile construction from skeletal remains.',
+    domainExamples:
+      '- Forensic anthropology applications: skeletal analysis AI for bone measurements, ' +
+      'trauma pattern recognition from fractures, morphometric analysis automation, ' +
+      'mass fatality incident response tools, age/sex/ancestry estimation algorithms, ' +
+      'commingled remains sorting, postmortem interval estimation, taphonomic analysis',
+    jsonExamples: [
+      {
+        title: 'How to Build a Skeletal Analysis Pipeline Using Claude Vision API and Python',
+        summary:
+          'Use Claude API with base64-encoded bone images for morphometric measurements and ' +
+          'trauma documentation. Implementation: Create Python wrapper, prompt for specific ' +
+          'measurements, integrate with case management systems.',
+      },
+      {
+        title: 'Automate Age Estimation from Skeletal Features with TensorFlow and Medical Imaging',
+        summary:
+          'Train a model on pubic symphysis and auricular surface images for age-at-death ' +
+          'estimation. Implementation: Collect annotated datasets, fine-tune ResNet, deploy ' +
+          'for forensic case assessment.',
+      },
+    ],
+    topicTitles: [
+      'Build a Skeletal Analysis Pipeline Using Claude Vision API and Python',
+      'Configure Automated Trauma Pattern Recognition System with TensorFlow and Medical Imaging',
+      'Automate Age Estimation from Skeletal Features Using Deep Learning',
+      'Create a Commingled Remains Sorting Tool with Claude and Morphometric Analysis',
+    ],
+    sourcePreferences: ['arxiv', 'github', 'dev'],
+    generated: {
+      persona:
+        'Forensic anthropology professors and researchers specializing in skeletal analysis, ' +
+        'trauma interpretation, taphonomy, and mass disaster victim identification.',
+      relevance_keywords: [
+        'skeletal analysis',
+        'morphometric analysis automation',
+        'mass fatality incident response tools',
+        'age/sex/ancestry estimation algorithms',
+        'commingled remains sorting',
+        'postmortem interval estimation',
+        'taphonomic analysis',
+      ],
+      subreddits: ['forensics', 'Anthropology', 'AcademicBiology', 'ForensicScience'],
+      arxiv_categories: ['cs.CV', 'q-bio.QM', 'cs.AI'],
+      search_templates: [
+        'AI {topic} forensic anthropology',
+        '{topic} skeletal analysis machine learning',
+        '{topic} morphometric analysis automation',
+      ],
+    },
+  },
+  {
+    id: 'computational-archaeology',
+    parentId: 'academic',
+    name: 'Computational Archaeology',
+    description:
+      'Digital and computational archaeology researchers applying LiDAR processing, ' +
+      'photogrammetry, 3D site reconstruction, geospatial analysis, and remote sensing ' +
+      'to archaeological site discovery, artifact documentation, cultural heritage ' +
+      'preservation, and landscape archaeology.',
+    domainExamples:
+      '- Digital/computational archaeology applications: LiDAR site discovery and ' +
+      'feature extraction, photogrammetry pipelines for artifact digitization, ' +
+      'artifact classification with computer vision, 3D reconstruction of excavation sites, ' +
+      'geospatial analysis with GIS tools, cultural heritage preservation databases, ' +
+      'remote sensing for landscape archaeology, ceramic typology automation',
+    jsonExamples: [
+      {
+        title: 'Deploy LiDAR Point Cloud Processing Pipeline Using CloudCompare and Python',
+        summary:
+          'Build an automated pipeline for archaeological feature detection from LiDAR data. ' +
+          'Implementation: Use CloudCompare Python bindings, apply terrain analysis, identify ' +
+          'potential sites with ML classification.',
+      },
+      {
+        title: 'Create a Photogrammetry Workflow for Artifact Documentation with Meshroom',
+        summary:
+          'Automate 3D artifact digitization from photo sets. Implementation: Configure ' +
+          'Meshroom pipeline, optimize for small object capture, export to Sketchfab for sharing.',
+      },
+    ],
+    topicTitles: [
+      'Deploy LiDAR Point Cloud Processing Pipeline Using CloudCompare and Python for Site Discovery',
+      'Create a Photogrammetry Workflow for Artifact Documentation with Meshroom and AliceVision',
+      'Build an Artifact Classification System Using Claude Vision and Transfer Learning',
+      'Automate GIS Analysis for Archaeological Surveys with QGIS and Python',
+    ],
+    sourcePreferences: ['arxiv', 'github', 'dev'],
+    generated: {
+      persona:
+        'Digital and computational archaeology researchers applying LiDAR processing, ' +
+        'photogrammetry, 3D site reconstruction, and geospatial analysis to site discovery ' +
+        'and cultural heritage preservation.',
+      relevance_keywords: [
+        'LiDAR site discovery',
+        'photogrammetry',
+        '3D reconstruction of excavation sites',
+        'geospatial analysis with GIS tools',
+        'remote sensing',
+        'ceramic typology automation',
+      ],
+      subreddits: ['archaeology', 'gis', 'AcademicHistory', 'DigitalHumanities'],
+      arxiv_categories: ['cs.CV', 'cs.GR', 'cs.AI', 'eess.IV'],
+      search_templates: [
+        'AI {topic} computational archaeology',
+        '{topic} LiDAR site discovery',
+        '{topic} photogrammetry 3D reconstruction',
+      ],
+    },
+  },
+
+  // ===== BUSINESS SPECIALIZATIONS =====
+  {
+    id: 'business-administration',
+    parentId: 'business',
+    name: 'Business Administration',
+    description:
+      'Business administrators, office managers, and operations professionals seeking ' +
+      'AI-powered workflow automation, document processing, meeting transcription, ' +
+      'task orchestration, business process automation (BPA), robotic process automation (RPA), ' +
+      'and productivity enhancement tools to streamline operations and reduce manual overhead.',
+    domainExamples:
+      '- Business automation applications: workflow orchestration with n8n and Zapier, ' +
+      'document processing automation for invoices and contracts, meeting intelligence and ' +
+      'transcription, RPA implementation with UiPath and Power Automate, API integration ' +
+      'patterns, no-code/low-code development, email triage and auto-response, ' +
+      'calendar management automation, expense report processing',
+    jsonExamples: [
+      {
+        title: 'How to Automate Business Workflows Using n8n Cloud and Claude Integration',
+        summary:
+          'Build no-code AI workflows for document processing, email triage, and meeting ' +
+          'follow-ups. Implementation: Connect n8n to Gmail/Slack, configure Claude prompts, ' +
+          'route actions to project management tools.',
+      },
+      {
+        title: 'Automate Meeting Notes with Whisper API and Claude Summarization',
+        summary:
+          'Create an end-to-end meeting intelligence pipeline. Implementation: Record via ' +
+          'Zoom API, transcribe with Whisper, summarize and extract action items with Claude, ' +
+          'push to Notion.',
+      },
+    ],
+    topicTitles: [
+      'Automate Business Workflows Using n8n Cloud and Claude Integration',
+      'Configure Document Intelligence Workflow Using Claude 3.5 and LangChain',
+      'Automate Meeting Notes with Whisper API and Claude Summarization',
+      'Build an Invoice Processing System with Claude Vision and Zapier',
+    ],
+    sourcePreferences: ['hackernews', 'reddit', 'dev'],
+    generated: {
+      persona:
+        'Business administrators, office managers, and operations professionals seeking ' +
+        'AI-powered workflow automation, document processing, and productivity tools.',
+      relevance_keywords: [
+        'workflow orchestration',
+        'meeting intelligence and transcription',
+        'API integration patterns',
+        'no-code/low-code development',
+        'email triage and auto-response',
+        'calendar management automation',
+        'expense report processing',
+      ],
+      subreddits: ['automation', 'productivity', 'Entrepreneur', 'smallbusiness'],
+      arxiv_categories: ['cs.AI', 'cs.HC', 'cs.SE'],
+      search_templates: [
+        'AI {topic} workflow automation',
+        '{topic} business process automation',
+        'automate {topic} n8n zapier',
+      ],
+    },
+  },
+  {
+    id: 'business-intelligence',
+    parentId: 'business',
+    name: 'Business Intelligence & Analytics',
+    description:
+      'Business analytics, logistics, and data professionals using data mining, ' +
+      'predictive analytics, supply chain optimization, demand forecasting, ' +
+      'inventory management, route optimization, warehouse automation, and ' +
+      'ML-driven insights to extract actionable intelligence from structured and ' +
+      'unstructured data. Includes dashboard development, KPI tracking, and data visualization.',
+    domainExamples:
+      '- Business analytics/logistics applications: supply chain optimization models, ' +
+      'demand forecasting with time series, inventory management automation, ' +
+      'route optimization algorithms, warehouse automation integration, ' +
+      'predictive analytics dashboards, data mining and ETL pipelines, ' +
+      'KPI tracking and alerting, executive reporting automation, ' +
+      'customer segmentation analysis, churn prediction models',
+    jsonExamples: [
+      {
+        title: 'How to Automate Supply Chain Forecasting with Prophet and Streamlit',
+        summary:
+          'Build an end-to-end demand forecasting dashboard with real-time predictions. ' +
+          'Implementation: Pull historical data, train Prophet model, deploy Streamlit ' +
+          'dashboard for visualization.',
+      },
+      {
+        title: 'Build a Real-Time Analytics Dashboard with Streamlit and Plotly',
+        summary:
+          'Create an interactive executive dashboard for KPI monitoring. Implementation: ' +
+          'Connect to data warehouse, build Plotly visualizations, add Streamlit filters ' +
+          'and drill-down capabilities.',
+      },
+    ],
+    topicTitles: [
+      'Automate Supply Chain Forecasting with Prophet, Pandas, and Streamlit',
+      'Optimize Inventory Predictions Using XGBoost and Historical Sales Data',
+      'Build a Real-Time Analytics Dashboard with Streamlit and Plotly',
+      'Create a Customer Churn Prediction Model with Scikit-learn and Claude Analysis',
+    ],
+    sourcePreferences: ['hackernews', 'reddit', 'github', 'dev'],
+    generated: {
+      persona:
+        'Business analytics, logistics, and data professionals using predictive analytics, ' +
+        'supply chain optimization, demand forecasting, and ML-driven dashboards.',
+      relevance_keywords: [
+        'supply chain optimization models',
+        'demand forecasting with time series',
+        'inventory management automation',
+        'route optimization algorithms',
+        'warehouse automation integration',
+        'predictive analytics dashboards',
+        'data mining and ETL pipelines',
+        'KPI tracking and alerting',
+      ],
+      subreddits: ['datascience', 'BusinessIntelligence', 'analytics', 'supplychain'],
+      arxiv_categories: ['cs.LG', 'stat.ML', 'cs.AI', 'cs.DB'],
+      search_templates: [
+        'AI {topic} business analytics',
+        '{topic} predictive modeling',
+        '{topic} dashboard automation visualization',
+      ],
+    },
+  },
+];
+
+/**
+ * Seed the built-in categories and audiences
+ *
+ * Built-ins are upserted so changes to their definitions reach existing
+ * databases; user-defined rows are never touched.
+ */
+export const seedBuiltinAudiences = (): void => {
+  const categoryStmt = db.prepare(`
+    INSERT INTO audience_categories (id, name, sort_order, is_builtin)
+    VALUES (?, ?, ?, 1)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      sort_order = excluded.sort_order
+    WHERE audience_categories.is_builtin = 1
+  `);
+
+  const audienceStmt = db.prepare(`
+    INSERT INTO custom_audiences
+    (id, name, description, persona, relevance_keywords, subreddits, arxiv_categories, search_templates,
+     parent_id, domain_examples, json_examples, topic_titles, source_preferences, is_default)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      description = excluded.description,
+      persona = excluded.persona,
+      relevance_keywords = excluded.relevance_keywords,
+      subreddits = excluded.subreddits,
+      arxiv_categories = excluded.arxiv_categories,
+      search_templates = excluded.search_templates,
+      parent_id = excluded.parent_id,
+      domain_examples = excluded.domain_examples,
+      json_examples = excluded.json_examples,
+      topic_titles = excluded.topic_titles,
+      source_preferences = excluded.source_preferences
+    WHERE custom_audiences.is_default = 1
+  `);
+
+  db.transaction(() => {
+    BUILTIN_CATEGORIES.forEach((category, index) => {
+      categoryStmt.run(category.id, category.name, index);
+    });
+    for (const audience of BUILTIN_AUDIENCES) {
+      audienceStmt.run(audience.id, ...toColumnValues(audience));
+    }
+  })();
+};
+
+// ======================
+// AUDIENCES
+// ======================
+
 /**
  * Get all custom audiences (non-default)
  */
@@ -80,11 +468,25 @@ export const getCustomAudiences = (): CustomAudience[] => {
 };
 
 /**
- * Get all audiences (including defaults)
+ * Get all audiences (built-ins first, in their defined order, then custom)
  */
 export const getAllAudiences = (): CustomAudience[] => {
   const rows = db
-    .prepare('SELECT * FROM custom_audiences ORDER BY is_default DESC, created_at DESC')
+    .prepare(`
+      SELECT * FROM custom_audiences
+      ORDER BY is_default DESC, CASE WHEN is_default = 1 THEN rowid END, created_at DESC
+    `)
+    .all() as DbAudienceRow[];
+
+  return rows.map(rowToAudience);
+};
+
+/**
+ * Get the built-in (default) audiences in their defined order
+ */
+export const getDefaultAudiences = (): CustomAudience[] => {
+  const rows = db
+    .prepare('SELECT * FROM custom_audiences WHERE is_default = 1 ORDER BY rowid')
     .all() as DbAudienceRow[];
 
   return rows.map(rowToAudience);
@@ -105,85 +507,86 @@ export const getAudienceById = (id: string): CustomAudience | null => {
 /**
  * Create a new custom audience
  */
-export const createAudience = (
-  name: string,
-  description: string,
-  generated?: AudienceGenerated
-): CustomAudience => {
+export const createAudience = (input: AudienceInput): CustomAudience => {
   const id = generateId();
 
   db.prepare(`
     INSERT INTO custom_audiences
-    (id, name, description, persona, relevance_keywords, subreddits, arxiv_categories, search_templates, is_default, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, datetime('now'), datetime('now'))
-  `).run(
-    id,
-    name,
-    description,
-    generated?.persona || null,
-    generated?.relevance_keywords ? JSON.stringify(generated.relevance_keywords) : null,
-    generated?.subreddits ? JSON.stringify(generated.subreddits) : null,
-    generated?.arxiv_categories ? JSON.stringify(generated.arxiv_categories) : null,
-    generated?.search_templates ? JSON.stringify(generated.search_templates) : null
-  );
+    (id, name, description, persona, relevance_keywords, subreddits, arxiv_categories, search_templates,
+     parent_id, domain_examples, json_examples, topic_titles, source_preferences, is_default, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, datetime('now'), datetime('now'))
+  `).run(id, ...toColumnValues(input));
 
-  console.log(`[AudienceDb] Created audience: ${name} (${id})`);
+  console.log(`[AudienceDb] Created audience: ${input.name} (${id})`);
 
   return getAudienceById(id)!;
 };
 
 /**
- * Save a full audience object (for migration from localStorage)
+ * Save a full audience object (upsert by ID, also used for migration from localStorage)
+ *
+ * Built-in audiences are read-only and returned unchanged.
  */
-export const saveAudience = (audience: {
-  id: string;
-  name: string;
-  description: string;
-  generated?: AudienceGenerated;
-  isCustom?: boolean;
-}): CustomAudience => {
+export const saveAudience = (audience: AudienceInput & { id: string; isCustom?: boolean }): CustomAudience => {
   const existing = getAudienceById(audience.id);
 
+  if (existing?.isDefault) {
+    console.warn(`[AudienceDb] Cannot overwrite default audience: ${audience.id}`);
+    return existing;
+  }
+
   if (existing) {
     // Update existing
     db.prepare(`
       UPDATE custom_audiences
       SET name = ?, description = ?, persona = ?, relevance_keywords = ?,
-          subreddits = ?, arxiv_categories = ?, search_templates = ?, updated_at = datetime('now')
+          subreddits = ?, arxiv_categories = ?, search_templates = ?,
+          parent_id = ?, domain_examples = ?, json_examples = ?, topic_titles = ?, source_preferences = ?,
+          updated_at = datetime('now')
       WHERE id = ?
-    `).run(
-      audience.name,
-      audience.description,
-      audience.generated?.persona || null,
-      audience.generated?.relevance_keywords ? JSON.stringify(audience.generated.relevance_keywords) : null,
-      audience.generated?.subreddits ? JSON.stringify(audience.generated.subreddits) : null,
-      audience.generated?.arxiv_categories ? JSON.stringify(audience.generated.arxiv_categories) : null,
-      audience.generated?.search_templates ? JSON.stringify(audience.generated.search_templates) : null,
-      audience.id
-    );
+    `).run(...toColumnValues(audience), audience.id);
     console.log(`[AudienceDb] Updated audience: ${audience.name}`);
   } else {
     // Insert new
     db.prepare(`
       INSERT INTO custom_audiences
-      (id, name, description, persona, relevance_keywords, subreddits, arxiv_categories, search_templates, is_default, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, datetime('now'), datetime('now'))
-    `).run(
-      audience.id,
-      audience.name,
-      audience.description,
-      audience.generated?.persona || null,
-      audience.generated?.relevance_keywords ? JSON.stringify(audience.generated.relevance_keywords) : null,
-      audience.generated?.subreddits ? JSON.stringify(audience.generated.subreddits) : null,
-      audience.generated?.arxiv_categories ? JSON.stringify(audience.generated.arxiv_categories) : null,
-      audience.generated?.search_templates ? JSON.stringify(audience.generated.search_templates) : null
-    );
+      (id, name, description, persona, relevance_keywords, subreddits, arxiv_categories, search_templates,
+       parent_id, domain_examples, json_examples, topic_titles, source_preferences, is_default, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, datetime('now'), datetime('now'))
+    `).run(audience.id, ...toColumnValues(audience));
     console.log(`[AudienceDb] Saved audience: ${audience.name} (${audience.id})`);
   }
 
   return getAudienceById(audience.id)!;
 };
 
+/**
+ * Update fields of a custom audience
+ *
+ * Built-in audiences are read-only and returned unchanged.
+ */
+export const updateAudience = (id: string, updates: Partial<AudienceInput>): CustomAudience | null => {
+  const existing = getAudienceById(id);
+  if (!existing) return null;
+
+  if (existing.isDefault) {
+    console.warn(`[AudienceDb] Cannot edit default audience: ${id}`);
+    return existing;
+  }
+
+  return saveAudience({
+    id,
+    name: updates.name ?? existing.name,
+    description: updates.description ?? existing.description,
+    generated: updates.generated ?? existing.generated,
+    parentId: updates.parentId ?? existing.parentId,
+    domainExamples: updates.domainExamples ?? existing.domainExamples,
+    jsonExamples: updates.jsonExamples ?? existing.jsonExamples,
+    topicTitles: updates.topicTitles ?? existing.topicTitles,
+    sourcePreferences: updates.sourcePreferences ?? existing.sourcePreferences,
+  });
+};
+
 /**
  * Delete a custom audience
  */
@@ -220,3 +623,98 @@ export const getAudienceCount = (): { total: number; default: number; custom: nu
     custom: total - defaultCount,
   };
 };
+
+// ======================
+// CATEGORIES
+// ======================
+
+/**
+ * Convert database row to AudienceCategory (with child audience IDs)
+ */
+const rowToCategory = (row: DbCategoryRow): AudienceCategory => {
+  const children = db
+    .prepare(`
+      SELECT id FROM custom_audiences
+      WHERE COALESCE(parent_id, ?) = ?
+      ORDER BY is_default DESC, CASE WHEN is_default = 1 THEN rowid END, created_at
+    `)
+    .all(DEFAULT_AUDIENCE_CATEGORY, row.id) as Array<{ id: string }>;
+
+  return {
+    id: row.id,
+    name: row.name,
+    children: children.map((c) => c.id),
+    isBuiltin: row.is_builtin === 1,
+  };
+};
+
+/**
+ * Get all audience categories (built-ins first, then user categories)
+ */
+export const getAudienceCategories = (): AudienceCategory[] => {
+  const rows = db
+    .prepare('SELECT * FROM audience_categories ORDER BY is_builtin DESC, sort_order, created_at')
+    .all() as DbCategoryRow[];
+
+  return rows.map(rowToCategory);
+};
+
+/**
+ * Get audience category by ID
+ */
+export const getAudienceCategoryById = (id: string): AudienceCategory | null => {
+  const row = db
+    .prepare('SELECT * FROM audience_categories WHERE id = ?')
+    .get(id) as DbCategoryRow | undefined;
+
+  if (!row) return null;
+  return rowToCategory(row);
+};
+
+/**
+ * Create a user-defined audience category
+ */
+export const createAudienceCategory = (name: string): AudienceCategory => {
+  const id = generateId('category');
+
+  db.prepare(`
+    INSERT INTO audience_categories (id, name, sort_order, is_builtin)
+    VALUES (?, ?, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM audience_categories), 0)
+  `).run(id, name);
+
+  console.log(`[AudienceDb] Created category: ${name} (${id})`);
+
+  return getAudienceCategoryById(id)!;
+};
+
+/**
+ * Delete a user-defined audience category
+ *
+ * Its audiences move to the default (Custom) category. Built-in categories
+ * can't be deleted.
+ */
+export const deleteAudienceCategory = (id: string): boolean => {
+  const existing = getAudienceCategoryById(id);
+  if (!existing) return false;
+
+  if (existing.isBuiltin) {
+    console.warn(`[AudienceDb] Cannot delete built-in category: ${id}`);
+    return false;
+  }
+
+  const result = db.transaction(() => {
+    db.prepare("UPDATE custom_audiences SET parent_id = ?, updated_at = datetime('now') WHERE parent_id = ?")
+      .run(DEFAULT_AUDIENCE_CATEGORY, id);
+    return db.prepare('DELETE FROM audience_categories WHERE id = ?').run(id);
+  })();
+
+  if (result.changes > 0) {
+    console.log(`[AudienceDb] Deleted category: ${id}`);
+    return true;
+  }
+
+  return false;
+};
+
+// Seed built-ins on module load
+seedBuiltinAudiences();
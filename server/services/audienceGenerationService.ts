@@ -9,13 +9,9 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import type { AudienceConfig, AudienceCategory } from '../../types';
-import {
-  AUDIENCE_CATEGORIES,
-  SPECIALIZATIONS,
-  getAllSpecializations,
-  getAudienceCategories as getCategories,
-  resolveLegacyAudienceId,
-} from '../domains/generation/helpers/audienceHelpers';
+import * as audienceDbService from './audienceDbService';
+import type { CustomAudience } from './audienceDbService';
+import { getAudienceCategories as getCategories } from '../domains/generation/helpers/audienceHelpers';
 
 interface GeneratedAudienceConfig {
   persona: string;
@@ -23,6 +19,8 @@ interface GeneratedAudienceConfig {
   subreddits: string[];
   arxiv_categories: string[];
   search_templates: string[];
+  domain_examples?: string;
+  topic_titles?: string[];
 }
 
 interface GenerationResult {
@@ -64,7 +62,9 @@ Return JSON with exactly this structure:
   "relevance_keywords": ["5-8 specific keywords for content filtering, including technical terms and tool names relevant to this audience"],
   "subreddits": ["3-5 relevant subreddit names without the r/ prefix"],
   "arxiv_categories": ["2-4 relevant arxiv category codes like cs.AI, cs.CV, q-bio.QM"],
-  "search_templates": ["3-5 search query templates with {topic} placeholder for dynamic searches"]
+  "search_templates": ["3-5 search query templates with {topic} placeholder for dynamic searches"],
+  "domain_examples": "One line listing 6-10 concrete AI use cases for this audience, comma-separated",
+  "topic_titles": ["4 example newsletter topic titles, each naming a specific tool and an actionable outcome"]
 }
 
 Be specific to the audience. Include domain-specific terminology.`,
@@ -93,7 +93,7 @@ Be specific to the audience. Include domain-specific terminology.`,
       jsonText = jsonText.replace(/^```json?\n?/, '').replace(/\n?```$/, '');
     }
 
-    const generated: GeneratedAudienceConfig = JSON.parse(jsonText);
+    const { domain_examples, topic_titles, ...generated }: GeneratedAudienceConfig = JSON.parse(jsonText);
 
     // Create unique ID from name
     const id = name
@@ -107,6 +107,8 @@ Be specific to the audience. Include domain-specific terminology.`,
       description,
       isCustom: true,
       generated,
+      domainExamples: domain_examples,
+      topicTitles: topic_titles,
     };
 
     const tokensUsed =
@@ -128,27 +130,41 @@ Be specific to the audience. Include domain-specific terminology.`,
   }
 }
 
+/**
+ * Convert a stored audience to AudienceConfig format for UI compatibility
+ */
+export function toAudienceConfig(audience: CustomAudience): AudienceConfig {
+  return {
+    id: audience.id,
+    name: audience.name,
+    description: audience.description,
+    isCustom: audience.isCustom,
+    generated: audience.generated
+      ? {
+          persona: audience.generated.persona,
+          relevance_keywords: audience.generated.relevance_keywords,
+          subreddits: audience.generated.subreddits || [],
+          arxiv_categories: audience.generated.arxiv_categories || [],
+          search_templates: audience.generated.search_templates || [],
+        }
+      : undefined,
+    parentId: audience.parentId,
+    domainExamples: audience.domainExamples,
+    jsonExamples: audience.jsonExamples,
+    topicTitles: audience.topicTitles,
+    sourcePreferences: audience.sourcePreferences,
+  };
+}
+
 /**
  * Get the default audiences as AudienceConfig objects
  *
- * Returns the 4 specializations (forensic-anthropology, computational-archaeology,
+ * Returns the built-in specializations (forensic-anthropology, computational-archaeology,
  * business-administration, business-intelligence) converted to AudienceConfig format
  * for UI compatibility.
  */
 export function getDefaultAudiences(): AudienceConfig[] {
-  return getAllSpecializations().map((spec) => ({
-    id: spec.id,
-    name: spec.name,
-    description: spec.description,
-    isCustom: false,
-    generated: {
-      persona: spec.description,
-      relevance_keywords: extractKeywords(spec.domainExamples),
-      subreddits: getSubredditsForSpecialization(spec.id),
-      arxiv_categories: getArxivCategoriesForSpecialization(spec.id),
-      search_templates: getSearchTemplatesForSpecialization(spec.id),
-    },
-  }));
+  return audienceDbService.getDefaultAudiences().map(toAudienceConfig);
 }
 
 /**
@@ -165,24 +181,14 @@ export function getAudiencesByCategory(): {
   category: AudienceCategory;
   audiences: AudienceConfig[];
 }[] {
-  return AUDIENCE_CATEGORIES.map((category) => ({
+  const audiences = new Map(audienceDbService.getAllAudiences().map((a) => [a.id, a]));
+
+  return getCategories().map((category) => ({
     category,
-    audiences: category.children.map((childId) => {
-      const spec = SPECIALIZATIONS[childId];
-      return {
-        id: spec.id,
-        name: spec.name,
-        description: spec.description,
-        isCustom: false,
-        generated: {
-          persona: spec.description,
-          relevance_keywords: extractKeywords(spec.domainExamples),
-          subreddits: getSubredditsForSpecialization(spec.id),
-          arxiv_categories: getArxivCategoriesForSpecialization(spec.id),
-          search_templates: getSearchTemplatesForSpecialization(spec.id),
-        },
-      };
-    }),
+    audiences: category.children
+      .map((childId) => audiences.get(childId))
+      .filter((a): a is CustomAudience => Boolean(a))
+      .map(toAudienceConfig),
   }));
 }
 
@@ -260,71 +266,6 @@ export function getAudiencePromptDescription(audiences: AudienceConfig[]): strin
     .join('\n');
 }
 
-// =============================================================================
-// Helper Functions for Generated Config
-// =============================================================================
-
-function extractKeywords(domainExamples: string): string[] {
-  // Extract key terms from domain examples
-  const terms = domainExamples
-    .replace(/[-•]/g, '')
-    .split(/[,:]/)
-    .map((t) => t.trim())
-    .filter((t) => t.length > 3 && t.length < 40);
-  return terms.slice(0, 8);
-}
-
-function getSubredditsForSpecialization(specId: string): string[] {
-  const subredditMap: Record<string, string[]> = {
-    'forensic-anthropology': ['forensics', 'Anthropology', 'AcademicBiology', 'ForensicScience'],
-    'computational-archaeology': ['archaeology', 'gis', 'AcademicHistory', 'DigitalHumanities'],
-    'business-administration': ['automation', 'productivity', 'Entrepreneur', 'smallbusiness'],
-    'business-intelligence': [
-      'datascience',
-      'BusinessIntelligence',
-      'analytics',
-      'supplychain',
-    ],
-  };
-  return subredditMap[specId] || ['technology', 'artificial'];
-}
-
-function getArxivCategoriesForSpecialization(specId: string): string[] {
-  const arxivMap: Record<string, string[]> = {
-    'forensic-anthropology': ['cs.CV', 'q-bio.QM', 'cs.AI'],
-    'computational-archaeology': ['cs.CV', 'cs.GR', 'cs.AI', 'eess.IV'],
-    'business-administration': ['cs.AI', 'cs.HC', 'cs.SE'],
-    'business-intelligence': ['cs.LG', 'stat.ML', 'cs.AI', 'cs.DB'],
-  };
-  return arxivMap[specId] || ['cs.AI'];
-}
-
-function getSearchTemplatesForSpecialization(specId: string): string[] {
-  const templateMap: Record<string, string[]> = {
-    'forensic-anthropology': [
-      'AI {topic} forensic anthropology',
-      '{topic} skeletal analysis machine learning',
-      '{topic} morphometric analysis automation',
-    ],
-    'computational-archaeology': [
-      'AI {topic} computational archaeology',
-      '{topic} LiDAR site discovery',
-      '{topic} photogrammetry 3D reconstruction',
-    ],
-    'business-administration': [
-      'AI {topic} workflow automation',
-      '{topic} business process automation',
-      'automate {topic} n8n zapier',
-    ],
-    'business-intelligence': [
-      'AI {topic} business analytics',
-      '{topic} predictive modeling',
-      '{topic} dashboard automation visualization',
-    ],
-  };
-  return templateMap[specId] || ['AI {topic}'];
-}
-
 export default {
   generateAudienceConfig,
   getDefaultAudiences,
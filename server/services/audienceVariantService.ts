@@ -0,0 +1,141 @@
+/**
+ * Audience Variant Service
+ * Works out which version of a newsletter each recipient gets.
+ *
+ * Subscribers and lists can be mapped to audiences (built-in specializations
+ * or custom audiences). A recipient's audiences are their own plus those of
+ * every list they belong to. For a v2 newsletter, a recipient mapped to some
+ * of its audiences gets a variant containing only those audience sections
+ * plus the shared parts; everyone else gets the full newsletter.
+ *
+ * When a send has variants, every variant - the full newsletter included - is
+ * rendered here from the stored newsletter, so all recipients get the same
+ * template and content.
+ */
+
+import * as subscriberDb from './subscriberDbService.ts';
+import * as audienceDb from './audienceDbService.ts';
+import { getDefaultAudiences } from './audienceGenerationService.ts';
+import { newsletterToHtml, getSectionAudienceIds } from './newsletterFormatService.ts';
+import type { NewsletterWithFormat } from './newsletterDbService.ts';
+
+/**
+ * Variant key for the full newsletter
+ */
+export const FULL_VARIANT = 'all';
+
+export interface SendVariant {
+  /** 'all', or the variant's audience IDs sorted, URL-encoded and joined with '+' */
+  key: string;
+  audienceIds: string[];
+  htmlBody: string;
+}
+
+export interface VariantPlan {
+  /** The full newsletter ('all') and every tailored variant in use */
+  variants: SendVariant[];
+  /** Variant key per recipient email */
+  assignments: Record<string, string>;
+}
+
+export interface MappableAudience {
+  id: string;
+  name: string;
+  isCustom: boolean;
+}
+
+/**
+ * Get every audience a subscriber or list can be mapped to
+ */
+export const getMappableAudiences = (): MappableAudience[] => {
+  const builtIn = getDefaultAudiences().map(a => ({ id: a.id, name: a.name, isCustom: false }));
+  const custom = audienceDb.getAllAudiences()
+    .filter(a => !builtIn.some(b => b.id === a.id))
+    .map(a => ({ id: a.id, name: a.name, isCustom: true }));
+  return [...builtIn, ...custom];
+};
+
+/**
+ * Get every audience ID a subscriber or list can be mapped to
+ */
+export const getKnownAudienceIds = (): Set<string> =>
+  new Set(getMappableAudiences().map(a => a.id));
+
+/**
+ * Return the IDs that aren't known audiences
+ */
+export const findUnknownAudienceIds = (audienceIds: string[]): string[] => {
+  const known = getKnownAudienceIds();
+  return audienceIds.filter(id => !known.has(id));
+};
+
+/**
+ * Get a recipient's audiences: their own plus their lists'
+ */
+export const getRecipientAudienceIds = (
+  subscriber: subscriberDb.Subscriber | null,
+  listsById: Map<string, subscriberDb.SubscriberList>
+): string[] => {
+  if (!subscriber) return [];
+
+  const audienceIds = new Set(subscriber.audiences || []);
+  for (const listId of subscriber.lists.split(',').map(l => l.trim()).filter(Boolean)) {
+    listsById.get(listId)?.audiences?.forEach(id => audienceIds.add(id));
+  }
+  return Array.from(audienceIds);
+};
+
+/**
+ * Get the audiences a recipient's variant is tailored to
+ * Recipients with no matching sections, or matching all of them, get the
+ * full newsletter (an empty array).
+ */
+const getVariantAudienceIds = (audienceIds: string[], sectionAudienceIds: string[]): string[] => {
+  const relevant = sectionAudienceIds.filter(id => audienceIds.includes(id)).sort();
+  return relevant.length === sectionAudienceIds.length ? [] : relevant;
+};
+
+/**
+ * Get the variant key for a recipient's audiences
+ * IDs are URL-encoded, so an ID containing '+' can't collide with another combination.
+ */
+export const getVariantKey = (audienceIds: string[], sectionAudienceIds: string[]): string => {
+  const relevant = getVariantAudienceIds(audienceIds, sectionAudienceIds);
+  return relevant.length === 0 ? FULL_VARIANT : relevant.map(encodeURIComponent).join('+');
+};
+
+/**
+ * Plan per-audience variants for a send
+ * Returns null when nobody gets a tailored variant (v1 newsletters, or no
+ * recipient mapped to a subset of the newsletter's audiences).
+ */
+export const planVariants = (newsletter: NewsletterWithFormat, recipients: string[]): VariantPlan | null => {
+  const sectionAudienceIds = getSectionAudienceIds(newsletter);
+  if (sectionAudienceIds.length < 2) return null;
+
+  const listsById = new Map(subscriberDb.getLists().map(list => [list.id, list]));
+  const assignments: Record<string, string> = {};
+  const variantAudiences = new Map<string, string[]>();
+
+  for (const email of recipients) {
+    const audienceIds = getRecipientAudienceIds(subscriberDb.getSubscriberByEmail(email), listsById);
+    const key = getVariantKey(audienceIds, sectionAudienceIds);
+    assignments[email] = key;
+
+    if (key !== FULL_VARIANT && !variantAudiences.has(key)) {
+      variantAudiences.set(key, getVariantAudienceIds(audienceIds, sectionAudienceIds));
+    }
+  }
+
+  if (variantAudiences.size === 0) return null;
+
+  const tailored = Array.from(variantAudiences.entries()).map(([key, audienceIds]) => ({
+    key,
+    audienceIds,
+    htmlBody: newsletterToHtml(newsletter, audienceIds),
+  }));
+  const full = { key: FULL_VARIANT, audienceIds: sectionAudienceIds, htmlBody: newsletterToHtml(newsletter) };
+
+  console.log(`[AudienceVariant] ${tailored.length} tailored variants for ${recipients.length} recipients`);
+  return { variants: [full, ...tailored], assignments };
+};
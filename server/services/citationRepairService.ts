@@ -0,0 +1,314 @@
+/**
+ * Citation Repair Service
+ *
+ * Post-verification repair loop for the V3 pipeline. Sections that don't cite
+ * their allocated sources, or cite URLs that weren't allocated to them, are
+ * repaired in passes until they verify or the attempt limit is reached:
+ *
+ * 1. Links pointing at a mangled version of an allocated URL are replaced
+ *    with it (findClosestUrl); only link targets are rewritten
+ * 2. Sections with links that can't be matched, or no valid citation at all,
+ *    are regenerated with strict citation constraints
+ *
+ * Citations of knowledge base documents verify without allocation and are
+ * never replaced; regenerated sections keep their knowledge base sources.
+ *
+ * The outcome is summarised as a NewsletterVerificationReport that is stored
+ * with the newsletter and shown as per-section badges in the preview.
+ */
+
+import * as newsletterDb from './newsletterDbService.ts';
+import { attributeUsageToNewsletter } from './usageService.ts';
+import { commitRevision } from './newsletterRevisionService.ts';
+import { findClosestUrl, urlsMatch, verifyNewsletter } from './citationVerificationService.ts';
+import { generateAudienceSection } from '../domains/generation/services/singleAudienceSectionGenerator.ts';
+import type { NewsletterVerificationResult, SectionVerificationResult } from './citationVerificationService.ts';
+import type { SourceAllocation } from './sourceAllocationService.ts';
+import type {
+  AudienceConfig,
+  EnhancedAudienceSection,
+  EnhancedNewsletter,
+  NewsletterVerificationReport,
+  SectionGenerationInput,
+  SectionVerificationReport,
+  SourceWithContent,
+} from '../../types.ts';
+
+// Tone the V3 pipeline defaults to
+const DEFAULT_TONE = 'confident';
+
+export interface CitationRepairOptions {
+  /** Repair passes to run before giving up (0 only builds the report) */
+  maxAttempts: number;
+  /** Used to regenerate sections that have no saved generation inputs */
+  audiences: AudienceConfig[];
+  tone?: string;
+  flavors?: string[];
+  personaId?: string;
+  onProgress?: (message: string) => void;
+}
+
+export interface CitationRepairResult {
+  newsletter: EnhancedNewsletter;
+  /** Verification of the repaired newsletter */
+  verification: NewsletterVerificationResult;
+  report: NewsletterVerificationReport;
+  /** Audience sections whose content changed */
+  repairedAudienceIds: string[];
+}
+
+interface SectionRepairLog {
+  replacedUrls: { from: string; to: string }[];
+  regenerations: number;
+}
+
+/**
+ * Whether a verified section still needs repair
+ */
+const needsRepair = (result: SectionVerificationResult): boolean =>
+  result.allocatedUrls.length > 0 && (!result.isValid || result.unauthorizedCitations.length > 0);
+
+/**
+ * Sources allocated to one audience, in the shape the section generator takes
+ */
+const allocatedSourcesFor = (audienceId: string, allocations: SourceAllocation[]): SourceWithContent[] => {
+  const sources: SourceWithContent[] = [];
+
+  for (const allocation of allocations.filter(a => a.audienceId === audienceId)) {
+    for (const source of allocation.sources) {
+      if (sources.some(s => urlsMatch(s.url, source.url))) continue;
+      sources.push({
+        url: source.url,
+        title: source.title,
+        content: 'content' in source ? source.content : undefined,
+        snippet: source.snippet,
+        publication: source.source,
+      });
+    }
+  }
+
+  return sources;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Swap a URL where it is a link target: href="..." or a markdown [text](...)
+ * Only whole targets are replaced, so longer URLs that merely start with
+ * `from` and URLs in the link text are left alone.
+ */
+const replaceLinkTargets = (content: string, from: string, to: string): string => {
+  const url = escapeRegExp(from);
+  return content
+    .replace(new RegExp(`(href\\s*=\\s*)(["'])${url}\\2`, 'gi'), (_match, attr: string, quote: string) => `${attr}${quote}${to}${quote}`)
+    .replace(new RegExp(`(\\]\\(\\s*<?)${url}(?=>?(?:\\s+"[^"]*")?\\s*\\))`, 'g'), (_match, open: string) => `${open}${to}`);
+};
+
+/**
+ * Swap URLs in a section's content links and sources list
+ */
+const replaceSectionUrls = (
+  section: EnhancedAudienceSection,
+  replacements: { from: string; to: string }[],
+  allocatedSources: SourceWithContent[]
+): EnhancedAudienceSection => {
+  let content = section.content;
+  for (const { from, to } of replacements) {
+    content = replaceLinkTargets(content, from, to);
+  }
+
+  const sources: EnhancedAudienceSection['sources'] = [];
+  for (const source of section.sources || []) {
+    const replacement = replacements.find(r => r.from === source.url);
+    const url = replacement ? replacement.to : source.url;
+    if (sources.some(s => urlsMatch(s.url, url))) continue;
+
+    if (!replacement) {
+      sources.push(source);
+      continue;
+    }
+    const allocated = allocatedSources.find(s => urlsMatch(s.url, url));
+    sources.push({ url, title: allocated ? allocated.title : source.title });
+  }
+
+  return { ...section, content, sources };
+};
+
+/**
+ * Inputs to regenerate a section with: the ones it was written from when
+ * saved, otherwise rebuilt from the request. Sources are the allocated ones
+ * plus any knowledge base sources the section was written with.
+ */
+const resolveRegenerationInput = (
+  newsletterId: string | undefined,
+  section: EnhancedAudienceSection,
+  allocations: SourceAllocation[],
+  options: CitationRepairOptions
+): SectionGenerationInput | null => {
+  const sources = allocatedSourcesFor(section.audienceId, allocations);
+  const saved = newsletterId ? newsletterDb.getSectionInput(newsletterId, section.audienceId) : null;
+  if (saved) return { ...saved, sources: [...sources, ...saved.sources.filter(s => s.kbDocumentId)] };
+
+  const audience = options.audiences.find(a => a.id === section.audienceId);
+  if (!audience) return null;
+
+  const topics = [...new Set(allocations.filter(a => a.audienceId === audience.id).map(a => a.topic))];
+
+  return {
+    audience,
+    topics: (topics.length > 0 ? topics : [section.title]).map(title => ({ title, audienceId: audience.id })),
+    sources,
+    tone: options.tone || DEFAULT_TONE,
+    flavors: options.flavors || [],
+    personaId: options.personaId,
+  };
+};
+
+/**
+ * Summarise the final verification per section
+ */
+const buildReport = (
+  verification: NewsletterVerificationResult,
+  logs: Map<string, SectionRepairLog>,
+  repairAttempts: number
+): NewsletterVerificationReport => {
+  const sections: SectionVerificationReport[] = verification.sectionResults.map((result) => {
+    const log = logs.get(result.audienceId);
+    const changed = !!log && (log.replacedUrls.length > 0 || log.regenerations > 0);
+    // Sections without allocated sources can still verify on knowledge base citations alone
+    const unallocated = result.allocatedUrls.length === 0 && result.knowledgeBaseCitations.length === 0;
+    const failed = unallocated || needsRepair(result) || result.unauthorizedCitations.length > 0;
+
+    return {
+      audienceId: result.audienceId,
+      audienceName: result.audienceName,
+      status: failed ? 'unverified' : changed ? 'repaired' : 'verified',
+      validCitations: result.validCitations.length,
+      knowledgeBaseCitations: result.knowledgeBaseCitations.length,
+      unverifiedUrls: unallocated ? result.citedUrls : result.unauthorizedCitations,
+      replacedUrls: log?.replacedUrls || [],
+      regenerations: log?.regenerations || 0,
+      issues: unallocated ? ['No sources were allocated to this audience'] : result.issues,
+    };
+  });
+
+  return {
+    isValid: sections.every(s => s.status !== 'unverified'),
+    repairAttempts,
+    sections,
+    verifiedAt: verification.verifiedAt,
+  };
+};
+
+/**
+ * Repair a newsletter's citations until every section verifies or the
+ * attempt limit is reached
+ *
+ * @param verification - Verification of the newsletter as generated
+ */
+export const repairNewsletterCitations = async (
+  newsletter: EnhancedNewsletter,
+  allocations: SourceAllocation[],
+  verification: NewsletterVerificationResult,
+  options: CitationRepairOptions
+): Promise<CitationRepairResult> => {
+  const logs = new Map<string, SectionRepairLog>();
+  let current = newsletter;
+  let latest = verification;
+  let attempts = 0;
+
+  while (attempts < options.maxAttempts) {
+    const failing = latest.sectionResults.filter(needsRepair);
+    if (failing.length === 0) break;
+
+    attempts++;
+    options.onProgress?.(`Repair attempt ${attempts}/${options.maxAttempts}: ${failing.length} section(s) failing`);
+
+    const audienceSections = [...current.audienceSections];
+    for (const result of failing) {
+      const index = audienceSections.findIndex(s => s.audienceId === result.audienceId);
+      if (index === -1) continue;
+
+      const section = audienceSections[index];
+      const log = logs.get(result.audienceId) || { replacedUrls: [], regenerations: 0 };
+      logs.set(result.audienceId, log);
+
+      const allocatedSources = allocatedSourcesFor(result.audienceId, allocations);
+      // A link replaced in an earlier pass that still fails wasn't a link target
+      // (e.g. a bare URL in the text), so it counts as unmatched
+      const replacements = result.unauthorizedCitations.flatMap((from) => {
+        if (log.replacedUrls.some(r => r.from === from)) return [];
+        const to = findClosestUrl(from, result.allocatedUrls);
+        return to ? [{ from, to }] : [];
+      });
+
+      // Every bad link has a close allocated match: swap them in place
+      if (replacements.length > 0 && replacements.length === result.unauthorizedCitations.length) {
+        audienceSections[index] = replaceSectionUrls(section, replacements, allocatedSources);
+        log.replacedUrls.push(...replacements);
+        console.log(`[CitationRepair] Replaced ${replacements.length} link(s) in ${result.audienceName}`);
+        continue;
+      }
+
+      // Otherwise regenerate the section, restricted to its allocated sources
+      const input = resolveRegenerationInput(current.id, section, allocations, options);
+      if (!input) {
+        console.warn(`[CitationRepair] No inputs to regenerate ${result.audienceName}, leaving it unverified`);
+        continue;
+      }
+
+      try {
+        if (current.id) attributeUsageToNewsletter(current.id);
+        const regenerated = await generateAudienceSection({
+          ...input,
+          strictCitations: { rejectedUrls: result.unauthorizedCitations },
+        });
+        // Keep the current image until a new one is generated for the new prompt
+        audienceSections[index] = { ...regenerated.section, imageUrl: section.imageUrl };
+        log.regenerations++;
+        console.log(`[CitationRepair] Regenerated ${result.audienceName} with strict citations`);
+      } catch (error) {
+        console.error(`[CitationRepair] Failed to regenerate ${result.audienceName}:`, error);
+      }
+    }
+
+    current = { ...current, audienceSections };
+    latest = verifyNewsletter(current, allocations);
+  }
+
+  const report = buildReport(latest, logs, attempts);
+  const repairedAudienceIds = report.sections
+    .filter(s => s.replacedUrls.length > 0 || s.regenerations > 0)
+    .map(s => s.audienceId);
+
+  return {
+    newsletter: { ...current, verificationReport: report },
+    verification: latest,
+    report,
+    repairedAudienceIds,
+  };
+};
+
+/**
+ * Write repaired sections and the verification report to a saved newsletter
+ * (repairs are recorded as one citation_repair revision)
+ *
+ * @returns false if the newsletter doesn't exist
+ */
+export const saveCitationRepair = (newsletterId: string, result: CitationRepairResult): boolean => {
+  for (const audienceId of result.repairedAudienceIds) {
+    const section = result.newsletter.audienceSections.find(s => s.audienceId === audienceId);
+    if (section) newsletterDb.updateEnhancedSection(newsletterId, audienceId, section);
+  }
+
+  if (!newsletterDb.setVerificationReport(newsletterId, result.report)) return false;
+
+  if (result.repairedAudienceIds.length > 0) {
+    commitRevision(newsletterId, 'citation_repair', 'citations_repaired', {
+      audienceIds: result.repairedAudienceIds,
+      repairAttempts: result.report.repairAttempts,
+      isValid: result.report.isValid,
+    });
+  }
+  return true;
+};
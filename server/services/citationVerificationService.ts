@@ -11,10 +11,18 @@
  * 2. No sources are cited that weren't allocated to that audience
  * 3. Source URLs are valid and match the allocated URLs
  * 4. Source diversity is maintained across audience sections
+ *
+ * Citations of indexed knowledge base documents (see
+ * knowledgeBaseGroundingService) count as verified even though they were not
+ * allocated, and are left out of the diversity check.
  */
 
 import type { EnhancedNewsletter } from '../../types';
 import type { SourceAllocation, AllocationResult } from './sourceAllocationService';
+import * as ragDb from './ragDbService';
+
+// Share of path segments a URL must exceed to count as close
+const MIN_CLOSEST_URL_OVERLAP = 0.5;
 
 /**
  * Result of verifying a single audience section
@@ -26,8 +34,10 @@ export interface SectionVerificationResult {
   allocatedUrls: string[];
   /** URLs actually cited in the content */
   citedUrls: string[];
-  /** Allocated URLs that were cited (intersection) */
+  /** Allocated URLs and knowledge base documents that were cited */
   validCitations: string[];
+  /** Cited URLs that are indexed knowledge base documents (subset of validCitations) */
+  knowledgeBaseCitations: string[];
   /** Allocated URLs that were NOT cited */
   missedAllocations: string[];
   /** URLs cited that were NOT allocated (violations) */
@@ -149,6 +159,65 @@ export function findMatchingUrl(url: string, urlSet: string[]): string | undefin
   return urlSet.find((u) => normalizeUrl(u) === normalized);
 }
 
+/**
+ * Find the closest URL in a set: an exact match (with normalization) first,
+ * otherwise the URL on the same host sharing the most path segments
+ *
+ * Used to repair citations that point at the right site but a mangled page.
+ * URLs on other hosts are never considered close, and neither are URLs that
+ * share no more than half their path segments - an invented page on the same
+ * site (e.g. github.com/made/up) is not a typo of an allocated one.
+ *
+ * @param url - URL to find
+ * @param urlSet - Set of URLs to search
+ * @returns The closest URL from the set, or undefined
+ */
+export function findClosestUrl(url: string, urlSet: string[]): string | undefined {
+  const exact = findMatchingUrl(url, urlSet);
+  if (exact) return exact;
+
+  let target: URL;
+  try {
+    target = new URL(normalizeUrl(url));
+  } catch {
+    return undefined;
+  }
+  const targetSegments = target.pathname.split('/').filter(Boolean);
+
+  let closest: string | undefined;
+  let bestScore = MIN_CLOSEST_URL_OVERLAP;
+  for (const candidate of urlSet) {
+    let parsed: URL;
+    try {
+      parsed = new URL(normalizeUrl(candidate));
+    } catch {
+      continue;
+    }
+    if (parsed.hostname !== target.hostname) continue;
+
+    const segments = parsed.pathname.split('/').filter(Boolean);
+    const shared = segments.filter((segment) => targetSegments.includes(segment)).length;
+    const score = shared / Math.max(segments.length, targetSegments.length, 1);
+    if (score > bestScore) {
+      bestScore = score;
+      closest = candidate;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Whether a cited URL is an indexed knowledge base document: either the
+ * citation carries a document ID, or the URL is an indexed document's source URL
+ */
+function isKnowledgeBaseCitation(url: string, kbDocumentId: string | undefined, indexedSourceUrls: string[]): boolean {
+  if (kbDocumentId) {
+    return ragDb.getDocumentById(kbDocumentId)?.status === 'indexed';
+  }
+  return !!findMatchingUrl(url, indexedSourceUrls);
+}
+
 /**
  * Verify a single audience section's citations
  *
@@ -161,7 +230,7 @@ export function verifySectionCitations(
     audienceId: string;
     audienceName: string;
     content: string;
-    sources?: Array<{ url: string; title: string }>;
+    sources?: Array<{ url: string; title: string; kbDocumentId?: string }>;
   },
   allocations: SourceAllocation[]
 ): SectionVerificationResult {
@@ -176,14 +245,20 @@ export function verifySectionCitations(
   const sourcesArrayUrls = (section.sources || []).map((s) => s.url);
   const allCitedUrls = [...new Set([...contentUrls, ...sourcesArrayUrls])];
 
-  // Check each cited URL against allocations
+  // Check each cited URL against allocations, then the knowledge base
   const validCitations: string[] = [];
+  const knowledgeBaseCitations: string[] = [];
   const unauthorizedCitations: string[] = [];
+  const indexedSourceUrls = ragDb.getIndexedSourceUrls();
 
   for (const citedUrl of allCitedUrls) {
     const matchingAllocation = findMatchingUrl(citedUrl, allocatedUrls);
+    const kbDocumentId = section.sources?.find((s) => s.url === citedUrl)?.kbDocumentId;
     if (matchingAllocation) {
       validCitations.push(citedUrl);
+    } else if (isKnowledgeBaseCitation(citedUrl, kbDocumentId, indexedSourceUrls)) {
+      validCitations.push(citedUrl);
+      knowledgeBaseCitations.push(citedUrl);
     } else {
       unauthorizedCitations.push(citedUrl);
     }
@@ -218,6 +293,7 @@ export function verifySectionCitations(
     allocatedUrls,
     citedUrls: allCitedUrls,
     validCitations,
+    knowledgeBaseCitations,
     missedAllocations,
     unauthorizedCitations,
     isValid: validCitations.length > 0 || allocatedUrls.length === 0,
@@ -236,12 +312,16 @@ export function verifySourceDiversity(
 ): DiversityVerificationResult {
   const issues: string[] = [];
 
-  // Collect all cited URLs per section
+  // Collect all cited URLs per section (knowledge base documents may be shared)
   const citedUrlsBySection = new Map<string, Set<string>>();
   for (const result of sectionResults) {
     citedUrlsBySection.set(
       result.audienceId,
-      new Set(result.citedUrls.map((u) => normalizeUrl(u)))
+      new Set(
+        result.citedUrls
+          .filter((u) => !result.knowledgeBaseCitations.includes(u))
+          .map((u) => normalizeUrl(u))
+      )
     );
   }
 
@@ -266,7 +346,10 @@ export function verifySourceDiversity(
   }
 
   // Calculate diversity metrics
-  const totalCitations = sectionResults.reduce((sum, r) => sum + r.citedUrls.length, 0);
+  const totalCitations = sectionResults.reduce(
+    (sum, r) => sum + r.citedUrls.length - r.knowledgeBaseCitations.length,
+    0
+  );
   const uniqueUrlCount = urlCounts.size;
   const duplicateCount = duplicatedUrls.length;
 
@@ -370,6 +453,8 @@ export function quickVerify(
   newsletter: EnhancedNewsletter,
   allocations: SourceAllocation[]
 ): boolean {
+  const indexedSourceUrls = ragDb.getIndexedSourceUrls();
+
   // Check each section cites at least one of its allocated sources
   for (const section of newsletter.audienceSections || []) {
     const audienceAllocations = allocations.filter((a) => a.audienceId === section.audienceId);
@@ -381,10 +466,15 @@ export function quickVerify(
     const sourcesArrayUrls = (section.sources || []).map((s) => s.url);
     const allCitedUrls = [...contentUrls, ...sourcesArrayUrls];
 
-    // Check if at least one allocated URL was cited
+    // Check if at least one allocated URL (or indexed knowledge base document) was cited,
+    // with the same knowledge base check as verifySectionCitations
     const hasCitation = allocatedUrls.some((allocUrl) =>
       allCitedUrls.some((cited) => urlsMatch(cited, allocUrl))
-    );
+    ) || allCitedUrls.some((cited) => isKnowledgeBaseCitation(
+      cited,
+      section.sources?.find((s) => s.url === cited)?.kbDocumentId,
+      indexedSourceUrls
+    ));
 
     if (!hasCitation) {
       return false;
@@ -399,6 +489,7 @@ export default {
   normalizeUrl,
   urlsMatch,
   findMatchingUrl,
+  findClosestUrl,
   verifySectionCitations,
   verifySourceDiversity,
   verifyNewsletter,
@@ -0,0 +1,262 @@
+/**
+ * Email Transport Service
+ * Pluggable delivery for outgoing email: Gmail API, generic SMTP relay,
+ * or a local outbox that writes .eml files (for testing).
+ *
+ * The transport is chosen per sending user from user_settings.settings_json;
+ * the SMTP password is stored through apiKeyDbService ('smtp_password').
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import nodemailer from 'nodemailer';
+import db from '../db/init.ts';
+import * as gmailService from './googleGmailService.ts';
+import { getApiKey } from './apiKeyDbService.ts';
+
+// Types
+export type EmailTransportType = 'gmail' | 'smtp' | 'outbox';
+
+export const EMAIL_TRANSPORT_TYPES: EmailTransportType[] = ['gmail', 'smtp', 'outbox'];
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  htmlBody: string;
+  from?: string;
+  /** Extra RFC 2822 headers (e.g. List-Unsubscribe) */
+  headers?: Record<string, string>;
+}
+
+export interface SendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  /** Temporary failure (rate limit, server or network error) worth retrying later */
+  retryable?: boolean;
+}
+
+export interface EmailTransport {
+  type: EmailTransportType;
+  send: (message: EmailMessage) => Promise<SendResult>;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465); STARTTLS is negotiated otherwise */
+  secure: boolean;
+  username: string | null;
+  /** From address when it differs from the sending user (e.g. newsletter@company.com) */
+  fromAddress: string | null;
+}
+
+export interface EmailTransportSettings {
+  transport: EmailTransportType;
+  smtp: SmtpSettings | null;
+}
+
+// Written next to the database; one .eml file per message
+const OUTBOX_DIR = path.join(process.cwd(), 'data', 'outbox');
+
+// =============================================================================
+// SETTINGS
+// =============================================================================
+
+/**
+ * Default transport when the user hasn't chosen one (EMAIL_TRANSPORT env, else Gmail)
+ */
+const getDefaultTransportType = (): EmailTransportType => {
+  const fromEnv = process.env.EMAIL_TRANSPORT as EmailTransportType | undefined;
+  return fromEnv && EMAIL_TRANSPORT_TYPES.includes(fromEnv) ? fromEnv : 'gmail';
+};
+
+const readSettingsJson = (userEmail: string): Record<string, unknown> => {
+  const row = db
+    .prepare('SELECT settings_json FROM user_settings WHERE user_email = ?')
+    .get(userEmail) as { settings_json: string | null } | undefined;
+
+  if (!row?.settings_json) return {};
+
+  try {
+    return JSON.parse(row.settings_json);
+  } catch {
+    console.warn(`[EmailTransport] Ignoring malformed settings_json for ${userEmail}`);
+    return {};
+  }
+};
+
+/**
+ * Get the email transport settings for a user
+ */
+export const getTransportSettings = (userEmail: string): EmailTransportSettings => {
+  const stored = readSettingsJson(userEmail).emailTransport as Partial<EmailTransportSettings> | undefined;
+
+  return {
+    transport: stored?.transport && EMAIL_TRANSPORT_TYPES.includes(stored.transport)
+      ? stored.transport
+      : getDefaultTransportType(),
+    smtp: stored?.smtp || null,
+  };
+};
+
+/**
+ * Save the email transport settings for a user
+ * Other keys in settings_json are preserved.
+ */
+export const updateTransportSettings = (
+  userEmail: string,
+  settings: EmailTransportSettings
+): EmailTransportSettings => {
+  const settingsJson = { ...readSettingsJson(userEmail), emailTransport: settings };
+
+  db.prepare(`
+    INSERT INTO user_settings (user_email, settings_json, updated_at)
+    VALUES (?, ?, datetime('now'))
+    ON CONFLICT(user_email) DO UPDATE SET
+      settings_json = excluded.settings_json,
+      updated_at = datetime('now')
+  `).run(userEmail, JSON.stringify(settingsJson));
+
+  console.log(`[EmailTransport] Updated transport for ${userEmail}: ${settings.transport}`);
+  return getTransportSettings(userEmail);
+};
+
+// =============================================================================
+// TRANSPORTS
+// =============================================================================
+
+const createGmailTransport = (userEmail: string): EmailTransport => ({
+  type: 'gmail',
+  send: (message) => gmailService.sendEmail(userEmail, message),
+});
+
+/**
+ * Create a nodemailer transporter for the user's SMTP relay
+ * Throws if SMTP isn't configured.
+ */
+export const createSmtpTransporter = (userEmail: string, smtp: SmtpSettings | null) => {
+  if (!smtp?.host) {
+    throw new Error('SMTP transport selected but no SMTP host is configured');
+  }
+
+  const password = getApiKey(userEmail, 'smtp_password');
+
+  return nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: smtp.username ? { user: smtp.username, pass: password || '' } : undefined,
+  });
+};
+
+// nodemailer error codes for connection-level failures
+const RETRYABLE_SMTP_CODES = ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS'];
+
+/**
+ * 4xx SMTP replies (e.g. 421 too many connections, 451 try again) and
+ * connection failures are temporary; 5xx replies are permanent
+ */
+const isRetryableSmtpError = (error: unknown): boolean => {
+  const { responseCode, code } = error as { responseCode?: number; code?: string };
+  if (responseCode) return responseCode >= 400 && responseCode < 500;
+  return !!code && RETRYABLE_SMTP_CODES.includes(code);
+};
+
+const createSmtpTransport = (userEmail: string, smtp: SmtpSettings | null): EmailTransport => {
+  const transporter = createSmtpTransporter(userEmail, smtp);
+  const defaultFrom = smtp?.fromAddress || userEmail;
+
+  return {
+    type: 'smtp',
+    send: async (message) => {
+      try {
+        const info = await transporter.sendMail({
+          from: message.from || defaultFrom,
+          to: message.to,
+          subject: message.subject,
+          html: message.htmlBody,
+          headers: message.headers,
+        });
+
+        console.log('[EmailTransport] SMTP email sent:', info.messageId);
+        return { success: true, messageId: info.messageId };
+      } catch (error) {
+        console.error('[EmailTransport] SMTP send error:', error);
+        return {
+          success: false,
+          error: (error as Error).message || 'Failed to send email',
+          retryable: isRetryableSmtpError(error),
+        };
+      }
+    },
+  };
+};
+
+const createOutboxTransport = (userEmail: string): EmailTransport => {
+  // streamTransport renders the full MIME message without delivering it
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  return {
+    type: 'outbox',
+    send: async (message) => {
+      try {
+        const info = await transporter.sendMail({
+          from: message.from || userEmail,
+          to: message.to,
+          subject: message.subject,
+          html: message.htmlBody,
+          headers: message.headers,
+        });
+
+        fs.mkdirSync(OUTBOX_DIR, { recursive: true });
+        const recipient = (Array.isArray(message.to) ? message.to[0] : message.to).replace(/[^a-zA-Z0-9@._-]/g, '_');
+        const fileName = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}_${recipient}.eml`;
+        fs.writeFileSync(path.join(OUTBOX_DIR, fileName), info.message as Buffer);
+
+        console.log(`[EmailTransport] Wrote outbox message: ${fileName}`);
+        return { success: true, messageId: info.messageId };
+      } catch (error) {
+        console.error('[EmailTransport] Outbox write error:', error);
+        return { success: false, error: (error as Error).message || 'Failed to write outbox message' };
+      }
+    },
+  };
+};
+
+/**
+ * Get the configured transport for a sending user
+ */
+export const getTransport = (userEmail: string): EmailTransport => {
+  const settings = getTransportSettings(userEmail);
+
+  switch (settings.transport) {
+    case 'smtp':
+      return createSmtpTransport(userEmail, settings.smtp);
+    case 'outbox':
+      return createOutboxTransport(userEmail);
+    case 'gmail':
+    default:
+      return createGmailTransport(userEmail);
+  }
+};
+
+/**
+ * Get the outbox directory used by the outbox transport
+ */
+export const getOutboxDir = (): string => OUTBOX_DIR;
+
+// =============================================================================
+// SENDING
+// =============================================================================
+
+/**
+ * Send a single email through the user's configured transport
+ */
+export const sendEmail = async (userEmail: string, message: EmailMessage): Promise<SendResult> => {
+  try {
+    return await getTransport(userEmail).send(message);
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+};
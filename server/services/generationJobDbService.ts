@@ -0,0 +1,231 @@
+/**
+ * Generation Job Database Service
+ * Persisted newsletter generation runs and their checkpoints
+ */
+
+import db from '../db/init.ts';
+
+// Types
+export type GenerationPipeline = 'v4' | 'enhanced';
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface GenerationJob {
+  id: string;
+  pipeline: GenerationPipeline;
+  status: GenerationJobStatus;
+  /** The generation request, as posted by the client */
+  request: Record<string, unknown>;
+  /** Pipeline phase last reported (V4 phases, or 'generating' for the enhanced pipeline) */
+  phase: string | null;
+  message: string | null;
+  newsletterId: string | null;
+  /** Response payload once completed (same shape as the pipeline's JSON route) */
+  result: Record<string, unknown> | null;
+  errorMessage: string | null;
+  /** Number of times the job has been started (1 + resumes) */
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+interface DbGenerationJobRow {
+  id: string;
+  pipeline: string;
+  status: string;
+  request: string;
+  phase: string | null;
+  message: string | null;
+  newsletter_id: string | null;
+  result: string | null;
+  error_message: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface DbCheckpointRow {
+  job_id: string;
+  stage: string;
+  data: string;
+  created_at: string;
+}
+
+const TERMINAL_STATUSES: GenerationJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Convert database row to GenerationJob object
+ */
+const rowToJob = (row: DbGenerationJobRow): GenerationJob => ({
+  id: row.id,
+  pipeline: row.pipeline as GenerationPipeline,
+  status: row.status as GenerationJobStatus,
+  request: JSON.parse(row.request),
+  phase: row.phase,
+  message: row.message,
+  newsletterId: row.newsletter_id,
+  result: row.result ? JSON.parse(row.result) : null,
+  errorMessage: row.error_message,
+  attempts: row.attempts,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at,
+});
+
+// =============================================================================
+// JOBS
+// =============================================================================
+
+/**
+ * Create a queued generation job
+ */
+export const createJob = (pipeline: GenerationPipeline, request: Record<string, unknown>): GenerationJob => {
+  const id = `gjob_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  db.prepare(`
+    INSERT INTO generation_jobs (id, pipeline, status, request, message)
+    VALUES (?, ?, 'queued', ?, 'Queued')
+  `).run(id, pipeline, JSON.stringify(request));
+
+  console.log(`[GenerationJobDb] Created ${pipeline} job ${id}`);
+  return getJobById(id)!;
+};
+
+/**
+ * Get generation job by ID
+ */
+export const getJobById = (id: string): GenerationJob | null => {
+  const row = db
+    .prepare('SELECT * FROM generation_jobs WHERE id = ?')
+    .get(id) as DbGenerationJobRow | undefined;
+
+  if (!row) return null;
+  return rowToJob(row);
+};
+
+/**
+ * Get recent jobs (newest first), optionally only those with given statuses
+ */
+export const getJobs = (limit = 20, statuses?: GenerationJobStatus[]): GenerationJob[] => {
+  const where = statuses && statuses.length > 0
+    ? `WHERE status IN (${statuses.map(() => '?').join(', ')})`
+    : '';
+
+  const rows = db
+    .prepare(`SELECT * FROM generation_jobs ${where} ORDER BY created_at DESC, id DESC LIMIT ?`)
+    .all(...(statuses || []), limit) as DbGenerationJobRow[];
+
+  return rows.map(rowToJob);
+};
+
+/**
+ * Get queued jobs, oldest first (the order they are started in)
+ */
+export const getQueuedJobs = (limit: number): GenerationJob[] => {
+  const rows = db
+    .prepare(`SELECT * FROM generation_jobs WHERE status = 'queued' ORDER BY created_at ASC, rowid ASC LIMIT ?`)
+    .all(limit) as DbGenerationJobRow[];
+
+  return rows.map(rowToJob);
+};
+
+/**
+ * Mark a job as running (counts an attempt and clears the previous error)
+ */
+export const markJobRunning = (id: string): GenerationJob | null => {
+  db.prepare(`
+    UPDATE generation_jobs
+    SET status = 'running', attempts = attempts + 1, error_message = NULL,
+        completed_at = NULL, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(id);
+
+  return getJobById(id);
+};
+
+/**
+ * Record the phase a running job has reached
+ */
+export const updateJobProgress = (id: string, phase: string, message: string): void => {
+  db.prepare(`
+    UPDATE generation_jobs SET phase = ?, message = ?, updated_at = datetime('now') WHERE id = ?
+  `).run(phase, message, id);
+};
+
+/**
+ * Move a job to a new status
+ * Terminal statuses (completed, failed, cancelled) also set completed_at.
+ */
+export const updateJobStatus = (
+  id: string,
+  status: GenerationJobStatus,
+  fields: {
+    message?: string;
+    newsletterId?: string | null;
+    result?: Record<string, unknown> | null;
+    errorMessage?: string | null;
+  } = {}
+): GenerationJob | null => {
+  const existing = getJobById(id);
+  if (!existing) return null;
+
+  db.prepare(`
+    UPDATE generation_jobs
+    SET status = ?, message = ?, newsletter_id = ?, result = ?, error_message = ?,
+        completed_at = ${TERMINAL_STATUSES.includes(status) ? "datetime('now')" : 'NULL'},
+        updated_at = datetime('now')
+    WHERE id = ?
+  `).run(
+    status,
+    fields.message !== undefined ? fields.message : existing.message,
+    fields.newsletterId !== undefined ? fields.newsletterId : existing.newsletterId,
+    fields.result !== undefined ? (fields.result ? JSON.stringify(fields.result) : null) : (existing.result ? JSON.stringify(existing.result) : null),
+    fields.errorMessage !== undefined ? fields.errorMessage : existing.errorMessage,
+    id
+  );
+
+  return getJobById(id);
+};
+
+/**
+ * Mark jobs left queued or running by a previous process as interrupted
+ * (they can be resumed from their checkpoints)
+ */
+export const recoverInterruptedJobs = (): number => {
+  const result = db.prepare(`
+    UPDATE generation_jobs
+    SET status = 'interrupted', message = 'Interrupted by a server restart', updated_at = datetime('now')
+    WHERE status IN ('queued', 'running')
+  `).run();
+
+  if (result.changes > 0) {
+    console.log(`[GenerationJobDb] Marked ${result.changes} interrupted jobs`);
+  }
+  return result.changes;
+};
+
+// =============================================================================
+// CHECKPOINTS
+// =============================================================================
+
+/**
+ * Save (or replace) a job checkpoint
+ */
+export const saveCheckpoint = (jobId: string, stage: string, data: unknown): void => {
+  db.prepare(`
+    INSERT OR REPLACE INTO generation_job_checkpoints (job_id, stage, data)
+    VALUES (?, ?, ?)
+  `).run(jobId, stage, JSON.stringify(data));
+};
+
+/**
+ * Get a job's checkpoints keyed by stage
+ */
+export const getCheckpoints = (jobId: string): Record<string, unknown> => {
+  const rows = db
+    .prepare('SELECT * FROM generation_job_checkpoints WHERE job_id = ? ORDER BY created_at ASC')
+    .all(jobId) as DbCheckpointRow[];
+
+  return Object.fromEntries(rows.map(row => [row.stage, JSON.parse(row.data)]));
+};
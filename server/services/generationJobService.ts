@@ -0,0 +1,316 @@
+/**
+ * Generation Job Service
+ * Runs newsletter generation as background jobs that outlive the HTTP request,
+ * so closing the tab or a request timeout doesn't lose a multi-minute run.
+ *
+ * V4 jobs checkpoint their balanced topics, source allocations and each
+ * finished section; resuming a job skips whatever was already checkpointed.
+ * Enhanced (V2) jobs run as a single step: a cancel takes effect once the
+ * generator returns, and resuming starts them over.
+ */
+
+import * as jobDb from './generationJobDbService.ts';
+import * as newsletterDb from './newsletterDbService.ts';
+import * as usageService from './usageService.ts';
+import {
+  generateNewsletterPerAudience,
+  buildPerAudienceParams,
+  serializePerAudienceResult,
+  DEFAULT_ORCHESTRATOR_CONFIG,
+  type PerAudienceRequest,
+  type PipelineCheckpoint,
+  type PipelineCheckpointStage,
+} from '../domains/generation/services/perAudienceNewsletterGenerator.ts';
+import {
+  generateEnhancedNewsletter,
+  type GenerateEnhancedNewsletterParams,
+} from '../domains/generation/services/enhancedGenerator.ts';
+import { withContext, createContext } from '../control-plane/invocation/contextManager.ts';
+import type { LlmStage } from '../external/llm/types.ts';
+import type { AudienceSectionResult, EnhancedAudienceSection } from '../../types.ts';
+
+// Jobs beyond this wait in 'queued' until a running job finishes
+const MAX_CONCURRENT_JOBS = 2;
+
+// LLM stages used by the v4 and enhanced pipelines (for the budget check)
+export const JOB_STAGES: LlmStage[] = ['topic_agents', 'section_writer', 'shared_elements'];
+
+// Jobs currently running in this process
+const activeJobs = new Set<string>();
+// Running jobs the user asked to cancel
+const cancelRequests = new Set<string>();
+
+const RESUMABLE_STATUSES: jobDb.GenerationJobStatus[] = ['failed', 'cancelled', 'interrupted'];
+
+export interface GenerationJobStatus extends jobDb.GenerationJob {
+  /** Finished sections so far (V4 jobs), in the request's audience order */
+  sections: EnhancedAudienceSection[];
+  /** Checkpointed stages ('balance', 'sources', 'section:<audienceId>') */
+  checkpoints: string[];
+  /** Whether a cancel was requested and the job hasn't stopped yet */
+  cancelRequested: boolean;
+}
+
+/**
+ * Convert stored checkpoints into the pipeline's checkpoint shape
+ */
+const toPipelineCheckpoint = (stored: Record<string, unknown>): PipelineCheckpoint => {
+  const checkpoint: PipelineCheckpoint = {};
+
+  for (const [stage, data] of Object.entries(stored)) {
+    if (stage === 'balance') {
+      checkpoint.balance = data as PipelineCheckpoint['balance'];
+    } else if (stage === 'sources') {
+      checkpoint.sources = data as PipelineCheckpoint['sources'];
+    } else if (stage.startsWith('section:')) {
+      checkpoint.sections = { ...checkpoint.sections, [stage.slice('section:'.length)]: data as AudienceSectionResult };
+    }
+  }
+
+  return checkpoint;
+};
+
+/**
+ * Checkpoint key for a pipeline artifact
+ */
+const getCheckpointKey = (stage: PipelineCheckpointStage, data: unknown): string =>
+  stage === 'section' ? `section:${(data as AudienceSectionResult).audienceId}` : stage;
+
+/**
+ * Run a V4 job through the per-audience pipeline, resuming from its checkpoints
+ */
+const runPerAudienceJob = async (job: jobDb.GenerationJob): Promise<void> => {
+  const request = job.request as unknown as PerAudienceRequest;
+
+  const result = await generateNewsletterPerAudience(
+    buildPerAudienceParams(request),
+    DEFAULT_ORCHESTRATOR_CONFIG,
+    request.mismatchResolutions,
+    {
+      checkpoint: toPipelineCheckpoint(jobDb.getCheckpoints(job.id)),
+      onCheckpoint: (stage, data) => jobDb.saveCheckpoint(job.id, getCheckpointKey(stage, data), data),
+      onProgress: (event) => jobDb.updateJobProgress(job.id, event.phase, event.message),
+      isCancelled: () => cancelRequests.has(job.id),
+    }
+  );
+
+  if (cancelRequests.has(job.id)) {
+    jobDb.updateJobStatus(job.id, 'cancelled', { message: 'Cancelled' });
+    return;
+  }
+
+  if (!result.success || !result.newsletter || result.sectionResults.length === 0) {
+    const error = result.error || (result.success ? 'All audience sections failed' : 'Generation failed');
+    jobDb.updateJobStatus(job.id, 'failed', { message: 'Failed', errorMessage: error });
+    return;
+  }
+
+  const newsletterId = `enl_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  newsletterDb.saveEnhancedNewsletter(
+    { ...result.newsletter, id: newsletterId },
+    result.sectionResults.flatMap(sr => sr.topics.map(t => t.title)),
+    {
+      audience: request.audiences.map(a => a.id),
+      imageStyle: request.imageStyle,
+      sectionInputs: result.sectionResults.flatMap(sr => sr.input ? [sr.input] : []),
+    }
+  );
+  result.newsletter.id = newsletterId;
+
+  jobDb.updateJobStatus(job.id, 'completed', {
+    message: 'Newsletter ready',
+    newsletterId,
+    result: serializePerAudienceResult(result),
+  });
+};
+
+/**
+ * Run an enhanced (V2) job in one step
+ */
+const runEnhancedJob = async (job: jobDb.GenerationJob): Promise<void> => {
+  const request = job.request as unknown as GenerateEnhancedNewsletterParams;
+
+  jobDb.updateJobProgress(job.id, 'generating', 'Fetching sources and generating newsletter');
+  const result = await generateEnhancedNewsletter(request);
+  const newsletterId = result.newsletter?.id || null;
+
+  if (cancelRequests.has(job.id)) {
+    // The generator has already saved the newsletter; keep the link so it isn't orphaned
+    jobDb.updateJobStatus(job.id, 'cancelled', { message: 'Cancelled', newsletterId });
+    return;
+  }
+
+  if (!result.success || !result.newsletter) {
+    jobDb.updateJobStatus(job.id, 'failed', {
+      message: 'Failed',
+      errorMessage: result.error || 'Generation failed',
+      result: result.validationResults
+        ? { validationResults: result.validationResults, invalidTopics: result.invalidTopics, suggestions: result.suggestions }
+        : null,
+    });
+    return;
+  }
+
+  jobDb.updateJobStatus(job.id, 'completed', {
+    message: 'Newsletter ready',
+    newsletterId,
+    result: { newsletter: result.newsletter, sources: result.sources },
+  });
+};
+
+/**
+ * Run a job to completion, recording failures on the job
+ * (the caller has already claimed its slot in activeJobs)
+ */
+const runJob = async (jobId: string): Promise<void> => {
+  const job = jobDb.markJobRunning(jobId);
+  if (!job) {
+    activeJobs.delete(jobId);
+    return;
+  }
+
+  console.log(`[GenerationJobs] Running ${job.pipeline} job ${jobId} (attempt ${job.attempts})`);
+
+  try {
+    // Own context so the job's API usage is tagged and attributed to its newsletter
+    // (rather than inheriting whichever request or job happened to start it)
+    await withContext(createContext({ metadata: { operation: `generation_job:${job.pipeline}`, generationJobId: jobId } }), () =>
+      job.pipeline === 'v4' ? runPerAudienceJob(job) : runEnhancedJob(job)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[GenerationJobs] Job ${jobId} failed:`, error);
+    jobDb.updateJobStatus(jobId, cancelRequests.has(jobId) ? 'cancelled' : 'failed', {
+      message: cancelRequests.has(jobId) ? 'Cancelled' : 'Failed',
+      errorMessage: message,
+    });
+  } finally {
+    activeJobs.delete(jobId);
+    cancelRequests.delete(jobId);
+    console.log(`[GenerationJobs] Job ${jobId} finished: ${jobDb.getJobById(jobId)?.status}`);
+    startQueuedJobs();
+  }
+};
+
+/**
+ * Start queued jobs (oldest first) while there are free slots
+ * If a stage budget is used up, queued jobs fail instead (they can be resumed later).
+ */
+const startQueuedJobs = (): void => {
+  let queued = jobDb.getQueuedJobs(MAX_CONCURRENT_JOBS);
+  if (queued.length === 0) return;
+
+  // A job may have waited in the queue past the point where this month's budget ran out
+  const exceeded = usageService.getExceededStageBudget(JOB_STAGES);
+  if (exceeded) {
+    const errorMessage = usageService.formatBudgetExceededMessage(exceeded);
+    while (queued.length > 0) {
+      for (const job of queued) {
+        console.warn(`[GenerationJobs] Not starting job ${job.id}: ${exceeded.scope} budget exhausted`);
+        jobDb.updateJobStatus(job.id, 'failed', { message: 'Failed', errorMessage });
+      }
+      queued = jobDb.getQueuedJobs(MAX_CONCURRENT_JOBS);
+    }
+    return;
+  }
+
+  for (const job of queued) {
+    if (activeJobs.size >= MAX_CONCURRENT_JOBS) break;
+    if (activeJobs.has(job.id)) continue;
+    activeJobs.add(job.id);
+    void runJob(job.id);
+  }
+};
+
+/**
+ * Create a generation job and start it (or queue it behind running jobs)
+ */
+export const createJob = (pipeline: jobDb.GenerationPipeline, request: Record<string, unknown>): jobDb.GenerationJob => {
+  const job = jobDb.createJob(pipeline, request);
+  startQueuedJobs();
+  return jobDb.getJobById(job.id)!;
+};
+
+/**
+ * Get a job with its progress so far
+ */
+export const getJobStatus = (id: string): GenerationJobStatus | null => {
+  const job = jobDb.getJobById(id);
+  if (!job) return null;
+
+  const stored = jobDb.getCheckpoints(id);
+  const sectionsByAudience = toPipelineCheckpoint(stored).sections || {};
+  const audienceIds = job.pipeline === 'v4'
+    ? ((job.request as unknown as PerAudienceRequest).audiences || []).map(a => a.id)
+    : [];
+
+  return {
+    ...job,
+    sections: audienceIds
+      .map(audienceId => sectionsByAudience[audienceId]?.section)
+      .filter((section): section is EnhancedAudienceSection => !!section),
+    checkpoints: Object.keys(stored),
+    cancelRequested: cancelRequests.has(id),
+  };
+};
+
+/**
+ * Cancel a job
+ * Jobs that haven't started are cancelled immediately; running jobs stop at
+ * their next checkpoint.
+ *
+ * @returns The job, or null if it doesn't exist
+ * @throws Error if the job has already finished
+ */
+export const cancelJob = (id: string): GenerationJobStatus | null => {
+  const job = jobDb.getJobById(id);
+  if (!job) return null;
+
+  if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+    throw new Error(`Job is already ${job.status}`);
+  }
+
+  if (activeJobs.has(id)) {
+    cancelRequests.add(id);
+    jobDb.updateJobProgress(id, job.phase || 'cancelling', 'Cancelling after the current step');
+  } else {
+    jobDb.updateJobStatus(id, 'cancelled', { message: 'Cancelled' });
+  }
+
+  return getJobStatus(id);
+};
+
+/**
+ * Resume a failed, cancelled or interrupted job from its checkpoints
+ *
+ * @throws Error if the job isn't in a resumable state
+ */
+export const resumeJob = (id: string): GenerationJobStatus | null => {
+  const job = jobDb.getJobById(id);
+  if (!job) return null;
+
+  if (!RESUMABLE_STATUSES.includes(job.status)) {
+    throw new Error(`Only ${RESUMABLE_STATUSES.join(', ')} jobs can be resumed (job is ${job.status})`);
+  }
+
+  jobDb.updateJobStatus(id, 'queued', { message: 'Queued to resume', errorMessage: null });
+  startQueuedJobs();
+  return getJobStatus(id);
+};
+
+/**
+ * Recover jobs interrupted by a previous shutdown
+ * They're marked 'interrupted' rather than restarted, so a restart never
+ * spends API credits without the user asking; resume picks them up.
+ */
+export const initializeGenerationJobs = (): void => {
+  jobDb.recoverInterruptedJobs();
+};
+
+/**
+ * Get runner status
+ */
+export const getGenerationJobRunnerStatus = (): { activeJobs: string[]; maxConcurrentJobs: number } => ({
+  activeJobs: Array.from(activeJobs),
+  maxConcurrentJobs: MAX_CONCURRENT_JOBS,
+});
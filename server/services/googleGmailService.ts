@@ -12,8 +12,15 @@ interface SendEmailOptions {
   subject: string;
   htmlBody: string;
   from?: string;
+  /** Extra RFC 2822 headers (e.g. List-Unsubscribe) */
+  headers?: Record<string, string>;
 }
 
+/**
+ * Fold line breaks out of a header value, so it can't start another header
+ */
+const toHeaderValue = (value: string): string => value.replace(/\s*[\r\n]+\s*/g, ' ');
+
 /**
  * Create RFC 2822 formatted email message
  */
@@ -21,10 +28,13 @@ const createMessage = (options: SendEmailOptions, senderEmail: string): string =
   const toAddresses = Array.isArray(options.to) ? options.to.join(', ') : options.to;
   const fromAddress = options.from || senderEmail;
 
+  const extraHeaders = Object.entries(options.headers || {}).map(([name, value]) => `${name}: ${toHeaderValue(value)}`);
+
   const messageParts = [
-    `From: ${fromAddress}`,
-    `To: ${toAddresses}`,
-    `Subject: ${options.subject}`,
+    `From: ${toHeaderValue(fromAddress)}`,
+    `To: ${toHeaderValue(toAddresses)}`,
+    `Subject: ${toHeaderValue(options.subject)}`,
+    ...extraHeaders,
     'MIME-Version: 1.0',
     'Content-Type: text/html; charset=utf-8',
     '',
@@ -47,17 +57,18 @@ const createMessage = (options: SendEmailOptions, senderEmail: string): string =
 export const sendEmail = async (
   userEmail: string,
   options: SendEmailOptions
-): Promise<{ success: boolean; messageId?: string; error?: string }> => {
+): Promise<{ success: boolean; messageId?: string; error?: string; retryable?: boolean }> => {
   const accessToken = await getValidAccessToken(userEmail);
 
   if (!accessToken) {
     return { success: false, error: 'Not authenticated with Google' };
   }
 
-  try {
-    const raw = createMessage(options, userEmail);
+  const raw = createMessage(options, userEmail);
 
-    const response = await fetch(`${GMAIL_API_URL}/users/me/messages/send`, {
+  let response: Response;
+  try {
+    response = await fetch(`${GMAIL_API_URL}/users/me/messages/send`, {
       method: 'POST',
       headers: {
         Authorization: `Bearer ${accessToken}`,
@@ -65,21 +76,32 @@ export const sendEmail = async (
       },
       body: JSON.stringify({ raw }),
     });
+  } catch (error) {
+    console.error('[Gmail] Send error:', error);
+    // Network failure before Gmail answered
+    return { success: false, error: 'Failed to send email', retryable: true };
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('[Gmail] Failed to send email:', error);
-
-      // Parse specific error messages
-      try {
-        const errorData = JSON.parse(error);
-        const message = errorData.error?.message || 'Failed to send email';
-        return { success: false, error: message };
-      } catch {
-        return { success: false, error: 'Failed to send email' };
-      }
+  if (!response.ok) {
+    const error = await response.text().catch(() => '');
+    console.error('[Gmail] Failed to send email:', error);
+
+    // Rate limits and server errors are worth retrying later
+    const retryable = response.status === 429 || response.status >= 500;
+
+    // Parse specific error messages
+    try {
+      const errorData = JSON.parse(error);
+      const message = errorData.error?.message || 'Failed to send email';
+      return { success: false, error: message, retryable };
+    } catch {
+      return { success: false, error: 'Failed to send email', retryable };
     }
+  }
 
+  // Gmail accepted the message: a problem reading the response must not
+  // cause a retry, which would deliver it twice
+  try {
     const data = await response.json();
     console.log('[Gmail] Email sent:', data.id);
 
@@ -88,71 +110,11 @@ export const sendEmail = async (
       messageId: data.id,
     };
   } catch (error) {
-    console.error('[Gmail] Send error:', error);
-    return { success: false, error: 'Failed to send email' };
+    console.warn('[Gmail] Email sent but response could not be read:', error);
+    return { success: true };
   }
 };
 
-/**
- * Send bulk emails (with rate limiting)
- */
-export const sendBulkEmails = async (
-  userEmail: string,
-  recipients: string[],
-  subject: string,
-  htmlBody: string
-): Promise<{
-  success: boolean;
-  results: Array<{ email: string; success: boolean; messageId?: string; error?: string }>;
-  totalSent: number;
-  totalFailed: number;
-}> => {
-  const results: Array<{ email: string; success: boolean; messageId?: string; error?: string }> = [];
-  let totalSent = 0;
-  let totalFailed = 0;
-
-  // Process in batches to avoid rate limits
-  const BATCH_SIZE = 10;
-  const DELAY_BETWEEN_BATCHES = 1000; // 1 second
-
-  for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
-    const batch = recipients.slice(i, i + BATCH_SIZE);
-
-    // Send batch in parallel
-    const batchPromises = batch.map(async (email) => {
-      const result = await sendEmail(userEmail, { to: email, subject, htmlBody });
-      return { email, ...result };
-    });
-
-    const batchResults = await Promise.all(batchPromises);
-
-    for (const result of batchResults) {
-      results.push(result);
-      if (result.success) {
-        totalSent++;
-      } else {
-        totalFailed++;
-      }
-    }
-
-    // Delay between batches (except for last batch)
-    if (i + BATCH_SIZE < recipients.length) {
-      await new Promise(resolve => setTimeout(resolve, DELAY_BETWEEN_BATCHES));
-    }
-
-    console.log(`[Gmail] Batch ${Math.floor(i / BATCH_SIZE) + 1} complete: ${batch.length} emails processed`);
-  }
-
-  console.log(`[Gmail] Bulk send complete: ${totalSent} sent, ${totalFailed} failed`);
-
-  return {
-    success: totalFailed === 0,
-    results,
-    totalSent,
-    totalFailed,
-  };
-};
-
 /**
  * Get user's email profile info
  */
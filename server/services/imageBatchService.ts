@@ -0,0 +1,185 @@
+/**
+ * Image Batch Service
+ * Generates (or regenerates) the images of a stored enhanced newsletter on the
+ * server: the header hero, the tool of the day and each audience section.
+ *
+ * Images are generated a few at a time to stay under Stability AI's rate limit,
+ * and each one is written back to the newsletter as soon as it's ready, so an
+ * interrupted batch keeps the images it finished.
+ */
+
+import * as newsletterDb from './newsletterDbService.ts';
+import { attributeUsageToNewsletter } from './usageService.ts';
+import { commitRevision } from './newsletterRevisionService.ts';
+import { generateImage, imageStyleMap } from '../external/stability/client.ts';
+import type {
+  EnhancedNewsletter,
+  NewsletterImageBatchEvent,
+  NewsletterImageSlot,
+  NewsletterImageTarget,
+} from '../../types.ts';
+
+const DEFAULT_CONCURRENCY = parseInt(process.env.IMAGE_BATCH_CONCURRENCY || '', 10) || 2;
+const MAX_CONCURRENCY = 4;
+
+export interface ImageBatchOptions {
+  /** Slots to generate; defaults to every slot in the newsletter */
+  targets?: NewsletterImageTarget[];
+  /** Style for the whole batch; defaults to the newsletter's stored style */
+  imageStyle?: string;
+  /** Images generated at once (1-4) */
+  concurrency?: number;
+  /** Per-slot prompt overrides, keyed by getImageTargetKey */
+  prompts?: Record<string, string>;
+}
+
+export interface ImageBatchResult {
+  newsletter: EnhancedNewsletter;
+  imageStyle: string;
+  completedCount: number;
+  failedCount: number;
+}
+
+/**
+ * Stable key for an image slot ("hero", "tool_of_the_day", "section:<audienceId>")
+ */
+export const getImageTargetKey = (target: NewsletterImageTarget): string =>
+  target.kind === 'section' ? `section:${target.audienceId}` : target.kind;
+
+/**
+ * Default hero prompt: the issue's subject and section headlines
+ */
+const buildHeroPrompt = (newsletter: EnhancedNewsletter): string => {
+  const headlines = newsletter.audienceSections.map(s => s.title).join('; ');
+  return `Editorial header illustration for a newsletter issue titled "${newsletter.subject || 'AI for professionals'}", ` +
+    `covering: ${headlines}. Wide composition, no text.`;
+};
+
+/**
+ * Default tool prompt: the tool's name and why it's featured
+ */
+const buildToolPrompt = (newsletter: EnhancedNewsletter): string => {
+  const tool = newsletter.toolOfTheDay;
+  return `Illustration representing the software tool "${tool.name}": ${tool.whyNow}. No logos or text.`;
+};
+
+/**
+ * List a newsletter's image slots with their current prompt and image
+ */
+export const listImageSlots = (newsletter: EnhancedNewsletter): NewsletterImageSlot[] => {
+  const slots: NewsletterImageSlot[] = [
+    {
+      kind: 'hero',
+      label: 'Header image',
+      imagePrompt: newsletter.heroImage?.imagePrompt || buildHeroPrompt(newsletter),
+      imageUrl: newsletter.heroImage?.imageUrl,
+    },
+  ];
+
+  if (newsletter.toolOfTheDay?.name) {
+    slots.push({
+      kind: 'tool_of_the_day',
+      label: `Tool of the Day: ${newsletter.toolOfTheDay.name}`,
+      imagePrompt: newsletter.toolOfTheDay.imagePrompt || buildToolPrompt(newsletter),
+      imageUrl: newsletter.toolOfTheDay.imageUrl,
+    });
+  }
+
+  for (const section of newsletter.audienceSections) {
+    slots.push({
+      kind: 'section',
+      audienceId: section.audienceId,
+      label: `${section.audienceName}: ${section.title}`,
+      imagePrompt: section.imagePrompt || `Editorial illustration for an article titled "${section.title}". No text.`,
+      imageUrl: section.imageUrl,
+    });
+  }
+
+  return slots;
+};
+
+/**
+ * Generate images for a stored enhanced newsletter
+ *
+ * @param onProgress - Called for each batch/image event
+ * @returns null if the newsletter doesn't exist
+ * @throws {Error} If the style is unknown or no requested slot exists
+ */
+export const generateNewsletterImages = async (
+  newsletterId: string,
+  options: ImageBatchOptions = {},
+  onProgress?: (event: NewsletterImageBatchEvent) => void
+): Promise<ImageBatchResult | null> => {
+  const newsletter = newsletterDb.getEnhancedNewsletterById(newsletterId);
+  if (!newsletter) return null;
+
+  const imageStyle = options.imageStyle
+    || newsletterDb.getNewsletterById(newsletterId)?.imageStyle
+    || 'photorealistic';
+  if (!imageStyleMap[imageStyle]) {
+    throw new Error(`Unknown image style "${imageStyle}". Use one of: ${Object.keys(imageStyleMap).join(', ')}.`);
+  }
+
+  const allSlots = listImageSlots(newsletter);
+  const requestedKeys = options.targets ? new Set(options.targets.map(getImageTargetKey)) : null;
+  const slots = requestedKeys
+    ? allSlots.filter(slot => requestedKeys.has(getImageTargetKey(slot)))
+    : allSlots;
+  if (slots.length === 0) {
+    throw new Error('None of the requested image slots exist in this newsletter');
+  }
+
+  const concurrency = Math.min(Math.max(options.concurrency || DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+  const totalCount = slots.length;
+  let completedCount = 0;
+  let failedCount = 0;
+
+  console.log(`[ImageBatch] Generating ${totalCount} images for ${newsletterId} (${imageStyle}, concurrency ${concurrency})`);
+
+  attributeUsageToNewsletter(newsletterId);
+  newsletterDb.setNewsletterImageStyle(newsletterId, imageStyle);
+  onProgress?.({ type: 'batch_start', imageStyle, totalCount, completedCount, failedCount });
+
+  const generateSlot = async (slot: NewsletterImageSlot): Promise<void> => {
+    const target: NewsletterImageTarget = { kind: slot.kind, audienceId: slot.audienceId };
+    const imagePrompt = options.prompts?.[getImageTargetKey(slot)]?.trim() || slot.imagePrompt;
+    onProgress?.({ type: 'image_start', target, label: slot.label, totalCount, completedCount, failedCount });
+
+    const result = await generateImage(imagePrompt, imageStyle);
+    if (!result.success || !result.image) {
+      failedCount++;
+      const error = result.details ? `${result.error}: ${result.details}` : result.error || 'Image generation failed';
+      console.error(`[ImageBatch] ${slot.label} failed: ${error}`);
+      onProgress?.({ type: 'image_error', target, label: slot.label, error, totalCount, completedCount, failedCount });
+      return;
+    }
+
+    const imageUrl = `data:image/png;base64,${result.image}`;
+    newsletterDb.updateEnhancedImage(newsletterId, target, { imagePrompt, imageUrl });
+    completedCount++;
+    onProgress?.({ type: 'image_complete', target, label: slot.label, imageUrl, totalCount, completedCount, failedCount });
+  };
+
+  // Worker pool: each worker takes the next slot until none are left
+  const queue = [...slots];
+  const worker = async (): Promise<void> => {
+    for (let slot = queue.shift(); slot; slot = queue.shift()) {
+      await generateSlot(slot);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, totalCount) }, worker));
+
+  // One revision for the whole batch rather than one per image
+  if (completedCount > 0) {
+    commitRevision(newsletterId, 'image_change', 'images_generated', { imageStyle, completedCount, failedCount });
+  }
+
+  console.log(`[ImageBatch] Done for ${newsletterId}: ${completedCount} generated, ${failedCount} failed`);
+
+  return {
+    newsletter: newsletterDb.getEnhancedNewsletterById(newsletterId)!,
+    imageStyle,
+    completedCount,
+    failedCount,
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * Knowledge Base Grounding Service
+ *
+ * Retrieves passages from the persistent knowledge base (rag_documents) for
+ * newsletter generation, so sections can draw on the editor's saved articles
+ * and notes alongside the fetched sources.
+ *
+ * Each retrieved document becomes one source tagged with its document ID.
+ * Documents indexed from a URL are cited by that URL; pasted documents by a
+ * kb://documents/<id> reference. Citations of these sources carry the document
+ * ID (SourceCitation.kbDocumentId), and citation verification accepts them.
+ *
+ * @module services/knowledgeBaseGroundingService
+ */
+
+import * as ragDb from './ragDbService';
+import { getRagBackend } from '../external/rag';
+import { findMatchingUrl } from './citationVerificationService';
+import type { SourceCitation, SourceWithContent, TopicWithAudienceId } from '../../types';
+
+/** Reference URL prefix for documents that have no source URL */
+export const KB_REFERENCE_PREFIX = 'kb://documents/';
+
+// Passages retrieved per topic
+const DEFAULT_PASSAGES_PER_TOPIC = 4;
+// Documents given to one audience section
+const DEFAULT_MAX_DOCUMENTS = 4;
+
+export interface KnowledgeBaseRetrievalOptions {
+  passagesPerTopic?: number;
+  maxDocuments?: number;
+}
+
+/**
+ * URL a knowledge base document is cited by
+ */
+export const getDocumentReferenceUrl = (document: ragDb.RagDocument): string =>
+  document.sourceUrl || `${KB_REFERENCE_PREFIX}${document.id}`;
+
+/**
+ * Whether a URL is a kb:// document reference (not a web page)
+ */
+export const isDocumentReferenceUrl = (url: string): boolean => url.startsWith(KB_REFERENCE_PREFIX);
+
+/**
+ * Whether the knowledge base has any indexed documents
+ */
+export const hasIndexedDocuments = (): boolean =>
+  ragDb.getDocuments({ status: 'indexed', limit: 1 }).length > 0;
+
+/**
+ * Retrieve knowledge base sources for one audience's topics
+ *
+ * Searches the active RAG backend per topic and groups the passages by
+ * document, best document first. Search failures are logged and skipped, so
+ * generation carries on with whatever was retrieved.
+ */
+export const retrieveKnowledgeBaseSources = async (
+  topics: TopicWithAudienceId[],
+  options: KnowledgeBaseRetrievalOptions = {}
+): Promise<SourceWithContent[]> => {
+  const passagesPerTopic = options.passagesPerTopic ?? DEFAULT_PASSAGES_PER_TOPIC;
+  const maxDocuments = options.maxDocuments ?? DEFAULT_MAX_DOCUMENTS;
+
+  if (topics.length === 0 || !hasIndexedDocuments()) return [];
+
+  const backend = getRagBackend();
+  if (!backend.isAvailable()) return [];
+
+  const byDocument = new Map<string, { document: ragDb.RagDocument; passages: string[] }>();
+
+  for (const topic of topics) {
+    const query = topic.summary ? `${topic.title} ${topic.summary}` : topic.title;
+
+    let matches;
+    try {
+      matches = await backend.search(query, passagesPerTopic);
+    } catch (error) {
+      console.error(`[KnowledgeBaseGrounding] Search failed for "${topic.title}":`, error);
+      continue;
+    }
+
+    for (const match of matches) {
+      const entry = byDocument.get(match.documentId);
+      if (entry) {
+        if (!entry.passages.includes(match.text)) entry.passages.push(match.text);
+        continue;
+      }
+
+      // Only documents still in the knowledge base can be cited
+      const document = ragDb.getDocumentById(match.documentId);
+      if (!document || document.status !== 'indexed') continue;
+      byDocument.set(document.id, { document, passages: [match.text] });
+    }
+  }
+
+  const sources = [...byDocument.values()].slice(0, maxDocuments).map(({ document, passages }) => ({
+    url: getDocumentReferenceUrl(document),
+    title: document.filename,
+    content: passages.join('\n\n[...]\n\n'),
+    publication: 'Knowledge base',
+    kbDocumentId: document.id,
+  }));
+
+  console.log(`[KnowledgeBaseGrounding] Retrieved ${sources.length} document(s) for ${topics.length} topic(s) (${backend.id})`);
+  return sources;
+};
+
+/**
+ * Tag citations of knowledge base sources with their document IDs
+ */
+export const attachKnowledgeBaseReferences = (
+  citations: SourceCitation[],
+  sources: SourceWithContent[]
+): SourceCitation[] => {
+  const kbSources = sources.filter(s => s.kbDocumentId);
+  if (kbSources.length === 0) return citations;
+
+  return citations.map((citation) => {
+    const url = findMatchingUrl(citation.url, kbSources.map(s => s.url));
+    const source = url && kbSources.find(s => s.url === url);
+    return source ? { ...citation, kbDocumentId: source.kbDocumentId } : citation;
+  });
+};
+
+/**
+ * Format knowledge base sources for a prompt that lists sources as text
+ */
+export const buildKnowledgeBaseContext = (sources: SourceWithContent[]): string =>
+  sources.map((s) => `[KNOWLEDGE BASE] ${s.title}
+URL: ${s.url}
+Passages: ${(s.content || '').substring(0, 2000)}`).join('\n\n---\n\n');
+
+export default {
+  KB_REFERENCE_PREFIX,
+  getDocumentReferenceUrl,
+  isDocumentReferenceUrl,
+  hasIndexedDocuments,
+  retrieveKnowledgeBaseSources,
+  attachKnowledgeBaseReferences,
+  buildKnowledgeBaseContext,
+};
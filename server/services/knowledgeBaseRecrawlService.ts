@@ -0,0 +1,245 @@
+/**
+ * Knowledge Base Re-crawl Service
+ *
+ * Keeps URL-sourced knowledge base documents current. Documents (or whole
+ * collections) get a re-crawl policy - daily, weekly or never - and an hourly
+ * worker re-fetches the ones that are due with extractArticle:
+ * - Unchanged content (same hash) only records the check
+ * - Changed content is re-indexed in place; the previous version's record
+ *   and metadata are kept in rag_document_versions
+ * - A URL that keeps failing is marked broken, and marked ok again once it
+ *   can be fetched
+ *
+ * Updates, broken links and recoveries are recorded as events for the
+ * knowledge base's "updated/broken" feed.
+ *
+ * On the Gemini backend the previous version stays in the FileSearchStore
+ * (it has no per-file deletion), so searches can still return old passages.
+ *
+ * @module services/knowledgeBaseRecrawlService
+ */
+
+import * as cron from 'node-cron';
+import * as ragDb from './ragDbService';
+import * as ragRecrawlDb from './ragRecrawlDbService';
+import { extractArticle } from './articleExtractorService';
+import { formatFetchedArticle, reindexDocument } from './persistentRagService';
+
+// Consecutive failed fetches before a link is marked broken (one failure may be a blip)
+const DEAD_LINK_THRESHOLD = 2;
+// Documents checked per worker tick, so a backlog doesn't hammer source sites at once
+const MAX_DOCUMENTS_PER_RUN = 25;
+
+export type RecrawlOutcome = 'unchanged' | 'updated' | 'failed' | 'broken' | 'skipped';
+
+export interface RecrawlResult {
+  documentId: string;
+  outcome: RecrawlOutcome;
+  error?: string;
+}
+
+export interface RecrawlRunSummary {
+  checked: number;
+  unchanged: number;
+  updated: number;
+  failed: number;
+  broken: number;
+}
+
+let workerTask: ReturnType<typeof cron.schedule> | null = null;
+let isProcessing = false;
+let lastRunAt: string | null = null;
+// Documents being re-crawled (a scheduled run and a manual check can overlap)
+const activeDocuments = new Set<string>();
+
+/**
+ * Record a failed fetch; the link is marked broken once failures reach the threshold
+ */
+const handleFetchFailure = (document: ragDb.RagDocument, error: string): RecrawlResult => {
+  const failures = ragRecrawlDb.getCheckFailures(document.id) + 1;
+  const becomesBroken = failures >= DEAD_LINK_THRESHOLD && document.linkStatus !== 'broken';
+
+  ragRecrawlDb.recordCheckFailure(document.id, error, failures >= DEAD_LINK_THRESHOLD);
+
+  if (becomesBroken) {
+    ragRecrawlDb.addEvent(document.id, 'broken', `${failures} failed fetches: ${error}`);
+    return { documentId: document.id, outcome: 'broken', error };
+  }
+
+  console.warn(`[KbRecrawl] Fetch failed for ${document.sourceUrl} (${failures}/${DEAD_LINK_THRESHOLD}): ${error}`);
+  return { documentId: document.id, outcome: 'failed', error };
+};
+
+/**
+ * Re-fetch one document and re-index it if its content changed
+ */
+export async function recrawlDocument(documentId: string): Promise<RecrawlResult> {
+  const document = ragDb.getDocumentById(documentId);
+  if (!document || !document.sourceUrl || document.status !== 'indexed') {
+    return { documentId, outcome: 'skipped', error: 'Not an indexed URL document' };
+  }
+
+  if (activeDocuments.has(documentId)) {
+    return { documentId, outcome: 'skipped', error: 'Re-crawl already in progress' };
+  }
+  activeDocuments.add(documentId);
+
+  try {
+    const extracted = await extractArticle(document.sourceUrl);
+    if (!extracted.success || !extracted.content) {
+      return handleFetchFailure(document, extracted.error || 'No content extracted');
+    }
+
+    const wasBroken = document.linkStatus === 'broken';
+    const title = extracted.title || (document.metadata?.extractedTitle as string | undefined) || document.filename;
+    const content = formatFetchedArticle(document.sourceUrl, title, extracted.content);
+
+    if (ragDb.generateContentHash(content) === document.contentHash) {
+      ragRecrawlDb.recordCheckSuccess(document.id);
+      if (wasBroken) ragRecrawlDb.addEvent(document.id, 'recovered', 'Link works again; content unchanged');
+      return { documentId, outcome: 'unchanged' };
+    }
+
+    // Re-index first: if the backend fails, the document keeps its current
+    // content and stays due, so the next tick tries again
+    try {
+      await reindexDocument(document, content, {
+        ...document.metadata,
+        extractedTitle: extracted.title,
+        lastChangedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ragRecrawlDb.recordReindexFailure(document.id, `Re-index failed: ${message}`);
+      console.error(`[KbRecrawl] Re-index failed for ${document.filename}:`, error);
+      return { documentId, outcome: 'failed', error: `Re-index failed: ${message}` };
+    }
+
+    const version = ragRecrawlDb.saveVersion(document);
+    ragRecrawlDb.recordCheckSuccess(document.id);
+
+    const sizeBytes = Buffer.byteLength(content, 'utf-8');
+    ragRecrawlDb.addEvent(
+      document.id,
+      'updated',
+      `Content changed (${document.sizeBytes} -> ${sizeBytes} bytes); previous version saved as v${version.version}`
+    );
+    if (wasBroken) ragRecrawlDb.addEvent(document.id, 'recovered', 'Link works again');
+
+    return { documentId, outcome: 'updated' };
+  } finally {
+    activeDocuments.delete(documentId);
+  }
+}
+
+/**
+ * Re-crawl every document that is due (runs on the worker tick)
+ */
+export async function runDueRecrawls(limit: number = MAX_DOCUMENTS_PER_RUN): Promise<RecrawlRunSummary> {
+  const summary: RecrawlRunSummary = { checked: 0, unchanged: 0, updated: 0, failed: 0, broken: 0 };
+
+  if (isProcessing) {
+    console.log('[KbRecrawl] Previous run still in progress, skipping');
+    return summary;
+  }
+
+  isProcessing = true;
+  try {
+    const dueIds = ragRecrawlDb.getDueDocumentIds(limit);
+    if (dueIds.length > 0) {
+      console.log(`[KbRecrawl] Re-crawling ${dueIds.length} due documents`);
+    }
+
+    // One at a time: re-crawls are background work and shouldn't compete with generation
+    for (const documentId of dueIds) {
+      try {
+        const result = await recrawlDocument(documentId);
+        if (result.outcome === 'skipped') continue;
+        summary.checked++;
+        summary[result.outcome]++;
+      } catch (error) {
+        console.error(`[KbRecrawl] Error re-crawling ${documentId}:`, error);
+        summary.failed++;
+      }
+    }
+
+    if (summary.checked > 0) {
+      console.log(
+        `[KbRecrawl] Run complete: checked=${summary.checked}, updated=${summary.updated}, ` +
+        `unchanged=${summary.unchanged}, failed=${summary.failed}, broken=${summary.broken}`
+      );
+    }
+    return summary;
+  } finally {
+    lastRunAt = new Date().toISOString();
+    isProcessing = false;
+  }
+}
+
+/**
+ * Start the re-crawl worker
+ */
+export const startRecrawlWorker = (): void => {
+  if (workerTask) {
+    console.log('[KbRecrawl] Worker already running');
+    return;
+  }
+
+  // Every hour
+  workerTask = cron.schedule('0 * * * *', () => {
+    runDueRecrawls().catch(error => {
+      console.error('[KbRecrawl] Worker tick failed:', error);
+    });
+  });
+
+  console.log('[KbRecrawl] Worker started - checking hourly for due re-crawls');
+};
+
+/**
+ * Stop the re-crawl worker
+ */
+export const stopRecrawlWorker = (): void => {
+  if (workerTask) {
+    workerTask.stop();
+    workerTask = null;
+  }
+
+  console.log('[KbRecrawl] Worker stopped');
+};
+
+/**
+ * Get re-crawl worker status
+ */
+export const getRecrawlStatus = (): {
+  running: boolean;
+  processing: boolean;
+  lastRunAt: string | null;
+  brokenDocuments: number;
+} => ({
+  running: workerTask !== null,
+  processing: isProcessing,
+  lastRunAt,
+  brokenDocuments: ragRecrawlDb.getBrokenDocumentCount(),
+});
+
+/**
+ * Recent updated/broken/recovered events
+ */
+export const getRecrawlFeed = (limit?: number): ragRecrawlDb.RecrawlEvent[] =>
+  ragRecrawlDb.getRecentEvents(limit);
+
+/**
+ * Earlier versions of a document, newest first
+ */
+export const getDocumentVersions = (documentId: string): ragRecrawlDb.RagDocumentVersion[] =>
+  ragRecrawlDb.getDocumentVersions(documentId);
+
+export default {
+  recrawlDocument,
+  runDueRecrawls,
+  startRecrawlWorker,
+  stopRecrawlWorker,
+  getRecrawlStatus,
+  getRecrawlFeed,
+  getDocumentVersions,
+};
@@ -0,0 +1,89 @@
+/**
+ * Link Signing Service
+ * HMAC signatures for public links embedded in outgoing email
+ * (tracking pixels, click redirects) so they can't be forged or
+ * turned into an open redirect.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Generated once and kept next to the database when EMAIL_LINK_SECRET is not set
+const SECRET_FILE = path.join(process.cwd(), 'data', 'email_link_secret');
+
+// Signature length in bytes before base64url encoding (128 bits)
+const SIGNATURE_BYTES = 16;
+
+let cachedSecret: string | null = null;
+
+/**
+ * Get the signing secret (env var, then persisted file, else generate and persist)
+ */
+const getSecret = (): string => {
+  if (cachedSecret) return cachedSecret;
+
+  if (process.env.EMAIL_LINK_SECRET) {
+    cachedSecret = process.env.EMAIL_LINK_SECRET;
+    return cachedSecret;
+  }
+
+  if (fs.existsSync(SECRET_FILE)) {
+    cachedSecret = fs.readFileSync(SECRET_FILE, 'utf-8').trim();
+    return cachedSecret;
+  }
+
+  cachedSecret = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(SECRET_FILE), { recursive: true });
+  fs.writeFileSync(SECRET_FILE, cachedSecret, { mode: 0o600 });
+  console.log('[LinkSigning] Generated new email link secret');
+
+  return cachedSecret;
+};
+
+/**
+ * Sign a value, returning a short base64url signature
+ */
+export const sign = (value: string): string => {
+  return crypto
+    .createHmac('sha256', getSecret())
+    .update(value)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES)
+    .toString('base64url');
+};
+
+/**
+ * Verify a signature produced by sign()
+ */
+export const verify = (value: string, signature: string): boolean => {
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Append a signature to a base64url token ("<token>.<signature>")
+ * base64url never contains '.', so the separator is unambiguous.
+ */
+export const signToken = (token: string): string => `${token}.${sign(token)}`;
+
+/**
+ * Verify a signed token and return the unsigned part, or null if invalid
+ */
+export const verifyToken = (signedToken: string): string | null => {
+  const separator = signedToken.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const token = signedToken.slice(0, separator);
+  const signature = signedToken.slice(separator + 1);
+  return verify(token, signature) ? token : null;
+};
+
+/**
+ * Base URL recipients' mail clients use to reach this server
+ */
+export const getPublicBaseUrl = (): string => {
+  const baseUrl = process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+  return baseUrl.replace(/\/+$/, '');
+};
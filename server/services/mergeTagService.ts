@@ -0,0 +1,111 @@
+/**
+ * Merge Tag Service
+ * Resolves per-recipient merge tags such as `{{first_name|there}}` in
+ * subjects and email HTML.
+ *
+ * Tag syntax: `{{key}}` or `{{key|fallback}}`. Keys are subscriber attribute
+ * names (snake_case) plus the built-in fields email, name, first_name and
+ * last_name. A tag whose key isn't a known field and that has no fallback is
+ * left untouched, so prompt templates in newsletter content that happen to
+ * use `{{...}}` survive sending.
+ */
+
+import { getAttributeKeys, type Subscriber } from './subscriberDbService.ts';
+
+// {{ key }} or {{ key | fallback }}
+const MERGE_TAG_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*(?:\|([^{}]*))?\}\}/g;
+
+// Fields every subscriber has, derived from email and name
+export const BUILT_IN_FIELDS = ['email', 'name', 'first_name', 'last_name'] as const;
+
+// Handled by the unsubscribe link step, never by merge tags
+const RESERVED_KEYS = new Set(['unsubscribe_url']);
+
+export interface MergeTagOptions {
+  /** Escape substituted values for HTML (fallbacks are used as written) */
+  html?: boolean;
+  /** Attribute keys in use across subscribers; defaults to a database lookup */
+  knownKeys?: Iterable<string>;
+}
+
+/**
+ * Escape HTML special characters
+ */
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+};
+
+/**
+ * Build the merge values for a subscriber
+ * Custom attributes override the built-in fields (e.g. an explicit first_name).
+ */
+export const getMergeValues = (subscriber: Pick<Subscriber, 'email' | 'name' | 'attributes'>): Record<string, string> => {
+  const name = (subscriber.name || '').trim();
+  const [firstName = '', ...rest] = name ? name.split(/\s+/) : [];
+
+  return {
+    email: subscriber.email,
+    name,
+    first_name: firstName,
+    last_name: rest.join(' '),
+    ...(subscriber.attributes || {}),
+  };
+};
+
+/**
+ * Check whether text contains any merge tags
+ */
+export const hasMergeTags = (text: string): boolean => {
+  MERGE_TAG_PATTERN.lastIndex = 0;
+  return MERGE_TAG_PATTERN.test(text);
+};
+
+/**
+ * Resolve merge tags in text for one recipient
+ * A tag resolves to the recipient's value, else its fallback, else an empty
+ * string when the key is a known field. Unknown tags without a fallback are
+ * kept as written.
+ */
+export const resolveMergeTags = (
+  text: string,
+  values: Record<string, string>,
+  options: MergeTagOptions = {}
+): string => {
+  if (!text.includes('{{')) return text;
+
+  const knownKeys = new Set<string>([...BUILT_IN_FIELDS, ...(options.knownKeys || getAttributeKeys())]);
+
+  return text.replace(MERGE_TAG_PATTERN, (tag, rawKey: string, fallback: string | undefined) => {
+    const key = rawKey.toLowerCase();
+    if (RESERVED_KEYS.has(key)) return tag;
+
+    const value = values[key]?.trim();
+    if (value) return options.html ? escapeHtml(value) : value;
+    if (fallback !== undefined) return fallback.trim();
+    return knownKeys.has(key) ? '' : tag;
+  });
+};
+
+/**
+ * Personalize a subject and HTML body for one subscriber
+ * Line breaks in the resolved subject are folded into spaces, so a merged
+ * value can never add headers to the message.
+ */
+export const personalize = (
+  subscriber: Pick<Subscriber, 'email' | 'name' | 'attributes'>,
+  content: { subject: string; htmlBody: string },
+  knownKeys: Iterable<string> = getAttributeKeys()
+): { subject: string; htmlBody: string } => {
+  const values = getMergeValues(subscriber);
+  const keys = Array.from(knownKeys);
+
+  return {
+    subject: resolveMergeTags(content.subject, values, { knownKeys: keys }).replace(/\s*[\r\n]+\s*/g, ' '),
+    htmlBody: resolveMergeTags(content.htmlBody, values, { html: true, knownKeys: keys }),
+  };
+};
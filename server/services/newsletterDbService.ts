@@ -4,6 +4,9 @@
  */
 
 import db from '../db/init.ts';
+import { attributeUsageToNewsletter } from './usageService.ts';
+import * as revisionDb from './newsletterRevisionDbService.ts';
+import { getContext } from '../control-plane/invocation/contextManager.ts';
 
 // Types
 export interface NewsletterSection {
@@ -40,6 +43,8 @@ export interface NewsletterLog {
   action: string;
   actionAt: string;
   details?: Record<string, unknown>;
+  /** Revision the action produced, if it changed the newsletter */
+  revisionId: number | null;
 }
 
 export interface NewsletterSettings {
@@ -68,6 +73,8 @@ interface DbNewsletterRowExtended extends DbNewsletterRow {
   tool_of_day: string | null;
   audience_sections: string | null;
   format_version: string | null;
+  hero_image: string | null;
+  verification_report: string | null;
 }
 
 interface DbLogRow {
@@ -76,6 +83,7 @@ interface DbLogRow {
   action: string;
   action_at: string;
   details: string | null;
+  revision_id: number | null;
 }
 
 /**
@@ -112,7 +120,10 @@ export const saveNewsletter = (
   );
 
   // Log the creation
-  logAction(newsletter.id, 'created');
+  logAction(newsletter.id, 'created', undefined, recordRevision(newsletter.id, 'ai_generation'));
+
+  // Link the generating request's API usage to this newsletter
+  attributeUsageToNewsletter(newsletter.id);
 
   console.log(`[NewsletterDb] Saved newsletter: ${newsletter.subject} (${newsletter.id})`);
 
@@ -164,8 +175,10 @@ export const deleteNewsletter = (id: string): boolean => {
   // Delete from all related tables first (foreign key constraints)
   // Order matters - delete child records before parent
 
-  // 1. Newsletter logs
+  // 1. Newsletter logs and section generation inputs
   db.prepare(`DELETE FROM newsletter_logs WHERE newsletter_id = ?`).run(id);
+  db.prepare(`DELETE FROM newsletter_section_inputs WHERE newsletter_id = ?`).run(id);
+  revisionDb.deleteRevisions(id);
 
   // 2. Scheduled sends
   db.prepare(`DELETE FROM scheduled_sends WHERE newsletter_id = ?`).run(id);
@@ -197,6 +210,8 @@ export const updateNewsletterSections = (
   id: string,
   sections: NewsletterSection[]
 ): boolean => {
+  ensureBaselineRevision(id);
+
   const stmt = db.prepare(`
     UPDATE newsletters
     SET sections = ?, updated_at = datetime('now')
@@ -219,6 +234,8 @@ export const updateEnhancedNewsletterSections = (
   id: string,
   audienceSections: EnhancedAudienceSection[]
 ): boolean => {
+  ensureBaselineRevision(id);
+
   // Also update legacy sections for backward compatibility
   const legacySections: NewsletterSection[] = audienceSections.map(
     (section: EnhancedAudienceSection) => ({
@@ -269,8 +286,11 @@ export const searchNewsletters = (query: string, limit = 20): Newsletter[] => {
  */
 export const logAction = (
   newsletterId: string,
-  action: 'created' | 'saved_to_drive' | 'sent_email' | 'scheduled_send',
-  details?: Record<string, unknown>
+  action: 'created' | 'saved_to_drive' | 'sent_email' | 'scheduled_send' | 'unsubscribed'
+    | 'recurring_generated' | 'recurring_approved' | 'recurring_rejected' | 'section_rewritten' | 'images_generated'
+    | 'edited' | 'images_updated' | 'restored' | 'citations_repaired',
+  details?: Record<string, unknown>,
+  revisionId: number | null = null
 ): void => {
   // Check if newsletter exists first (foreign key constraint)
   const exists = db.prepare(`SELECT 1 FROM newsletters WHERE id = ?`).get(newsletterId);
@@ -281,11 +301,11 @@ export const logAction = (
   }
 
   const stmt = db.prepare(`
-    INSERT INTO newsletter_logs (newsletter_id, action, details)
-    VALUES (?, ?, ?)
+    INSERT INTO newsletter_logs (newsletter_id, action, details, revision_id)
+    VALUES (?, ?, ?, ?)
   `);
 
-  stmt.run(newsletterId, action, details ? JSON.stringify(details) : null);
+  stmt.run(newsletterId, action, details ? JSON.stringify(details) : null, revisionId);
 
   console.log(`[NewsletterDb] Logged action: ${action} for newsletter ${newsletterId}`);
 };
@@ -307,7 +327,8 @@ export const getNewsletterLogs = (newsletterId: string): NewsletterLog[] => {
     newsletterId: row.newsletter_id,
     action: row.action,
     actionAt: row.action_at,
-    details: row.details ? JSON.parse(row.details) : undefined
+    details: row.details ? JSON.parse(row.details) : undefined,
+    revisionId: row.revision_id
   }));
 };
 
@@ -341,11 +362,20 @@ const rowToNewsletter = (row: DbNewsletterRow): Newsletter => ({
 // Enhanced Newsletter (v2 Format) Support
 // ============================================================================
 
-import type { EnhancedNewsletter, EnhancedAudienceSection } from '../../types.ts';
+import type {
+  EnhancedNewsletter,
+  EnhancedAudienceSection,
+  SectionGenerationInput,
+  NewsletterImageTarget,
+  NewsletterRevisionSource,
+  NewsletterVerificationReport,
+} from '../../types.ts';
 
 interface EnhancedNewsletterSettings {
   audience?: string[];
   imageStyle?: string;
+  /** Inputs each audience section was written from (enables section rewrites) */
+  sectionInputs?: SectionGenerationInput[];
 }
 
 /**
@@ -360,9 +390,10 @@ export const saveEnhancedNewsletter = (
     INSERT INTO newsletters (
       id, subject, introduction, conclusion, sections, prompt_of_day,
       topics, audience, tone, image_style,
-      editors_note, tool_of_day, audience_sections, format_version
+      editors_note, tool_of_day, audience_sections, format_version, hero_image,
+      verification_report
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   // For backward compatibility, also populate legacy fields
@@ -390,11 +421,20 @@ export const saveEnhancedNewsletter = (
     JSON.stringify(newsletter.editorsNote),
     JSON.stringify(newsletter.toolOfTheDay),
     JSON.stringify(newsletter.audienceSections),
-    'v2'
+    'v2',
+    newsletter.heroImage ? JSON.stringify(newsletter.heroImage) : null,
+    newsletter.verificationReport ? JSON.stringify(newsletter.verificationReport) : null
   );
 
+  if (settings?.sectionInputs?.length) {
+    saveSectionInputs(newsletter.id!, settings.sectionInputs);
+  }
+
   // Log the creation
-  logAction(newsletter.id!, 'created');
+  logAction(newsletter.id!, 'created', undefined, recordRevision(newsletter.id!, 'ai_generation'));
+
+  // Link the generating request's API usage to this newsletter
+  attributeUsageToNewsletter(newsletter.id!);
 
   console.log(`[NewsletterDb] Saved enhanced newsletter: ${newsletter.subject || newsletter.id}`);
 };
@@ -426,6 +466,8 @@ const rowToEnhancedNewsletter = (row: DbNewsletterRowExtended): EnhancedNewslett
   conclusion: row.conclusion || '',
   subject: row.subject,
   promptOfTheDay: row.prompt_of_day ? JSON.parse(row.prompt_of_day) : undefined,
+  heroImage: row.hero_image ? JSON.parse(row.hero_image) : undefined,
+  verificationReport: row.verification_report ? JSON.parse(row.verification_report) : undefined,
 });
 
 /**
@@ -435,7 +477,8 @@ export const getNewslettersWithFormat = (limit = 50): NewsletterWithFormat[] =>
   const stmt = db.prepare(`
     SELECT id, created_at, subject, introduction, conclusion, sections, prompt_of_day,
            topics, audience, tone, image_style,
-           editors_note, tool_of_day, audience_sections, format_version
+           editors_note, tool_of_day, audience_sections, format_version, hero_image,
+           verification_report
     FROM newsletters
     ORDER BY created_at DESC
     LIMIT ?
@@ -475,7 +518,8 @@ export const getEnhancedNewsletterById = (id: string): EnhancedNewsletter | null
   const stmt = db.prepare(`
     SELECT id, created_at, subject, introduction, conclusion, sections, prompt_of_day,
            topics, audience, tone, image_style,
-           editors_note, tool_of_day, audience_sections, format_version
+           editors_note, tool_of_day, audience_sections, format_version, hero_image,
+           verification_report
     FROM newsletters
     WHERE id = ? AND format_version = 'v2'
   `);
@@ -487,6 +531,106 @@ export const getEnhancedNewsletterById = (id: string): EnhancedNewsletter | null
   return rowToEnhancedNewsletter(row);
 };
 
+/**
+ * Replace one audience section of an enhanced newsletter, leaving the others untouched
+ *
+ * @returns false if the newsletter or the audience's section doesn't exist
+ */
+export const updateEnhancedSection = (
+  id: string,
+  audienceId: string,
+  section: EnhancedAudienceSection
+): boolean => {
+  const newsletter = getEnhancedNewsletterById(id);
+  if (!newsletter) return false;
+
+  const index = newsletter.audienceSections.findIndex(s => s.audienceId === audienceId);
+  if (index === -1) return false;
+
+  const audienceSections = [...newsletter.audienceSections];
+  audienceSections[index] = { ...section, audienceId };
+  return updateEnhancedNewsletterSections(id, audienceSections);
+};
+
+/**
+ * Store a generated image in one image slot of an enhanced newsletter
+ *
+ * @returns false if the newsletter or the slot doesn't exist
+ */
+export const updateEnhancedImage = (
+  id: string,
+  target: NewsletterImageTarget,
+  image: { imagePrompt: string; imageUrl: string }
+): boolean => {
+  const newsletter = getEnhancedNewsletterById(id);
+  if (!newsletter) return false;
+
+  if (target.kind === 'section') {
+    const section = newsletter.audienceSections.find(s => s.audienceId === target.audienceId);
+    if (!section) return false;
+    return updateEnhancedSection(id, section.audienceId, { ...section, ...image });
+  }
+
+  ensureBaselineRevision(id);
+  const column = target.kind === 'hero' ? 'hero_image' : 'tool_of_day';
+  const value = target.kind === 'hero'
+    ? image
+    : { ...newsletter.toolOfTheDay, ...image };
+
+  const result = db.prepare(`
+    UPDATE newsletters SET ${column} = ?, updated_at = datetime('now') WHERE id = ?
+  `).run(JSON.stringify(value), id);
+
+  return result.changes > 0;
+};
+
+/**
+ * Store the citation verification report for an enhanced newsletter
+ */
+export const setVerificationReport = (id: string, report: NewsletterVerificationReport): boolean => {
+  const result = db.prepare(`
+    UPDATE newsletters SET verification_report = ? WHERE id = ? AND format_version = 'v2'
+  `).run(JSON.stringify(report), id);
+
+  return result.changes > 0;
+};
+
+/**
+ * Record the image style a newsletter's images were (re)generated in
+ */
+export const setNewsletterImageStyle = (id: string, imageStyle: string): void => {
+  db.prepare(`UPDATE newsletters SET image_style = ? WHERE id = ?`).run(imageStyle, id);
+};
+
+/**
+ * Store the inputs each audience section was written from
+ */
+export const saveSectionInputs = (newsletterId: string, inputs: SectionGenerationInput[]): void => {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO newsletter_section_inputs (newsletter_id, audience_id, input)
+    VALUES (?, ?, ?)
+  `);
+
+  const saveAll = db.transaction(() => {
+    for (const input of inputs) {
+      stmt.run(newsletterId, input.audience.id, JSON.stringify(input));
+    }
+  });
+  saveAll();
+};
+
+/**
+ * Get the inputs an audience section was written from
+ * (null for newsletters saved before inputs were tracked)
+ */
+export const getSectionInput = (newsletterId: string, audienceId: string): SectionGenerationInput | null => {
+  const row = db.prepare(`
+    SELECT input FROM newsletter_section_inputs WHERE newsletter_id = ? AND audience_id = ?
+  `).get(newsletterId, audienceId) as { input: string } | undefined;
+
+  return row ? JSON.parse(row.input) : null;
+};
+
 /**
  * Phase 9c: Get newsletters that used a specific saved prompt
  * Uses SQLite json_extract to search the prompt_of_day JSON for savedPromptId
@@ -495,7 +639,8 @@ export const getNewslettersBySavedPromptId = (promptId: string): NewsletterWithF
   const stmt = db.prepare(`
     SELECT id, created_at, subject, introduction, conclusion, sections, prompt_of_day,
            topics, audience, tone, image_style,
-           editors_note, tool_of_day, audience_sections, format_version
+           editors_note, tool_of_day, audience_sections, format_version, hero_image,
+           verification_report
     FROM newsletters
     WHERE json_extract(prompt_of_day, '$.savedPromptId') = ?
     ORDER BY created_at DESC
@@ -536,7 +681,8 @@ export const getNewsletterByIdWithFormat = (id: string): NewsletterWithFormat |
   const stmt = db.prepare(`
     SELECT id, created_at, subject, introduction, conclusion, sections, prompt_of_day,
            topics, audience, tone, image_style,
-           editors_note, tool_of_day, audience_sections, format_version
+           editors_note, tool_of_day, audience_sections, format_version, hero_image,
+           verification_report
     FROM newsletters
     WHERE id = ?
   `);
@@ -567,3 +713,115 @@ export const getNewsletterByIdWithFormat = (id: string): NewsletterWithFormat |
     topics: JSON.parse(row.topics),
   };
 };
+
+// ============================================================================
+// Revisions
+// ============================================================================
+
+/**
+ * Who made a change: AI for generations and citation repairs, otherwise the given author, the
+ * request's user, or the admin
+ */
+const resolveRevisionAuthor = (source: NewsletterRevisionSource, author?: string): string => {
+  if (source === 'ai_generation' || source === 'citation_repair') return 'ai';
+  return author || getContext()?.userEmail || process.env.ADMIN_EMAIL || 'editor';
+};
+
+/**
+ * Record the newsletter's current stored state as a new revision
+ *
+ * Call after each write; the returned ID can be passed to logAction so the
+ * log entry links to the revision it produced.
+ *
+ * @returns Revision ID, or null if the newsletter doesn't exist
+ */
+export const recordRevision = (
+  id: string,
+  source: NewsletterRevisionSource,
+  author?: string,
+  restoredFrom: number | null = null
+): number | null => {
+  const current = getNewsletterByIdWithFormat(id);
+  if (!current) return null;
+
+  const revisionId = revisionDb.insertRevision(
+    id,
+    source,
+    resolveRevisionAuthor(source, author),
+    { formatVersion: current.formatVersion, newsletter: current.newsletter },
+    restoredFrom
+  );
+
+  console.log(`[NewsletterDb] Recorded ${source} revision ${revisionId} for newsletter: ${id}`);
+  return revisionId;
+};
+
+/**
+ * Newsletters saved before revisions existed get their stored state recorded
+ * as a baseline before the first change, so that change can be diffed/undone
+ */
+const ensureBaselineRevision = (id: string): void => {
+  if (revisionDb.hasRevisions(id)) return;
+
+  const current = getNewsletterByIdWithFormat(id);
+  if (!current) return;
+
+  revisionDb.insertRevision(id, 'ai_generation', 'system', {
+    formatVersion: current.formatVersion,
+    newsletter: current.newsletter,
+  });
+};
+
+/**
+ * Overwrite a newsletter's content (inline edits, restoring a revision)
+ *
+ * Only content fields are written; topics, settings and tracking are kept.
+ * @returns false if the newsletter doesn't exist
+ */
+export const replaceNewsletterContent = (
+  id: string,
+  formatVersion: 'v1' | 'v2',
+  newsletter: revisionDb.RevisionSnapshot['newsletter']
+): boolean => {
+  ensureBaselineRevision(id);
+
+  if (formatVersion === 'v2') {
+    const enhanced = newsletter as EnhancedNewsletter;
+    const result = db.prepare(`
+      UPDATE newsletters
+      SET subject = ?, introduction = ?, conclusion = ?, prompt_of_day = ?,
+          editors_note = ?, tool_of_day = ?, hero_image = ?, updated_at = datetime('now')
+      WHERE id = ? AND format_version = 'v2'
+    `).run(
+      enhanced.subject || enhanced.audienceSections[0]?.title || 'Newsletter',
+      enhanced.editorsNote?.message || '',
+      enhanced.conclusion || '',
+      enhanced.promptOfTheDay ? JSON.stringify(enhanced.promptOfTheDay) : null,
+      JSON.stringify(enhanced.editorsNote),
+      JSON.stringify(enhanced.toolOfTheDay),
+      enhanced.heroImage ? JSON.stringify(enhanced.heroImage) : null,
+      id
+    );
+    return result.changes > 0 && updateEnhancedNewsletterSections(id, enhanced.audienceSections);
+  }
+
+  const legacy = newsletter as Pick<Newsletter, 'subject' | 'introduction' | 'conclusion' | 'sections' | 'promptOfTheDay'>;
+  const result = db.prepare(`
+    UPDATE newsletters
+    SET subject = ?, introduction = ?, conclusion = ?, sections = ?, prompt_of_day = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(
+    legacy.subject,
+    legacy.introduction || '',
+    legacy.conclusion || '',
+    JSON.stringify(legacy.sections),
+    legacy.promptOfTheDay ? JSON.stringify(legacy.promptOfTheDay) : null,
+    id
+  );
+
+  if (result.changes > 0) {
+    console.log(`[NewsletterDb] Replaced content for newsletter: ${id}`);
+  }
+
+  return result.changes > 0;
+};
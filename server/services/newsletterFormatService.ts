@@ -11,6 +11,7 @@ interface ToolOfTheDay {
   url: string;
   whyNow: string;
   quickStart: string;
+  imageUrl?: string;
 }
 
 interface EnhancedAudienceSection {
@@ -40,6 +41,7 @@ interface EnhancedNewsletter {
   conclusion: string;
   subject?: string;
   promptOfTheDay?: PromptOfTheDay;
+  heroImage?: { imagePrompt: string; imageUrl?: string };
 }
 
 /**
@@ -61,6 +63,11 @@ const EMAIL_STYLES = {
   button: 'display: inline-block; padding: 12px 24px; background: #0a3d62; color: white; text-decoration: none; border-radius: 4px;',
 };
 
+/**
+ * Replaced with each recipient's signed unsubscribe URL at send time
+ */
+export const UNSUBSCRIBE_URL_PLACEHOLDER = '{{unsubscribe_url}}';
+
 /**
  * Escape HTML special characters
  */
@@ -118,11 +125,18 @@ const renderAudienceSection = (section: EnhancedAudienceSection): string => {
     ? `
       <div style="margin-top: 16px; font-size: 14px; color: #666;">
         <strong>Sources:</strong>
-        ${section.sources.map(s => `<a href="${escapeHtml(s.url)}" style="${EMAIL_STYLES.link}">${escapeHtml(s.title)}</a>`).join(', ')}
+        ${section.sources.map(s => s.url.startsWith('kb://')
+          ? escapeHtml(s.title)
+          : `<a href="${escapeHtml(s.url)}" style="${EMAIL_STYLES.link}">${escapeHtml(s.title)}</a>`).join(', ')}
       </div>
     `
     : '';
 
+  // Email has no copy button, so the CTA is rendered as a closing line
+  const ctaHtml = section.cta?.text
+    ? `<p style="${EMAIL_STYLES.content}"><strong>${escapeHtml(section.cta.text)}</strong></p>`
+    : '';
+
   return `
     <div style="${EMAIL_STYLES.section}">
       <div style="font-size: 12px; color: #0a3d62; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 8px;">
@@ -138,6 +152,7 @@ const renderAudienceSection = (section: EnhancedAudienceSection): string => {
         <div style="font-weight: bold; margin-bottom: 8px;">${escapeHtml(section.practicalPrompt.scenario)}</div>
         ${escapeHtml(section.practicalPrompt.prompt)}
       </div>
+      ${ctaHtml}
       ${sourcesHtml}
     </div>
   `;
@@ -177,6 +192,7 @@ const renderToolOfTheDay = (tool: ToolOfTheDay): string => {
       <h3 style="font-size: 18px; margin: 8px 0;">
         <a href="${escapeHtml(tool.url)}" style="${EMAIL_STYLES.link}">${escapeHtml(tool.name)}</a>
       </h3>
+      ${tool.imageUrl ? `<img src="${escapeHtml(tool.imageUrl)}" alt="${escapeHtml(tool.name)}" style="${EMAIL_STYLES.image}" />` : ''}
       <div style="${EMAIL_STYLES.callout}">
         <strong>Why now:</strong> ${markdownToHtml(tool.whyNow)}
       </div>
@@ -185,6 +201,30 @@ const renderToolOfTheDay = (tool: ToolOfTheDay): string => {
   `;
 };
 
+/**
+ * Render the unsubscribe line shown in the email footer
+ */
+const renderUnsubscribeLine = (unsubscribeUrl: string): string => `
+      <p>You're receiving this because you subscribed to this newsletter.
+        <a href="${unsubscribeUrl}" style="${EMAIL_STYLES.link}">Unsubscribe</a>
+      </p>`;
+
+/**
+ * Insert a recipient's unsubscribe URL into email HTML
+ * HTML rendered by this service carries the placeholder; HTML built elsewhere
+ * (e.g. the client-side email generator) gets a footer line appended instead.
+ */
+export const applyUnsubscribeLink = (html: string, unsubscribeUrl: string): string => {
+  if (html.includes(UNSUBSCRIBE_URL_PLACEHOLDER)) {
+    return html.split(UNSUBSCRIBE_URL_PLACEHOLDER).join(escapeHtml(unsubscribeUrl));
+  }
+
+  const footer = `<div style="${EMAIL_STYLES.footer}">${renderUnsubscribeLine(escapeHtml(unsubscribeUrl))}</div>`;
+  return /<\/body>/i.test(html)
+    ? html.replace(/<\/body>/i, `${footer}</body>`)
+    : `${html}${footer}`;
+};
+
 /**
  * Convert v1 Newsletter to HTML email
  */
@@ -221,6 +261,7 @@ const v1NewsletterToHtml = (newsletter: Newsletter): string => {
 
     <div style="${EMAIL_STYLES.footer}">
       <p>Generated with AI Newsletter Generator</p>
+      ${renderUnsubscribeLine(UNSUBSCRIBE_URL_PLACEHOLDER)}
     </div>
   </div>
 </body>
@@ -235,6 +276,9 @@ const v2NewsletterToHtml = (newsletter: EnhancedNewsletter, subject: string, cre
   const toolHtml = renderToolOfTheDay(newsletter.toolOfTheDay);
   const sectionsHtml = newsletter.audienceSections.map(s => renderAudienceSection(s)).join('');
   const promptHtml = newsletter.promptOfTheDay ? renderPromptOfTheDay(newsletter.promptOfTheDay) : '';
+  const heroHtml = newsletter.heroImage?.imageUrl
+    ? `<img src="${escapeHtml(newsletter.heroImage.imageUrl)}" alt="${escapeHtml(subject)}" style="${EMAIL_STYLES.image}" />`
+    : '';
 
   return `
 <!DOCTYPE html>
@@ -249,6 +293,7 @@ const v2NewsletterToHtml = (newsletter: EnhancedNewsletter, subject: string, cre
     <div style="${EMAIL_STYLES.header}">
       <h1 style="${EMAIL_STYLES.title}">${escapeHtml(subject)}</h1>
       <p style="${EMAIL_STYLES.subtitle}">${new Date(createdAt).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+      ${heroHtml}
     </div>
 
     <div style="${EMAIL_STYLES.section}">
@@ -267,6 +312,7 @@ const v2NewsletterToHtml = (newsletter: EnhancedNewsletter, subject: string, cre
 
     <div style="${EMAIL_STYLES.footer}">
       <p>Generated with AI Newsletter Generator</p>
+      ${renderUnsubscribeLine(UNSUBSCRIBE_URL_PLACEHOLDER)}
     </div>
   </div>
 </body>
@@ -274,13 +320,32 @@ const v2NewsletterToHtml = (newsletter: EnhancedNewsletter, subject: string, cre
   `;
 };
 
+/**
+ * Keep only the audience sections for the given audiences (all of them when none are given)
+ * The editor's note, tool of the day, prompt of the day and conclusion are shared by every variant.
+ */
+const forAudiences = (newsletter: EnhancedNewsletter, audienceIds?: string[]): EnhancedNewsletter =>
+  audienceIds && audienceIds.length > 0
+    ? { ...newsletter, audienceSections: newsletter.audienceSections.filter(s => audienceIds.includes(s.audienceId)) }
+    : newsletter;
+
+/**
+ * Get the audience IDs a newsletter has sections for (empty for v1 newsletters)
+ */
+export const getSectionAudienceIds = (data: NewsletterWithFormat): string[] => {
+  if (data.formatVersion !== 'v2') return [];
+  const sections = (data.newsletter as EnhancedNewsletter).audienceSections || [];
+  return Array.from(new Set(sections.map(s => s.audienceId)));
+};
+
 /**
  * Convert any newsletter format to HTML email
+ * For v2 newsletters, pass audience IDs to render a variant with only those audiences' sections.
  */
-export const newsletterToHtml = (data: NewsletterWithFormat): string => {
+export const newsletterToHtml = (data: NewsletterWithFormat, audienceIds?: string[]): string => {
   if (data.formatVersion === 'v2') {
     return v2NewsletterToHtml(
-      data.newsletter as EnhancedNewsletter,
+      forAudiences(data.newsletter as EnhancedNewsletter, audienceIds),
       data.subject,
       data.createdAt
     );
@@ -292,7 +357,7 @@ export const newsletterToHtml = (data: NewsletterWithFormat): string => {
 /**
  * Get plain text version for email fallback
  */
-export const newsletterToPlainText = (data: NewsletterWithFormat): string => {
+export const newsletterToPlainText = (data: NewsletterWithFormat, audienceIds?: string[]): string => {
   const lines: string[] = [];
 
   lines.push(data.subject);
@@ -300,7 +365,7 @@ export const newsletterToPlainText = (data: NewsletterWithFormat): string => {
   lines.push('');
 
   if (data.formatVersion === 'v2') {
-    const newsletter = data.newsletter as EnhancedNewsletter;
+    const newsletter = forAudiences(data.newsletter as EnhancedNewsletter, audienceIds);
     lines.push(newsletter.editorsNote.message);
     lines.push('');
 
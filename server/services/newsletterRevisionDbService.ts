@@ -0,0 +1,183 @@
+/**
+ * Newsletter Revision Database Service
+ * Immutable snapshots of a newsletter after each save
+ *
+ * Snapshots store images (data URLs) by reference: each distinct image is kept
+ * once per newsletter in newsletter_revision_images, so a text edit doesn't
+ * copy every image into a new revision.
+ */
+
+import { createHash } from 'crypto';
+import db from '../db/init.ts';
+import type {
+  Newsletter,
+  EnhancedNewsletter,
+  NewsletterRevision,
+  NewsletterRevisionSource,
+  NewsletterRevisionSummary,
+} from '../../types.ts';
+
+export interface RevisionSnapshot {
+  formatVersion: 'v1' | 'v2';
+  newsletter: Newsletter | EnhancedNewsletter;
+}
+
+interface DbRevisionRow {
+  id: number;
+  newsletter_id: string;
+  revision_number: number;
+  source: string;
+  author: string;
+  snapshot: string;
+  restored_from: number | null;
+  created_at: string;
+}
+
+/** Prefix of an image reference inside a stored snapshot */
+export const IMAGE_REF_PREFIX = 'revision-image:';
+
+const isImageData = (value: string): boolean => value.startsWith('data:image/');
+
+/**
+ * Replace image data URLs with references, storing each image once
+ */
+const externalizeImages = (newsletterId: string, value: unknown): unknown => {
+  if (typeof value === 'string') {
+    if (!isImageData(value)) return value;
+
+    const hash = createHash('sha256').update(value).digest('hex');
+    db.prepare(`
+      INSERT OR IGNORE INTO newsletter_revision_images (newsletter_id, hash, data) VALUES (?, ?, ?)
+    `).run(newsletterId, hash, value);
+    return `${IMAGE_REF_PREFIX}${hash}`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => externalizeImages(newsletterId, item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, externalizeImages(newsletterId, item)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Replace image references with the stored data URLs
+ */
+const internalizeImages = (newsletterId: string, value: unknown): unknown => {
+  if (typeof value === 'string') {
+    if (!value.startsWith(IMAGE_REF_PREFIX)) return value;
+
+    const row = db.prepare(`
+      SELECT data FROM newsletter_revision_images WHERE newsletter_id = ? AND hash = ?
+    `).get(newsletterId, value.slice(IMAGE_REF_PREFIX.length)) as { data: string } | undefined;
+    return row?.data;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => internalizeImages(newsletterId, item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, internalizeImages(newsletterId, item)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Convert database row to revision summary
+ */
+const rowToSummary = (row: Omit<DbRevisionRow, 'snapshot'>): NewsletterRevisionSummary => ({
+  id: row.id,
+  newsletterId: row.newsletter_id,
+  revisionNumber: row.revision_number,
+  source: row.source as NewsletterRevisionSource,
+  author: row.author,
+  restoredFrom: row.restored_from,
+  createdAt: row.created_at,
+});
+
+/**
+ * Record a new revision
+ *
+ * @returns The new revision's ID
+ */
+export const insertRevision = (
+  newsletterId: string,
+  source: NewsletterRevisionSource,
+  author: string,
+  snapshot: RevisionSnapshot,
+  restoredFrom: number | null = null
+): number => {
+  const insert = db.transaction(() => {
+    const { next } = db.prepare(`
+      SELECT COALESCE(MAX(revision_number), 0) + 1 AS next FROM newsletter_revisions WHERE newsletter_id = ?
+    `).get(newsletterId) as { next: number };
+
+    const stored = externalizeImages(newsletterId, snapshot);
+    const result = db.prepare(`
+      INSERT INTO newsletter_revisions (newsletter_id, revision_number, source, author, snapshot, restored_from)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(newsletterId, next, source, author, JSON.stringify(stored), restoredFrom);
+
+    return Number(result.lastInsertRowid);
+  });
+
+  return insert();
+};
+
+/**
+ * Whether a newsletter has any revisions yet
+ */
+export const hasRevisions = (newsletterId: string): boolean => {
+  return !!db.prepare(`SELECT 1 FROM newsletter_revisions WHERE newsletter_id = ? LIMIT 1`).get(newsletterId);
+};
+
+/**
+ * List a newsletter's revisions (newest first)
+ */
+export const getRevisions = (newsletterId: string): NewsletterRevisionSummary[] => {
+  const rows = db.prepare(`
+    SELECT id, newsletter_id, revision_number, source, author, restored_from, created_at
+    FROM newsletter_revisions
+    WHERE newsletter_id = ?
+    ORDER BY revision_number DESC
+  `).all(newsletterId) as Omit<DbRevisionRow, 'snapshot'>[];
+
+  return rows.map(rowToSummary);
+};
+
+/**
+ * Get one revision with its snapshot
+ *
+ * @param resolveImages - Return image data URLs (true) or the stored image references (false)
+ */
+export const getRevision = (
+  newsletterId: string,
+  revisionId: number,
+  resolveImages = true
+): NewsletterRevision | null => {
+  const row = db.prepare(`
+    SELECT * FROM newsletter_revisions WHERE newsletter_id = ? AND id = ?
+  `).get(newsletterId, revisionId) as DbRevisionRow | undefined;
+
+  if (!row) return null;
+
+  const stored = JSON.parse(row.snapshot) as RevisionSnapshot;
+  const snapshot = resolveImages ? internalizeImages(newsletterId, stored) as RevisionSnapshot : stored;
+
+  return {
+    ...rowToSummary(row),
+    formatVersion: snapshot.formatVersion,
+    newsletter: snapshot.newsletter,
+  };
+};
+
+/**
+ * Delete a newsletter's revisions and their images
+ */
+export const deleteRevisions = (newsletterId: string): void => {
+  db.prepare(`DELETE FROM newsletter_revisions WHERE newsletter_id = ?`).run(newsletterId);
+  db.prepare(`DELETE FROM newsletter_revision_images WHERE newsletter_id = ?`).run(newsletterId);
+};
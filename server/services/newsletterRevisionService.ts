@@ -0,0 +1,206 @@
+/**
+ * Newsletter Revision Service
+ * Revision history for saved newsletters: recording changes, field-level
+ * diffs between any two revisions, and restoring an earlier revision.
+ *
+ * Every write to a newsletter's content records a revision (see
+ * newsletterDbService.recordRevision); restoring writes the old content back
+ * as a new revision, so history is never rewritten.
+ */
+
+import * as newsletterDb from './newsletterDbService.ts';
+import * as revisionDb from './newsletterRevisionDbService.ts';
+import type {
+  Newsletter,
+  EnhancedNewsletter,
+  NewsletterRevision,
+  NewsletterRevisionDiff,
+  NewsletterRevisionFieldChange,
+  NewsletterRevisionSource,
+  NewsletterRevisionSummary,
+} from '../../types.ts';
+
+type RevisionLogAction = Parameters<typeof newsletterDb.logAction>[1];
+
+// Snapshot fields that describe the row rather than its content
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'verificationReport']);
+
+/**
+ * Record a revision for a change that was just written, and log the action
+ * linked to it
+ *
+ * @returns Revision ID, or null if the newsletter doesn't exist
+ */
+export const commitRevision = (
+  newsletterId: string,
+  source: NewsletterRevisionSource,
+  action: RevisionLogAction,
+  details?: Record<string, unknown>,
+  author?: string
+): number | null => {
+  const revisionId = newsletterDb.recordRevision(newsletterId, source, author);
+  if (revisionId !== null) {
+    newsletterDb.logAction(newsletterId, action, details, revisionId);
+  }
+  return revisionId;
+};
+
+/**
+ * List a newsletter's revisions (newest first)
+ *
+ * @returns null if the newsletter doesn't exist
+ */
+export const listRevisions = (newsletterId: string): NewsletterRevisionSummary[] | null => {
+  if (!newsletterDb.getNewsletterByIdWithFormat(newsletterId)) return null;
+  return revisionDb.getRevisions(newsletterId);
+};
+
+/**
+ * Get one revision with its full content
+ */
+export const getRevision = (newsletterId: string, revisionId: number): NewsletterRevision | null => {
+  return revisionDb.getRevision(newsletterId, revisionId);
+};
+
+/**
+ * Flatten a snapshot into "path -> value" pairs
+ *
+ * Arrays of objects are keyed by audienceId (sections) or url (sources) when
+ * present, so reordering or rewriting one section doesn't show as every
+ * following section changing.
+ */
+const flattenFields = (value: unknown, path: string, fields: Map<string, string>): void => {
+  if (value === null || value === undefined) return;
+
+  if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      fields.set(path, value.join(', '));
+      return;
+    }
+    value.forEach((item, index) => {
+      const record = item as Record<string, unknown>;
+      const key = record?.audienceId ?? record?.url ?? index;
+      flattenFields(item, `${path}[${key}]`, fields);
+    });
+    return;
+  }
+
+  if (typeof value === 'object') {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      if (!path && IGNORED_FIELDS.has(key)) continue;
+      flattenFields(item, path ? `${path}.${key}` : key, fields);
+    }
+    return;
+  }
+
+  fields.set(path, String(value));
+};
+
+const toSummary = (revision: NewsletterRevision): NewsletterRevisionSummary => ({
+  id: revision.id,
+  newsletterId: revision.newsletterId,
+  revisionNumber: revision.revisionNumber,
+  source: revision.source,
+  author: revision.author,
+  restoredFrom: revision.restoredFrom,
+  createdAt: revision.createdAt,
+});
+
+const isImageRef = (value: string | undefined): boolean =>
+  !!value && value.startsWith(revisionDb.IMAGE_REF_PREFIX);
+
+/**
+ * Describe an image reference without its data, e.g. "image 3fa2c1d9"
+ */
+const describeValue = (value: string | undefined): string | null => {
+  if (value === undefined) return null;
+  return isImageRef(value) ? `image ${value.slice(revisionDb.IMAGE_REF_PREFIX.length, revisionDb.IMAGE_REF_PREFIX.length + 8)}` : value;
+};
+
+/**
+ * Field-level diff between two revisions of a newsletter
+ *
+ * @returns null if either revision doesn't exist for this newsletter
+ */
+export const diffRevisions = (
+  newsletterId: string,
+  fromRevisionId: number,
+  toRevisionId: number
+): NewsletterRevisionDiff | null => {
+  // Compare stored image references, not the image data
+  const from = revisionDb.getRevision(newsletterId, fromRevisionId, false);
+  const to = revisionDb.getRevision(newsletterId, toRevisionId, false);
+  if (!from || !to) return null;
+
+  const fromFields = new Map<string, string>();
+  const toFields = new Map<string, string>();
+  flattenFields(from.newsletter, '', fromFields);
+  flattenFields(to.newsletter, '', toFields);
+
+  const changes: NewsletterRevisionFieldChange[] = [];
+  const paths = [...toFields.keys(), ...[...fromFields.keys()].filter(path => !toFields.has(path))];
+
+  for (const path of paths) {
+    const before = fromFields.get(path);
+    const after = toFields.get(path);
+    if (before === after) continue;
+
+    changes.push({
+      path,
+      change: before === undefined ? 'added' : after === undefined ? 'removed' : 'changed',
+      before: describeValue(before),
+      after: describeValue(after),
+      isImage: isImageRef(before) || isImageRef(after),
+    });
+  }
+
+  return { from: toSummary(from), to: toSummary(to), changes };
+};
+
+/**
+ * Restore a newsletter's content to an earlier revision
+ *
+ * The restored content is recorded as a new 'restore' revision.
+ * @returns null if the revision doesn't exist for this newsletter
+ * @throws {Error} If the revision's format no longer matches the newsletter
+ */
+export const restoreRevision = (
+  newsletterId: string,
+  revisionId: number,
+  author?: string
+): { revision: NewsletterRevisionSummary; formatVersion: 'v1' | 'v2'; newsletter: Newsletter | EnhancedNewsletter } | null => {
+  const revision = revisionDb.getRevision(newsletterId, revisionId);
+  if (!revision) return null;
+
+  const current = newsletterDb.getNewsletterByIdWithFormat(newsletterId);
+  if (!current) return null;
+  if (current.formatVersion !== revision.formatVersion) {
+    throw new Error(`Revision ${revision.revisionNumber} is ${revision.formatVersion} but the newsletter is ${current.formatVersion}`);
+  }
+
+  newsletterDb.replaceNewsletterContent(newsletterId, revision.formatVersion, revision.newsletter);
+
+  const restoredId = newsletterDb.recordRevision(newsletterId, 'restore', author, revision.id);
+  newsletterDb.logAction(newsletterId, 'restored', { revisionNumber: revision.revisionNumber }, restoredId);
+
+  const restored = toSummary(revisionDb.getRevision(newsletterId, restoredId!, false)!);
+  const saved = newsletterDb.getNewsletterByIdWithFormat(newsletterId)!;
+
+  console.log(`[NewsletterRevision] Restored ${newsletterId} to revision ${revision.revisionNumber}`);
+  return { revision: restored, formatVersion: saved.formatVersion, newsletter: saved.newsletter };
+};
+
+/**
+ * Save an editor's inline changes to a newsletter's content
+ *
+ * @returns The new revision's ID, or null if the newsletter doesn't exist
+ */
+export const saveInlineEdits = (
+  newsletterId: string,
+  formatVersion: 'v1' | 'v2',
+  newsletter: Newsletter | EnhancedNewsletter,
+  author?: string
+): number | null => {
+  if (!newsletterDb.replaceNewsletterContent(newsletterId, formatVersion, newsletter)) return null;
+  return commitRevision(newsletterId, 'inline_edit', 'edited', undefined, author);
+};
@@ -6,20 +6,25 @@
  * 2. Tracks all documents in SQLite for visibility
  * 3. Supports chat conversations with the knowledge base
  * 4. Can auto-index newsletter sources with deduplication
+ * 5. Files documents into named collections with free-form tags, and scopes
+ *    chats to collections
+ *
+ * Content is stored and searched by the configured backend (Gemini File
+ * Search or the local SQLite index, see external/rag); this service owns the
+ * document and chat records.
  *
  * @module services/persistentRagService
  */
 
-import { GoogleGenAI, Type } from '@google/genai';
-import { getApiKey, getAdminEmail } from './credentialLoader';
 import * as ragDb from './ragDbService';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
+import * as ragChunkDb from './ragChunkDbService';
+import * as ragRecrawlDb from './ragRecrawlDbService';
+import { getRagBackend, getRagBackendId, getOrCreatePersistentStore as getOrCreateGeminiStore } from '../external/rag';
 import type { ExtractedArticle } from './articleExtractorService';
 import { extractArticle } from './articleExtractorService';
 import type {
   RagDocument,
+  RagCollection,
   RagChat,
   RagMessage,
   RagSourceReference,
@@ -44,6 +49,14 @@ export interface ChatWithKnowledgeBaseResult {
   tokensUsed?: number;
 }
 
+/**
+ * Where a newly indexed document is filed
+ */
+export interface DocumentFiling {
+  collectionId?: string;
+  tags?: string[];
+}
+
 export interface IndexDocumentResult {
   document: RagDocument;
   success: boolean;
@@ -77,106 +90,59 @@ const DEFAULT_CONFIG: Required<PersistentRagConfig> = {
 };
 
 // ============================================================================
-// AI Client Management
+// Backend Management
 // ============================================================================
 
-let aiClient: GoogleGenAI | null = null;
-let persistentStoreName: string | null = null;
-
-/**
- * Initialize or retrieve the Gemini AI client
- */
-function getAiClient(): GoogleGenAI | null {
-  if (aiClient) return aiClient;
-
-  const adminEmail = getAdminEmail();
-  const apiKey = getApiKey('google_api_key', adminEmail || undefined);
-
-  if (!apiKey) {
-    console.warn('[PersistentRag] No Google API key found - RAG features disabled');
-    return null;
-  }
-
-  try {
-    aiClient = new GoogleGenAI({ apiKey });
-    console.log('[PersistentRag] Gemini AI client initialized');
-    return aiClient;
-  } catch (error) {
-    console.error('[PersistentRag] Failed to initialize Gemini client:', error);
-    return null;
-  }
-}
-
 /**
  * Check if RAG is available
  */
 export function isRagAvailable(): boolean {
-  const adminEmail = getAdminEmail();
-  const apiKey = getApiKey('google_api_key', adminEmail || undefined);
-  return !!apiKey;
+  return getRagBackend().isAvailable();
 }
 
-// ============================================================================
-// Persistent Store Management
-// ============================================================================
-
 /**
- * Get or create the persistent FileSearchStore
+ * Get or create the persistent Gemini FileSearchStore
  * Unlike ephemeral sessions, this store persists across app restarts
  */
 export async function getOrCreatePersistentStore(
   config: PersistentRagConfig = {}
 ): Promise<string | null> {
-  const ai = getAiClient();
-  if (!ai) return null;
-
-  // Check if we already have a store name in memory
-  if (persistentStoreName) {
-    return persistentStoreName;
-  }
-
-  // Check if store name is saved in config
-  const dbConfig = ragDb.getConfig();
-  if (dbConfig.geminiCacheName) {
-    // Verify the store still exists
-    try {
-      await ai.fileSearchStores.get({ name: dbConfig.geminiCacheName });
-      persistentStoreName = dbConfig.geminiCacheName;
-      console.log(`[PersistentRag] Using existing store: ${persistentStoreName}`);
-      return persistentStoreName;
-    } catch (error) {
-      console.warn('[PersistentRag] Stored FileSearchStore no longer exists, creating new one');
-    }
-  }
-
-  // Create new persistent store
-  try {
-    const prefix = config.storagePrefix || DEFAULT_CONFIG.storagePrefix;
-    const displayName = `${prefix}-${Date.now()}`;
-
-    console.log(`[PersistentRag] Creating new persistent store: ${displayName}`);
-
-    const store = await ai.fileSearchStores.create({
-      config: { displayName },
-    });
-
-    persistentStoreName = store.name;
-
-    // Save to database config
-    ragDb.updateConfig({ geminiCacheName: store.name });
-
-    console.log(`[PersistentRag] Store created: ${store.name}`);
-    return persistentStoreName;
-  } catch (error) {
-    console.error('[PersistentRag] Failed to create persistent store:', error);
-    return null;
-  }
+  return getOrCreateGeminiStore(config.storagePrefix || DEFAULT_CONFIG.storagePrefix);
 }
 
 // ============================================================================
 // Document Management
 // ============================================================================
 
+/**
+ * Text indexed for an article fetched from a URL
+ */
+export function formatFetchedArticle(url: string, title: string, content: string): string {
+  return `
+TITLE: ${title}
+URL: ${url}
+
+CONTENT:
+${content}
+`.trim();
+}
+
+/**
+ * File an already indexed document that is being added again: it joins the
+ * requested collection if it isn't in one yet, and gains the requested tags
+ */
+function fileExistingDocument(document: RagDocument, filing: DocumentFiling): RagDocument {
+  const collectionId = !document.collectionId && filing.collectionId ? filing.collectionId : undefined;
+  const newTags = (filing.tags || []).filter(tag => !document.tags.includes(tag.trim().toLowerCase()));
+  if (!collectionId && newTags.length === 0) return document;
+
+  ragDb.updateDocumentOrganization(document.id, {
+    collectionId,
+    tags: newTags.length > 0 ? [...document.tags, ...newTags] : undefined,
+  });
+  return ragDb.getDocumentById(document.id)!;
+}
+
 /**
  * Index a document into the persistent knowledge base
  *
@@ -193,6 +159,8 @@ export async function indexDocument(
     sourceUrl?: string;
     newsletterId?: string;
     metadata?: Record<string, unknown>;
+    collectionId?: string;
+    tags?: string[];
   },
   config: PersistentRagConfig = {}
 ): Promise<IndexDocumentResult> {
@@ -202,7 +170,7 @@ export async function indexDocument(
 
   if (existing) {
     console.log(`[PersistentRag] Document already exists: ${existing.filename}`);
-    return { document: existing, success: true };
+    return { document: fileExistingDocument(existing, options), success: true };
   }
 
   // Create document record in pending state
@@ -215,66 +183,24 @@ export async function indexDocument(
     newsletterId: options.newsletterId,
     contentHash,
     metadata: options.metadata,
+    collectionId: options.collectionId,
+    tags: options.tags,
   });
 
-  // Get or create persistent store
-  const storeName = await getOrCreatePersistentStore(config);
-  if (!storeName) {
-    ragDb.updateDocumentStatus(document.id, 'failed', {
-      errorMessage: 'Failed to get or create persistent store',
-    });
-    return {
-      document: ragDb.getDocumentById(document.id)!,
-      success: false,
-      error: 'Store not available',
-    };
-  }
-
-  const ai = getAiClient();
-  if (!ai) {
-    ragDb.updateDocumentStatus(document.id, 'failed', {
-      errorMessage: 'AI client not available',
-    });
-    return {
-      document: ragDb.getDocumentById(document.id)!,
-      success: false,
-      error: 'AI client not available',
-    };
-  }
-
-  // Create temp file for upload
-  const tempDir = path.join(os.tmpdir(), 'persistent-rag');
-  if (!fs.existsSync(tempDir)) {
-    fs.mkdirSync(tempDir, { recursive: true });
-  }
-
-  // Sanitize filename and limit length to avoid ENAMETOOLONG errors
-  const safeFilename = options.filename.replace(/[^a-zA-Z0-9-_.]/g, '_').substring(0, 100);
-  // Determine file extension for mimeType inference
-  const extension = options.contentType === 'pdf' ? '.pdf' : '.txt';
-  const tempFilePath = path.join(tempDir, `${document.id}-${safeFilename}${extension}`);
+  const backend = getRagBackend();
 
   try {
-    fs.writeFileSync(tempFilePath, content, 'utf-8');
-
-    // Upload to Gemini FileSearchStore
-    const uploadResult = await ai.fileSearchStores.uploadToFileSearchStore({
-      fileSearchStoreName: storeName,
-      file: tempFilePath,
-      config: {
-        displayName: options.filename.substring(0, 100),
-      },
-    });
+    const result = await backend.indexDocument(document, content);
 
     // Update document status
     ragDb.updateDocumentStatus(document.id, 'indexed', {
-      geminiFileId: uploadResult.name,
+      geminiFileId: result.backendFileId || undefined,
     });
 
     // Sync config stats
     ragDb.syncConfigStats();
 
-    console.log(`[PersistentRag] Indexed document: ${options.filename}`);
+    console.log(`[PersistentRag] Indexed document (${backend.id}): ${options.filename}`);
 
     return {
       document: ragDb.getDocumentById(document.id)!,
@@ -291,13 +217,6 @@ export async function indexDocument(
       success: false,
       error: errorMessage,
     };
-  } finally {
-    // Cleanup temp file
-    try {
-      if (fs.existsSync(tempFilePath)) {
-        fs.unlinkSync(tempFilePath);
-      }
-    } catch { /* ignore cleanup errors */ }
   }
 }
 
@@ -308,7 +227,8 @@ export async function indexFromUrl(
   url: string,
   content: string,
   title: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  filing: DocumentFiling = {}
 ): Promise<IndexDocumentResult> {
   return indexDocument(content, {
     filename: title || url,
@@ -316,6 +236,7 @@ export async function indexFromUrl(
     sourceType: 'url',
     sourceUrl: url,
     metadata: { ...metadata, url, title },
+    ...filing,
   });
 }
 
@@ -325,13 +246,15 @@ export async function indexFromUrl(
 export async function indexPastedText(
   text: string,
   title: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  filing: DocumentFiling = {}
 ): Promise<IndexDocumentResult> {
   return indexDocument(text, {
     filename: title,
     contentType: 'text',
     sourceType: 'paste',
     metadata: { ...metadata, title },
+    ...filing,
   });
 }
 
@@ -343,7 +266,8 @@ export async function fetchAndIndexUrl(
   url: string,
   title: string,
   sourceType: 'trending' | 'tool' | 'suggestion' | 'archive' = 'trending',
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  filing: DocumentFiling = {}
 ): Promise<FetchAndIndexResult> {
   console.log(`[PersistentRag] fetchAndIndexUrl: ${url}`);
 
@@ -355,7 +279,7 @@ export async function fetchAndIndexUrl(
     if (existing.status === 'indexed') {
       console.log(`[PersistentRag] URL already indexed: ${url}`);
       return {
-        document: existing,
+        document: fileExistingDocument(existing, filing),
         success: true,
         wasAlreadyIndexed: true,
       };
@@ -380,13 +304,7 @@ export async function fetchAndIndexUrl(
   }
 
   // Format content with metadata
-  const content = `
-TITLE: ${extracted.title || title}
-URL: ${url}
-
-CONTENT:
-${extracted.content}
-`.trim();
+  const content = formatFetchedArticle(url, extracted.title || title, extracted.content);
 
   // Map sourceType to document sourceType
   const docSourceType: ragDb.DocumentSourceType =
@@ -406,6 +324,7 @@ ${extracted.content}
       originalSourceType: sourceType,
       extractedTitle: extracted.title,
     },
+    ...filing,
   });
 
   return {
@@ -426,6 +345,8 @@ export async function fetchAndIndexBatch(
     title: string;
     sourceType: 'trending' | 'tool' | 'suggestion' | 'archive';
     metadata?: Record<string, unknown>;
+    collectionId?: string;
+    tags?: string[];
   }>,
   concurrency: number = 5
 ): Promise<FetchAndIndexBatchResult> {
@@ -445,7 +366,8 @@ export async function fetchAndIndexBatch(
           source.url,
           source.title,
           source.sourceType,
-          source.metadata
+          source.metadata,
+          { collectionId: source.collectionId, tags: source.tags }
         );
         return { url: source.url, result };
       })
@@ -502,6 +424,33 @@ export async function fetchAndIndexBatch(
   };
 }
 
+/**
+ * Replace an indexed document's content with a newer version of it
+ * (the document keeps its ID, collection and tags)
+ *
+ * @throws {Error} If the backend fails to index the new content; the document
+ * keeps its current content and record
+ */
+export async function reindexDocument(
+  document: RagDocument,
+  content: string,
+  metadata: Record<string, unknown> | null
+): Promise<RagDocument> {
+  const backend = getRagBackend();
+  const result = await backend.indexDocument(document, content);
+
+  ragDb.updateDocumentContent(document.id, {
+    contentHash: ragDb.generateContentHash(content),
+    sizeBytes: Buffer.byteLength(content, 'utf-8'),
+    metadata,
+    geminiFileId: result.backendFileId,
+  });
+  ragDb.syncConfigStats();
+
+  console.log(`[PersistentRag] Re-indexed document (${backend.id}): ${document.filename}`);
+  return ragDb.getDocumentById(document.id)!;
+}
+
 /**
  * Get all indexed source URLs
  * Used by frontend to check which sources are already indexed
@@ -580,9 +529,18 @@ export async function deleteDocument(documentId: string): Promise<boolean> {
     return false;
   }
 
-  // If document was indexed in Gemini, we can't delete individual files from FileSearchStore
-  // We can only track deletion locally and it will be excluded from future queries
-  // Note: Gemini FileSearchStore doesn't support per-file deletion
+  // Remove the content from the backend (a no-op on Gemini, which can't delete
+  // individual files from its FileSearchStore)
+  try {
+    await getRagBackend().deleteDocument(document);
+  } catch (error) {
+    console.error(`[PersistentRag] Backend delete failed for ${document.filename}:`, error);
+  }
+
+  // Local chunks are removed whichever backend is active, so a backend switch
+  // never leaves orphans
+  ragChunkDb.deleteDocumentChunks(documentId);
+  ragRecrawlDb.deleteDocumentHistory(documentId);
 
   // Delete from local database
   const deleted = ragDb.deleteDocument(documentId);
@@ -600,12 +558,43 @@ export async function deleteDocument(documentId: string): Promise<boolean> {
 export function getDocuments(options?: {
   status?: ragDb.DocumentStatus;
   sourceType?: ragDb.DocumentSourceType;
+  collectionId?: string | null;
+  tag?: string;
   limit?: number;
   offset?: number;
 }): RagDocument[] {
   return ragDb.getDocuments(options);
 }
 
+/**
+ * Move a document to a collection (null for none) and/or replace its tags
+ */
+export function updateDocumentOrganization(
+  documentId: string,
+  updates: { collectionId?: string | null; tags?: string[] }
+): RagDocument | null {
+  if (!ragDb.updateDocumentOrganization(documentId, updates)) return null;
+  return ragDb.getDocumentById(documentId);
+}
+
+/**
+ * Set a document's re-crawl policy (null follows its collection's)
+ */
+export function updateDocumentRecrawlPolicy(
+  documentId: string,
+  policy: ragDb.RecrawlPolicy | null
+): RagDocument | null {
+  if (!ragDb.updateDocumentRecrawlPolicy(documentId, policy)) return null;
+  return ragDb.getDocumentById(documentId);
+}
+
+/**
+ * Get all document tags with their document counts
+ */
+export function getDocumentTags(): { tag: string; count: number }[] {
+  return ragDb.getDocumentTags();
+}
+
 /**
  * Get storage statistics
  */
@@ -613,11 +602,79 @@ export function getStorageStats(): RagStorageStats {
   return ragDb.getStorageStats();
 }
 
+/**
+ * Get the chunks a document was split into (local backend only)
+ */
+export function getDocumentChunks(documentId: string): ragChunkDb.RagChunk[] {
+  return ragChunkDb.getDocumentChunks(documentId);
+}
+
 /**
  * Get RAG configuration
  */
 export function getConfig(): RagConfig {
-  return ragDb.getConfig();
+  return { ...ragDb.getConfig(), backend: getRagBackendId() };
+}
+
+// ============================================================================
+// Collection Operations (Delegated to ragDbService)
+// ============================================================================
+
+/**
+ * Get all collections with their document counts
+ */
+export function getCollections(): RagCollection[] {
+  return ragDb.getCollections();
+}
+
+/**
+ * Get a collection by ID
+ */
+export function getCollectionById(id: string): RagCollection | null {
+  return ragDb.getCollectionById(id);
+}
+
+/**
+ * Get a collection by name (case-insensitive)
+ */
+export function getCollectionByName(name: string): RagCollection | null {
+  return ragDb.getCollectionByName(name);
+}
+
+/**
+ * Create a collection
+ */
+export function createCollection(
+  name: string,
+  description?: string,
+  recrawlPolicy?: ragDb.RecrawlPolicy
+): RagCollection {
+  return ragDb.createCollection({ name, description, recrawlPolicy });
+}
+
+/**
+ * Update a collection's name, description and/or re-crawl policy
+ */
+export function updateCollection(
+  id: string,
+  updates: { name?: string; description?: string | null; recrawlPolicy?: ragDb.RecrawlPolicy }
+): RagCollection | null {
+  if (!ragDb.updateCollection(id, updates)) return null;
+  return ragDb.getCollectionById(id);
+}
+
+/**
+ * Delete a collection; its documents stay in the knowledge base unfiled
+ */
+export function deleteCollection(id: string): boolean {
+  return ragDb.deleteCollection(id);
+}
+
+/**
+ * Chats scoped to this collection alone (the collection can't be deleted while they are)
+ */
+export function getChatsScopedOnlyTo(collectionId: string): RagChat[] {
+  return ragDb.getChatsScopedOnlyTo(collectionId);
 }
 
 // ============================================================================
@@ -630,75 +687,40 @@ export function getConfig(): RagConfig {
  * @param message - User's message/question
  * @param chatHistory - Previous messages for context
  * @param config - Optional configuration
+ * @param collectionIds - Collections to answer from (empty for the whole knowledge base)
  * @returns Response with sources
  */
 export async function chatWithKnowledgeBase(
   message: string,
   chatHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [],
-  config: PersistentRagConfig = {}
+  config: PersistentRagConfig = {},
+  collectionIds: string[] = []
 ): Promise<ChatWithKnowledgeBaseResult> {
-  const ai = getAiClient();
-  const storeName = await getOrCreatePersistentStore(config);
+  const backend = getRagBackend();
 
-  if (!ai || !storeName) {
+  if (!backend.isAvailable()) {
     return {
       response: 'Knowledge base is not available. Please check your API configuration.',
       sources: [],
     };
   }
 
-  const modelName = config.modelName || DEFAULT_CONFIG.modelName;
-
   try {
-    // Build conversation context
-    const conversationContext = chatHistory
-      .slice(-10) // Last 10 messages for context
-      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-      .join('\n\n');
-
-    const prompt = conversationContext
-      ? `Previous conversation:\n${conversationContext}\n\nUser: ${message}\n\nBased on the knowledge base documents, please respond to the user's message. If the information isn't in the knowledge base, say so clearly.`
-      : `User question: ${message}\n\nBased on the knowledge base documents, please provide a helpful response. If the information isn't in the knowledge base, say so clearly.`;
-
-    console.log(`[PersistentRag] Chat query: "${message.substring(0, 50)}..."`);
-
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        tools: [
-          {
-            fileSearch: {
-              fileSearchStoreNames: [storeName],
-            },
-          },
-        ],
-      },
+    const scopeLabel = collectionIds.length > 0 ? `${collectionIds.length} collection(s)` : 'all documents';
+    console.log(`[PersistentRag] Chat query (${backend.id}, ${scopeLabel}): "${message.substring(0, 50)}..."`);
+
+    const result = await backend.chat({
+      message,
+      history: chatHistory,
+      modelName: config.modelName,
+      scope: { collectionIds },
     });
 
-    const responseText = response.text || 'No response generated.';
-
-    // Extract grounding/source information
-    const sources: RagSourceReference[] = [];
-    const groundingMetadata = (response as any).groundingMetadata;
-
-    if (groundingMetadata?.groundingChunks) {
-      for (const chunk of groundingMetadata.groundingChunks) {
-        if (chunk.retrievedContext) {
-          sources.push({
-            documentId: chunk.retrievedContext.uri || 'unknown',
-            filename: chunk.retrievedContext.title || 'Unknown source',
-            snippet: chunk.retrievedContext.text?.substring(0, 200),
-          });
-        }
-      }
-    }
-
-    console.log(`[PersistentRag] Chat response generated with ${sources.length} sources`);
+    console.log(`[PersistentRag] Chat response generated with ${result.sources.length} sources`);
 
     return {
-      response: responseText,
-      sources,
+      response: result.response,
+      sources: result.sources,
     };
   } catch (error) {
     console.error('[PersistentRag] Chat failed:', error);
@@ -714,10 +736,10 @@ export async function chatWithKnowledgeBase(
 // ============================================================================
 
 /**
- * Create a new chat
+ * Create a new chat, optionally scoped to collections
  */
-export function createChat(title: string): RagChat {
-  return ragDb.createChat(title);
+export function createChat(title: string, collectionIds: string[] = []): RagChat {
+  return ragDb.createChat(title, collectionIds);
 }
 
 /**
@@ -741,6 +763,13 @@ export function updateChatTitle(id: string, title: string): boolean {
   return ragDb.updateChatTitle(id, title);
 }
 
+/**
+ * Update the collections a chat searches (empty for the whole knowledge base)
+ */
+export function updateChatScope(id: string, collectionIds: string[]): boolean {
+  return ragDb.updateChatScope(id, collectionIds);
+}
+
 /**
  * Delete a chat
  */
@@ -788,8 +817,9 @@ export async function sendChatMessage(
     content: m.content,
   }));
 
-  // Get AI response with RAG
-  const result = await chatWithKnowledgeBase(message, history);
+  // Get AI response with RAG, from the chat's collections
+  const chat = getChatById(chatId);
+  const result = await chatWithKnowledgeBase(message, history, {}, chat?.collectionIds || []);
 
   // Add assistant message
   const assistantMessage = addMessage(chatId, 'assistant', result.response, result.sources);
@@ -817,16 +847,31 @@ export default {
   indexNewsletterSources,
   deleteDocument,
   getDocuments,
+  getDocumentChunks,
+  updateDocumentOrganization,
+  updateDocumentRecrawlPolicy,
+  reindexDocument,
+  getDocumentTags,
   getStorageStats,
   getConfig,
   getIndexedSourceUrls,
 
+  // Collection operations
+  getCollections,
+  getCollectionById,
+  getCollectionByName,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  getChatsScopedOnlyTo,
+
   // Chat operations
   chatWithKnowledgeBase,
   createChat,
   getChats,
   getChatById,
   updateChatTitle,
+  updateChatScope,
   deleteChat,
   addMessage,
   getChatMessages,
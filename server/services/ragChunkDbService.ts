@@ -0,0 +1,207 @@
+/**
+ * RAG Chunk Database Service
+ * Chunked document text for the local knowledge base backend, searched with
+ * SQLite FTS5 (BM25) and optionally with stored embeddings
+ */
+
+import db from '../db/init.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RagChunk {
+  id: number;
+  documentId: string;
+  chunkIndex: number;
+  content: string;
+  embeddingModel: string | null;
+  createdAt: string;
+}
+
+export interface RagChunkInput {
+  content: string;
+  embedding?: number[];
+}
+
+/**
+ * Chunk of an indexed document, with the document fields search results need
+ */
+export interface RagChunkHit {
+  id: number;
+  documentId: string;
+  filename: string;
+  sourceUrl: string | null;
+  content: string;
+}
+
+export interface RagChunkBm25Hit extends RagChunkHit {
+  /** FTS5 bm25(): lower is better */
+  score: number;
+}
+
+export interface RagChunkEmbedding extends RagChunkHit {
+  embedding: number[];
+}
+
+// ============================================================================
+// Database Row Types
+// ============================================================================
+
+interface DbChunkRow {
+  id: number;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  embedding_model: string | null;
+  created_at: string;
+}
+
+interface DbChunkHitRow {
+  id: number;
+  document_id: string;
+  filename: string;
+  source_url: string | null;
+  content: string;
+}
+
+const rowToChunk = (row: DbChunkRow): RagChunk => ({
+  id: row.id,
+  documentId: row.document_id,
+  chunkIndex: row.chunk_index,
+  content: row.content,
+  embeddingModel: row.embedding_model,
+  createdAt: row.created_at,
+});
+
+const rowToHit = (row: DbChunkHitRow): RagChunkHit => ({
+  id: row.id,
+  documentId: row.document_id,
+  filename: row.filename,
+  sourceUrl: row.source_url,
+  content: row.content,
+});
+
+/**
+ * SQL condition restricting rag_documents (aliased d) to collections
+ * (no condition when no collections are given)
+ */
+const collectionFilter = (collectionIds?: string[]): { sql: string; params: string[] } => {
+  if (!collectionIds || collectionIds.length === 0) return { sql: '', params: [] };
+  return {
+    sql: ` AND d.collection_id IN (${collectionIds.map(() => '?').join(', ')})`,
+    params: collectionIds,
+  };
+};
+
+/**
+ * Turn free text into an FTS5 query matching any of its words
+ * (quoted, so punctuation and FTS5 operators in user input are inert)
+ */
+const toFtsQuery = (text: string): string | null => {
+  const terms = [...new Set((text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1))];
+  return terms.length > 0 ? terms.map(t => `"${t}"`).join(' OR ') : null;
+};
+
+// ============================================================================
+// Chunk Operations
+// ============================================================================
+
+/**
+ * Replace all chunks of a document
+ */
+export const replaceDocumentChunks = (
+  documentId: string,
+  chunks: RagChunkInput[],
+  embeddingModel: string | null = null
+): void => {
+  const insert = db.prepare(`
+    INSERT INTO rag_chunks (document_id, chunk_index, content, embedding, embedding_model)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const replaceAll = db.transaction(() => {
+    db.prepare('DELETE FROM rag_chunks WHERE document_id = ?').run(documentId);
+    chunks.forEach((chunk, index) => {
+      insert.run(
+        documentId,
+        index,
+        chunk.content,
+        chunk.embedding ? JSON.stringify(chunk.embedding) : null,
+        chunk.embedding ? embeddingModel : null
+      );
+    });
+  });
+
+  replaceAll();
+  console.log(`[RagChunkDb] Stored ${chunks.length} chunks for document: ${documentId}`);
+};
+
+/**
+ * Get a document's chunks in order
+ */
+export const getDocumentChunks = (documentId: string): RagChunk[] => {
+  const rows = db.prepare(`
+    SELECT id, document_id, chunk_index, content, embedding_model, created_at
+    FROM rag_chunks
+    WHERE document_id = ?
+    ORDER BY chunk_index
+  `).all(documentId) as DbChunkRow[];
+
+  return rows.map(rowToChunk);
+};
+
+/**
+ * Delete a document's chunks
+ */
+export const deleteDocumentChunks = (documentId: string): number => {
+  const result = db.prepare('DELETE FROM rag_chunks WHERE document_id = ?').run(documentId);
+  return result.changes;
+};
+
+/**
+ * Full-text search over chunks of indexed documents, best BM25 score first,
+ * optionally only in the given collections
+ */
+export const searchChunksBm25 = (query: string, limit: number, collectionIds?: string[]): RagChunkBm25Hit[] => {
+  const ftsQuery = toFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  const filter = collectionFilter(collectionIds);
+
+  const rows = db.prepare(`
+    SELECT c.id, c.document_id, d.filename, d.source_url, c.content, bm25(rag_chunks_fts) AS score
+    FROM rag_chunks_fts
+    JOIN rag_chunks c ON c.id = rag_chunks_fts.rowid
+    JOIN rag_documents d ON d.id = c.document_id
+    WHERE rag_chunks_fts MATCH ? AND d.status = 'indexed'${filter.sql}
+    ORDER BY score
+    LIMIT ?
+  `).all(ftsQuery, ...filter.params, limit) as Array<DbChunkHitRow & { score: number }>;
+
+  return rows.map(row => ({ ...rowToHit(row), score: row.score }));
+};
+
+/**
+ * Embeddings of all indexed chunks made with one model, optionally only in
+ * the given collections
+ */
+export const getChunkEmbeddings = (embeddingModel: string, collectionIds?: string[]): RagChunkEmbedding[] => {
+  const filter = collectionFilter(collectionIds);
+  const rows = db.prepare(`
+    SELECT c.id, c.document_id, d.filename, d.source_url, c.content, c.embedding
+    FROM rag_chunks c
+    JOIN rag_documents d ON d.id = c.document_id
+    WHERE c.embedding_model = ? AND c.embedding IS NOT NULL AND d.status = 'indexed'${filter.sql}
+  `).all(embeddingModel, ...filter.params) as Array<DbChunkHitRow & { embedding: string }>;
+
+  return rows.map(row => ({ ...rowToHit(row), embedding: JSON.parse(row.embedding) }));
+};
+
+/**
+ * Get the total number of chunks
+ */
+export const getChunkCount = (): number => {
+  const result = db.prepare('SELECT COUNT(*) as count FROM rag_chunks').get() as { count: number };
+  return result.count;
+};
@@ -1,6 +1,6 @@
 /**
  * RAG Database Service
- * CRUD operations for RAG documents, chats, and messages stored in SQLite
+ * CRUD operations for RAG documents, collections, chats, and messages stored in SQLite
  */
 
 import db from '../db/init.ts';
@@ -14,6 +14,8 @@ export type DocumentStatus = 'pending' | 'indexed' | 'failed';
 export type DocumentSourceType = 'manual' | 'newsletter' | 'archive' | 'url' | 'paste';
 export type DocumentContentType = 'pdf' | 'txt' | 'md' | 'html' | 'text';
 export type MessageRole = 'user' | 'assistant';
+export type RecrawlPolicy = 'daily' | 'weekly' | 'never';
+export type LinkStatus = 'ok' | 'broken';
 
 export interface RagDocument {
   id: string;
@@ -30,11 +32,31 @@ export interface RagDocument {
   sourceUrl: string | null;
   newsletterId: string | null;
   contentHash: string | null;
+  collectionId: string | null;
+  tags: string[];
+  /** Re-crawl policy; null follows the collection's */
+  recrawlPolicy: RecrawlPolicy | null;
+  linkStatus: LinkStatus;
+  lastCheckedAt: string | null;
+  lastCheckError: string | null;
+}
+
+export interface RagCollection {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Re-crawl policy for the collection's URL documents */
+  recrawlPolicy: RecrawlPolicy;
+  documentCount: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface RagChat {
   id: string;
   title: string;
+  /** Collections the chat searches; empty means the whole knowledge base */
+  collectionIds: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -89,11 +111,28 @@ interface DbDocumentRow {
   source_url: string | null;
   newsletter_id: string | null;
   content_hash: string | null;
+  collection_id: string | null;
+  tags: string | null;
+  recrawl_policy: string | null;
+  link_status: string;
+  last_checked_at: string | null;
+  last_check_error: string | null;
+}
+
+interface DbCollectionRow {
+  id: string;
+  name: string;
+  description: string | null;
+  recrawl_policy: string | null;
+  document_count: number;
+  created_at: string;
+  updated_at: string;
 }
 
 interface DbChatRow {
   id: string;
   title: string;
+  collection_ids: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -126,6 +165,12 @@ const generateDocumentId = (): string => {
   return `doc_${timestamp}_${random}`;
 };
 
+const generateCollectionId = (): string => {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).substring(2, 8);
+  return `col_${timestamp}_${random}`;
+};
+
 const generateChatId = (): string => {
   const timestamp = Date.now();
   const random = Math.random().toString(36).substring(2, 8);
@@ -145,6 +190,16 @@ export const generateContentHash = (content: string): string => {
   return crypto.createHash('sha256').update(content).digest('hex').substring(0, 32);
 };
 
+/**
+ * Normalize free-form tags: trimmed, lowercase, single-spaced, no duplicates
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const normalized = tags
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(tag => tag.length > 0);
+  return [...new Set(normalized)];
+};
+
 // ============================================================================
 // Row Converters
 // ============================================================================
@@ -164,11 +219,28 @@ const rowToDocument = (row: DbDocumentRow): RagDocument => ({
   sourceUrl: row.source_url,
   newsletterId: row.newsletter_id,
   contentHash: row.content_hash,
+  collectionId: row.collection_id,
+  tags: row.tags ? JSON.parse(row.tags) : [],
+  recrawlPolicy: row.recrawl_policy as RecrawlPolicy | null,
+  linkStatus: row.link_status as LinkStatus,
+  lastCheckedAt: row.last_checked_at,
+  lastCheckError: row.last_check_error,
+});
+
+const rowToCollection = (row: DbCollectionRow): RagCollection => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  recrawlPolicy: (row.recrawl_policy as RecrawlPolicy | null) || 'never',
+  documentCount: row.document_count,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
 });
 
 const rowToChat = (row: DbChatRow): RagChat => ({
   id: row.id,
   title: row.title,
+  collectionIds: row.collection_ids ? JSON.parse(row.collection_ids) : [],
   createdAt: row.created_at,
   updatedAt: row.updated_at,
 });
@@ -198,12 +270,15 @@ export const createDocument = (doc: {
   newsletterId?: string;
   contentHash?: string;
   metadata?: Record<string, unknown>;
+  collectionId?: string;
+  tags?: string[];
 }): RagDocument => {
   const id = generateDocumentId();
+  const tags = normalizeTags(doc.tags || []);
 
   const stmt = db.prepare(`
-    INSERT INTO rag_documents (id, filename, content_type, source_type, size_bytes, source_url, newsletter_id, content_hash, metadata, status)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
+    INSERT INTO rag_documents (id, filename, content_type, source_type, size_bytes, source_url, newsletter_id, content_hash, metadata, collection_id, tags, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
   `);
 
   stmt.run(
@@ -215,7 +290,9 @@ export const createDocument = (doc: {
     doc.sourceUrl || null,
     doc.newsletterId || null,
     doc.contentHash || null,
-    doc.metadata ? JSON.stringify(doc.metadata) : null
+    doc.metadata ? JSON.stringify(doc.metadata) : null,
+    doc.collectionId || null,
+    tags.length > 0 ? JSON.stringify(tags) : null
   );
 
   console.log(`[RagDb] Created document: ${doc.filename} (${id})`);
@@ -226,10 +303,13 @@ export const createDocument = (doc: {
 
 /**
  * Get all documents with optional filters
+ * (collectionId null selects documents that aren't in a collection)
  */
 export const getDocuments = (options?: {
   status?: DocumentStatus;
   sourceType?: DocumentSourceType;
+  collectionId?: string | null;
+  tag?: string;
   limit?: number;
   offset?: number;
 }): RagDocument[] => {
@@ -246,6 +326,18 @@ export const getDocuments = (options?: {
     params.push(options.sourceType);
   }
 
+  if (options?.collectionId === null) {
+    query += ' AND collection_id IS NULL';
+  } else if (options?.collectionId) {
+    query += ' AND collection_id = ?';
+    params.push(options.collectionId);
+  }
+
+  if (options?.tag) {
+    query += ' AND EXISTS (SELECT 1 FROM json_each(rag_documents.tags) WHERE value = ?)';
+    params.push(options.tag.trim().toLowerCase());
+  }
+
   query += ' ORDER BY created_at DESC';
 
   if (options?.limit) {
@@ -340,6 +432,99 @@ export const updateDocumentStatus = (
   return false;
 };
 
+/**
+ * Move a document to a collection and/or replace its tags
+ * (collectionId null removes it from its collection)
+ */
+export const updateDocumentOrganization = (
+  id: string,
+  updates: { collectionId?: string | null; tags?: string[] }
+): boolean => {
+  const setClauses: string[] = [];
+  const params: (string | null)[] = [];
+
+  if (updates.collectionId !== undefined) {
+    setClauses.push('collection_id = ?');
+    params.push(updates.collectionId);
+  }
+
+  if (updates.tags !== undefined) {
+    const tags = normalizeTags(updates.tags);
+    setClauses.push('tags = ?');
+    params.push(tags.length > 0 ? JSON.stringify(tags) : null);
+  }
+
+  if (setClauses.length === 0) {
+    return getDocumentById(id) !== null;
+  }
+
+  params.push(id);
+  const result = db.prepare(`UPDATE rag_documents SET ${setClauses.join(', ')} WHERE id = ?`).run(...params);
+
+  if (result.changes > 0) {
+    console.log(`[RagDb] Updated document organization: ${id}`);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Set a document's re-crawl policy (null follows its collection's)
+ */
+export const updateDocumentRecrawlPolicy = (id: string, policy: RecrawlPolicy | null): boolean => {
+  const result = db.prepare('UPDATE rag_documents SET recrawl_policy = ? WHERE id = ?').run(policy, id);
+
+  if (result.changes > 0) {
+    console.log(`[RagDb] Updated document re-crawl policy: ${id} -> ${policy || 'collection default'}`);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Record re-indexed content for a document (after a re-crawl found changes)
+ */
+export const updateDocumentContent = (
+  id: string,
+  content: {
+    contentHash: string;
+    sizeBytes: number;
+    metadata: Record<string, unknown> | null;
+    geminiFileId?: string | null;
+  }
+): boolean => {
+  const result = db.prepare(`
+    UPDATE rag_documents
+    SET content_hash = ?, size_bytes = ?, metadata = ?, gemini_file_id = COALESCE(?, gemini_file_id),
+        status = 'indexed', error_message = NULL, indexed_at = datetime('now')
+    WHERE id = ?
+  `).run(
+    content.contentHash,
+    content.sizeBytes,
+    content.metadata ? JSON.stringify(content.metadata) : null,
+    content.geminiFileId || null,
+    id
+  );
+
+  if (result.changes > 0) {
+    console.log(`[RagDb] Updated document content: ${id}`);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Get all document tags with the number of documents carrying each
+ */
+export const getDocumentTags = (): { tag: string; count: number }[] => {
+  return db.prepare(`
+    SELECT tag.value AS tag, COUNT(*) AS count
+    FROM rag_documents, json_each(rag_documents.tags) AS tag
+    GROUP BY tag.value
+    ORDER BY count DESC, tag.value
+  `).all() as { tag: string; count: number }[];
+};
+
 /**
  * Delete a document
  */
@@ -398,20 +583,148 @@ export const getStorageStats = (): StorageStats => {
   };
 };
 
+// ============================================================================
+// Collection CRUD Operations
+// ============================================================================
+
+const COLLECTION_SELECT = `
+  SELECT c.*, (SELECT COUNT(*) FROM rag_documents d WHERE d.collection_id = c.id) AS document_count
+  FROM rag_collections c
+`;
+
+/**
+ * Create a new collection
+ */
+export const createCollection = (collection: {
+  name: string;
+  description?: string;
+  recrawlPolicy?: RecrawlPolicy;
+}): RagCollection => {
+  const id = generateCollectionId();
+
+  db.prepare(`
+    INSERT INTO rag_collections (id, name, description, recrawl_policy)
+    VALUES (?, ?, ?, ?)
+  `).run(id, collection.name, collection.description || null, collection.recrawlPolicy || null);
+
+  console.log(`[RagDb] Created collection: ${collection.name} (${id})`);
+
+  return getCollectionById(id)!;
+};
+
+/**
+ * Get all collections (alphabetical)
+ */
+export const getCollections = (): RagCollection[] => {
+  const rows = db.prepare(`${COLLECTION_SELECT} ORDER BY c.name COLLATE NOCASE`).all() as DbCollectionRow[];
+  return rows.map(rowToCollection);
+};
+
+/**
+ * Get a collection by ID
+ */
+export const getCollectionById = (id: string): RagCollection | null => {
+  const row = db.prepare(`${COLLECTION_SELECT} WHERE c.id = ?`).get(id) as DbCollectionRow | undefined;
+  if (!row) return null;
+  return rowToCollection(row);
+};
+
+/**
+ * Get a collection by name (case-insensitive)
+ */
+export const getCollectionByName = (name: string): RagCollection | null => {
+  const row = db.prepare(`${COLLECTION_SELECT} WHERE c.name = ? COLLATE NOCASE`).get(name) as DbCollectionRow | undefined;
+  if (!row) return null;
+  return rowToCollection(row);
+};
+
+/**
+ * Update a collection's name, description and/or re-crawl policy
+ */
+export const updateCollection = (
+  id: string,
+  updates: { name?: string; description?: string | null; recrawlPolicy?: RecrawlPolicy }
+): boolean => {
+  const setClauses: string[] = [];
+  const params: (string | null)[] = [];
+
+  if (updates.name !== undefined) {
+    setClauses.push('name = ?');
+    params.push(updates.name);
+  }
+
+  if (updates.description !== undefined) {
+    setClauses.push('description = ?');
+    params.push(updates.description || null);
+  }
+
+  if (updates.recrawlPolicy !== undefined) {
+    setClauses.push('recrawl_policy = ?');
+    params.push(updates.recrawlPolicy);
+  }
+
+  setClauses.push("updated_at = datetime('now')");
+  params.push(id);
+
+  const result = db.prepare(`UPDATE rag_collections SET ${setClauses.join(', ')} WHERE id = ?`).run(...params);
+
+  if (result.changes > 0) {
+    console.log(`[RagDb] Updated collection: ${id}`);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Delete a collection
+ * Its documents stay in the knowledge base without a collection, and chats
+ * scoped to it and other collections stop searching it.
+ *
+ * @throws {Error} If it is the only collection a chat is scoped to (see getChatsScopedOnlyTo)
+ */
+export const deleteCollection = (id: string): boolean => {
+  const remove = db.transaction(() => {
+    const onlyScopedChats = getChatsScopedOnlyTo(id);
+    if (onlyScopedChats.length > 0) {
+      throw new Error(`Collection ${id} is the only scope of ${onlyScopedChats.length} chat(s)`);
+    }
+
+    db.prepare('UPDATE rag_documents SET collection_id = NULL WHERE collection_id = ?').run(id);
+
+    const scopedChats = db.prepare(`
+      SELECT id, collection_ids FROM rag_chats
+      WHERE EXISTS (SELECT 1 FROM json_each(rag_chats.collection_ids) WHERE value = ?)
+    `).all(id) as { id: string; collection_ids: string }[];
+    const updateScope = db.prepare('UPDATE rag_chats SET collection_ids = ? WHERE id = ?');
+    for (const chat of scopedChats) {
+      const remaining = (JSON.parse(chat.collection_ids) as string[]).filter(collectionId => collectionId !== id);
+      updateScope.run(JSON.stringify(remaining), chat.id);
+    }
+
+    return db.prepare('DELETE FROM rag_collections WHERE id = ?').run(id).changes;
+  });
+
+  if (remove() > 0) {
+    console.log(`[RagDb] Deleted collection: ${id}`);
+    return true;
+  }
+  return false;
+};
+
 // ============================================================================
 // Chat CRUD Operations
 // ============================================================================
 
 /**
- * Create a new chat
+ * Create a new chat, optionally scoped to collections
  */
-export const createChat = (title: string): RagChat => {
+export const createChat = (title: string, collectionIds: string[] = []): RagChat => {
   const id = generateChatId();
 
   db.prepare(`
-    INSERT INTO rag_chats (id, title)
-    VALUES (?, ?)
-  `).run(id, title);
+    INSERT INTO rag_chats (id, title, collection_ids)
+    VALUES (?, ?, ?)
+  `).run(id, title, collectionIds.length > 0 ? JSON.stringify([...new Set(collectionIds)]) : null);
 
   console.log(`[RagDb] Created chat: ${title} (${id})`);
 
@@ -430,6 +743,20 @@ export const getChats = (limit: number = 50): RagChat[] => {
   return rows.map(rowToChat);
 };
 
+/**
+ * Chats scoped to this collection alone
+ * Deleting the collection would widen them to the whole knowledge base, so it is refused.
+ */
+export const getChatsScopedOnlyTo = (collectionId: string): RagChat[] => {
+  const rows = db.prepare(`
+    SELECT * FROM rag_chats
+    WHERE json_array_length(collection_ids) = 1 AND json_extract(collection_ids, '$[0]') = ?
+    ORDER BY updated_at DESC
+  `).all(collectionId) as DbChatRow[];
+
+  return rows.map(rowToChat);
+};
+
 /**
  * Get a chat by ID
  */
@@ -454,6 +781,21 @@ export const updateChatTitle = (id: string, title: string): boolean => {
   return false;
 };
 
+/**
+ * Update the collections a chat searches (empty for the whole knowledge base)
+ */
+export const updateChatScope = (id: string, collectionIds: string[]): boolean => {
+  const result = db.prepare(`
+    UPDATE rag_chats SET collection_ids = ?, updated_at = datetime('now') WHERE id = ?
+  `).run(collectionIds.length > 0 ? JSON.stringify([...new Set(collectionIds)]) : null, id);
+
+  if (result.changes > 0) {
+    console.log(`[RagDb] Updated chat scope: ${id} -> ${collectionIds.join(', ') || 'all documents'}`);
+    return true;
+  }
+  return false;
+};
+
 /**
  * Update chat's updated_at timestamp
  */
@@ -0,0 +1,262 @@
+/**
+ * RAG Re-crawl Database Service
+ * Re-crawl scheduling, link health, earlier document versions and the
+ * updated/broken event feed for URL-sourced knowledge base documents
+ */
+
+import db from '../db/init.ts';
+import type { RagDocument } from './ragDbService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecrawlEventType = 'updated' | 'broken' | 'recovered';
+
+/**
+ * An earlier version of a document, kept when a re-crawl replaced its content
+ */
+export interface RagDocumentVersion {
+  id: number;
+  documentId: string;
+  version: number;
+  filename: string;
+  contentHash: string | null;
+  sizeBytes: number;
+  metadata: Record<string, unknown> | null;
+  geminiFileId: string | null;
+  indexedAt: string | null;
+  replacedAt: string;
+}
+
+/**
+ * A change found by a re-crawl, with the document fields the feed shows
+ */
+export interface RecrawlEvent {
+  id: number;
+  documentId: string;
+  eventType: RecrawlEventType;
+  detail: string | null;
+  createdAt: string;
+  filename: string;
+  sourceUrl: string | null;
+  linkStatus: string;
+}
+
+// ============================================================================
+// Database Row Types
+// ============================================================================
+
+interface DbVersionRow {
+  id: number;
+  document_id: string;
+  version: number;
+  filename: string;
+  content_hash: string | null;
+  size_bytes: number;
+  metadata: string | null;
+  gemini_file_id: string | null;
+  indexed_at: string | null;
+  replaced_at: string;
+}
+
+interface DbEventRow {
+  id: number;
+  document_id: string;
+  event_type: string;
+  detail: string | null;
+  created_at: string;
+  filename: string;
+  source_url: string | null;
+  link_status: string;
+}
+
+const rowToVersion = (row: DbVersionRow): RagDocumentVersion => ({
+  id: row.id,
+  documentId: row.document_id,
+  version: row.version,
+  filename: row.filename,
+  contentHash: row.content_hash,
+  sizeBytes: row.size_bytes,
+  metadata: row.metadata ? JSON.parse(row.metadata) : null,
+  geminiFileId: row.gemini_file_id,
+  indexedAt: row.indexed_at,
+  replacedAt: row.replaced_at,
+});
+
+const rowToEvent = (row: DbEventRow): RecrawlEvent => ({
+  id: row.id,
+  documentId: row.document_id,
+  eventType: row.event_type as RecrawlEventType,
+  detail: row.detail,
+  createdAt: row.created_at,
+  filename: row.filename,
+  sourceUrl: row.source_url,
+  linkStatus: row.link_status,
+});
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * IDs of URL documents whose re-crawl is due, least recently checked first
+ * A document's own policy wins over its collection's; documents without
+ * either are never re-crawled.
+ */
+export const getDueDocumentIds = (limit: number): string[] => {
+  const rows = db.prepare(`
+    SELECT d.id
+    FROM rag_documents d
+    LEFT JOIN rag_collections c ON c.id = d.collection_id
+    WHERE d.source_url IS NOT NULL AND d.status = 'indexed'
+      AND (
+        (COALESCE(d.recrawl_policy, c.recrawl_policy) = 'daily'
+          AND COALESCE(d.last_checked_at, d.indexed_at, d.created_at) <= datetime('now', '-1 day'))
+        OR (COALESCE(d.recrawl_policy, c.recrawl_policy) = 'weekly'
+          AND COALESCE(d.last_checked_at, d.indexed_at, d.created_at) <= datetime('now', '-7 days'))
+      )
+    ORDER BY COALESCE(d.last_checked_at, d.indexed_at, d.created_at)
+    LIMIT ?
+  `).all(limit) as { id: string }[];
+
+  return rows.map(row => row.id);
+};
+
+/**
+ * Record a successful check (the link works again if it was broken)
+ */
+export const recordCheckSuccess = (documentId: string): void => {
+  db.prepare(`
+    UPDATE rag_documents
+    SET last_checked_at = datetime('now'), last_check_error = NULL, check_failures = 0, link_status = 'ok'
+    WHERE id = ?
+  `).run(documentId);
+};
+
+/**
+ * Record a failed check, marking the link broken if asked
+ */
+export const recordCheckFailure = (documentId: string, error: string, markBroken: boolean): void => {
+  db.prepare(`
+    UPDATE rag_documents
+    SET last_checked_at = datetime('now'), last_check_error = ?, check_failures = check_failures + 1,
+        link_status = CASE WHEN ? THEN 'broken' ELSE link_status END
+    WHERE id = ?
+  `).run(error, markBroken ? 1 : 0, documentId);
+};
+
+/**
+ * Record a fetched change that could not be re-indexed
+ * last_checked_at is left alone so the document stays due and the next tick retries.
+ */
+export const recordReindexFailure = (documentId: string, error: string): void => {
+  db.prepare(`
+    UPDATE rag_documents
+    SET last_check_error = ?
+    WHERE id = ?
+  `).run(error, documentId);
+};
+
+/**
+ * Consecutive failed checks of a document
+ */
+export const getCheckFailures = (documentId: string): number => {
+  const row = db.prepare('SELECT check_failures FROM rag_documents WHERE id = ?').get(documentId) as
+    | { check_failures: number }
+    | undefined;
+  return row?.check_failures || 0;
+};
+
+/**
+ * Number of documents whose link is broken
+ */
+export const getBrokenDocumentCount = (): number => {
+  const result = db.prepare("SELECT COUNT(*) as count FROM rag_documents WHERE link_status = 'broken'").get() as {
+    count: number;
+  };
+  return result.count;
+};
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/**
+ * Keep a document's current version before its content is replaced
+ */
+export const saveVersion = (document: RagDocument): RagDocumentVersion => {
+  const next = db.prepare(
+    'SELECT COALESCE(MAX(version), 0) + 1 as version FROM rag_document_versions WHERE document_id = ?'
+  ).get(document.id) as { version: number };
+
+  const result = db.prepare(`
+    INSERT INTO rag_document_versions
+      (document_id, version, filename, content_hash, size_bytes, metadata, gemini_file_id, indexed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    document.id,
+    next.version,
+    document.filename,
+    document.contentHash,
+    document.sizeBytes,
+    document.metadata ? JSON.stringify(document.metadata) : null,
+    document.geminiFileId,
+    document.indexedAt
+  );
+
+  console.log(`[RagRecrawlDb] Saved version ${next.version} of document: ${document.id}`);
+
+  const row = db.prepare('SELECT * FROM rag_document_versions WHERE id = ?').get(result.lastInsertRowid) as DbVersionRow;
+  return rowToVersion(row);
+};
+
+/**
+ * Earlier versions of a document, newest first
+ */
+export const getDocumentVersions = (documentId: string): RagDocumentVersion[] => {
+  const rows = db.prepare(`
+    SELECT * FROM rag_document_versions WHERE document_id = ? ORDER BY version DESC
+  `).all(documentId) as DbVersionRow[];
+
+  return rows.map(rowToVersion);
+};
+
+// ============================================================================
+// Event Feed
+// ============================================================================
+
+/**
+ * Record a re-crawl event
+ */
+export const addEvent = (documentId: string, eventType: RecrawlEventType, detail?: string): void => {
+  db.prepare(`
+    INSERT INTO rag_document_events (document_id, event_type, detail)
+    VALUES (?, ?, ?)
+  `).run(documentId, eventType, detail || null);
+
+  console.log(`[RagRecrawlDb] ${eventType}: ${documentId}${detail ? ` (${detail})` : ''}`);
+};
+
+/**
+ * Recent events, newest first
+ */
+export const getRecentEvents = (limit: number = 50): RecrawlEvent[] => {
+  const rows = db.prepare(`
+    SELECT e.*, d.filename, d.source_url, d.link_status
+    FROM rag_document_events e
+    JOIN rag_documents d ON d.id = e.document_id
+    ORDER BY e.created_at DESC, e.id DESC
+    LIMIT ?
+  `).all(limit) as DbEventRow[];
+
+  return rows.map(rowToEvent);
+};
+
+/**
+ * Delete a document's versions and events (when the document is deleted)
+ */
+export const deleteDocumentHistory = (documentId: string): void => {
+  db.prepare('DELETE FROM rag_document_versions WHERE document_id = ?').run(documentId);
+  db.prepare('DELETE FROM rag_document_events WHERE document_id = ?').run(documentId);
+};
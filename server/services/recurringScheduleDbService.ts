@@ -0,0 +1,407 @@
+/**
+ * Recurring Schedule Database Service
+ * CRUD operations for recurring generate-and-send schedules and their runs
+ */
+
+import db from '../db/init.ts';
+
+// Types
+export type TopicSource = 'calendar' | 'trending' | 'fixed';
+
+export type RecurringRunStatus =
+  | 'generating'
+  | 'awaiting_approval'
+  | 'sending'
+  | 'sent'
+  | 'failed'
+  | 'rejected';
+
+/**
+ * How each run generates its newsletter (V4 per-audience pipeline)
+ */
+export interface GenerationRecipe {
+  personaId?: string | null;
+  audienceIds: string[];
+  /**
+   * 'calendar' uses the topics of the calendar entry planned for the run date
+   * (falling back to trending topics when there is none), 'trending' always
+   * generates fresh topics, 'fixed' uses `topics`
+   */
+  topicSource: TopicSource;
+  topics?: string[];
+  topicsPerAudience?: number;
+  tone?: string;
+  flavors?: string[];
+  imageStyle?: string;
+}
+
+export interface RecurringSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  timezone: string | null;
+  recipe: GenerationRecipe;
+  recipientLists: string[];
+  holdForApproval: boolean;
+  enabled: boolean;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecurringScheduleRun {
+  id: string;
+  scheduleId: string;
+  status: RecurringRunStatus;
+  newsletterId: string | null;
+  calendarEntryId: string | null;
+  scheduledSendId: string | null;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface DbRecurringScheduleRow {
+  id: string;
+  name: string;
+  cron_expression: string;
+  timezone: string | null;
+  recipe: string;
+  recipient_lists: string;
+  hold_for_approval: number;
+  enabled: number;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbRecurringRunRow {
+  id: string;
+  schedule_id: string;
+  status: string;
+  newsletter_id: string | null;
+  calendar_entry_id: string | null;
+  scheduled_send_id: string | null;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+/**
+ * Convert database row to RecurringSchedule object
+ */
+const rowToSchedule = (row: DbRecurringScheduleRow): RecurringSchedule => ({
+  id: row.id,
+  name: row.name,
+  cronExpression: row.cron_expression,
+  timezone: row.timezone,
+  recipe: JSON.parse(row.recipe),
+  recipientLists: JSON.parse(row.recipient_lists),
+  holdForApproval: row.hold_for_approval === 1,
+  enabled: row.enabled === 1,
+  lastRunAt: row.last_run_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Convert database row to RecurringScheduleRun object
+ */
+const rowToRun = (row: DbRecurringRunRow): RecurringScheduleRun => ({
+  id: row.id,
+  scheduleId: row.schedule_id,
+  status: row.status as RecurringRunStatus,
+  newsletterId: row.newsletter_id,
+  calendarEntryId: row.calendar_entry_id,
+  scheduledSendId: row.scheduled_send_id,
+  errorMessage: row.error_message,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+});
+
+// =============================================================================
+// SCHEDULES
+// =============================================================================
+
+/**
+ * Get all recurring schedules
+ */
+export const getAllSchedules = (): RecurringSchedule[] => {
+  const rows = db
+    .prepare('SELECT * FROM recurring_schedules ORDER BY created_at ASC')
+    .all() as DbRecurringScheduleRow[];
+  return rows.map(rowToSchedule);
+};
+
+/**
+ * Get enabled recurring schedules
+ */
+export const getEnabledSchedules = (): RecurringSchedule[] => {
+  const rows = db
+    .prepare('SELECT * FROM recurring_schedules WHERE enabled = 1 ORDER BY created_at ASC')
+    .all() as DbRecurringScheduleRow[];
+  return rows.map(rowToSchedule);
+};
+
+/**
+ * Get recurring schedule by ID
+ */
+export const getScheduleById = (id: string): RecurringSchedule | null => {
+  const row = db
+    .prepare('SELECT * FROM recurring_schedules WHERE id = ?')
+    .get(id) as DbRecurringScheduleRow | undefined;
+
+  if (!row) return null;
+  return rowToSchedule(row);
+};
+
+/**
+ * Create a recurring schedule
+ */
+export const createSchedule = (schedule: {
+  name: string;
+  cronExpression: string;
+  timezone?: string | null;
+  recipe: GenerationRecipe;
+  recipientLists: string[];
+  holdForApproval?: boolean;
+  enabled?: boolean;
+}): RecurringSchedule => {
+  const id = `rsched_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  db.prepare(`
+    INSERT INTO recurring_schedules (
+      id, name, cron_expression, timezone, recipe, recipient_lists, hold_for_approval, enabled
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    schedule.name,
+    schedule.cronExpression,
+    schedule.timezone || null,
+    JSON.stringify(schedule.recipe),
+    JSON.stringify(schedule.recipientLists),
+    schedule.holdForApproval ? 1 : 0,
+    schedule.enabled === false ? 0 : 1
+  );
+
+  console.log(`[RecurringSchedule] Created schedule: ${id} (${schedule.cronExpression})`);
+  return getScheduleById(id)!;
+};
+
+/**
+ * Update a recurring schedule
+ */
+export const updateSchedule = (
+  id: string,
+  updates: Partial<{
+    name: string;
+    cronExpression: string;
+    timezone: string | null;
+    recipe: GenerationRecipe;
+    recipientLists: string[];
+    holdForApproval: boolean;
+    enabled: boolean;
+  }>
+): RecurringSchedule | null => {
+  const existing = getScheduleById(id);
+  if (!existing) return null;
+
+  const fields: string[] = [];
+  const values: (string | number | null)[] = [];
+
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.cronExpression !== undefined) {
+    fields.push('cron_expression = ?');
+    values.push(updates.cronExpression);
+  }
+  if (updates.timezone !== undefined) {
+    fields.push('timezone = ?');
+    values.push(updates.timezone);
+  }
+  if (updates.recipe !== undefined) {
+    fields.push('recipe = ?');
+    values.push(JSON.stringify(updates.recipe));
+  }
+  if (updates.recipientLists !== undefined) {
+    fields.push('recipient_lists = ?');
+    values.push(JSON.stringify(updates.recipientLists));
+  }
+  if (updates.holdForApproval !== undefined) {
+    fields.push('hold_for_approval = ?');
+    values.push(updates.holdForApproval ? 1 : 0);
+  }
+  if (updates.enabled !== undefined) {
+    fields.push('enabled = ?');
+    values.push(updates.enabled ? 1 : 0);
+  }
+
+  if (fields.length === 0) return existing;
+
+  fields.push("updated_at = datetime('now')");
+  values.push(id);
+
+  db.prepare(`
+    UPDATE recurring_schedules
+    SET ${fields.join(', ')}
+    WHERE id = ?
+  `).run(...values);
+
+  console.log(`[RecurringSchedule] Updated schedule: ${id}`);
+  return getScheduleById(id);
+};
+
+/**
+ * Record when a schedule last fired
+ */
+export const touchLastRun = (id: string): void => {
+  db.prepare(`
+    UPDATE recurring_schedules
+    SET last_run_at = ?
+    WHERE id = ?
+  `).run(new Date().toISOString(), id);
+};
+
+/**
+ * Delete a recurring schedule (its runs are deleted with it)
+ */
+export const deleteSchedule = (id: string): boolean => {
+  const result = db.transaction(() => {
+    db.prepare('DELETE FROM recurring_schedule_runs WHERE schedule_id = ?').run(id);
+    return db.prepare('DELETE FROM recurring_schedules WHERE id = ?').run(id);
+  })();
+
+  if (result.changes > 0) {
+    console.log(`[RecurringSchedule] Deleted schedule: ${id}`);
+    return true;
+  }
+
+  return false;
+};
+
+// =============================================================================
+// RUNS
+// =============================================================================
+
+/**
+ * Start a run record for a schedule
+ */
+export const createRun = (scheduleId: string): RecurringScheduleRun => {
+  const id = `rrun_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  db.prepare(`
+    INSERT INTO recurring_schedule_runs (id, schedule_id, status, started_at)
+    VALUES (?, ?, 'generating', ?)
+  `).run(id, scheduleId, new Date().toISOString());
+
+  return getRunById(id)!;
+};
+
+/**
+ * Get run by ID
+ */
+export const getRunById = (id: string): RecurringScheduleRun | null => {
+  const row = db
+    .prepare('SELECT * FROM recurring_schedule_runs WHERE id = ?')
+    .get(id) as DbRecurringRunRow | undefined;
+
+  if (!row) return null;
+  return rowToRun(row);
+};
+
+/**
+ * Get runs for a schedule (newest first)
+ */
+export const getRunsForSchedule = (scheduleId: string, limit = 50): RecurringScheduleRun[] => {
+  const rows = db
+    .prepare(`
+      SELECT * FROM recurring_schedule_runs
+      WHERE schedule_id = ?
+      ORDER BY started_at DESC
+      LIMIT ?
+    `)
+    .all(scheduleId, limit) as DbRecurringRunRow[];
+  return rows.map(rowToRun);
+};
+
+/**
+ * Get runs by status across all schedules (oldest first)
+ */
+export const getRunsByStatus = (status: RecurringRunStatus): RecurringScheduleRun[] => {
+  const rows = db
+    .prepare('SELECT * FROM recurring_schedule_runs WHERE status = ? ORDER BY started_at ASC')
+    .all(status) as DbRecurringRunRow[];
+  return rows.map(rowToRun);
+};
+
+/**
+ * Update a run's status and outcome fields
+ * Terminal statuses (sent, failed, rejected) set finished_at.
+ */
+export const updateRun = (
+  id: string,
+  status: RecurringRunStatus,
+  fields: Partial<{
+    newsletterId: string;
+    calendarEntryId: string;
+    scheduledSendId: string;
+    errorMessage: string | null;
+  }> = {}
+): RecurringScheduleRun | null => {
+  const updates: string[] = ['status = ?'];
+  const values: (string | null)[] = [status];
+
+  if (fields.newsletterId !== undefined) {
+    updates.push('newsletter_id = ?');
+    values.push(fields.newsletterId);
+  }
+  if (fields.calendarEntryId !== undefined) {
+    updates.push('calendar_entry_id = ?');
+    values.push(fields.calendarEntryId);
+  }
+  if (fields.scheduledSendId !== undefined) {
+    updates.push('scheduled_send_id = ?');
+    values.push(fields.scheduledSendId);
+  }
+  if (fields.errorMessage !== undefined) {
+    updates.push('error_message = ?');
+    values.push(fields.errorMessage);
+  }
+
+  if (status === 'sent' || status === 'failed' || status === 'rejected') {
+    updates.push('finished_at = ?');
+    values.push(new Date().toISOString());
+  }
+
+  values.push(id);
+
+  db.prepare(`
+    UPDATE recurring_schedule_runs
+    SET ${updates.join(', ')}
+    WHERE id = ?
+  `).run(...values);
+
+  console.log(`[RecurringSchedule] Run ${id} -> ${status}`);
+  return getRunById(id);
+};
+
+/**
+ * Fail runs left in 'generating' by a crash or restart
+ * Generation isn't resumable, so the run is closed and the next tick starts fresh.
+ */
+export const failInterruptedRuns = (): number => {
+  const result = db.prepare(`
+    UPDATE recurring_schedule_runs
+    SET status = 'failed', error_message = 'Interrupted by server restart', finished_at = ?
+    WHERE status = 'generating'
+  `).run(new Date().toISOString());
+
+  if (result.changes > 0) {
+    console.log(`[RecurringSchedule] Marked ${result.changes} interrupted runs as failed`);
+  }
+
+  return result.changes;
+};
@@ -164,6 +164,49 @@ export const updateScheduledSendStatus = (
   return getScheduledSendById(id);
 };
 
+/**
+ * Atomically move a pending send to 'sending'
+ * Returns null if another worker already claimed it (or it is no longer pending)
+ */
+export const claimScheduledSend = (id: string): ScheduledSend | null => {
+  const result = db.prepare(`
+    UPDATE scheduled_sends
+    SET status = 'sending'
+    WHERE id = ? AND status = 'pending'
+  `).run(id);
+
+  if (result.changes === 0) {
+    return null;
+  }
+
+  console.log(`[Scheduler] Claimed send ${id}`);
+  return getScheduledSendById(id);
+};
+
+/**
+ * Recover sends left in 'sending' by a crash or restart
+ * Sends that already queued their deliveries are resumed by the send queue;
+ * sends claimed but never queued reached nobody and go back to 'pending'.
+ */
+export const recoverInterruptedSends = (): ScheduledSend[] => {
+  const stuck = db
+    .prepare(`
+      SELECT * FROM scheduled_sends
+      WHERE status = 'sending' AND id NOT IN (SELECT id FROM email_send_jobs)
+    `)
+    .all() as DbScheduledSendRow[];
+
+  for (const row of stuck) {
+    updateScheduledSendStatus(row.id, 'pending');
+  }
+
+  if (stuck.length > 0) {
+    console.log(`[Scheduler] Recovered ${stuck.length} interrupted sends`);
+  }
+
+  return stuck.map(row => getScheduledSendById(row.id)!);
+};
+
 /**
  * Cancel a scheduled send
  */
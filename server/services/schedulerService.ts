@@ -1,18 +1,41 @@
 /**
  * Scheduler Service
- * Handles automated newsletter sending with cron-based scheduling
+ * Handles automated newsletter sending with cron-based scheduling, and
+ * recurring schedules that generate a fresh V4 newsletter on a cron
+ * expression and send it (optionally after approval)
  */
 
 import * as cron from 'node-cron';
 import * as schedulerDb from './schedulerDbService.ts';
 import * as newsletterDb from './newsletterDbService.ts';
-import * as subscriberDb from './subscriberDbService.ts';
-import * as gmailService from './googleGmailService.ts';
+import { resolveRecipients } from './segmentService.ts';
+import * as sendQueue from './sendQueueService.ts';
+import * as recurringDb from './recurringScheduleDbService.ts';
+import * as calendarDb from './calendarDbService.ts';
+import * as audienceDb from './audienceDbService.ts';
+import { toAudienceConfig } from './audienceGenerationService.ts';
 import { newsletterToHtml } from './newsletterFormatService.ts';
+import { planVariants } from './audienceVariantService.ts';
+import * as usageService from './usageService.ts';
+import { withContext, createContext } from '../control-plane/invocation/contextManager.ts';
+import {
+  generateNewsletterPerAudience,
+  DEFAULT_ORCHESTRATOR_CONFIG,
+} from '../domains/generation/services/perAudienceNewsletterGenerator.ts';
+import type { LlmStage } from '../external/llm/types.ts';
+import type { AudienceConfig, TopicWithAudienceId } from '../../types.ts';
+
+// LLM stages of the V4 pipeline a recurring run generates with (for the budget check)
+const RECURRING_RUN_STAGES: LlmStage[] = ['topic_agents', 'section_writer'];
 
 // Track scheduler state
 let isSchedulerRunning = false;
+let isProcessing = false;
+let schedulerSenderEmail: string | null = null;
 let schedulerTask: ReturnType<typeof cron.schedule> | null = null;
+const recurringTasks = new Map<string, ReturnType<typeof cron.schedule>>();
+// Schedules with a run currently generating or sending
+const activeRecurringRuns = new Set<string>();
 
 /**
  * Execute a scheduled send
@@ -23,8 +46,10 @@ const executeSend = async (
 ): Promise<{ success: boolean; sentCount: number; error?: string }> => {
   console.log(`[Scheduler] Executing send ${send.id} for newsletter ${send.newsletterId}`);
 
-  // Mark as sending
-  schedulerDb.updateScheduledSendStatus(send.id, 'sending');
+  // Mark as sending (atomic, so a cron tick and a manual trigger can't both send)
+  if (!schedulerDb.claimScheduledSend(send.id)) {
+    return { success: false, sentCount: 0, error: 'Send is already in progress or no longer pending' };
+  }
 
   try {
     // Get newsletter content
@@ -35,73 +60,40 @@ const executeSend = async (
       return { success: false, sentCount: 0, error };
     }
 
-    // Collect all recipients from specified lists
-    const allRecipients = new Set<string>();
-
-    for (const listId of send.recipientLists) {
-      const subscribers = subscriberDb.getSubscribersByList(listId);
-      subscribers
-        .filter(s => s.status === 'active')
-        .forEach(s => allRecipients.add(s.email));
-    }
-
-    const recipientList = Array.from(allRecipients);
+    // Collect active recipients from the lists and segments (segments are evaluated now)
+    const recipientList = resolveRecipients(send.recipientLists).emails;
 
     if (recipientList.length === 0) {
-      const error = 'No active subscribers in selected lists';
+      const error = 'No active subscribers in selected lists or segments';
       schedulerDb.updateScheduledSendStatus(send.id, 'failed', error);
       return { success: false, sentCount: 0, error };
     }
 
     console.log(`[Scheduler] Sending to ${recipientList.length} recipients`);
 
-    // Convert newsletter to HTML
+    // Convert newsletter to HTML, plus a tailored variant per audience combination in use
     const htmlBody = newsletterToHtml(newsletter);
+    const variants = planVariants(newsletter, recipientList);
 
-    // Send emails
-    const result = await gmailService.sendBulkEmails(
+    // Queue per-recipient deliveries (keyed by this send's ID) and make the first pass.
+    // The queue sets the final status once every recipient is sent or has failed,
+    // which may be after backed-off retries.
+    const result = await sendQueue.sendBulkEmails(
       senderEmail,
       recipientList,
       newsletter.subject,
-      htmlBody
+      htmlBody,
+      { newsletterId: send.newsletterId, sendId: send.id, source: 'scheduled', variants }
     );
 
-    // Update status based on result
-    if (result.totalFailed > 0 && result.totalSent === 0) {
-      schedulerDb.updateScheduledSendStatus(
-        send.id,
-        'failed',
-        `All ${result.totalFailed} emails failed`,
-        result.totalSent
-      );
-    } else if (result.totalFailed > 0) {
-      // Partial success - still mark as sent but note failures
-      schedulerDb.updateScheduledSendStatus(
-        send.id,
-        'sent',
-        `${result.totalFailed} of ${recipientList.length} emails failed`,
-        result.totalSent
-      );
-    } else {
-      schedulerDb.updateScheduledSendStatus(send.id, 'sent', null, result.totalSent);
-    }
-
-    // Log the send action
-    newsletterDb.logAction(
-      send.newsletterId,
-      'scheduled_send',
-      {
-        scheduledSendId: send.id,
-        totalSent: result.totalSent,
-        totalFailed: result.totalFailed,
-        scheduledAt: send.scheduledAt,
-      }
-    );
+    const errors: string[] = [];
+    if (result.totalFailed > 0) errors.push(`${result.totalFailed} emails failed`);
+    if (result.totalPending > 0) errors.push(`${result.totalPending} emails awaiting retry`);
 
     return {
       success: result.success,
       sentCount: result.totalSent,
-      error: result.totalFailed > 0 ? `${result.totalFailed} emails failed` : undefined,
+      error: errors.length > 0 ? errors.join(', ') : undefined,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -115,6 +107,11 @@ const executeSend = async (
  * Process all pending sends that are due
  */
 const processScheduledSends = async (senderEmail: string): Promise<void> => {
+  // A large send can outlast the one-minute tick; don't start a second pass
+  if (isProcessing) {
+    return;
+  }
+
   const pendingSends = schedulerDb.getPendingSendsDue();
 
   if (pendingSends.length === 0) {
@@ -123,13 +120,19 @@ const processScheduledSends = async (senderEmail: string): Promise<void> => {
 
   console.log(`[Scheduler] Processing ${pendingSends.length} due sends`);
 
-  for (const send of pendingSends) {
-    await executeSend(send, senderEmail);
+  isProcessing = true;
+  try {
+    for (const send of pendingSends) {
+      await executeSend(send, senderEmail);
+    }
+  } finally {
+    isProcessing = false;
   }
 };
 
 /**
  * Start the scheduler cron job
+ * Sends left in 'sending' by a previous process are recovered first.
  */
 export const startScheduler = (senderEmail: string): void => {
   if (isSchedulerRunning) {
@@ -137,6 +140,10 @@ export const startScheduler = (senderEmail: string): void => {
     return;
   }
 
+  schedulerDb.recoverInterruptedSends();
+  recurringDb.failInterruptedRuns();
+  schedulerSenderEmail = senderEmail;
+
   // Run every minute
   schedulerTask = cron.schedule('* * * * *', async () => {
     try {
@@ -148,6 +155,10 @@ export const startScheduler = (senderEmail: string): void => {
 
   isSchedulerRunning = true;
   console.log('[Scheduler] Started - checking every minute for scheduled sends');
+
+  for (const schedule of recurringDb.getEnabledSchedules()) {
+    registerRecurringSchedule(schedule);
+  }
 };
 
 /**
@@ -158,7 +169,12 @@ export const stopScheduler = (): void => {
     schedulerTask.stop();
     schedulerTask = null;
   }
+  for (const task of recurringTasks.values()) {
+    task.stop();
+  }
+  recurringTasks.clear();
   isSchedulerRunning = false;
+  schedulerSenderEmail = null;
   console.log('[Scheduler] Stopped');
 };
 
@@ -167,17 +183,26 @@ export const stopScheduler = (): void => {
  */
 export const isRunning = (): boolean => isSchedulerRunning;
 
+/**
+ * Get the Gmail account the scheduler sends from (null when stopped)
+ */
+export const getSenderEmail = (): string | null => schedulerSenderEmail;
+
 /**
  * Get scheduler status
  */
 export const getSchedulerStatus = (): {
   running: boolean;
+  senderEmail: string | null;
   stats: ReturnType<typeof schedulerDb.getSchedulerStats>;
   upcoming: schedulerDb.ScheduledSend[];
+  recurringSchedules: number;
 } => ({
   running: isSchedulerRunning,
+  senderEmail: schedulerSenderEmail,
   stats: schedulerDb.getSchedulerStats(),
   upcoming: schedulerDb.getUpcomingScheduledSends(7),
+  recurringSchedules: recurringTasks.size,
 });
 
 /**
@@ -194,18 +219,15 @@ export const scheduleNewsletter = (
     throw new Error('Newsletter not found');
   }
 
-  // Validate lists exist and have subscribers
-  let totalSubscribers = 0;
-  for (const listId of recipientLists) {
-    const count = subscriberDb.getSubscribersByList(listId).filter(s => s.status === 'active').length;
-    if (count === 0) {
-      console.warn(`[Scheduler] List ${listId} has no active subscribers`);
-    }
-    totalSubscribers += count;
+  // Validate lists/segments exist and currently have subscribers
+  const { emails, unknownTargets } = resolveRecipients(recipientLists);
+  if (unknownTargets.length > 0) {
+    throw new Error(`Unknown list or segment: ${unknownTargets.join(', ')}`);
   }
 
+  const totalSubscribers = emails.length;
   if (totalSubscribers === 0) {
-    throw new Error('No active subscribers in selected lists');
+    throw new Error('No active subscribers in selected lists or segments');
   }
 
   const scheduledSend = schedulerDb.createScheduledSend(newsletterId, scheduledAt, recipientLists);
@@ -250,3 +272,346 @@ export const triggerSendNow = async (
 
   return executeSend(send, senderEmail);
 };
+
+// =============================================================================
+// RECURRING SCHEDULES
+// =============================================================================
+
+/**
+ * Check a cron expression (5 or 6 fields, node-cron syntax)
+ */
+export const isValidCronExpression = (expression: string): boolean => cron.validate(expression);
+
+/**
+ * Check an IANA timezone name (e.g. "America/New_York")
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Today's date (YYYY-MM-DD) in the schedule's timezone, matching calendar_entries.scheduled_date
+ */
+const getRunDate = (timezone: string | null): string =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone || undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date());
+
+/**
+ * Resolve recipe audience IDs to audience configs (built-in specializations or custom audiences)
+ */
+const resolveRecipeAudiences = (audienceIds: string[]): AudienceConfig[] =>
+  audienceIds.map(id => {
+    const audience = audienceDb.getAudienceById(id);
+    if (!audience) {
+      throw new Error(`Audience not found: ${id}`);
+    }
+    return toAudienceConfig(audience);
+  });
+
+/**
+ * Spread topic titles across the recipe's audiences round-robin
+ */
+const assignTopics = (titles: string[], audiences: AudienceConfig[]): TopicWithAudienceId[] =>
+  titles.map((title, i) => ({ title, audienceId: audiences[i % audiences.length].id }));
+
+/**
+ * Find the calendar entry planned for the run date that has no newsletter yet
+ */
+const findPlannedCalendarEntry = (date: string): calendarDb.CalendarEntry | null =>
+  calendarDb
+    .getEntries(date, date)
+    .find(e => !e.newsletterId && (e.status === 'planned' || e.status === 'in_progress')) || null;
+
+/**
+ * Send a run's newsletter now through a regular scheduled send, and record the outcome
+ */
+const sendRunNewsletter = async (
+  run: recurringDb.RecurringScheduleRun,
+  schedule: recurringDb.RecurringSchedule,
+  senderEmail: string
+): Promise<recurringDb.RecurringScheduleRun | null> => {
+  const scheduledSend = scheduleNewsletter(run.newsletterId!, new Date().toISOString(), schedule.recipientLists);
+  recurringDb.updateRun(run.id, 'sending', { scheduledSendId: scheduledSend.id });
+
+  const result = await executeSend(scheduledSend, senderEmail);
+  const sendStatus = schedulerDb.getScheduledSendById(scheduledSend.id)?.status;
+
+  if (sendStatus === 'sent') {
+    return recurringDb.updateRun(run.id, 'sent', { errorMessage: result.error || null });
+  }
+  if (sendStatus === 'failed') {
+    return recurringDb.updateRun(run.id, 'failed', { errorMessage: result.error || 'Send failed' });
+  }
+
+  // Deliveries awaiting retry; the outcome is picked up from the scheduled send later
+  return recurringDb.updateRun(run.id, 'sending', { errorMessage: result.error || null });
+};
+
+/**
+ * Generate, save and (unless held for approval) send one run
+ */
+const executeRecurringRun = async (
+  run: recurringDb.RecurringScheduleRun,
+  schedule: recurringDb.RecurringSchedule,
+  senderEmail: string
+): Promise<void> => {
+  const { recipe } = schedule;
+  const runDate = getRunDate(schedule.timezone);
+
+  try {
+    const exceededBudget = usageService.getExceededStageBudget(RECURRING_RUN_STAGES);
+    if (exceededBudget) {
+      recurringDb.updateRun(run.id, 'failed', { errorMessage: usageService.formatBudgetExceededMessage(exceededBudget) });
+      return;
+    }
+
+    const audiences = resolveRecipeAudiences(recipe.audienceIds);
+
+    let calendarEntry: calendarDb.CalendarEntry | null = null;
+    let topicTitles: string[] = [];
+
+    if (recipe.topicSource === 'calendar') {
+      calendarEntry = findPlannedCalendarEntry(runDate);
+      topicTitles = calendarEntry?.topics || [];
+      if (!calendarEntry) {
+        console.log(`[Scheduler] No calendar entry for ${runDate} - using trending topics`);
+      }
+    } else if (recipe.topicSource === 'fixed') {
+      topicTitles = recipe.topics || [];
+    }
+
+    console.log(`[Scheduler] Recurring run ${run.id}: generating for ${audiences.length} audiences, ${topicTitles.length} topics`);
+
+    // No selected topics makes the V4 pipeline generate trending topics per audience
+    const result = await generateNewsletterPerAudience(
+      {
+        audiences,
+        selectedTopics: topicTitles.length > 0 ? assignTopics(topicTitles, audiences) : undefined,
+        topicsPerAudience: recipe.topicsPerAudience || DEFAULT_ORCHESTRATOR_CONFIG.topicsPerAudience,
+        tone: recipe.tone || 'confident',
+        flavors: recipe.flavors || [],
+        imageStyle: recipe.imageStyle,
+        personaId: recipe.personaId || undefined,
+      },
+      { ...DEFAULT_ORCHESTRATOR_CONFIG, autoBalance: true }
+    );
+
+    if (!result.success || !result.newsletter) {
+      recurringDb.updateRun(run.id, 'failed', { errorMessage: result.error || 'Generation failed' });
+      return;
+    }
+
+    const newsletterId = `enl_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    const generatedTopics = result.sectionResults.flatMap(sr => sr.topics.map(t => t.title));
+
+    newsletterDb.saveEnhancedNewsletter(
+      { ...result.newsletter, id: newsletterId },
+      generatedTopics,
+      {
+        audience: audiences.map(a => a.id),
+        imageStyle: recipe.imageStyle,
+        sectionInputs: result.sectionResults.flatMap(sr => sr.input ? [sr.input] : []),
+      }
+    );
+    newsletterDb.logAction(newsletterId, 'recurring_generated', {
+      scheduleId: schedule.id,
+      runId: run.id,
+      topicSource: recipe.topicSource,
+    });
+
+    if (!calendarEntry) {
+      calendarEntry = calendarDb.createEntry(
+        result.newsletter.subject || schedule.name,
+        runDate,
+        `Generated by recurring schedule "${schedule.name}"`,
+        generatedTopics,
+        'in_progress',
+        {
+          selectedAudience: Object.fromEntries(audiences.map(a => [a.id, true])),
+          selectedTone: recipe.tone,
+          selectedFlavors: Object.fromEntries((recipe.flavors || []).map(f => [f, true])),
+          selectedImageStyle: recipe.imageStyle,
+          personaId: recipe.personaId || null,
+        }
+      );
+    }
+    calendarDb.linkNewsletter(calendarEntry.id, newsletterId);
+
+    const generatedRun = recurringDb.updateRun(
+      run.id,
+      schedule.holdForApproval ? 'awaiting_approval' : 'sending',
+      { newsletterId, calendarEntryId: calendarEntry.id }
+    )!;
+
+    if (schedule.holdForApproval) {
+      console.log(`[Scheduler] Recurring run ${run.id} awaiting approval (newsletter ${newsletterId})`);
+      return;
+    }
+
+    await sendRunNewsletter(generatedRun, schedule, senderEmail);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Scheduler] Recurring run ${run.id} failed:`, error);
+    recurringDb.updateRun(run.id, 'failed', { errorMessage });
+  }
+};
+
+/**
+ * Start a run of a recurring schedule
+ * Returns the run immediately; generation and sending continue in the background.
+ * Returns null if the schedule already has a run in progress.
+ */
+export const runRecurringSchedule = (
+  scheduleId: string,
+  senderEmail: string
+): recurringDb.RecurringScheduleRun | null => {
+  const schedule = recurringDb.getScheduleById(scheduleId);
+  if (!schedule) {
+    throw new Error('Recurring schedule not found');
+  }
+
+  // Generation can take minutes; a tick that fires meanwhile is skipped
+  if (activeRecurringRuns.has(scheduleId)) {
+    console.log(`[Scheduler] Recurring schedule ${scheduleId} already has a run in progress`);
+    return null;
+  }
+
+  activeRecurringRuns.add(scheduleId);
+  recurringDb.touchLastRun(scheduleId);
+  const run = recurringDb.createRun(scheduleId);
+
+  // Own context so the run's API usage is tagged and attributed to its newsletter
+  withContext(createContext({ metadata: { operation: 'recurring_schedule', recurringRunId: run.id } }), () =>
+    executeRecurringRun(run, schedule, senderEmail)
+  )
+    .catch(error => console.error(`[Scheduler] Recurring run ${run.id} crashed:`, error))
+    .finally(() => activeRecurringRuns.delete(scheduleId));
+
+  return run;
+};
+
+/**
+ * Register (or re-register) the cron task for a recurring schedule
+ * Disabled schedules are unregistered. Tasks only fire while the scheduler runs.
+ */
+export const registerRecurringSchedule = (schedule: recurringDb.RecurringSchedule): void => {
+  unregisterRecurringSchedule(schedule.id);
+
+  if (!schedule.enabled || !isSchedulerRunning) return;
+
+  if (!cron.validate(schedule.cronExpression)) {
+    console.error(`[Scheduler] Invalid cron expression for ${schedule.id}: ${schedule.cronExpression}`);
+    return;
+  }
+
+  const task = cron.schedule(
+    schedule.cronExpression,
+    () => {
+      const senderEmail = schedulerSenderEmail;
+      if (!senderEmail) return;
+
+      try {
+        runRecurringSchedule(schedule.id, senderEmail);
+      } catch (error) {
+        console.error(`[Scheduler] Failed to start recurring run for ${schedule.id}:`, error);
+      }
+    },
+    schedule.timezone ? { timezone: schedule.timezone } : undefined
+  );
+
+  recurringTasks.set(schedule.id, task);
+  console.log(`[Scheduler] Registered recurring schedule ${schedule.id} (${schedule.cronExpression})`);
+};
+
+/**
+ * Stop the cron task for a recurring schedule
+ */
+export const unregisterRecurringSchedule = (scheduleId: string): void => {
+  const task = recurringTasks.get(scheduleId);
+  if (task) {
+    task.stop();
+    recurringTasks.delete(scheduleId);
+  }
+};
+
+/**
+ * Pick up the final outcome of runs whose send was still retrying deliveries
+ */
+const syncSendingRuns = (): void => {
+  for (const run of recurringDb.getRunsByStatus('sending')) {
+    if (!run.scheduledSendId) continue;
+
+    const send = schedulerDb.getScheduledSendById(run.scheduledSendId);
+    if (send?.status === 'sent') {
+      recurringDb.updateRun(run.id, 'sent', { errorMessage: send.errorMessage });
+    } else if (send?.status === 'failed' || send?.status === 'cancelled') {
+      recurringDb.updateRun(run.id, 'failed', { errorMessage: send.errorMessage || `Send ${send.status}` });
+    }
+  }
+};
+
+/**
+ * Get runs for a recurring schedule (newest first)
+ */
+export const getRecurringRuns = (scheduleId: string, limit = 50): recurringDb.RecurringScheduleRun[] => {
+  syncSendingRuns();
+  return recurringDb.getRunsForSchedule(scheduleId, limit);
+};
+
+/**
+ * Approve a held run and send its newsletter now
+ */
+export const approveRecurringRun = async (
+  runId: string,
+  senderEmail: string
+): Promise<recurringDb.RecurringScheduleRun | null> => {
+  const run = recurringDb.getRunById(runId);
+  if (!run) {
+    throw new Error('Run not found');
+  }
+  if (run.status !== 'awaiting_approval' || !run.newsletterId) {
+    throw new Error(`Cannot approve run with status: ${run.status}`);
+  }
+
+  const schedule = recurringDb.getScheduleById(run.scheduleId);
+  if (!schedule) {
+    throw new Error('Recurring schedule not found');
+  }
+
+  newsletterDb.logAction(run.newsletterId, 'recurring_approved', { scheduleId: schedule.id, runId });
+
+  try {
+    return await sendRunNewsletter(run, schedule, senderEmail);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return recurringDb.updateRun(runId, 'failed', { errorMessage });
+  }
+};
+
+/**
+ * Reject a held run; its newsletter stays saved but is never sent
+ */
+export const rejectRecurringRun = (runId: string, reason?: string): recurringDb.RecurringScheduleRun | null => {
+  const run = recurringDb.getRunById(runId);
+  if (!run) {
+    throw new Error('Run not found');
+  }
+  if (run.status !== 'awaiting_approval') {
+    throw new Error(`Cannot reject run with status: ${run.status}`);
+  }
+
+  if (run.newsletterId) {
+    newsletterDb.logAction(run.newsletterId, 'recurring_rejected', { scheduleId: run.scheduleId, runId, reason });
+  }
+
+  return recurringDb.updateRun(runId, 'rejected', { errorMessage: reason || null });
+};
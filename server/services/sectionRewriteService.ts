@@ -0,0 +1,101 @@
+/**
+ * Section Rewrite Service
+ * Regenerates or rewrites one audience section of an enhanced newsletter,
+ * reusing the sources, persona and tone the section was originally written
+ * with. Rewrites are proposals: nothing is saved until the caller accepts one.
+ *
+ * Newsletters saved before section inputs were tracked get inputs rebuilt from
+ * the section itself (its cited sources, the audience definition, default tone).
+ */
+
+import * as newsletterDb from './newsletterDbService.ts';
+import { attributeUsageToNewsletter } from './usageService.ts';
+import { commitRevision } from './newsletterRevisionService.ts';
+import { generateAudienceSection } from '../domains/generation/services/singleAudienceSectionGenerator.ts';
+import { getSpecialization } from '../domains/generation/helpers/audienceHelpers.ts';
+import type {
+  EnhancedAudienceSection,
+  SectionGenerationInput,
+  SectionRewriteResult,
+} from '../../types.ts';
+
+// Tone the V4 pipeline defaults to
+const DEFAULT_TONE = 'confident';
+
+/**
+ * Rebuild generation inputs from a section saved without them
+ */
+const reconstructInput = (section: EnhancedAudienceSection): SectionGenerationInput => {
+  const spec = getSpecialization(section.audienceId);
+
+  return {
+    audience: {
+      id: section.audienceId,
+      name: spec?.name || section.audienceName,
+      description: spec?.description || section.audienceName,
+    },
+    topics: [{ title: section.title, audienceId: section.audienceId }],
+    sources: (section.sources || []).map(source => ({ url: source.url, title: source.title })),
+    tone: DEFAULT_TONE,
+    flavors: [],
+  };
+};
+
+/**
+ * Propose a new version of one audience section
+ *
+ * @param instruction - e.g. "shorter", "more technical"; omit to regenerate from scratch
+ * @returns null if the newsletter or the audience's section doesn't exist
+ */
+export const rewriteSection = async (
+  newsletterId: string,
+  audienceId: string,
+  instruction?: string
+): Promise<SectionRewriteResult | null> => {
+  const newsletter = newsletterDb.getEnhancedNewsletterById(newsletterId);
+  const original = newsletter?.audienceSections.find(s => s.audienceId === audienceId);
+  if (!original) return null;
+
+  const savedInput = newsletterDb.getSectionInput(newsletterId, audienceId);
+  const input = savedInput || reconstructInput(original);
+  const trimmedInstruction = instruction?.trim() || undefined;
+
+  console.log(
+    `[SectionRewrite] ${trimmedInstruction ? `Rewriting ("${trimmedInstruction}")` : 'Regenerating'} ` +
+    `${input.audience.name} section of ${newsletterId} (${savedInput ? 'original' : 'reconstructed'} inputs)`
+  );
+
+  attributeUsageToNewsletter(newsletterId);
+  const result = await generateAudienceSection({
+    ...input,
+    rewrite: { currentSection: original, instruction: trimmedInstruction },
+  });
+
+  return {
+    newsletterId,
+    audienceId,
+    original,
+    // Keep the current image until a new one is generated for the new prompt
+    proposal: { ...result.section, imageUrl: original.imageUrl },
+    instruction: trimmedInstruction || null,
+    inputsSource: savedInput ? 'original' : 'reconstructed',
+  };
+};
+
+/**
+ * Replace a section with an accepted proposal (recorded as a section_rewrite revision)
+ *
+ * @returns false if the newsletter or the audience's section doesn't exist
+ */
+export const acceptSectionRewrite = (
+  newsletterId: string,
+  audienceId: string,
+  section: EnhancedAudienceSection,
+  author?: string
+): boolean => {
+  const updated = newsletterDb.updateEnhancedSection(newsletterId, audienceId, section);
+  if (updated) {
+    commitRevision(newsletterId, 'section_rewrite', 'section_rewritten', { audienceId, title: section.title }, author);
+  }
+  return updated;
+};
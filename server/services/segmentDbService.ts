@@ -0,0 +1,191 @@
+/**
+ * Segment Database Service
+ * CRUD operations for saved subscriber segments (rule sets evaluated at send time)
+ */
+
+import db from '../db/init.ts';
+
+// Types
+export type SegmentRuleField =
+  | 'email'
+  | 'name'
+  | 'source'
+  | 'attribute'
+  | 'list'
+  | 'date_added'
+  | 'engagement';
+
+export type SegmentRuleOperator =
+  // Text fields (email, name, source, attribute)
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'is_set'
+  | 'is_not_set'
+  // list
+  | 'in_list'
+  | 'not_in_list'
+  // date_added
+  | 'before'
+  | 'after'
+  | 'within_days'
+  | 'older_than_days'
+  // engagement
+  | 'did'
+  | 'did_not';
+
+export interface SegmentRule {
+  field: SegmentRuleField;
+  operator: SegmentRuleOperator;
+  /** Comparison value: text, list ID, ISO date, or number of days */
+  value?: string;
+  /** Attribute key, for field 'attribute' */
+  attribute?: string;
+  /** Engagement event, for field 'engagement' */
+  event?: 'open' | 'click';
+  /** How many of the most recently sent newsletters to look at, for field 'engagement' */
+  lastNewsletters?: number;
+}
+
+export interface SegmentDefinition {
+  /** 'all' requires every rule to match, 'any' at least one */
+  match: 'all' | 'any';
+  rules: SegmentRule[];
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: SegmentDefinition;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface DbSegmentRow {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Segment IDs share the send-target namespace with list IDs
+export const SEGMENT_ID_PREFIX = 'seg_';
+
+/**
+ * Convert database row to Segment object
+ */
+const rowToSegment = (row: DbSegmentRow): Segment => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  definition: JSON.parse(row.definition),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Check whether a send target ID refers to a segment rather than a list
+ */
+export const isSegmentId = (id: string): boolean => id.startsWith(SEGMENT_ID_PREFIX);
+
+/**
+ * Get all segments
+ */
+export const getSegments = (): Segment[] => {
+  const rows = db
+    .prepare('SELECT * FROM subscriber_segments ORDER BY name ASC')
+    .all() as DbSegmentRow[];
+  return rows.map(rowToSegment);
+};
+
+/**
+ * Get segment by ID
+ */
+export const getSegmentById = (id: string): Segment | null => {
+  const row = db
+    .prepare('SELECT * FROM subscriber_segments WHERE id = ?')
+    .get(id) as DbSegmentRow | undefined;
+
+  if (!row) return null;
+  return rowToSegment(row);
+};
+
+/**
+ * Create a segment
+ */
+export const createSegment = (segment: {
+  name: string;
+  description?: string | null;
+  definition: SegmentDefinition;
+}): Segment => {
+  const id = `${SEGMENT_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  db.prepare(`
+    INSERT INTO subscriber_segments (id, name, description, definition)
+    VALUES (?, ?, ?, ?)
+  `).run(id, segment.name, segment.description || null, JSON.stringify(segment.definition));
+
+  console.log(`[SegmentDb] Created segment: ${id} (${segment.name})`);
+  return getSegmentById(id)!;
+};
+
+/**
+ * Update a segment
+ */
+export const updateSegment = (
+  id: string,
+  updates: Partial<{ name: string; description: string | null; definition: SegmentDefinition }>
+): Segment | null => {
+  const existing = getSegmentById(id);
+  if (!existing) return null;
+
+  const fields: string[] = [];
+  const values: (string | null)[] = [];
+
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.description !== undefined) {
+    fields.push('description = ?');
+    values.push(updates.description || null);
+  }
+  if (updates.definition !== undefined) {
+    fields.push('definition = ?');
+    values.push(JSON.stringify(updates.definition));
+  }
+
+  if (fields.length === 0) return existing;
+
+  fields.push("updated_at = datetime('now')");
+  values.push(id);
+
+  db.prepare(`
+    UPDATE subscriber_segments
+    SET ${fields.join(', ')}
+    WHERE id = ?
+  `).run(...values);
+
+  console.log(`[SegmentDb] Updated segment: ${id}`);
+  return getSegmentById(id);
+};
+
+/**
+ * Delete a segment
+ */
+export const deleteSegment = (id: string): boolean => {
+  const result = db.prepare('DELETE FROM subscriber_segments WHERE id = ?').run(id);
+
+  if (result.changes > 0) {
+    console.log(`[SegmentDb] Deleted segment: ${id}`);
+    return true;
+  }
+
+  return false;
+};
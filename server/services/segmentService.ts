@@ -0,0 +1,256 @@
+/**
+ * Segment Service
+ * Evaluates rule-based subscriber segments and resolves send targets.
+ *
+ * Anywhere a list ID is accepted as a send target, a segment ID (seg_...)
+ * can be used instead. Segments are evaluated when the send happens, so
+ * members reflect the subscriber data at that moment. Only active
+ * subscribers are ever members.
+ */
+
+import * as segmentDb from './segmentDbService.ts';
+import * as subscriberDb from './subscriberDbService.ts';
+import { getEngagedRecipients } from './trackingService.ts';
+import type { SegmentDefinition, SegmentRule, SegmentRuleField, SegmentRuleOperator } from './segmentDbService.ts';
+
+const TEXT_OPERATORS: SegmentRuleOperator[] = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_set', 'is_not_set',
+];
+
+const OPERATORS_BY_FIELD: Record<SegmentRuleField, SegmentRuleOperator[]> = {
+  email: TEXT_OPERATORS,
+  name: TEXT_OPERATORS,
+  source: TEXT_OPERATORS,
+  attribute: TEXT_OPERATORS,
+  list: ['in_list', 'not_in_list'],
+  date_added: ['before', 'after', 'within_days', 'older_than_days'],
+  engagement: ['did', 'did_not'],
+};
+
+const MAX_RULES = 50;
+const MAX_LAST_NEWSLETTERS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SegmentPreview {
+  count: number;
+  /** First members, for display */
+  members: subscriberDb.Subscriber[];
+}
+
+export interface ResolvedRecipients {
+  emails: string[];
+  /** Target IDs that matched no list or segment */
+  unknownTargets: string[];
+}
+
+/**
+ * Parse a stored timestamp ("YYYY-MM-DD HH:MM:SS" from SQLite is UTC)
+ */
+const parseTimestamp = (value: string): number =>
+  Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+
+const isPositiveInteger = (value: unknown): boolean =>
+  Number.isInteger(Number(value)) && Number(value) > 0;
+
+/**
+ * Validate a segment definition
+ * Returns an error message, or null when valid.
+ */
+export const validateDefinition = (definition: unknown): string | null => {
+  if (!definition || typeof definition !== 'object') {
+    return 'definition must be an object with match and rules';
+  }
+
+  const { match, rules } = definition as Partial<SegmentDefinition>;
+
+  if (match !== 'all' && match !== 'any') {
+    return "definition.match must be 'all' or 'any'";
+  }
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return 'definition.rules must be a non-empty array';
+  }
+  if (rules.length > MAX_RULES) {
+    return `A segment can have at most ${MAX_RULES} rules`;
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const label = `Rule ${index + 1}`;
+    const operators = rule && OPERATORS_BY_FIELD[rule.field as SegmentRuleField];
+
+    if (!operators) {
+      return `${label}: unknown field. Must be one of: ${Object.keys(OPERATORS_BY_FIELD).join(', ')}`;
+    }
+    if (!operators.includes(rule.operator)) {
+      return `${label}: operator for ${rule.field} must be one of: ${operators.join(', ')}`;
+    }
+
+    const needsValue = TEXT_OPERATORS.includes(rule.operator)
+      ? rule.operator !== 'is_set' && rule.operator !== 'is_not_set'
+      : rule.field !== 'engagement';
+    if (needsValue && (typeof rule.value !== 'string' || !rule.value.trim())) {
+      return `${label}: value is required`;
+    }
+
+    if (rule.field === 'attribute' && (typeof rule.attribute !== 'string' || !rule.attribute.trim())) {
+      return `${label}: attribute is required`;
+    }
+    if (rule.field === 'list' && !subscriberDb.getListById(rule.value!)) {
+      return `${label}: list not found: ${rule.value}`;
+    }
+    if ((rule.operator === 'before' || rule.operator === 'after') && Number.isNaN(Date.parse(rule.value!))) {
+      return `${label}: value must be a date`;
+    }
+    if ((rule.operator === 'within_days' || rule.operator === 'older_than_days') && !isPositiveInteger(rule.value)) {
+      return `${label}: value must be a positive number of days`;
+    }
+    if (rule.field === 'engagement') {
+      if (rule.event !== 'open' && rule.event !== 'click') {
+        return `${label}: event must be 'open' or 'click'`;
+      }
+      if (!isPositiveInteger(rule.lastNewsletters) || Number(rule.lastNewsletters) > MAX_LAST_NEWSLETTERS) {
+        return `${label}: lastNewsletters must be between 1 and ${MAX_LAST_NEWSLETTERS}`;
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Compare a text field (case-insensitive)
+ */
+const matchText = (actual: string | undefined, operator: SegmentRuleOperator, expected = ''): boolean => {
+  const value = (actual || '').trim().toLowerCase();
+  const target = expected.trim().toLowerCase();
+
+  switch (operator) {
+    case 'equals': return value === target;
+    case 'not_equals': return value !== target;
+    case 'contains': return value.includes(target);
+    case 'not_contains': return !value.includes(target);
+    case 'starts_with': return value.startsWith(target);
+    case 'ends_with': return value.endsWith(target);
+    case 'is_set': return value !== '';
+    case 'is_not_set': return value === '';
+    default: return false;
+  }
+};
+
+/**
+ * Build a rule matcher
+ * Engagement lookups are shared across rules of one evaluation.
+ */
+const createMatcher = (now: number) => {
+  const engagementCache = new Map<string, Set<string>>();
+
+  const getEngaged = (event: 'open' | 'click', lastNewsletters: number): Set<string> => {
+    const key = `${event}:${lastNewsletters}`;
+    if (!engagementCache.has(key)) {
+      engagementCache.set(key, getEngagedRecipients(event, lastNewsletters));
+    }
+    return engagementCache.get(key)!;
+  };
+
+  return (subscriber: subscriberDb.Subscriber, rule: SegmentRule): boolean => {
+    switch (rule.field) {
+      case 'email':
+      case 'name':
+      case 'source':
+        return matchText(subscriber[rule.field], rule.operator, rule.value);
+
+      case 'attribute': {
+        const key = subscriberDb.normalizeAttributeKey(rule.attribute || '');
+        return matchText(subscriber.attributes?.[key], rule.operator, rule.value);
+      }
+
+      case 'list': {
+        const lists = subscriber.lists.split(',').map(l => l.trim()).filter(Boolean);
+        const inList = lists.includes(rule.value || '');
+        return rule.operator === 'in_list' ? inList : !inList;
+      }
+
+      case 'date_added': {
+        const added = parseTimestamp(subscriber.dateAdded);
+        if (Number.isNaN(added)) return false;
+        switch (rule.operator) {
+          case 'before': return added < Date.parse(rule.value!);
+          case 'after': return added > Date.parse(rule.value!);
+          case 'within_days': return now - added <= Number(rule.value) * DAY_MS;
+          case 'older_than_days': return now - added > Number(rule.value) * DAY_MS;
+          default: return false;
+        }
+      }
+
+      case 'engagement': {
+        const engaged = getEngaged(rule.event || 'open', Number(rule.lastNewsletters) || 1)
+          .has(subscriber.email.toLowerCase());
+        return rule.operator === 'did' ? engaged : !engaged;
+      }
+
+      default:
+        return false;
+    }
+  };
+};
+
+/**
+ * Evaluate a segment definition against the current active subscribers
+ */
+export const evaluateDefinition = (definition: SegmentDefinition): subscriberDb.Subscriber[] => {
+  const matches = createMatcher(Date.now());
+
+  return subscriberDb.getSubscribers({ status: 'active' }).filter(subscriber =>
+    definition.match === 'all'
+      ? definition.rules.every(rule => matches(subscriber, rule))
+      : definition.rules.some(rule => matches(subscriber, rule))
+  );
+};
+
+/**
+ * Preview a definition: member count and the first members
+ */
+export const previewDefinition = (definition: SegmentDefinition, limit = 25): SegmentPreview => {
+  const members = evaluateDefinition(definition);
+  return { count: members.length, members: members.slice(0, limit) };
+};
+
+/**
+ * Get the current members of a saved segment (null if it doesn't exist)
+ */
+export const getSegmentMembers = (segmentId: string): subscriberDb.Subscriber[] | null => {
+  const segment = segmentDb.getSegmentById(segmentId);
+  if (!segment) return null;
+  return evaluateDefinition(segment.definition);
+};
+
+/**
+ * Resolve send targets (list IDs and/or segment IDs) to unique active recipient emails
+ */
+export const resolveRecipients = (targetIds: string[]): ResolvedRecipients => {
+  const emails = new Set<string>();
+  const unknownTargets: string[] = [];
+
+  for (const targetId of targetIds) {
+    if (segmentDb.isSegmentId(targetId)) {
+      const members = getSegmentMembers(targetId);
+      if (!members) {
+        unknownTargets.push(targetId);
+        continue;
+      }
+      members.forEach(s => emails.add(s.email));
+      continue;
+    }
+
+    if (!subscriberDb.getListById(targetId)) {
+      unknownTargets.push(targetId);
+      continue;
+    }
+    subscriberDb.getSubscribersByList(targetId).forEach(s => emails.add(s.email));
+  }
+
+  if (unknownTargets.length > 0) {
+    console.warn(`[Segment] Unknown send targets: ${unknownTargets.join(', ')}`);
+  }
+
+  return { emails: Array.from(emails), unknownTargets };
+};
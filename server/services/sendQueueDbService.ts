@@ -0,0 +1,425 @@
+/**
+ * Send Queue Database Service
+ * Persisted bulk send jobs and per-recipient delivery state
+ */
+
+import db from '../db/init.ts';
+
+// Types
+export type SendJobSource = 'scheduled' | 'manual';
+export type SendJobStatus = 'sending' | 'completed';
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface SendJob {
+  id: string;
+  source: SendJobSource;
+  newsletterId: string | null;
+  userEmail: string;
+  subject: string;
+  htmlBody: string;
+  status: SendJobStatus;
+  totalRecipients: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface SendJobSummary extends Omit<SendJob, 'htmlBody'> {
+  counts: Record<DeliveryStatus, number>;
+  /** Recipients per audience variant (empty when the send wasn't tailored) */
+  variantCounts: Record<string, number>;
+}
+
+export interface Delivery {
+  id: number;
+  sendId: string;
+  recipientEmail: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  messageId: string | null;
+  sentAt: string | null;
+  updatedAt: string;
+  /** Audience variant this recipient gets ('all' or URL-encoded audience IDs joined with '+'); null when the send has no variants */
+  variant: string | null;
+}
+
+export interface SendVariantRecord {
+  key: string;
+  audienceIds: string[];
+  htmlBody: string;
+}
+
+interface DbSendJobRow {
+  id: string;
+  source: string;
+  newsletter_id: string | null;
+  user_email: string;
+  subject: string;
+  html_body: string;
+  status: string;
+  total_recipients: number;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface DbDeliveryRow {
+  id: number;
+  send_id: string;
+  recipient_email: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  message_id: string | null;
+  sent_at: string | null;
+  updated_at: string;
+  variant: string | null;
+}
+
+interface DbVariantRow {
+  send_id: string;
+  variant_key: string;
+  audience_ids: string;
+  html_body: string;
+}
+
+/**
+ * Convert database row to SendJob object
+ */
+const rowToSendJob = (row: DbSendJobRow): SendJob => ({
+  id: row.id,
+  source: row.source as SendJobSource,
+  newsletterId: row.newsletter_id,
+  userEmail: row.user_email,
+  subject: row.subject,
+  htmlBody: row.html_body,
+  status: row.status as SendJobStatus,
+  totalRecipients: row.total_recipients,
+  createdAt: row.created_at,
+  completedAt: row.completed_at,
+});
+
+/**
+ * Convert database row to Delivery object
+ */
+const rowToDelivery = (row: DbDeliveryRow): Delivery => ({
+  id: row.id,
+  sendId: row.send_id,
+  recipientEmail: row.recipient_email,
+  status: row.status as DeliveryStatus,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastError: row.last_error,
+  messageId: row.message_id,
+  sentAt: row.sent_at,
+  updatedAt: row.updated_at,
+  variant: row.variant,
+});
+
+// =============================================================================
+// SEND JOBS
+// =============================================================================
+
+/**
+ * Create a send job with one pending delivery per recipient
+ * Recipients listed in `skipped` are recorded as skipped and never sent.
+ * With a variant plan, each delivery records the variant it gets and the
+ * variants' HTML is stored alongside the job.
+ * Re-creating an existing job keeps the deliveries already recorded for it.
+ */
+export const createSendJob = (
+  job: {
+    id: string;
+    source: SendJobSource;
+    newsletterId: string | null;
+    userEmail: string;
+    subject: string;
+    htmlBody: string;
+  },
+  recipients: string[],
+  skipped: string[] = [],
+  variantPlan?: { variants: SendVariantRecord[]; assignments: Record<string, string> }
+): SendJob => {
+  const now = new Date().toISOString();
+
+  const insertJob = db.prepare(`
+    INSERT INTO email_send_jobs (id, source, newsletter_id, user_email, subject, html_body, status, total_recipients)
+    VALUES (?, ?, ?, ?, ?, ?, 'sending', ?)
+    ON CONFLICT(id) DO UPDATE SET status = 'sending', completed_at = NULL
+  `);
+
+  const insertDelivery = db.prepare(`
+    INSERT OR IGNORE INTO email_deliveries (send_id, recipient_email, status, next_attempt_at, variant)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertVariant = db.prepare(`
+    INSERT OR REPLACE INTO email_send_variants (send_id, variant_key, audience_ids, html_body)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const variantFor = (email: string): string | null => variantPlan?.assignments[email] || null;
+
+  db.transaction(() => {
+    insertJob.run(
+      job.id,
+      job.source,
+      job.newsletterId,
+      job.userEmail,
+      job.subject,
+      job.htmlBody,
+      recipients.length + skipped.length
+    );
+
+    for (const variant of variantPlan?.variants || []) {
+      insertVariant.run(job.id, variant.key, JSON.stringify(variant.audienceIds), variant.htmlBody);
+    }
+    for (const email of recipients) {
+      insertDelivery.run(job.id, email, 'pending', now, variantFor(email));
+    }
+    for (const email of skipped) {
+      insertDelivery.run(job.id, email, 'skipped', null, variantFor(email));
+    }
+  })();
+
+  console.log(`[SendQueueDb] Created send job ${job.id} (${recipients.length} recipients, ${skipped.length} skipped)`);
+  return getSendJobById(job.id)!;
+};
+
+/**
+ * Get send job by ID
+ */
+export const getSendJobById = (id: string): SendJob | null => {
+  const row = db
+    .prepare('SELECT * FROM email_send_jobs WHERE id = ?')
+    .get(id) as DbSendJobRow | undefined;
+
+  if (!row) return null;
+  return rowToSendJob(row);
+};
+
+/**
+ * Get the tailored variants stored for a send job
+ */
+export const getSendVariants = (sendId: string): SendVariantRecord[] => {
+  const rows = db
+    .prepare('SELECT * FROM email_send_variants WHERE send_id = ? ORDER BY variant_key ASC')
+    .all(sendId) as DbVariantRow[];
+
+  return rows.map(row => ({
+    key: row.variant_key,
+    audienceIds: JSON.parse(row.audience_ids),
+    htmlBody: row.html_body,
+  }));
+};
+
+/**
+ * Count a send job's recipients per variant
+ */
+export const getVariantCounts = (sendId: string): Record<string, number> => {
+  const rows = db
+    .prepare(`
+      SELECT variant, COUNT(*) as count FROM email_deliveries
+      WHERE send_id = ? AND variant IS NOT NULL
+      GROUP BY variant
+    `)
+    .all(sendId) as { variant: string; count: number }[];
+
+  return Object.fromEntries(rows.map(row => [row.variant, row.count]));
+};
+
+/**
+ * Get delivery counts by status for a send job
+ */
+export const getDeliveryCounts = (sendId: string): Record<DeliveryStatus, number> => {
+  const rows = db
+    .prepare('SELECT status, COUNT(*) as count FROM email_deliveries WHERE send_id = ? GROUP BY status')
+    .all(sendId) as { status: DeliveryStatus; count: number }[];
+
+  const counts: Record<DeliveryStatus, number> = { pending: 0, sending: 0, sent: 0, failed: 0, skipped: 0 };
+  for (const row of rows) {
+    counts[row.status] = row.count;
+  }
+  return counts;
+};
+
+/**
+ * Get a send job without its HTML body, with delivery counts
+ */
+export const getSendJobSummary = (id: string): SendJobSummary | null => {
+  const job = getSendJobById(id);
+  if (!job) return null;
+
+  const { htmlBody: _htmlBody, ...rest } = job;
+  return { ...rest, counts: getDeliveryCounts(id), variantCounts: getVariantCounts(id) };
+};
+
+/**
+ * List recent send jobs (newest first)
+ */
+export const getRecentSendJobs = (limit = 50): SendJobSummary[] => {
+  const rows = db
+    .prepare('SELECT id FROM email_send_jobs ORDER BY created_at DESC LIMIT ?')
+    .all(limit) as { id: string }[];
+
+  return rows.map(row => getSendJobSummary(row.id)!);
+};
+
+/**
+ * Get IDs of send jobs by status
+ */
+export const getSendJobIdsByStatus = (status: SendJobStatus): string[] => {
+  const rows = db
+    .prepare('SELECT id FROM email_send_jobs WHERE status = ? ORDER BY created_at ASC')
+    .all(status) as { id: string }[];
+
+  return rows.map(row => row.id);
+};
+
+/**
+ * Get IDs of jobs that still have pending deliveries due now
+ */
+export const getSendJobIdsWithDueDeliveries = (): string[] => {
+  const now = new Date().toISOString();
+  const rows = db
+    .prepare(`
+      SELECT DISTINCT send_id FROM email_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+    `)
+    .all(now) as { send_id: string }[];
+
+  return rows.map(row => row.send_id);
+};
+
+/**
+ * Mark a send job completed (or re-open it when deliveries are re-queued)
+ */
+export const setSendJobStatus = (id: string, status: SendJobStatus): void => {
+  db.prepare(`
+    UPDATE email_send_jobs
+    SET status = ?, completed_at = ${status === 'completed' ? "datetime('now')" : 'NULL'}
+    WHERE id = ?
+  `).run(status, id);
+};
+
+// =============================================================================
+// DELIVERIES
+// =============================================================================
+
+/**
+ * Get deliveries for a send job, optionally filtered by status
+ */
+export const getDeliveries = (sendId: string, status?: DeliveryStatus): Delivery[] => {
+  const rows = status
+    ? db
+        .prepare('SELECT * FROM email_deliveries WHERE send_id = ? AND status = ? ORDER BY id ASC')
+        .all(sendId, status) as DbDeliveryRow[]
+    : db
+        .prepare('SELECT * FROM email_deliveries WHERE send_id = ? ORDER BY id ASC')
+        .all(sendId) as DbDeliveryRow[];
+
+  return rows.map(rowToDelivery);
+};
+
+/**
+ * Atomically claim up to `limit` due pending deliveries for a send job
+ */
+export const claimDueDeliveries = (sendId: string, limit: number): Delivery[] => {
+  const now = new Date().toISOString();
+
+  return db.transaction(() => {
+    const rows = db
+      .prepare(`
+        SELECT * FROM email_deliveries
+        WHERE send_id = ? AND status = 'pending' AND next_attempt_at <= ?
+        ORDER BY id ASC
+        LIMIT ?
+      `)
+      .all(sendId, now, limit) as DbDeliveryRow[];
+
+    const claim = db.prepare(`
+      UPDATE email_deliveries
+      SET status = 'sending', attempts = attempts + 1, updated_at = datetime('now')
+      WHERE id = ? AND status = 'pending'
+    `);
+
+    return rows
+      .filter(row => claim.run(row.id).changes > 0)
+      .map(row => rowToDelivery({ ...row, status: 'sending', attempts: row.attempts + 1 }));
+  })();
+};
+
+/**
+ * Record a successful delivery
+ */
+export const markDeliverySent = (id: number, messageId: string | null): void => {
+  db.prepare(`
+    UPDATE email_deliveries
+    SET status = 'sent', message_id = ?, last_error = NULL, next_attempt_at = NULL,
+        sent_at = datetime('now'), updated_at = datetime('now')
+    WHERE id = ?
+  `).run(messageId, id);
+};
+
+/**
+ * Put a delivery back in the queue for a later attempt
+ */
+export const markDeliveryRetry = (id: number, error: string, nextAttemptAt: string): void => {
+  db.prepare(`
+    UPDATE email_deliveries
+    SET status = 'pending', last_error = ?, next_attempt_at = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(error, nextAttemptAt, id);
+};
+
+/**
+ * Record a permanent delivery failure
+ */
+export const markDeliveryFailed = (id: number, error: string): void => {
+  db.prepare(`
+    UPDATE email_deliveries
+    SET status = 'failed', last_error = ?, next_attempt_at = NULL, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(error, id);
+};
+
+/**
+ * Re-queue failed deliveries (all, or only the given recipients) with a fresh attempt budget
+ * Returns the number of deliveries re-queued.
+ */
+export const requeueFailedDeliveries = (sendId: string, recipients?: string[]): number => {
+  const now = new Date().toISOString();
+  const requeue = db.prepare(`
+    UPDATE email_deliveries
+    SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = datetime('now')
+    WHERE send_id = ? AND status = 'failed' AND (? IS NULL OR recipient_email = ?)
+  `);
+
+  if (!recipients) {
+    return requeue.run(now, sendId, null, null).changes;
+  }
+
+  return db.transaction(() =>
+    recipients.reduce((total, email) => total + requeue.run(now, sendId, email, email).changes, 0)
+  )();
+};
+
+/**
+ * Return deliveries left in 'sending' by a crash or restart to the queue
+ * The send may or may not have gone out; re-sending is preferred over silently dropping.
+ */
+export const recoverInterruptedDeliveries = (): number => {
+  const now = new Date().toISOString();
+  const result = db.prepare(`
+    UPDATE email_deliveries
+    SET status = 'pending', next_attempt_at = ?, updated_at = datetime('now')
+    WHERE status = 'sending'
+  `).run(now);
+
+  if (result.changes > 0) {
+    console.log(`[SendQueueDb] Re-queued ${result.changes} interrupted deliveries`);
+  }
+
+  return result.changes;
+};
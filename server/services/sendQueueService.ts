@@ -0,0 +1,386 @@
+/**
+ * Send Queue Service
+ * Durable bulk sending: every recipient of a send gets a persisted delivery
+ * row, temporary failures (e.g. Gmail 429) are retried with exponential
+ * backoff, and unfinished sends resume after a restart.
+ */
+
+import * as cron from 'node-cron';
+import * as sendQueueDb from './sendQueueDbService.ts';
+import * as schedulerDb from './schedulerDbService.ts';
+import * as newsletterDb from './newsletterDbService.ts';
+import { getTransport, type EmailTransport, type EmailTransportType, type SendResult } from './emailTransportService.ts';
+import { isTrackingEnabled, addTrackingToHtml, incrementSentCount } from './trackingService.ts';
+import { getUnsubscribeUrl, getListUnsubscribeHeaders } from './unsubscribeService.ts';
+import { applyUnsubscribeLink } from './newsletterFormatService.ts';
+import { getSubscriberByEmail, getAttributeKeys } from './subscriberDbService.ts';
+import { personalize } from './mergeTagService.ts';
+import type { VariantPlan } from './audienceVariantService.ts';
+
+// Process in batches to avoid rate limits
+const BATCH_SIZE = 10;
+const DELAY_BETWEEN_BATCHES = 1000; // 1 second
+
+// Retry policy for temporary failures: 30s, 1m, 2m, 4m, ... capped at 1h
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Track worker state
+let workerTask: ReturnType<typeof cron.schedule> | null = null;
+const activeSends = new Set<string>();
+
+export interface BulkSendOptions {
+  /** Newsletter being sent; enables per-recipient tracking and sent-count stats */
+  newsletterId?: string;
+  /** Reuse an existing ID (scheduled sends use their scheduled send ID) */
+  sendId?: string;
+  source?: sendQueueDb.SendJobSource;
+  /** Per-audience variants; each recipient gets their assigned variant's HTML instead of htmlBody */
+  variants?: VariantPlan | null;
+}
+
+export interface DeliveryAttemptResult {
+  email: string;
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  /** Failed temporarily and queued for another attempt */
+  willRetry?: boolean;
+}
+
+export interface BulkSendResult {
+  success: boolean;
+  sendId: string;
+  transport: EmailTransportType | null;
+  results: DeliveryAttemptResult[];
+  totalSent: number;
+  totalFailed: number;
+  /** Recipients waiting for a retry */
+  totalPending: number;
+  skipped: string[];
+  /** Recipients per audience variant (empty when the send wasn't tailored) */
+  variantCounts: Record<string, number>;
+}
+
+/**
+ * Backoff before the next attempt, after `attempts` attempts so far
+ */
+export const getRetryDelayMs = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+/**
+ * Send one recipient's personalized copy
+ * The body is the recipient's audience variant when the send has variants.
+ * Merge tags in the subject and body are resolved from the recipient's
+ * subscriber record (recipients without one only get email-based values).
+ */
+const deliver = async (
+  transport: EmailTransport,
+  job: sendQueueDb.SendJob,
+  delivery: sendQueueDb.Delivery,
+  variantBodies: Map<string, string>,
+  trackingEnabled: boolean,
+  attributeKeys: string[]
+): Promise<SendResult> => {
+  const email = delivery.recipientEmail;
+  const newsletterId = job.newsletterId || undefined;
+  const { subject, htmlBody } = personalize(
+    getSubscriberByEmail(email) || { email },
+    {
+      subject: job.subject,
+      htmlBody: (delivery.variant && variantBodies.get(delivery.variant)) || job.htmlBody,
+    },
+    attributeKeys
+  );
+  const personalizedHtml = applyUnsubscribeLink(htmlBody, getUnsubscribeUrl(email, newsletterId));
+  const recipientHtml = trackingEnabled
+    ? addTrackingToHtml(personalizedHtml, newsletterId!, email)
+    : personalizedHtml;
+
+  return transport.send({
+    to: email,
+    subject,
+    htmlBody: recipientHtml,
+    headers: getListUnsubscribeHeaders(email, newsletterId),
+  });
+};
+
+/**
+ * Mark a job completed once no deliveries are outstanding
+ * Scheduled sends get their final status and a newsletter log entry here,
+ * since retries can finish long after the scheduler tick that started them.
+ */
+const finalizeIfComplete = (job: sendQueueDb.SendJob, transportType: EmailTransportType | null): void => {
+  const counts = sendQueueDb.getDeliveryCounts(job.id);
+  if (counts.pending > 0 || counts.sending > 0) return;
+
+  sendQueueDb.setSendJobStatus(job.id, 'completed');
+  console.log(`[SendQueue] Send ${job.id} complete: ${counts.sent} sent, ${counts.failed} failed, ${counts.skipped} skipped`);
+
+  if (job.source !== 'scheduled') return;
+
+  const attempted = counts.sent + counts.failed;
+  if (counts.failed > 0 && counts.sent === 0) {
+    schedulerDb.updateScheduledSendStatus(job.id, 'failed', `All ${counts.failed} emails failed`, counts.sent);
+  } else if (counts.failed > 0) {
+    // Partial success - still mark as sent but note failures
+    schedulerDb.updateScheduledSendStatus(
+      job.id,
+      'sent',
+      `${counts.failed} of ${attempted} emails failed`,
+      counts.sent
+    );
+  } else {
+    schedulerDb.updateScheduledSendStatus(job.id, 'sent', null, counts.sent);
+  }
+
+  if (job.newsletterId) {
+    const scheduledSend = schedulerDb.getScheduledSendById(job.id);
+    newsletterDb.logAction(job.newsletterId, 'scheduled_send', {
+      scheduledSendId: job.id,
+      totalSent: counts.sent,
+      totalFailed: counts.failed,
+      skipped: counts.skipped,
+      scheduledAt: scheduledSend?.scheduledAt,
+      transport: transportType,
+      variantCounts: sendQueueDb.getVariantCounts(job.id),
+    });
+  }
+};
+
+/**
+ * Work through the due deliveries of one send job
+ * Returns the results of the attempts made in this pass. Deliveries whose
+ * retry isn't due yet are left for the worker.
+ */
+export const processSend = async (
+  sendId: string
+): Promise<{ results: DeliveryAttemptResult[]; transport: EmailTransportType | null }> => {
+  const results: DeliveryAttemptResult[] = [];
+
+  if (activeSends.has(sendId)) {
+    return { results, transport: null };
+  }
+
+  const job = sendQueueDb.getSendJobById(sendId);
+  if (!job) {
+    return { results, transport: null };
+  }
+
+  activeSends.add(sendId);
+
+  try {
+    let transport: EmailTransport | null = null;
+    let transportError: string | null = null;
+
+    try {
+      transport = getTransport(job.userEmail);
+    } catch (error) {
+      // Misconfiguration, not a temporary failure: fail the due deliveries so they can be retried once fixed
+      transportError = (error as Error).message;
+      console.error(`[SendQueue] No usable transport for ${job.userEmail}: ${transportError}`);
+    }
+
+    const trackingEnabled = job.newsletterId ? isTrackingEnabled(job.newsletterId) : false;
+    const attributeKeys = getAttributeKeys();
+    const variantBodies = new Map(sendQueueDb.getSendVariants(sendId).map(v => [v.key, v.htmlBody]));
+    let batchNumber = 0;
+
+    for (;;) {
+      const batch = sendQueueDb.claimDueDeliveries(sendId, BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      if (batchNumber > 0) {
+        await new Promise(resolve => setTimeout(resolve, DELAY_BETWEEN_BATCHES));
+      }
+      batchNumber++;
+
+      // Send batch in parallel
+      const batchResults = await Promise.all(
+        batch.map(async (delivery) => {
+          const result: SendResult = transport
+            ? await deliver(transport, job, delivery, variantBodies, trackingEnabled, attributeKeys)
+            : { success: false, error: transportError || 'No email transport available' };
+
+          if (result.success) {
+            sendQueueDb.markDeliverySent(delivery.id, result.messageId || null);
+            return { email: delivery.recipientEmail, success: true, messageId: result.messageId };
+          }
+
+          const error = result.error || 'Failed to send email';
+
+          if (result.retryable && delivery.attempts < MAX_ATTEMPTS) {
+            const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(delivery.attempts)).toISOString();
+            sendQueueDb.markDeliveryRetry(delivery.id, error, nextAttemptAt);
+            return { email: delivery.recipientEmail, success: false, error, willRetry: true };
+          }
+
+          sendQueueDb.markDeliveryFailed(delivery.id, error);
+          return { email: delivery.recipientEmail, success: false, error };
+        })
+      );
+
+      results.push(...batchResults);
+      console.log(`[SendQueue] Send ${sendId} batch ${batchNumber} complete: ${batch.length} emails processed`);
+    }
+
+    const sentThisPass = results.filter(r => r.success).length;
+    if (job.newsletterId && sentThisPass > 0) {
+      incrementSentCount(job.newsletterId, sentThisPass);
+    }
+
+    finalizeIfComplete(job, transport?.type || null);
+
+    return { results, transport: transport?.type || null };
+  } finally {
+    activeSends.delete(sendId);
+  }
+};
+
+/**
+ * Queue a bulk send and make the first delivery pass
+ * Each recipient gets their own copy with a signed unsubscribe link and
+ * List-Unsubscribe headers. When a newsletter ID is given and tracking is
+ * enabled for it, links are click-tracked and an open pixel is added.
+ * Recipients who have unsubscribed are skipped. With a variant plan each
+ * recipient gets the audience variant assigned to them.
+ */
+export const sendBulkEmails = async (
+  userEmail: string,
+  recipients: string[],
+  subject: string,
+  htmlBody: string,
+  options: BulkSendOptions = {}
+): Promise<BulkSendResult> => {
+  const sendId = options.sendId || `bulk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const uniqueRecipients = Array.from(new Set(recipients));
+
+  // Never mail someone who opted out, even if a stale list still includes them
+  const skipped = uniqueRecipients.filter(email => getSubscriberByEmail(email)?.status === 'inactive');
+  if (skipped.length > 0) {
+    console.log(`[SendQueue] Skipping ${skipped.length} unsubscribed recipients`);
+  }
+
+  sendQueueDb.createSendJob(
+    {
+      id: sendId,
+      source: options.source || 'manual',
+      newsletterId: options.newsletterId || null,
+      userEmail,
+      subject,
+      htmlBody,
+    },
+    uniqueRecipients.filter(email => !skipped.includes(email)),
+    skipped,
+    options.variants || undefined
+  );
+
+  const { results, transport } = await processSend(sendId);
+  const counts = sendQueueDb.getDeliveryCounts(sendId);
+
+  console.log(`[SendQueue] Bulk send ${sendId} first pass: ${counts.sent} sent, ${counts.failed} failed, ${counts.pending} awaiting retry`);
+
+  return {
+    success: counts.failed === 0 && counts.pending === 0,
+    sendId,
+    transport,
+    results,
+    totalSent: counts.sent,
+    totalFailed: counts.failed,
+    totalPending: counts.pending,
+    skipped,
+    variantCounts: sendQueueDb.getVariantCounts(sendId),
+  };
+};
+
+/**
+ * Re-queue failed deliveries of a send (all, or only the given recipients)
+ * Processing continues in the background; returns the number re-queued.
+ */
+export const retryFailedDeliveries = (sendId: string, recipients?: string[]): number => {
+  const job = sendQueueDb.getSendJobById(sendId);
+  if (!job) return 0;
+
+  const requeued = sendQueueDb.requeueFailedDeliveries(sendId, recipients);
+  if (requeued === 0) return 0;
+
+  sendQueueDb.setSendJobStatus(sendId, 'sending');
+  if (job.source === 'scheduled') {
+    schedulerDb.updateScheduledSendStatus(sendId, 'sending');
+  }
+
+  console.log(`[SendQueue] Re-queued ${requeued} failed deliveries for ${sendId}`);
+
+  processSend(sendId).catch(error => {
+    console.error(`[SendQueue] Retry pass failed for ${sendId}:`, error);
+  });
+
+  return requeued;
+};
+
+/**
+ * Process every send with deliveries due (runs on the worker tick)
+ */
+const processDueSends = async (): Promise<void> => {
+  for (const sendId of sendQueueDb.getSendJobIdsWithDueDeliveries()) {
+    try {
+      await processSend(sendId);
+    } catch (error) {
+      console.error(`[SendQueue] Error processing send ${sendId}:`, error);
+    }
+  }
+};
+
+/**
+ * Start the queue worker
+ * Deliveries interrupted by a restart are re-queued, and jobs that finished
+ * their last delivery but weren't finalized are finalized.
+ */
+export const startSendQueueWorker = (): void => {
+  if (workerTask) {
+    console.log('[SendQueue] Worker already running');
+    return;
+  }
+
+  sendQueueDb.recoverInterruptedDeliveries();
+
+  for (const sendId of sendQueueDb.getSendJobIdsByStatus('sending')) {
+    const job = sendQueueDb.getSendJobById(sendId);
+    if (job) finalizeIfComplete(job, null);
+  }
+
+  // Every 30 seconds
+  workerTask = cron.schedule('*/30 * * * * *', () => {
+    processDueSends().catch(error => {
+      console.error('[SendQueue] Worker tick failed:', error);
+    });
+  });
+
+  console.log('[SendQueue] Worker started');
+
+  // Resume anything already due right away
+  processDueSends().catch(error => {
+    console.error('[SendQueue] Initial resume failed:', error);
+  });
+};
+
+/**
+ * Stop the queue worker
+ */
+export const stopSendQueueWorker = (): void => {
+  if (workerTask) {
+    workerTask.stop();
+    workerTask = null;
+  }
+
+  console.log('[SendQueue] Worker stopped');
+};
+
+/**
+ * Get queue worker status
+ */
+export const getSendQueueStatus = (): { running: boolean; activeSends: string[] } => ({
+  running: workerTask !== null,
+  activeSends: Array.from(activeSends),
+});
@@ -18,6 +18,10 @@ export interface SentHistoryItem {
   listIds: string[];
   recipientCount: number;
   recipientEmails?: string[];
+  /** Per-audience variants sent (absent when the send wasn't tailored) */
+  variants?: SentVariantSummary[];
+  /** Variant key each recipient got (detail only) */
+  recipientVariants?: Record<string, string>;
   stats: {
     totalSent: number;
     uniqueOpens: number;
@@ -28,6 +32,13 @@ export interface SentHistoryItem {
   newsletterContent?: Record<string, unknown>;
 }
 
+export interface SentVariantSummary {
+  /** 'all' for the full newsletter, otherwise audience IDs joined with '+' */
+  key: string;
+  audienceNames: string[];
+  recipientCount: number;
+}
+
 export interface SentHistoryOptions {
   limit?: number;
   offset?: number;
@@ -117,6 +128,52 @@ const safeJsonParse = <T>(json: string | null, fallback: T): T => {
   }
 };
 
+/**
+ * Summarize the audience variants of a send from its delivery rows
+ * Sends are linked through the send_id the client logs with 'sent_email'.
+ */
+const getVariantSummary = (sendId: unknown, audienceSectionsJson: string | null): SentVariantSummary[] | undefined => {
+  if (typeof sendId !== 'string') return undefined;
+
+  const rows = db.prepare(`
+    SELECT d.variant, v.audience_ids, COUNT(*) as count
+    FROM email_deliveries d
+    LEFT JOIN email_send_variants v ON v.send_id = d.send_id AND v.variant_key = d.variant
+    WHERE d.send_id = ? AND d.variant IS NOT NULL
+    GROUP BY d.variant
+    ORDER BY d.variant ASC
+  `).all(sendId) as { variant: string; audience_ids: string | null; count: number }[];
+
+  if (rows.length === 0) return undefined;
+
+  const sections = safeJsonParse<{ audienceId: string; audienceName: string }[]>(audienceSectionsJson, []);
+  const nameOf = (audienceId: string) => sections.find(s => s.audienceId === audienceId)?.audienceName || audienceId;
+
+  return rows.map(row => ({
+    key: row.variant,
+    audienceNames: row.variant === 'all'
+      ? ['All audiences']
+      : safeJsonParse<string[]>(row.audience_ids, row.variant.split('+')).map(nameOf),
+    recipientCount: row.count,
+  }));
+};
+
+/**
+ * Get the variant each recipient of a send got
+ */
+const getRecipientVariants = (sendId: unknown): Record<string, string> | undefined => {
+  if (typeof sendId !== 'string') return undefined;
+
+  const rows = db.prepare(`
+    SELECT recipient_email, variant FROM email_deliveries
+    WHERE send_id = ? AND variant IS NOT NULL
+  `).all(sendId) as { recipient_email: string; variant: string }[];
+
+  return rows.length > 0
+    ? Object.fromEntries(rows.map(row => [row.recipient_email, row.variant]))
+    : undefined;
+};
+
 /**
  * Get sent newsletter history with stats
  */
@@ -227,6 +284,7 @@ export const getSentHistory = (options: SentHistoryOptions = {}): SentHistoryRes
       listIds,
       recipientCount,
       recipientEmails,
+      variants: getVariantSummary(details.send_id, row.audience_sections),
       stats,
     };
   });
@@ -339,6 +397,8 @@ export const getSentHistoryDetail = (newsletterId: string): SentHistoryItem | nu
     listIds,
     recipientCount,
     recipientEmails,
+    variants: getVariantSummary(details.send_id, row.audience_sections),
+    recipientVariants: getRecipientVariants(details.send_id),
     stats,
     newsletterContent,
   };
@@ -8,8 +8,12 @@
  * - Reddit (community discussions)
  * - GitHub (trending repos)
  * - Dev.to (developer articles)
+ *
+ * Requests go through the per-source tool rate limits (control-plane tiers).
  */
 
+import { fetchWithToolLimit } from '../control-plane/invocation/toolRateLimiter';
+
 export interface SourceArticle {
   title: string;
   url: string;
@@ -57,7 +61,7 @@ async function fetchGDELT(
     const encodedQuery = encodeURIComponent(query);
     const url = `https://api.gdeltproject.org/api/v2/doc/doc?query=${encodedQuery}&mode=ArtList&format=json&maxrecords=${limit}&timespan=7d`;
 
-    const response = await fetch(url);
+    const response = await fetchWithToolLimit('source-gdelt', url);
     const text = await response.text();
 
     // GDELT returns HTML error pages sometimes
@@ -98,7 +102,7 @@ async function fetchArXiv(
     const categoryQuery = categories.join('+OR+');
     const url = `http://export.arxiv.org/api/query?search_query=cat:${categoryQuery}&sortBy=submittedDate&sortOrder=descending&max_results=${limit}`;
 
-    const response = await fetch(url);
+    const response = await fetchWithToolLimit('source-arxiv', url);
     const xml = await response.text();
 
     // Simple XML parsing for entries
@@ -141,7 +145,7 @@ async function fetchHackerNews(
 ): Promise<{ articles: SourceArticle[]; error?: string }> {
   try {
     const topStoriesUrl = 'https://hacker-news.firebaseio.com/v0/topstories.json';
-    const response = await fetch(topStoriesUrl);
+    const response = await fetchWithToolLimit('source-hackernews', topStoriesUrl);
     const storyIds = (await response.json()) as number[];
 
     const articles: SourceArticle[] = [];
@@ -151,7 +155,7 @@ async function fetchHackerNews(
 
       try {
         const storyUrl = `https://hacker-news.firebaseio.com/v0/item/${storyId}.json`;
-        const storyResponse = await fetch(storyUrl);
+        const storyResponse = await fetchWithToolLimit('source-hackernews', storyUrl);
         const story = (await storyResponse.json()) as {
           title?: string;
           url?: string;
@@ -198,7 +202,7 @@ async function fetchReddit(
 
       try {
         const url = `https://www.reddit.com/r/${subreddit}/hot.json?limit=${Math.ceil(limit / subreddits.length)}`;
-        const response = await fetch(url, {
+        const response = await fetchWithToolLimit('source-reddit', url, {
           headers: { 'User-Agent': 'AI-Newsletter/1.0' },
         });
 
@@ -262,7 +266,7 @@ async function fetchGitHub(
 
     const url = `https://api.github.com/search/repositories?q=topic:machine-learning+created:>${oneWeekAgo}&sort=stars&order=desc&per_page=${limit}`;
 
-    const response = await fetch(url, {
+    const response = await fetchWithToolLimit('source-github', url, {
       headers: {
         Accept: 'application/vnd.github.v3+json',
         'User-Agent': 'AI-Newsletter/1.0',
@@ -308,7 +312,7 @@ async function fetchDevTo(
   try {
     const url = `https://dev.to/api/articles?tag=ai&per_page=${limit}&top=7`;
 
-    const response = await fetch(url);
+    const response = await fetchWithToolLimit('source-devto', url);
     const data = (await response.json()) as Array<{
       title: string;
       url: string;
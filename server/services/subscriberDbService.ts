@@ -15,6 +15,11 @@ export interface Subscriber {
   dateAdded: string;
   dateRemoved?: string;
   source?: string;
+  unsubscribeReason?: string;
+  /** Custom fields for merge tags, keyed by snake_case name (e.g. company, plan) */
+  attributes?: Record<string, string>;
+  /** Audience IDs whose newsletter sections this subscriber receives (in addition to their lists') */
+  audiences?: string[];
 }
 
 export interface SubscriberList {
@@ -23,6 +28,8 @@ export interface SubscriberList {
   description?: string;
   dateCreated: string;
   subscriberCount: number;
+  /** Audience IDs whose newsletter sections members of this list receive */
+  audiences?: string[];
 }
 
 interface DbSubscriberRow {
@@ -34,6 +41,9 @@ interface DbSubscriberRow {
   date_added: string;
   date_removed: string | null;
   source: string | null;
+  unsubscribe_reason: string | null;
+  attributes: string | null;
+  audiences: string | null;
 }
 
 interface DbListRow {
@@ -42,6 +52,7 @@ interface DbListRow {
   description: string | null;
   date_created: string;
   subscriber_count: number;
+  audiences: string | null;
 }
 
 // ======================
@@ -57,18 +68,22 @@ export const addSubscriber = (subscriber: Omit<Subscriber, 'id' | 'dateAdded'>):
   if (existing) {
     throw new Error(`Subscriber with email ${subscriber.email} already exists`);
   }
+  assertNoLineBreak('Name', subscriber.name);
 
   const stmt = db.prepare(`
-    INSERT INTO subscribers (email, name, status, lists, source)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO subscribers (email, name, status, lists, source, attributes, audiences)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const attributes = normalizeAttributes(subscriber.attributes);
   const result = stmt.run(
     subscriber.email,
     subscriber.name || null,
     subscriber.status || 'active',
     subscriber.lists || '',
-    subscriber.source || 'manual'
+    subscriber.source || 'manual',
+    Object.keys(attributes).length > 0 ? JSON.stringify(attributes) : null,
+    joinIds(subscriber.audiences)
   );
 
   console.log(`[SubscriberDb] Added subscriber: ${subscriber.email}`);
@@ -88,7 +103,9 @@ export const addSubscriber = (subscriber: Omit<Subscriber, 'id' | 'dateAdded'>):
     status: subscriber.status || 'active',
     lists: subscriber.lists || '',
     dateAdded: new Date().toISOString(),
-    source: subscriber.source || 'manual'
+    source: subscriber.source || 'manual',
+    attributes,
+    audiences: splitIds(joinIds(subscriber.audiences))
   };
 };
 
@@ -106,6 +123,7 @@ export const updateSubscriber = (
   const values: (string | null)[] = [];
 
   if (updates.name !== undefined) {
+    assertNoLineBreak('Name', updates.name);
     fields.push('name = ?');
     values.push(updates.name || null);
   }
@@ -116,10 +134,12 @@ export const updateSubscriber = (
       fields.push('date_removed = ?');
       values.push(new Date().toISOString());
     }
-    // Clear date_removed when reactivating subscriber
+    // Clear date_removed and any unsubscribe reason when reactivating subscriber
     if (updates.status === 'active') {
       fields.push('date_removed = ?');
       values.push(null);
+      fields.push('unsubscribe_reason = ?');
+      values.push(null);
     }
   }
   if (updates.lists !== undefined) {
@@ -134,6 +154,16 @@ export const updateSubscriber = (
     fields.push('source = ?');
     values.push(updates.source || null);
   }
+  if (updates.attributes !== undefined) {
+    // Replaces the whole set, so removed keys are dropped
+    const attributes = normalizeAttributes(updates.attributes);
+    fields.push('attributes = ?');
+    values.push(Object.keys(attributes).length > 0 ? JSON.stringify(attributes) : null);
+  }
+  if (updates.audiences !== undefined) {
+    fields.push('audiences = ?');
+    values.push(joinIds(updates.audiences));
+  }
 
   if (fields.length === 0) return existing;
 
@@ -160,19 +190,20 @@ export const updateSubscriber = (
 
 /**
  * Soft delete a subscriber (set status to inactive)
+ * An unsubscribe reason is recorded when the subscriber opted out themselves.
  */
-export const deleteSubscriber = (email: string): boolean => {
+export const deleteSubscriber = (email: string, unsubscribeReason?: string): boolean => {
   // Get subscriber's lists before deleting to sync counts
   const subscriber = getSubscriberByEmail(email);
   const listIds = subscriber?.lists ? subscriber.lists.split(',').filter(Boolean).map(l => l.trim()) : [];
 
   const stmt = db.prepare(`
     UPDATE subscribers
-    SET status = 'inactive', date_removed = ?
+    SET status = 'inactive', date_removed = ?, unsubscribe_reason = ?
     WHERE email = ?
   `);
 
-  const result = stmt.run(new Date().toISOString(), email);
+  const result = stmt.run(new Date().toISOString(), unsubscribeReason || null, email);
 
   if (result.changes > 0) {
     console.log(`[SubscriberDb] Soft deleted subscriber: ${email}`);
@@ -241,6 +272,20 @@ export const getSubscribers = (filters?: {
   return rows.map(rowToSubscriber);
 };
 
+/**
+ * Get every custom attribute key in use, sorted
+ */
+export const getAttributeKeys = (): string[] => {
+  const rows = db.prepare(`
+    SELECT DISTINCT attr.key AS key
+    FROM subscribers, json_each(subscribers.attributes) AS attr
+    WHERE subscribers.attributes IS NOT NULL
+    ORDER BY attr.key
+  `).all() as Array<{ key: string }>;
+
+  return rows.map(row => row.key);
+};
+
 /**
  * Get a single subscriber by email
  */
@@ -253,47 +298,180 @@ export const getSubscriberByEmail = (email: string): Subscriber | null => {
   return rowToSubscriber(row);
 };
 
+export interface ImportRecord {
+  /** Row (CSV) or card (vCard) number, for the report */
+  row: number;
+  email: string;
+  name?: string;
+  /** List IDs or names to add the subscriber to */
+  lists?: string[];
+}
+
+export interface ImportOptions {
+  /** Add imported subscribers to this list */
+  listId?: string;
+  /** Overwrite names of existing subscribers with the imported name */
+  updateNames?: boolean;
+  /** Add existing subscribers to the target list(s) as well */
+  addExistingToList?: boolean;
+  /** Report what would happen without writing anything */
+  dryRun?: boolean;
+}
+
+export type ImportRowAction = 'added' | 'updated' | 'skipped' | 'invalid';
+
+export interface ImportRowResult {
+  row: number;
+  email: string;
+  name?: string;
+  action: ImportRowAction;
+  reason?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  added: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+  rows: ImportRowResult[];
+}
+
 /**
  * Bulk import subscribers
+ * Emails are validated and de-duplicated (within the file and against the
+ * table, case-insensitively). New addresses are added; existing ones are
+ * updated only when `updateNames` / `addExistingToList` ask for it.
+ * Subscribers who unsubscribed are never reactivated by an import.
  */
 export const importSubscribers = (
-  subscribers: Array<{ email: string; name?: string; listId?: string }>
-): { added: number; skipped: number } => {
-  let added = 0;
-  let skipped = 0;
+  records: ImportRecord[],
+  options: ImportOptions = {}
+): ImportReport => {
+  const lists = getLists();
+  const resolveList = (ref: string): SubscriberList | undefined =>
+    lists.find(l => l.id === ref) || lists.find(l => l.name.toLowerCase() === ref.toLowerCase());
+
+  if (options.listId && !lists.some(l => l.id === options.listId)) {
+    throw new Error(`List not found: ${options.listId}`);
+  }
 
+  const findStmt = db.prepare(`SELECT * FROM subscribers WHERE email = ? COLLATE NOCASE`);
   const insertStmt = db.prepare(`
     INSERT INTO subscribers (email, name, status, lists, source)
     VALUES (?, ?, 'active', ?, 'import')
   `);
+  const updateStmt = db.prepare(`UPDATE subscribers SET name = ?, lists = ? WHERE id = ?`);
 
-  const checkStmt = db.prepare(`SELECT email FROM subscribers WHERE email = ?`);
+  const results: ImportRowResult[] = [];
+  const seen = new Set<string>();
+  const touchedLists = new Set<string>();
 
   const transaction = db.transaction(() => {
-    for (const sub of subscribers) {
-      // Check if exists
-      const existing = checkStmt.get(sub.email);
-      if (existing) {
-        skipped++;
+    for (const record of records) {
+      const email = normalizeEmail(record.email || '');
+      const name = record.name?.trim() || undefined;
+      const result: ImportRowResult = { row: record.row, email, name, action: 'skipped' };
+      results.push(result);
+
+      if (!email) {
+        result.action = 'invalid';
+        result.reason = 'Missing email';
+        continue;
+      }
+      if (!isValidEmail(email)) {
+        result.action = 'invalid';
+        result.reason = 'Invalid email address';
+        continue;
+      }
+      if (name && hasLineBreak(name)) {
+        result.action = 'invalid';
+        result.reason = 'Name contains a line break';
         continue;
       }
+      if (seen.has(email)) {
+        result.reason = 'Duplicate in file';
+        continue;
+      }
+      seen.add(email);
+
+      // Target lists: the import's list plus any named in the row
+      const targetListIds = new Set<string>(options.listId ? [options.listId] : []);
+      const unknownLists: string[] = [];
+      for (const ref of record.lists || []) {
+        const list = resolveList(ref);
+        if (list) targetListIds.add(list.id);
+        else unknownLists.push(ref);
+      }
+      const notes = unknownLists.length > 0 ? [`Unknown list: ${unknownLists.join(', ')}`] : [];
+
+      const existing = findStmt.get(email) as DbSubscriberRow | undefined;
+
+      if (!existing) {
+        result.action = 'added';
+        if (notes.length > 0) result.reason = notes.join('; ');
+        if (!options.dryRun) {
+          insertStmt.run(email, name || null, [...targetListIds].join(','));
+        }
+        targetListIds.forEach(id => touchedLists.add(id));
+        continue;
+      }
+
+      if (existing.status === 'inactive') {
+        result.reason = 'Previously unsubscribed';
+        continue;
+      }
+
+      const currentLists = existing.lists ? existing.lists.split(',').filter(Boolean).map(l => l.trim()) : [];
+      const newLists = options.addExistingToList
+        ? [...targetListIds].filter(id => !currentLists.includes(id))
+        : [];
+      const newName = options.updateNames && name && name !== existing.name ? name : null;
+
+      if (!newName && newLists.length === 0) {
+        result.reason = ['Already subscribed', ...notes].join('; ');
+        continue;
+      }
+
+      result.action = 'updated';
+      result.reason = [
+        ...(newName ? [`Name: ${existing.name || '(none)'} -> ${newName}`] : []),
+        ...(newLists.length > 0 ? [`Added to list: ${newLists.join(', ')}`] : []),
+        ...notes,
+      ].join('; ');
 
-      insertStmt.run(sub.email, sub.name || null, sub.listId || '');
-      added++;
+      if (!options.dryRun) {
+        updateStmt.run(newName || existing.name, [...currentLists, ...newLists].join(','), existing.id);
+      }
+      newLists.forEach(id => touchedLists.add(id));
     }
   });
 
   transaction();
 
-  console.log(`[SubscriberDb] Import complete: ${added} added, ${skipped} skipped`);
-
-  // Sync list counts if listId was provided
-  const listIds = [...new Set(subscribers.filter(s => s.listId).map(s => s.listId!))];
-  for (const listId of listIds) {
-    syncListCount(listId);
+  if (!options.dryRun) {
+    for (const listId of touchedLists) {
+      syncListCount(listId);
+    }
   }
 
-  return { added, skipped };
+  const count = (action: ImportRowAction) => results.filter(r => r.action === action).length;
+  const report: ImportReport = {
+    dryRun: !!options.dryRun,
+    total: records.length,
+    added: count('added'),
+    updated: count('updated'),
+    skipped: count('skipped'),
+    invalid: count('invalid'),
+    rows: results,
+  };
+
+  console.log(
+    `[SubscriberDb] Import ${options.dryRun ? 'dry run' : 'complete'}: ${report.added} added, ${report.updated} updated, ${report.skipped} skipped, ${report.invalid} invalid`
+  );
+
+  return report;
 };
 
 /**
@@ -327,15 +505,15 @@ const generateListId = (): string => {
 /**
  * Create a new subscriber list
  */
-export const createList = (name: string, description?: string): SubscriberList => {
+export const createList = (name: string, description?: string, audiences?: string[]): SubscriberList => {
   const id = generateListId();
 
   const stmt = db.prepare(`
-    INSERT INTO subscriber_lists (id, name, description)
-    VALUES (?, ?, ?)
+    INSERT INTO subscriber_lists (id, name, description, audiences)
+    VALUES (?, ?, ?, ?)
   `);
 
-  stmt.run(id, name, description || null);
+  stmt.run(id, name, description || null, joinIds(audiences));
 
   console.log(`[SubscriberDb] Created list: ${name} (${id})`);
 
@@ -344,7 +522,8 @@ export const createList = (name: string, description?: string): SubscriberList =
     name,
     description,
     dateCreated: new Date().toISOString(),
-    subscriberCount: 0
+    subscriberCount: 0,
+    audiences: splitIds(joinIds(audiences))
   };
 };
 
@@ -369,6 +548,10 @@ export const updateList = (
     fields.push('description = ?');
     values.push(updates.description || null);
   }
+  if (updates.audiences !== undefined) {
+    fields.push('audiences = ?');
+    values.push(joinIds(updates.audiences));
+  }
 
   if (fields.length === 0) return existing;
 
@@ -418,7 +601,8 @@ export const getLists = (): SubscriberList[] => {
       name: row.name,
       description: row.description || undefined,
       dateCreated: row.date_created,
-      subscriberCount: count
+      subscriberCount: count,
+      audiences: splitIds(row.audiences)
     };
   });
 };
@@ -463,7 +647,8 @@ export const getListById = (id: string): SubscriberList | null => {
     name: row.name,
     description: row.description || undefined,
     dateCreated: row.date_created,
-    subscriberCount: count
+    subscriberCount: count,
+    audiences: splitIds(row.audiences)
   };
 };
 
@@ -548,6 +733,86 @@ export const syncListCount = (listId: string): number => {
 // HELPERS
 // ======================
 
+// Syntax only - no DNS/MX lookup, so imports stay fast and work offline
+const EMAIL_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,63}$/;
+
+/**
+ * Check an email address's syntax (RFC 5321 length limits, dot-atom local part)
+ */
+export const isValidEmail = (email: string): boolean => {
+  if (email.length > 254) return false;
+  const localPart = email.split('@')[0];
+  return localPart.length <= 64 && EMAIL_PATTERN.test(email);
+};
+
+/**
+ * Normalize an address for storage and duplicate detection
+ * Strips "Name <address>" wrappers and mailto: prefixes, lowercases.
+ */
+export const normalizeEmail = (raw: string): string => {
+  let email = raw.trim();
+  const angle = email.match(/<([^>]+)>/);
+  if (angle) email = angle[1];
+  return email.replace(/^mailto:/i, '').trim().toLowerCase();
+};
+
+/**
+ * Normalize an attribute key to snake_case ("First Name" -> "first_name")
+ */
+export const normalizeAttributeKey = (key: string): string =>
+  key
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+/**
+ * Check whether a value contains a line break
+ * Names and attributes are merged into email subjects, where CR/LF would start a new header.
+ */
+export const hasLineBreak = (value: string): boolean => /[\r\n]/.test(value);
+
+/**
+ * Throw if a name or attribute value contains a line break
+ */
+const assertNoLineBreak = (field: string, value: string | null | undefined): void => {
+  if (value && hasLineBreak(value)) {
+    throw new Error(`${field} must not contain line breaks`);
+  }
+};
+
+/**
+ * Normalize an attributes object: snake_case keys, string values, blanks dropped
+ * Values with line breaks are rejected.
+ */
+const normalizeAttributes = (attributes?: Record<string, unknown> | null): Record<string, string> => {
+  const result: Record<string, string> = {};
+  if (!attributes || typeof attributes !== 'object') return result;
+
+  for (const [rawKey, rawValue] of Object.entries(attributes)) {
+    const key = normalizeAttributeKey(rawKey);
+    if (!key || rawValue === null || rawValue === undefined) continue;
+    const value = String(rawValue).trim();
+    assertNoLineBreak(`Attribute ${key}`, value);
+    if (value) result[key] = value;
+  }
+
+  return result;
+};
+
+/**
+ * Helper: Split a comma-separated ID column
+ */
+const splitIds = (value: string | null | undefined): string[] =>
+  value ? value.split(',').map(id => id.trim()).filter(Boolean) : [];
+
+/**
+ * Helper: Store IDs as a comma-separated column (deduplicated)
+ */
+const joinIds = (ids: string[] | undefined): string =>
+  Array.from(new Set((ids || []).map(id => String(id).trim()).filter(Boolean))).join(',');
+
 /**
  * Helper: Convert DB row to Subscriber object
  */
@@ -559,7 +824,10 @@ const rowToSubscriber = (row: DbSubscriberRow): Subscriber => ({
   lists: row.lists || '',
   dateAdded: row.date_added,
   dateRemoved: row.date_removed || undefined,
-  source: row.source || undefined
+  source: row.source || undefined,
+  unsubscribeReason: row.unsubscribe_reason || undefined,
+  attributes: row.attributes ? JSON.parse(row.attributes) : {},
+  audiences: splitIds(row.audiences)
 });
 
 /**
@@ -570,5 +838,6 @@ const rowToList = (row: DbListRow): SubscriberList => ({
   name: row.name,
   description: row.description || undefined,
   dateCreated: row.date_created,
-  subscriberCount: row.subscriber_count
+  subscriberCount: row.subscriber_count,
+  audiences: splitIds(row.audiences)
 });
@@ -0,0 +1,350 @@
+/**
+ * Subscriber Import Service
+ * Parses CSV and vCard uploads into subscriber records (with a column
+ * mapping step), and writes subscribers back to CSV.
+ *
+ * Writes go through subscriberDbService.importSubscribers, which validates
+ * addresses and produces the per-row added/updated/skipped/invalid report.
+ */
+
+import * as subscriberDb from './subscriberDbService.ts';
+import { isValidEmail, normalizeEmail } from './subscriberDbService.ts';
+
+// Types
+export type ImportFormat = 'csv' | 'vcard';
+
+/**
+ * Which CSV column holds each field (by header name, or "Column N" when the file has no header row)
+ */
+export interface ColumnMapping {
+  email: string;
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  /** List IDs or names, separated by ";" or "|" */
+  lists?: string;
+}
+
+export interface ParsedUpload {
+  format: ImportFormat;
+  columns: string[];
+  mapping: ColumnMapping | null;
+  records: subscriberDb.ImportRecord[];
+}
+
+export interface UploadImportReport extends subscriberDb.ImportReport {
+  format: ImportFormat;
+  /** Columns found in the upload, for the mapping step */
+  columns: string[];
+  mapping: ColumnMapping | null;
+}
+
+// Header names recognized when no mapping is given
+const HEADER_ALIASES: Record<keyof ColumnMapping, RegExp> = {
+  email: /^(e-?mail|email address|e-?mail address|mail)$/i,
+  name: /^(name|full ?name|display ?name|contact ?name)$/i,
+  firstName: /^(first ?name|given ?name|first)$/i,
+  lastName: /^(last ?name|surname|family ?name|last)$/i,
+  lists: /^(lists?|list ?ids?|groups?|tags?)$/i,
+};
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Pick the delimiter that splits the first line into the most fields
+ */
+const detectDelimiter = (firstLine: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields (embedded delimiters, quotes and newlines), CRLF and a UTF-8 BOM.
+ */
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+/**
+ * Guess a column mapping from header names (or, without headers, from the first row's values)
+ */
+export const suggestMapping = (columns: string[], firstRow: string[] = []): ColumnMapping | null => {
+  const find = (field: keyof ColumnMapping) => columns.find(c => HEADER_ALIASES[field].test(c.trim()));
+
+  let email = find('email');
+  if (!email) {
+    const index = firstRow.findIndex(value => isValidEmail(normalizeEmail(value)));
+    email = index >= 0 ? columns[index] : undefined;
+  }
+  if (!email) return null;
+
+  const mapping: ColumnMapping = { email };
+  const name = find('name');
+  const firstName = find('firstName');
+  const lastName = find('lastName');
+  const lists = find('lists');
+
+  if (name) mapping.name = name;
+  if (firstName) mapping.firstName = firstName;
+  if (lastName) mapping.lastName = lastName;
+  if (lists) mapping.lists = lists;
+
+  // Headerless two-column files are usually "email,name"
+  if (!name && !firstName && columns.length === 2 && columns[0].startsWith('Column ')) {
+    mapping.name = columns.find(c => c !== email);
+  }
+
+  return mapping;
+};
+
+/**
+ * Parse a CSV upload
+ * A header row is assumed unless the first row already contains an email address.
+ */
+const parseCsvUpload = (content: string, mapping?: ColumnMapping): ParsedUpload => {
+  const rows = parseCsv(content);
+  if (rows.length === 0) {
+    return { format: 'csv', columns: [], mapping: mapping || null, records: [] };
+  }
+
+  const width = Math.max(...rows.map(r => r.length));
+  const hasHeader = !rows[0].some(value => isValidEmail(normalizeEmail(value)));
+  const columns = hasHeader
+    ? rows[0].map((header, i) => header.trim() || `Column ${i + 1}`)
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const resolvedMapping = mapping || suggestMapping(columns, dataRows[0]);
+  if (!resolvedMapping) {
+    return { format: 'csv', columns, mapping: null, records: [] };
+  }
+
+  const indexOf = (column?: string) => (column ? columns.indexOf(column) : -1);
+  const emailIndex = indexOf(resolvedMapping.email);
+  if (emailIndex === -1) {
+    throw new Error(`Mapped email column not found: ${resolvedMapping.email}`);
+  }
+
+  const nameIndex = indexOf(resolvedMapping.name);
+  const firstNameIndex = indexOf(resolvedMapping.firstName);
+  const lastNameIndex = indexOf(resolvedMapping.lastName);
+  const listsIndex = indexOf(resolvedMapping.lists);
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || '').trim() : '');
+
+  const records = dataRows.map((row, i) => {
+    const fullName = cell(row, nameIndex)
+      || [cell(row, firstNameIndex), cell(row, lastNameIndex)].filter(Boolean).join(' ');
+    const lists = cell(row, listsIndex);
+
+    return {
+      // 1-based row number in the file, counting the header
+      row: i + (hasHeader ? 2 : 1),
+      email: cell(row, emailIndex),
+      name: fullName || undefined,
+      lists: lists ? lists.split(/[;|]/).map(l => l.trim()).filter(Boolean) : undefined,
+    };
+  });
+
+  return { format: 'csv', columns, mapping: resolvedMapping, records };
+};
+
+// =============================================================================
+// VCARD
+// =============================================================================
+
+/**
+ * Decode vCard value escapes (\, \; \n)
+ */
+const unescapeVCardValue = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Parse a vCard (.vcf) upload - one record per card, using the first EMAIL and FN (or N)
+ */
+const parseVCardUpload = (content: string): ParsedUpload => {
+  // Unfold continuation lines (RFC 6350 3.2)
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const records: subscriberDb.ImportRecord[] = [];
+  let card: { email?: string; fn?: string; n?: string } | null = null;
+  let cardNumber = 0;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    // Strip parameters and any "item1." group prefix: "item1.EMAIL;TYPE=work" -> "EMAIL"
+    const property = line.slice(0, separator).split(';')[0].replace(/^[^.]+\./, '').toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      card = {};
+      cardNumber++;
+    } else if (property === 'END' && card) {
+      const [last = '', first = ''] = (card.n || '').split(';').map(unescapeVCardValue);
+      const name = card.fn || [first, last].filter(Boolean).join(' ');
+      records.push({ row: cardNumber, email: card.email || '', name: name || undefined });
+      card = null;
+    } else if (card) {
+      if (property === 'EMAIL' && !card.email) card.email = unescapeVCardValue(value);
+      if (property === 'FN') card.fn = unescapeVCardValue(value);
+      if (property === 'N') card.n = value;
+    }
+  }
+
+  return { format: 'vcard', columns: ['EMAIL', 'FN'], mapping: null, records };
+};
+
+// =============================================================================
+// IMPORT / EXPORT
+// =============================================================================
+
+/**
+ * Detect the upload format from its content
+ */
+export const detectFormat = (content: string): ImportFormat =>
+  /^\s*BEGIN:VCARD/im.test(content.replace(/^\uFEFF/, '')) ? 'vcard' : 'csv';
+
+/**
+ * Parse an upload into subscriber records without touching the database
+ */
+export const parseUpload = (content: string, format?: ImportFormat, mapping?: ColumnMapping): ParsedUpload => {
+  const resolvedFormat = format || detectFormat(content);
+  return resolvedFormat === 'vcard' ? parseVCardUpload(content) : parseCsvUpload(content, mapping);
+};
+
+/**
+ * Import a CSV or vCard upload
+ * With `dryRun`, the report shows what would happen and nothing is written.
+ */
+export const importUpload = (
+  content: string,
+  options: subscriberDb.ImportOptions & { format?: ImportFormat; mapping?: ColumnMapping } = {}
+): UploadImportReport => {
+  const parsed = parseUpload(content, options.format, options.mapping);
+
+  if (!parsed.mapping && parsed.format === 'csv' && parsed.columns.length > 0) {
+    throw new Error('Could not find an email column; provide a column mapping');
+  }
+
+  const report = subscriberDb.importSubscribers(parsed.records, options);
+
+  return { ...report, format: parsed.format, columns: parsed.columns, mapping: parsed.mapping };
+};
+
+/**
+ * Escape a CSV value
+ */
+const escapeCsvValue = (val: string): string => {
+  if (val.includes(',') || val.includes('"') || val.includes('\n') || val.includes('\r')) {
+    return `"${val.replace(/"/g, '""')}"`;
+  }
+  return val;
+};
+
+/**
+ * Keep free text from running as a formula when the export is opened in a spreadsheet
+ * Names, sources and unsubscribe reasons come from outside (e.g. the public
+ * unsubscribe form), so a leading = + - @ or tab is prefixed with '.
+ */
+const neutralizeFormula = (val: string): string => (/^[=+\-@\t\r]/.test(val) ? `'${val}` : val);
+
+/**
+ * Export subscribers to CSV
+ * The lists column holds list names separated by ";", so the file can be re-imported.
+ */
+export const exportSubscribersToCsv = (filters?: Parameters<typeof subscriberDb.getSubscribers>[0]): string => {
+  const subscribers = subscriberDb.getSubscribers(filters);
+  const listNames = new Map(subscriberDb.getLists().map(list => [list.id, list.name]));
+
+  const headers = ['email', 'name', 'status', 'lists', 'date_added', 'date_removed', 'source', 'unsubscribe_reason'];
+
+  const rows = subscribers.map(sub => [
+    sub.email,
+    neutralizeFormula(sub.name || ''),
+    sub.status,
+    neutralizeFormula(
+      sub.lists
+        .split(',')
+        .filter(Boolean)
+        .map(id => listNames.get(id.trim()) || id.trim())
+        .join(';')
+    ),
+    sub.dateAdded,
+    sub.dateRemoved || '',
+    neutralizeFormula(sub.source || ''),
+    neutralizeFormula(sub.unsubscribeReason || ''),
+  ]);
+
+  console.log(`[SubscriberImport] Exported ${subscribers.length} subscribers to CSV`);
+
+  return [headers.join(','), ...rows.map(row => row.map(v => escapeCsvValue(String(v))).join(','))].join('\n');
+};
+
+/**
+ * Export subscriber lists to CSV
+ */
+export const exportListsToCsv = (): string => {
+  const lists = subscriberDb.getLists();
+  const headers = ['id', 'name', 'description', 'subscriber_count', 'date_created'];
+
+  const rows = lists.map(list => [
+    list.id,
+    neutralizeFormula(list.name),
+    neutralizeFormula(list.description || ''),
+    String(list.subscriberCount),
+    list.dateCreated,
+  ]);
+
+  console.log(`[SubscriberImport] Exported ${lists.length} lists to CSV`);
+
+  return [headers.join(','), ...rows.map(row => row.map(v => escapeCsvValue(String(v))).join(','))].join('\n');
+};
@@ -0,0 +1,613 @@
+/**
+ * Tone Database Service
+ * CRUD operations for writing tones and stylistic flavors stored in SQLite
+ *
+ * The built-in tones and flavors are seeded as read-only rows on startup
+ * (and kept in sync with the definitions below); editors add their own
+ * house tones and flavors alongside them.
+ */
+
+import db from '../db/init.ts';
+import type { ToneExecutionRules, WritingTone, WritingFlavor } from '../../types.ts';
+
+export interface ToneInput {
+  label: string;
+  description?: string;
+  sampleOutput?: string;
+  executionRules?: Partial<ToneExecutionRules>;
+}
+
+export interface FlavorInput {
+  label: string;
+  description?: string;
+  instruction: string;
+  formattingRules?: string | null;
+}
+
+interface DbToneRow {
+  id: string;
+  label: string;
+  description: string;
+  sample_output: string;
+  sentence_construction: string;
+  words_to_use: string;
+  words_to_avoid: string;
+  punctuation_style: string;
+  is_builtin: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbFlavorRow {
+  id: string;
+  label: string;
+  description: string;
+  instruction: string;
+  formatting_rules: string | null;
+  is_builtin: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Convert database row to WritingTone object
+ */
+const rowToTone = (row: DbToneRow): WritingTone => ({
+  id: row.id,
+  label: row.label,
+  description: row.description,
+  sampleOutput: row.sample_output,
+  executionRules: {
+    sentenceConstruction: JSON.parse(row.sentence_construction),
+    wordsToUse: JSON.parse(row.words_to_use),
+    wordsToAvoid: JSON.parse(row.words_to_avoid),
+    punctuationStyle: row.punctuation_style,
+  },
+  isBuiltin: row.is_builtin === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Convert database row to WritingFlavor object
+ */
+const rowToFlavor = (row: DbFlavorRow): WritingFlavor => ({
+  id: row.id,
+  label: row.label,
+  description: row.description,
+  instruction: row.instruction,
+  formattingRules: row.formatting_rules,
+  isBuiltin: row.is_builtin === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Built-in tones - Phase 13.1: Research-backed 8-tone system
+ *
+ * Based on analysis of 77+ award-winning publications including:
+ * - Morning Brew, Wait But Why, Lenny's Newsletter, Blackbird Spyplane
+ * - The Atlantic, The New Yorker, Wired, MIT Technology Review, Vox
+ */
+const BUILTIN_TONES: Omit<WritingTone, 'isBuiltin' | 'createdAt' | 'updatedAt'>[] = [
+  {
+    id: 'warm',
+    label: 'Warm',
+    description: 'Friendly, accepting, and celebratory. Perfect for community and support content.',
+    sampleOutput: "Welcome! We're so glad you're here. Here's what helped me, and I think it'll help you too.",
+    executionRules: {
+      sentenceConstruction: [
+        'Use positive framing: "Here\'s what helped" not "Don\'t do this"',
+        'Include gratitude: "Thanks for being here"',
+        'Celebrate wins and progress',
+      ],
+      wordsToUse: ['welcome', 'glad', 'excited', 'appreciate', 'together'],
+      wordsToAvoid: ['unfortunately', 'problem', 'issue', 'failed'],
+      punctuationStyle: 'Occasional exclamation points (use carefully), warm ellipses',
+    },
+  },
+  {
+    id: 'confident',
+    label: 'Confident',
+    description: 'Sure, direct, and authoritative. No hedging. Perfect for business and leadership.',
+    sampleOutput: "This works. We've proven it with 50+ companies. Here's exactly what you need to do.",
+    executionRules: {
+      sentenceConstruction: [
+        'Short, declarative sentences',
+        'Active voice only',
+        'Imperative mood: "Do this" not "You might consider"',
+      ],
+      wordsToUse: ['proven', 'works', 'results', 'exactly', "here's how"],
+      wordsToAvoid: ['seems', 'might', 'perhaps', 'appears', 'arguably', 'I think'],
+      punctuationStyle: 'Periods. Short sentences. Direct.',
+    },
+  },
+  {
+    id: 'witty',
+    label: 'Witty',
+    description: 'Clever, humorous, and engaging. Insider jokes that reward knowledge.',
+    sampleOutput: 'This tool is impossibly good. The algorithm finally learned to be useful (only took 10 years).',
+    executionRules: {
+      sentenceConstruction: [
+        'Unexpected word choices and wordplay',
+        'Timing through sentence length variation',
+        'Deadpan delivery followed by punchline',
+      ],
+      wordsToUse: ['impossibly', 'finally', 'actually', 'somehow'],
+      wordsToAvoid: ['LOL', 'hilarious', 'funny thing is', 'haha'],
+      punctuationStyle: 'Parentheticals for asides, em dashes for timing',
+    },
+  },
+  {
+    id: 'empathetic',
+    label: 'Empathetic',
+    description: 'Understanding, validating, and supportive. Perfect for wellness and difficult topics.',
+    sampleOutput: "I know this is hard. You're not alone in this—most people struggle with exactly what you're facing.",
+    executionRules: {
+      sentenceConstruction: [
+        'Acknowledge feelings first, then information',
+        'Use second person: "You" and "your"',
+        'Validate before advising',
+      ],
+      wordsToUse: ['understand', 'feel', 'struggle', 'not alone', 'valid'],
+      wordsToAvoid: ['just', 'simply', 'obviously', 'easy', 'should have'],
+      punctuationStyle: 'Gentle pauses with em dashes, ellipses for reflection',
+    },
+  },
+  {
+    id: 'analytical',
+    label: 'Analytical',
+    description: 'Thoughtful, intellectual, and nuanced. Multiple perspectives examined.',
+    sampleOutput: 'On the surface, this seems like a simple efficiency gain. But actually, the second-order effects reveal something unexpected...',
+    executionRules: {
+      sentenceConstruction: [
+        'Complex sentence structures with clear logic',
+        'Transitional language: "However," "Conversely," "Moreover"',
+        '"On the surface... but actually..." pattern',
+      ],
+      wordsToUse: ['however', 'conversely', 'notably', 'interestingly', 'reveals'],
+      wordsToAvoid: ['obviously', 'clearly', 'everyone knows'],
+      punctuationStyle: 'Colons for explanations, semicolons for related ideas',
+    },
+  },
+  {
+    id: 'urgent',
+    label: 'Urgent',
+    description: 'Fast-paced, action-focused, FOMO-inducing. For breaking news and launches.',
+    sampleOutput: "This changes everything. You need to know this now. Here's what's happening—and why it matters.",
+    executionRules: {
+      sentenceConstruction: [
+        'Short sentences. Very short.',
+        'Time-specific framing',
+        'Direct calls to action',
+      ],
+      wordsToUse: ['now', 'immediately', 'breaking', 'just announced', 'this changes'],
+      wordsToAvoid: ['eventually', 'sometime', 'might want to consider'],
+      punctuationStyle: 'Periods for punch. Em dashes for speed. Exclamation points (sparingly).',
+    },
+  },
+  {
+    id: 'introspective',
+    label: 'Introspective',
+    description: 'Reflective, questioning, and contemplative. For essays and personal development.',
+    sampleOutput: "I've been thinking about this all week. Why do we believe this? What if we're asking the wrong question entirely?",
+    executionRules: {
+      sentenceConstruction: [
+        'Questions without immediate answers',
+        'First person reflection: "I\'ve been thinking..."',
+        'Exploration over conclusions',
+      ],
+      wordsToUse: ['wondering', 'perhaps', 'what if', "I've noticed", 'makes me think'],
+      wordsToAvoid: ['definitely', 'certainly', 'the answer is', 'everyone should'],
+      punctuationStyle: 'Question marks for genuine inquiry, ellipses for trailing thoughts...',
+    },
+  },
+  {
+    id: 'serious',
+    label: 'Serious',
+    description: 'Formal, grave, and respectful. For crisis, investigative, or policy content.',
+    sampleOutput: 'This matter demands your attention. The implications extend beyond the immediate situation, affecting how we understand...',
+    executionRules: {
+      sentenceConstruction: [
+        'Formal without being cold',
+        'Acknowledge stakes clearly',
+        'Measured, deliberate pacing',
+      ],
+      wordsToUse: ['significant', 'implications', 'important to understand', 'deserves attention'],
+      wordsToAvoid: ['joke', 'fun', 'exciting', 'cool', 'awesome'],
+      punctuationStyle: 'Conservative punctuation, no exclamation points, formal structure',
+    },
+  },
+];
+
+/**
+ * Built-in flavors
+ *
+ * PRESERVATION NOTE - PERSONALITY CRITICAL
+ * These exact instructions define the newsletter's writing style.
+ * Do NOT modify the flavor instructions without explicit approval.
+ * (Formatting rules: Phase 14, from the Newsletter Type Guide analysis.)
+ */
+const BUILTIN_FLAVORS: Omit<WritingFlavor, 'isBuiltin' | 'createdAt' | 'updatedAt'>[] = [
+  {
+    id: 'includeHumor',
+    label: 'Include light humor',
+    description: 'Sprinkle in a few witty remarks or jokes.',
+    instruction:
+      "- You may sprinkle in one or two instances of light-hearted, clever humor where appropriate, without undermining the main tone.",
+    formattingRules: `CONVERSATIONAL FORMATTING:
+- Use contractions naturally ("you're", "it's", "don't")
+- Direct address to engage readers ("You know that feeling when...")
+- Vary sentence length for rhythm - mix short punchy lines with longer explanations
+- Add parenthetical asides for personality (like this one)
+- End sections with memorable, quotable lines`,
+  },
+  {
+    id: 'useSlang',
+    label: 'Use conversational slang',
+    description: 'Makes the tone more relaxed and authentic.',
+    instruction:
+      "- You may incorporate some modern, conversational slang to make the content feel more relatable and authentic.",
+    formattingRules: `MODERN VOICE FORMATTING:
+- Keep paragraphs short (3-4 sentences max)
+- Use casual transitions ("So here's the thing...", "Real talk:")
+- Break the fourth wall occasionally
+- Include pop culture references where relevant
+- Use bold for emphasis on key phrases`,
+  },
+  {
+    id: 'useJargon',
+    label: 'Incorporate technical jargon',
+    description: 'For expert audiences who know the lingo.',
+    instruction:
+      "- You should incorporate relevant technical jargon where it adds precision and is appropriate for the expert audience.",
+    formattingRules: `TECHNICAL FORMATTING:
+- Define acronyms on first use, then use freely
+- Use inline code formatting for technical terms
+- Include specification callouts (e.g., "API rate limit: 1000 req/hr")
+- Structure complex concepts with clear subheadings
+- Add "Prerequisites" or "Requirements" callouts`,
+  },
+  {
+    id: 'useAnalogies',
+    label: 'Use relatable analogies',
+    description: 'Simplify complex topics for a broader audience.',
+    instruction:
+      "- You should use relatable analogies and simple metaphors to explain complex technical concepts.",
+    formattingRules: `EXPLANATORY FORMATTING:
+- Lead technical explanations with the analogy
+- Use "Think of it like..." or "Imagine..." as openers
+- Follow analogies with concrete applications
+- Use visual language that creates mental pictures
+- Connect abstract concepts to everyday experiences`,
+  },
+  {
+    id: 'citeData',
+    label: 'Cite data and statistics',
+    description: 'Add authority with facts and figures.',
+    instruction:
+      "- Wherever possible, you should cite specific data points, statistics, or findings to add authority and credibility to your points.",
+    formattingRules: `DATA-DRIVEN FORMATTING:
+- Highlight numbers and percentages prominently (e.g., "73% of users reported...")
+- Use comparisons to show scale ("up from X to Y", "3x faster than", "50% reduction")
+- Include specific sources for every statistic cited
+- Use bullet points for lists of data points
+- Create mini-tables or structured lists for comparing metrics`,
+  },
+];
+
+/**
+ * Generate unique ID
+ */
+const generateId = (prefix: 'tone' | 'flavor'): string => {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Seed the built-in tones and flavors
+ *
+ * Built-ins are upserted so changes to their definitions reach existing
+ * databases; user-defined rows are never touched.
+ */
+export const seedBuiltinTonesAndFlavors = (): void => {
+  const toneStmt = db.prepare(`
+    INSERT INTO writing_tones
+    (id, label, description, sample_output, sentence_construction, words_to_use, words_to_avoid, punctuation_style, is_builtin)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1)
+    ON CONFLICT(id) DO UPDATE SET
+      label = excluded.label,
+      description = excluded.description,
+      sample_output = excluded.sample_output,
+      sentence_construction = excluded.sentence_construction,
+      words_to_use = excluded.words_to_use,
+      words_to_avoid = excluded.words_to_avoid,
+      punctuation_style = excluded.punctuation_style
+    WHERE writing_tones.is_builtin = 1
+  `);
+
+  const flavorStmt = db.prepare(`
+    INSERT INTO writing_flavors (id, label, description, instruction, formatting_rules, is_builtin)
+    VALUES (?, ?, ?, ?, ?, 1)
+    ON CONFLICT(id) DO UPDATE SET
+      label = excluded.label,
+      description = excluded.description,
+      instruction = excluded.instruction,
+      formatting_rules = excluded.formatting_rules
+    WHERE writing_flavors.is_builtin = 1
+  `);
+
+  db.transaction(() => {
+    for (const tone of BUILTIN_TONES) {
+      toneStmt.run(
+        tone.id,
+        tone.label,
+        tone.description,
+        tone.sampleOutput,
+        JSON.stringify(tone.executionRules.sentenceConstruction),
+        JSON.stringify(tone.executionRules.wordsToUse),
+        JSON.stringify(tone.executionRules.wordsToAvoid),
+        tone.executionRules.punctuationStyle
+      );
+    }
+    for (const flavor of BUILTIN_FLAVORS) {
+      flavorStmt.run(flavor.id, flavor.label, flavor.description, flavor.instruction, flavor.formattingRules);
+    }
+  })();
+};
+
+// ======================
+// TONES
+// ======================
+
+/**
+ * Get all tones (built-ins first, in their defined order, then user tones)
+ */
+export const getAllTones = (): WritingTone[] => {
+  const rows = db
+    .prepare('SELECT * FROM writing_tones ORDER BY is_builtin DESC, rowid ASC')
+    .all() as DbToneRow[];
+
+  return rows.map(rowToTone);
+};
+
+/**
+ * Get tone by ID
+ */
+export const getToneById = (id: string): WritingTone | null => {
+  const row = db
+    .prepare('SELECT * FROM writing_tones WHERE id = ?')
+    .get(id) as DbToneRow | undefined;
+
+  if (!row) return null;
+  return rowToTone(row);
+};
+
+/**
+ * Create a user-defined tone
+ */
+export const createTone = (input: ToneInput): WritingTone => {
+  const id = generateId('tone');
+  const rules = input.executionRules || {};
+
+  db.prepare(`
+    INSERT INTO writing_tones
+    (id, label, description, sample_output, sentence_construction, words_to_use, words_to_avoid, punctuation_style, is_builtin)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0)
+  `).run(
+    id,
+    input.label,
+    input.description || '',
+    input.sampleOutput || '',
+    JSON.stringify(rules.sentenceConstruction || []),
+    JSON.stringify(rules.wordsToUse || []),
+    JSON.stringify(rules.wordsToAvoid || []),
+    rules.punctuationStyle || ''
+  );
+
+  console.log(`[ToneDb] Created tone: ${input.label} (${id})`);
+
+  return getToneById(id)!;
+};
+
+/**
+ * Update a user-defined tone
+ *
+ * Built-in tones are read-only and returned unchanged.
+ */
+export const updateTone = (id: string, updates: Partial<ToneInput>): WritingTone | null => {
+  const existing = getToneById(id);
+  if (!existing) return null;
+
+  if (existing.isBuiltin) {
+    console.warn(`[ToneDb] Cannot edit built-in tone: ${id}`);
+    return existing;
+  }
+
+  const fields: string[] = [];
+  const values: string[] = [];
+
+  if (updates.label !== undefined) {
+    fields.push('label = ?');
+    values.push(updates.label);
+  }
+  if (updates.description !== undefined) {
+    fields.push('description = ?');
+    values.push(updates.description);
+  }
+  if (updates.sampleOutput !== undefined) {
+    fields.push('sample_output = ?');
+    values.push(updates.sampleOutput);
+  }
+
+  const rules = updates.executionRules;
+  if (rules?.sentenceConstruction !== undefined) {
+    fields.push('sentence_construction = ?');
+    values.push(JSON.stringify(rules.sentenceConstruction));
+  }
+  if (rules?.wordsToUse !== undefined) {
+    fields.push('words_to_use = ?');
+    values.push(JSON.stringify(rules.wordsToUse));
+  }
+  if (rules?.wordsToAvoid !== undefined) {
+    fields.push('words_to_avoid = ?');
+    values.push(JSON.stringify(rules.wordsToAvoid));
+  }
+  if (rules?.punctuationStyle !== undefined) {
+    fields.push('punctuation_style = ?');
+    values.push(rules.punctuationStyle);
+  }
+
+  if (fields.length === 0) return existing;
+
+  fields.push("updated_at = datetime('now')");
+  values.push(id);
+
+  db.prepare(`UPDATE writing_tones SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+  console.log(`[ToneDb] Updated tone: ${id}`);
+
+  return getToneById(id);
+};
+
+/**
+ * Delete a user-defined tone (built-ins can't be deleted)
+ */
+export const deleteTone = (id: string): boolean => {
+  const existing = getToneById(id);
+  if (!existing) return false;
+
+  if (existing.isBuiltin) {
+    console.warn(`[ToneDb] Cannot delete built-in tone: ${id}`);
+    return false;
+  }
+
+  const result = db.prepare('DELETE FROM writing_tones WHERE id = ?').run(id);
+
+  if (result.changes > 0) {
+    console.log(`[ToneDb] Deleted tone: ${id}`);
+    return true;
+  }
+
+  return false;
+};
+
+// ======================
+// FLAVORS
+// ======================
+
+/**
+ * Get all flavors (built-ins first, in their defined order, then user flavors)
+ */
+export const getAllFlavors = (): WritingFlavor[] => {
+  const rows = db
+    .prepare('SELECT * FROM writing_flavors ORDER BY is_builtin DESC, rowid ASC')
+    .all() as DbFlavorRow[];
+
+  return rows.map(rowToFlavor);
+};
+
+/**
+ * Get flavor by ID
+ */
+export const getFlavorById = (id: string): WritingFlavor | null => {
+  const row = db
+    .prepare('SELECT * FROM writing_flavors WHERE id = ?')
+    .get(id) as DbFlavorRow | undefined;
+
+  if (!row) return null;
+  return rowToFlavor(row);
+};
+
+/**
+ * Get several flavors by ID, in the given order (unknown IDs are skipped)
+ */
+export const getFlavorsByIds = (ids: string[]): WritingFlavor[] => {
+  return ids
+    .map(id => getFlavorById(id))
+    .filter((flavor): flavor is WritingFlavor => flavor !== null);
+};
+
+/**
+ * Create a user-defined flavor
+ */
+export const createFlavor = (input: FlavorInput): WritingFlavor => {
+  const id = generateId('flavor');
+
+  db.prepare(`
+    INSERT INTO writing_flavors (id, label, description, instruction, formatting_rules, is_builtin)
+    VALUES (?, ?, ?, ?, ?, 0)
+  `).run(id, input.label, input.description || '', input.instruction, input.formattingRules || null);
+
+  console.log(`[ToneDb] Created flavor: ${input.label} (${id})`);
+
+  return getFlavorById(id)!;
+};
+
+/**
+ * Update a user-defined flavor
+ *
+ * Built-in flavors are read-only and returned unchanged.
+ */
+export const updateFlavor = (id: string, updates: Partial<FlavorInput>): WritingFlavor | null => {
+  const existing = getFlavorById(id);
+  if (!existing) return null;
+
+  if (existing.isBuiltin) {
+    console.warn(`[ToneDb] Cannot edit built-in flavor: ${id}`);
+    return existing;
+  }
+
+  const fields: string[] = [];
+  const values: (string | null)[] = [];
+
+  if (updates.label !== undefined) {
+    fields.push('label = ?');
+    values.push(updates.label);
+  }
+  if (updates.description !== undefined) {
+    fields.push('description = ?');
+    values.push(updates.description);
+  }
+  if (updates.instruction !== undefined) {
+    fields.push('instruction = ?');
+    values.push(updates.instruction);
+  }
+  if (updates.formattingRules !== undefined) {
+    fields.push('formatting_rules = ?');
+    values.push(updates.formattingRules || null);
+  }
+
+  if (fields.length === 0) return existing;
+
+  fields.push("updated_at = datetime('now')");
+  values.push(id);
+
+  db.prepare(`UPDATE writing_flavors SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+  console.log(`[ToneDb] Updated flavor: ${id}`);
+
+  return getFlavorById(id);
+};
+
+/**
+ * Delete a user-defined flavor (built-ins can't be deleted)
+ */
+export const deleteFlavor = (id: string): boolean => {
+  const existing = getFlavorById(id);
+  if (!existing) return false;
+
+  if (existing.isBuiltin) {
+    console.warn(`[ToneDb] Cannot delete built-in flavor: ${id}`);
+    return false;
+  }
+
+  const result = db.prepare('DELETE FROM writing_flavors WHERE id = ?').run(id);
+
+  if (result.changes > 0) {
+    console.log(`[ToneDb] Deleted flavor: ${id}`);
+    return true;
+  }
+
+  return false;
+};
+
+// Seed built-ins on module load
+seedBuiltinTonesAndFlavors();
@@ -5,6 +5,7 @@
 
 import db from '../db/init.ts';
 import * as crypto from 'crypto';
+import { signToken, verifyToken, getPublicBaseUrl } from './linkSigningService.ts';
 
 // Types
 export type TrackingType = 'open' | 'click';
@@ -117,6 +118,74 @@ export const parseClickTrackingId = (
   }
 };
 
+/**
+ * Verify a signed open tracking ID (as used in /t/open/:id.gif)
+ */
+export const parseSignedOpenTrackingId = (
+  signedId: string
+): { newsletterId: string; recipientEmail: string } | null => {
+  const trackingId = verifyToken(signedId);
+  return trackingId ? parseOpenTrackingId(trackingId) : null;
+};
+
+/**
+ * Verify a signed click tracking ID (as used in /t/click/:id)
+ */
+export const parseSignedClickTrackingId = (
+  signedId: string
+): { newsletterId: string; recipientEmail: string; destUrl: string } | null => {
+  const trackingId = verifyToken(signedId);
+  return trackingId ? parseClickTrackingId(trackingId) : null;
+};
+
+/**
+ * Get the tracking pixel URL for a recipient
+ */
+export const getOpenTrackingUrl = (newsletterId: string, recipientEmail: string): string => {
+  const signedId = signToken(generateOpenTrackingId(newsletterId, recipientEmail));
+  return `${getPublicBaseUrl()}/t/open/${signedId}.gif`;
+};
+
+/**
+ * Get the click redirect URL for a recipient and destination
+ */
+export const getClickTrackingUrl = (newsletterId: string, recipientEmail: string, destUrl: string): string => {
+  const signedId = signToken(generateClickTrackingId(newsletterId, recipientEmail, destUrl));
+  return `${getPublicBaseUrl()}/t/click/${signedId}`;
+};
+
+/**
+ * Rewrite a recipient's email HTML for tracking:
+ * - every absolute http(s) link goes through the click redirect
+ * - a 1x1 open pixel is added at the end of the body
+ */
+export const addTrackingToHtml = (
+  html: string,
+  newsletterId: string,
+  recipientEmail: string
+): string => {
+  // Links back to this server (tracking, unsubscribe) are left alone
+  const ownPrefix = `${getPublicBaseUrl()}/`;
+
+  const rewritten = html.replace(
+    /(<a\b[^>]*?\shref=)(["'])(https?:\/\/[^"']+)\2/gi,
+    (match, prefix: string, quote: string, href: string) => {
+      if (href.startsWith(ownPrefix)) {
+        return match;
+      }
+      // hrefs in generated HTML are entity-escaped; track the real destination
+      const destUrl = href.replace(/&amp;/g, '&');
+      return `${prefix}${quote}${getClickTrackingUrl(newsletterId, recipientEmail, destUrl)}${quote}`;
+    }
+  );
+
+  const pixel = `<img src="${getOpenTrackingUrl(newsletterId, recipientEmail)}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0;" />`;
+
+  return /<\/body>/i.test(rewritten)
+    ? rewritten.replace(/<\/body>/i, `${pixel}</body>`)
+    : `${rewritten}${pixel}`;
+};
+
 /**
  * Record a tracking event
  */
@@ -201,6 +270,21 @@ export const recordSentCount = (newsletterId: string, sentCount: number): void =
   console.log(`[Tracking] Recorded ${sentCount} sent for ${newsletterId}`);
 };
 
+/**
+ * Add to the sent count for a newsletter (a newsletter may be sent more than once)
+ */
+export const incrementSentCount = (newsletterId: string, sentCount: number): void => {
+  db.prepare(`
+    INSERT INTO email_stats (newsletter_id, total_sent, last_updated)
+    VALUES (?, ?, datetime('now'))
+    ON CONFLICT(newsletter_id) DO UPDATE SET
+      total_sent = email_stats.total_sent + excluded.total_sent,
+      last_updated = datetime('now')
+  `).run(newsletterId, sentCount);
+
+  console.log(`[Tracking] Added ${sentCount} sent for ${newsletterId}`);
+};
+
 /**
  * Get stats for a newsletter
  */
@@ -312,6 +396,28 @@ export const setTrackingEnabled = (newsletterId: string, enabled: boolean): void
   console.log(`[Tracking] Set tracking_enabled=${enabled} for ${newsletterId}`);
 };
 
+/**
+ * Get recipients (lowercased) with an open or click on any of the last N newsletters sent
+ * Newsletters are ordered by their most recent send.
+ */
+export const getEngagedRecipients = (trackingType: TrackingType, lastNewsletters: number): Set<string> => {
+  const rows = db.prepare(`
+    SELECT DISTINCT lower(recipient_email) AS email
+    FROM email_tracking
+    WHERE tracking_type = ?
+      AND newsletter_id IN (
+        SELECT newsletter_id
+        FROM email_send_jobs
+        WHERE newsletter_id IS NOT NULL
+        GROUP BY newsletter_id
+        ORDER BY MAX(created_at) DESC
+        LIMIT ?
+      )
+  `).all(trackingType, lastNewsletters) as Array<{ email: string }>;
+
+  return new Set(rows.map(row => row.email));
+};
+
 /**
  * Generate 1x1 transparent GIF for tracking pixel
  */
@@ -0,0 +1,81 @@
+/**
+ * Unsubscribe Service
+ * Signed per-recipient unsubscribe links and RFC 8058 one-click headers
+ */
+
+import * as subscriberDb from './subscriberDbService.ts';
+import * as newsletterDb from './newsletterDbService.ts';
+import { signToken, verifyToken, getPublicBaseUrl } from './linkSigningService.ts';
+
+export interface UnsubscribeTokenData {
+  email: string;
+  newsletterId: string | null;
+}
+
+/**
+ * Create a signed unsubscribe token for a recipient
+ * The newsletter ID (if any) is kept so the opt-out can be attributed to a send.
+ */
+export const createUnsubscribeToken = (email: string, newsletterId?: string): string => {
+  const payload = JSON.stringify({ e: email, n: newsletterId || null });
+  return signToken(Buffer.from(payload).toString('base64url'));
+};
+
+/**
+ * Verify and decode an unsubscribe token
+ */
+export const parseUnsubscribeToken = (token: string): UnsubscribeTokenData | null => {
+  const payload = verifyToken(token);
+  if (!payload) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (typeof data.e !== 'string' || !data.e) return null;
+    return { email: data.e, newsletterId: typeof data.n === 'string' ? data.n : null };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the public unsubscribe URL for a recipient
+ */
+export const getUnsubscribeUrl = (email: string, newsletterId?: string): string => {
+  return `${getPublicBaseUrl()}/u/${createUnsubscribeToken(email, newsletterId)}`;
+};
+
+/**
+ * RFC 2369 / RFC 8058 headers that let mail clients offer a one-click unsubscribe
+ */
+export const getListUnsubscribeHeaders = (email: string, newsletterId?: string): Record<string, string> => ({
+  'List-Unsubscribe': `<${getUnsubscribeUrl(email, newsletterId)}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+});
+
+/**
+ * Unsubscribe the recipient identified by a token
+ * Returns the decoded token data, or null if the token is invalid.
+ * Recipients that aren't in the subscriber table are accepted (nothing to deactivate).
+ */
+export const unsubscribeByToken = (
+  token: string,
+  reason: string
+): (UnsubscribeTokenData & { alreadyUnsubscribed: boolean }) | null => {
+  const data = parseUnsubscribeToken(token);
+  if (!data) return null;
+
+  const subscriber = subscriberDb.getSubscriberByEmail(data.email);
+  const alreadyUnsubscribed = !subscriber || subscriber.status === 'inactive';
+
+  if (subscriber && subscriber.status === 'active') {
+    subscriberDb.deleteSubscriber(data.email, reason);
+
+    if (data.newsletterId) {
+      newsletterDb.logAction(data.newsletterId, 'unsubscribed', { email: data.email, reason });
+    }
+
+    console.log(`[Unsubscribe] ${data.email} unsubscribed (${reason})`);
+  }
+
+  return { ...data, alreadyUnsubscribed };
+};
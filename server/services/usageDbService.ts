@@ -0,0 +1,336 @@
+/**
+ * Usage Database Service
+ * Ledger of billable AI API calls (tokens, images, web searches) and monthly budgets
+ */
+
+import db from '../db/init.ts';
+
+// Types
+export type UsageProvider = 'claude' | 'gemini' | 'stability' | 'openai';
+// OpenAI-compatible (self-hosted) calls are tracked at no cost, so they have no budget
+export type BudgetScope = Exclude<UsageProvider, 'openai'> | 'total';
+
+export interface UsageEntry {
+  id: number;
+  provider: UsageProvider;
+  model: string;
+  operation: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  images: number;
+  webSearchCalls: number;
+  costUsd: number;
+  correlationId: string | null;
+  newsletterId: string | null;
+  createdAt: string;
+}
+
+export type NewUsageEntry = Omit<UsageEntry, 'id' | 'createdAt'>;
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  webSearchCalls: number;
+  costUsd: number;
+}
+
+export interface NewsletterCostSummary extends UsageTotals {
+  newsletterId: string;
+  subject: string | null;
+  firstCallAt: string;
+  lastCallAt: string;
+}
+
+export interface MonthlyUsageSummary {
+  month: string;
+  totals: UsageTotals;
+  byProvider: Array<UsageTotals & { provider: UsageProvider }>;
+  byModel: Array<UsageTotals & { provider: UsageProvider; model: string }>;
+  /** Spend not linked to any newsletter (topic research, RAG chat, previews...) */
+  unattributedCostUsd: number;
+}
+
+export interface UsageBudget {
+  scope: BudgetScope;
+  monthlyLimitUsd: number;
+  updatedAt: string;
+}
+
+interface DbUsageRow {
+  id: number;
+  provider: string;
+  model: string;
+  operation: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  images: number;
+  web_search_calls: number;
+  cost_usd: number;
+  correlation_id: string | null;
+  newsletter_id: string | null;
+  created_at: string;
+}
+
+interface DbTotalsRow {
+  calls: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  images: number | null;
+  web_search_calls: number | null;
+  cost_usd: number | null;
+}
+
+interface DbBudgetRow {
+  scope: string;
+  monthly_limit_usd: number;
+  updated_at: string;
+}
+
+// Aggregate columns shared by every report query
+const TOTALS_COLUMNS = `
+  COUNT(*) as calls,
+  SUM(input_tokens) as input_tokens,
+  SUM(output_tokens) as output_tokens,
+  SUM(images) as images,
+  SUM(web_search_calls) as web_search_calls,
+  SUM(cost_usd) as cost_usd
+`;
+
+/**
+ * Convert database row to UsageEntry object
+ */
+const rowToEntry = (row: DbUsageRow): UsageEntry => ({
+  id: row.id,
+  provider: row.provider as UsageProvider,
+  model: row.model,
+  operation: row.operation,
+  inputTokens: row.input_tokens,
+  outputTokens: row.output_tokens,
+  cacheReadTokens: row.cache_read_tokens,
+  cacheWriteTokens: row.cache_write_tokens,
+  images: row.images,
+  webSearchCalls: row.web_search_calls,
+  costUsd: row.cost_usd,
+  correlationId: row.correlation_id,
+  newsletterId: row.newsletter_id,
+  createdAt: row.created_at,
+});
+
+/**
+ * Convert an aggregate row to UsageTotals (SUM over no rows is NULL)
+ */
+const rowToTotals = (row: DbTotalsRow): UsageTotals => ({
+  calls: row.calls,
+  inputTokens: row.input_tokens || 0,
+  outputTokens: row.output_tokens || 0,
+  images: row.images || 0,
+  webSearchCalls: row.web_search_calls || 0,
+  costUsd: row.cost_usd || 0,
+});
+
+const rowToBudget = (row: DbBudgetRow): UsageBudget => ({
+  scope: row.scope as BudgetScope,
+  monthlyLimitUsd: row.monthly_limit_usd,
+  updatedAt: row.updated_at,
+});
+
+// =============================================================================
+// LEDGER
+// =============================================================================
+
+/**
+ * Record a billable API call
+ */
+export const recordUsage = (entry: NewUsageEntry): void => {
+  db.prepare(`
+    INSERT INTO api_usage (
+      provider, model, operation, input_tokens, output_tokens,
+      cache_read_tokens, cache_write_tokens, images, web_search_calls,
+      cost_usd, correlation_id, newsletter_id
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.provider,
+    entry.model,
+    entry.operation,
+    entry.inputTokens,
+    entry.outputTokens,
+    entry.cacheReadTokens,
+    entry.cacheWriteTokens,
+    entry.images,
+    entry.webSearchCalls,
+    entry.costUsd,
+    entry.correlationId,
+    entry.newsletterId
+  );
+};
+
+/**
+ * Link a request's not-yet-attributed calls to the newsletter it produced
+ *
+ * @returns Number of ledger entries updated
+ */
+export const attributeToNewsletter = (correlationId: string, newsletterId: string): number => {
+  const result = db.prepare(`
+    UPDATE api_usage SET newsletter_id = ?
+    WHERE correlation_id = ? AND newsletter_id IS NULL
+  `).run(newsletterId, correlationId);
+
+  return result.changes;
+};
+
+/**
+ * Get the calls attributed to a newsletter (oldest first)
+ */
+export const getUsageForNewsletter = (newsletterId: string): UsageEntry[] => {
+  const rows = db
+    .prepare('SELECT * FROM api_usage WHERE newsletter_id = ? ORDER BY created_at ASC, id ASC')
+    .all(newsletterId) as DbUsageRow[];
+
+  return rows.map(rowToEntry);
+};
+
+// =============================================================================
+// REPORTS
+// =============================================================================
+
+/**
+ * Get per-newsletter cost totals (most recent first)
+ */
+export const getNewsletterCosts = (limit = 50): NewsletterCostSummary[] => {
+  const rows = db.prepare(`
+    SELECT u.newsletter_id, n.subject, MIN(u.created_at) as first_call_at,
+           MAX(u.created_at) as last_call_at, ${TOTALS_COLUMNS}
+    FROM api_usage u
+    LEFT JOIN newsletters n ON n.id = u.newsletter_id
+    WHERE u.newsletter_id IS NOT NULL
+    GROUP BY u.newsletter_id
+    ORDER BY last_call_at DESC
+    LIMIT ?
+  `).all(limit) as Array<DbTotalsRow & {
+    newsletter_id: string;
+    subject: string | null;
+    first_call_at: string;
+    last_call_at: string;
+  }>;
+
+  return rows.map(row => ({
+    newsletterId: row.newsletter_id,
+    subject: row.subject,
+    firstCallAt: row.first_call_at,
+    lastCallAt: row.last_call_at,
+    ...rowToTotals(row),
+  }));
+};
+
+/**
+ * Get a month's usage broken down by provider and model
+ *
+ * @param month - 'YYYY-MM' (UTC)
+ */
+export const getMonthlySummary = (month: string): MonthlyUsageSummary => {
+  const totals = db.prepare(`
+    SELECT ${TOTALS_COLUMNS} FROM api_usage WHERE strftime('%Y-%m', created_at) = ?
+  `).get(month) as DbTotalsRow;
+
+  const byProvider = db.prepare(`
+    SELECT provider, ${TOTALS_COLUMNS} FROM api_usage
+    WHERE strftime('%Y-%m', created_at) = ?
+    GROUP BY provider ORDER BY cost_usd DESC
+  `).all(month) as Array<DbTotalsRow & { provider: string }>;
+
+  const byModel = db.prepare(`
+    SELECT provider, model, ${TOTALS_COLUMNS} FROM api_usage
+    WHERE strftime('%Y-%m', created_at) = ?
+    GROUP BY provider, model ORDER BY cost_usd DESC
+  `).all(month) as Array<DbTotalsRow & { provider: string; model: string }>;
+
+  const unattributed = db.prepare(`
+    SELECT SUM(cost_usd) as cost_usd FROM api_usage
+    WHERE strftime('%Y-%m', created_at) = ? AND newsletter_id IS NULL
+  `).get(month) as { cost_usd: number | null };
+
+  return {
+    month,
+    totals: rowToTotals(totals),
+    byProvider: byProvider.map(row => ({ provider: row.provider as UsageProvider, ...rowToTotals(row) })),
+    byModel: byModel.map(row => ({ provider: row.provider as UsageProvider, model: row.model, ...rowToTotals(row) })),
+    unattributedCostUsd: unattributed.cost_usd || 0,
+  };
+};
+
+/**
+ * Get total cost per month for the most recent months that have usage
+ */
+export const getMonthlyCosts = (months = 12): Array<{ month: string; costUsd: number; calls: number }> => {
+  const rows = db.prepare(`
+    SELECT strftime('%Y-%m', created_at) as month, SUM(cost_usd) as cost_usd, COUNT(*) as calls
+    FROM api_usage
+    GROUP BY month ORDER BY month DESC
+    LIMIT ?
+  `).all(months) as Array<{ month: string; cost_usd: number; calls: number }>;
+
+  return rows.map(row => ({ month: row.month, costUsd: row.cost_usd, calls: row.calls }));
+};
+
+/**
+ * Get a month's spend, optionally for one provider
+ */
+export const getMonthSpend = (month: string, provider?: UsageProvider): number => {
+  const row = provider
+    ? db.prepare(`
+        SELECT SUM(cost_usd) as cost_usd FROM api_usage
+        WHERE strftime('%Y-%m', created_at) = ? AND provider = ?
+      `).get(month, provider)
+    : db.prepare(`
+        SELECT SUM(cost_usd) as cost_usd FROM api_usage WHERE strftime('%Y-%m', created_at) = ?
+      `).get(month);
+
+  return (row as { cost_usd: number | null }).cost_usd || 0;
+};
+
+// =============================================================================
+// BUDGETS
+// =============================================================================
+
+/**
+ * Get all configured monthly budgets
+ */
+export const getBudgets = (): UsageBudget[] => {
+  const rows = db
+    .prepare('SELECT * FROM api_usage_budgets ORDER BY scope ASC')
+    .all() as DbBudgetRow[];
+
+  return rows.map(rowToBudget);
+};
+
+/**
+ * Set (or replace) the monthly budget for a scope
+ */
+export const setBudget = (scope: BudgetScope, monthlyLimitUsd: number): UsageBudget => {
+  db.prepare(`
+    INSERT INTO api_usage_budgets (scope, monthly_limit_usd, updated_at)
+    VALUES (?, ?, datetime('now'))
+    ON CONFLICT(scope) DO UPDATE SET
+      monthly_limit_usd = excluded.monthly_limit_usd,
+      updated_at = excluded.updated_at
+  `).run(scope, monthlyLimitUsd);
+
+  console.log(`[UsageDb] Set ${scope} monthly budget to $${monthlyLimitUsd}`);
+  const row = db.prepare('SELECT * FROM api_usage_budgets WHERE scope = ?').get(scope) as DbBudgetRow;
+  return rowToBudget(row);
+};
+
+/**
+ * Remove the monthly budget for a scope
+ */
+export const deleteBudget = (scope: BudgetScope): boolean => {
+  const result = db.prepare('DELETE FROM api_usage_budgets WHERE scope = ?').run(scope);
+  return result.changes > 0;
+};
@@ -0,0 +1,325 @@
+/**
+ * Usage Service
+ * Turns provider usage reports into priced ledger entries and enforces
+ * monthly budgets.
+ *
+ * Entries are tagged with the current request's correlation ID. When a request
+ * saves a newsletter, its earlier entries are attributed to that newsletter and
+ * later ones are tagged directly (e.g. images generated after the text).
+ * Costs are estimates from the list prices below, not invoiced amounts.
+ */
+
+import * as usageDb from './usageDbService.ts';
+import { getContext } from '../control-plane/invocation/contextManager.ts';
+import { resolveStageProvider } from '../external/llm/stageConfig.ts';
+import type { LlmStage } from '../external/llm/types.ts';
+
+// =============================================================================
+// PRICING (USD)
+// =============================================================================
+
+interface TokenPricing {
+  /** Per million input tokens */
+  input: number;
+  /** Per million output tokens */
+  output: number;
+  /** Per million cache-write tokens */
+  cacheWrite: number;
+  /** Per million cache-read tokens */
+  cacheRead: number;
+}
+
+// Matched by model-name prefix, first match wins
+const TOKEN_PRICING: Array<[string, TokenPricing]> = [
+  ['claude-opus-4', { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 }],
+  ['claude-sonnet-4', { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ['claude-haiku-4', { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 }],
+  ['claude-3-opus', { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }],
+  ['claude-3', { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10, cacheWrite: 0, cacheRead: 0.31 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5, cacheWrite: 0, cacheRead: 0.075 }],
+];
+
+// Unknown models are priced like Sonnet so budgets err on the side of caution
+const FALLBACK_TOKEN_PRICING: TokenPricing = { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 };
+
+// Claude server-side web search, per request
+const CLAUDE_WEB_SEARCH_PRICE = 0.01;
+
+// Stability Stable Image Core, per image
+const STABILITY_IMAGE_PRICE = 0.03;
+
+const getTokenPricing = (model: string): TokenPricing =>
+  TOKEN_PRICING.find(([prefix]) => model.startsWith(prefix))?.[1] || FALLBACK_TOKEN_PRICING;
+
+const priceTokens = (
+  pricing: TokenPricing,
+  tokens: { input: number; output: number; cacheWrite?: number; cacheRead?: number }
+): number =>
+  (tokens.input * pricing.input +
+    tokens.output * pricing.output +
+    (tokens.cacheWrite || 0) * pricing.cacheWrite +
+    (tokens.cacheRead || 0) * pricing.cacheRead) / 1_000_000;
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Tags for the current request: correlation ID, the newsletter it's working on
+ * and an operation label (explicit, else the request path)
+ */
+const getRequestTags = (operation?: string) => {
+  const context = getContext();
+  const metadata = context?.metadata || {};
+
+  return {
+    correlationId: context?.correlationId || null,
+    newsletterId: (metadata.newsletterId as string | undefined) || null,
+    operation: operation || (metadata.operation as string | undefined) || (metadata.path as string | undefined) || null,
+  };
+};
+
+const writeEntry = (entry: usageDb.NewUsageEntry): void => {
+  // Accounting must never break the call it accounts for
+  try {
+    usageDb.recordUsage(entry);
+  } catch (error) {
+    console.error('[Usage] Failed to record usage:', error);
+  }
+};
+
+/**
+ * Minimal shape of a Claude Messages API response
+ */
+interface ClaudeResponseUsage {
+  model?: string;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
+    server_tool_use?: { web_search_requests?: number } | null;
+  };
+  content?: Array<{ type: string; name?: string }>;
+}
+
+/**
+ * Record a Claude Messages API call
+ *
+ * Web search calls count both Anthropic's server-side searches (billed per
+ * request) and our own `web_search` tool calls (run against Brave, not billed here).
+ */
+export const recordClaudeUsage = (requestedModel: string, response: ClaudeResponseUsage, operation?: string): void => {
+  const usage = response.usage;
+  if (!usage) return;
+
+  const model = response.model || requestedModel;
+  const serverSearches = usage.server_tool_use?.web_search_requests || 0;
+  const toolSearches = (response.content || []).filter(block => block.type === 'tool_use' && block.name === 'web_search').length;
+  const tokens = {
+    input: usage.input_tokens || 0,
+    output: usage.output_tokens || 0,
+    cacheWrite: usage.cache_creation_input_tokens || 0,
+    cacheRead: usage.cache_read_input_tokens || 0,
+  };
+
+  writeEntry({
+    provider: 'claude',
+    model,
+    ...getRequestTags(operation),
+    inputTokens: tokens.input,
+    outputTokens: tokens.output,
+    cacheReadTokens: tokens.cacheRead,
+    cacheWriteTokens: tokens.cacheWrite,
+    images: 0,
+    webSearchCalls: serverSearches + toolSearches,
+    costUsd: priceTokens(getTokenPricing(model), tokens) + serverSearches * CLAUDE_WEB_SEARCH_PRICE,
+  });
+};
+
+/**
+ * Record a Gemini generateContent call
+ */
+export const recordGeminiUsage = (
+  model: string,
+  usageMetadata: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    toolUsePromptTokenCount?: number;
+    cachedContentTokenCount?: number;
+  } | undefined,
+  operation?: string
+): void => {
+  if (!usageMetadata) return;
+
+  const cached = usageMetadata.cachedContentTokenCount || 0;
+  const tokens = {
+    // Gemini bills tool-use prompt tokens (e.g. retrieved file chunks) as input
+    input: (usageMetadata.promptTokenCount || 0) + (usageMetadata.toolUsePromptTokenCount || 0) - cached,
+    // ...and thinking tokens as output
+    output: (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0),
+    cacheRead: cached,
+  };
+
+  writeEntry({
+    provider: 'gemini',
+    model,
+    ...getRequestTags(operation),
+    inputTokens: tokens.input,
+    outputTokens: tokens.output,
+    cacheReadTokens: tokens.cacheRead,
+    cacheWriteTokens: 0,
+    images: 0,
+    webSearchCalls: 0,
+    costUsd: priceTokens(getTokenPricing(model), tokens),
+  });
+};
+
+/**
+ * Record generated Stability AI images
+ */
+export const recordImageUsage = (model: string, images: number, operation?: string): void => {
+  writeEntry({
+    provider: 'stability',
+    model,
+    ...getRequestTags(operation),
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    images,
+    webSearchCalls: 0,
+    costUsd: images * STABILITY_IMAGE_PRICE,
+  });
+};
+
+/**
+ * Record a call to an OpenAI-compatible model server. These are typically
+ * self-hosted, so tokens are tracked without a cost.
+ */
+export const recordOpenAiCompatibleUsage = (
+  model: string,
+  usage: { inputTokens: number; outputTokens: number },
+  operation?: string
+): void => {
+  writeEntry({
+    provider: 'openai',
+    model,
+    ...getRequestTags(operation),
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    images: 0,
+    webSearchCalls: 0,
+    costUsd: 0,
+  });
+};
+
+/**
+ * Attribute the current request's usage to a newsletter: entries recorded so
+ * far are linked now, later entries in the same request are tagged directly.
+ * No-op outside a request context.
+ */
+export const attributeUsageToNewsletter = (newsletterId: string): void => {
+  const context = getContext();
+  if (!context) return;
+
+  context.metadata = { ...context.metadata, newsletterId };
+
+  try {
+    const linked = usageDb.attributeToNewsletter(context.correlationId, newsletterId);
+    if (linked > 0) {
+      console.log(`[Usage] Attributed ${linked} calls to newsletter ${newsletterId}`);
+    }
+  } catch (error) {
+    console.error('[Usage] Failed to attribute usage:', error);
+  }
+};
+
+// =============================================================================
+// BUDGETS
+// =============================================================================
+
+export interface BudgetStatus {
+  scope: usageDb.BudgetScope;
+  month: string;
+  monthlyLimitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  exceeded: boolean;
+}
+
+/**
+ * Current month as 'YYYY-MM' (UTC, matching the ledger's timestamps)
+ */
+export const getCurrentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+/**
+ * Get every configured budget with this month's spend against it
+ */
+export const getBudgetStatuses = (): BudgetStatus[] => {
+  const month = getCurrentMonth();
+
+  return usageDb.getBudgets().map(budget => {
+    const spentUsd = usageDb.getMonthSpend(month, budget.scope === 'total' ? undefined : budget.scope);
+    return {
+      scope: budget.scope,
+      month,
+      monthlyLimitUsd: budget.monthlyLimitUsd,
+      spentUsd,
+      remainingUsd: Math.max(0, budget.monthlyLimitUsd - spentUsd),
+      exceeded: spentUsd >= budget.monthlyLimitUsd,
+    };
+  });
+};
+
+/**
+ * Find an exhausted budget that blocks calls to any of the given providers
+ * (the 'total' budget blocks every provider)
+ */
+export const getExceededBudget = (providers: usageDb.UsageProvider[]): BudgetStatus | null =>
+  getBudgetStatuses().find(
+    status => status.exceeded && (status.scope === 'total' || providers.includes(status.scope))
+  ) || null;
+
+/**
+ * Providers the given pipeline stages run on
+ * A stage with a misconfigured provider counts as Claude; the caller reports the configuration error.
+ */
+export const getStageProviders = (stages: LlmStage[]): usageDb.UsageProvider[] =>
+  Array.from(new Set(stages.map(stage => {
+    try {
+      return resolveStageProvider(stage);
+    } catch {
+      return 'claude' as const;
+    }
+  })));
+
+/**
+ * Like getExceededBudget, for LLM calls that go through pipeline stages
+ * `providers` adds budgets for calls outside the stages.
+ */
+export const getExceededStageBudget = (
+  stages: LlmStage[],
+  ...providers: usageDb.UsageProvider[]
+): BudgetStatus | null => getExceededBudget([...getStageProviders(stages), ...providers]);
+
+const PROVIDER_LABELS: Record<usageDb.UsageProvider, string> = {
+  claude: 'Claude',
+  gemini: 'Gemini',
+  stability: 'Stability AI',
+  openai: 'OpenAI-compatible',
+};
+
+/**
+ * User-facing message for an exhausted budget
+ */
+export const formatBudgetExceededMessage = (status: BudgetStatus): string => {
+  const label = status.scope === 'total' ? 'The total' : `The ${PROVIDER_LABELS[status.scope]}`;
+  return `${label} monthly AI budget of $${status.monthlyLimitUsd.toFixed(2)} for ${status.month} is used up ` +
+    `($${status.spentUsd.toFixed(2)} spent). Raise the budget in Logs → Costs or wait until next month.`;
+};
@@ -6,7 +6,7 @@
 import { apiRequest } from './apiHelper.ts';
 
 // Supported service types for API keys
-export type ServiceType = 'claude' | 'stability' | 'brave' | 'google_api_key' | 'google_client_id';
+export type ServiceType = 'claude' | 'stability' | 'brave' | 'google_api_key' | 'google_client_id' | 'google_client_secret' | 'smtp_password';
 
 export interface ApiKeyCredentials {
   service: ServiceType;
@@ -3,6 +3,7 @@
  * Frontend API client for managing custom audiences via SQLite backend
  */
 
+import type { AudienceCategory, AudienceConfig, AudienceJsonExample, AudienceSourcePreference } from '../types.ts';
 import { apiRequest } from './apiHelper.ts';
 
 // Types
@@ -19,17 +20,71 @@ export interface CustomAudience {
   name: string;
   description: string;
   generated?: AudienceGenerated;
+  parentId: string;
+  domainExamples: string;
+  jsonExamples: AudienceJsonExample[];
+  topicTitles: string[];
+  sourcePreferences: AudienceSourcePreference[];
   isDefault: boolean;
   isCustom: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface AudienceInput {
+  name: string;
+  description?: string;
+  generated?: AudienceGenerated;
+  parentId?: string;
+  domainExamples?: string;
+  jsonExamples?: AudienceJsonExample[];
+  topicTitles?: string[];
+  sourcePreferences?: AudienceSourcePreference[];
+}
+
 export interface AudienceListResponse {
   audiences: CustomAudience[];
   count: number;
 }
 
+/**
+ * Convert an API audience to the AudienceConfig format used by the UI
+ */
+export const toAudienceConfig = (audience: CustomAudience): AudienceConfig => ({
+  id: audience.id,
+  name: audience.name,
+  description: audience.description,
+  generated: audience.generated
+    ? {
+        persona: audience.generated.persona,
+        relevance_keywords: audience.generated.relevance_keywords,
+        subreddits: audience.generated.subreddits || [],
+        arxiv_categories: audience.generated.arxiv_categories || [],
+        search_templates: audience.generated.search_templates || [],
+      }
+    : undefined,
+  isCustom: audience.isCustom,
+  parentId: audience.parentId,
+  domainExamples: audience.domainExamples,
+  jsonExamples: audience.jsonExamples,
+  topicTitles: audience.topicTitles,
+  sourcePreferences: audience.sourcePreferences,
+});
+
+/**
+ * Convert a UI AudienceConfig to the audience fields the API stores
+ */
+export const toAudienceInput = (audience: AudienceConfig): AudienceInput => ({
+  name: audience.name,
+  description: audience.description || '',
+  generated: audience.generated,
+  parentId: audience.parentId,
+  domainExamples: audience.domainExamples,
+  jsonExamples: audience.jsonExamples,
+  topicTitles: audience.topicTitles,
+  sourcePreferences: audience.sourcePreferences,
+});
+
 /**
  * Get all custom audiences (non-default)
  */
@@ -37,6 +92,13 @@ export const getCustomAudiences = async (): Promise<AudienceListResponse> => {
   return apiRequest<AudienceListResponse>('/api/audiences');
 };
 
+/**
+ * Get all audiences (built-in specializations first, then custom)
+ */
+export const getAllAudiences = async (): Promise<AudienceListResponse> => {
+  return apiRequest<AudienceListResponse>('/api/audiences?includeDefaults=true');
+};
+
 /**
  * Get audience by ID
  */
@@ -47,25 +109,18 @@ export const getAudienceById = async (id: string): Promise<CustomAudience> => {
 /**
  * Create a new custom audience
  */
-export const createAudience = async (
-  name: string,
-  description: string,
-  generated?: AudienceGenerated
-): Promise<CustomAudience> => {
+export const createAudience = async (audience: AudienceInput): Promise<CustomAudience> => {
   return apiRequest<CustomAudience>('/api/audiences', {
     method: 'POST',
-    body: JSON.stringify({ name, description, generated }),
+    body: JSON.stringify(audience),
   });
 };
 
 /**
  * Save/upsert an audience (for migration from localStorage)
  */
-export const saveAudience = async (audience: {
+export const saveAudience = async (audience: AudienceInput & {
   id: string;
-  name: string;
-  description: string;
-  generated?: AudienceGenerated;
   isCustom?: boolean;
 }): Promise<CustomAudience> => {
   return apiRequest<CustomAudience>('/api/audiences/save', {
@@ -74,6 +129,16 @@ export const saveAudience = async (audience: {
   });
 };
 
+/**
+ * Update a custom audience (built-ins are read-only)
+ */
+export const updateAudience = async (id: string, updates: Partial<AudienceInput>): Promise<CustomAudience> => {
+  return apiRequest<CustomAudience>(`/api/audiences/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+};
+
 /**
  * Delete a custom audience
  */
@@ -83,3 +148,34 @@ export const deleteAudience = async (id: string): Promise<{ success: boolean; me
     { method: 'DELETE' }
   );
 };
+
+// ======================
+// CATEGORY API
+// ======================
+
+/**
+ * Get all audience categories with their child audience IDs
+ */
+export const getAudienceCategories = async (): Promise<{ categories: AudienceCategory[] }> => {
+  return apiRequest<{ categories: AudienceCategory[] }>('/api/audiences/categories');
+};
+
+/**
+ * Create an audience category
+ */
+export const createAudienceCategory = async (name: string): Promise<AudienceCategory> => {
+  return apiRequest<AudienceCategory>('/api/audiences/categories', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+};
+
+/**
+ * Delete a user-defined audience category (its audiences move to Custom)
+ */
+export const deleteAudienceCategory = async (id: string): Promise<{ success: boolean; message: string }> => {
+  return apiRequest<{ success: boolean; message: string }>(
+    `/api/audiences/categories/${encodeURIComponent(id)}`,
+    { method: 'DELETE' }
+  );
+};
@@ -176,7 +176,7 @@ const generateTrendingTopicsWithSourcesInternal = async (
  * This prevents the app from crashing when Stability AI is unavailable or
  * quota is exceeded. Callers expect a base64 string, not an exception.
  */
-const generateImageInternal = async (prompt: string, imageStyle?: string): Promise<string> => {
+const generateImageInternal = async (prompt: string, imageStyle?: string, newsletterId?: string): Promise<string> => {
   try {
     console.log("Attempting image generation via backend...");
     console.log("Prompt:", prompt.substring(0, 100) + "...");
@@ -187,7 +187,7 @@ const generateImageInternal = async (prompt: string, imageStyle?: string): Promi
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ prompt, imageStyle }),
+      body: JSON.stringify({ prompt, imageStyle, newsletterId }),
     });
 
     console.log("Backend Response Status:", response.status, response.statusText);
@@ -628,6 +628,7 @@ import type {
   PerAudienceNewsletterResult,
   MismatchInfo,
   EnhancedNewsletter,
+  EnhancedAudienceSection,
 } from '../types';
 
 /**
@@ -777,3 +778,160 @@ export async function generateNewsletterV4(
     throw error;
   }
 }
+
+/**
+ * Pipeline phases reported by the V4 stream
+ */
+export type NewsletterV4Phase = 'balancing' | 'topics' | 'overlaps' | 'sources' | 'sections' | 'merge';
+
+/**
+ * Streaming event from the V4 SSE endpoint
+ */
+export interface StreamingNewsletterV4Event extends Partial<Omit<V4GenerationResponse, 'success' | 'error'>> {
+  type: 'connected' | 'phase_start' | 'phase_complete' | 'section_start' | 'section_complete' | 'section_error' | 'complete' | 'error';
+  phase?: NewsletterV4Phase;
+  message?: string;
+  audienceId?: string;
+  audienceName?: string;
+  /** Partial on section_start (audience and sources), full on section_complete */
+  section?: Partial<EnhancedAudienceSection>;
+  error?: string;
+  completedCount?: number;
+  totalCount?: number;
+  durationMs?: number;
+  correlationId?: string;
+}
+
+/**
+ * Stream V4 newsletter generation with per-phase and per-section updates.
+ *
+ * Takes the same inputs as generateNewsletterV4. The final 'complete' event
+ * carries the same payload as the JSON route, with the newsletter already saved.
+ *
+ * @param params - Generation parameters
+ * @param mismatchResolutions - Optional user resolutions for mismatched topics
+ * @param onEvent - Callback for each streaming event
+ * @param onComplete - Callback when streaming completes
+ * @param onError - Callback for errors
+ * @returns Cleanup function to abort the connection
+ */
+export function streamNewsletterV4(
+  params: PerAudienceGenerationParams,
+  mismatchResolutions?: MismatchResolution[],
+  onEvent?: (event: StreamingNewsletterV4Event) => void,
+  onComplete?: () => void,
+  onError?: (error: Error) => void
+): () => void {
+  const abortController = new AbortController();
+  let finished = false;
+  const finish = () => {
+    if (!finished) {
+      finished = true;
+      onComplete?.();
+    }
+  };
+
+  console.log('[ClaudeService] Starting streaming V4 generation', {
+    audienceCount: params.audiences.length,
+    topicCount: params.selectedTopics?.length || 0,
+  });
+
+  fetchEventSource(`${API_BASE}/api/generateNewsletterV4/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      audiences: params.audiences,
+      selectedTopics: params.selectedTopics,
+      topicsPerAudience: params.topicsPerAudience,
+      tone: params.tone,
+      flavors: params.flavors,
+      imageStyle: params.imageStyle,
+      personaId: params.personaId,
+      promptOfTheDay: params.promptOfTheDay,
+      mismatchResolutions,
+    }),
+    signal: abortController.signal,
+    // Generation isn't idempotent: don't let a hidden tab re-POST it
+    openWhenHidden: true,
+
+    onopen: async (response) => {
+      if (response.ok) {
+        console.log('[ClaudeService] V4 SSE connection opened');
+        return;
+      }
+      throw new Error(`SSE connection failed: ${response.status} ${response.statusText}`);
+    },
+
+    onmessage: (msg) => {
+      if (!msg.data) return;
+
+      try {
+        const event = JSON.parse(msg.data) as StreamingNewsletterV4Event;
+        console.log('[ClaudeService] V4 SSE event:', event.type, event.phase || '', event.audienceId || '');
+        onEvent?.(event);
+      } catch (err) {
+        console.error('[ClaudeService] Failed to parse V4 SSE message:', err);
+      }
+    },
+
+    onerror: (err) => {
+      console.error('[ClaudeService] V4 SSE error:', err);
+      // Rethrow so fetchEventSource doesn't retry (and restart generation)
+      throw err;
+    },
+
+    onclose: () => {
+      console.log('[ClaudeService] V4 SSE connection closed');
+      finish();
+    },
+  }).catch((err) => {
+    console.error('[ClaudeService] V4 SSE stream error:', err);
+    onError?.(err instanceof Error ? err : new Error(String(err)));
+  });
+
+  // Return cleanup function
+  return () => {
+    console.log('[ClaudeService] Aborting V4 SSE connection');
+    abortController.abort();
+  };
+}
+
+/**
+ * Run streaming V4 generation and resolve with the final result.
+ *
+ * Convenience wrapper around streamNewsletterV4 for callers that want the
+ * progress events but also need to await the finished newsletter.
+ */
+export function generateNewsletterV4Streaming(
+  params: PerAudienceGenerationParams,
+  mismatchResolutions?: MismatchResolution[],
+  onEvent?: (event: StreamingNewsletterV4Event) => void
+): Promise<V4GenerationResponse> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (!settled) {
+        settled = true;
+        fn();
+      }
+    };
+
+    streamNewsletterV4(
+      params,
+      mismatchResolutions,
+      (event) => {
+        onEvent?.(event);
+        if (event.type === 'complete') {
+          const { type: _type, ...response } = event;
+          settle(() => resolve({ ...response, success: true } as V4GenerationResponse));
+        } else if (event.type === 'error') {
+          settle(() => reject(new Error(event.error || 'Failed to generate newsletter V4')));
+        }
+      },
+      () => settle(() => reject(new Error('Stream closed before generation completed'))),
+      (error) => settle(() => reject(error))
+    );
+  });
+}
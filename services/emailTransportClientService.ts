@@ -0,0 +1,47 @@
+/**
+ * Email Transport Client Service
+ * Frontend API client for choosing how newsletters are delivered
+ */
+
+import { apiRequest } from './apiHelper.ts';
+
+// Types
+export type EmailTransportType = 'gmail' | 'smtp' | 'outbox';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string | null;
+  fromAddress: string | null;
+}
+
+export interface EmailTransportSettings {
+  transport: EmailTransportType;
+  smtp: SmtpSettings | null;
+  hasSmtpPassword: boolean;
+}
+
+/**
+ * Get email transport settings for a user
+ */
+export const getTransportSettings = async (userEmail: string): Promise<EmailTransportSettings> => {
+  return apiRequest<EmailTransportSettings>(
+    `/api/gmail/transport?userEmail=${encodeURIComponent(userEmail)}`
+  );
+};
+
+/**
+ * Update email transport settings for a user
+ * The SMTP password is saved separately through apiKeyService ('smtp_password').
+ */
+export const updateTransportSettings = async (
+  userEmail: string,
+  transport: EmailTransportType,
+  smtp: SmtpSettings | null
+): Promise<EmailTransportSettings> => {
+  return apiRequest<EmailTransportSettings>('/api/gmail/transport', {
+    method: 'PUT',
+    body: JSON.stringify({ userEmail, transport, smtp }),
+  });
+};
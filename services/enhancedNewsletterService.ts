@@ -28,6 +28,8 @@ export interface GenerateEnhancedNewsletterRequest {
   personaId?: string;
   tone?: string;      // Phase 14: User-selected tone
   flavors?: string[]; // Phase 14: User-selected flavors
+  /** Also ground sections in the persistent knowledge base */
+  useKnowledgeBase?: boolean;
 }
 
 export interface GenerateEnhancedNewsletterResponse {
@@ -40,6 +42,8 @@ export interface GenerateEnhancedNewsletterResponse {
     github: { status: string; count: number };
     devto: { status: string; count: number };
   };
+  /** Knowledge base documents given to the writer (when useKnowledgeBase) */
+  knowledgeBaseDocuments?: number;
   /** Phase 15: Validation results (available in error responses) */
   validation?: {
     validTopics: string[];
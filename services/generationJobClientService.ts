@@ -0,0 +1,142 @@
+/**
+ * Generation Job Client Service
+ * Frontend API client for background newsletter generation jobs
+ */
+
+import { apiRequest } from './apiHelper.ts';
+import type { EnhancedAudienceSection, EnhancedNewsletter, PerAudienceGenerationParams, MismatchResolution } from '../types';
+import type { GenerateEnhancedNewsletterRequest } from './enhancedNewsletterService';
+
+// Types
+export type GenerationPipeline = 'v4' | 'enhanced';
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface GenerationJob {
+  id: string;
+  pipeline: GenerationPipeline;
+  status: GenerationJobStatus;
+  request: Record<string, unknown>;
+  /** Last reported phase (V4 pipeline phases, or 'generating' for enhanced jobs) */
+  phase: string | null;
+  message: string | null;
+  newsletterId: string | null;
+  /** Once completed: the pipeline's JSON response ({ newsletter, ... }) */
+  result: ({ newsletter?: EnhancedNewsletter } & Record<string, unknown>) | null;
+  errorMessage: string | null;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface GenerationJobDetail extends GenerationJob {
+  /** Sections finished so far (V4 jobs), in audience order */
+  sections: EnhancedAudienceSection[];
+  /** Checkpointed stages ('balance', 'sources', 'section:<audienceId>') */
+  checkpoints: string[];
+  cancelRequested: boolean;
+}
+
+/**
+ * Thrown when a job being waited on was cancelled
+ */
+export class GenerationJobCancelledError extends Error {
+  jobId: string;
+
+  constructor(jobId: string) {
+    super('Generation cancelled');
+    this.name = 'GenerationJobCancelledError';
+    this.jobId = jobId;
+  }
+}
+
+/** Statuses a job can still change from without user action */
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'running'];
+
+/** Statuses a job can be resumed from */
+export const RESUMABLE_JOB_STATUSES: GenerationJobStatus[] = ['failed', 'cancelled', 'interrupted'];
+
+/**
+ * Create and start a V4 (per-audience) generation job
+ */
+export const createPerAudienceJob = async (
+  params: PerAudienceGenerationParams,
+  mismatchResolutions?: MismatchResolution[]
+): Promise<GenerationJob> => {
+  return apiRequest<GenerationJob>('/api/generation-jobs', {
+    method: 'POST',
+    body: JSON.stringify({ pipeline: 'v4', request: { ...params, mismatchResolutions } }),
+  });
+};
+
+/**
+ * Create and start an enhanced (V2) generation job
+ */
+export const createEnhancedJob = async (request: GenerateEnhancedNewsletterRequest): Promise<GenerationJob> => {
+  return apiRequest<GenerationJob>('/api/generation-jobs', {
+    method: 'POST',
+    body: JSON.stringify({ pipeline: 'enhanced', request }),
+  });
+};
+
+/**
+ * List recent jobs, optionally only those with given statuses
+ */
+export const getGenerationJobs = async (
+  statuses?: GenerationJobStatus[],
+  limit = 20
+): Promise<{ jobs: GenerationJob[]; count: number }> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (statuses && statuses.length > 0) params.set('status', statuses.join(','));
+  return apiRequest<{ jobs: GenerationJob[]; count: number }>(`/api/generation-jobs?${params}`);
+};
+
+/**
+ * Poll a job
+ */
+export const getGenerationJob = async (id: string): Promise<GenerationJobDetail> => {
+  return apiRequest<GenerationJobDetail>(`/api/generation-jobs/${encodeURIComponent(id)}`);
+};
+
+/**
+ * Cancel a queued or running job
+ */
+export const cancelGenerationJob = async (id: string): Promise<GenerationJobDetail> => {
+  return apiRequest<GenerationJobDetail>(`/api/generation-jobs/${encodeURIComponent(id)}/cancel`, {
+    method: 'POST',
+  });
+};
+
+/**
+ * Resume a failed, cancelled or interrupted job from its checkpoints
+ */
+export const resumeGenerationJob = async (id: string): Promise<GenerationJobDetail> => {
+  return apiRequest<GenerationJobDetail>(`/api/generation-jobs/${encodeURIComponent(id)}/resume`, {
+    method: 'POST',
+  });
+};
+
+/**
+ * localStorage key holding the job this browser is following, so a refresh
+ * can reattach to it
+ */
+export const ACTIVE_GENERATION_JOB_KEY = 'activeGenerationJobId';
+
+/**
+ * Poll a job until it leaves the queued/running states
+ *
+ * @param onUpdate - Called with every poll result (progress, finished sections)
+ * @returns The job in its final state
+ */
+export const waitForGenerationJob = async (
+  id: string,
+  onUpdate?: (job: GenerationJobDetail) => void,
+  intervalMs = 2000
+): Promise<GenerationJobDetail> => {
+  while (true) {
+    const job = await getGenerationJob(id);
+    onUpdate?.(job);
+    if (!ACTIVE_JOB_STATUSES.includes(job.status)) return job;
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+};
@@ -258,14 +258,23 @@ export const loadNewsletterFromDrive = async (
 /**
  * Send newsletter via Gmail
  * Supports both v1 (Newsletter) and v2 (EnhancedNewsletter) formats
+ * targetIds are list or segment IDs the server resolves to recipients
  */
 export const sendEmail = async (
   userEmail: string,
   newsletter: Newsletter | EnhancedNewsletter,
   topics: string[],
   subscriberEmails: string[],
-  listNames?: string[]
-): Promise<{ message: string; sentCount: number; listNames: string[] }> => {
+  listNames?: string[],
+  targetIds?: string[]
+): Promise<{
+  message: string;
+  sentCount: number;
+  listNames: string[];
+  sendId?: string;
+  /** Recipients per audience variant (empty when the send wasn't tailored) */
+  variantCounts?: Record<string, number>;
+}> => {
   try {
     // Detect v2 EnhancedNewsletter and use appropriate generator
     const htmlBody = isEnhancedNewsletter(newsletter)
@@ -274,7 +283,7 @@ export const sendEmail = async (
 
     const validEmails = subscriberEmails.filter(email => email && email.includes('@'));
 
-    if (validEmails.length === 0) {
+    if (validEmails.length === 0 && !targetIds?.length) {
       return { message: 'No valid subscriber emails. Email not sent.', sentCount: 0, listNames: listNames || [] };
     }
 
@@ -292,8 +301,10 @@ export const sendEmail = async (
       body: JSON.stringify({
         userEmail,
         recipients: validEmails,
+        listIds: targetIds?.length ? targetIds : undefined,
         subject,
-        htmlBody
+        htmlBody,
+        newsletterId: newsletter.id
       })
     });
 
@@ -304,11 +315,25 @@ export const sendEmail = async (
     }
 
     const json = await response.json();
-    const result = unwrapResponse<{ totalSent: number }>(json);
+    const result = unwrapResponse<{
+      sendId: string;
+      totalSent: number;
+      totalPending?: number;
+      variantCounts?: Record<string, number>;
+    }>(json);
+    const pendingNote = result.totalPending
+      ? ` ${result.totalPending} more queued for retry.`
+      : '';
+    const tailored = Object.keys(result.variantCounts || {}).filter(key => key !== 'all').length;
+    const variantNote = tailored > 0
+      ? ` ${tailored} audience-tailored variant${tailored !== 1 ? 's' : ''} sent.`
+      : '';
     return {
-      message: `Email sent successfully to ${result.totalSent} subscriber(s).`,
+      message: `Email sent successfully to ${result.totalSent} subscriber(s).${pendingNote}${variantNote}`,
       sentCount: result.totalSent,
-      listNames: listNames || []
+      listNames: listNames || [],
+      sendId: result.sendId,
+      variantCounts: result.variantCounts
     };
   } catch (error) {
     console.error('[GoogleAPI] Failed to send email:', error);
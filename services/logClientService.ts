@@ -6,6 +6,7 @@
  * - Legacy unified logs (newsletter + api_key)
  * - User settings for retention and query limits
  * - Cleanup controls
+ * - API cost reports and monthly budgets
  */
 
 import { apiRequest, API_BASE } from './apiHelper.ts';
@@ -131,6 +132,61 @@ export interface ActionInfo {
   count: number;
 }
 
+// API cost ledger (estimated from list prices at record time)
+export type UsageProvider = 'claude' | 'gemini' | 'stability' | 'openai';
+export type BudgetScope = Exclude<UsageProvider, 'openai'> | 'total';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  webSearchCalls: number;
+  costUsd: number;
+}
+
+export interface UsageEntry {
+  id: number;
+  provider: UsageProvider;
+  model: string;
+  operation: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  images: number;
+  webSearchCalls: number;
+  costUsd: number;
+  correlationId: string | null;
+  newsletterId: string | null;
+  createdAt: string;
+}
+
+export interface NewsletterCostSummary extends UsageTotals {
+  newsletterId: string;
+  subject: string | null;
+  firstCallAt: string;
+  lastCallAt: string;
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  month: string;
+  monthlyLimitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  exceeded: boolean;
+}
+
+export interface MonthlyCostSummary {
+  month: string;
+  totals: UsageTotals;
+  byProvider: Array<UsageTotals & { provider: UsageProvider }>;
+  byModel: Array<UsageTotals & { provider: UsageProvider; model: string }>;
+  unattributedCostUsd: number;
+  budgets: BudgetStatus[];
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -310,6 +366,74 @@ export const getCleanupStatus = async (): Promise<CleanupStatus> => {
   return apiRequest<CleanupStatus>('/api/logs/cleanup/status');
 };
 
+// =============================================================================
+// API COSTS
+// =============================================================================
+
+/**
+ * Get a month's cost by provider and model ('YYYY-MM', default current month)
+ */
+export const getCostSummary = async (month?: string): Promise<MonthlyCostSummary> => {
+  const query = month ? `?month=${encodeURIComponent(month)}` : '';
+  return apiRequest<MonthlyCostSummary>(`/api/logs/costs/summary${query}`);
+};
+
+/**
+ * Get total cost per month (most recent first)
+ */
+export const getMonthlyCosts = async (
+  count = 12
+): Promise<{ months: Array<{ month: string; costUsd: number; calls: number }> }> => {
+  return apiRequest<{ months: Array<{ month: string; costUsd: number; calls: number }> }>(
+    `/api/logs/costs/months?count=${count}`
+  );
+};
+
+/**
+ * Get cost per newsletter
+ */
+export const getNewsletterCosts = async (
+  limit = 50
+): Promise<{ newsletters: NewsletterCostSummary[]; count: number }> => {
+  return apiRequest<{ newsletters: NewsletterCostSummary[]; count: number }>(
+    `/api/logs/costs/newsletters?limit=${limit}`
+  );
+};
+
+/**
+ * Get the ledger entries for one newsletter
+ */
+export const getNewsletterUsage = async (
+  newsletterId: string
+): Promise<{ newsletterId: string; entries: UsageEntry[]; totalCostUsd: number }> => {
+  return apiRequest<{ newsletterId: string; entries: UsageEntry[]; totalCostUsd: number }>(
+    `/api/logs/costs/newsletters/${encodeURIComponent(newsletterId)}`
+  );
+};
+
+/**
+ * Set a monthly budget
+ */
+export const setBudget = async (
+  scope: BudgetScope,
+  monthlyLimitUsd: number
+): Promise<{ budgets: BudgetStatus[] }> => {
+  return apiRequest<{ budgets: BudgetStatus[] }>(`/api/logs/costs/budgets/${scope}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ monthlyLimitUsd }),
+  });
+};
+
+/**
+ * Remove a monthly budget
+ */
+export const deleteBudget = async (scope: BudgetScope): Promise<{ budgets: BudgetStatus[] }> => {
+  return apiRequest<{ budgets: BudgetStatus[] }>(`/api/logs/costs/budgets/${scope}`, {
+    method: 'DELETE',
+  });
+};
+
 // =============================================================================
 // LEGACY UNIFIED LOGS API (Backward Compatibility)
 // =============================================================================
@@ -458,3 +582,12 @@ export const formatStorageSize = (kb: number): string => {
   if (kb < 1024 * 1024) return `${(kb / 1024).toFixed(1)} MB`;
   return `${(kb / 1024 / 1024).toFixed(1)} GB`;
 };
+
+/**
+ * Format a USD cost for display (sub-cent amounts keep 4 decimals)
+ */
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+};
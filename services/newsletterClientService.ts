@@ -4,8 +4,19 @@
  * Supports both v1 (legacy) and v2 (enhanced) newsletter formats
  */
 
-import type { EnhancedNewsletter } from '../types';
-import { apiRequest } from './apiHelper.ts';
+import { fetchEventSource } from '@microsoft/fetch-event-source';
+import type {
+  EnhancedNewsletter,
+  EnhancedAudienceSection,
+  SectionRewriteResult,
+  NewsletterImageSlot,
+  NewsletterImageTarget,
+  NewsletterImageBatchEvent,
+  NewsletterRevision,
+  NewsletterRevisionDiff,
+  NewsletterRevisionSummary,
+} from '../types';
+import { apiRequest, extractErrorMessage, API_BASE } from './apiHelper.ts';
 
 // Types
 export interface NewsletterSection {
@@ -48,6 +59,8 @@ export interface NewsletterLog {
   action: string;
   actionAt: string;
   details?: Record<string, unknown>;
+  /** Revision the action produced, if it changed the newsletter */
+  revisionId: number | null;
 }
 
 // Format-aware types for v1/v2 support
@@ -118,22 +131,203 @@ export const deleteNewsletter = async (id: string): Promise<{ success: boolean;
 
 /**
  * Update newsletter sections (to save imageUrls after client-side generation)
+ *
+ * @param source - Revision source recorded for the change
  */
 export const updateNewsletterSections = async (
   newsletterId: string,
   sections?: NewsletterSection[],
   audienceSections?: unknown[],
-  formatVersion?: 'v1' | 'v2'
-): Promise<{ success: boolean; message: string }> => {
-  return apiRequest<{ success: boolean; message: string }>(
+  formatVersion?: 'v1' | 'v2',
+  source: 'image_change' | 'inline_edit' = 'image_change'
+): Promise<{ success: boolean; message: string; revisionId: number | null }> => {
+  return apiRequest<{ success: boolean; message: string; revisionId: number | null }>(
     `/api/newsletters/${newsletterId}/sections`,
     {
       method: 'PATCH',
-      body: JSON.stringify({ sections, audienceSections, formatVersion })
+      body: JSON.stringify({ sections, audienceSections, formatVersion, source })
+    }
+  );
+};
+
+/**
+ * Save an editor's inline changes (recorded as an inline_edit revision)
+ */
+export const saveNewsletterContent = async (
+  newsletterId: string,
+  formatVersion: 'v1' | 'v2',
+  newsletter: Newsletter | EnhancedNewsletter,
+  author?: string
+): Promise<{ success: boolean; revisionId: number }> => {
+  return apiRequest<{ success: boolean; revisionId: number }>(
+    `/api/newsletters/${newsletterId}/content`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ formatVersion, newsletter, author })
     }
   );
 };
 
+/**
+ * List a newsletter's revisions (newest first)
+ */
+export const getRevisions = async (newsletterId: string): Promise<{ revisions: NewsletterRevisionSummary[] }> => {
+  return apiRequest<{ revisions: NewsletterRevisionSummary[] }>(`/api/newsletters/${newsletterId}/revisions`);
+};
+
+/**
+ * Get one revision with the newsletter content it recorded
+ */
+export const getRevision = async (newsletterId: string, revisionId: number): Promise<NewsletterRevision> => {
+  return apiRequest<NewsletterRevision>(`/api/newsletters/${newsletterId}/revisions/${revisionId}`);
+};
+
+/**
+ * Field-level diff between two revisions
+ */
+export const diffRevisions = async (
+  newsletterId: string,
+  fromRevisionId: number,
+  toRevisionId: number
+): Promise<NewsletterRevisionDiff> => {
+  return apiRequest<NewsletterRevisionDiff>(
+    `/api/newsletters/${newsletterId}/revisions/diff?from=${fromRevisionId}&to=${toRevisionId}`
+  );
+};
+
+/**
+ * Restore a newsletter to an earlier revision (recorded as a new revision)
+ */
+export const restoreRevision = async (
+  newsletterId: string,
+  revisionId: number,
+  author?: string
+): Promise<{ revision: NewsletterRevisionSummary; formatVersion: 'v1' | 'v2'; newsletter: Newsletter | EnhancedNewsletter }> => {
+  return apiRequest<{ revision: NewsletterRevisionSummary; formatVersion: 'v1' | 'v2'; newsletter: Newsletter | EnhancedNewsletter }>(
+    `/api/newsletters/${newsletterId}/revisions/${revisionId}/restore`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ author })
+    }
+  );
+};
+
+/**
+ * Propose an AI rewrite of one enhanced audience section (not saved)
+ *
+ * @param instruction - e.g. "shorter" or "more technical"; omit to regenerate
+ */
+export const rewriteSection = async (
+  newsletterId: string,
+  audienceId: string,
+  instruction?: string
+): Promise<SectionRewriteResult> => {
+  return apiRequest<SectionRewriteResult>(
+    `/api/newsletters/${newsletterId}/sections/${encodeURIComponent(audienceId)}/rewrite`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ instruction })
+    }
+  );
+};
+
+/**
+ * Replace one enhanced audience section (e.g. accept a proposed rewrite)
+ */
+export const replaceSection = async (
+  newsletterId: string,
+  audienceId: string,
+  section: EnhancedAudienceSection,
+  author?: string
+): Promise<{ success: boolean; message: string }> => {
+  return apiRequest<{ success: boolean; message: string }>(
+    `/api/newsletters/${newsletterId}/sections/${encodeURIComponent(audienceId)}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ section, author })
+    }
+  );
+};
+
+/**
+ * Image slots of an enhanced newsletter, with the styles a batch can use
+ */
+export interface NewsletterImagesResponse {
+  slots: NewsletterImageSlot[];
+  imageStyle: string | null;
+  imageStyles: string[];
+}
+
+export interface NewsletterImageBatchOptions {
+  targets?: NewsletterImageTarget[];
+  imageStyle?: string;
+  concurrency?: number;
+  prompts?: Record<string, string>;
+}
+
+/**
+ * List the image slots (hero, tool of the day, sections) of an enhanced newsletter
+ */
+export const getNewsletterImages = async (newsletterId: string): Promise<NewsletterImagesResponse> => {
+  return apiRequest<NewsletterImagesResponse>(`/api/newsletters/${newsletterId}/images`);
+};
+
+/**
+ * Generate images for a saved enhanced newsletter on the server, with
+ * per-image progress. Each image is saved to the newsletter as it completes.
+ *
+ * @returns Cleanup function to stop listening (generation continues on the server)
+ */
+export function streamNewsletterImages(
+  newsletterId: string,
+  options: NewsletterImageBatchOptions,
+  onEvent: (event: NewsletterImageBatchEvent) => void,
+  onComplete?: () => void,
+  onError?: (error: Error) => void
+): () => void {
+  const abortController = new AbortController();
+
+  fetchEventSource(`${API_BASE}/api/newsletters/${newsletterId}/images/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+    signal: abortController.signal,
+    // Image generation costs credits: don't let a hidden tab re-POST it
+    openWhenHidden: true,
+
+    onopen: async (response) => {
+      if (response.ok) return;
+      const json = await response.json().catch(() => null);
+      throw new Error(extractErrorMessage(json, `Image batch failed: ${response.status}`));
+    },
+
+    onmessage: (msg) => {
+      if (!msg.data) return;
+
+      try {
+        onEvent(JSON.parse(msg.data) as NewsletterImageBatchEvent);
+      } catch (err) {
+        console.error('[NewsletterClient] Failed to parse image batch event:', err);
+      }
+    },
+
+    onerror: (err) => {
+      // Rethrow so fetchEventSource doesn't retry (and restart the batch)
+      throw err;
+    },
+
+    onclose: () => {
+      onComplete?.();
+    },
+  }).catch((err) => {
+    onError?.(err instanceof Error ? err : new Error(String(err)));
+  });
+
+  return () => abortController.abort();
+}
+
 /**
  * Log an action for a newsletter
  */
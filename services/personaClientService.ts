@@ -5,6 +5,7 @@
 
 import type { WriterPersona, PersonaStats } from '../types.ts';
 import { apiRequest } from './apiHelper.ts';
+import type { ToneInput, FlavorInput } from './toneClientService.ts';
 
 // ======================
 // PERSONA API
@@ -114,14 +115,22 @@ export const togglePersonaFavorite = async (id: string): Promise<WriterPersona>
 
 /**
  * Generate a short preview paragraph in a persona's voice
- * Used for A/B persona comparison feature
+ * Used for A/B persona comparison feature, and for live tone/flavor previews
+ *
+ * @param personaId - Persona whose voice to use (null for a neutral newsletter writer)
+ * @param options.tone - Tone key, or an unsaved tone draft
+ * @param options.flavors - Flavor keys and/or unsaved flavor drafts
  */
 export const generatePersonaPreview = async (
-  personaId: string,
-  sampleTopic: string
+  personaId: string | null,
+  sampleTopic: string,
+  options: {
+    tone?: string | ToneInput;
+    flavors?: Array<string | Pick<FlavorInput, 'instruction'>>;
+  } = {}
 ): Promise<{ preview: string; personaName: string }> => {
   return apiRequest<{ preview: string; personaName: string }>('/api/generatePersonaPreview', {
     method: 'POST',
-    body: JSON.stringify({ personaId, sampleTopic }),
+    body: JSON.stringify({ personaId, sampleTopic, ...options }),
   });
 };
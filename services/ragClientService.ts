@@ -6,12 +6,16 @@
 import { apiRequest } from './apiHelper.ts';
 import type {
   RagDocument,
+  RagCollection,
   RagChat,
   RagMessage,
   RagStorageStats,
   RagConfig,
   RagDocumentStatus,
   RagDocumentSourceType,
+  RagDocumentVersion,
+  RagRecrawlEvent,
+  RagRecrawlPolicy,
 } from '../types.ts';
 
 // ============================================================================
@@ -77,6 +81,47 @@ export interface IndexedUrlsResponse {
   urls: string[];
 }
 
+export interface CollectionsListResponse {
+  collections: RagCollection[];
+}
+
+export interface TagsListResponse {
+  tags: Array<{ tag: string; count: number }>;
+}
+
+export interface RecrawlStatus {
+  running: boolean;
+  processing: boolean;
+  lastRunAt: string | null;
+  brokenDocuments: number;
+}
+
+export interface RecrawlFeedResponse {
+  events: RagRecrawlEvent[];
+  status: RecrawlStatus;
+}
+
+export interface RecrawlDocumentResponse {
+  result: {
+    documentId: string;
+    outcome: 'unchanged' | 'updated' | 'failed' | 'broken' | 'skipped';
+    error?: string;
+  };
+  document: RagDocument | null;
+}
+
+export interface RecrawlRunResponse {
+  summary: { checked: number; unchanged: number; updated: number; failed: number; broken: number };
+}
+
+/**
+ * Collection and tags to file a new document with
+ */
+export interface DocumentFiling {
+  collectionId?: string;
+  tags?: string[];
+}
+
 export type SourceIndexType = 'trending' | 'tool' | 'suggestion' | 'archive';
 
 // ============================================================================
@@ -85,16 +130,21 @@ export type SourceIndexType = 'trending' | 'tool' | 'suggestion' | 'archive';
 
 /**
  * Get all documents with optional filters
+ * (collectionId 'none' lists documents that aren't in a collection)
  */
 export const getDocuments = async (options?: {
   status?: RagDocumentStatus;
   sourceType?: RagDocumentSourceType;
+  collectionId?: string;
+  tag?: string;
   limit?: number;
   offset?: number;
 }): Promise<DocumentsListResponse> => {
   const params = new URLSearchParams();
   if (options?.status) params.set('status', options.status);
   if (options?.sourceType) params.set('sourceType', options.sourceType);
+  if (options?.collectionId) params.set('collectionId', options.collectionId);
+  if (options?.tag) params.set('tag', options.tag);
   if (options?.limit) params.set('limit', options.limit.toString());
   if (options?.offset) params.set('offset', options.offset.toString());
 
@@ -115,11 +165,12 @@ export const getDocumentById = async (id: string): Promise<RagDocument> => {
 export const indexText = async (
   content: string,
   title: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  filing?: DocumentFiling
 ): Promise<DocumentUploadResponse> => {
   return apiRequest<DocumentUploadResponse>('/api/rag/documents/text', {
     method: 'POST',
-    body: JSON.stringify({ content, title, metadata }),
+    body: JSON.stringify({ content, title, metadata, ...filing }),
   });
 };
 
@@ -130,14 +181,36 @@ export const indexUrl = async (
   url: string,
   content: string,
   title: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  filing?: DocumentFiling
 ): Promise<DocumentUploadResponse> => {
   return apiRequest<DocumentUploadResponse>('/api/rag/documents/url', {
     method: 'POST',
-    body: JSON.stringify({ url, content, title, metadata }),
+    body: JSON.stringify({ url, content, title, metadata, ...filing }),
   });
 };
 
+/**
+ * Move a document to a collection (null for none), replace its tags and/or
+ * set its re-crawl policy (null follows the collection's)
+ */
+export const updateDocument = async (
+  id: string,
+  updates: { collectionId?: string | null; tags?: string[]; recrawlPolicy?: RagRecrawlPolicy | null }
+): Promise<{ document: RagDocument }> => {
+  return apiRequest<{ document: RagDocument }>(`/api/rag/documents/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+};
+
+/**
+ * Get all document tags with their document counts
+ */
+export const getTags = async (): Promise<TagsListResponse> => {
+  return apiRequest<TagsListResponse>('/api/rag/tags');
+};
+
 /**
  * Delete a document
  */
@@ -161,11 +234,12 @@ export const fetchAndIndexUrl = async (
   url: string,
   title: string,
   sourceType: SourceIndexType = 'trending',
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  filing?: DocumentFiling
 ): Promise<FetchAndIndexResponse> => {
   return apiRequest<FetchAndIndexResponse>('/api/rag/fetch-and-index', {
     method: 'POST',
-    body: JSON.stringify({ url, title, sourceType, metadata }),
+    body: JSON.stringify({ url, title, sourceType, metadata, ...filing }),
   });
 };
 
@@ -178,6 +252,8 @@ export const fetchAndIndexBatch = async (
     title: string;
     sourceType: SourceIndexType;
     metadata?: Record<string, unknown>;
+    collectionId?: string;
+    tags?: string[];
   }>
 ): Promise<FetchAndIndexBatchResponse> => {
   return apiRequest<FetchAndIndexBatchResponse>('/api/rag/fetch-and-index-batch', {
@@ -195,6 +271,91 @@ export const getIndexedUrls = async (): Promise<Set<string>> => {
   return new Set(response.urls);
 };
 
+// ============================================================================
+// Collection Operations
+// ============================================================================
+
+/**
+ * Get all collections with their document counts
+ */
+export const getCollections = async (): Promise<CollectionsListResponse> => {
+  return apiRequest<CollectionsListResponse>('/api/rag/collections');
+};
+
+/**
+ * Create a collection
+ */
+export const createCollection = async (
+  name: string,
+  description?: string,
+  recrawlPolicy?: RagRecrawlPolicy
+): Promise<{ collection: RagCollection }> => {
+  return apiRequest<{ collection: RagCollection }>('/api/rag/collections', {
+    method: 'POST',
+    body: JSON.stringify({ name, description, recrawlPolicy }),
+  });
+};
+
+/**
+ * Rename a collection, change its description and/or set its re-crawl policy
+ */
+export const updateCollection = async (
+  id: string,
+  updates: { name?: string; description?: string; recrawlPolicy?: RagRecrawlPolicy }
+): Promise<{ collection: RagCollection }> => {
+  return apiRequest<{ collection: RagCollection }>(`/api/rag/collections/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+};
+
+/**
+ * Delete a collection (its documents stay in the knowledge base)
+ */
+export const deleteCollection = async (id: string): Promise<{ success: boolean; message: string }> => {
+  return apiRequest<{ success: boolean; message: string }>(`/api/rag/collections/${id}`, {
+    method: 'DELETE',
+  });
+};
+
+// ============================================================================
+// Re-crawl Operations
+// ============================================================================
+
+/**
+ * Re-fetch a URL document now (re-indexed if its content changed)
+ */
+export const recrawlDocument = async (id: string): Promise<RecrawlDocumentResponse> => {
+  return apiRequest<RecrawlDocumentResponse>(`/api/rag/documents/${id}/recrawl`, {
+    method: 'POST',
+  });
+};
+
+/**
+ * Get the earlier versions of a document, newest first
+ */
+export const getDocumentVersions = async (
+  id: string
+): Promise<{ documentId: string; versions: RagDocumentVersion[] }> => {
+  return apiRequest<{ documentId: string; versions: RagDocumentVersion[] }>(`/api/rag/documents/${id}/versions`);
+};
+
+/**
+ * Get the updated/broken/recovered feed with the re-crawl worker status
+ */
+export const getRecrawlFeed = async (limit?: number): Promise<RecrawlFeedResponse> => {
+  return apiRequest<RecrawlFeedResponse>(`/api/rag/recrawl/feed${limit ? `?limit=${limit}` : ''}`);
+};
+
+/**
+ * Re-crawl all due documents now
+ */
+export const runRecrawl = async (): Promise<RecrawlRunResponse> => {
+  return apiRequest<RecrawlRunResponse>('/api/rag/recrawl/run', {
+    method: 'POST',
+  });
+};
+
 // ============================================================================
 // Storage Operations
 // ============================================================================
@@ -226,12 +387,12 @@ export const getChats = async (limit?: number): Promise<ChatsListResponse> => {
 };
 
 /**
- * Create a new chat
+ * Create a new chat, optionally scoped to collections
  */
-export const createChat = async (title?: string): Promise<{ chat: RagChat }> => {
+export const createChat = async (title?: string, collectionIds?: string[]): Promise<{ chat: RagChat }> => {
   return apiRequest<{ chat: RagChat }>('/api/rag/chats', {
     method: 'POST',
-    body: JSON.stringify({ title }),
+    body: JSON.stringify({ title, collectionIds }),
   });
 };
 
@@ -252,6 +413,16 @@ export const updateChatTitle = async (id: string, title: string): Promise<{ chat
   });
 };
 
+/**
+ * Update the collections a chat searches (empty for the whole knowledge base)
+ */
+export const updateChatScope = async (id: string, collectionIds: string[]): Promise<{ chat: RagChat }> => {
+  return apiRequest<{ chat: RagChat }>(`/api/rag/chats/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ collectionIds }),
+  });
+};
+
 /**
  * Delete a chat
  */
@@ -279,11 +450,12 @@ export const sendMessage = async (
  */
 export const startNewChat = async (
   message: string,
-  title?: string
+  title?: string,
+  collectionIds?: string[]
 ): Promise<ChatMessageResponse> => {
   return apiRequest<ChatMessageResponse>('/api/rag/chats/new-with-message', {
     method: 'POST',
-    body: JSON.stringify({ message, title }),
+    body: JSON.stringify({ message, title, collectionIds }),
   });
 };
 
@@ -297,6 +469,8 @@ export default {
   getDocumentById,
   indexText,
   indexUrl,
+  updateDocument,
+  getTags,
   deleteDocument,
 
   // Source Indexing
@@ -304,6 +478,18 @@ export default {
   fetchAndIndexBatch,
   getIndexedUrls,
 
+  // Collections
+  getCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+
+  // Re-crawl
+  recrawlDocument,
+  getDocumentVersions,
+  getRecrawlFeed,
+  runRecrawl,
+
   // Storage
   getStorage,
   getConfig,
@@ -313,6 +499,7 @@ export default {
   createChat,
   getChat,
   updateChatTitle,
+  updateChatScope,
   deleteChat,
   sendMessage,
   startNewChat,
@@ -22,6 +22,7 @@ export interface ScheduledSend {
 
 export interface SchedulerStatus {
   running: boolean;
+  senderEmail: string | null;
   stats: {
     pending: number;
     sent: number;
@@ -29,6 +30,64 @@ export interface SchedulerStatus {
     cancelled: number;
   };
   upcoming: ScheduledSend[];
+  recurringSchedules: number;
+}
+
+export type TopicSource = 'calendar' | 'trending' | 'fixed';
+
+export type RecurringRunStatus =
+  | 'generating'
+  | 'awaiting_approval'
+  | 'sending'
+  | 'sent'
+  | 'failed'
+  | 'rejected';
+
+export interface GenerationRecipe {
+  personaId?: string | null;
+  audienceIds: string[];
+  topicSource: TopicSource;
+  topics?: string[];
+  topicsPerAudience?: number;
+  tone?: string;
+  flavors?: string[];
+  imageStyle?: string;
+}
+
+export interface RecurringSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  timezone: string | null;
+  recipe: GenerationRecipe;
+  recipientLists: string[];
+  holdForApproval: boolean;
+  enabled: boolean;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecurringScheduleInput {
+  name: string;
+  cronExpression: string;
+  timezone?: string | null;
+  recipe: GenerationRecipe;
+  recipientLists: string[];
+  holdForApproval?: boolean;
+  enabled?: boolean;
+}
+
+export interface RecurringScheduleRun {
+  id: string;
+  scheduleId: string;
+  status: RecurringRunStatus;
+  newsletterId: string | null;
+  calendarEntryId: string | null;
+  scheduledSendId: string | null;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string | null;
 }
 
 export interface ScheduledSendListResponse {
@@ -40,21 +99,21 @@ export interface ScheduledSendListResponse {
  * Get all scheduled sends
  */
 export const getScheduledSends = async (): Promise<ScheduledSendListResponse> => {
-  return apiRequest<ScheduledSendListResponse>('/api/scheduler');
+  return apiRequest<ScheduledSendListResponse>('/api/schedule');
 };
 
 /**
  * Get scheduler status
  */
 export const getSchedulerStatus = async (): Promise<SchedulerStatus> => {
-  return apiRequest<SchedulerStatus>('/api/scheduler/status');
+  return apiRequest<SchedulerStatus>('/api/schedule/status');
 };
 
 /**
  * Get scheduled send by ID
  */
 export const getScheduledSendById = async (id: string): Promise<ScheduledSend> => {
-  return apiRequest<ScheduledSend>(`/api/scheduler/${encodeURIComponent(id)}`);
+  return apiRequest<ScheduledSend>(`/api/schedule/${encodeURIComponent(id)}`);
 };
 
 /**
@@ -64,7 +123,7 @@ export const getScheduledSendsForNewsletter = async (
   newsletterId: string
 ): Promise<ScheduledSendListResponse> => {
   return apiRequest<ScheduledSendListResponse>(
-    `/api/scheduler/newsletter/${encodeURIComponent(newsletterId)}`
+    `/api/schedule/newsletter/${encodeURIComponent(newsletterId)}`
   );
 };
 
@@ -76,7 +135,7 @@ export const scheduleNewsletter = async (
   scheduledAt: string,
   recipientLists: string[]
 ): Promise<ScheduledSend> => {
-  return apiRequest<ScheduledSend>('/api/scheduler', {
+  return apiRequest<ScheduledSend>('/api/schedule', {
     method: 'POST',
     body: JSON.stringify({ newsletterId, scheduledAt, recipientLists }),
   });
@@ -87,7 +146,7 @@ export const scheduleNewsletter = async (
  */
 export const cancelScheduledSend = async (id: string): Promise<ScheduledSend> => {
   return apiRequest<ScheduledSend>(
-    `/api/scheduler/${encodeURIComponent(id)}/cancel`,
+    `/api/schedule/${encodeURIComponent(id)}/cancel`,
     { method: 'POST' }
   );
 };
@@ -100,7 +159,7 @@ export const rescheduleNewsletter = async (
   newScheduledAt: string
 ): Promise<ScheduledSend> => {
   return apiRequest<ScheduledSend>(
-    `/api/scheduler/${encodeURIComponent(id)}/reschedule`,
+    `/api/schedule/${encodeURIComponent(id)}/reschedule`,
     {
       method: 'POST',
       body: JSON.stringify({ scheduledAt: newScheduledAt }),
@@ -115,7 +174,7 @@ export const triggerSendNow = async (
   id: string
 ): Promise<{ success: boolean; sentCount: number; error?: string }> => {
   return apiRequest<{ success: boolean; sentCount: number; error?: string }>(
-    `/api/scheduler/${encodeURIComponent(id)}/send-now`,
+    `/api/schedule/${encodeURIComponent(id)}/send-now`,
     { method: 'POST' }
   );
 };
@@ -127,7 +186,7 @@ export const deleteScheduledSend = async (
   id: string
 ): Promise<{ success: boolean; message: string }> => {
   return apiRequest<{ success: boolean; message: string }>(
-    `/api/scheduler/${encodeURIComponent(id)}`,
+    `/api/schedule/${encodeURIComponent(id)}`,
     { method: 'DELETE' }
   );
 };
@@ -136,5 +195,96 @@ export const deleteScheduledSend = async (
  * Get upcoming scheduled sends
  */
 export const getUpcomingScheduledSends = async (days = 7): Promise<ScheduledSendListResponse> => {
-  return apiRequest<ScheduledSendListResponse>(`/api/scheduler/upcoming?days=${days}`);
+  return apiRequest<ScheduledSendListResponse>(`/api/schedule/upcoming?days=${days}`);
+};
+
+// =============================================================================
+// Recurring schedules
+// =============================================================================
+
+/**
+ * Get all recurring schedules
+ */
+export const getRecurringSchedules = async (): Promise<{ schedules: RecurringSchedule[]; count: number }> => {
+  return apiRequest<{ schedules: RecurringSchedule[]; count: number }>('/api/schedule/recurring');
+};
+
+/**
+ * Create a recurring schedule
+ */
+export const createRecurringSchedule = async (input: RecurringScheduleInput): Promise<RecurringSchedule> => {
+  return apiRequest<RecurringSchedule>('/api/schedule/recurring', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+};
+
+/**
+ * Update a recurring schedule
+ */
+export const updateRecurringSchedule = async (
+  id: string,
+  updates: Partial<RecurringScheduleInput>
+): Promise<RecurringSchedule> => {
+  return apiRequest<RecurringSchedule>(`/api/schedule/recurring/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+};
+
+/**
+ * Delete a recurring schedule
+ */
+export const deleteRecurringSchedule = async (
+  id: string
+): Promise<{ success: boolean; message: string }> => {
+  return apiRequest<{ success: boolean; message: string }>(
+    `/api/schedule/recurring/${encodeURIComponent(id)}`,
+    { method: 'DELETE' }
+  );
+};
+
+/**
+ * Start a run of a recurring schedule now
+ */
+export const runRecurringScheduleNow = async (id: string): Promise<RecurringScheduleRun> => {
+  return apiRequest<RecurringScheduleRun>(
+    `/api/schedule/recurring/${encodeURIComponent(id)}/run`,
+    { method: 'POST' }
+  );
+};
+
+/**
+ * Get runs of a recurring schedule (newest first)
+ */
+export const getRecurringScheduleRuns = async (
+  id: string,
+  limit = 50
+): Promise<{ runs: RecurringScheduleRun[]; count: number }> => {
+  return apiRequest<{ runs: RecurringScheduleRun[]; count: number }>(
+    `/api/schedule/recurring/${encodeURIComponent(id)}/runs?limit=${limit}`
+  );
+};
+
+/**
+ * Approve a held run and send its newsletter
+ */
+export const approveRecurringRun = async (runId: string): Promise<RecurringScheduleRun> => {
+  return apiRequest<RecurringScheduleRun>(
+    `/api/schedule/recurring/runs/${encodeURIComponent(runId)}/approve`,
+    { method: 'POST' }
+  );
+};
+
+/**
+ * Reject a held run
+ */
+export const rejectRecurringRun = async (runId: string, reason?: string): Promise<RecurringScheduleRun> => {
+  return apiRequest<RecurringScheduleRun>(
+    `/api/schedule/recurring/runs/${encodeURIComponent(runId)}/reject`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }
+  );
 };
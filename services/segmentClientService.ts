@@ -0,0 +1,124 @@
+/**
+ * Segment Client Service
+ * Frontend API client for rule-based subscriber segments
+ *
+ * A segment ID can be used anywhere a list ID is accepted as a send target.
+ */
+
+import { apiRequest } from './apiHelper.ts';
+import type { Subscriber } from './subscriberClientService.ts';
+
+export type SegmentRuleField = 'email' | 'name' | 'source' | 'attribute' | 'list' | 'date_added' | 'engagement';
+
+export type SegmentRuleOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'is_set'
+  | 'is_not_set'
+  | 'in_list'
+  | 'not_in_list'
+  | 'before'
+  | 'after'
+  | 'within_days'
+  | 'older_than_days'
+  | 'did'
+  | 'did_not';
+
+export interface SegmentRule {
+  field: SegmentRuleField;
+  operator: SegmentRuleOperator;
+  value?: string;
+  attribute?: string;
+  event?: 'open' | 'click';
+  lastNewsletters?: number;
+}
+
+export interface SegmentDefinition {
+  match: 'all' | 'any';
+  rules: SegmentRule[];
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: SegmentDefinition;
+  createdAt: string;
+  updatedAt: string;
+  /** Present in list responses */
+  memberCount?: number;
+}
+
+export interface SegmentPreview {
+  count: number;
+  members: Subscriber[];
+}
+
+/**
+ * Check whether a send target ID refers to a segment rather than a list
+ */
+export const isSegmentId = (id: string): boolean => id.startsWith('seg_');
+
+/**
+ * Get all segments with current member counts
+ */
+export const getSegments = async (): Promise<{ segments: Segment[]; count: number }> => {
+  return apiRequest<{ segments: Segment[]; count: number }>('/api/segments');
+};
+
+/**
+ * Create a segment
+ */
+export const createSegment = async (segment: {
+  name: string;
+  description?: string;
+  definition: SegmentDefinition;
+}): Promise<Segment> => {
+  return apiRequest<Segment>('/api/segments', {
+    method: 'POST',
+    body: JSON.stringify(segment),
+  });
+};
+
+/**
+ * Update a segment
+ */
+export const updateSegment = async (
+  id: string,
+  updates: Partial<{ name: string; description: string; definition: SegmentDefinition }>
+): Promise<Segment> => {
+  return apiRequest<Segment>(`/api/segments/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+};
+
+/**
+ * Delete a segment
+ */
+export const deleteSegment = async (id: string): Promise<{ success: boolean; message: string }> => {
+  return apiRequest<{ success: boolean; message: string }>(`/api/segments/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+};
+
+/**
+ * Preview an unsaved definition: member count and the first members
+ */
+export const previewSegment = async (definition: SegmentDefinition, limit = 25): Promise<SegmentPreview> => {
+  return apiRequest<SegmentPreview>(`/api/segments/preview?limit=${limit}`, {
+    method: 'POST',
+    body: JSON.stringify({ definition }),
+  });
+};
+
+/**
+ * Get a saved segment's current members
+ */
+export const getSegmentMembers = async (id: string, limit = 25): Promise<SegmentPreview> => {
+  return apiRequest<SegmentPreview>(`/api/segments/${encodeURIComponent(id)}/members?limit=${limit}`);
+};
@@ -0,0 +1,82 @@
+/**
+ * Send Queue Client Service
+ * Frontend API client for per-recipient delivery state of bulk sends
+ */
+
+import { apiRequest } from './apiHelper.ts';
+
+// Types
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface SendJobSummary {
+  id: string;
+  source: 'scheduled' | 'manual';
+  newsletterId: string | null;
+  userEmail: string;
+  subject: string;
+  status: 'sending' | 'completed';
+  totalRecipients: number;
+  createdAt: string;
+  completedAt: string | null;
+  counts: Record<DeliveryStatus, number>;
+  /** Recipients per audience variant (empty when the send wasn't tailored) */
+  variantCounts: Record<string, number>;
+}
+
+export interface Delivery {
+  id: number;
+  sendId: string;
+  recipientEmail: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  messageId: string | null;
+  sentAt: string | null;
+  updatedAt: string;
+  /** Audience variant sent ('all' or URL-encoded audience IDs joined with '+'), null when the send wasn't tailored */
+  variant: string | null;
+}
+
+/**
+ * List recent sends
+ */
+export const getSends = async (limit = 50): Promise<{ sends: SendJobSummary[]; count: number }> => {
+  return apiRequest<{ sends: SendJobSummary[]; count: number }>(`/api/sends?limit=${limit}`);
+};
+
+/**
+ * Get a send (scheduled send ID or bulk send ID) with delivery counts
+ */
+export const getSend = async (sendId: string): Promise<SendJobSummary> => {
+  return apiRequest<SendJobSummary>(`/api/sends/${encodeURIComponent(sendId)}`);
+};
+
+/**
+ * List per-recipient deliveries for a send
+ */
+export const getDeliveries = async (
+  sendId: string,
+  status?: DeliveryStatus
+): Promise<{ deliveries: Delivery[]; count: number }> => {
+  const query = status ? `?status=${status}` : '';
+  return apiRequest<{ deliveries: Delivery[]; count: number }>(
+    `/api/sends/${encodeURIComponent(sendId)}/deliveries${query}`
+  );
+};
+
+/**
+ * Re-queue failed recipients (all, or only the given ones)
+ */
+export const retryFailedDeliveries = async (
+  sendId: string,
+  recipients?: string[]
+): Promise<{ requeued: number; send: SendJobSummary }> => {
+  return apiRequest<{ requeued: number; send: SendJobSummary }>(
+    `/api/sends/${encodeURIComponent(sendId)}/retry`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ recipients }),
+    }
+  );
+};
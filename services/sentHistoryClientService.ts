@@ -18,6 +18,10 @@ export interface SentHistoryItem {
   listIds: string[];
   recipientCount: number;
   recipientEmails?: string[];
+  /** Per-audience variants sent (absent when the send wasn't tailored) */
+  variants?: SentVariantSummary[];
+  /** Variant key each recipient got (detail only) */
+  recipientVariants?: Record<string, string>;
   stats: {
     totalSent: number;
     uniqueOpens: number;
@@ -28,6 +32,13 @@ export interface SentHistoryItem {
   newsletterContent?: Record<string, unknown>;
 }
 
+export interface SentVariantSummary {
+  /** 'all' for the full newsletter, otherwise audience IDs joined with '+' */
+  key: string;
+  audienceNames: string[];
+  recipientCount: number;
+}
+
 export interface SentHistoryOptions {
   limit?: number;
   offset?: number;
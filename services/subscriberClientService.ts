@@ -3,7 +3,7 @@
  * Frontend API client for managing subscribers and lists via SQLite backend
  */
 
-import { apiRequest } from './apiHelper.ts';
+import { apiRequest, API_BASE } from './apiHelper.ts';
 
 // Types
 export interface Subscriber {
@@ -15,6 +15,10 @@ export interface Subscriber {
   dateAdded: string;
   dateRemoved?: string;
   source?: string;
+  /** Custom fields for merge tags, keyed by snake_case name */
+  attributes?: Record<string, string>;
+  /** Audience IDs whose newsletter sections they receive (in addition to their lists') */
+  audiences?: string[];
 }
 
 export interface SubscriberList {
@@ -23,6 +27,8 @@ export interface SubscriberList {
   description?: string;
   dateCreated: string;
   subscriberCount: number;
+  /** Audience IDs whose newsletter sections members receive */
+  audiences?: string[];
 }
 
 export interface SubscriberListResponse {
@@ -30,6 +36,63 @@ export interface SubscriberListResponse {
   count: number;
 }
 
+export type ImportFormat = 'csv' | 'vcard';
+
+export interface ColumnMapping {
+  email: string;
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  lists?: string;
+}
+
+export interface ImportOptions {
+  listId?: string;
+  updateNames?: boolean;
+  addExistingToList?: boolean;
+  dryRun?: boolean;
+}
+
+export interface ImportRowResult {
+  row: number;
+  email: string;
+  name?: string;
+  action: 'added' | 'updated' | 'skipped' | 'invalid';
+  reason?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  added: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+  rows: ImportRowResult[];
+  /** Present for CSV/vCard uploads */
+  format?: ImportFormat;
+  columns?: string[];
+  mapping?: ColumnMapping | null;
+}
+
+export interface MergeFieldsResponse {
+  builtIn: string[];
+  attributes: string[];
+}
+
+export interface PersonalizedPreview {
+  subject: string;
+  htmlBody: string;
+  /** Merge values used for this subscriber */
+  values: Record<string, string>;
+}
+
+export interface MappableAudience {
+  id: string;
+  name: string;
+  isCustom: boolean;
+}
+
 export interface ListListResponse {
   lists: SubscriberList[];
   count: number;
@@ -72,6 +135,8 @@ export const addSubscriber = async (subscriber: {
   status?: 'active' | 'inactive';
   lists?: string;
   source?: string;
+  attributes?: Record<string, string>;
+  audiences?: string[];
 }): Promise<Subscriber> => {
   return apiRequest<Subscriber>('/api/subscribers', {
     method: 'POST',
@@ -92,6 +157,33 @@ export const updateSubscriber = async (
   });
 };
 
+/**
+ * Get the merge tag fields available (built-in fields and custom attribute keys)
+ */
+export const getMergeFields = async (): Promise<MergeFieldsResponse> => {
+  return apiRequest<MergeFieldsResponse>('/api/subscribers/attributes');
+};
+
+/**
+ * Get the audiences subscribers and lists can be mapped to
+ */
+export const getMappableAudiences = async (): Promise<{ audiences: MappableAudience[]; count: number }> => {
+  return apiRequest<{ audiences: MappableAudience[]; count: number }>('/api/subscribers/audiences');
+};
+
+/**
+ * Resolve merge tags in a subject and email HTML as a sample subscriber
+ */
+export const previewAsSubscriber = async (
+  email: string,
+  content: { subject: string; htmlBody: string }
+): Promise<PersonalizedPreview> => {
+  return apiRequest<PersonalizedPreview>(`/api/subscribers/${encodeURIComponent(email)}/preview`, {
+    method: 'POST',
+    body: JSON.stringify(content)
+  });
+};
+
 /**
  * Delete (deactivate) a subscriber - soft delete
  */
@@ -113,17 +205,80 @@ export const hardDeleteSubscriber = async (email: string): Promise<{ success: bo
 };
 
 /**
- * Bulk import subscribers
+ * Bulk import subscribers from an array
  */
 export const importSubscribers = async (
-  subscribers: Array<{ email: string; name?: string; listId?: string }>
-): Promise<{ added: number; skipped: number }> => {
-  return apiRequest<{ added: number; skipped: number }>('/api/subscribers/import', {
+  subscribers: Array<{ email: string; name?: string; listId?: string }>,
+  options: ImportOptions = {}
+): Promise<ImportReport> => {
+  return apiRequest<ImportReport>('/api/subscribers/import', {
     method: 'POST',
-    body: JSON.stringify({ subscribers })
+    body: JSON.stringify({ subscribers, ...options })
   });
 };
 
+/**
+ * Import subscribers from CSV or vCard text
+ * Use dryRun first to get the detected columns, mapping and a preview report.
+ */
+export const importSubscribersFromFile = async (
+  content: string,
+  options: ImportOptions & { format?: ImportFormat; mapping?: ColumnMapping } = {}
+): Promise<ImportReport> => {
+  return apiRequest<ImportReport>('/api/subscribers/import', {
+    method: 'POST',
+    body: JSON.stringify({ content, ...options })
+  });
+};
+
+/**
+ * Download a CSV export from the server
+ */
+const downloadCsv = async (path: string, fileName: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}${path}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || error.error || 'Failed to export');
+  }
+
+  const csvContent = await response.text();
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Export subscribers to CSV (downloads the file)
+ */
+export const exportSubscribersCsv = async (filters?: {
+  status?: 'active' | 'inactive' | 'all';
+  listId?: string;
+}): Promise<void> => {
+  const params = new URLSearchParams();
+  if (filters?.status) params.append('status', filters.status);
+  if (filters?.listId) params.append('listId', filters.listId);
+
+  const queryString = params.toString();
+  const date = new Date().toISOString().split('T')[0];
+  await downloadCsv(`/api/subscribers/export${queryString ? '?' + queryString : ''}`, `subscribers-${date}.csv`);
+};
+
+/**
+ * Export subscriber lists to CSV (downloads the file)
+ */
+export const exportListsCsv = async (): Promise<void> => {
+  const date = new Date().toISOString().split('T')[0];
+  await downloadCsv('/api/lists/export', `subscriber-lists-${date}.csv`);
+};
+
 // ======================
 // LIST API
 // ======================
@@ -145,10 +300,10 @@ export const getListById = async (id: string): Promise<SubscriberList> => {
 /**
  * Create a new list
  */
-export const createList = async (name: string, description?: string): Promise<SubscriberList> => {
+export const createList = async (name: string, description?: string, audiences?: string[]): Promise<SubscriberList> => {
   return apiRequest<SubscriberList>('/api/lists', {
     method: 'POST',
-    body: JSON.stringify({ name, description })
+    body: JSON.stringify({ name, description, audiences })
   });
 };
 
@@ -0,0 +1,101 @@
+/**
+ * Tone Client Service
+ * Frontend API client for managing writing tones and stylistic flavors via SQLite backend
+ */
+
+import type { WritingTone, WritingFlavor, ToneExecutionRules } from '../types.ts';
+import { apiRequest } from './apiHelper.ts';
+
+export interface ToneInput {
+  label: string;
+  description?: string;
+  sampleOutput?: string;
+  executionRules?: Partial<ToneExecutionRules>;
+}
+
+export interface FlavorInput {
+  label: string;
+  description?: string;
+  instruction: string;
+  formattingRules?: string | null;
+}
+
+// ======================
+// TONE API
+// ======================
+
+/**
+ * Get all tones (built-ins first, then user-defined)
+ */
+export const getTones = async (): Promise<{ tones: WritingTone[] }> => {
+  return apiRequest<{ tones: WritingTone[] }>('/api/tones');
+};
+
+/**
+ * Create a user-defined tone
+ */
+export const createTone = async (tone: ToneInput): Promise<WritingTone> => {
+  return apiRequest<WritingTone>('/api/tones', {
+    method: 'POST',
+    body: JSON.stringify(tone),
+  });
+};
+
+/**
+ * Update a user-defined tone (built-ins are read-only)
+ */
+export const updateTone = async (id: string, updates: Partial<ToneInput>): Promise<WritingTone> => {
+  return apiRequest<WritingTone>(`/api/tones/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+};
+
+/**
+ * Delete a user-defined tone
+ */
+export const deleteTone = async (id: string): Promise<{ success: boolean; message: string }> => {
+  return apiRequest<{ success: boolean; message: string }>(`/api/tones/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+};
+
+// ======================
+// FLAVOR API
+// ======================
+
+/**
+ * Get all flavors (built-ins first, then user-defined)
+ */
+export const getFlavors = async (): Promise<{ flavors: WritingFlavor[] }> => {
+  return apiRequest<{ flavors: WritingFlavor[] }>('/api/flavors');
+};
+
+/**
+ * Create a user-defined flavor
+ */
+export const createFlavor = async (flavor: FlavorInput): Promise<WritingFlavor> => {
+  return apiRequest<WritingFlavor>('/api/flavors', {
+    method: 'POST',
+    body: JSON.stringify(flavor),
+  });
+};
+
+/**
+ * Update a user-defined flavor (built-ins are read-only)
+ */
+export const updateFlavor = async (id: string, updates: Partial<FlavorInput>): Promise<WritingFlavor> => {
+  return apiRequest<WritingFlavor>(`/api/flavors/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+};
+
+/**
+ * Delete a user-defined flavor
+ */
+export const deleteFlavor = async (id: string): Promise<{ success: boolean; message: string }> => {
+  return apiRequest<{ success: boolean; message: string }>(`/api/flavors/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+};
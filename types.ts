@@ -80,6 +80,9 @@ export interface Subscriber {
   dateAdded: string; // ISO timestamp
   dateRemoved?: string; // ISO timestamp, only if inactive
   source?: string; // e.g., "manual", "import", "migrated"
+  unsubscribeReason?: string; // Set when the subscriber opted out via an email link
+  attributes?: Record<string, string>; // Custom merge tag fields, e.g. { company: "Acme" }
+  audiences?: string[]; // Audience IDs whose newsletter sections they receive
 }
 
 export interface SubscriberList {
@@ -88,6 +91,7 @@ export interface SubscriberList {
   description?: string;
   dateCreated: string; // ISO timestamp
   subscriberCount: number; // Synced from subscriber sheet
+  audiences?: string[]; // Audience IDs whose newsletter sections members receive
 }
 
 // Type for the data returned by Google's token client
@@ -184,6 +188,8 @@ export interface ToolOfTheDay {
   url: string;
   whyNow: string;
   quickStart: string;
+  imagePrompt?: string;
+  imageUrl?: string;
 }
 
 export interface PracticalPrompt {
@@ -195,6 +201,8 @@ export interface PracticalPrompt {
 export interface SourceCitation {
   url: string;
   title: string;
+  /** Set when the citation is a knowledge base document (rag_documents.id) */
+  kbDocumentId?: string;
 }
 
 export interface SectionCTA {
@@ -219,17 +227,57 @@ export interface EditorsNote {
   message: string;
 }
 
+export interface NewsletterHeroImage {
+  imagePrompt: string;
+  imageUrl?: string;
+}
+
 export interface EnhancedNewsletter {
   id?: string;
   editorsNote: EditorsNote;
   toolOfTheDay: ToolOfTheDay;
   audienceSections: EnhancedAudienceSection[];
   conclusion: string;
+  heroImage?: NewsletterHeroImage;
+  /** Citation check against the sources allocated to each audience (V3 pipeline) */
+  verificationReport?: NewsletterVerificationReport;
   // Legacy compatibility fields
   subject?: string;
   promptOfTheDay?: PromptOfTheDay;
 }
 
+/**
+ * How an audience section's citations ended up after verification:
+ * 'verified' passed as generated, 'repaired' passed after links were replaced
+ * or the section was regenerated, 'unverified' still fails after all attempts
+ */
+export type SectionVerificationStatus = 'verified' | 'repaired' | 'unverified';
+
+export interface SectionVerificationReport {
+  audienceId: string;
+  audienceName: string;
+  status: SectionVerificationStatus;
+  /** Cited URLs that match an allocated source or an indexed knowledge base document */
+  validCitations: number;
+  /** Of validCitations, how many are knowledge base documents */
+  knowledgeBaseCitations?: number;
+  /** Cited URLs that still don't match an allocated source */
+  unverifiedUrls: string[];
+  /** Links swapped for the closest allocated source */
+  replacedUrls: { from: string; to: string }[];
+  /** Times the section was regenerated with strict citation constraints */
+  regenerations: number;
+  issues: string[];
+}
+
+export interface NewsletterVerificationReport {
+  isValid: boolean;
+  /** Repair passes run (0 when the first verification passed) */
+  repairAttempts: number;
+  sections: SectionVerificationReport[];
+  verifiedAt: string;
+}
+
 // Dynamic Audience Configuration
 export interface AudienceConfig {
   id: string;
@@ -243,6 +291,12 @@ export interface AudienceConfig {
     arxiv_categories: string[];
     search_templates: string[];
   };
+  // Content generation profile (stored with the audience in SQLite)
+  parentId?: string;
+  domainExamples?: string;
+  jsonExamples?: AudienceJsonExample[];
+  topicTitles?: string[];
+  sourcePreferences?: AudienceSourcePreference[];
 }
 
 // ============================================================================
@@ -250,13 +304,14 @@ export interface AudienceConfig {
 // ============================================================================
 
 /**
- * Parent category for audience grouping (Academic, Business)
+ * Parent category for audience grouping (Academic, Business, Custom, ...)
  * Users can select at this level to include all child specializations
  */
 export interface AudienceCategory {
-  id: 'academic' | 'business';
+  id: string;
   name: string;
   children: string[]; // Child specialization IDs
+  isBuiltin?: boolean;
 }
 
 /**
@@ -265,7 +320,7 @@ export interface AudienceCategory {
  */
 export interface AudienceSpecialization {
   id: string;
-  parentId: 'academic' | 'business';
+  parentId: string;
   name: string;
   description: string; // Domain-specific keywords for prompt context
   domainExamples: string; // Example use cases for this specialization
@@ -307,7 +362,9 @@ export interface EnhancedHistoryItem {
 
 export type LogSource = 'newsletter' | 'api_audit';
 
-export type NewsletterLogAction = 'created' | 'saved_to_drive' | 'sent_email' | 'scheduled_send';
+export type NewsletterLogAction = 'created' | 'saved_to_drive' | 'sent_email' | 'scheduled_send' | 'unsubscribed'
+  | 'recurring_generated' | 'recurring_approved' | 'recurring_rejected' | 'section_rewritten' | 'images_generated'
+  | 'edited' | 'images_updated' | 'restored' | 'citations_repaired';
 export type ApiAuditLogAction = 'save' | 'delete' | 'validate_success' | 'validate_failure';
 
 export interface UnifiedLogEntry {
@@ -375,6 +432,42 @@ export interface PersonaStats {
   active: string | null;
 }
 
+// ============================================================================
+// Writing Tone & Flavor Types
+// ============================================================================
+
+/**
+ * How a tone is executed in writing (fed to the generation prompts)
+ */
+export interface ToneExecutionRules {
+  sentenceConstruction: string[];  // How to build sentences
+  wordsToUse: string[];           // Preferred language patterns
+  wordsToAvoid: string[];         // Language to avoid
+  punctuationStyle: string;       // Punctuation guidance
+}
+
+export interface WritingTone {
+  id: string;  // Key stored in newsletter settings, e.g. 'confident'
+  label: string;
+  description: string;
+  sampleOutput: string;
+  executionRules: ToneExecutionRules;
+  isBuiltin: boolean;  // Built-ins are read-only
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WritingFlavor {
+  id: string;  // Key stored in newsletter settings, e.g. 'includeHumor'
+  label: string;
+  description: string;
+  instruction: string;              // What to include (stylistic instruction)
+  formattingRules: string | null;   // How to format content for this flavor
+  isBuiltin: boolean;  // Built-ins are read-only
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ============================================================================
 // Image Style Thumbnail Types
 // ============================================================================
@@ -603,6 +696,120 @@ export interface AudienceSectionResult {
   topics: TopicWithAudienceId[];
   sources: SourceCitation[];
   generationTimeMs: number;
+  /** What the section was written from, kept so it can be rewritten later */
+  input?: SectionGenerationInput;
+}
+
+/**
+ * Inputs to a single audience section generation
+ */
+export interface SectionGenerationInput {
+  audience: AudienceConfig;
+  topics: TopicWithAudienceId[];
+  /** Sources allocated to this audience */
+  sources: SourceWithContent[];
+  tone: string;
+  flavors: string[];
+  personaId?: string;
+}
+
+/**
+ * Proposed rewrite of one enhanced audience section (not saved until accepted)
+ */
+export interface SectionRewriteResult {
+  newsletterId: string;
+  audienceId: string;
+  original: EnhancedAudienceSection;
+  proposal: EnhancedAudienceSection;
+  instruction: string | null;
+  /**
+   * 'original' when the section's saved generation inputs were reused,
+   * 'reconstructed' when they predate input tracking and were rebuilt from the section
+   */
+  inputsSource: 'original' | 'reconstructed';
+}
+
+/**
+ * What produced a newsletter revision
+ */
+export type NewsletterRevisionSource =
+  | 'ai_generation' | 'inline_edit' | 'section_rewrite' | 'image_change' | 'citation_repair' | 'restore';
+
+/**
+ * Revision metadata (list view)
+ */
+export interface NewsletterRevisionSummary {
+  id: number;
+  newsletterId: string;
+  /** 1-based, per newsletter */
+  revisionNumber: number;
+  source: NewsletterRevisionSource;
+  author: string;
+  /** Revision ID this one restored, for source 'restore' */
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+/**
+ * Immutable snapshot of a newsletter after one save
+ */
+export interface NewsletterRevision extends NewsletterRevisionSummary {
+  formatVersion: 'v1' | 'v2';
+  newsletter: Newsletter | EnhancedNewsletter;
+}
+
+/**
+ * One changed field between two revisions, e.g. path "audienceSections[researcher].title"
+ */
+export interface NewsletterRevisionFieldChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  before: string | null;
+  after: string | null;
+  /** Image fields compare by content; before/after hold no image data */
+  isImage: boolean;
+}
+
+export interface NewsletterRevisionDiff {
+  from: NewsletterRevisionSummary;
+  to: NewsletterRevisionSummary;
+  changes: NewsletterRevisionFieldChange[];
+}
+
+/**
+ * Image slot of an enhanced newsletter: the header hero, the tool of the day,
+ * or one audience section (identified by audienceId)
+ */
+export interface NewsletterImageTarget {
+  kind: 'hero' | 'tool_of_the_day' | 'section';
+  audienceId?: string;
+}
+
+/**
+ * Image slot with its prompt and current image, for batch generation
+ */
+export interface NewsletterImageSlot extends NewsletterImageTarget {
+  label: string;
+  imagePrompt: string;
+  imageUrl?: string;
+}
+
+/**
+ * Progress event from batch image generation
+ */
+export interface NewsletterImageBatchEvent {
+  type: 'connected' | 'batch_start' | 'image_start' | 'image_complete' | 'image_error' | 'batch_complete' | 'error';
+  target?: NewsletterImageTarget;
+  label?: string;
+  imageUrl?: string;
+  imageStyle?: string;
+  error?: string;
+  completedCount?: number;
+  totalCount?: number;
+  failedCount?: number;
+  /** Stored newsletter with the new images, on batch_complete */
+  newsletter?: EnhancedNewsletter;
+  correlationId?: string;
 }
 
 /**
@@ -627,6 +834,8 @@ export interface SourceWithContent {
   snippet?: string;
   publication?: string;
   category?: string;
+  /** Set for passages retrieved from the knowledge base (rag_documents.id) */
+  kbDocumentId?: string;
 }
 
 // ============================================================================
@@ -637,6 +846,7 @@ export type RagDocumentStatus = 'pending' | 'indexed' | 'failed';
 export type RagDocumentSourceType = 'manual' | 'newsletter' | 'archive' | 'url' | 'paste';
 export type RagDocumentContentType = 'pdf' | 'txt' | 'md' | 'html' | 'text';
 export type RagMessageRole = 'user' | 'assistant';
+export type RagRecrawlPolicy = 'daily' | 'weekly' | 'never';
 
 /**
  * Document stored in the RAG knowledge base
@@ -656,6 +866,60 @@ export interface RagDocument {
   sourceUrl: string | null;
   newsletterId: string | null;
   contentHash: string | null;
+  /** Collection the document is filed in, if any */
+  collectionId: string | null;
+  /** Free-form tags (lowercase) */
+  tags: string[];
+  /** Re-crawl policy for URL documents; null follows the collection's */
+  recrawlPolicy: RagRecrawlPolicy | null;
+  /** 'broken' once re-crawls keep failing to fetch the source URL */
+  linkStatus: 'ok' | 'broken';
+  lastCheckedAt: string | null;
+  lastCheckError: string | null;
+}
+
+/**
+ * Earlier version of a re-crawled document (its content was replaced)
+ */
+export interface RagDocumentVersion {
+  id: number;
+  documentId: string;
+  version: number;
+  filename: string;
+  contentHash: string | null;
+  sizeBytes: number;
+  metadata: Record<string, unknown> | null;
+  geminiFileId: string | null;
+  indexedAt: string | null;
+  replacedAt: string;
+}
+
+/**
+ * Change found by a re-crawl: new content, a dead link, or a link working again
+ */
+export interface RagRecrawlEvent {
+  id: number;
+  documentId: string;
+  eventType: 'updated' | 'broken' | 'recovered';
+  detail: string | null;
+  createdAt: string;
+  filename: string;
+  sourceUrl: string | null;
+  linkStatus: string;
+}
+
+/**
+ * Named group of knowledge base documents (e.g. "vendor docs")
+ */
+export interface RagCollection {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Re-crawl policy for the collection's URL documents */
+  recrawlPolicy: RagRecrawlPolicy;
+  documentCount: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -664,6 +928,8 @@ export interface RagDocument {
 export interface RagChat {
   id: string;
   title: string;
+  /** Collections the chat searches; empty means the whole knowledge base */
+  collectionIds: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -699,6 +965,8 @@ export interface RagConfig {
   totalSizeBytes: number;
   createdAt: string;
   lastSyncAt: string | null;
+  /** Backend storing and searching the documents' content */
+  backend?: 'gemini' | 'local';
 }
 
 /**
@@ -726,6 +994,7 @@ export interface RagChatRequest {
   chatId?: string; // If undefined, creates new chat
   message: string;
   title?: string; // Optional title for new chats
+  collectionIds?: string[]; // Optional scope for new chats
 }
 
 /**
@@ -747,6 +1016,8 @@ export interface RagUploadRequest {
   content: string; // Base64 for files, plain text for paste
   sourceUrl?: string;
   metadata?: Record<string, unknown>;
+  collectionId?: string;
+  tags?: string[];
 }
 
 /**
@@ -771,6 +1042,9 @@ export interface RagUrlIndexRequest {
 export interface RagDocumentFilters {
   status?: RagDocumentStatus;
   sourceType?: RagDocumentSourceType;
+  /** Collection ID, or 'none' for documents not in a collection */
+  collectionId?: string;
+  tag?: string;
   limit?: number;
   offset?: number;
 }
\ No newline at end of file
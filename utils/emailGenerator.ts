@@ -345,6 +345,11 @@ const renderEnhancedSection = (section: EnhancedAudienceSection, index: number):
         `
         : '';
 
+    // Email has no copy button, so the CTA is rendered as a closing line
+    const ctaHtml = section.cta && section.cta.text
+        ? `<p style="font-family: ${fonts.sans}; font-size: 15px; font-weight: 600; color: ${colors.editorialRed}; margin: 24px 0 0 0;">${section.cta.text}</p>`
+        : '';
+
     const dividerHtml = index > 0
         ? `<hr style="border: none; border-top: 1px solid ${colors.borderSubtle}; margin: 48px 0 40px 0;">`
         : '';
@@ -364,6 +369,7 @@ const renderEnhancedSection = (section: EnhancedAudienceSection, index: number):
                     </div>
                     <div style="${contentStyle}">${formatContent(section.content)}</div>
                     ${practicalPromptHtml}
+                    ${ctaHtml}
                     ${sourcesHtml}
                 </td>
             </tr>